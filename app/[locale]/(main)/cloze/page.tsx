@@ -0,0 +1,58 @@
+import ClozeMenu from '@/features/Cloze/components/ClozeMenu';
+import type { Metadata } from 'next';
+import { generatePageMetadata } from '@/core/i18n/metadata-helpers';
+import { BreadcrumbSchema } from '@/shared/components/SEO/BreadcrumbSchema';
+import { LearningResourceSchema } from '@/shared/components/SEO/LearningResourceSchema';
+import { routing } from '@/core/i18n/routing';
+
+// Generate static pages for all locales at build time
+export function generateStaticParams() {
+  return routing.locales.map(locale => ({ locale }));
+}
+
+// ISR: Revalidate every hour
+export const revalidate = 3600;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const { locale } = await params;
+  return await generatePageMetadata('cloze', {
+    locale,
+    pathname: '/cloze',
+  });
+}
+
+export default async function ClozePage({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}) {
+  const { locale } = await params;
+
+  return (
+    <>
+      <BreadcrumbSchema
+        items={[
+          { name: 'Home', url: `https://kanadojo.com/${locale}` },
+          { name: 'Cloze', url: `https://kanadojo.com/${locale}/cloze` },
+        ]}
+      />
+      <LearningResourceSchema
+        name='Japanese Fill-in-the-Blank Sentence Practice'
+        description='Practice Japanese words in context with fill-in-the-blank sentences. Pick or type the missing word in real example sentences.'
+        url={`https://kanadojo.com/${locale}/cloze`}
+        learningResourceType='Quiz'
+        educationalLevel={['Beginner']}
+        teaches='Japanese vocabulary in sentence context'
+        assesses='Word recognition and usage in context'
+        timeRequired='PT15M'
+        isAccessibleForFree={true}
+        provider={{ name: 'KanaDojo', url: 'https://kanadojo.com' }}
+      />
+      <ClozeMenu />
+    </>
+  );
+}
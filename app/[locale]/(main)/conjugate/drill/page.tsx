@@ -0,0 +1,65 @@
+import DrillMenu from '@/features/Conjugator/components/DrillMenu';
+import type { Metadata } from 'next';
+import { generatePageMetadata } from '@/core/i18n/metadata-helpers';
+import { BreadcrumbSchema } from '@/shared/components/SEO/BreadcrumbSchema';
+import { LearningResourceSchema } from '@/shared/components/SEO/LearningResourceSchema';
+import { routing } from '@/core/i18n/routing';
+
+// Generate static pages for all locales at build time
+export function generateStaticParams() {
+  return routing.locales.map(locale => ({ locale }));
+}
+
+// ISR: Revalidate every hour
+export const revalidate = 3600;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const { locale } = await params;
+  return await generatePageMetadata('conjugateDrill', {
+    locale,
+    pathname: '/conjugate/drill',
+  });
+}
+
+export default async function ConjugateDrillPage({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}) {
+  const { locale } = await params;
+
+  return (
+    <>
+      <BreadcrumbSchema
+        items={[
+          { name: 'Home', url: `https://kanadojo.com/${locale}` },
+          {
+            name: 'Verb Conjugator',
+            url: `https://kanadojo.com/${locale}/conjugate`,
+          },
+          {
+            name: 'Conjugation Drill',
+            url: `https://kanadojo.com/${locale}/conjugate/drill`,
+          },
+        ]}
+      />
+      <LearningResourceSchema
+        name='Japanese Verb Conjugation Drill'
+        description='Drill Japanese verb conjugation: type the te-form, nai-form, potential, causative-passive and more for common godan, ichidan and irregular verbs.'
+        url={`https://kanadojo.com/${locale}/conjugate/drill`}
+        learningResourceType='Quiz'
+        educationalLevel={['Beginner', 'Intermediate']}
+        teaches='Japanese verb conjugation'
+        assesses='Producing conjugated verb forms'
+        timeRequired='PT15M'
+        isAccessibleForFree={true}
+        provider={{ name: 'KanaDojo', url: 'https://kanadojo.com' }}
+      />
+      <DrillMenu />
+    </>
+  );
+}
@@ -0,0 +1,48 @@
+import { DailyDojo } from '@/features/Daily';
+import type { Metadata } from 'next';
+import { generatePageMetadata } from '@/core/i18n/metadata-helpers';
+import { BreadcrumbSchema } from '@/shared/components/SEO/BreadcrumbSchema';
+import { routing } from '@/core/i18n/routing';
+
+// Generate static pages for all locales at build time
+export function generateStaticParams() {
+  return routing.locales.map(locale => ({ locale }));
+}
+
+// ISR: Revalidate every hour
+export const revalidate = 3600;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const { locale } = await params;
+  return await generatePageMetadata('daily', {
+    locale,
+    pathname: '/daily',
+  });
+}
+
+export default async function DailyPage({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}) {
+  const { locale } = await params;
+
+  return (
+    <>
+      <BreadcrumbSchema
+        items={[
+          { name: 'Home', url: `https://kanadojo.com/${locale}` },
+          {
+            name: 'Daily Dojo',
+            url: `https://kanadojo.com/${locale}/daily`,
+          },
+        ]}
+      />
+      <DailyDojo />
+    </>
+  );
+}
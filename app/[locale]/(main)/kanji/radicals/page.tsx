@@ -0,0 +1,61 @@
+import { RadicalBrowser } from '@/features/Kanji';
+import type { Metadata } from 'next';
+import { generatePageMetadata } from '@/core/i18n/metadata-helpers';
+import { BreadcrumbSchema } from '@/shared/components/SEO/BreadcrumbSchema';
+import { LearningResourceSchema } from '@/shared/components/SEO/LearningResourceSchema';
+import { routing } from '@/core/i18n/routing';
+
+// Generate static pages for all locales at build time
+export function generateStaticParams() {
+  return routing.locales.map(locale => ({ locale }));
+}
+
+// ISR: Revalidate every hour
+export const revalidate = 3600;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const { locale } = await params;
+  return await generatePageMetadata('kanjiRadicals', {
+    locale,
+    pathname: '/kanji/radicals',
+  });
+}
+
+export default async function KanjiRadicalsPage({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}) {
+  const { locale } = await params;
+
+  return (
+    <>
+      <BreadcrumbSchema
+        items={[
+          { name: 'Home', url: `https://kanadojo.com/${locale}` },
+          { name: 'Kanji', url: `https://kanadojo.com/${locale}/kanji` },
+          {
+            name: 'Radicals',
+            url: `https://kanadojo.com/${locale}/kanji/radicals`,
+          },
+        ]}
+      />
+      <LearningResourceSchema
+        name='Kanji by Radical'
+        description='Browse the JLPT kanji by their Kangxi radical, ordered from simplest to most complex, and train the kanji that share a radical together.'
+        url={`https://kanadojo.com/${locale}/kanji/radicals`}
+        learningResourceType='Interactive'
+        educationalLevel={['Beginner', 'Intermediate', 'Advanced']}
+        teaches='Kanji radicals and components'
+        timeRequired='PT10M'
+        isAccessibleForFree={true}
+        provider={{ name: 'KanaDojo', url: 'https://kanadojo.com' }}
+      />
+      <RadicalBrowser />
+    </>
+  );
+}
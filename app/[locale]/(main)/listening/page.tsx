@@ -0,0 +1,61 @@
+import ListeningMenu from '@/features/Listening/components/ListeningMenu';
+import type { Metadata } from 'next';
+import { generatePageMetadata } from '@/core/i18n/metadata-helpers';
+import { BreadcrumbSchema } from '@/shared/components/SEO/BreadcrumbSchema';
+import { LearningResourceSchema } from '@/shared/components/SEO/LearningResourceSchema';
+import { routing } from '@/core/i18n/routing';
+
+// Generate static pages for all locales at build time
+export function generateStaticParams() {
+  return routing.locales.map(locale => ({ locale }));
+}
+
+// ISR: Revalidate every hour
+export const revalidate = 3600;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const { locale } = await params;
+  return await generatePageMetadata('listening', {
+    locale,
+    pathname: '/listening',
+  });
+}
+
+export default async function ListeningPage({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}) {
+  const { locale } = await params;
+
+  return (
+    <>
+      <BreadcrumbSchema
+        items={[
+          { name: 'Home', url: `https://kanadojo.com/${locale}` },
+          {
+            name: 'Listening',
+            url: `https://kanadojo.com/${locale}/listening`,
+          },
+        ]}
+      />
+      <LearningResourceSchema
+        name='Japanese Listening Practice'
+        description='Train your ear with spoken kana, kanji compounds and vocabulary. Answer by typing in romaji or kana, or by picking what you heard.'
+        url={`https://kanadojo.com/${locale}/listening`}
+        learningResourceType='Activity'
+        educationalLevel={['Beginner', 'Intermediate', 'Advanced']}
+        teaches='Japanese listening comprehension'
+        assesses='Recognizing spoken kana and Japanese words'
+        timeRequired='PT15M'
+        isAccessibleForFree={true}
+        provider={{ name: 'KanaDojo', url: 'https://kanadojo.com' }}
+      />
+      <ListeningMenu />
+    </>
+  );
+}
@@ -0,0 +1,49 @@
+import { Suspense } from 'react';
+import { StudySetManager } from '@/features/StudySets';
+import type { Metadata } from 'next';
+import { generatePageMetadata } from '@/core/i18n/metadata-helpers';
+import { BreadcrumbSchema } from '@/shared/components/SEO/BreadcrumbSchema';
+import { routing } from '@/core/i18n/routing';
+
+// Generate static pages for all locales at build time
+export function generateStaticParams() {
+  return routing.locales.map(locale => ({ locale }));
+}
+
+// ISR: Revalidate every hour
+export const revalidate = 3600;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const { locale } = await params;
+  return await generatePageMetadata('studySets', {
+    locale,
+    pathname: '/sets',
+  });
+}
+
+export default async function StudySetsPage({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}) {
+  const { locale } = await params;
+
+  return (
+    <>
+      <BreadcrumbSchema
+        items={[
+          { name: 'Home', url: `https://kanadojo.com/${locale}` },
+          { name: 'My Sets', url: `https://kanadojo.com/${locale}/sets` },
+        ]}
+      />
+      {/* Reads shared sets from the query string */}
+      <Suspense fallback={null}>
+        <StudySetManager />
+      </Suspense>
+    </>
+  );
+}
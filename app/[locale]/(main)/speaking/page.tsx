@@ -0,0 +1,61 @@
+import { SpeakingDrill } from '@/features/Speaking';
+import type { Metadata } from 'next';
+import { generatePageMetadata } from '@/core/i18n/metadata-helpers';
+import { BreadcrumbSchema } from '@/shared/components/SEO/BreadcrumbSchema';
+import { LearningResourceSchema } from '@/shared/components/SEO/LearningResourceSchema';
+import { routing } from '@/core/i18n/routing';
+
+// Generate static pages for all locales at build time
+export function generateStaticParams() {
+  return routing.locales.map(locale => ({ locale }));
+}
+
+// ISR: Revalidate every hour
+export const revalidate = 3600;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const { locale } = await params;
+  return await generatePageMetadata('speaking', {
+    locale,
+    pathname: '/speaking',
+  });
+}
+
+export default async function SpeakingPage({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}) {
+  const { locale } = await params;
+
+  return (
+    <>
+      <BreadcrumbSchema
+        items={[
+          { name: 'Home', url: `https://kanadojo.com/${locale}` },
+          {
+            name: 'Speaking',
+            url: `https://kanadojo.com/${locale}/speaking`,
+          },
+        ]}
+      />
+      <LearningResourceSchema
+        name='Japanese Speaking Practice'
+        description='Read kana, words and sentences out loud and get a mora-by-mora score of your pronunciation.'
+        url={`https://kanadojo.com/${locale}/speaking`}
+        learningResourceType='Activity'
+        educationalLevel={['Beginner', 'Intermediate', 'Advanced']}
+        teaches='Japanese pronunciation'
+        assesses='Reading kana, words and sentences aloud'
+        timeRequired='PT10M'
+        isAccessibleForFree={true}
+        provider={{ name: 'KanaDojo', url: 'https://kanadojo.com' }}
+      />
+      <SpeakingDrill />
+    </>
+  );
+}
@@ -1,4 +1,5 @@
 import { ConverterInterface } from '@/features/AnkiConverter/components/ConverterInterface';
+import { ApkgExportPanel } from '@/features/AnkiConverter/components/ApkgExportPanel';
 import { routing } from '@/core/i18n/routing';
 import { FAQSchema, type FAQItem } from '@/shared/components/SEO/FAQSchema';
 import {
@@ -255,6 +256,11 @@ export default function AnkiConverterPage() {
           <ConverterInterface />
         </section>
 
+        {/* Export Tool */}
+        <section aria-label='Export to Anki' className='mb-12'>
+          <ApkgExportPanel />
+        </section>
+
         {/* Content sections for SEO */}
         <div className='mt-12 space-y-10 text-(--secondary-color)'>
           {/* Supported Formats Section */}
@@ -0,0 +1,58 @@
+import WritingMenu from '@/features/Writing/components/WritingMenu';
+import type { Metadata } from 'next';
+import { generatePageMetadata } from '@/core/i18n/metadata-helpers';
+import { BreadcrumbSchema } from '@/shared/components/SEO/BreadcrumbSchema';
+import { LearningResourceSchema } from '@/shared/components/SEO/LearningResourceSchema';
+import { routing } from '@/core/i18n/routing';
+
+// Generate static pages for all locales at build time
+export function generateStaticParams() {
+  return routing.locales.map(locale => ({ locale }));
+}
+
+// ISR: Revalidate every hour
+export const revalidate = 3600;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const { locale } = await params;
+  return await generatePageMetadata('writing', {
+    locale,
+    pathname: '/writing',
+  });
+}
+
+export default async function WritingPage({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}) {
+  const { locale } = await params;
+
+  return (
+    <>
+      <BreadcrumbSchema
+        items={[
+          { name: 'Home', url: `https://kanadojo.com/${locale}` },
+          { name: 'Writing', url: `https://kanadojo.com/${locale}/writing` },
+        ]}
+      />
+      <LearningResourceSchema
+        name='Japanese Stroke Order Practice'
+        description='Practice writing hiragana, katakana and JLPT kanji by hand. Strokes are checked for count, order and direction, with animated stroke order.'
+        url={`https://kanadojo.com/${locale}/writing`}
+        learningResourceType='Activity'
+        educationalLevel={['Beginner', 'Intermediate', 'Advanced']}
+        teaches='Japanese stroke order'
+        assesses='Writing kana and kanji with correct stroke order'
+        timeRequired='PT15M'
+        isAccessibleForFree={true}
+        provider={{ name: 'KanaDojo', url: 'https://kanadojo.com' }}
+      />
+      <WritingMenu />
+    </>
+  );
+}
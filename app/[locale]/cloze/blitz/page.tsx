@@ -0,0 +1,51 @@
+import BlitzCloze from '@/features/Cloze/components/Blitz';
+import type { Metadata } from 'next';
+import { generatePageMetadata } from '@/core/i18n/metadata-helpers';
+import { routing } from '@/core/i18n/routing';
+import { LearningResourceSchema } from '@/shared/components/SEO/LearningResourceSchema';
+import { BreadcrumbSchema } from '@/shared/components/SEO/BreadcrumbSchema';
+
+export function generateStaticParams() {
+  return routing.locales.map(locale => ({ locale }));
+}
+
+export const revalidate = 3600;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const { locale } = await params;
+  return await generatePageMetadata('clozeBlitz', {
+    locale,
+    pathname: '/cloze/blitz',
+  });
+}
+
+export default function BlitzPage() {
+  return (
+    <>
+      <BreadcrumbSchema
+        items={[
+          { name: 'Home', url: 'https://kanadojo.com' },
+          { name: 'Cloze', url: 'https://kanadojo.com/cloze' },
+          { name: 'Blitz', url: 'https://kanadojo.com/cloze/blitz' },
+        ]}
+      />
+      <LearningResourceSchema
+        name='Japanese Cloze Blitz Mode'
+        description='Fast-paced Japanese fill-in-the-blank game. Complete as many sentences as you can before the timer runs out.'
+        url='https://kanadojo.com/cloze/blitz'
+        learningResourceType='Game'
+        educationalLevel={['Beginner']}
+        teaches='Japanese vocabulary in sentence context'
+        assesses='Speed and accuracy of word recognition in context'
+        timeRequired='PT5M'
+        isAccessibleForFree={true}
+        provider={{ name: 'KanaDojo', url: 'https://kanadojo.com' }}
+      />
+      <BlitzCloze />
+    </>
+  );
+}
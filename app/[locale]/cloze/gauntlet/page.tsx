@@ -0,0 +1,51 @@
+import GauntletCloze from '@/features/Cloze/components/Gauntlet';
+import type { Metadata } from 'next';
+import { generatePageMetadata } from '@/core/i18n/metadata-helpers';
+import { routing } from '@/core/i18n/routing';
+import { LearningResourceSchema } from '@/shared/components/SEO/LearningResourceSchema';
+import { BreadcrumbSchema } from '@/shared/components/SEO/BreadcrumbSchema';
+
+export function generateStaticParams() {
+  return routing.locales.map(locale => ({ locale }));
+}
+
+export const revalidate = 3600;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const { locale } = await params;
+  return await generatePageMetadata('clozeGauntlet', {
+    locale,
+    pathname: '/cloze/gauntlet',
+  });
+}
+
+export default function GauntletPage() {
+  return (
+    <>
+      <BreadcrumbSchema
+        items={[
+          { name: 'Home', url: 'https://kanadojo.com' },
+          { name: 'Cloze', url: 'https://kanadojo.com/cloze' },
+          { name: 'Gauntlet', url: 'https://kanadojo.com/cloze/gauntlet' },
+        ]}
+      />
+      <LearningResourceSchema
+        name='Japanese Cloze Gauntlet Mode'
+        description='Complete every fill-in-the-blank sentence several times without running out of lives.'
+        url='https://kanadojo.com/cloze/gauntlet'
+        learningResourceType='Assessment'
+        educationalLevel={['Beginner']}
+        teaches='Japanese vocabulary in sentence context'
+        assesses='Consistent word recognition in context'
+        timeRequired='PT15M'
+        isAccessibleForFree={true}
+        provider={{ name: 'KanaDojo', url: 'https://kanadojo.com' }}
+      />
+      <GauntletCloze />
+    </>
+  );
+}
@@ -0,0 +1,46 @@
+import ClozeGame from '@/features/Cloze/components/Game';
+import type { Metadata } from 'next';
+import { generatePageMetadata } from '@/core/i18n/metadata-helpers';
+import { CourseSchema } from '@/shared/components/SEO/CourseSchema';
+import { BreadcrumbSchema } from '@/shared/components/SEO/BreadcrumbSchema';
+import { routing } from '@/core/i18n/routing';
+
+export function generateStaticParams() {
+  return routing.locales.map(locale => ({ locale }));
+}
+
+export const revalidate = 3600;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const { locale } = await params;
+  return await generatePageMetadata('clozeTrain', {
+    locale,
+    pathname: '/cloze/train',
+  });
+}
+
+export default function Train() {
+  return (
+    <>
+      <BreadcrumbSchema
+        items={[
+          { name: 'Home', url: 'https://kanadojo.com' },
+          { name: 'Cloze', url: 'https://kanadojo.com/cloze' },
+          { name: 'Training', url: 'https://kanadojo.com/cloze/train' },
+        ]}
+      />
+      <CourseSchema
+        name='Japanese Cloze Sentence Training'
+        description='Learn Japanese words in context by completing example sentences. Interactive fill-in-the-blank exercises with English translations.'
+        url='https://kanadojo.com/cloze/train'
+        skillLevel='Beginner'
+        learningResourceType='Interactive Sentence Training'
+      />
+      <ClozeGame />
+    </>
+  );
+}
@@ -0,0 +1,53 @@
+import DrillGame from '@/features/Conjugator/components/DrillGame';
+import type { Metadata } from 'next';
+import { generatePageMetadata } from '@/core/i18n/metadata-helpers';
+import { CourseSchema } from '@/shared/components/SEO/CourseSchema';
+import { BreadcrumbSchema } from '@/shared/components/SEO/BreadcrumbSchema';
+import { routing } from '@/core/i18n/routing';
+
+export function generateStaticParams() {
+  return routing.locales.map(locale => ({ locale }));
+}
+
+export const revalidate = 3600;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const { locale } = await params;
+  return await generatePageMetadata('conjugateDrillTrain', {
+    locale,
+    pathname: '/conjugate/drill/train',
+  });
+}
+
+export default function Train() {
+  return (
+    <>
+      <BreadcrumbSchema
+        items={[
+          { name: 'Home', url: 'https://kanadojo.com' },
+          { name: 'Verb Conjugator', url: 'https://kanadojo.com/conjugate' },
+          {
+            name: 'Conjugation Drill',
+            url: 'https://kanadojo.com/conjugate/drill',
+          },
+          {
+            name: 'Training',
+            url: 'https://kanadojo.com/conjugate/drill/train',
+          },
+        ]}
+      />
+      <CourseSchema
+        name='Japanese Verb Conjugation Training'
+        description='Type conjugated forms of common Japanese verbs in kana or romaji and track your accuracy per form and verb class.'
+        url='https://kanadojo.com/conjugate/drill/train'
+        skillLevel='Beginner'
+        learningResourceType='Interactive Conjugation Training'
+      />
+      <DrillGame />
+    </>
+  );
+}
@@ -0,0 +1,38 @@
+import ReviewQueue from '@/shared/components/Review/ReviewQueue';
+import type { Metadata } from 'next';
+import { generatePageMetadata } from '@/core/i18n/metadata-helpers';
+import { BreadcrumbSchema } from '@/shared/components/SEO/BreadcrumbSchema';
+import { routing } from '@/core/i18n/routing';
+
+export function generateStaticParams() {
+  return routing.locales.map(locale => ({ locale }));
+}
+
+export const revalidate = 3600;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const { locale } = await params;
+  return await generatePageMetadata('kanjiReview', {
+    locale,
+    pathname: '/kanji/review',
+  });
+}
+
+export default function Review() {
+  return (
+    <>
+      <BreadcrumbSchema
+        items={[
+          { name: 'Home', url: 'https://kanadojo.com' },
+          { name: 'Kanji', url: 'https://kanadojo.com/kanji' },
+          { name: 'Reviews', url: 'https://kanadojo.com/kanji/review' },
+        ]}
+      />
+      <ReviewQueue contentType='kanji' />
+    </>
+  );
+}
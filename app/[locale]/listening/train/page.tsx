@@ -0,0 +1,46 @@
+import ListeningGame from '@/features/Listening/components/ListeningGame';
+import type { Metadata } from 'next';
+import { generatePageMetadata } from '@/core/i18n/metadata-helpers';
+import { CourseSchema } from '@/shared/components/SEO/CourseSchema';
+import { BreadcrumbSchema } from '@/shared/components/SEO/BreadcrumbSchema';
+import { routing } from '@/core/i18n/routing';
+
+export function generateStaticParams() {
+  return routing.locales.map(locale => ({ locale }));
+}
+
+export const revalidate = 3600;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const { locale } = await params;
+  return await generatePageMetadata('listeningTrain', {
+    locale,
+    pathname: '/listening/train',
+  });
+}
+
+export default function Train() {
+  return (
+    <>
+      <BreadcrumbSchema
+        items={[
+          { name: 'Home', url: 'https://kanadojo.com' },
+          { name: 'Listening', url: 'https://kanadojo.com/listening' },
+          { name: 'Training', url: 'https://kanadojo.com/listening/train' },
+        ]}
+      />
+      <CourseSchema
+        name='Japanese Listening Training'
+        description='Hear kana and Japanese words and answer by typing or picking, with limited replays and adjustable speed.'
+        url='https://kanadojo.com/listening/train'
+        skillLevel='Beginner'
+        learningResourceType='Interactive Listening Training'
+      />
+      <ListeningGame />
+    </>
+  );
+}
@@ -0,0 +1,38 @@
+import ReviewQueue from '@/shared/components/Review/ReviewQueue';
+import type { Metadata } from 'next';
+import { generatePageMetadata } from '@/core/i18n/metadata-helpers';
+import { BreadcrumbSchema } from '@/shared/components/SEO/BreadcrumbSchema';
+import { routing } from '@/core/i18n/routing';
+
+export function generateStaticParams() {
+  return routing.locales.map(locale => ({ locale }));
+}
+
+export const revalidate = 3600;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const { locale } = await params;
+  return await generatePageMetadata('vocabularyReview', {
+    locale,
+    pathname: '/vocabulary/review',
+  });
+}
+
+export default function Review() {
+  return (
+    <>
+      <BreadcrumbSchema
+        items={[
+          { name: 'Home', url: 'https://kanadojo.com' },
+          { name: 'Vocabulary', url: 'https://kanadojo.com/vocabulary' },
+          { name: 'Reviews', url: 'https://kanadojo.com/vocabulary/review' },
+        ]}
+      />
+      <ReviewQueue contentType='vocabulary' />
+    </>
+  );
+}
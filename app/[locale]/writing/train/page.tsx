@@ -0,0 +1,46 @@
+import WritingGame from '@/features/Writing/components/WritingGame';
+import type { Metadata } from 'next';
+import { generatePageMetadata } from '@/core/i18n/metadata-helpers';
+import { CourseSchema } from '@/shared/components/SEO/CourseSchema';
+import { BreadcrumbSchema } from '@/shared/components/SEO/BreadcrumbSchema';
+import { routing } from '@/core/i18n/routing';
+
+export function generateStaticParams() {
+  return routing.locales.map(locale => ({ locale }));
+}
+
+export const revalidate = 3600;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const { locale } = await params;
+  return await generatePageMetadata('writingTrain', {
+    locale,
+    pathname: '/writing/train',
+  });
+}
+
+export default function Train() {
+  return (
+    <>
+      <BreadcrumbSchema
+        items={[
+          { name: 'Home', url: 'https://kanadojo.com' },
+          { name: 'Writing', url: 'https://kanadojo.com/writing' },
+          { name: 'Training', url: 'https://kanadojo.com/writing/train' },
+        ]}
+      />
+      <CourseSchema
+        name='Japanese Handwriting Training'
+        description='Draw kana and kanji stroke by stroke and get feedback on stroke count, order and direction.'
+        url='https://kanadojo.com/writing/train'
+        skillLevel='Beginner'
+        learningResourceType='Interactive Writing Training'
+      />
+      <WritingGame />
+    </>
+  );
+}
@@ -9,30 +9,11 @@ import {
   setRedisCachedJson,
 } from '@/shared/lib/apiCache';
 import type { ApiErrorResponse } from '@/shared/types/api';
-
-// Type for kuromoji token
-interface KuromojiToken {
-  surface_form: string; // The actual text
-  pos: string; // Part of speech
-  pos_detail_1: string; // POS detail 1
-  pos_detail_2: string; // POS detail 2
-  pos_detail_3: string; // POS detail 3
-  conjugated_type: string; // Conjugation type
-  conjugated_form: string; // Conjugation form
-  basic_form: string; // Dictionary form
-  reading: string; // Katakana reading
-  pronunciation: string; // Pronunciation
-}
-
-// Simplified token for client
-export interface AnalyzedToken {
-  surface: string; // The displayed text
-  reading?: string; // Hiragana reading
-  basicForm?: string; // Dictionary form
-  pos: string; // Part of speech tag
-  posDetail: string; // Detailed POS info
-  translation?: string; // English meaning (if available)
-}
+import type {
+  AnalyzedToken,
+  KuromojiToken,
+} from '@/shared/lib/textAnalysis/types';
+import { toAnalyzedTokens } from '@/shared/lib/textAnalysis/tokens';
 
 const ERROR_CODES = {
   INVALID_INPUT: 'INVALID_INPUT',
@@ -107,63 +88,6 @@ async function getKuroshiro(): Promise<KuroshiroInstance> {
   return kuroshiroInstance;
 }
 
-/**
- * Convert katakana reading to hiragana
- */
-function katakanaToHiragana(katakana: string): string {
-  if (!katakana) return '';
-  return katakana.replace(/[\u30A1-\u30F6]/g, match => {
-    const chr = match.charCodeAt(0) - 0x60;
-    return String.fromCharCode(chr);
-  });
-}
-
-/**
- * Get simplified POS tag (more readable)
- */
-function getSimplifiedPOS(pos: string, _posDetail1: string): string {
-  const posMap: Record<string, string> = {
-    名詞: 'Noun',
-    動詞: 'Verb',
-    形容詞: 'Adjective',
-    形容動詞: 'Na-adjective',
-    副詞: 'Adverb',
-    助詞: 'Particle',
-    助動詞: 'Auxiliary',
-    接続詞: 'Conjunction',
-    連体詞: 'Pre-noun',
-    感動詞: 'Interjection',
-    記号: 'Symbol',
-    フィラー: 'Filler',
-    接頭詞: 'Prefix',
-    接尾辞: 'Suffix',
-  };
-
-  return posMap[pos] || pos;
-}
-
-/**
- * Get POS detail information
- */
-function getPOSDetail(token: KuromojiToken): string {
-  const details: string[] = [];
-
-  // Add conjugation info for verbs/adjectives
-  if (token.conjugated_type !== '*') {
-    details.push(token.conjugated_type);
-  }
-  if (token.conjugated_form !== '*') {
-    details.push(token.conjugated_form);
-  }
-
-  // Add pos details
-  if (token.pos_detail_1 !== '*') {
-    details.push(token.pos_detail_1);
-  }
-
-  return details.join(', ') || 'No additional info';
-}
-
 /**
  * POST /api/analyze-text
  * Analyzes Japanese text using Kuromoji to extract word-by-word information
@@ -263,13 +187,7 @@ export async function POST(request: NextRequest) {
     const kuromojiTokens = await kuroshiro._analyzer.parse(text);
 
     // Convert to simplified format
-    const analyzedTokens: AnalyzedToken[] = kuromojiTokens.map(token => ({
-      surface: token.surface_form,
-      reading: katakanaToHiragana(token.reading),
-      basicForm: token.basic_form !== '*' ? token.basic_form : undefined,
-      pos: getSimplifiedPOS(token.pos, token.pos_detail_1),
-      posDetail: getPOSDetail(token),
-    }));
+    const analyzedTokens = toAnalyzedTokens(kuromojiTokens);
 
     // Cache the result
     await setRedisCachedJson(
@@ -3,10 +3,17 @@ import { NextRequest } from 'next/server';
 
 export const runtime = 'edge';
 
+// Daily Dojo grid: squares per row, and at most this many squares
+const GRID_WIDTH = 5;
+const MAX_GRID_SQUARES = 30;
+
 /**
  * OG Image Generation Endpoint
  * Generates dynamic Open Graph images for social media sharing
  * URL: /api/og?title=...&description=...&type=...
+ *
+ * Daily Dojo result cards add `grid`, the answers as 1 (right) and 0
+ * (wrong), drawn as rows of squares like the shared emoji grid.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -16,6 +23,13 @@ export async function GET(request: NextRequest) {
       searchParams.get('description') ||
       'Master Japanese with interactive learning';
     const type = searchParams.get('type') || 'default';
+    const grid = (searchParams.get('grid') || '')
+      .replace(/[^01]/g, '')
+      .slice(0, MAX_GRID_SQUARES);
+    const gridRows: string[] = [];
+    for (let i = 0; i < grid.length; i += GRID_WIDTH) {
+      gridRows.push(grid.slice(i, i + GRID_WIDTH));
+    }
 
     // Define colors and gradients based on type
     const themes = {
@@ -34,6 +48,11 @@ export async function GET(request: NextRequest) {
         icon: '語',
         accentColor: '#00f2fe',
       },
+      daily: {
+        gradient: 'linear-gradient(135deg, #43e97b 0%, #38f9d7 100%)',
+        icon: '日',
+        accentColor: '#43e97b',
+      },
       academy: {
         gradient: 'linear-gradient(135deg, #fa709a 0%, #fee140 100%)',
         icon: '学',
@@ -156,6 +175,35 @@ export async function GET(request: NextRequest) {
               {description}
             </div>
           )}
+
+          {/* Daily Dojo Grid */}
+          {gridRows.length > 0 && (
+            <div
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '12px',
+                marginTop: '40px',
+              }}
+            >
+              {gridRows.map((row, rowIndex) => (
+                <div key={rowIndex} style={{ display: 'flex', gap: '12px' }}>
+                  {row.split('').map((square, index) => (
+                    <div
+                      key={index}
+                      style={{
+                        width: '56px',
+                        height: '56px',
+                        borderRadius: '10px',
+                        background: square === '1' ? '#22c55e' : '#ef4444',
+                        boxShadow: '0 4px 12px rgba(0,0,0,0.2)',
+                      }}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Bottom Badge */}
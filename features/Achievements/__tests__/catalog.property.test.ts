@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import catalogData from '../data/achievements.json';
+import {
+  ACHIEVEMENTS,
+  COLLECTIBLE_ACHIEVEMENT_COUNT,
+  getAffectedAchievements,
+  parseAchievementCatalog,
+} from '../lib/achievementCatalog';
+import {
+  evaluateRule,
+  getRuleDependencies,
+  type AchievementSnapshot,
+} from '../lib/achievementRules';
+
+/**
+ * **Feature: achievement-rules**
+ * The shipped catalog is valid, malformed catalogs are rejected with every
+ * problem listed, and an incremental check after a stat change unlocks the
+ * same achievements a full check would.
+ */
+
+const snapshotArb: fc.Arbitrary<AchievementSnapshot> = fc.record({
+  allTimeStats: fc.record({
+    totalCorrect: fc.nat(30000),
+    totalIncorrect: fc.nat(5000),
+    bestStreak: fc.nat(600),
+    totalSessions: fc.nat(1200),
+    maxWrongStreak: fc.nat(10),
+    trainingDays: fc.array(fc.constant('2026-01-01'), { maxLength: 400 }),
+    gauntletStats: fc.record({
+      completedRuns: fc.nat(60),
+      perfectRuns: fc.nat(3),
+      noDeathRuns: fc.nat(3),
+    }),
+  }),
+  achievements: fc.record({
+    unlockedCount: fc.nat(120),
+    totalPoints: fc.nat(12000),
+    collectibleCount: fc.constant(COLLECTIBLE_ACHIEVEMENT_COUNT),
+  }),
+  now: fc.constant(Date.UTC(2026, 0, 1, 12)),
+});
+
+describe('achievement catalog', () => {
+  it('ships a valid catalog with unique ids', () => {
+    expect(parseAchievementCatalog(catalogData)).toHaveLength(
+      ACHIEVEMENTS.length,
+    );
+    expect(new Set(ACHIEVEMENTS.map(a => a.id)).size).toBe(ACHIEVEMENTS.length);
+  });
+
+  it('rejects malformed entries, listing each problem', () => {
+    const [first, second] = catalogData.achievements;
+    expect(() =>
+      parseAchievementCatalog({
+        version: 1,
+        achievements: [
+          { ...first, rarity: 'mythic' },
+          { ...second, id: first.id, rule: { stat: 'bogus', gte: 1 } },
+        ],
+      }),
+    ).toThrow(/rarity[\s\S]*rule\.stat[\s\S]*duplicate id/);
+    expect(() =>
+      parseAchievementCatalog({ version: 2, achievements: [] }),
+    ).toThrow(/version/);
+    expect(() => parseAchievementCatalog([])).toThrow();
+  });
+
+  it('re-evaluates every achievement a stat change can unlock', () => {
+    fc.assert(
+      fc.property(
+        snapshotArb,
+        fc.constantFrom(
+          'totalCorrect',
+          'bestStreak',
+          'totalSessions',
+          'maxWrongStreak',
+        ),
+        fc.nat(30000),
+        (before, stat, value) => {
+          const after = {
+            ...before,
+            allTimeStats: { ...before.allTimeStats, [stat]: value },
+          };
+          const affected = new Set(
+            getAffectedAchievements([`allTimeStats.${stat}`]),
+          );
+          for (const achievement of ACHIEVEMENTS) {
+            if (affected.has(achievement)) continue;
+            expect(evaluateRule(achievement.rule, after)).toBe(
+              evaluateRule(achievement.rule, before),
+            );
+          }
+        },
+      ),
+      { numRuns: 50 },
+    );
+  });
+
+  it('asks the completionist for every achievement that is not counting', () => {
+    const completionist = ACHIEVEMENTS.find(a => a.id === 'completionist')!;
+    const metaCount = ACHIEVEMENTS.filter(a =>
+      getRuleDependencies(a.rule).includes('achievements.unlockedCount'),
+    ).length;
+    expect(COLLECTIBLE_ACHIEVEMENT_COUNT).toBe(ACHIEVEMENTS.length - metaCount);
+
+    const snapshot = (unlockedCount: number): AchievementSnapshot => ({
+      allTimeStats: {},
+      achievements: {
+        unlockedCount,
+        totalPoints: 0,
+        collectibleCount: COLLECTIBLE_ACHIEVEMENT_COUNT,
+      },
+      now: 0,
+    });
+    expect(
+      evaluateRule(completionist.rule, snapshot(COLLECTIBLE_ACHIEVEMENT_COUNT)),
+    ).toBe(true);
+    expect(
+      evaluateRule(
+        completionist.rule,
+        snapshot(COLLECTIBLE_ACHIEVEMENT_COUNT - 1),
+      ),
+    ).toBe(false);
+  });
+});
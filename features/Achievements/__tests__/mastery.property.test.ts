@@ -1,6 +1,12 @@
 import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
 import { ACHIEVEMENTS, type Achievement } from '../store/useAchievementStore';
+import { COLLECTIBLE_ACHIEVEMENT_COUNT } from '../lib/achievementCatalog';
+import {
+  evaluateRule,
+  getRuleDependencies,
+  type AchievementSnapshot,
+} from '../lib/achievementRules';
 
 /**
  * **Feature: expanded-achievements, Property 2: Mastery Achievement Unlocking**
@@ -11,257 +17,187 @@ import { ACHIEVEMENTS, type Achievement } from '../store/useAchievementStore';
  */
 
 // Filter mastery-based achievements
-const masteryAchievements = ACHIEVEMENTS.filter(
-  a => a.requirements.type === 'content_mastery',
+const masteryAchievements = ACHIEVEMENTS.filter(a =>
+  getRuleDependencies(a.rule).includes('allTimeStats.characterMastery'),
 );
 
-// Helper to create character mastery data
-function createCharacterMastery(
-  numCharacters: number,
-  accuracy: number,
-  minAnswers: number = 10,
-): Record<string, { correct: number; incorrect: number }> {
-  const mastery: Record<string, { correct: number; incorrect: number }> = {};
+const byId = (...ids: string[]) =>
+  masteryAchievements.filter(a => ids.includes(a.id));
 
-  for (let i = 0; i < numCharacters; i++) {
-    const charId = `char_${i}`;
-    // Calculate correct/incorrect to achieve target accuracy
-    const total = minAnswers;
-    const correct = Math.round((accuracy / 100) * total);
-    const incorrect = total - correct;
-
-    mastery[charId] = { correct, incorrect };
-  }
-
-  return mastery;
-}
+const kanaMasteryAchievements = byId(
+  'hiragana_perfectionist',
+  'katakana_perfectionist',
+);
+const kanjiMasteryAchievements = masteryAchievements.filter(a =>
+  a.id.endsWith('_graduate'),
+);
+const vocabMasteryAchievements = byId('word_wizard', 'linguistic_legend');
 
-// Helper to create stats for mastery achievement
-function createStatsForMasteryAchievement(
-  achievement: Achievement,
-  meetsThreshold: boolean,
-  numCharacters: number = 10,
-): { allTimeStats: Record<string, unknown> } {
-  const { value, additional } = achievement.requirements;
-  const minAnswers = additional?.minAnswers ?? 10;
+const HIRAGANA = [
+  ...'あいうえおかきくけこさしすせそたちつてとなにぬねのはひふへほまみむめもやゆよらりるれろわをん',
+];
+const KATAKANA = HIRAGANA.map(kana =>
+  String.fromCharCode(kana.charCodeAt(0) + 0x60),
+);
+const KANJI = [...'日一国人年大十二本中長出三時行見月分後前'];
 
-  // For mastery achievements, value is the accuracy threshold
-  const targetAccuracy = meetsThreshold ? value : Math.max(0, value - 10);
+type MasteryEntry = { correct: number; incorrect: number };
 
-  const characterMastery = createCharacterMastery(
-    numCharacters,
-    targetAccuracy,
-    minAnswers,
-  );
+// Answers with the given accuracy in percent, out of 20
+const withAccuracy = (accuracy: number): MasteryEntry => {
+  const correct = Math.round((accuracy / 100) * 20);
+  return { correct, incorrect: 20 - correct };
+};
 
+function createSnapshot(
+  characterMastery: Record<string, MasteryEntry>,
+): AchievementSnapshot {
   return {
-    allTimeStats: {
-      characterMastery,
-      totalCorrect: 0,
-      totalIncorrect: 0,
-      bestStreak: 0,
-      totalSessions: 0,
-      hiraganaCorrect: 0,
-      katakanaCorrect: 0,
-      kanjiCorrectByLevel: {},
-      vocabularyCorrect: 0,
+    allTimeStats: { characterMastery },
+    achievements: {
+      unlockedCount: 0,
+      totalPoints: 0,
+      collectibleCount: COLLECTIBLE_ACHIEVEMENT_COUNT,
     },
+    now: 0,
   };
 }
 
-// Simplified mastery requirement checker for testing
-function checkMasteryRequirement(
-  achievement: Achievement,
-  stats: { allTimeStats: Record<string, unknown> },
-): boolean {
-  const { value, additional } = achievement.requirements;
-  const minAnswers = additional?.minAnswers;
-  const characterMastery = stats.allTimeStats.characterMastery as Record<
-    string,
-    { correct: number; incorrect: number }
-  >;
-
-  if (!characterMastery || Object.keys(characterMastery).length === 0) {
-    return false;
-  }
-
-  // For vocabulary mastery with minAnswers, check unique words mastered
-  if (additional?.contentType === 'vocabulary' && minAnswers !== undefined) {
-    let masteredCount = 0;
-    for (const [, charStats] of Object.entries(characterMastery)) {
-      const total = charStats.correct + charStats.incorrect;
-      if (total > 0) {
-        const accuracy = (charStats.correct / total) * 100;
-        if (accuracy >= value) {
-          masteredCount++;
-        }
-      }
-    }
-    return masteredCount >= minAnswers;
-  }
-
-  // For kana/kanji mastery, check all characters meet accuracy threshold
-  for (const [, charStats] of Object.entries(characterMastery)) {
-    const total = charStats.correct + charStats.incorrect;
-    if (total > 0) {
-      const accuracy = (charStats.correct / total) * 100;
-      if (accuracy < value) {
-        return false;
-      }
-    }
-  }
-
-  return Object.keys(characterMastery).length > 0;
-}
+const getCharacters = (achievement: Achievement) =>
+  achievement.id.startsWith('hiragana') ? HIRAGANA : KATAKANA;
 
 describe('Property 2: Mastery Achievement Unlocking', () => {
-  it('mastery achievements unlock when all characters meet accuracy threshold', () => {
-    // Filter to kana mastery achievements (100% accuracy required)
-    const kanaMasteryAchievements = masteryAchievements.filter(
-      a =>
-        a.requirements.additional?.contentType === 'hiragana' ||
-        a.requirements.additional?.contentType === 'katakana',
-    );
-
-    if (kanaMasteryAchievements.length === 0) {
-      return; // Skip if no kana mastery achievements
-    }
+  it('finds the mastery achievements of every content type', () => {
+    expect(kanaMasteryAchievements).toHaveLength(2);
+    expect(kanjiMasteryAchievements).toHaveLength(5);
+    expect(vocabMasteryAchievements).toHaveLength(2);
+  });
 
+  it('kana mastery achievements unlock only when every kana is perfect', () => {
     fc.assert(
       fc.property(
         fc.constantFrom(...kanaMasteryAchievements),
-        fc.boolean(),
-        fc.integer({ min: 5, max: 46 }),
-        (
-          achievement: Achievement,
-          meetsThreshold: boolean,
-          numCharacters: number,
-        ) => {
-          const stats = createStatsForMasteryAchievement(
-            achievement,
-            meetsThreshold,
-            numCharacters,
+        fc.subarray(HIRAGANA.map((_, i) => i)),
+        (achievement: Achievement, missedIndices: number[]) => {
+          const characters = getCharacters(achievement);
+          const snapshot = createSnapshot(
+            Object.fromEntries(
+              characters.map((kana, i) => [
+                kana,
+                withAccuracy(missedIndices.includes(i) ? 95 : 100),
+              ]),
+            ),
           );
-          const isUnlocked = checkMasteryRequirement(achievement, stats);
 
-          if (meetsThreshold) {
-            expect(isUnlocked).toBe(true);
-          }
+          expect(evaluateRule(achievement.rule, snapshot)).toBe(
+            missedIndices.length === 0,
+          );
         },
       ),
       { numRuns: 100 },
     );
   });
 
-  it('vocabulary mastery achievements unlock when enough words are mastered', () => {
-    const vocabMasteryAchievements = masteryAchievements.filter(
-      a =>
-        a.requirements.additional?.contentType === 'vocabulary' &&
-        a.requirements.additional?.minAnswers !== undefined,
+  it('kana mastery achievements need every kana, not just some', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...kanaMasteryAchievements),
+        fc.integer({ min: 1, max: 45 }),
+        (achievement: Achievement, numCharacters: number) => {
+          const snapshot = createSnapshot(
+            Object.fromEntries(
+              getCharacters(achievement)
+                .slice(0, numCharacters)
+                .map(kana => [kana, withAccuracy(100)]),
+            ),
+          );
+          expect(evaluateRule(achievement.rule, snapshot)).toBe(false);
+        },
+      ),
+      { numRuns: 100 },
     );
+  });
 
-    if (vocabMasteryAchievements.length === 0) {
-      return; // Skip if no vocab mastery achievements
-    }
-
+  it('kanji mastery achievements unlock when all kanji meet accuracy threshold', () => {
     fc.assert(
       fc.property(
-        fc.constantFrom(...vocabMasteryAchievements),
-        fc.boolean(),
-        (achievement: Achievement, meetsThreshold: boolean) => {
-          const minAnswers =
-            achievement.requirements.additional?.minAnswers ?? 50;
-          const numCharacters = meetsThreshold
-            ? minAnswers
-            : Math.max(1, minAnswers - 10);
-
-          const stats = createStatsForMasteryAchievement(
-            achievement,
-            true, // All characters meet accuracy
-            numCharacters,
+        fc.constantFrom(...kanjiMasteryAchievements),
+        fc.array(fc.integer({ min: 0, max: 100 }), {
+          minLength: 1,
+          maxLength: KANJI.length,
+        }),
+        (achievement: Achievement, accuracies: number[]) => {
+          const mastery = Object.fromEntries(
+            accuracies.map((accuracy, i) => [KANJI[i], withAccuracy(accuracy)]),
+          );
+          const allMastered = Object.values(mastery).every(
+            entry => entry.correct / 20 >= 0.8,
           );
 
-          const isUnlocked = checkMasteryRequirement(achievement, stats);
-
-          if (meetsThreshold) {
-            expect(isUnlocked).toBe(true);
-          } else {
-            expect(isUnlocked).toBe(false);
-          }
+          expect(evaluateRule(achievement.rule, createSnapshot(mastery))).toBe(
+            allMastered,
+          );
         },
       ),
       { numRuns: 100 },
     );
   });
 
-  it('mastery achievements do not unlock when accuracy is below threshold', () => {
+  it('vocabulary mastery achievements unlock when enough words are mastered', () => {
+    const minWords: Record<string, number> = {
+      word_wizard: 50,
+      linguistic_legend: 200,
+    };
+
     fc.assert(
       fc.property(
-        fc.constantFrom(...masteryAchievements),
-        fc.integer({ min: 5, max: 20 }),
-        (achievement: Achievement, numCharacters: number) => {
-          // Create stats with accuracy below threshold
-          const stats = createStatsForMasteryAchievement(
-            achievement,
-            false, // Below threshold
-            numCharacters,
+        fc.constantFrom(...vocabMasteryAchievements),
+        fc.boolean(),
+        (achievement: Achievement, meetsThreshold: boolean) => {
+          const required = minWords[achievement.id];
+          const numWords = meetsThreshold ? required : required - 1;
+          const snapshot = createSnapshot(
+            Object.fromEntries(
+              Array.from({ length: numWords }, (_, i) => [
+                `単語${i}`,
+                withAccuracy(90),
+              ]),
+            ),
           );
 
-          const isUnlocked = checkMasteryRequirement(achievement, stats);
-
-          // Should not unlock when below accuracy threshold
-          expect(isUnlocked).toBe(false);
+          expect(evaluateRule(achievement.rule, snapshot)).toBe(meetsThreshold);
         },
       ),
       { numRuns: 100 },
     );
   });
 
-  it('mastery achievements handle mixed accuracy correctly', () => {
+  it('mastery achievements do not unlock when accuracy is below threshold', () => {
     fc.assert(
       fc.property(
-        fc.constantFrom(
-          ...masteryAchievements.filter(
-            a =>
-              a.requirements.additional?.contentType !== 'vocabulary' ||
-              a.requirements.additional?.minAnswers === undefined,
-          ),
-        ),
-        fc.integer({ min: 5, max: 20 }),
-        (achievement: Achievement, numCharacters: number) => {
-          const { value } = achievement.requirements;
-
-          // Create mastery with one character below threshold
-          const characterMastery: Record<
-            string,
-            { correct: number; incorrect: number }
-          > = {};
-
-          for (let i = 0; i < numCharacters; i++) {
-            const charId = `char_${i}`;
-            if (i === 0) {
-              // First character below threshold
-              characterMastery[charId] = { correct: 5, incorrect: 10 }; // ~33% accuracy
-            } else {
-              // Other characters at 100%
-              characterMastery[charId] = { correct: 10, incorrect: 0 };
-            }
-          }
-
-          const stats = {
-            allTimeStats: { characterMastery },
-          };
-
-          const isUnlocked = checkMasteryRequirement(achievement, stats);
+        fc.constantFrom(...masteryAchievements),
+        (achievement: Achievement) => {
+          // Every character of every kind answered, none well enough
+          const characters = [
+            ...HIRAGANA,
+            ...KATAKANA,
+            ...KANJI,
+            ...Array.from({ length: 250 }, (_, i) => `単語${i}`),
+          ];
+          const snapshot = createSnapshot(
+            Object.fromEntries(characters.map(c => [c, withAccuracy(75)])),
+          );
 
-          // Should not unlock when any character is below threshold
-          // (unless it's a vocabulary achievement with minAnswers)
-          if (value > 33) {
-            expect(isUnlocked).toBe(false);
-          }
+          expect(evaluateRule(achievement.rule, snapshot)).toBe(false);
         },
       ),
-      { numRuns: 100 },
+      { numRuns: 20 },
     );
   });
+
+  it('mastery achievements stay locked with nothing answered', () => {
+    for (const achievement of masteryAchievements) {
+      expect(evaluateRule(achievement.rule, createSnapshot({}))).toBe(false);
+    }
+  });
 });
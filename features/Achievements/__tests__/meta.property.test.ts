@@ -1,101 +1,72 @@
 import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
-import { ACHIEVEMENTS, type Achievement } from '../store/useAchievementStore';
+import {
+  ACHIEVEMENTS,
+  createAchievementSnapshot,
+  type Achievement,
+} from '../store/useAchievementStore';
+import { COLLECTIBLE_ACHIEVEMENT_COUNT } from '../lib/achievementCatalog';
+import {
+  evaluateRule,
+  getRuleDependencies,
+  type AchievementSnapshot,
+} from '../lib/achievementRules';
 
 /**
  * **Feature: expanded-achievements, Property 7: Meta Achievement Unlocking**
- * For any meta achievement (achievement_count type) and for any state where the
- * number of unlocked achievements >= the required count, the achievement SHALL
- * be unlocked if not already unlocked.
+ * For any meta achievement (one counting unlocked achievements) and for any state
+ * where the number of unlocked achievements >= the required count, the achievement
+ * SHALL be unlocked if not already unlocked.
  * **Validates: Requirements 10.7-10.10**
  */
 
-// Filter meta achievements (achievement_count type)
-const metaAchievements = ACHIEVEMENTS.filter(
-  a => a.requirements.type === 'achievement_count',
+// Filter meta achievements (rules that count unlocked achievements)
+const metaAchievements = ACHIEVEMENTS.filter(a =>
+  getRuleDependencies(a.rule).includes('achievements.unlockedCount'),
 );
 
 // Get non-meta achievements for counting
 const nonMetaAchievements = ACHIEVEMENTS.filter(
-  a => a.requirements.type !== 'achievement_count',
+  a => !metaAchievements.includes(a),
 );
 
-// Helper to create mock achievement state
-function createAchievementState(unlockedCount: number): {
-  unlockedAchievements: Record<string, Achievement>;
-  totalPoints: number;
-} {
-  const unlockedAchievements: Record<string, Achievement> = {};
-  let totalPoints = 0;
-
-  // Unlock the specified number of non-meta achievements
-  const achievementsToUnlock = nonMetaAchievements.slice(0, unlockedCount);
-
-  for (const achievement of achievementsToUnlock) {
-    unlockedAchievements[achievement.id] = {
-      ...achievement,
-      unlockedAt: new Date(),
-    };
-    totalPoints += achievement.points;
-  }
-
-  return { unlockedAchievements, totalPoints };
-}
-
-// Simplified meta achievement requirement checker
-function checkMetaAchievementRequirement(
-  achievement: Achievement,
-  state: {
-    unlockedAchievements: Record<string, Achievement>;
-    totalPoints: number;
-  },
-): boolean {
-  const { value } = achievement.requirements;
-  const unlockedCount = Object.keys(state.unlockedAchievements).length;
-
-  // -1 means all achievements (excluding meta achievements)
-  if (value === -1) {
-    // Count total non-meta achievements
-    const totalNonMeta = ACHIEVEMENTS.filter(
-      a =>
-        a.requirements.type !== 'achievement_count' && a.id !== achievement.id,
-    ).length;
-    return unlockedCount >= totalNonMeta;
-  }
-
-  return unlockedCount >= value;
+// Meta achievements with a fixed count, lowest first
+const countedMetaAchievements = metaAchievements
+  .filter(a => typeof (a.rule as { gte?: unknown }).gte === 'number')
+  .sort(
+    (a, b) => (a.rule as { gte: number }).gte - (b.rule as { gte: number }).gte,
+  );
+
+const getRequiredCount = (achievement: Achievement) => {
+  const { gte } = achievement.rule as { gte: number | string };
+  return typeof gte === 'number' ? gte : COLLECTIBLE_ACHIEVEMENT_COUNT;
+};
+
+// Snapshot of the store with the first `unlockedCount` non-meta achievements
+function createSnapshotWithUnlocked(
+  unlockedCount: number,
+): AchievementSnapshot {
+  const unlocked = nonMetaAchievements.slice(0, unlockedCount);
+  return createAchievementSnapshot(
+    {},
+    {
+      unlockedAchievements: Object.fromEntries(unlocked.map(a => [a.id, a])),
+      totalPoints: unlocked.reduce((sum, a) => sum + a.points, 0),
+    },
+  );
 }
 
 describe('Property 7: Meta Achievement Unlocking', () => {
   it('meta achievements unlock when achievement count meets threshold', () => {
-    // Filter out completionist (value -1) for this test
-    const countBasedMetaAchievements = metaAchievements.filter(
-      a => a.requirements.value > 0,
-    );
-
-    if (countBasedMetaAchievements.length === 0) {
-      return;
-    }
-
     fc.assert(
       fc.property(
-        fc.constantFrom(...countBasedMetaAchievements),
-        fc.boolean(),
-        (achievement: Achievement, meetsThreshold: boolean) => {
-          const { value } = achievement.requirements;
-          const targetCount = meetsThreshold ? value : Math.max(0, value - 1);
-
-          const state = createAchievementState(targetCount);
-          const isUnlocked = checkMetaAchievementRequirement(
-            achievement,
-            state,
+        fc.constantFrom(...metaAchievements),
+        fc.integer({ min: 0, max: nonMetaAchievements.length }),
+        (achievement: Achievement, unlockedCount: number) => {
+          const snapshot = createSnapshotWithUnlocked(unlockedCount);
+          expect(evaluateRule(achievement.rule, snapshot)).toBe(
+            unlockedCount >= getRequiredCount(achievement),
           );
-
-          if (meetsThreshold) {
-            expect(isUnlocked).toBe(true);
-          } else if (value > 1) {
-            expect(isUnlocked).toBe(false);
-          }
         },
       ),
       { numRuns: 100 },
@@ -103,181 +74,58 @@ describe('Property 7: Meta Achievement Unlocking', () => {
   });
 
   it('meta achievements unlock at exact threshold', () => {
-    const countBasedMetaAchievements = metaAchievements.filter(
-      a => a.requirements.value > 0,
-    );
-
-    if (countBasedMetaAchievements.length === 0) {
-      return;
+    for (const achievement of metaAchievements) {
+      const required = getRequiredCount(achievement);
+      expect(
+        evaluateRule(achievement.rule, createSnapshotWithUnlocked(required)),
+      ).toBe(true);
+      expect(
+        evaluateRule(
+          achievement.rule,
+          createSnapshotWithUnlocked(required - 1),
+        ),
+      ).toBe(false);
     }
-
-    fc.assert(
-      fc.property(
-        fc.constantFrom(...countBasedMetaAchievements),
-        (achievement: Achievement) => {
-          const { value } = achievement.requirements;
-
-          const state = createAchievementState(value);
-          const isUnlocked = checkMetaAchievementRequirement(
-            achievement,
-            state,
-          );
-
-          expect(isUnlocked).toBe(true);
-        },
-      ),
-      { numRuns: 100 },
-    );
-  });
-
-  it('meta achievements unlock when count exceeds threshold', () => {
-    const countBasedMetaAchievements = metaAchievements.filter(
-      a => a.requirements.value > 0,
-    );
-
-    if (countBasedMetaAchievements.length === 0) {
-      return;
-    }
-
-    fc.assert(
-      fc.property(
-        fc.constantFrom(...countBasedMetaAchievements),
-        fc.integer({ min: 1, max: 20 }),
-        (achievement: Achievement, excess: number) => {
-          const { value } = achievement.requirements;
-          const targetCount = Math.min(
-            value + excess,
-            nonMetaAchievements.length,
-          );
-
-          const state = createAchievementState(targetCount);
-          const isUnlocked = checkMetaAchievementRequirement(
-            achievement,
-            state,
-          );
-
-          expect(isUnlocked).toBe(true);
-        },
-      ),
-      { numRuns: 100 },
-    );
   });
 
   it('completionist achievement requires all non-meta achievements', () => {
-    const completionistAchievement = metaAchievements.find(
-      a => a.requirements.value === -1,
-    );
-
-    if (!completionistAchievement) {
-      return;
-    }
+    const completionist = metaAchievements.find(a => a.id === 'completionist')!;
 
-    fc.assert(
-      fc.property(
-        fc.integer({ min: 0, max: nonMetaAchievements.length }),
-        (unlockedCount: number) => {
-          const state = createAchievementState(unlockedCount);
-          const isUnlocked = checkMetaAchievementRequirement(
-            completionistAchievement,
-            state,
-          );
-
-          // Should only unlock when all non-meta achievements are unlocked
-          if (unlockedCount >= nonMetaAchievements.length) {
-            expect(isUnlocked).toBe(true);
-          } else {
-            expect(isUnlocked).toBe(false);
-          }
-        },
+    expect(COLLECTIBLE_ACHIEVEMENT_COUNT).toBe(nonMetaAchievements.length);
+    expect(
+      evaluateRule(
+        completionist.rule,
+        createSnapshotWithUnlocked(nonMetaAchievements.length),
       ),
-      { numRuns: 100 },
-    );
-  });
-
-  it('meta achievements do not count themselves', () => {
-    const countBasedMetaAchievements = metaAchievements.filter(
-      a => a.requirements.value > 0,
-    );
-
-    if (countBasedMetaAchievements.length === 0) {
-      return;
-    }
-
-    fc.assert(
-      fc.property(
-        fc.constantFrom(...countBasedMetaAchievements),
-        (achievement: Achievement) => {
-          const { value } = achievement.requirements;
-
-          // Create state with exactly threshold - 1 non-meta achievements
-          // plus the meta achievement itself
-          const state = createAchievementState(value - 1);
-
-          // Add the meta achievement itself to unlocked
-          state.unlockedAchievements[achievement.id] = {
-            ...achievement,
-            unlockedAt: new Date(),
-          };
-
-          // The count should be value (threshold - 1 + 1 meta)
-          // But meta achievements shouldn't count themselves for unlocking
-          // So this should still not unlock (we have value - 1 non-meta + 1 meta = value total)
-          // But the check should only count non-meta achievements
-
-          // Actually, the checker counts all unlocked achievements
-          // So with value - 1 + 1 = value, it should unlock
-          const isUnlocked = checkMetaAchievementRequirement(
-            achievement,
-            state,
-          );
-
-          // With value total achievements (including the meta one), it should unlock
-          expect(isUnlocked).toBe(true);
-        },
+    ).toBe(true);
+    expect(
+      evaluateRule(
+        completionist.rule,
+        createSnapshotWithUnlocked(nonMetaAchievements.length - 1),
       ),
-      { numRuns: 100 },
-    );
+    ).toBe(false);
   });
 
   it('meta achievements are monotonic (more achievements always unlock)', () => {
-    const countBasedMetaAchievements = metaAchievements.filter(
-      a => a.requirements.value > 0,
-    );
-
-    if (countBasedMetaAchievements.length === 0) {
-      return;
-    }
-
     fc.assert(
       fc.property(
-        fc.constantFrom(...countBasedMetaAchievements),
-        fc.integer({ min: 0, max: 10 }),
-        (achievement: Achievement, additionalAchievements: number) => {
-          const { value } = achievement.requirements;
-
-          // State at threshold
-          const stateAtThreshold = createAchievementState(value);
-
-          // State above threshold
-          const stateAboveThreshold = createAchievementState(
-            Math.min(
-              value + additionalAchievements,
-              nonMetaAchievements.length,
-            ),
-          );
-
-          const unlockedAtThreshold = checkMetaAchievementRequirement(
-            achievement,
-            stateAtThreshold,
+        fc.constantFrom(...metaAchievements),
+        fc.integer({ min: 0, max: nonMetaAchievements.length }),
+        fc.integer({ min: 0, max: 20 }),
+        (achievement: Achievement, unlockedCount: number, extra: number) => {
+          const unlocked = evaluateRule(
+            achievement.rule,
+            createSnapshotWithUnlocked(unlockedCount),
           );
-          const unlockedAboveThreshold = checkMetaAchievementRequirement(
-            achievement,
-            stateAboveThreshold,
+          const unlockedWithMore = evaluateRule(
+            achievement.rule,
+            createSnapshotWithUnlocked(
+              Math.min(unlockedCount + extra, nonMetaAchievements.length),
+            ),
           );
 
-          // If unlocked at threshold, must be unlocked above threshold
-          if (unlockedAtThreshold) {
-            expect(unlockedAboveThreshold).toBe(true);
+          if (unlocked) {
+            expect(unlockedWithMore).toBe(true);
           }
         },
       ),
@@ -286,74 +134,22 @@ describe('Property 7: Meta Achievement Unlocking', () => {
   });
 
   it('meta achievements do not unlock with zero achievements', () => {
-    const countBasedMetaAchievements = metaAchievements.filter(
-      a => a.requirements.value > 0,
-    );
-
-    if (countBasedMetaAchievements.length === 0) {
-      return;
+    for (const achievement of metaAchievements) {
+      expect(
+        evaluateRule(achievement.rule, createSnapshotWithUnlocked(0)),
+      ).toBe(false);
     }
-
-    fc.assert(
-      fc.property(
-        fc.constantFrom(...countBasedMetaAchievements),
-        (achievement: Achievement) => {
-          const state = createAchievementState(0);
-          const isUnlocked = checkMetaAchievementRequirement(
-            achievement,
-            state,
-          );
-
-          // Should not unlock with zero achievements
-          expect(isUnlocked).toBe(false);
-        },
-      ),
-      { numRuns: 100 },
-    );
   });
 
   it('meta achievement thresholds are ordered correctly', () => {
-    // Verify that meta achievements with higher thresholds require more achievements
-    const sortedMetaAchievements = [...metaAchievements]
-      .filter(a => a.requirements.value > 0)
-      .sort((a, b) => a.requirements.value - b.requirements.value);
-
-    if (sortedMetaAchievements.length < 2) {
-      return;
+    const counts = countedMetaAchievements.map(getRequiredCount);
+    expect(counts).toEqual([10, 25, 50]);
+    // Unlocking a higher tier always unlocks the lower ones
+    for (let i = 1; i < countedMetaAchievements.length; i++) {
+      const snapshot = createSnapshotWithUnlocked(counts[i]);
+      expect(evaluateRule(countedMetaAchievements[i - 1].rule, snapshot)).toBe(
+        true,
+      );
     }
-
-    fc.assert(
-      fc.property(
-        fc.integer({ min: 0, max: sortedMetaAchievements.length - 2 }),
-        (index: number) => {
-          const lowerAchievement = sortedMetaAchievements[index];
-          const higherAchievement = sortedMetaAchievements[index + 1];
-
-          // Create state that meets lower threshold but not higher
-          const state = createAchievementState(
-            lowerAchievement.requirements.value,
-          );
-
-          const lowerUnlocked = checkMetaAchievementRequirement(
-            lowerAchievement,
-            state,
-          );
-          const higherUnlocked = checkMetaAchievementRequirement(
-            higherAchievement,
-            state,
-          );
-
-          // Lower should unlock, higher should not (unless thresholds are equal)
-          expect(lowerUnlocked).toBe(true);
-          if (
-            higherAchievement.requirements.value >
-            lowerAchievement.requirements.value
-          ) {
-            expect(higherUnlocked).toBe(false);
-          }
-        },
-      ),
-      { numRuns: 100 },
-    );
   });
 });
@@ -1,6 +1,11 @@
 import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
 import { ACHIEVEMENTS, type Achievement } from '../store/useAchievementStore';
+import { COLLECTIBLE_ACHIEVEMENT_COUNT } from '../lib/achievementCatalog';
+import {
+  evaluateRule,
+  type AchievementSnapshot,
+} from '../lib/achievementRules';
 
 /**
  * **Feature: expanded-achievements, Property 3: Mode Completion Achievement Unlocking**
@@ -10,257 +15,123 @@ import { ACHIEVEMENTS, type Achievement } from '../store/useAchievementStore';
  * **Validates: Requirements 4.1-4.4, 4.7-4.8, 5.1**
  */
 
-// Filter mode completion achievements
-const MODE_COMPLETION_TYPES = [
-  'gauntlet_completion',
-  'gauntlet_difficulty',
-  'gauntlet_perfect',
-  'gauntlet_lives',
-  'blitz_session',
+// Run counters the Gauntlet and Blitz record as sessions end
+const GAUNTLET_RUN_COUNTERS = [
+  'completedRuns',
+  'normalCompleted',
+  'hardCompleted',
+  'instantDeathCompleted',
+  'perfectRuns',
+  'noDeathRuns',
+  'livesRegenerated',
+  'noTimeoutRuns',
 ] as const;
 
-const modeCompletionAchievements = ACHIEVEMENTS.filter(a =>
-  MODE_COMPLETION_TYPES.includes(
-    a.requirements.type as (typeof MODE_COMPLETION_TYPES)[number],
-  ),
-);
-
-// Helper to create gauntlet stats
-function createGauntletStats(params: {
-  completedRuns?: number;
-  normalCompleted?: number;
-  hardCompleted?: number;
-  instantDeathCompleted?: number;
-  perfectRuns?: number;
-  noDeathRuns?: number;
-  livesRegenerated?: number;
-}) {
-  return {
-    totalRuns: params.completedRuns ?? 0,
-    completedRuns: params.completedRuns ?? 0,
-    normalCompleted: params.normalCompleted ?? 0,
-    hardCompleted: params.hardCompleted ?? 0,
-    instantDeathCompleted: params.instantDeathCompleted ?? 0,
-    perfectRuns: params.perfectRuns ?? 0,
-    noDeathRuns: params.noDeathRuns ?? 0,
-    livesRegenerated: params.livesRegenerated ?? 0,
-    bestStreak: 0,
-  };
-}
-
-// Helper to create blitz stats
-function createBlitzStats(params: {
-  totalSessions?: number;
-  bestSessionScore?: number;
-}) {
-  return {
-    totalSessions: params.totalSessions ?? 0,
-    bestSessionScore: params.bestSessionScore ?? 0,
-    bestStreak: 0,
-    totalCorrect: 0,
-  };
-}
-
-// Helper to create stats for mode completion achievement
-function createStatsForModeCompletion(
-  achievement: Achievement,
-  meetsRequirement: boolean,
-): { allTimeStats: Record<string, unknown> } {
-  const { type, value, additional } = achievement.requirements;
+type GauntletRunCounter = (typeof GAUNTLET_RUN_COUNTERS)[number];
 
-  const baseStats = {
-    totalCorrect: 0,
-    totalIncorrect: 0,
-    bestStreak: 0,
-    totalSessions: 0,
-    gauntletStats: createGauntletStats({}),
-    blitzStats: createBlitzStats({}),
-  };
+const DIFFICULTY_COUNTERS: GauntletRunCounter[] = [
+  'normalCompleted',
+  'hardCompleted',
+  'instantDeathCompleted',
+];
 
-  const targetValue = meetsRequirement ? value : Math.max(0, value - 1);
+const COUNTER_PATHS: Record<string, string> = {
+  ...Object.fromEntries(
+    GAUNTLET_RUN_COUNTERS.map(counter => [
+      `allTimeStats.gauntletStats.${counter}`,
+      counter,
+    ]),
+  ),
+  'allTimeStats.blitzStats.totalSessions': 'blitzSessions',
+};
 
-  switch (type) {
-    case 'gauntlet_completion':
-      baseStats.gauntletStats = createGauntletStats({
-        completedRuns: targetValue,
-      });
-      break;
+type ModeCounter = GauntletRunCounter | 'blitzSessions';
 
-    case 'gauntlet_difficulty': {
-      const difficulty = additional?.difficulty;
-      if (difficulty === 'normal') {
-        baseStats.gauntletStats = createGauntletStats({
-          normalCompleted: targetValue,
-          completedRuns: targetValue,
-        });
-      } else if (difficulty === 'hard') {
-        baseStats.gauntletStats = createGauntletStats({
-          hardCompleted: targetValue,
-          completedRuns: targetValue,
-        });
-      } else if (difficulty === 'instant-death') {
-        baseStats.gauntletStats = createGauntletStats({
-          instantDeathCompleted: targetValue,
-          completedRuns: targetValue,
-        });
-      }
-      break;
-    }
+const getCounter = (achievement: Achievement): ModeCounter | undefined =>
+  'stat' in achievement.rule && typeof achievement.rule.stat === 'string'
+    ? (COUNTER_PATHS[achievement.rule.stat] as ModeCounter | undefined)
+    : undefined;
 
-    case 'gauntlet_perfect':
-      baseStats.gauntletStats = createGauntletStats({
-        perfectRuns: targetValue,
-        completedRuns: targetValue,
-      });
-      break;
+// Filter mode completion achievements
+const modeCompletionAchievements = ACHIEVEMENTS.filter(a => getCounter(a));
 
-    case 'gauntlet_lives': {
-      const lifeType = additional?.type;
-      if (lifeType === 'no_lives_lost') {
-        baseStats.gauntletStats = createGauntletStats({
-          noDeathRuns: meetsRequirement ? 1 : 0,
-          completedRuns: meetsRequirement ? 1 : 0,
-        });
-      } else if (lifeType === 'lives_regenerated') {
-        baseStats.gauntletStats = createGauntletStats({
-          livesRegenerated: targetValue,
-        });
-      }
-      break;
-    }
+const withCounters = (...counters: ModeCounter[]) =>
+  modeCompletionAchievements.filter(a => counters.includes(getCounter(a)!));
 
-    case 'blitz_session':
-      baseStats.blitzStats = createBlitzStats({
-        totalSessions: targetValue,
-      });
-      break;
-  }
+const getThreshold = (achievement: Achievement) =>
+  (achievement.rule as { gte: number }).gte;
 
-  return { allTimeStats: baseStats };
+function createSnapshot(
+  counts: Partial<Record<ModeCounter, number>>,
+): AchievementSnapshot {
+  const { blitzSessions = 0, ...gauntletCounts } = counts;
+  return {
+    allTimeStats: {
+      gauntletStats: {
+        ...Object.fromEntries(GAUNTLET_RUN_COUNTERS.map(c => [c, 0])),
+        ...gauntletCounts,
+      },
+      blitzStats: { totalSessions: blitzSessions },
+    },
+    achievements: {
+      unlockedCount: 0,
+      totalPoints: 0,
+      collectibleCount: COLLECTIBLE_ACHIEVEMENT_COUNT,
+    },
+    now: 0,
+  };
 }
 
-// Simplified mode completion requirement checker
-function checkModeCompletionRequirement(
+// Snapshot at the threshold, or one below it
+const createSnapshotForModeCompletion = (
   achievement: Achievement,
-  stats: { allTimeStats: Record<string, unknown> },
-): boolean {
-  const { type, value, additional } = achievement.requirements;
-  const allTimeStats = stats.allTimeStats;
-
-  switch (type) {
-    case 'gauntlet_completion': {
-      const gauntletStats = allTimeStats.gauntletStats as {
-        completedRuns: number;
-      };
-      return gauntletStats.completedRuns >= value;
-    }
-
-    case 'gauntlet_difficulty': {
-      const gauntletStats = allTimeStats.gauntletStats as {
-        normalCompleted: number;
-        hardCompleted: number;
-        instantDeathCompleted: number;
-      };
-      const difficulty = additional?.difficulty;
-
-      if (difficulty === 'normal') {
-        return gauntletStats.normalCompleted >= value;
-      } else if (difficulty === 'hard') {
-        return gauntletStats.hardCompleted >= value;
-      } else if (difficulty === 'instant-death') {
-        return gauntletStats.instantDeathCompleted >= value;
-      }
-      return false;
-    }
-
-    case 'gauntlet_perfect': {
-      const gauntletStats = allTimeStats.gauntletStats as {
-        perfectRuns: number;
-      };
-      return gauntletStats.perfectRuns >= value;
-    }
-
-    case 'gauntlet_lives': {
-      const gauntletStats = allTimeStats.gauntletStats as {
-        noDeathRuns: number;
-        livesRegenerated: number;
-      };
-      const lifeType = additional?.type;
-
-      if (lifeType === 'no_lives_lost') {
-        return gauntletStats.noDeathRuns >= 1;
-      } else if (lifeType === 'lives_regenerated') {
-        return gauntletStats.livesRegenerated >= value;
-      }
-      return false;
-    }
-
-    case 'blitz_session': {
-      const blitzStats = allTimeStats.blitzStats as { totalSessions: number };
-      return blitzStats.totalSessions >= value;
-    }
+  meetsRequirement: boolean,
+) =>
+  createSnapshot({
+    [getCounter(achievement)!]: meetsRequirement
+      ? getThreshold(achievement)
+      : getThreshold(achievement) - 1,
+  });
 
-    default:
-      return false;
-  }
-}
+const checkUnlockAtThreshold = (achievements: Achievement[]) => {
+  fc.assert(
+    fc.property(
+      fc.constantFrom(...achievements),
+      fc.boolean(),
+      (achievement: Achievement, meetsRequirement: boolean) => {
+        const snapshot = createSnapshotForModeCompletion(
+          achievement,
+          meetsRequirement,
+        );
+        expect(evaluateRule(achievement.rule, snapshot)).toBe(meetsRequirement);
+      },
+    ),
+    { numRuns: 100 },
+  );
+};
 
 describe('Property 3: Mode Completion Achievement Unlocking', () => {
   it('gauntlet completion achievements unlock when runs are completed', () => {
-    const gauntletCompletionAchievements = modeCompletionAchievements.filter(
-      a => a.requirements.type === 'gauntlet_completion',
-    );
-
-    if (gauntletCompletionAchievements.length === 0) {
-      return;
-    }
-
-    fc.assert(
-      fc.property(
-        fc.constantFrom(...gauntletCompletionAchievements),
-        fc.boolean(),
-        (achievement: Achievement, meetsRequirement: boolean) => {
-          const stats = createStatsForModeCompletion(
-            achievement,
-            meetsRequirement,
-          );
-          const isUnlocked = checkModeCompletionRequirement(achievement, stats);
-
-          if (meetsRequirement) {
-            expect(isUnlocked).toBe(true);
-          } else if (achievement.requirements.value > 1) {
-            expect(isUnlocked).toBe(false);
-          }
-        },
-      ),
-      { numRuns: 100 },
-    );
+    checkUnlockAtThreshold(withCounters('completedRuns'));
   });
 
   it('gauntlet difficulty achievements unlock for specific difficulties', () => {
-    const difficultyAchievements = modeCompletionAchievements.filter(
-      a => a.requirements.type === 'gauntlet_difficulty',
-    );
-
-    if (difficultyAchievements.length === 0) {
-      return;
-    }
+    const difficultyAchievements = withCounters(...DIFFICULTY_COUNTERS);
+    expect(difficultyAchievements).toHaveLength(3);
 
     fc.assert(
       fc.property(
-        fc.constantFrom(...difficultyAchievements),
-        fc.boolean(),
-        (achievement: Achievement, meetsRequirement: boolean) => {
-          const stats = createStatsForModeCompletion(
-            achievement,
-            meetsRequirement,
-          );
-          const isUnlocked = checkModeCompletionRequirement(achievement, stats);
-
-          if (meetsRequirement) {
-            expect(isUnlocked).toBe(true);
-          } else if (achievement.requirements.value > 1) {
-            expect(isUnlocked).toBe(false);
+        fc.constantFrom(...DIFFICULTY_COUNTERS),
+        fc.integer({ min: 1, max: 50 }),
+        (difficulty: GauntletRunCounter, runs: number) => {
+          const snapshot = createSnapshot({
+            completedRuns: runs,
+            [difficulty]: runs,
+          });
+          for (const achievement of difficultyAchievements) {
+            expect(evaluateRule(achievement.rule, snapshot)).toBe(
+              getCounter(achievement) === difficulty,
+            );
           }
         },
       ),
@@ -269,64 +140,29 @@ describe('Property 3: Mode Completion Achievement Unlocking', () => {
   });
 
   it('gauntlet perfect and lives achievements unlock correctly', () => {
-    const specialGauntletAchievements = modeCompletionAchievements.filter(
-      a =>
-        a.requirements.type === 'gauntlet_perfect' ||
-        a.requirements.type === 'gauntlet_lives',
+    checkUnlockAtThreshold(
+      withCounters('perfectRuns', 'noDeathRuns', 'livesRegenerated'),
     );
+  });
 
-    if (specialGauntletAchievements.length === 0) {
-      return;
-    }
-
-    fc.assert(
-      fc.property(
-        fc.constantFrom(...specialGauntletAchievements),
-        fc.boolean(),
-        (achievement: Achievement, meetsRequirement: boolean) => {
-          const stats = createStatsForModeCompletion(
-            achievement,
-            meetsRequirement,
-          );
-          const isUnlocked = checkModeCompletionRequirement(achievement, stats);
-
-          if (meetsRequirement) {
-            expect(isUnlocked).toBe(true);
-          }
-        },
-      ),
-      { numRuns: 100 },
-    );
+  it('gauntlet no-timeout achievements unlock when timed runs beat the clock', () => {
+    checkUnlockAtThreshold(withCounters('noTimeoutRuns'));
   });
 
   it('blitz session achievements unlock when sessions are completed', () => {
-    const blitzSessionAchievements = modeCompletionAchievements.filter(
-      a => a.requirements.type === 'blitz_session',
-    );
-
-    if (blitzSessionAchievements.length === 0) {
-      return;
-    }
+    checkUnlockAtThreshold(withCounters('blitzSessions'));
+  });
 
+  it('completed runs alone unlock no special gauntlet achievement', () => {
     fc.assert(
-      fc.property(
-        fc.constantFrom(...blitzSessionAchievements),
-        fc.boolean(),
-        (achievement: Achievement, meetsRequirement: boolean) => {
-          const stats = createStatsForModeCompletion(
-            achievement,
-            meetsRequirement,
-          );
-          const isUnlocked = checkModeCompletionRequirement(achievement, stats);
-
-          if (meetsRequirement) {
-            expect(isUnlocked).toBe(true);
-          } else if (achievement.requirements.value > 1) {
-            expect(isUnlocked).toBe(false);
-          }
-        },
-      ),
-      { numRuns: 100 },
+      fc.property(fc.integer({ min: 0, max: 100 }), (runs: number) => {
+        const snapshot = createSnapshot({ completedRuns: runs });
+        for (const achievement of modeCompletionAchievements) {
+          if (getCounter(achievement) === 'completedRuns') continue;
+          expect(evaluateRule(achievement.rule, snapshot)).toBe(false);
+        }
+      }),
+      { numRuns: 50 },
     );
   });
 
@@ -335,12 +171,12 @@ describe('Property 3: Mode Completion Achievement Unlocking', () => {
       fc.property(
         fc.constantFrom(...modeCompletionAchievements),
         (achievement: Achievement) => {
-          const stats = createStatsForModeCompletion(achievement, true);
+          const snapshot = createSnapshotForModeCompletion(achievement, true);
 
           // Check multiple times - should always return same result
-          const result1 = checkModeCompletionRequirement(achievement, stats);
-          const result2 = checkModeCompletionRequirement(achievement, stats);
-          const result3 = checkModeCompletionRequirement(achievement, stats);
+          const result1 = evaluateRule(achievement.rule, snapshot);
+          const result2 = evaluateRule(achievement.rule, snapshot);
+          const result3 = evaluateRule(achievement.rule, snapshot);
 
           expect(result1).toBe(result2);
           expect(result2).toBe(result3);
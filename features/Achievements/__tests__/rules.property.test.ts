@@ -0,0 +1,309 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  diffStatPaths,
+  evaluateRule,
+  getRuleDependencies,
+  getRuleProgress,
+  isAffectedBy,
+  resolveStat,
+  validateRule,
+  type AchievementRule,
+  type AchievementSnapshot,
+} from '../lib/achievementRules';
+
+/**
+ * **Feature: achievement-rules**
+ * Rules compose like the logic they spell out, read stats from a snapshot
+ * alone, and report the paths they read so that checks can skip rules
+ * whose stats did not change.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const createSnapshot = (
+  allTimeStats: Record<string, unknown>,
+  extra: Partial<AchievementSnapshot> = {},
+): AchievementSnapshot => ({
+  allTimeStats,
+  achievements: { unlockedCount: 0, totalPoints: 0, collectibleCount: 0 },
+  now: Date.UTC(2026, 0, 15, 12),
+  ...extra,
+});
+
+const statNames = ['totalCorrect', 'bestStreak', 'totalSessions'] as const;
+const statsArb = fc.record({
+  totalCorrect: fc.nat(1000),
+  bestStreak: fc.nat(1000),
+  totalSessions: fc.nat(1000),
+});
+
+const thresholdArb: fc.Arbitrary<AchievementRule> = fc.record({
+  stat: fc.constantFrom(...statNames).map(name => `allTimeStats.${name}`),
+  gte: fc.nat(1000),
+});
+
+const ruleArb: fc.Arbitrary<AchievementRule> = fc.letrec(tie => ({
+  rule: fc.oneof(
+    { depthSize: 'small', withCrossShrink: true },
+    thresholdArb,
+    fc.record({ all: fc.array(tie('rule'), { minLength: 1, maxLength: 3 }) }),
+    fc.record({ any: fc.array(tie('rule'), { minLength: 1, maxLength: 3 }) }),
+    fc.record({ not: tie('rule') }),
+  ) as fc.Arbitrary<AchievementRule>,
+})).rule;
+
+describe('evaluateRule', () => {
+  it('combines rules with all, any and not', () => {
+    fc.assert(
+      fc.property(
+        fc.array(ruleArb, { minLength: 1, maxLength: 4 }),
+        statsArb,
+        (rules, stats) => {
+          const snapshot = createSnapshot(stats);
+          const results = rules.map(rule => evaluateRule(rule, snapshot));
+          expect(evaluateRule({ all: rules }, snapshot)).toBe(
+            results.every(Boolean),
+          );
+          expect(evaluateRule({ any: rules }, snapshot)).toBe(
+            results.some(Boolean),
+          );
+          expect(evaluateRule({ not: rules[0] }, snapshot)).toBe(!results[0]);
+        },
+      ),
+    );
+  });
+
+  it('compares a stat with each threshold given', () => {
+    fc.assert(
+      fc.property(fc.nat(100), fc.nat(100), fc.nat(100), (value, a, b) => {
+        const snapshot = createSnapshot({ totalCorrect: value });
+        const stat = 'allTimeStats.totalCorrect';
+        expect(evaluateRule({ stat, gte: a }, snapshot)).toBe(value >= a);
+        expect(evaluateRule({ stat, lt: a }, snapshot)).toBe(value < a);
+        expect(evaluateRule({ stat, eq: a }, snapshot)).toBe(value === a);
+        expect(evaluateRule({ stat, gt: a, lte: b }, snapshot)).toBe(
+          value > a && value <= b,
+        );
+      }),
+    );
+  });
+
+  it('compares a stat with another stat', () => {
+    fc.assert(
+      fc.property(statsArb, stats => {
+        const rule: AchievementRule = {
+          stat: 'allTimeStats.bestStreak',
+          gte: 'allTimeStats.totalCorrect',
+        };
+        expect(evaluateRule(rule, createSnapshot(stats))).toBe(
+          stats.bestStreak >= stats.totalCorrect,
+        );
+      }),
+    );
+  });
+
+  it('meets no threshold with a stat that was never recorded', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: -1000, max: 1000 }), target => {
+        const snapshot = createSnapshot({ gauntletStats: undefined });
+        const stat = 'allTimeStats.gauntletStats.perfectRuns';
+        for (const comparison of ['gte', 'gt', 'lte', 'lt', 'eq'] as const) {
+          expect(evaluateRule({ stat, [comparison]: target }, snapshot)).toBe(
+            false,
+          );
+        }
+      }),
+    );
+  });
+
+  it('matches the hour of the session, wrapping past midnight', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 23 }),
+        fc.integer({ min: 0, max: 24 }),
+        fc.integer({ min: 0, max: 24 }),
+        (hour, from, to) => {
+          const snapshot = createSnapshot(
+            {},
+            { session: { currentHour: hour } },
+          );
+          const inWindow =
+            from <= to ? hour >= from && hour < to : hour >= from || hour < to;
+          expect(evaluateRule({ hour: { from, to } }, snapshot)).toBe(inWindow);
+        },
+      ),
+    );
+  });
+});
+
+describe('getRuleProgress', () => {
+  it('is complete exactly when the rule holds', () => {
+    fc.assert(
+      fc.property(ruleArb, statsArb, (rule, stats) => {
+        const snapshot = createSnapshot(stats);
+        const progress = getRuleProgress(rule, snapshot);
+        expect(progress).toBeGreaterThanOrEqual(0);
+        expect(progress).toBeLessThanOrEqual(1);
+        expect(progress === 1).toBe(evaluateRule(rule, snapshot));
+      }),
+    );
+  });
+
+  it('measures a threshold by how far the stat has reached it', () => {
+    fc.assert(
+      fc.property(
+        fc.nat(100),
+        fc.integer({ min: 1, max: 100 }),
+        (value, gte) => {
+          const snapshot = createSnapshot({ totalCorrect: value });
+          const rule = { stat: 'allTimeStats.totalCorrect', gte };
+          expect(getRuleProgress(rule, snapshot)).toBeCloseTo(
+            Math.min(value / gte, 1),
+          );
+        },
+      ),
+    );
+  });
+
+  it('averages the progress of every rule that must hold', () => {
+    const snapshot = createSnapshot({ totalCorrect: 50, bestStreak: 0 });
+    const rule: AchievementRule = {
+      all: [
+        { stat: 'allTimeStats.totalCorrect', gte: 100 },
+        { stat: 'allTimeStats.bestStreak', gte: 10 },
+      ],
+    };
+    expect(getRuleProgress(rule, snapshot)).toBeCloseTo(0.25);
+  });
+});
+
+describe('resolveStat', () => {
+  it('counts dates within the last days', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(fc.integer({ min: 0, max: 60 }), { maxLength: 30 }),
+        fc.integer({ min: 1, max: 30 }),
+        (daysAgo, days) => {
+          const snapshot = createSnapshot({});
+          const trainingDays = daysAgo.map(ago =>
+            new Date(snapshot.now - ago * DAY_MS).toISOString().slice(0, 10),
+          );
+          const recent = resolveStat(
+            { recent: 'allTimeStats.trainingDays', days },
+            { ...snapshot, allTimeStats: { trainingDays } },
+          );
+          expect(recent).toBe(daysAgo.filter(ago => ago < days).length);
+        },
+      ),
+    );
+  });
+
+  it('averages and totals the last entries of a list', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.nat(5000), { minLength: 1, maxLength: 50 }),
+        fc.integer({ min: 1, max: 50 }),
+        (times, last) => {
+          const snapshot = createSnapshot({ answerTimesMs: times });
+          const recent = times.slice(-last);
+          const total = recent.reduce((a, b) => a + b, 0);
+          expect(
+            resolveStat(
+              { total: 'allTimeStats.answerTimesMs', last },
+              snapshot,
+            ),
+          ).toBe(total);
+          expect(
+            resolveStat(
+              { average: 'allTimeStats.answerTimesMs', last },
+              snapshot,
+            ),
+          ).toBeCloseTo(total / recent.length);
+        },
+      ),
+    );
+  });
+
+  it('gives a percentage of 0 when there is nothing to divide by', () => {
+    expect(
+      resolveStat(
+        { percent: ['allTimeStats.totalCorrect', 'allTimeStats.missing'] },
+        createSnapshot({ totalCorrect: 10 }),
+      ),
+    ).toBe(0);
+  });
+});
+
+describe('rule dependencies', () => {
+  it('leaves a rule untouched by changes to stats it does not read', () => {
+    fc.assert(
+      fc.property(
+        ruleArb,
+        statsArb,
+        fc.constantFrom(...statNames),
+        fc.nat(1000),
+        (rule, stats, name, value) => {
+          const before = createSnapshot(stats);
+          const after = createSnapshot({ ...stats, [name]: value });
+          const changed = diffStatPaths(
+            before.allTimeStats,
+            after.allTimeStats,
+            'allTimeStats',
+          );
+          if (!isAffectedBy(getRuleDependencies(rule), changed)) {
+            expect(evaluateRule(rule, after)).toBe(evaluateRule(rule, before));
+          }
+        },
+      ),
+    );
+  });
+
+  it('diffs stats down to the values that changed', () => {
+    const prev = { a: 1, nested: { b: 2, c: 3 }, list: [1] };
+    const next = { a: 1, nested: { b: 2, c: 4 }, list: [1], added: true };
+    expect(diffStatPaths(prev, next, 'allTimeStats').sort()).toEqual([
+      'allTimeStats.added',
+      'allTimeStats.list',
+      'allTimeStats.nested.c',
+    ]);
+    expect(diffStatPaths(prev, prev, 'allTimeStats')).toEqual([]);
+  });
+
+  it('matches changes above and below a dependency', () => {
+    const dependencies = ['allTimeStats.gauntletStats.perfectRuns'];
+    expect(isAffectedBy(dependencies, ['allTimeStats.gauntletStats'])).toBe(
+      true,
+    );
+    expect(isAffectedBy(dependencies, ['allTimeStats.gauntletStatsX'])).toBe(
+      false,
+    );
+    expect(isAffectedBy(['clock'], [])).toBe(true);
+  });
+});
+
+describe('validateRule', () => {
+  it('accepts every generated rule', () => {
+    fc.assert(
+      fc.property(ruleArb, rule => {
+        expect(validateRule(rule)).toEqual([]);
+      }),
+    );
+  });
+
+  it('reports where a rule is malformed', () => {
+    expect(validateRule({ all: [] })).toEqual([
+      'rule.all: expected a non-empty list of rules',
+    ]);
+    expect(
+      validateRule({ any: [{ stat: 'stats.totalCorrect', gte: 1 }] }),
+    ).toEqual([
+      'rule.any[0].stat: path "stats.totalCorrect" must start with allTimeStats, session, achievements',
+    ]);
+    expect(validateRule({ stat: 'allTimeStats.bestStreak' })).toHaveLength(1);
+    expect(
+      validateRule({ stat: { mastered: 'romaji', accuracy: 90 }, gte: 1 }),
+    ).toHaveLength(1);
+    expect(validateRule({ when: 'always' })).toHaveLength(1);
+  });
+});
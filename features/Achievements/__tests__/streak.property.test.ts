@@ -1,6 +1,11 @@
 import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
 import { ACHIEVEMENTS, type Achievement } from '../store/useAchievementStore';
+import { COLLECTIBLE_ACHIEVEMENT_COUNT } from '../lib/achievementCatalog';
+import {
+  evaluateRule,
+  type AchievementSnapshot,
+} from '../lib/achievementRules';
 
 /**
  * **Feature: expanded-achievements, Property 4: Streak Achievement Unlocking**
@@ -9,96 +14,71 @@ import { ACHIEVEMENTS, type Achievement } from '../store/useAchievementStore';
  * **Validates: Requirements 4.10, 5.4-5.5, 7.1-7.5**
  */
 
-// Filter streak-based achievements
-const streakAchievements = ACHIEVEMENTS.filter(
-  a => a.requirements.type === 'streak',
-);
+type StreakMode = 'general' | 'gauntlet' | 'blitz';
 
-// Helper to create stats for streak achievement
-function createStatsForStreakAchievement(
-  achievement: Achievement,
-  meetsThreshold: boolean,
-): { allTimeStats: Record<string, unknown> } {
-  const { value, additional } = achievement.requirements;
-  const targetValue = meetsThreshold ? value : Math.max(0, value - 1);
+const STREAK_PATHS: Record<StreakMode, string> = {
+  general: 'allTimeStats.bestStreak',
+  gauntlet: 'allTimeStats.gauntletStats.bestStreak',
+  blitz: 'allTimeStats.blitzStats.bestStreak',
+};
+
+const STREAK_MODES = Object.keys(STREAK_PATHS) as StreakMode[];
 
-  const baseStats = {
-    totalCorrect: 0,
-    totalIncorrect: 0,
-    bestStreak: 0,
-    totalSessions: 0,
-    gauntletStats: {
-      totalRuns: 0,
-      completedRuns: 0,
-      normalCompleted: 0,
-      hardCompleted: 0,
-      instantDeathCompleted: 0,
-      perfectRuns: 0,
-      noDeathRuns: 0,
-      livesRegenerated: 0,
-      bestStreak: 0,
+const getStreakMode = (achievement: Achievement): StreakMode | undefined =>
+  'stat' in achievement.rule
+    ? STREAK_MODES.find(mode => STREAK_PATHS[mode] === achievement.rule.stat)
+    : undefined;
+
+// Filter streak-based achievements
+const streakAchievements = ACHIEVEMENTS.filter(a => getStreakMode(a));
+
+const getThreshold = (achievement: Achievement) =>
+  (achievement.rule as { gte: number }).gte;
+
+// Snapshot with the given best streak in each mode
+function createSnapshot(
+  streaks: Partial<Record<StreakMode, number>>,
+): AchievementSnapshot {
+  return {
+    allTimeStats: {
+      bestStreak: streaks.general ?? 0,
+      gauntletStats: { bestStreak: streaks.gauntlet ?? 0 },
+      blitzStats: { bestStreak: streaks.blitz ?? 0 },
     },
-    blitzStats: {
-      totalSessions: 0,
-      bestSessionScore: 0,
-      bestStreak: 0,
-      totalCorrect: 0,
+    achievements: {
+      unlockedCount: 0,
+      totalPoints: 0,
+      collectibleCount: COLLECTIBLE_ACHIEVEMENT_COUNT,
     },
+    now: 0,
   };
-
-  // Set the appropriate streak based on game mode
-  const gameMode = additional?.gameMode;
-
-  if (gameMode === 'gauntlet') {
-    baseStats.gauntletStats.bestStreak = targetValue;
-  } else if (gameMode === 'blitz') {
-    baseStats.blitzStats.bestStreak = targetValue;
-  } else {
-    // General streak (no specific game mode)
-    baseStats.bestStreak = targetValue;
-  }
-
-  return { allTimeStats: baseStats };
 }
 
-// Simplified streak requirement checker
-function checkStreakRequirement(
+const createSnapshotForStreakAchievement = (
   achievement: Achievement,
-  stats: { allTimeStats: Record<string, unknown> },
-): boolean {
-  const { value, additional } = achievement.requirements;
-  const allTimeStats = stats.allTimeStats;
-  const gameMode = additional?.gameMode;
-
-  if (gameMode === 'gauntlet') {
-    const gauntletStats = allTimeStats.gauntletStats as { bestStreak: number };
-    return gauntletStats.bestStreak >= value;
-  } else if (gameMode === 'blitz') {
-    const blitzStats = allTimeStats.blitzStats as { bestStreak: number };
-    return blitzStats.bestStreak >= value;
-  }
-
-  return (allTimeStats.bestStreak as number) >= value;
-}
+  streak: number,
+) => createSnapshot({ [getStreakMode(achievement)!]: streak });
 
 describe('Property 4: Streak Achievement Unlocking', () => {
+  it('has streak achievements for every mode', () => {
+    expect(new Set(streakAchievements.map(getStreakMode))).toEqual(
+      new Set(STREAK_MODES),
+    );
+  });
+
   it('streak achievements unlock when streak meets or exceeds threshold', () => {
     fc.assert(
       fc.property(
         fc.constantFrom(...streakAchievements),
-        fc.boolean(),
-        (achievement: Achievement, meetsThreshold: boolean) => {
-          const stats = createStatsForStreakAchievement(
+        fc.integer({ min: 0, max: 1000 }),
+        (achievement: Achievement, streak: number) => {
+          const snapshot = createSnapshotForStreakAchievement(
             achievement,
-            meetsThreshold,
+            streak,
+          );
+          expect(evaluateRule(achievement.rule, snapshot)).toBe(
+            streak >= getThreshold(achievement),
           );
-          const isUnlocked = checkStreakRequirement(achievement, stats);
-
-          if (meetsThreshold) {
-            expect(isUnlocked).toBe(true);
-          } else if (achievement.requirements.value > 1) {
-            expect(isUnlocked).toBe(false);
-          }
         },
       ),
       { numRuns: 100 },
@@ -106,65 +86,26 @@ describe('Property 4: Streak Achievement Unlocking', () => {
   });
 
   it('streak achievements unlock at exact threshold value', () => {
-    fc.assert(
-      fc.property(
-        fc.constantFrom(...streakAchievements),
-        (achievement: Achievement) => {
-          const stats = createStatsForStreakAchievement(achievement, true);
-          const isUnlocked = checkStreakRequirement(achievement, stats);
-
-          expect(isUnlocked).toBe(true);
-        },
-      ),
-      { numRuns: 100 },
-    );
-  });
-
-  it('streak achievements unlock when streak exceeds threshold', () => {
-    fc.assert(
-      fc.property(
-        fc.constantFrom(...streakAchievements),
-        fc.integer({ min: 1, max: 100 }),
-        (achievement: Achievement, excess: number) => {
-          const stats = createStatsForStreakAchievement(achievement, true);
-          const { additional } = achievement.requirements;
-          const gameMode = additional?.gameMode;
-
-          // Add excess to the streak
-          if (gameMode === 'gauntlet') {
-            const gauntletStats = stats.allTimeStats.gauntletStats as {
-              bestStreak: number;
-            };
-            gauntletStats.bestStreak += excess;
-          } else if (gameMode === 'blitz') {
-            const blitzStats = stats.allTimeStats.blitzStats as {
-              bestStreak: number;
-            };
-            blitzStats.bestStreak += excess;
-          } else {
-            (stats.allTimeStats.bestStreak as number) += excess;
-          }
-
-          const isUnlocked = checkStreakRequirement(achievement, stats);
-          expect(isUnlocked).toBe(true);
-        },
-      ),
-      { numRuns: 100 },
-    );
+    for (const achievement of streakAchievements) {
+      const atThreshold = createSnapshotForStreakAchievement(
+        achievement,
+        getThreshold(achievement),
+      );
+      const belowThreshold = createSnapshotForStreakAchievement(
+        achievement,
+        getThreshold(achievement) - 1,
+      );
+      expect(evaluateRule(achievement.rule, atThreshold)).toBe(true);
+      expect(evaluateRule(achievement.rule, belowThreshold)).toBe(false);
+    }
   });
 
   it('general streak achievements are independent of mode-specific streaks', () => {
-    const generalStreakAchievements = streakAchievements.filter(
-      a => !a.requirements.additional?.gameMode,
-    );
-
-    if (generalStreakAchievements.length === 0) {
-      return;
-    }
-
     fc.assert(
       fc.property(
-        fc.constantFrom(...generalStreakAchievements),
+        fc.constantFrom(
+          ...streakAchievements.filter(a => getStreakMode(a) === 'general'),
+        ),
         fc.integer({ min: 0, max: 1000 }),
         fc.integer({ min: 0, max: 1000 }),
         (
@@ -172,21 +113,13 @@ describe('Property 4: Streak Achievement Unlocking', () => {
           gauntletStreak: number,
           blitzStreak: number,
         ) => {
-          const { value } = achievement.requirements;
-
-          // Create stats with high mode-specific streaks but low general streak
-          const stats = {
-            allTimeStats: {
-              bestStreak: value - 1, // Below threshold
-              gauntletStats: { bestStreak: gauntletStreak },
-              blitzStats: { bestStreak: blitzStreak },
-            },
-          };
-
-          const isUnlocked = checkStreakRequirement(achievement, stats);
-
-          // Should not unlock based on mode-specific streaks
-          expect(isUnlocked).toBe(false);
+          // High mode-specific streaks but a general streak below threshold
+          const snapshot = createSnapshot({
+            general: getThreshold(achievement) - 1,
+            gauntlet: gauntletStreak,
+            blitz: blitzStreak,
+          });
+          expect(evaluateRule(achievement.rule, snapshot)).toBe(false);
         },
       ),
       { numRuns: 100 },
@@ -194,115 +127,52 @@ describe('Property 4: Streak Achievement Unlocking', () => {
   });
 
   it('mode-specific streak achievements only check their mode', () => {
-    const gauntletStreakAchievements = streakAchievements.filter(
-      a => a.requirements.additional?.gameMode === 'gauntlet',
-    );
-
-    const blitzStreakAchievements = streakAchievements.filter(
-      a => a.requirements.additional?.gameMode === 'blitz',
-    );
-
-    // Test gauntlet streak achievements
-    if (gauntletStreakAchievements.length > 0) {
-      fc.assert(
-        fc.property(
-          fc.constantFrom(...gauntletStreakAchievements),
-          fc.integer({ min: 0, max: 1000 }),
-          (achievement: Achievement, generalStreak: number) => {
-            const { value } = achievement.requirements;
-
-            // High general streak, low gauntlet streak
-            const stats = {
-              allTimeStats: {
-                bestStreak: generalStreak,
-                gauntletStats: { bestStreak: value - 1 },
-                blitzStats: { bestStreak: 0 },
-              },
-            };
-
-            const isUnlocked = checkStreakRequirement(achievement, stats);
-            expect(isUnlocked).toBe(false);
-          },
-        ),
-        { numRuns: 100 },
-      );
-    }
-
-    // Test blitz streak achievements
-    if (blitzStreakAchievements.length > 0) {
-      fc.assert(
-        fc.property(
-          fc.constantFrom(...blitzStreakAchievements),
-          fc.integer({ min: 0, max: 1000 }),
-          (achievement: Achievement, generalStreak: number) => {
-            const { value } = achievement.requirements;
-
-            // High general streak, low blitz streak
-            const stats = {
-              allTimeStats: {
-                bestStreak: generalStreak,
-                gauntletStats: { bestStreak: 0 },
-                blitzStats: { bestStreak: value - 1 },
-              },
-            };
-
-            const isUnlocked = checkStreakRequirement(achievement, stats);
-            expect(isUnlocked).toBe(false);
-          },
+    fc.assert(
+      fc.property(
+        fc.constantFrom(
+          ...streakAchievements.filter(a => getStreakMode(a) !== 'general'),
         ),
-        { numRuns: 100 },
-      );
-    }
+        fc.integer({ min: 0, max: 1000 }),
+        (achievement: Achievement, otherStreak: number) => {
+          const mode = getStreakMode(achievement)!;
+          // Every other mode on a high streak, this one just below threshold
+          const snapshot = createSnapshot({
+            ...Object.fromEntries(STREAK_MODES.map(m => [m, otherStreak])),
+            [mode]: getThreshold(achievement) - 1,
+          });
+          expect(evaluateRule(achievement.rule, snapshot)).toBe(false);
+        },
+      ),
+      { numRuns: 100 },
+    );
   });
 
   it('streak achievements are monotonic (higher streak always unlocks)', () => {
     fc.assert(
       fc.property(
         fc.constantFrom(...streakAchievements),
+        fc.integer({ min: 0, max: 1000 }),
         fc.integer({ min: 0, max: 500 }),
-        (achievement: Achievement, additionalStreak: number) => {
-          const { value } = achievement.requirements;
-
-          // If threshold is met, any higher value should also unlock
-          const statsAtThreshold = createStatsForStreakAchievement(
-            achievement,
-            true,
-          );
-          const statsAboveThreshold = createStatsForStreakAchievement(
-            achievement,
-            true,
-          );
-
-          // Add additional streak
-          const { additional } = achievement.requirements;
-          const gameMode = additional?.gameMode;
-
-          if (gameMode === 'gauntlet') {
-            const gauntletStats = statsAboveThreshold.allTimeStats
-              .gauntletStats as { bestStreak: number };
-            gauntletStats.bestStreak += additionalStreak;
-          } else if (gameMode === 'blitz') {
-            const blitzStats = statsAboveThreshold.allTimeStats.blitzStats as {
-              bestStreak: number;
-            };
-            blitzStats.bestStreak += additionalStreak;
-          } else {
-            (statsAboveThreshold.allTimeStats.bestStreak as number) +=
-              additionalStreak;
-          }
-
-          const unlockedAtThreshold = checkStreakRequirement(
-            achievement,
-            statsAtThreshold,
+        (
+          achievement: Achievement,
+          streak: number,
+          additionalStreak: number,
+        ) => {
+          const unlocked = evaluateRule(
+            achievement.rule,
+            createSnapshotForStreakAchievement(achievement, streak),
           );
-          const unlockedAboveThreshold = checkStreakRequirement(
-            achievement,
-            statsAboveThreshold,
+          const unlockedAbove = evaluateRule(
+            achievement.rule,
+            createSnapshotForStreakAchievement(
+              achievement,
+              streak + additionalStreak,
+            ),
           );
 
-          // If unlocked at threshold, must be unlocked above threshold
-          if (unlockedAtThreshold) {
-            expect(unlockedAboveThreshold).toBe(true);
+          // If unlocked at a streak, must be unlocked at any higher streak
+          if (unlocked) {
+            expect(unlockedAbove).toBe(true);
           }
         },
       ),
@@ -5,6 +5,11 @@ import {
   type Achievement,
   type SessionStats,
 } from '../store/useAchievementStore';
+import { COLLECTIBLE_ACHIEVEMENT_COUNT } from '../lib/achievementCatalog';
+import {
+  evaluateRule,
+  type AchievementSnapshot,
+} from '../lib/achievementRules';
 
 /**
  * **Feature: expanded-achievements, Property 5: Time-Based Achievement Unlocking**
@@ -14,137 +19,98 @@ import {
  * **Validates: Requirements 6.1-6.5**
  */
 
-// Filter speed-based achievements
-const speedAchievements = ACHIEVEMENTS.filter(
-  a => a.requirements.type === 'speed',
-);
-
-// Helper to create stats for speed achievement
-function createStatsForSpeedAchievement(
-  achievement: Achievement,
-  meetsRequirement: boolean,
-): {
-  allTimeStats: Record<string, unknown>;
-  sessionStats?: SessionStats;
-} {
-  const { value, additional } = achievement.requirements;
-  const speedType = additional?.type;
-  const minAnswers = additional?.minAnswers ?? 10;
-  const minAccuracy = additional?.minAccuracy ?? 0;
+// What each speed achievement asks for, as its description words it
+type SpeedCriteria =
+  | { type: 'total'; answers: number; maxMs: number }
+  | { type: 'average'; answers: number; maxMs: number }
+  | { type: 'single_answer'; maxMs: number }
+  | { type: 'session'; maxMs: number; minAccuracy: number };
+
+const SPEED_CRITERIA: Record<string, SpeedCriteria> = {
+  quick_draw: { type: 'total', answers: 10, maxMs: 30_000 },
+  speed_reader: { type: 'total', answers: 25, maxMs: 60_000 },
+  instant_recognition: { type: 'single_answer', maxMs: 1_000 },
+  rapid_fire: { type: 'average', answers: 50, maxMs: 2_000 },
+  efficient_learner: { type: 'session', maxMs: 300_000, minAccuracy: 90 },
+};
 
-  const baseStats = {
-    totalCorrect: 0,
-    totalIncorrect: 0,
-    bestStreak: 0,
-    totalSessions: 0,
-    fastestAnswerMs: Infinity,
-    answerTimesMs: [] as number[],
+// Filter speed-based achievements
+const speedAchievements = ACHIEVEMENTS.filter(a => a.id in SPEED_CRITERIA);
+
+const getCriteria = (achievement: Achievement) =>
+  SPEED_CRITERIA[achievement.id];
+
+const ofType = (type: SpeedCriteria['type']) =>
+  speedAchievements.filter(a => getCriteria(a).type === type);
+
+function createSnapshot(
+  allTimeStats: Record<string, unknown>,
+  session?: SessionStats,
+): AchievementSnapshot {
+  return {
+    allTimeStats,
+    session,
+    achievements: {
+      unlockedCount: 0,
+      totalPoints: 0,
+      collectibleCount: COLLECTIBLE_ACHIEVEMENT_COUNT,
+    },
+    now: 0,
   };
-
-  let sessionStats: SessionStats | undefined;
-
-  switch (speedType) {
-    case 'single_answer':
-      // For single answer speed, set fastest answer time
-      baseStats.fastestAnswerMs = meetsRequirement ? value - 100 : value + 100;
-      break;
-
-    case 'average': {
-      // For average speed, create answer times that average to target
-      const targetAvg = meetsRequirement ? value - 100 : value + 100;
-      baseStats.answerTimesMs = Array(minAnswers).fill(targetAvg);
-      break;
-    }
-
-    case 'session': {
-      // For session speed, create session stats
-      const targetTime = meetsRequirement ? value - 1000 : value + 1000;
-      const targetAccuracy = meetsRequirement
-        ? minAccuracy + 5
-        : minAccuracy - 5;
-      sessionStats = {
-        sessionTime: targetTime,
-        sessionAccuracy: targetAccuracy,
-      };
-      break;
-    }
-
-    default: {
-      // Default: total time for minAnswers questions
-      const targetTotal = meetsRequirement ? value - 1000 : value + 1000;
-      const timePerAnswer = Math.floor(targetTotal / minAnswers);
-      baseStats.answerTimesMs = Array(minAnswers).fill(timePerAnswer);
-      break;
-    }
-  }
-
-  return { allTimeStats: baseStats, sessionStats };
 }
 
-// Simplified speed requirement checker
-function checkSpeedRequirement(
+// Snapshot just inside or just outside the achievement's limits
+function createSnapshotForSpeedAchievement(
   achievement: Achievement,
-  stats: { allTimeStats: Record<string, unknown> },
-  sessionStats?: SessionStats,
-): boolean {
-  const { value, additional } = achievement.requirements;
-  const speedType = additional?.type;
-  const minAnswers = additional?.minAnswers ?? 0;
-  const minAccuracy = additional?.minAccuracy ?? 0;
-
-  const allTimeStats = stats.allTimeStats;
-  const answerTimes = (allTimeStats.answerTimesMs as number[]) ?? [];
-  const fastestAnswer = (allTimeStats.fastestAnswerMs as number) ?? Infinity;
+  meetsRequirement: boolean,
+): AchievementSnapshot {
+  const criteria = getCriteria(achievement);
+  const margin = meetsRequirement ? -100 : 100;
 
-  switch (speedType) {
+  switch (criteria.type) {
     case 'single_answer':
-      return fastestAnswer <= value;
-
-    case 'average': {
-      if (answerTimes.length < minAnswers) return false;
-      const recentTimes = answerTimes.slice(-minAnswers);
-      const avgTime =
-        recentTimes.reduce((a, b) => a + b, 0) / recentTimes.length;
-      return avgTime <= value;
-    }
-
-    case 'session': {
-      if (!sessionStats) return false;
-      const sessionTime = sessionStats.sessionTime ?? Infinity;
-      const sessionAccuracy = sessionStats.sessionAccuracy ?? 0;
-      return sessionTime <= value && sessionAccuracy >= minAccuracy;
-    }
-
-    default: {
-      // Total time for minAnswers questions
-      if (answerTimes.length < minAnswers) return false;
-      const recentTimes = answerTimes.slice(-minAnswers);
-      const totalTime = recentTimes.reduce((a, b) => a + b, 0);
-      return totalTime <= value;
-    }
+      return createSnapshot({ fastestAnswerMs: criteria.maxMs + margin });
+    case 'average':
+      return createSnapshot({
+        answerTimesMs: Array(criteria.answers).fill(criteria.maxMs + margin),
+      });
+    case 'session':
+      return createSnapshot(
+        {},
+        {
+          sessionTime: criteria.maxMs + margin * 10,
+          sessionAccuracy: criteria.minAccuracy - margin / 20,
+        },
+      );
+    case 'total':
+      return createSnapshot({
+        answerTimesMs: Array(criteria.answers).fill(
+          Math.floor((criteria.maxMs + margin * 10) / criteria.answers),
+        ),
+      });
   }
 }
 
 describe('Property 5: Time-Based Achievement Unlocking', () => {
+  it('finds every speed achievement in the catalog', () => {
+    expect(speedAchievements.map(a => a.id).sort()).toEqual(
+      Object.keys(SPEED_CRITERIA).sort(),
+    );
+  });
+
   it('speed achievements unlock when timing criteria are met', () => {
     fc.assert(
       fc.property(
         fc.constantFrom(...speedAchievements),
         fc.boolean(),
         (achievement: Achievement, meetsRequirement: boolean) => {
-          const { allTimeStats, sessionStats } = createStatsForSpeedAchievement(
+          const snapshot = createSnapshotForSpeedAchievement(
             achievement,
             meetsRequirement,
           );
-          const isUnlocked = checkSpeedRequirement(
-            achievement,
-            { allTimeStats },
-            sessionStats,
+          expect(evaluateRule(achievement.rule, snapshot)).toBe(
+            meetsRequirement,
           );
-
-          if (meetsRequirement) {
-            expect(isUnlocked).toBe(true);
-          }
         },
       ),
       { numRuns: 100 },
@@ -152,35 +118,15 @@ describe('Property 5: Time-Based Achievement Unlocking', () => {
   });
 
   it('single answer speed achievements check fastest answer time', () => {
-    const singleAnswerAchievements = speedAchievements.filter(
-      a => a.requirements.additional?.type === 'single_answer',
-    );
-
-    if (singleAnswerAchievements.length === 0) {
-      return;
-    }
-
     fc.assert(
       fc.property(
-        fc.constantFrom(...singleAnswerAchievements),
-        fc.integer({ min: 100, max: 5000 }),
-        (achievement: Achievement, answerTime: number) => {
-          const { value } = achievement.requirements;
-
-          const stats = {
-            allTimeStats: {
-              fastestAnswerMs: answerTime,
-              answerTimesMs: [],
-            },
-          };
-
-          const isUnlocked = checkSpeedRequirement(achievement, stats);
-
-          if (answerTime <= value) {
-            expect(isUnlocked).toBe(true);
-          } else {
-            expect(isUnlocked).toBe(false);
-          }
+        fc.constantFrom(...ofType('single_answer')),
+        fc.integer({ min: 1, max: 5000 }),
+        (achievement: Achievement, fastestAnswerMs: number) => {
+          const snapshot = createSnapshot({ fastestAnswerMs });
+          expect(evaluateRule(achievement.rule, snapshot)).toBe(
+            fastestAnswerMs <= getCriteria(achievement).maxMs,
+          );
         },
       ),
       { numRuns: 100 },
@@ -188,134 +134,93 @@ describe('Property 5: Time-Based Achievement Unlocking', () => {
   });
 
   it('average speed achievements require minimum answers', () => {
-    const avgSpeedAchievements = speedAchievements.filter(
-      a => a.requirements.additional?.type === 'average',
-    );
-
-    if (avgSpeedAchievements.length === 0) {
-      return;
-    }
-
     fc.assert(
       fc.property(
-        fc.constantFrom(...avgSpeedAchievements),
-        (achievement: Achievement) => {
-          const minAnswers =
-            achievement.requirements.additional?.minAnswers ?? 0;
-
-          // Create stats with fewer answers than required
-          const stats = {
-            allTimeStats: {
-              fastestAnswerMs: Infinity,
-              answerTimesMs: Array(Math.max(0, minAnswers - 1)).fill(100), // Fast times but not enough
-            },
-          };
-
-          const isUnlocked = checkSpeedRequirement(achievement, stats);
-
-          // Should not unlock without minimum answers
-          if (minAnswers > 0) {
-            expect(isUnlocked).toBe(false);
-          }
+        fc.constantFrom(...ofType('average')),
+        fc.integer({ min: 0, max: 100 }),
+        (achievement: Achievement, numAnswers: number) => {
+          const criteria = getCriteria(achievement) as { answers: number };
+          // Fast enough answers, but maybe not enough of them
+          const snapshot = createSnapshot({
+            answerTimesMs: Array(numAnswers).fill(500),
+          });
+          expect(evaluateRule(achievement.rule, snapshot)).toBe(
+            numAnswers >= criteria.answers,
+          );
         },
       ),
       { numRuns: 100 },
     );
   });
 
-  it('session speed achievements require both time and accuracy', () => {
-    const sessionSpeedAchievements = speedAchievements.filter(
-      a => a.requirements.additional?.type === 'session',
-    );
-
-    if (sessionSpeedAchievements.length === 0) {
-      return;
+  it('average speed achievements only average the most recent answers', () => {
+    for (const achievement of ofType('average')) {
+      const criteria = getCriteria(achievement) as {
+        answers: number;
+        maxMs: number;
+      };
+      // Slow answers long ago, fast ones lately
+      const snapshot = createSnapshot({
+        answerTimesMs: [
+          ...Array(criteria.answers).fill(criteria.maxMs * 10),
+          ...Array(criteria.answers).fill(criteria.maxMs),
+        ],
+      });
+      expect(evaluateRule(achievement.rule, snapshot)).toBe(true);
     }
+  });
 
+  it('session speed achievements require both time and accuracy', () => {
     fc.assert(
       fc.property(
-        fc.constantFrom(...sessionSpeedAchievements),
-        fc.boolean(),
-        fc.boolean(),
-        (
-          achievement: Achievement,
-          meetsTime: boolean,
-          meetsAccuracy: boolean,
-        ) => {
-          const { value, additional } = achievement.requirements;
-          const minAccuracy = additional?.minAccuracy ?? 0;
-
-          const sessionStats: SessionStats = {
-            sessionTime: meetsTime ? value - 1000 : value + 1000,
-            sessionAccuracy: meetsAccuracy ? minAccuracy + 5 : minAccuracy - 5,
-          };
-
-          const stats = {
-            allTimeStats: {
-              fastestAnswerMs: Infinity,
-              answerTimesMs: [],
-            },
+        fc.constantFrom(...ofType('session')),
+        fc.integer({ min: 1000, max: 600_000 }),
+        fc.integer({ min: 0, max: 100 }),
+        (achievement: Achievement, sessionTime: number, accuracy: number) => {
+          const criteria = getCriteria(achievement) as {
+            maxMs: number;
+            minAccuracy: number;
           };
-
-          const isUnlocked = checkSpeedRequirement(
-            achievement,
-            stats,
-            sessionStats,
+          const snapshot = createSnapshot(
+            {},
+            { sessionTime, sessionAccuracy: accuracy },
+          );
+          expect(evaluateRule(achievement.rule, snapshot)).toBe(
+            sessionTime <= criteria.maxMs && accuracy >= criteria.minAccuracy,
           );
-
-          // Should only unlock if both criteria are met
-          if (meetsTime && meetsAccuracy) {
-            expect(isUnlocked).toBe(true);
-          } else {
-            expect(isUnlocked).toBe(false);
-          }
         },
       ),
       { numRuns: 100 },
     );
   });
 
-  it('total time speed achievements sum answer times correctly', () => {
-    const totalTimeAchievements = speedAchievements.filter(
-      a => !a.requirements.additional?.type, // Default type is total time
-    );
-
-    if (totalTimeAchievements.length === 0) {
-      return;
+  it('session speed achievements need a session', () => {
+    for (const achievement of ofType('session')) {
+      expect(evaluateRule(achievement.rule, createSnapshot({}))).toBe(false);
     }
+  });
 
+  it('total time speed achievements sum answer times correctly', () => {
     fc.assert(
       fc.property(
-        fc.constantFrom(...totalTimeAchievements),
-        fc.array(fc.integer({ min: 100, max: 10000 }), {
-          minLength: 1,
-          maxLength: 50,
+        fc.constantFrom(...ofType('total')),
+        fc.array(fc.integer({ min: 100, max: 10_000 }), {
+          minLength: 0,
+          maxLength: 40,
         }),
-        (achievement: Achievement, answerTimes: number[]) => {
-          const { value, additional } = achievement.requirements;
-          const minAnswers = additional?.minAnswers ?? 0;
-
-          // Ensure we have enough answers
-          while (answerTimes.length < minAnswers) {
-            answerTimes.push(1000);
-          }
-
-          const stats = {
-            allTimeStats: {
-              fastestAnswerMs: Infinity,
-              answerTimesMs: answerTimes,
-            },
+        (achievement: Achievement, answerTimesMs: number[]) => {
+          const criteria = getCriteria(achievement) as {
+            answers: number;
+            maxMs: number;
           };
+          const recent = answerTimesMs.slice(-criteria.answers);
+          const total = recent.reduce((a, b) => a + b, 0);
 
-          const isUnlocked = checkSpeedRequirement(achievement, stats);
-
-          // Calculate expected result
-          const recentTimes = answerTimes.slice(-minAnswers);
-          const totalTime = recentTimes.reduce((a, b) => a + b, 0);
-          const shouldUnlock =
-            answerTimes.length >= minAnswers && totalTime <= value;
-
-          expect(isUnlocked).toBe(shouldUnlock);
+          expect(
+            evaluateRule(achievement.rule, createSnapshot({ answerTimesMs })),
+          ).toBe(
+            answerTimesMs.length >= criteria.answers && total <= criteria.maxMs,
+          );
         },
       ),
       { numRuns: 100 },
@@ -325,42 +230,22 @@ describe('Property 5: Time-Based Achievement Unlocking', () => {
   it('speed achievements are monotonic (faster times always unlock)', () => {
     fc.assert(
       fc.property(
-        fc.constantFrom(
-          ...speedAchievements.filter(
-            a => a.requirements.additional?.type === 'single_answer',
-          ),
-        ),
-        fc.integer({ min: 1, max: 500 }),
-        (achievement: Achievement, improvement: number) => {
-          const { value } = achievement.requirements;
-
-          // Time at threshold
-          const statsAtThreshold = {
-            allTimeStats: {
-              fastestAnswerMs: value,
-              answerTimesMs: [],
-            },
-          };
-
-          // Faster time
-          const statsFaster = {
-            allTimeStats: {
-              fastestAnswerMs: value - improvement,
-              answerTimesMs: [],
-            },
-          };
-
-          const unlockedAtThreshold = checkSpeedRequirement(
-            achievement,
-            statsAtThreshold,
+        fc.constantFrom(...ofType('single_answer')),
+        fc.integer({ min: 1, max: 5000 }),
+        fc.integer({ min: 0, max: 1000 }),
+        (achievement: Achievement, fastestAnswerMs: number, faster: number) => {
+          const unlocked = evaluateRule(
+            achievement.rule,
+            createSnapshot({ fastestAnswerMs }),
           );
-          const unlockedFaster = checkSpeedRequirement(
-            achievement,
-            statsFaster,
+          const unlockedFaster = evaluateRule(
+            achievement.rule,
+            createSnapshot({
+              fastestAnswerMs: Math.max(1, fastestAnswerMs - faster),
+            }),
           );
 
-          // If unlocked at threshold, must be unlocked with faster time
-          if (unlockedAtThreshold) {
+          if (unlocked) {
             expect(unlockedFaster).toBe(true);
           }
         },
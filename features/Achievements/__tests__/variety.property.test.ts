@@ -1,6 +1,11 @@
 import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
 import { ACHIEVEMENTS, type Achievement } from '../store/useAchievementStore';
+import { COLLECTIBLE_ACHIEVEMENT_COUNT } from '../lib/achievementCatalog';
+import {
+  evaluateRule,
+  type AchievementSnapshot,
+} from '../lib/achievementRules';
 
 /**
  * **Feature: expanded-achievements, Property 6: Variety Achievement Unlocking**
@@ -10,244 +15,110 @@ import { ACHIEVEMENTS, type Achievement } from '../store/useAchievementStore';
  * **Validates: Requirements 8.1-8.3**
  */
 
+type UsageList = 'dojosUsed' | 'modesUsed' | 'challengeModesUsed';
+
+// The list each variety achievement reads, and what must be in it
+const VARIETY_REQUIREMENTS: Record<
+  string,
+  { list: UsageList; required: string[] }
+> = {
+  well_rounded: {
+    list: 'dojosUsed',
+    required: ['kana', 'kanji', 'vocabulary'],
+  },
+  mode_explorer: {
+    list: 'modesUsed',
+    required: ['pick', 'type', 'anti-type'],
+  },
+  triple_threat: {
+    list: 'challengeModesUsed',
+    required: ['classic', 'gauntlet', 'blitz'],
+  },
+};
+
 // Filter variety-based achievements
 const varietyAchievements = ACHIEVEMENTS.filter(
-  a => a.requirements.type === 'variety',
+  a => a.id in VARIETY_REQUIREMENTS,
 );
 
-// Helper to create stats for variety achievement
-function createStatsForVarietyAchievement(
-  achievement: Achievement,
-  meetsRequirement: boolean,
-): { allTimeStats: Record<string, unknown> } {
-  const { additional } = achievement.requirements;
-
-  const baseStats = {
-    totalCorrect: 0,
-    totalIncorrect: 0,
-    bestStreak: 0,
-    totalSessions: 0,
-    dojosUsed: [] as string[],
-    modesUsed: [] as string[],
-    challengeModesUsed: [] as string[],
+const getRequirement = (achievement: Achievement) =>
+  VARIETY_REQUIREMENTS[achievement.id];
+
+function createSnapshot(
+  usage: Partial<Record<UsageList, string[]>>,
+): AchievementSnapshot {
+  return {
+    allTimeStats: {
+      dojosUsed: [],
+      modesUsed: [],
+      challengeModesUsed: [],
+      ...usage,
+    },
+    achievements: {
+      unlockedCount: 0,
+      totalPoints: 0,
+      collectibleCount: COLLECTIBLE_ACHIEVEMENT_COUNT,
+    },
+    now: 0,
   };
-
-  if (additional?.dojos) {
-    if (meetsRequirement) {
-      baseStats.dojosUsed = [...additional.dojos];
-    } else {
-      // Use all but one dojo
-      baseStats.dojosUsed = additional.dojos.slice(0, -1);
-    }
-  }
-
-  if (additional?.modes) {
-    if (meetsRequirement) {
-      baseStats.modesUsed = [...additional.modes];
-    } else {
-      // Use all but one mode
-      baseStats.modesUsed = additional.modes.slice(0, -1);
-    }
-  }
-
-  if (additional?.challengeModes) {
-    if (meetsRequirement) {
-      baseStats.challengeModesUsed = [...additional.challengeModes];
-    } else {
-      // Use all but one challenge mode
-      baseStats.challengeModesUsed = additional.challengeModes.slice(0, -1);
-    }
-  }
-
-  return { allTimeStats: baseStats };
 }
 
-// Simplified variety requirement checker
-function checkVarietyRequirement(
+// Snapshot that used every required item, or all but the last
+function createSnapshotForVarietyAchievement(
   achievement: Achievement,
-  stats: { allTimeStats: Record<string, unknown> },
-): boolean {
-  const { value, additional } = achievement.requirements;
-  const allTimeStats = stats.allTimeStats;
-
-  if (additional?.dojos) {
-    const dojosUsed = (allTimeStats.dojosUsed as string[]) ?? [];
-    const requiredDojos = additional.dojos;
-    const matchedDojos = requiredDojos.filter(d => dojosUsed.includes(d));
-    return matchedDojos.length >= value;
-  }
-
-  if (additional?.modes) {
-    const modesUsed = (allTimeStats.modesUsed as string[]) ?? [];
-    const requiredModes = additional.modes;
-    const matchedModes = requiredModes.filter(m => modesUsed.includes(m));
-    return matchedModes.length >= value;
-  }
-
-  if (additional?.challengeModes) {
-    const challengeModesUsed =
-      (allTimeStats.challengeModesUsed as string[]) ?? [];
-    const requiredChallengeModes = additional.challengeModes;
-    const matchedChallengeModes = requiredChallengeModes.filter(cm =>
-      challengeModesUsed.includes(cm),
-    );
-    return matchedChallengeModes.length >= value;
-  }
-
-  return false;
+  meetsRequirement: boolean,
+): AchievementSnapshot {
+  const { list, required } = getRequirement(achievement);
+  return createSnapshot({
+    [list]: meetsRequirement ? [...required] : required.slice(0, -1),
+  });
 }
 
 describe('Property 6: Variety Achievement Unlocking', () => {
+  it('finds every variety achievement in the catalog', () => {
+    expect(varietyAchievements.map(a => a.id).sort()).toEqual(
+      Object.keys(VARIETY_REQUIREMENTS).sort(),
+    );
+  });
+
   it('variety achievements unlock when all required items are used', () => {
     fc.assert(
       fc.property(
         fc.constantFrom(...varietyAchievements),
         fc.boolean(),
         (achievement: Achievement, meetsRequirement: boolean) => {
-          const stats = createStatsForVarietyAchievement(
+          const snapshot = createSnapshotForVarietyAchievement(
             achievement,
             meetsRequirement,
           );
-          const isUnlocked = checkVarietyRequirement(achievement, stats);
-
-          if (meetsRequirement) {
-            expect(isUnlocked).toBe(true);
-          }
-        },
-      ),
-      { numRuns: 100 },
-    );
-  });
-
-  it('dojo variety achievements require all specified dojos', () => {
-    const dojoAchievements = varietyAchievements.filter(
-      a => a.requirements.additional?.dojos,
-    );
-
-    if (dojoAchievements.length === 0) {
-      return;
-    }
-
-    fc.assert(
-      fc.property(
-        fc.constantFrom(...dojoAchievements),
-        (achievement: Achievement) => {
-          const requiredDojos =
-            achievement.requirements.additional?.dojos ?? [];
-
-          // Test with all dojos
-          const statsWithAll = {
-            allTimeStats: {
-              dojosUsed: [...requiredDojos],
-              modesUsed: [],
-              challengeModesUsed: [],
-            },
-          };
-          expect(checkVarietyRequirement(achievement, statsWithAll)).toBe(true);
-
-          // Test with missing one dojo
-          if (requiredDojos.length > 1) {
-            const statsWithMissing = {
-              allTimeStats: {
-                dojosUsed: requiredDojos.slice(0, -1),
-                modesUsed: [],
-                challengeModesUsed: [],
-              },
-            };
-            expect(checkVarietyRequirement(achievement, statsWithMissing)).toBe(
-              false,
-            );
-          }
-        },
-      ),
-      { numRuns: 100 },
-    );
-  });
-
-  it('mode variety achievements require all specified modes', () => {
-    const modeAchievements = varietyAchievements.filter(
-      a => a.requirements.additional?.modes,
-    );
-
-    if (modeAchievements.length === 0) {
-      return;
-    }
-
-    fc.assert(
-      fc.property(
-        fc.constantFrom(...modeAchievements),
-        (achievement: Achievement) => {
-          const requiredModes =
-            achievement.requirements.additional?.modes ?? [];
-
-          // Test with all modes
-          const statsWithAll = {
-            allTimeStats: {
-              dojosUsed: [],
-              modesUsed: [...requiredModes],
-              challengeModesUsed: [],
-            },
-          };
-          expect(checkVarietyRequirement(achievement, statsWithAll)).toBe(true);
-
-          // Test with missing one mode
-          if (requiredModes.length > 1) {
-            const statsWithMissing = {
-              allTimeStats: {
-                dojosUsed: [],
-                modesUsed: requiredModes.slice(0, -1),
-                challengeModesUsed: [],
-              },
-            };
-            expect(checkVarietyRequirement(achievement, statsWithMissing)).toBe(
-              false,
-            );
-          }
+          expect(evaluateRule(achievement.rule, snapshot)).toBe(
+            meetsRequirement,
+          );
         },
       ),
       { numRuns: 100 },
     );
   });
 
-  it('challenge mode variety achievements require all specified challenge modes', () => {
-    const challengeModeAchievements = varietyAchievements.filter(
-      a => a.requirements.additional?.challengeModes,
-    );
-
-    if (challengeModeAchievements.length === 0) {
-      return;
-    }
-
+  it('variety achievements require every item of their own list', () => {
     fc.assert(
       fc.property(
-        fc.constantFrom(...challengeModeAchievements),
-        (achievement: Achievement) => {
-          const requiredChallengeModes =
-            achievement.requirements.additional?.challengeModes ?? [];
-
-          // Test with all challenge modes
-          const statsWithAll = {
-            allTimeStats: {
-              dojosUsed: [],
-              modesUsed: [],
-              challengeModesUsed: [...requiredChallengeModes],
-            },
-          };
-          expect(checkVarietyRequirement(achievement, statsWithAll)).toBe(true);
-
-          // Test with missing one challenge mode
-          if (requiredChallengeModes.length > 1) {
-            const statsWithMissing = {
-              allTimeStats: {
-                dojosUsed: [],
-                modesUsed: [],
-                challengeModesUsed: requiredChallengeModes.slice(0, -1),
-              },
-            };
-            expect(checkVarietyRequirement(achievement, statsWithMissing)).toBe(
-              false,
-            );
-          }
+        fc.constantFrom(...varietyAchievements),
+        fc.nat(),
+        (achievement: Achievement, seed: number) => {
+          const { list, required } = getRequirement(achievement);
+          const missing = required[seed % required.length];
+          // Every other list complete, this one missing one item
+          const snapshot = createSnapshot({
+            ...Object.fromEntries(
+              Object.values(VARIETY_REQUIREMENTS).map(r => [
+                r.list,
+                r.required,
+              ]),
+            ),
+            [list]: required.filter(item => item !== missing),
+          });
+          expect(evaluateRule(achievement.rule, snapshot)).toBe(false);
         },
       ),
       { numRuns: 100 },
@@ -259,30 +130,14 @@ describe('Property 6: Variety Achievement Unlocking', () => {
       fc.property(
         fc.constantFrom(...varietyAchievements),
         fc.array(fc.string({ minLength: 1, maxLength: 10 }), {
-          minLength: 0,
           maxLength: 5,
         }),
         (achievement: Achievement, extraItems: string[]) => {
-          const { additional } = achievement.requirements;
-
-          const stats = {
-            allTimeStats: {
-              dojosUsed: additional?.dojos
-                ? [...additional.dojos, ...extraItems]
-                : extraItems,
-              modesUsed: additional?.modes
-                ? [...additional.modes, ...extraItems]
-                : extraItems,
-              challengeModesUsed: additional?.challengeModes
-                ? [...additional.challengeModes, ...extraItems]
-                : extraItems,
-            },
-          };
-
-          const isUnlocked = checkVarietyRequirement(achievement, stats);
-
-          // Should still unlock with extra items
-          expect(isUnlocked).toBe(true);
+          const { list, required } = getRequirement(achievement);
+          const snapshot = createSnapshot({
+            [list]: [...required, ...extraItems],
+          });
+          expect(evaluateRule(achievement.rule, snapshot)).toBe(true);
         },
       ),
       { numRuns: 100 },
@@ -293,43 +148,14 @@ describe('Property 6: Variety Achievement Unlocking', () => {
     fc.assert(
       fc.property(
         fc.constantFrom(...varietyAchievements),
-        (achievement: Achievement) => {
-          const { additional } = achievement.requirements;
-
-          // Get required items
-          const requiredDojos = additional?.dojos ?? [];
-          const requiredModes = additional?.modes ?? [];
-          const requiredChallengeModes = additional?.challengeModes ?? [];
-
-          // Create stats with items in original order
-          const statsOriginal = {
-            allTimeStats: {
-              dojosUsed: [...requiredDojos],
-              modesUsed: [...requiredModes],
-              challengeModesUsed: [...requiredChallengeModes],
-            },
-          };
-
-          // Create stats with items in reversed order
-          const statsReversed = {
-            allTimeStats: {
-              dojosUsed: [...requiredDojos].reverse(),
-              modesUsed: [...requiredModes].reverse(),
-              challengeModesUsed: [...requiredChallengeModes].reverse(),
-            },
-          };
-
-          const unlockedOriginal = checkVarietyRequirement(
-            achievement,
-            statsOriginal,
+        fc.nat(),
+        (achievement: Achievement, seed: number) => {
+          const { list, required } = getRequirement(achievement);
+          const shuffled = [...required].sort(
+            (a, b) => ((a.length * seed) % 7) - ((b.length * seed) % 7),
           );
-          const unlockedReversed = checkVarietyRequirement(
-            achievement,
-            statsReversed,
-          );
-
-          // Order should not matter
-          expect(unlockedOriginal).toBe(unlockedReversed);
+          const snapshot = createSnapshot({ [list]: shuffled });
+          expect(evaluateRule(achievement.rule, snapshot)).toBe(true);
         },
       ),
       { numRuns: 100 },
@@ -337,25 +163,8 @@ describe('Property 6: Variety Achievement Unlocking', () => {
   });
 
   it('variety achievements do not unlock with empty usage', () => {
-    fc.assert(
-      fc.property(
-        fc.constantFrom(...varietyAchievements),
-        (achievement: Achievement) => {
-          const stats = {
-            allTimeStats: {
-              dojosUsed: [],
-              modesUsed: [],
-              challengeModesUsed: [],
-            },
-          };
-
-          const isUnlocked = checkVarietyRequirement(achievement, stats);
-
-          // Should not unlock with no usage
-          expect(isUnlocked).toBe(false);
-        },
-      ),
-      { numRuns: 100 },
-    );
+    for (const achievement of varietyAchievements) {
+      expect(evaluateRule(achievement.rule, createSnapshot({}))).toBe(false);
+    }
   });
 });
@@ -3,7 +3,8 @@
 import { useEffect } from 'react';
 import useAchievementStore from '../../store/useAchievementStore';
 import { useAchievements } from '../../hooks/useAchievements';
-import { achievementEvents } from '@/shared/events';
+import { diffStatPaths } from '../../lib/achievementRules';
+import { achievementApi, achievementEvents } from '@/shared/events';
 import { useStatsStore } from '@/features/Progress';
 
 /**
@@ -19,10 +20,27 @@ const AchievementIntegration = () => {
       if (event.type === 'check') {
         useAchievementStore
           .getState()
-          .checkAchievements(useStatsStore.getState());
+          .checkAchievements(
+            useStatsStore.getState(),
+            undefined,
+            event.changed,
+          );
       }
     });
 
+    // Re-check only the achievements whose stats changed
+    const unsubscribeStats = useStatsStore.subscribe((state, prevState) => {
+      const changed = diffStatPaths(
+        prevState.allTimeStats,
+        state.allTimeStats,
+        'allTimeStats',
+      );
+      if (changed.length > 0) achievementApi.triggerCheck(changed);
+    });
+
+    // Catch up on anything unlocked while the app was closed
+    achievementApi.triggerCheck();
+
     // Make achievement store available globally for cross-store communication
     if (typeof window !== 'undefined') {
       (
@@ -36,6 +54,7 @@ const AchievementIntegration = () => {
         ).__achievementStore;
       }
       unsubscribe();
+      unsubscribeStats();
     };
   }, [achievementStore]);
 
@@ -1,7 +1,9 @@
 import { useState, useCallback, useMemo } from 'react';
 import useAchievementStore, {
   ACHIEVEMENTS,
+  createAchievementSnapshot,
 } from '@/features/Achievements/store/useAchievementStore';
+import { getRuleProgress } from '@/features/Achievements/lib/achievementRules';
 import { useStatsStore } from '@/features/Progress';
 import { useClick } from '@/shared/hooks/useAudio';
 import { useShallow } from 'zustand/react/shallow';
@@ -29,7 +31,7 @@ export const useAchievementProgress = () => {
   const stats = useStatsStore();
 
   /**
-   * Calculate achievement progress percentage based on current stats
+   * Calculate achievement progress percentage from its rule
    * Optimized with O(1) Map lookup instead of O(n) array find
    */
   const getAchievementProgress = useCallback(
@@ -37,32 +39,13 @@ export const useAchievementProgress = () => {
       const achievement = ACHIEVEMENT_MAP.get(achievementId);
       if (!achievement) return 0;
 
-      let current = 0;
-      const target = achievement.requirements.value;
-
-      switch (achievement.requirements.type) {
-        case 'total_correct':
-          current = stats.allTimeStats.totalCorrect;
-          break;
-        case 'streak':
-          current = stats.allTimeStats.bestStreak;
-          break;
-        case 'sessions':
-          current = stats.allTimeStats.totalSessions;
-          break;
-        case 'accuracy':
-          const totalAnswers =
-            stats.allTimeStats.totalCorrect + stats.allTimeStats.totalIncorrect;
-          current =
-            totalAnswers > 0
-              ? (stats.allTimeStats.totalCorrect / totalAnswers) * 100
-              : 0;
-          break;
-      }
-
-      return Math.min((current / target) * 100, 100);
+      const snapshot = createAchievementSnapshot(
+        stats.allTimeStats as unknown as Record<string, unknown>,
+        { unlockedAchievements, totalPoints },
+      );
+      return getRuleProgress(achievement.rule, snapshot) * 100;
     },
-    [stats.allTimeStats],
+    [stats.allTimeStats, unlockedAchievements, totalPoints],
   );
 
   /**
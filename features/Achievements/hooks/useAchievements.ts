@@ -1,4 +1,4 @@
-import { useEffect, useCallback } from 'react';
+import { useCallback } from 'react';
 import useAchievementStore, {
   type Achievement,
 } from '../store/useAchievementStore';
@@ -14,7 +14,7 @@ interface UseAchievementsReturn {
 
 /**
  * Hook to integrate achievements with the game flow
- * Automatically checks for new achievements when stats change
+ * Stat changes are checked by AchievementIntegration through the event bus
  */
 export const useAchievements = (): UseAchievementsReturn => {
   const stats = useStatsStore();
@@ -25,11 +25,6 @@ export const useAchievements = (): UseAchievementsReturn => {
     return achievementStore.checkAchievements(stats);
   }, [stats, achievementStore]);
 
-  // Auto-check achievements when relevant stats change
-  useEffect(() => {
-    checkForNewAchievements();
-  }, [stats.allTimeStats, checkForNewAchievements]);
-
   const unlockedCount = Object.keys(
     achievementStore.unlockedAchievements,
   ).length;
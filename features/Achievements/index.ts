@@ -2,9 +2,6 @@ export type {
   Achievement,
   AchievementRarity,
   AchievementCategory,
-  AchievementRequirement,
-  AchievementRequirementType,
-  AchievementRequirementAdditional,
-} from './store/useAchievementStore';
+} from './types';
 
 export { default as useAchievementStore } from './store/useAchievementStore';
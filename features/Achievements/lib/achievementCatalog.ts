@@ -0,0 +1,133 @@
+/**
+ * Achievement Catalog
+ *
+ * Achievements are defined in data/achievements.json (described by
+ * achievements.schema.json for editors) and checked here when the module
+ * loads, so a malformed entry fails loudly instead of never unlocking.
+ */
+
+import catalogData from '../data/achievements.json';
+import {
+  ACHIEVEMENT_CATEGORIES,
+  ACHIEVEMENT_RARITIES,
+  type Achievement,
+} from '../types';
+import {
+  getRuleDependencies,
+  isAffectedBy,
+  validateRule,
+} from './achievementRules';
+
+export const ACHIEVEMENT_CATALOG_VERSION = 1;
+
+const ACHIEVEMENT_KEYS = new Set([
+  'id',
+  'title',
+  'description',
+  'icon',
+  'rarity',
+  'points',
+  'category',
+  'rule',
+  'rewards',
+  'hidden',
+]);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown) =>
+  typeof value === 'string' && value.length > 0;
+
+const validateAchievement = (value: unknown, at: string): string[] => {
+  if (!isPlainObject(value)) return [`${at}: expected an achievement object`];
+
+  const errors: string[] = [];
+  const expect = (ok: boolean, message: string) => {
+    if (!ok) errors.push(`${at}.${message}`);
+  };
+
+  for (const key of Object.keys(value)) {
+    expect(ACHIEVEMENT_KEYS.has(key), `${key}: unknown field`);
+  }
+  for (const key of ['id', 'title', 'description', 'icon'] as const) {
+    expect(isText(value[key]), `${key}: expected a non-empty string`);
+  }
+  expect(
+    (ACHIEVEMENT_RARITIES as readonly unknown[]).includes(value.rarity),
+    `rarity: expected one of ${ACHIEVEMENT_RARITIES.join(', ')}`,
+  );
+  expect(
+    (ACHIEVEMENT_CATEGORIES as readonly unknown[]).includes(value.category),
+    `category: expected one of ${ACHIEVEMENT_CATEGORIES.join(', ')}`,
+  );
+  expect(
+    Number.isInteger(value.points) && (value.points as number) >= 0,
+    'points: expected a whole number of points',
+  );
+  expect(
+    value.hidden === undefined || typeof value.hidden === 'boolean',
+    'hidden: expected true or false',
+  );
+
+  errors.push(...validateRule(value.rule, `${at}.rule`));
+  return errors;
+};
+
+/**
+ * Check raw catalog data and return its achievements. Throws with every
+ * problem found, each prefixed by where it is.
+ */
+export function parseAchievementCatalog(data: unknown): Achievement[] {
+  if (!isPlainObject(data) || !Array.isArray(data.achievements)) {
+    throw new Error('Invalid achievement catalog: expected { achievements }');
+  }
+  if (data.version !== ACHIEVEMENT_CATALOG_VERSION) {
+    throw new Error(
+      `Unsupported achievement catalog version: ${String(data.version)}`,
+    );
+  }
+
+  const errors = data.achievements.flatMap((entry, index) =>
+    validateAchievement(
+      entry,
+      `achievements[${isPlainObject(entry) && isText(entry.id) ? entry.id : index}]`,
+    ),
+  );
+
+  const seen = new Set<unknown>();
+  for (const entry of data.achievements as Array<{ id?: unknown }>) {
+    if (seen.has(entry?.id)) errors.push(`duplicate id: ${String(entry.id)}`);
+    seen.add(entry?.id);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid achievement catalog:\n${errors.join('\n')}`);
+  }
+  return data.achievements as Achievement[];
+}
+
+/**
+ * All achievements, in display order
+ */
+export const ACHIEVEMENTS: Achievement[] = parseAchievementCatalog(catalogData);
+
+// Snapshot paths each achievement's rule reads
+const RULE_DEPENDENCIES = new Map(
+  ACHIEVEMENTS.map(a => [a.id, getRuleDependencies(a.rule)]),
+);
+
+/**
+ * Achievements that do not count unlocked achievements themselves, which
+ * is what "unlock all achievements" asks for
+ */
+export const COLLECTIBLE_ACHIEVEMENT_COUNT = ACHIEVEMENTS.filter(
+  a => !RULE_DEPENDENCIES.get(a.id)!.includes('achievements.unlockedCount'),
+).length;
+
+/**
+ * Achievements whose rules may change outcome when the given snapshot
+ * paths change
+ */
+export const getAffectedAchievements = (changed: string[]): Achievement[] =>
+  ACHIEVEMENTS.filter(a => isAffectedBy(RULE_DEPENDENCIES.get(a.id)!, changed));
@@ -0,0 +1,553 @@
+/**
+ * Achievement Rules
+ *
+ * A small declarative language for when an achievement unlocks. Rules are
+ * plain JSON so they can live in the achievement catalog, and are evaluated
+ * against a snapshot of the player's stats, which keeps them testable
+ * without the stores.
+ *
+ *   { "stat": "allTimeStats.totalCorrect", "gte": 100 }
+ *   { "all": [rule, ...] }   { "any": [rule, ...] }   { "not": rule }
+ *   { "hour": { "from": 0, "to": 1 } }
+ *
+ * A `stat` is a dot path into the snapshot, or an expression over paths
+ * (see StatExpr). A threshold holds when every comparison given holds; a
+ * stat that was never recorded meets no threshold.
+ */
+
+// ============================================================================
+// Snapshot
+// ============================================================================
+
+/** Session values passed along with a check at the end of a session */
+export interface SessionStats {
+  sessionCorrect?: number;
+  sessionTime?: number;
+  sessionAccuracy?: number;
+  currentHour?: number;
+}
+
+/**
+ * Everything a rule can read. Paths start at one of its roots:
+ * `allTimeStats`, `session` or `achievements`.
+ */
+export interface AchievementSnapshot {
+  allTimeStats: Record<string, unknown>;
+  session?: SessionStats;
+  achievements: {
+    unlockedCount: number;
+    totalPoints: number;
+    /** Achievements in the catalog that do not count unlocked achievements */
+    collectibleCount: number;
+  };
+  /** Time of the check, in milliseconds */
+  now: number;
+}
+
+export const SNAPSHOT_ROOTS = [
+  'allTimeStats',
+  'session',
+  'achievements',
+] as const;
+
+// ============================================================================
+// Rule language
+// ============================================================================
+
+/**
+ * Characters a mastery expression looks at: the 46 basic hiragana or
+ * katakana, single kanji, vocabulary (anything else), or every character.
+ */
+export type CharacterGroup =
+  | 'hiragana'
+  | 'katakana'
+  | 'kanji'
+  | 'vocabulary'
+  | 'all';
+
+/** A number read from the snapshot */
+export type StatExpr =
+  /** Dot path to a number */
+  | string
+  /** Entries in an array or object (0 if missing) */
+  | { count: string }
+  /** Sum of the terms; missing terms count as 0 */
+  | { sum: StatExpr[] }
+  /** 100 × the first over the second, 0 when the second is 0 */
+  | { percent: [StatExpr, StatExpr] }
+  /** Mean of a number array, or of its `last` entries */
+  | { average: string; last?: number }
+  /** Sum of a number array, or of its `last` entries */
+  | { total: string; last?: number }
+  /** How many of the listed values an array contains */
+  | { includes: string; of: string[] }
+  /** Entries of a date array (ISO strings or timestamps) in the last `days` UTC days */
+  | { recent: string; days: number }
+  /** Characters in the group answered at least `accuracy` percent right */
+  | { mastered: CharacterGroup; accuracy: number }
+  /** Characters in the group with any recorded answers */
+  | { tracked: CharacterGroup };
+
+export const COMPARISONS = ['gte', 'gt', 'lte', 'lt', 'eq'] as const;
+export type Comparison = (typeof COMPARISONS)[number];
+
+export type ThresholdRule = { stat: StatExpr } & Partial<
+  Record<Comparison, number | StatExpr>
+>;
+
+export type AchievementRule =
+  | { all: AchievementRule[] }
+  | { any: AchievementRule[] }
+  | { not: AchievementRule }
+  | ThresholdRule
+  /** Local hour of the check in [from, to); wraps past midnight if from > to */
+  | { hour: { from: number; to: number } };
+
+// ============================================================================
+// Characters
+// ============================================================================
+
+// prettier-ignore
+const BASIC_HIRAGANA = new Set([
+  '\u3042','\u3044','\u3046','\u3048','\u304A','\u304B','\u304D','\u304F','\u3051','\u3053',
+  '\u3055','\u3057','\u3059','\u305B','\u305D','\u305F','\u3061','\u3064','\u3066','\u3068',
+  '\u306A','\u306B','\u306C','\u306D','\u306E','\u306F','\u3072','\u3075','\u3078','\u307B',
+  '\u307E','\u307F','\u3080','\u3081','\u3082','\u3084','\u3086','\u3088','\u3089','\u308A',
+  '\u308B','\u308C','\u308D','\u308F','\u3092','\u3093',
+]);
+
+// prettier-ignore
+const BASIC_KATAKANA = new Set([
+  '\u30A2','\u30A4','\u30A6','\u30A8','\u30AA','\u30AB','\u30AD','\u30AF','\u30B1','\u30B3',
+  '\u30B5','\u30B7','\u30B9','\u30BB','\u30BD','\u30BF','\u30C1','\u30C4','\u30C6','\u30C8',
+  '\u30CA','\u30CB','\u30CC','\u30CD','\u30CE','\u30CF','\u30D2','\u30D5','\u30D8','\u30DB',
+  '\u30DE','\u30DF','\u30E0','\u30E1','\u30E2','\u30E4','\u30E6','\u30E8','\u30E9','\u30EA',
+  '\u30EB','\u30EC','\u30ED','\u30EF','\u30F2','\u30F3',
+]);
+
+const isSingleKanji = (value: string) => /^[\u4E00-\u9FFF]$/.test(value);
+
+const CHARACTER_GROUPS: Record<CharacterGroup, (key: string) => boolean> = {
+  hiragana: key => BASIC_HIRAGANA.has(key),
+  katakana: key => BASIC_KATAKANA.has(key),
+  kanji: isSingleKanji,
+  // Vocabulary keys are words or phrases, so leave out single kana and kanji
+  vocabulary: key =>
+    key.length !== 1 ||
+    !(BASIC_HIRAGANA.has(key) || BASIC_KATAKANA.has(key) || isSingleKanji(key)),
+  all: () => true,
+};
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const getPath = (snapshot: AchievementSnapshot, path: string): unknown =>
+  path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) => (isPlainObject(value) ? value[key] : undefined),
+      snapshot,
+    );
+
+type MasteryEntry = { correct: number; incorrect: number };
+
+const getGroupEntries = (
+  snapshot: AchievementSnapshot,
+  group: CharacterGroup,
+): MasteryEntry[] => {
+  const mastery = snapshot.allTimeStats.characterMastery;
+  if (!isPlainObject(mastery)) return [];
+  return Object.entries(mastery as Record<string, MasteryEntry>)
+    .filter(([key]) => CHARACTER_GROUPS[group](key))
+    .map(([, entry]) => entry);
+};
+
+const getNumbers = (
+  snapshot: AchievementSnapshot,
+  path: string,
+  last?: number,
+): number[] => {
+  const value = getPath(snapshot, path);
+  if (!Array.isArray(value)) return [];
+  const numbers = value.filter(
+    (entry): entry is number => typeof entry === 'number' && !isNaN(entry),
+  );
+  return last !== undefined ? numbers.slice(-last) : numbers;
+};
+
+const toDayIndex = (value: unknown): number | null => {
+  const ms =
+    typeof value === 'number'
+      ? value
+      : typeof value === 'string'
+        ? Date.parse(value)
+        : NaN;
+  return Number.isFinite(ms) ? Math.floor(ms / DAY_MS) : null;
+};
+
+/**
+ * Read a stat expression. Returns undefined for a path that holds no number,
+ * or an average over no entries.
+ */
+export function resolveStat(
+  expr: StatExpr,
+  snapshot: AchievementSnapshot,
+): number | undefined {
+  if (typeof expr === 'string') {
+    const value = getPath(snapshot, expr);
+    return typeof value === 'number' && !isNaN(value) ? value : undefined;
+  }
+
+  if ('count' in expr) {
+    const value = getPath(snapshot, expr.count);
+    if (Array.isArray(value)) return value.length;
+    return isPlainObject(value) ? Object.keys(value).length : 0;
+  }
+
+  if ('sum' in expr) {
+    return expr.sum.reduce<number>(
+      (total, term) => total + (resolveStat(term, snapshot) ?? 0),
+      0,
+    );
+  }
+
+  if ('percent' in expr) {
+    const part = resolveStat(expr.percent[0], snapshot) ?? 0;
+    const whole = resolveStat(expr.percent[1], snapshot) ?? 0;
+    return whole > 0 ? (part / whole) * 100 : 0;
+  }
+
+  if ('average' in expr) {
+    const numbers = getNumbers(snapshot, expr.average, expr.last);
+    return numbers.length > 0
+      ? numbers.reduce((a, b) => a + b, 0) / numbers.length
+      : undefined;
+  }
+
+  if ('total' in expr) {
+    return getNumbers(snapshot, expr.total, expr.last).reduce(
+      (a, b) => a + b,
+      0,
+    );
+  }
+
+  if ('includes' in expr) {
+    const value = getPath(snapshot, expr.includes);
+    if (!Array.isArray(value)) return 0;
+    return expr.of.filter(item => value.includes(item)).length;
+  }
+
+  if ('recent' in expr) {
+    const value = getPath(snapshot, expr.recent);
+    if (!Array.isArray(value)) return 0;
+    const today = Math.floor(snapshot.now / DAY_MS);
+    return value.filter(entry => {
+      const day = toDayIndex(entry);
+      return day !== null && day <= today && day > today - expr.days;
+    }).length;
+  }
+
+  if ('mastered' in expr) {
+    return getGroupEntries(snapshot, expr.mastered).filter(entry => {
+      const total = entry.correct + entry.incorrect;
+      return total > 0 && (entry.correct / total) * 100 >= expr.accuracy;
+    }).length;
+  }
+
+  return getGroupEntries(snapshot, expr.tracked).length;
+}
+
+const compare = (
+  value: number,
+  comparison: Comparison,
+  target: number,
+): boolean => {
+  switch (comparison) {
+    case 'gte':
+      return value >= target;
+    case 'gt':
+      return value > target;
+    case 'lte':
+      return value <= target;
+    case 'lt':
+      return value < target;
+    case 'eq':
+      return value === target;
+  }
+};
+
+const getHour = (snapshot: AchievementSnapshot): number =>
+  snapshot.session?.currentHour ?? new Date(snapshot.now).getHours();
+
+/**
+ * Whether a rule holds for a snapshot
+ */
+export function evaluateRule(
+  rule: AchievementRule,
+  snapshot: AchievementSnapshot,
+): boolean {
+  if ('all' in rule) return rule.all.every(r => evaluateRule(r, snapshot));
+  if ('any' in rule) return rule.any.some(r => evaluateRule(r, snapshot));
+  if ('not' in rule) return !evaluateRule(rule.not, snapshot);
+
+  if ('hour' in rule) {
+    const hour = getHour(snapshot);
+    const { from, to } = rule.hour;
+    return from <= to ? hour >= from && hour < to : hour >= from || hour < to;
+  }
+
+  const value = resolveStat(rule.stat, snapshot);
+  if (value === undefined) return false;
+  return COMPARISONS.every(comparison => {
+    const target = rule[comparison];
+    if (target === undefined) return true;
+    const targetValue =
+      typeof target === 'number' ? target : resolveStat(target, snapshot);
+    return targetValue !== undefined && compare(value, comparison, targetValue);
+  });
+}
+
+/**
+ * How far a snapshot is towards a rule holding, from 0 to 1. A threshold
+ * counts up to its `gte` or `gt` target; `all` averages its rules and `any`
+ * takes the closest. Anything else, such as an upper limit or an hour, is
+ * either met or not.
+ */
+export function getRuleProgress(
+  rule: AchievementRule,
+  snapshot: AchievementSnapshot,
+): number {
+  if (evaluateRule(rule, snapshot)) return 1;
+  if ('all' in rule) {
+    return (
+      rule.all.reduce((sum, r) => sum + getRuleProgress(r, snapshot), 0) /
+      rule.all.length
+    );
+  }
+  if ('any' in rule) {
+    return Math.max(...rule.any.map(r => getRuleProgress(r, snapshot)));
+  }
+  if ('not' in rule || 'hour' in rule) return 0;
+
+  const comparisons = COMPARISONS.filter(c => rule[c] !== undefined);
+  if (comparisons.some(c => c !== 'gte' && c !== 'gt')) return 0;
+  const value = resolveStat(rule.stat, snapshot) ?? 0;
+  const targets = comparisons.map(comparison => {
+    const target = rule[comparison]!;
+    return typeof target === 'number' ? target : resolveStat(target, snapshot);
+  });
+  const target = Math.max(...targets.map(t => t ?? 0));
+  return target > 0 ? Math.min(Math.max(value / target, 0), 1) : 0;
+}
+
+// ============================================================================
+// Dependencies
+// ============================================================================
+
+/** Dependency of rules that read the clock, affected by every check */
+export const CLOCK_DEPENDENCY = 'clock';
+
+const getExprPaths = (expr: StatExpr): string[] => {
+  if (typeof expr === 'string') return [expr];
+  if ('count' in expr) return [expr.count];
+  if ('sum' in expr) return expr.sum.flatMap(getExprPaths);
+  if ('percent' in expr) return expr.percent.flatMap(getExprPaths);
+  if ('average' in expr) return [expr.average];
+  if ('total' in expr) return [expr.total];
+  if ('includes' in expr) return [expr.includes];
+  if ('recent' in expr) return [expr.recent, CLOCK_DEPENDENCY];
+  return ['allTimeStats.characterMastery'];
+};
+
+/**
+ * The snapshot paths a rule reads, so a check can skip rules whose stats
+ * did not change
+ */
+export function getRuleDependencies(rule: AchievementRule): string[] {
+  let paths: string[];
+  if ('all' in rule) paths = rule.all.flatMap(getRuleDependencies);
+  else if ('any' in rule) paths = rule.any.flatMap(getRuleDependencies);
+  else if ('not' in rule) paths = getRuleDependencies(rule.not);
+  else if ('hour' in rule) paths = [CLOCK_DEPENDENCY, 'session.currentHour'];
+  else {
+    paths = [
+      ...getExprPaths(rule.stat),
+      ...COMPARISONS.flatMap(comparison => {
+        const target = rule[comparison];
+        return target === undefined || typeof target === 'number'
+          ? []
+          : getExprPaths(target);
+      }),
+    ];
+  }
+  return [...new Set(paths)];
+}
+
+const overlaps = (a: string, b: string) =>
+  a === b || a.startsWith(`${b}.`) || b.startsWith(`${a}.`);
+
+/**
+ * Whether a change to any of `changed` (snapshot paths) can change the
+ * outcome of a rule with these dependencies
+ */
+export const isAffectedBy = (
+  dependencies: string[],
+  changed: string[],
+): boolean =>
+  dependencies.some(
+    dependency =>
+      dependency === CLOCK_DEPENDENCY ||
+      changed.some(path => overlaps(dependency, path)),
+  );
+
+/**
+ * Paths under `prefix` whose values differ between two stats objects.
+ * Plain objects are compared key by key; anything else, arrays included,
+ * by identity, which is how the stores replace values.
+ */
+export function diffStatPaths(
+  prev: unknown,
+  next: unknown,
+  prefix: string,
+): string[] {
+  if (Object.is(prev, next)) return [];
+  if (!isPlainObject(prev) || !isPlainObject(next)) return [prefix];
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  return [...keys].flatMap(key =>
+    diffStatPaths(prev[key], next[key], `${prefix}.${key}`),
+  );
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const CHARACTER_GROUP_NAMES = Object.keys(CHARACTER_GROUPS);
+
+const isCount = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const isPositiveCount = (value: unknown) => isCount(value) && value !== 0;
+
+const validatePath = (value: unknown, at: string): string[] => {
+  if (typeof value !== 'string' || value.length === 0) {
+    return [`${at}: expected a stat path`];
+  }
+  const root = value.split('.')[0];
+  return (SNAPSHOT_ROOTS as readonly string[]).includes(root)
+    ? []
+    : [`${at}: path "${value}" must start with ${SNAPSHOT_ROOTS.join(', ')}`];
+};
+
+/**
+ * Problems with a stat expression, as "path: message" strings
+ */
+export function validateStatExpr(value: unknown, at: string): string[] {
+  if (typeof value === 'string') return validatePath(value, at);
+  if (!isPlainObject(value)) return [`${at}: expected a stat expression`];
+
+  const keys = Object.keys(value);
+  const optionalLast = (): string[] =>
+    value.last === undefined || isPositiveCount(value.last)
+      ? []
+      : [`${at}.last: expected a positive integer`];
+
+  if ('count' in value) return validatePath(value.count, `${at}.count`);
+  if ('sum' in value) {
+    return Array.isArray(value.sum) && value.sum.length > 0
+      ? value.sum.flatMap((term, i) =>
+          validateStatExpr(term, `${at}.sum[${i}]`),
+        )
+      : [`${at}.sum: expected a non-empty list`];
+  }
+  if ('percent' in value) {
+    return Array.isArray(value.percent) && value.percent.length === 2
+      ? value.percent.flatMap((term, i) =>
+          validateStatExpr(term, `${at}.percent[${i}]`),
+        )
+      : [`${at}.percent: expected [part, whole]`];
+  }
+  if ('average' in value) {
+    return [...validatePath(value.average, `${at}.average`), ...optionalLast()];
+  }
+  if ('total' in value) {
+    return [...validatePath(value.total, `${at}.total`), ...optionalLast()];
+  }
+  if ('includes' in value) {
+    return [
+      ...validatePath(value.includes, `${at}.includes`),
+      ...(Array.isArray(value.of) && value.of.every(v => typeof v === 'string')
+        ? []
+        : [`${at}.of: expected a list of strings`]),
+    ];
+  }
+  if ('recent' in value) {
+    return [
+      ...validatePath(value.recent, `${at}.recent`),
+      ...(isPositiveCount(value.days)
+        ? []
+        : [`${at}.days: expected a positive integer`]),
+    ];
+  }
+  if ('mastered' in value || 'tracked' in value) {
+    const group = value.mastered ?? value.tracked;
+    const errors = CHARACTER_GROUP_NAMES.includes(group as string)
+      ? []
+      : [
+          `${at}: character group must be one of ${CHARACTER_GROUP_NAMES.join(', ')}`,
+        ];
+    if ('mastered' in value && typeof value.accuracy !== 'number') {
+      errors.push(`${at}.accuracy: expected a number`);
+    }
+    return errors;
+  }
+  return [`${at}: unknown stat expression with keys ${keys.join(', ')}`];
+}
+
+/**
+ * Problems with a rule, as "path: message" strings; empty if it is valid
+ */
+export function validateRule(value: unknown, at = 'rule'): string[] {
+  if (!isPlainObject(value)) return [`${at}: expected a rule object`];
+
+  for (const key of ['all', 'any'] as const) {
+    if (key in value) {
+      const rules = value[key];
+      return Array.isArray(rules) && rules.length > 0
+        ? rules.flatMap((r, i) => validateRule(r, `${at}.${key}[${i}]`))
+        : [`${at}.${key}: expected a non-empty list of rules`];
+    }
+  }
+  if ('not' in value) return validateRule(value.not, `${at}.not`);
+
+  if ('hour' in value) {
+    const hour = value.hour;
+    const isHour = (h: unknown) => isCount(h) && (h as number) <= 24;
+    return isPlainObject(hour) && isHour(hour.from) && isHour(hour.to)
+      ? []
+      : [`${at}.hour: expected { from, to } hours between 0 and 24`];
+  }
+
+  if ('stat' in value) {
+    const errors = validateStatExpr(value.stat, `${at}.stat`);
+    const comparisons = COMPARISONS.filter(c => value[c] !== undefined);
+    if (comparisons.length === 0) {
+      errors.push(`${at}: expected one of ${COMPARISONS.join(', ')}`);
+    }
+    for (const comparison of comparisons) {
+      const target = value[comparison];
+      if (typeof target !== 'number') {
+        errors.push(...validateStatExpr(target, `${at}.${comparison}`));
+      }
+    }
+    return errors;
+  }
+
+  return [`${at}: expected all, any, not, stat or hour`];
+}
@@ -0,0 +1,54 @@
+import type { AchievementRule } from './lib/achievementRules';
+
+export const ACHIEVEMENT_RARITIES = [
+  'common',
+  'uncommon',
+  'rare',
+  'epic',
+  'legendary',
+] as const;
+
+export type AchievementRarity = (typeof ACHIEVEMENT_RARITIES)[number];
+
+// Extended achievement categories including new content-specific and mode-specific categories
+export const ACHIEVEMENT_CATEGORIES = [
+  'streak',
+  'milestone',
+  'consistency',
+  'mastery',
+  'exploration',
+  'kana',
+  'kanji',
+  'vocabulary',
+  'gauntlet',
+  'blitz',
+  'speed',
+  'fun',
+] as const;
+
+export type AchievementCategory = (typeof ACHIEVEMENT_CATEGORIES)[number];
+
+export interface Achievement {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  rarity: AchievementRarity;
+  points: number;
+  unlockedAt?: Date;
+  category: AchievementCategory;
+  rule: AchievementRule;
+  rewards?: {
+    themes?: string[];
+    fonts?: string[];
+    customization?: string[];
+  };
+  hidden?: boolean; // For secret achievements that are not shown until unlocked
+}
+
+export interface AchievementNotification {
+  id: string;
+  achievement: Achievement;
+  timestamp: Date;
+  seen: boolean;
+}
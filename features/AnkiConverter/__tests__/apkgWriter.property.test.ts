@@ -0,0 +1,231 @@
+/**
+ * APKG Writer Property Tests
+ *
+ * Property-based tests for exporting KanaDojo items to .apkg files and
+ * reading them back through the converter.
+ *
+ * **Feature: anki-converter, Property 13: APKG export round-trip**
+ */
+
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { buildApkg, getCardOrdinals } from '../lib/apkgWriter';
+import {
+  conversionResultToPackage,
+  createKanjiPackage,
+  createVocabPackage,
+  getWeakestItems,
+  KANADOJO_NOTE_TYPES,
+} from '../lib/deckExport';
+import { collectCards } from '../lib/deckImport';
+import { buildJson } from '../lib/jsonBuilder';
+import { parseAPKG } from '../parsers/apkgParser';
+import { createReviewCard, getCardId } from '@/shared/lib/spacedRepetition';
+import { ConversionError, ErrorCode, type ConversionResult } from '../types';
+
+const NOW = new Date('2026-03-01T12:00:00Z').getTime();
+
+async function roundTrip(
+  ...args: Parameters<typeof buildApkg>
+): Promise<ConversionResult> {
+  const bytes = await buildApkg(...args);
+  return buildJson(await parseAPKG(bytes), { includeStats: true });
+}
+
+const textArb = fc
+  .array(
+    fc.constantFrom('学', '校', 'が', 'っ', 'こ', 'う', 'a', '&', '<', ' '),
+    { minLength: 1, maxLength: 8 },
+  )
+  // The converter collapses whitespace, so compare normalized text
+  .map(chars => chars.join('').replace(/\s+/g, ' ').trim())
+  .filter(text => text.length > 0);
+
+describe('APKG Writer', () => {
+  /**
+   * For any list of vocabulary items, exporting and converting back yields
+   * one card per item with the same fields, deck and JLPT tags.
+   */
+  describe('Property 1: Exported Notes Round-Trip', () => {
+    it('preserves fields, deck and tags', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.uniqueArray(
+            fc.record({
+              word: textArb,
+              reading: textArb,
+              meanings: fc.array(textArb, { minLength: 1, maxLength: 3 }),
+            }),
+            { minLength: 1, maxLength: 10, selector: item => item.word },
+          ),
+          async items => {
+            const pkg = createVocabPackage(items, {
+              deckName: 'KanaDojo::N5',
+              levels: { [items[0].word]: 'N5' },
+            });
+            const result = await roundTrip(pkg, NOW);
+
+            const deck = result.decks
+              .find(d => d.name === 'KanaDojo')
+              ?.subdecks?.find(d => d.name === 'N5');
+            expect(deck?.cards).toHaveLength(items.length);
+
+            const cards = deck!.cards;
+            items.forEach((item, i) => {
+              expect(cards[i].fields).toEqual({
+                Word: item.word,
+                Reading: item.reading,
+                Meaning: item.meanings.join(', '),
+              });
+              expect(cards[i].tags).toContain('KanaDojo::Vocabulary');
+            });
+            expect(cards[0].tags).toContain('JLPT::N5');
+          },
+        ),
+        { numRuns: 10 },
+      );
+    });
+
+    it('carries review schedules over as Anki intervals and ease', async () => {
+      const item = {
+        id: 1,
+        kanjiChar: '日',
+        onyomi: ['ニチ'],
+        kunyomi: ['ひ'],
+        meanings: ['day'],
+      };
+      const card = {
+        ...createReviewCard('kanji', '日', NOW),
+        stability: 12,
+        ease: 2.3,
+        reps: 4,
+        lapses: 1,
+        dueAt: NOW + 3 * 24 * 60 * 60 * 1000,
+      };
+      const pkg = createKanjiPackage([item], {
+        deckName: 'Kanji',
+        reviewCards: { [getCardId('kanji', '日')]: card },
+      });
+
+      const [exported] = collectCards((await roundTrip(pkg, NOW)).decks);
+      expect(exported.fields).toEqual({
+        Kanji: '日',
+        Onyomi: 'ニチ',
+        Kunyomi: 'ひ',
+        Meaning: 'day',
+      });
+      expect(exported.stats).toEqual({
+        reviews: 4,
+        lapses: 1,
+        interval: 12,
+        ease: 230,
+      });
+    });
+
+    it('rebuilds a converted deck with its note types and subdecks', async () => {
+      const original = await roundTrip(
+        {
+          noteTypes: [
+            KANADOJO_NOTE_TYPES.vocabulary,
+            { name: 'Cloze', fields: ['Text', 'Extra'], cloze: true },
+          ],
+          notes: [
+            {
+              deck: 'Japanese::Verbs',
+              noteType: 'KanaDojo Vocabulary',
+              fields: ['食べる', 'たべる', 'to eat'],
+              tags: ['verb'],
+            },
+            {
+              deck: 'Japanese',
+              noteType: 'Cloze',
+              fields: ['{{c1::水}}を{{c2::飲む}}', ''],
+              tags: [],
+            },
+          ],
+        },
+        NOW,
+      );
+
+      const pkg = conversionResultToPackage(original, NOW);
+      expect(pkg.notes).toHaveLength(2);
+
+      const again = await roundTrip(pkg, NOW);
+      const summarize = (result: ConversionResult) =>
+        collectCards(result.decks)
+          .map(card => JSON.stringify([card.fields, card.tags]))
+          .sort();
+      expect(summarize(again)).toEqual(summarize(original));
+    });
+  });
+
+  describe('Validation', () => {
+    it('rejects empty packages and mismatched fields', async () => {
+      await expect(buildApkg({ noteTypes: [], notes: [] })).rejects.toThrow(
+        ConversionError,
+      );
+      await expect(
+        buildApkg({
+          noteTypes: [KANADOJO_NOTE_TYPES.vocabulary],
+          notes: [
+            {
+              deck: 'Default',
+              noteType: 'KanaDojo Vocabulary',
+              fields: ['only one'],
+              tags: [],
+            },
+          ],
+        }),
+      ).rejects.toMatchObject({ code: ErrorCode.EXPORT_ERROR });
+    });
+  });
+
+  describe('Helpers', () => {
+    it('creates one cloze card per deletion number', () => {
+      const note = {
+        deck: 'Default',
+        noteType: 'Cloze',
+        fields: ['{{c2::a}} {{c1::b}} {{c2::c}}'],
+        tags: [],
+      };
+      expect(
+        getCardOrdinals(note, { name: 'Cloze', fields: ['Text'], cloze: true }),
+      ).toEqual([0, 1]);
+      expect(
+        getCardOrdinals(note, { name: 'Basic', fields: ['Front'] }),
+      ).toEqual([0]);
+    });
+
+    it('orders weakest items by accuracy and skips unmissed ones', () => {
+      fc.assert(
+        fc.property(
+          fc.dictionary(
+            fc.constantFrom('日', '月', '火', '水', '木'),
+            fc.record({
+              correct: fc.nat({ max: 20 }),
+              incorrect: fc.nat({ max: 20 }),
+            }),
+          ),
+          mastery => {
+            const keys = ['日', '月', '火', '水', '木'];
+            const weakest = getWeakestItems(keys, key => key, mastery, 3);
+            const accuracy = (key: string) =>
+              mastery[key].correct /
+              (mastery[key].correct + mastery[key].incorrect);
+
+            expect(weakest.length).toBeLessThanOrEqual(3);
+            weakest.forEach(key =>
+              expect(mastery[key].incorrect).toBeGreaterThan(0),
+            );
+            for (let i = 1; i < weakest.length; i++) {
+              expect(accuracy(weakest[i])).toBeGreaterThanOrEqual(
+                accuracy(weakest[i - 1]),
+              );
+            }
+          },
+        ),
+        { numRuns: 100 },
+      );
+    });
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Deck Import Property Tests
+ *
+ * Property-based tests for mapping converted Anki decks to KanaDojo
+ * custom sets and seeding review schedules from Anki stats.
+ *
+ * **Feature: anki-converter, Property 12: Deck import mapping**
+ */
+
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+  collectCards,
+  mapCardsToKanji,
+  mapCardsToVocab,
+  seedReviewCard,
+  splitFieldList,
+  suggestFieldMapping,
+  type FieldMapping,
+} from '../lib/deckImport';
+import { DAY_MS } from '@/shared/lib/spacedRepetition';
+import type { CardStats, Deck, OutputCard } from '../types';
+
+const NOW = new Date('2026-03-01T12:00:00Z').getTime();
+
+const MAPPING: FieldMapping = {
+  word: 'Expression',
+  reading: 'Reading',
+  meaning: 'Meaning',
+};
+
+const statsArb: fc.Arbitrary<CardStats> = fc.record({
+  reviews: fc.integer({ min: 0, max: 500 }),
+  lapses: fc.integer({ min: 0, max: 50 }),
+  interval: fc.integer({ min: -600, max: 10000 }),
+  ease: fc.integer({ min: 0, max: 500 }),
+});
+
+const createCard = (
+  id: number,
+  fields: Record<string, string>,
+  stats?: CardStats,
+): OutputCard => ({
+  id: String(id),
+  type: 'custom',
+  fields,
+  tags: [],
+  ...(stats ? { stats } : {}),
+});
+
+describe('Deck Import', () => {
+  /**
+   * For any deck, every mapped vocabulary item has a word and at least one
+   * meaning, words are unique, and items + skipped equals the card count.
+   */
+  describe('Property 1: Mapped Items Are Complete and Unique', () => {
+    it('maps each distinct word once and accounts for every card', () => {
+      fc.assert(
+        fc.property(
+          fc.array(
+            fc.record({
+              word: fc.constantFrom('', '学校', '先生', '水', ' 犬 '),
+              meaning: fc.constantFrom('', 'school', 'teacher; doctor', ','),
+            }),
+            { maxLength: 30 },
+          ),
+          entries => {
+            const cards = entries.map((entry, i) =>
+              createCard(i, {
+                Expression: entry.word,
+                Meaning: entry.meaning,
+              }),
+            );
+            const { items, skipped } = mapCardsToVocab(cards, MAPPING, NOW);
+
+            for (const item of items) {
+              expect(item.word).toBe(item.word.trim());
+              expect(item.word.length).toBeGreaterThan(0);
+              expect(item.meanings.length).toBeGreaterThan(0);
+            }
+            expect(new Set(items.map(item => item.word)).size).toBe(
+              items.length,
+            );
+            expect(items.length + skipped).toBe(cards.length);
+          },
+        ),
+        { numRuns: 100 },
+      );
+    });
+
+    it('falls back to the word when there is no reading field', () => {
+      const cards = [createCard(1, { Expression: 'すし', Meaning: 'sushi' })];
+      const { items } = mapCardsToVocab(
+        cards,
+        { ...MAPPING, reading: '' },
+        NOW,
+      );
+      expect(items).toEqual([
+        { word: 'すし', reading: 'すし', meanings: ['sushi'] },
+      ]);
+    });
+  });
+
+  /**
+   * For any seeded card, SM-2 bounds hold and the card comes due one
+   * interval after the import.
+   */
+  describe('Property 2: Seeded Schedules Stay Bounded', () => {
+    it('clamps ease and interval and sets the due date from the interval', () => {
+      fc.assert(
+        fc.property(statsArb, stats => {
+          const card = seedReviewCard('vocabulary', '学校', stats, NOW);
+          if (stats.reviews === 0) {
+            expect(card).toBeNull();
+            return;
+          }
+          expect(card).not.toBeNull();
+          expect(card!.ease).toBeGreaterThanOrEqual(1.3);
+          expect(card!.ease).toBeLessThanOrEqual(3.0);
+          expect(card!.stability).toBeGreaterThanOrEqual(0);
+          expect(card!.stability).toBeLessThanOrEqual(365);
+          expect(card!.dueAt).toBe(NOW + card!.stability * DAY_MS);
+          expect(card!.lapses).toBe(stats.lapses);
+        }),
+        { numRuns: 100 },
+      );
+    });
+
+    it('converts Anki ease percentages to SM-2 ease factors', () => {
+      const card = seedReviewCard(
+        'kanji',
+        '日',
+        { reviews: 12, lapses: 1, interval: 30, ease: 230 },
+        NOW,
+      );
+      expect(card).toMatchObject({
+        contentType: 'kanji',
+        key: '日',
+        stability: 30,
+        ease: 2.3,
+        reps: 2,
+        lapses: 1,
+      });
+    });
+  });
+
+  describe('Kanji mapping', () => {
+    it('keeps single kanji and splits readings into on and kun', () => {
+      const cards = [
+        createCard(1, {
+          Expression: '日',
+          Reading: 'ニチ、ジツ、ひ、か',
+          Meaning: 'day, sun',
+        }),
+        createCard(2, { Expression: '学校', Reading: '', Meaning: 'school' }),
+        createCard(3, { Expression: 'あ', Reading: '', Meaning: 'a' }),
+      ];
+      const { items, skipped } = mapCardsToKanji(cards, MAPPING, NOW);
+      expect(items).toEqual([
+        {
+          id: 1_000_000 + 0x65e5,
+          kanjiChar: '日',
+          onyomi: ['ニチ', 'ジツ'],
+          kunyomi: ['ひ', 'か'],
+          meanings: ['day', 'sun'],
+        },
+      ]);
+      expect(skipped).toBe(2);
+    });
+
+    it('reads bold and italic fields as plain text', () => {
+      const cards = [
+        createCard(1, {
+          Expression: '**日**',
+          Reading: '*ニチ*、ひ',
+          Meaning: '**day**, sun',
+        }),
+      ];
+      const { items, skipped } = mapCardsToKanji(cards, MAPPING, NOW);
+      expect(
+        items.map(item => [item.kanjiChar, item.onyomi, item.meanings]),
+      ).toEqual([['日', ['ニチ'], ['day', 'sun']]]);
+      expect(skipped).toBe(0);
+
+      const vocab = mapCardsToVocab(
+        [
+          createCard(1, {
+            Expression: '**食べる**',
+            Reading: '_たべる_',
+            Meaning: '~~to eat~~',
+          }),
+        ],
+        MAPPING,
+        NOW,
+      );
+      expect(vocab.items).toEqual([
+        { word: '食べる', reading: 'たべる', meanings: ['to eat'] },
+      ]);
+    });
+  });
+
+  describe('Helpers', () => {
+    it('collects cards from nested subdecks', () => {
+      const decks: Deck[] = [
+        {
+          name: 'Japanese',
+          description: '',
+          cards: [createCard(1, {})],
+          subdecks: [
+            { name: 'N5', description: '', cards: [createCard(2, {})] },
+          ],
+        },
+      ];
+      expect(collectCards(decks).map(card => card.id)).toEqual(['1', '2']);
+    });
+
+    it('suggests word, reading and meaning fields by name', () => {
+      expect(
+        suggestFieldMapping(['Sound', 'Meaning', 'Reading', 'Expression']),
+      ).toEqual({ word: 'Expression', reading: 'Reading', meaning: 'Meaning' });
+      expect(suggestFieldMapping(['Front', 'Back'])).toEqual({
+        word: 'Front',
+        reading: '',
+        meaning: 'Back',
+      });
+    });
+
+    it('splits list fields on Latin and Japanese separators', () => {
+      expect(splitFieldList('to eat; to live on、 食う ,to eat')).toEqual([
+        'to eat',
+        'to live on',
+        '食う',
+      ]);
+    });
+  });
+});
@@ -12,6 +12,7 @@ import {
   extractText,
   removeMediaTags,
   preserveFormatting,
+  stripFormattingMarkers,
   decodeHtmlEntities,
   stripHtmlTags,
   cleanWhitespace,
@@ -245,6 +246,23 @@ describe('Text Extractor', () => {
       });
     });
 
+    describe('stripFormattingMarkers', () => {
+      it('should remove the markers preserveFormatting writes', () => {
+        const html = '<b>食べる</b> <i>to eat</i> <u>u</u> <s>s</s>';
+        expect(stripFormattingMarkers(preserveFormatting(html))).toBe(
+          '食べる to eat u s',
+        );
+        expect(
+          stripFormattingMarkers(preserveFormatting('<b><i>日</i></b>')),
+        ).toBe('日');
+      });
+
+      it('should leave unpaired markers alone', () => {
+        expect(stripFormattingMarkers('2 * 3')).toBe('2 * 3');
+        expect(stripFormattingMarkers('snake_case')).toBe('snake_case');
+      });
+    });
+
     describe('decodeHtmlEntities', () => {
       it('should decode common entities', () => {
         expect(decodeHtmlEntities('&amp;')).toBe('&');
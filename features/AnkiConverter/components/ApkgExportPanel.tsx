@@ -0,0 +1,317 @@
+/**
+ * ApkgExportPanel Component
+ *
+ * Exports KanaDojo content back to Anki: the current dojo selection, an
+ * imported custom set, or the items answered worst so far. Notes are
+ * tagged by JLPT level and can carry KanaDojo review schedules.
+ *
+ * @module features/AnkiConverter/components/ApkgExportPanel
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { cn } from '@/shared/lib/utils';
+import { Button } from '@/shared/components/ui/button';
+import useCustomSetsStore from '@/shared/store/useCustomSetsStore';
+import useReviewStore from '@/shared/store/useReviewStore';
+import { useKanjiSelection } from '@/features/Kanji';
+import { useVocabSelection } from '@/features/Vocabulary';
+import { useStatsStore } from '@/features/Progress';
+import { kanjiDataService } from '@/features/Kanji/services/kanjiDataService';
+import { vocabDataService } from '@/features/Vocabulary/services/vocabDataService';
+import {
+  buildLevelIndex,
+  createKanjiPackage,
+  createVocabPackage,
+  getWeakestItems,
+} from '../lib/deckExport';
+import type { ImportTarget } from '../lib/deckImport';
+import { useApkgExport } from '../hooks/useApkgExport';
+
+type ExportSource = 'selection' | 'custom' | 'weakest';
+
+const TARGETS: { value: ImportTarget; label: string }[] = [
+  { value: 'vocabulary', label: 'Vocabulary' },
+  { value: 'kanji', label: 'Kanji' },
+];
+
+const SOURCES: { value: ExportSource; label: string }[] = [
+  { value: 'selection', label: 'Current selection' },
+  { value: 'custom', label: 'Imported deck' },
+  { value: 'weakest', label: 'Weakest items' },
+];
+
+/** Easiest first, so an item listed in several levels gets the easiest */
+const JLPT_LEVELS = ['n5', 'n4', 'n3', 'n2', 'n1'] as const;
+
+const WEAKEST_LIMITS = [25, 50, 100, 200];
+
+const inputClassName =
+  'rounded-lg border border-(--border-color) bg-(--card-color) px-3 py-2 text-sm text-(--text-color)';
+
+function OptionGroup<T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+}: {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className='flex gap-2' role='radiogroup' aria-label={label}>
+      {options.map(option => (
+        <button
+          key={option.value}
+          type='button'
+          role='radio'
+          aria-checked={value === option.value}
+          onClick={() => onChange(option.value)}
+          className={cn(
+            'flex-1 rounded-lg border px-3 py-2 text-sm transition-colors',
+            value === option.value
+              ? 'border-(--main-color) bg-(--main-color)/10 text-(--main-color)'
+              : 'border-(--border-color) text-(--text-color)/70 hover:border-(--main-color)/50',
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * KanaDojo → Anki .apkg export
+ */
+export function ApkgExportPanel() {
+  const { selectedVocab } = useVocabSelection();
+  const { selectedKanji } = useKanjiSelection();
+  const customSets = useCustomSetsStore(state => state.sets);
+  const reviewCards = useReviewStore(state => state.cards);
+  const characterMastery = useStatsStore(
+    state => state.allTimeStats.characterMastery,
+  );
+  const { state: exportState, exportApkg } = useApkgExport();
+
+  const [target, setTarget] = useState<ImportTarget>('vocabulary');
+  const [source, setSource] = useState<ExportSource>('selection');
+  const [customSetId, setCustomSetId] = useState('');
+  const [weakestLimit, setWeakestLimit] = useState(WEAKEST_LIMITS[1]);
+  const [deckName, setDeckName] = useState('KanaDojo');
+  const [includeProgress, setIncludeProgress] = useState(true);
+  const [dataVersion, setDataVersion] = useState(0);
+  // Sets, selections and stats live in localStorage, so only render after hydration
+  const [isMounted, setIsMounted] = useState(false);
+
+  useEffect(() => {
+    setIsMounted(true);
+  }, []);
+
+  // Level data is needed for JLPT tags and to look up weak items
+  useEffect(() => {
+    let cancelled = false;
+    const service = target === 'kanji' ? kanjiDataService : vocabDataService;
+    service
+      .preloadAll()
+      .then(() => {
+        if (!cancelled) setDataVersion(version => version + 1);
+      })
+      .catch(() => {
+        // Export still works without JLPT tags
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [target]);
+
+  const targetSets = useMemo(
+    () => customSets.filter(set => set.contentType === target),
+    [customSets, target],
+  );
+  const customSet =
+    targetSets.find(set => set.id === customSetId) ?? targetSets[0];
+
+  const pkg = useMemo(() => {
+    // Re-read the service caches once preloading finishes
+    void dataVersion;
+    const options = {
+      deckName: deckName.trim() || 'KanaDojo',
+      reviewCards: includeProgress ? reviewCards : undefined,
+    };
+
+    if (target === 'kanji') {
+      const cached = kanjiDataService.getAllCached();
+      const byLevel = Object.fromEntries(
+        JLPT_LEVELS.map(level => [level, cached[level] ?? []]),
+      );
+      const items =
+        source === 'selection'
+          ? selectedKanji
+          : source === 'custom'
+            ? customSet?.contentType === 'kanji'
+              ? customSet.items
+              : []
+            : getWeakestItems(
+                Object.values(byLevel).flat(),
+                item => item.kanjiChar,
+                characterMastery,
+                weakestLimit,
+              );
+      return createKanjiPackage(items, {
+        ...options,
+        levels: buildLevelIndex(byLevel, item => item.kanjiChar),
+      });
+    }
+
+    const cached = vocabDataService.getAllCached();
+    const byLevel = Object.fromEntries(
+      JLPT_LEVELS.map(level => [level, cached[level] ?? []]),
+    );
+    const items =
+      source === 'selection'
+        ? selectedVocab
+        : source === 'custom'
+          ? customSet?.contentType === 'vocabulary'
+            ? customSet.items
+            : []
+          : getWeakestItems(
+              Object.values(byLevel).flat(),
+              item => item.word,
+              characterMastery,
+              weakestLimit,
+            );
+    return createVocabPackage(items, {
+      ...options,
+      levels: buildLevelIndex(byLevel, item => item.word),
+    });
+  }, [
+    characterMastery,
+    customSet,
+    dataVersion,
+    deckName,
+    includeProgress,
+    reviewCards,
+    selectedKanji,
+    selectedVocab,
+    source,
+    target,
+    weakestLimit,
+  ]);
+
+  const scheduledCount = pkg.notes.filter(note => note.schedule).length;
+
+  if (!isMounted) return null;
+
+  return (
+    <div className='flex flex-col gap-4 rounded-xl border border-(--border-color) bg-(--card-color) p-6'>
+      <div>
+        <h2 className='text-lg font-medium text-(--text-color)'>
+          Export to Anki
+        </h2>
+        <p className='text-sm text-(--text-color)/70'>
+          Download KanaDojo items as an .apkg deck, tagged by JLPT level. Open
+          the file in Anki to import it.
+        </p>
+      </div>
+
+      <OptionGroup
+        label='Export'
+        options={TARGETS}
+        value={target}
+        onChange={setTarget}
+      />
+      <OptionGroup
+        label='Items'
+        options={SOURCES}
+        value={source}
+        onChange={setSource}
+      />
+
+      {source === 'custom' &&
+        (targetSets.length > 0 ? (
+          <label className='flex flex-col gap-1 text-sm text-(--text-color)'>
+            Deck
+            <select
+              value={customSet?.id ?? ''}
+              onChange={e => setCustomSetId(e.target.value)}
+              className={inputClassName}
+            >
+              {targetSets.map(set => (
+                <option key={set.id} value={set.id}>
+                  {set.name} ({set.items.length})
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : (
+          <p className='text-sm text-(--text-color)/70'>
+            No imported {target === 'kanji' ? 'Kanji' : 'Vocabulary'} decks yet.
+          </p>
+        ))}
+
+      {source === 'weakest' && (
+        <label className='flex flex-col gap-1 text-sm text-(--text-color)'>
+          Number of items
+          <select
+            value={weakestLimit}
+            onChange={e => setWeakestLimit(Number(e.target.value))}
+            className={inputClassName}
+          >
+            {WEAKEST_LIMITS.map(limit => (
+              <option key={limit} value={limit}>
+                Up to {limit}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <label className='flex flex-col gap-1 text-sm text-(--text-color)'>
+        Deck name
+        <input
+          type='text'
+          value={deckName}
+          onChange={e => setDeckName(e.target.value)}
+          className={inputClassName}
+        />
+      </label>
+
+      <label className='flex items-center gap-2 text-sm text-(--text-color)'>
+        <input
+          type='checkbox'
+          checked={includeProgress}
+          onChange={e => setIncludeProgress(e.target.checked)}
+        />
+        Include review progress
+      </label>
+
+      <p className='text-xs text-(--text-color)/50'>
+        {pkg.notes.length} notes ready
+        {scheduledCount > 0 && ` · ${scheduledCount} with review history`}
+      </p>
+
+      {exportState.error && (
+        <p className='text-sm text-red-500' role='alert'>
+          {exportState.error.message}
+        </p>
+      )}
+      {exportState.filename && !exportState.isExporting && (
+        <p className='text-sm text-(--text-color)/70' role='status'>
+          Downloaded {exportState.filename}
+        </p>
+      )}
+
+      <Button
+        onClick={() => exportApkg(pkg, deckName.trim() || 'KanaDojo')}
+        disabled={pkg.notes.length === 0 || exportState.isExporting}
+        size='lg'
+      >
+        {exportState.isExporting ? 'Building deck…' : 'Download .apkg'}
+      </Button>
+    </div>
+  );
+}
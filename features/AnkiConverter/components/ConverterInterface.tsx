@@ -3,7 +3,7 @@
  *
  * Main UI component for the Anki to JSON converter.
  * Provides drag-and-drop file upload, conversion progress display,
- * and automatic JSON file download.
+ * automatic JSON file download and import into KanaDojo practice sets.
  *
  * @module features/AnkiConverter/components/ConverterInterface
  */
@@ -14,6 +14,7 @@ import { useState, useCallback, useRef } from 'react';
 import { cn } from '@/shared/lib/utils';
 import { Button } from '@/shared/components/ui/button';
 import { useConversionWorker } from '../hooks/useConversionWorker';
+import { DeckImportPanel } from './DeckImportPanel';
 import {
   getAcceptString,
   getSupportedExtensions,
@@ -96,7 +97,8 @@ export function ConverterInterface({
       startTimeRef.current = Date.now();
 
       try {
-        await convert(file);
+        // Review stats are needed to seed schedules when importing the deck
+        await convert(file, { includeStats: true });
         setDownloadReady(true);
       } catch {
         // Error is handled by the hook
@@ -442,6 +444,15 @@ export function ConverterInterface({
         )}
       </div>
 
+      {/* Import mapping step - shown after successful conversion */}
+      {downloadReady && state.result && selectedFile && (
+        <DeckImportPanel
+          key={selectedFile.name}
+          result={state.result}
+          defaultName={selectedFile.name.replace(/\.[^.]+$/, '')}
+        />
+      )}
+
       {/* Supported Formats Info */}
       {!state.isConverting && !state.result && !state.error && (
         <div className='text-center'>
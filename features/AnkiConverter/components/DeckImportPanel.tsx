@@ -0,0 +1,251 @@
+/**
+ * DeckImportPanel Component
+ *
+ * Mapping step shown after a successful conversion. Lets the user pick
+ * which Anki fields hold the word, reading and meaning, previews the
+ * result and saves the deck as a custom Vocabulary or Kanji set.
+ *
+ * @module features/AnkiConverter/components/DeckImportPanel
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Link } from '@/core/i18n/routing';
+import { cn } from '@/shared/lib/utils';
+import { Button } from '@/shared/components/ui/button';
+import useCustomSetsStore from '@/shared/store/useCustomSetsStore';
+import useReviewStore from '@/shared/store/useReviewStore';
+import {
+  collectCards,
+  getFieldNames,
+  mapCardsToKanji,
+  mapCardsToVocab,
+  suggestFieldMapping,
+  type FieldMapping,
+  type ImportTarget,
+} from '../lib/deckImport';
+import type { ConversionResult } from '../types';
+
+export interface DeckImportPanelProps {
+  result: ConversionResult;
+  defaultName: string;
+}
+
+const TARGETS: { value: ImportTarget; label: string }[] = [
+  { value: 'vocabulary', label: 'Vocabulary' },
+  { value: 'kanji', label: 'Kanji' },
+];
+
+const MAPPING_FIELDS: {
+  key: keyof FieldMapping;
+  label: string;
+  optional?: boolean;
+}[] = [
+  { key: 'word', label: 'Word' },
+  { key: 'reading', label: 'Reading', optional: true },
+  { key: 'meaning', label: 'Meaning' },
+];
+
+const PREVIEW_COUNT = 3;
+
+const inputClassName =
+  'rounded-lg border border-(--border-color) bg-(--card-color) px-3 py-2 text-sm text-(--text-color)';
+
+/**
+ * Anki deck → KanaDojo custom set mapping step
+ */
+export function DeckImportPanel({ result, defaultName }: DeckImportPanelProps) {
+  const addSet = useCustomSetsStore(state => state.addSet);
+  const importReviews = useReviewStore(state => state.importReviews);
+
+  const cards = useMemo(() => collectCards(result.decks), [result.decks]);
+  const fieldNames = useMemo(() => getFieldNames(cards), [cards]);
+
+  const [target, setTarget] = useState<ImportTarget>('vocabulary');
+  const [name, setName] = useState(defaultName);
+  const [mapping, setMapping] = useState<FieldMapping>(() =>
+    suggestFieldMapping(fieldNames),
+  );
+  const [saved, setSaved] = useState<{
+    name: string;
+    target: ImportTarget;
+    seeded: number;
+  } | null>(null);
+
+  const mapped = useMemo(
+    () =>
+      target === 'kanji'
+        ? { contentType: 'kanji' as const, ...mapCardsToKanji(cards, mapping) }
+        : {
+            contentType: 'vocabulary' as const,
+            ...mapCardsToVocab(cards, mapping),
+          },
+    [cards, mapping, target],
+  );
+
+  const preview = useMemo(
+    () =>
+      mapped.items.slice(0, PREVIEW_COUNT).map(item =>
+        'kanjiChar' in item
+          ? {
+              key: item.kanjiChar,
+              reading: [...item.onyomi, ...item.kunyomi].join('、'),
+              meanings: item.meanings,
+            }
+          : { key: item.word, reading: item.reading, meanings: item.meanings },
+      ),
+    [mapped.items],
+  );
+
+  const canSave =
+    mapping.word !== '' && mapping.meaning !== '' && mapped.items.length > 0;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    const customSet = addSet(
+      mapped.contentType === 'kanji'
+        ? { name, source: 'anki', contentType: 'kanji', items: mapped.items }
+        : {
+            name,
+            source: 'anki',
+            contentType: 'vocabulary',
+            items: mapped.items,
+          },
+    );
+    const seeded = importReviews(mapped.reviewCards);
+    setSaved({ name: customSet.name, target, seeded });
+  };
+
+  if (fieldNames.length === 0) return null;
+
+  if (saved) {
+    return (
+      <div className='flex flex-col items-center gap-3 rounded-xl border border-(--border-color) bg-(--card-color) p-6 text-center'>
+        <p className='text-lg font-medium text-(--text-color)'>
+          Added &ldquo;{saved.name}&rdquo; to your{' '}
+          {saved.target === 'kanji' ? 'Kanji' : 'Vocabulary'} sets
+        </p>
+        {saved.seeded > 0 && (
+          <p className='text-sm text-(--text-color)/70'>
+            Review schedules seeded for {saved.seeded} items from your Anki
+            history.
+          </p>
+        )}
+        <Link
+          href={`/${saved.target}`}
+          className='text-sm font-medium text-(--main-color) underline'
+        >
+          Start practicing
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className='flex flex-col gap-4 rounded-xl border border-(--border-color) bg-(--card-color) p-6'>
+      <div>
+        <h2 className='text-lg font-medium text-(--text-color)'>
+          Practice this deck in KanaDojo
+        </h2>
+        <p className='text-sm text-(--text-color)/70'>
+          Choose which Anki fields hold the word, reading and meaning. The deck
+          is saved as a custom set you can select like the JLPT levels.
+        </p>
+      </div>
+
+      <div className='flex gap-2' role='radiogroup' aria-label='Import as'>
+        {TARGETS.map(({ value, label }) => (
+          <button
+            key={value}
+            type='button'
+            role='radio'
+            aria-checked={target === value}
+            onClick={() => setTarget(value)}
+            className={cn(
+              'flex-1 rounded-lg border px-3 py-2 text-sm transition-colors',
+              target === value
+                ? 'border-(--main-color) bg-(--main-color)/10 text-(--main-color)'
+                : 'border-(--border-color) text-(--text-color)/70 hover:border-(--main-color)/50',
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <label className='flex flex-col gap-1 text-sm text-(--text-color)'>
+        Set name
+        <input
+          type='text'
+          value={name}
+          onChange={e => setName(e.target.value)}
+          className={inputClassName}
+        />
+      </label>
+
+      <div className='grid gap-3 sm:grid-cols-3'>
+        {MAPPING_FIELDS.map(({ key, label, optional }) => (
+          <label
+            key={key}
+            className='flex flex-col gap-1 text-sm text-(--text-color)'
+          >
+            {label}
+            <select
+              value={mapping[key]}
+              onChange={e =>
+                setMapping(prev => ({ ...prev, [key]: e.target.value }))
+              }
+              className={inputClassName}
+            >
+              {optional ? (
+                <option value=''>None</option>
+              ) : (
+                <option value='' disabled>
+                  Select a field
+                </option>
+              )}
+              {fieldNames.map(fieldName => (
+                <option key={fieldName} value={fieldName}>
+                  {fieldName}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {preview.length > 0 && (
+        <ul className='flex flex-col gap-1 text-sm'>
+          {preview.map(item => (
+            <li key={item.key} className='flex gap-3 text-(--text-color)'>
+              <span className='font-medium'>{item.key}</span>
+              {item.reading && (
+                <span className='text-(--text-color)/70'>{item.reading}</span>
+              )}
+              <span className='truncate text-(--text-color)/50'>
+                {item.meanings.join(', ')}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className='text-xs text-(--text-color)/50'>
+        {mapped.items.length} items ready
+        {mapped.skipped > 0 &&
+          ` · ${mapped.skipped} skipped (${
+            target === 'kanji'
+              ? 'not a single kanji, missing meaning or duplicate'
+              : 'missing word or meaning, or duplicate'
+          })`}
+        {mapped.reviewCards.length > 0 &&
+          ` · ${mapped.reviewCards.length} with review history`}
+      </p>
+
+      <Button onClick={handleSave} disabled={!canSave} size='lg'>
+        Add to KanaDojo
+      </Button>
+    </div>
+  );
+}
@@ -9,3 +9,9 @@ export {
   type ConversionState,
   type UseConversionWorkerReturn,
 } from './useConversionWorker';
+
+export {
+  useApkgExport,
+  type ApkgExportState,
+  type UseApkgExportReturn,
+} from './useApkgExport';
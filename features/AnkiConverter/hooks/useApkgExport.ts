@@ -0,0 +1,101 @@
+/**
+ * useApkgExport Hook
+ *
+ * React hook for building and downloading .apkg files.
+ * Builds in the conversion worker when available, otherwise on the main
+ * thread.
+ *
+ * @module features/AnkiConverter/hooks/useApkgExport
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import type { ApkgPackage } from '../types';
+import { ConversionError, ErrorCode } from '../types';
+import { getWorkerManager } from '../lib/worker/workerManager';
+import { buildApkg } from '../lib/apkgWriter';
+import { triggerBlobDownload } from '../lib/fileDownload';
+import { sanitizeFilename } from '../lib/filenameSanitizer';
+
+/**
+ * Export state
+ */
+export interface ApkgExportState {
+  /** Whether an export is in progress */
+  isExporting: boolean;
+  /** Filename of the last successful download */
+  filename: string | null;
+  /** Error (if export failed) */
+  error: ConversionError | null;
+}
+
+/**
+ * Hook return type
+ */
+export interface UseApkgExportReturn {
+  /** Current export state */
+  state: ApkgExportState;
+  /** Build the package and download it as `<name>.apkg` */
+  exportApkg: (pkg: ApkgPackage, name: string) => Promise<void>;
+  /** Reset state for a new export */
+  reset: () => void;
+}
+
+const initialState: ApkgExportState = {
+  isExporting: false,
+  filename: null,
+  error: null,
+};
+
+/**
+ * Hook for exporting KanaDojo content as an Anki package
+ */
+export function useApkgExport(): UseApkgExportReturn {
+  const [state, setState] = useState<ApkgExportState>(initialState);
+  const workerManager = useRef(getWorkerManager());
+
+  const exportApkg = useCallback(
+    async (pkg: ApkgPackage, name: string): Promise<void> => {
+      setState({ ...initialState, isExporting: true });
+
+      try {
+        const data: BlobPart = workerManager.current.isSupported()
+          ? await workerManager.current.exportApkg(pkg)
+          : ((await buildApkg(pkg)) as Uint8Array<ArrayBuffer>);
+
+        const filename = sanitizeFilename(name, { extension: '.apkg' });
+        const blob = new Blob([data], { type: 'application/octet-stream' });
+        if (!triggerBlobDownload(blob, filename)) {
+          throw new ConversionError(
+            ErrorCode.EXPORT_ERROR,
+            'Failed to trigger download',
+            { filename },
+            true,
+          );
+        }
+
+        setState({ isExporting: false, filename, error: null });
+      } catch (error) {
+        setState({
+          isExporting: false,
+          filename: null,
+          error:
+            error instanceof ConversionError
+              ? error
+              : new ConversionError(
+                  ErrorCode.EXPORT_ERROR,
+                  error instanceof Error ? error.message : String(error),
+                  {},
+                  true,
+                ),
+        });
+      }
+    },
+    [],
+  );
+
+  const reset = useCallback(() => {
+    setState(initialState);
+  }, []);
+
+  return { state, exportApkg, reset };
+}
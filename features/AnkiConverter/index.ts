@@ -2,11 +2,14 @@
  * AnkiConverter Feature
  *
  * Converts Anki deck files (.apkg, .tsv, .sqlite, .colpkg, .anki2)
- * into structured JSON format.
+ * into structured JSON format, or into KanaDojo custom practice sets,
+ * and exports KanaDojo sets back to Anki as .apkg files.
  */
 
 // Components
 export { ConverterInterface } from './components/ConverterInterface';
+export { DeckImportPanel } from './components/DeckImportPanel';
+export { ApkgExportPanel } from './components/ApkgExportPanel';
 
 // Error class and enum (runtime values)
 export { ConversionError, ErrorCode } from './types';
@@ -0,0 +1,477 @@
+/**
+ * APKG Writer
+ *
+ * Builds Anki Package (.apkg) files: a ZIP archive holding a schema v11
+ * SQLite collection (`collection.anki2`), a `media` manifest mapping
+ * numbered entries to filenames, and the numbered media files themselves.
+ * Runs in the conversion worker in the browser and in Node for the CLI.
+ *
+ * @module features/AnkiConverter/lib/apkgWriter
+ */
+
+import JSZip from 'jszip';
+import type { Database } from 'sql.js';
+import type { ApkgNote, ApkgNoteType, ApkgPackage } from '../types';
+import { ConversionError, ErrorCode } from '../types';
+import { getSqlJs } from '../parsers/sqliteParser';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SCHEMA_VERSION = 11;
+const DEFAULT_DECK_ID = 1;
+const DEFAULT_CONF_ID = 1;
+
+const CLOZE_NUMBER_PATTERN = /\{\{c(\d+)::/g;
+
+const CARD_CSS =
+  '.card { font-family: arial; font-size: 24px; text-align: center; color: black; background-color: white; }';
+
+/**
+ * Anki 2.1 legacy (schema v11) collection layout
+ */
+const SCHEMA_SQL = `
+  CREATE TABLE col (
+    id integer primary key, crt integer not null, mod integer not null,
+    scm integer not null, ver integer not null, dty integer not null,
+    usn integer not null, ls integer not null, conf text not null,
+    models text not null, decks text not null, dconf text not null,
+    tags text not null
+  );
+  CREATE TABLE notes (
+    id integer primary key, guid text not null, mid integer not null,
+    mod integer not null, usn integer not null, tags text not null,
+    flds text not null, sfld integer not null, csum integer not null,
+    flags integer not null, data text not null
+  );
+  CREATE TABLE cards (
+    id integer primary key, nid integer not null, did integer not null,
+    ord integer not null, mod integer not null, usn integer not null,
+    type integer not null, queue integer not null, due integer not null,
+    ivl integer not null, factor integer not null, reps integer not null,
+    lapses integer not null, left integer not null, odue integer not null,
+    odid integer not null, flags integer not null, data text not null
+  );
+  CREATE TABLE revlog (
+    id integer primary key, cid integer not null, usn integer not null,
+    ease integer not null, ivl integer not null, lastIvl integer not null,
+    factor integer not null, time integer not null, type integer not null
+  );
+  CREATE TABLE graves (
+    usn integer not null, oid integer not null, type integer not null
+  );
+  CREATE INDEX ix_notes_usn ON notes (usn);
+  CREATE INDEX ix_cards_usn ON cards (usn);
+  CREATE INDEX ix_revlog_usn ON revlog (usn);
+  CREATE INDEX ix_cards_nid ON cards (nid);
+  CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid ON revlog (cid);
+  CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+/**
+ * Escape plain text for an Anki field (fields are HTML)
+ */
+export function escapeFieldText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Strip HTML for the sort field and duplicate checksum, as Anki does
+ */
+function stripHtml(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * SHA-1 hex digest (Web Crypto is available in workers and Node 18+)
+ */
+async function sha1Hex(text: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest(
+    'SHA-1',
+    new TextEncoder().encode(text),
+  );
+  return [...new Uint8Array(digest)]
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Anki tags are space separated, so spaces inside a tag become underscores
+ */
+function formatTags(tags: string[]): string {
+  const cleaned = [
+    ...new Set(tags.map(tag => tag.trim().replace(/\s+/g, '_'))),
+  ].filter(Boolean);
+  return cleaned.length > 0 ? ` ${cleaned.join(' ')} ` : '';
+}
+
+/**
+ * Card ordinals for a note: one per cloze number, or a single card
+ */
+export function getCardOrdinals(note: ApkgNote, noteType: ApkgNoteType) {
+  if (!noteType.cloze) return [0];
+  const numbers = new Set<number>();
+  for (const match of (note.fields[0] ?? '').matchAll(CLOZE_NUMBER_PATTERN)) {
+    numbers.add(parseInt(match[1], 10) - 1);
+  }
+  return numbers.size > 0 ? [...numbers].sort((a, b) => a - b) : [0];
+}
+
+/**
+ * Collect deck names including implicit parents ("A::B" needs "A")
+ */
+function collectDeckNames(notes: ApkgNote[]): string[] {
+  const names = new Set<string>();
+  for (const note of notes) {
+    const parts = note.deck.split('::');
+    for (let i = 1; i <= parts.length; i++) {
+      names.add(parts.slice(0, i).join('::'));
+    }
+  }
+  return [...names];
+}
+
+function buildModelJson(
+  noteType: ApkgNoteType,
+  id: number,
+  deckId: number,
+  modSeconds: number,
+) {
+  const [front, ...rest] = noteType.fields;
+  const back = rest.map(field => `{{${field}}}`).join('<br>');
+  const template = noteType.cloze
+    ? {
+        qfmt: `{{cloze:${front}}}`,
+        afmt: `{{cloze:${front}}}${back ? `<br>${back}` : ''}`,
+      }
+    : {
+        qfmt: `{{${front}}}`,
+        afmt: `{{FrontSide}}<hr id=answer>${back}`,
+      };
+
+  return {
+    id,
+    name: noteType.name,
+    type: noteType.cloze ? 1 : 0,
+    mod: modSeconds,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [
+      {
+        name: noteType.cloze ? 'Cloze' : 'Card 1',
+        ord: 0,
+        ...template,
+        did: null,
+        bqfmt: '',
+        bafmt: '',
+      },
+    ],
+    flds: noteType.fields.map((name, ord) => ({
+      name,
+      ord,
+      sticky: false,
+      rtl: false,
+      font: 'Arial',
+      size: 20,
+      media: [],
+    })),
+    css: CARD_CSS,
+    latexPre:
+      '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+    req: [[0, 'any', [0]]],
+    tags: [],
+    vers: [],
+  };
+}
+
+function buildDeckJson(name: string, id: number, modSeconds: number) {
+  return {
+    id,
+    name,
+    desc: '',
+    mod: modSeconds,
+    usn: -1,
+    collapsed: false,
+    browserCollapsed: false,
+    dyn: 0,
+    conf: DEFAULT_CONF_ID,
+    extendNew: 10,
+    extendRev: 50,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  };
+}
+
+const DEFAULT_DECK_CONF = {
+  id: DEFAULT_CONF_ID,
+  name: 'Default',
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: {
+    bury: true,
+    delays: [1, 10],
+    initialFactor: 2500,
+    ints: [1, 4, 7],
+    order: 1,
+    perDay: 20,
+    separate: true,
+  },
+  lapse: {
+    delays: [10],
+    leechAction: 0,
+    leechFails: 8,
+    minInt: 1,
+    mult: 0,
+  },
+  rev: {
+    bury: true,
+    ease4: 1.3,
+    fuzz: 0.05,
+    ivlFct: 1,
+    maxIvl: 36500,
+    minSpace: 1,
+    perDay: 200,
+  },
+};
+
+/**
+ * Validate the package before writing anything
+ */
+function validatePackage(pkg: ApkgPackage): Map<string, ApkgNoteType> {
+  if (pkg.notes.length === 0) {
+    throw new ConversionError(
+      ErrorCode.EXPORT_ERROR,
+      'There are no notes to export.',
+      { notes: 0 },
+      false,
+    );
+  }
+
+  const noteTypes = new Map(pkg.noteTypes.map(type => [type.name, type]));
+  for (const note of pkg.notes) {
+    const noteType = noteTypes.get(note.noteType);
+    if (!noteType || noteType.fields.length === 0) {
+      throw new ConversionError(
+        ErrorCode.EXPORT_ERROR,
+        `Note type "${note.noteType}" is not defined in the package.`,
+        { noteType: note.noteType },
+        false,
+      );
+    }
+    if (note.fields.length !== noteType.fields.length) {
+      throw new ConversionError(
+        ErrorCode.EXPORT_ERROR,
+        `A "${note.noteType}" note has ${note.fields.length} fields, expected ${noteType.fields.length}.`,
+        { noteType: note.noteType, fields: note.fields.length },
+        false,
+      );
+    }
+  }
+  return noteTypes;
+}
+
+/**
+ * Write notes, cards and collection metadata into an empty database
+ */
+async function writeCollection(
+  db: Database,
+  pkg: ApkgPackage,
+  noteTypes: Map<string, ApkgNoteType>,
+  now: number,
+): Promise<void> {
+  const nowSeconds = Math.floor(now / 1000);
+  // Review due dates are day numbers counted from the collection's creation
+  const createdAt = new Date(now);
+  createdAt.setHours(0, 0, 0, 0);
+  const crtMs = createdAt.getTime();
+
+  db.exec(SCHEMA_SQL);
+
+  // Ids are millisecond timestamps in Anki; offset them to stay unique
+  const deckIds = new Map<string, number>();
+  collectDeckNames(pkg.notes).forEach((name, i) => {
+    deckIds.set(name, name === 'Default' ? DEFAULT_DECK_ID : now + i + 1);
+  });
+  const modelIds = new Map<string, number>();
+  [...noteTypes.keys()].forEach((name, i) => modelIds.set(name, now + i));
+
+  const firstDeckId = deckIds.get(pkg.notes[0].deck) ?? DEFAULT_DECK_ID;
+  const models = Object.fromEntries(
+    [...noteTypes.values()].map(noteType => {
+      const id = modelIds.get(noteType.name)!;
+      return [id, buildModelJson(noteType, id, firstDeckId, nowSeconds)];
+    }),
+  );
+  const decks: Record<string, unknown> = {
+    [DEFAULT_DECK_ID]: buildDeckJson('Default', DEFAULT_DECK_ID, nowSeconds),
+  };
+  for (const [name, id] of deckIds) {
+    decks[id] = buildDeckJson(name, id, nowSeconds);
+  }
+  const conf = {
+    nextPos: pkg.notes.length + 1,
+    estTimes: true,
+    activeDecks: [DEFAULT_DECK_ID],
+    sortType: 'noteFld',
+    timeLim: 0,
+    sortBackwards: false,
+    addToCur: true,
+    curDeck: firstDeckId,
+    newBury: true,
+    newSpread: 0,
+    dueCounts: true,
+    curModel: String(modelIds.values().next().value),
+    collapseTime: 1200,
+  };
+
+  db.run('INSERT INTO col VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)', [
+    1,
+    Math.floor(crtMs / 1000),
+    now,
+    now,
+    SCHEMA_VERSION,
+    0,
+    0,
+    0,
+    JSON.stringify(conf),
+    JSON.stringify(models),
+    JSON.stringify(decks),
+    JSON.stringify({ [DEFAULT_CONF_ID]: DEFAULT_DECK_CONF }),
+    '{}',
+  ]);
+
+  const insertNote = db.prepare(
+    'INSERT INTO notes VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+  );
+  const insertCard = db.prepare(
+    'INSERT INTO cards VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+  );
+
+  try {
+    let cardIndex = 0;
+    for (let i = 0; i < pkg.notes.length; i++) {
+      const note = pkg.notes[i];
+      const noteType = noteTypes.get(note.noteType)!;
+      const noteId = now + i;
+      const fields = note.fields.map(escapeFieldText);
+      const sortField = stripHtml(fields[0]);
+      // Stable guids let Anki update notes on re-import instead of duplicating
+      const guid = (await sha1Hex(`${note.noteType}\x1f${sortField}`)).slice(
+        0,
+        10,
+      );
+      const checksum = parseInt((await sha1Hex(sortField)).slice(0, 8), 16);
+
+      insertNote.run([
+        noteId,
+        guid,
+        modelIds.get(note.noteType)!,
+        nowSeconds,
+        -1,
+        formatTags(note.tags),
+        fields.join('\x1f'),
+        sortField,
+        checksum,
+        0,
+        '',
+      ]);
+
+      const schedule =
+        note.schedule && note.schedule.interval >= 1 ? note.schedule : null;
+      for (const ord of getCardOrdinals(note, noteType)) {
+        insertCard.run([
+          now + cardIndex++,
+          noteId,
+          deckIds.get(note.deck)!,
+          ord,
+          nowSeconds,
+          -1,
+          schedule ? 2 : 0, // type: review / new
+          schedule ? 2 : 0, // queue: review / new
+          schedule
+            ? Math.max(0, Math.floor((schedule.dueAt - crtMs) / DAY_MS))
+            : i + 1, // new cards are due by position
+          schedule ? Math.round(schedule.interval) : 0,
+          schedule ? Math.round(schedule.ease * 1000) : 0,
+          schedule ? Math.max(0, schedule.reps) : 0,
+          schedule ? Math.max(0, schedule.lapses) : 0,
+          0,
+          0,
+          0,
+          0,
+          '',
+        ]);
+      }
+    }
+  } finally {
+    insertNote.free();
+    insertCard.free();
+  }
+}
+
+/**
+ * Build an .apkg file from notes and note types
+ *
+ * @param pkg - Note types, notes and optional media
+ * @param now - Timestamp used for ids and scheduling
+ * @returns The .apkg file contents
+ * @throws ConversionError if the package is empty or inconsistent
+ */
+export async function buildApkg(
+  pkg: ApkgPackage,
+  now: number = Date.now(),
+): Promise<Uint8Array> {
+  const noteTypes = validatePackage(pkg);
+
+  const SQL = await getSqlJs();
+  const db = new SQL.Database();
+  let collection: Uint8Array;
+  try {
+    await writeCollection(db, pkg, noteTypes, now);
+    collection = db.export();
+  } catch (error) {
+    if (error instanceof ConversionError) throw error;
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new ConversionError(
+      ErrorCode.EXPORT_ERROR,
+      `Failed to write the Anki collection: ${message}`,
+      { originalError: message },
+      false,
+    );
+  } finally {
+    db.close();
+  }
+
+  const zip = new JSZip();
+  zip.file('collection.anki2', collection);
+
+  const mediaManifest: Record<string, string> = {};
+  Object.entries(pkg.media ?? {}).forEach(([filename, data], i) => {
+    mediaManifest[String(i)] = filename;
+    zip.file(String(i), data);
+  });
+  zip.file('media', JSON.stringify(mediaManifest));
+
+  // Stored uncompressed: a mostly empty SQLite file deflates so well that
+  // it would trip the parser's zip bomb check on round-trips
+  return zip.generateAsync({ type: 'uint8array', compression: 'STORE' });
+}
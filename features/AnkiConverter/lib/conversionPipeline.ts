@@ -468,6 +468,9 @@ export function createErrorMessage(
       const maxSize = details?.maxSize || '500MB';
       return `${fileRef} exceeds the maximum file size of ${maxSize}.`;
 
+    case ErrorCode.EXPORT_ERROR:
+      return `${fileRef} could not be packaged as an Anki deck.`;
+
     case ErrorCode.UNKNOWN_ERROR:
     default:
       return `An unexpected error occurred while processing ${fileRef}. Please try again.`;
@@ -500,6 +503,9 @@ export function getErrorRecoveryGuidance(code: ErrorCode): string {
     case ErrorCode.FILE_TOO_LARGE:
       return 'Split the deck into smaller parts in Anki, or use the CLI tool which supports larger files.';
 
+    case ErrorCode.EXPORT_ERROR:
+      return 'Check that the selected set has items, or export from the CLI with --reverse.';
+
     case ErrorCode.UNKNOWN_ERROR:
     default:
       return 'Try refreshing the page and uploading the file again. If the problem persists, please report this issue.';
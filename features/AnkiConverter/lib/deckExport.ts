@@ -0,0 +1,248 @@
+/**
+ * Deck Export
+ *
+ * Turns KanaDojo sets, weak items and converted decks into `ApkgPackage`s
+ * for the .apkg writer. Notes are tagged `KanaDojo`, `KanaDojo::<Dojo>`
+ * and `JLPT::<Level>`; review schedules from KanaDojo (or Anki stats in a
+ * converted deck) are carried over so progress survives the round-trip.
+ *
+ * @module features/AnkiConverter/lib/deckExport
+ */
+
+import type { IKanjiObj } from '@/features/Kanji';
+import type { IVocabObj } from '@/features/Vocabulary';
+import {
+  DAY_MS,
+  getCardId,
+  type ReviewCard,
+} from '@/shared/lib/spacedRepetition';
+import type {
+  ApkgNote,
+  ApkgNoteType,
+  ApkgPackage,
+  ApkgSchedule,
+  ConversionResult,
+  Deck,
+} from '../types';
+import type { ImportTarget } from './deckImport';
+
+/**
+ * Note types used for KanaDojo items
+ */
+export const KANADOJO_NOTE_TYPES: Record<ImportTarget, ApkgNoteType> = {
+  vocabulary: {
+    name: 'KanaDojo Vocabulary',
+    fields: ['Word', 'Reading', 'Meaning'],
+  },
+  kanji: {
+    name: 'KanaDojo Kanji',
+    fields: ['Kanji', 'Onyomi', 'Kunyomi', 'Meaning'],
+  },
+};
+
+/**
+ * Maps an item key (word or kanji) to its JLPT level, e.g. "N5"
+ */
+export type JlptLevelIndex = Record<string, string>;
+
+export interface KanaDojoExportOptions {
+  deckName: string;
+  levels?: JlptLevelIndex;
+  /** Review cards keyed by card id (see `getCardId`) */
+  reviewCards?: Record<string, ReviewCard>;
+}
+
+export type CharacterMastery = Record<
+  string,
+  { correct: number; incorrect: number }
+>;
+
+/**
+ * Build a key → JLPT level index from level-grouped data.
+ * Levels should be listed easiest first; the first level seen wins.
+ */
+export function buildLevelIndex<T>(
+  byLevel: Partial<Record<string, T[]>>,
+  getKey: (item: T) => string,
+): JlptLevelIndex {
+  const index: JlptLevelIndex = {};
+  for (const [level, items] of Object.entries(byLevel)) {
+    for (const item of items ?? []) {
+      index[getKey(item)] ??= level.toUpperCase();
+    }
+  }
+  return index;
+}
+
+/**
+ * Tags for an exported KanaDojo note
+ */
+export function getExportTags(
+  contentType: ImportTarget,
+  level?: string,
+): string[] {
+  const tags = [
+    'KanaDojo',
+    `KanaDojo::${contentType === 'kanji' ? 'Kanji' : 'Vocabulary'}`,
+  ];
+  if (level) tags.push(`JLPT::${level.toUpperCase()}`);
+  return tags;
+}
+
+/**
+ * Carry a KanaDojo review card over; learning cards export as new
+ */
+export function toApkgSchedule(card?: ReviewCard): ApkgSchedule | undefined {
+  if (!card || card.stability < 1) return undefined;
+  return {
+    interval: card.stability,
+    ease: card.ease,
+    reps: card.reps,
+    lapses: card.lapses,
+    dueAt: card.dueAt,
+  };
+}
+
+/**
+ * Pick the items answered worst, lowest accuracy first.
+ * Items never answered, or never missed, are left out.
+ */
+export function getWeakestItems<T>(
+  items: T[],
+  getKey: (item: T) => string,
+  characterMastery: CharacterMastery,
+  limit: number,
+): T[] {
+  return items
+    .map(item => ({ item, stats: characterMastery[getKey(item)] }))
+    .filter(({ stats }) => stats && stats.incorrect > 0)
+    .sort((a, b) => {
+      const accuracyA = a.stats.correct / (a.stats.correct + a.stats.incorrect);
+      const accuracyB = b.stats.correct / (b.stats.correct + b.stats.incorrect);
+      return accuracyA - accuracyB || b.stats.incorrect - a.stats.incorrect;
+    })
+    .slice(0, limit)
+    .map(({ item }) => item);
+}
+
+/**
+ * Package vocabulary items as "KanaDojo Vocabulary" notes
+ */
+export function createVocabPackage(
+  items: IVocabObj[],
+  { deckName, levels = {}, reviewCards = {} }: KanaDojoExportOptions,
+): ApkgPackage {
+  const noteType = KANADOJO_NOTE_TYPES.vocabulary;
+  return {
+    noteTypes: [noteType],
+    notes: items.map(item => ({
+      deck: deckName,
+      noteType: noteType.name,
+      fields: [item.word, item.reading, item.meanings.join(', ')],
+      tags: getExportTags('vocabulary', levels[item.word]),
+      schedule: toApkgSchedule(reviewCards[getCardId('vocabulary', item.word)]),
+    })),
+  };
+}
+
+/**
+ * Package kanji items as "KanaDojo Kanji" notes
+ */
+export function createKanjiPackage(
+  items: IKanjiObj[],
+  { deckName, levels = {}, reviewCards = {} }: KanaDojoExportOptions,
+): ApkgPackage {
+  const noteType = KANADOJO_NOTE_TYPES.kanji;
+  return {
+    noteTypes: [noteType],
+    notes: items.map(item => ({
+      deck: deckName,
+      noteType: noteType.name,
+      fields: [
+        item.kanjiChar,
+        item.onyomi.join('、'),
+        item.kunyomi.join('、'),
+        item.meanings.join(', '),
+      ],
+      tags: getExportTags('kanji', levels[item.kanjiChar]),
+      schedule: toApkgSchedule(reviewCards[getCardId('kanji', item.kanjiChar)]),
+    })),
+  };
+}
+
+/**
+ * Turn converter JSON back into a package (the `--reverse` round-trip).
+ * Cards sharing a deck, note type and fields (cloze siblings, reversed
+ * cards) collapse into one note; Anki stats become the note's schedule.
+ */
+export function conversionResultToPackage(
+  result: ConversionResult,
+  now: number = Date.now(),
+): ApkgPackage {
+  const noteTypes = new Map<string, ApkgNoteType>();
+  const noteTypeBySignature = new Map<string, string>();
+  const notes = new Map<string, ApkgNote>();
+
+  const getNoteTypeName = (
+    baseName: string,
+    fields: string[],
+    cloze: boolean,
+  ) => {
+    const signature = [baseName, cloze, ...fields].join('\x1f');
+    const existing = noteTypeBySignature.get(signature);
+    if (existing) return existing;
+
+    let name = baseName;
+    for (let suffix = 2; noteTypes.has(name); suffix++) {
+      name = `${baseName} (${suffix})`;
+    }
+    noteTypes.set(name, { name, fields, ...(cloze ? { cloze } : {}) });
+    noteTypeBySignature.set(signature, name);
+    return name;
+  };
+
+  const visit = (deck: Deck, path: string) => {
+    for (const card of deck.cards) {
+      const fieldNames = Object.keys(card.fields);
+      if (fieldNames.length === 0) continue;
+
+      const baseName =
+        'noteType' in card && typeof card.noteType === 'string'
+          ? card.noteType || 'Custom'
+          : card.type === 'cloze'
+            ? 'Cloze'
+            : 'Basic';
+      const noteType = getNoteTypeName(
+        baseName,
+        fieldNames,
+        card.type === 'cloze',
+      );
+      const fields = fieldNames.map(name => card.fields[name]);
+      const key = [path, noteType, ...fields].join('\x1f');
+      if (notes.has(key)) continue;
+
+      notes.set(key, {
+        deck: path,
+        noteType,
+        fields,
+        tags: card.tags,
+        schedule:
+          card.stats && card.stats.interval >= 1
+            ? {
+                interval: card.stats.interval,
+                ease: card.stats.ease / 100,
+                reps: card.stats.reviews,
+                lapses: card.stats.lapses,
+                dueAt: now + card.stats.interval * DAY_MS,
+              }
+            : undefined,
+      });
+    }
+    for (const subdeck of deck.subdecks ?? []) {
+      visit(subdeck, `${path}::${subdeck.name}`);
+    }
+  };
+  result.decks.forEach(deck => visit(deck, deck.name));
+
+  return { noteTypes: [...noteTypes.values()], notes: [...notes.values()] };
+}
@@ -0,0 +1,248 @@
+/**
+ * Deck Import
+ *
+ * Turns converted Anki decks into KanaDojo practice sets. The user maps
+ * which Anki fields hold the word, reading and meaning; every card is then
+ * mapped to a vocabulary or kanji item, and its review history (interval and
+ * ease from `OutputCard.stats`) becomes a seeded spaced-repetition card.
+ *
+ * @module features/AnkiConverter/lib/deckImport
+ */
+
+import { isKanji, isKatakana } from 'wanakana';
+import type { IKanjiObj } from '@/features/Kanji';
+import type { IVocabObj } from '@/features/Vocabulary';
+import {
+  createReviewCard,
+  DAY_MS,
+  DEFAULT_EASE,
+  MAX_EASE,
+  MAX_INTERVAL_DAYS,
+  MIN_EASE,
+  type ReviewCard,
+} from '@/shared/lib/spacedRepetition';
+import type { Deck, OutputCard } from '../types';
+import { stripFormattingMarkers } from './textExtractor';
+
+/**
+ * Which KanaDojo dojo an imported deck feeds
+ */
+export type ImportTarget = 'vocabulary' | 'kanji';
+
+/**
+ * Anki field names chosen for each KanaDojo property.
+ * An empty reading means the deck has no reading field.
+ */
+export interface FieldMapping {
+  word: string;
+  reading: string;
+  meaning: string;
+}
+
+/**
+ * Result of mapping a deck's cards to practice items
+ */
+export interface DeckImportResult<T> {
+  items: T[];
+  reviewCards: ReviewCard[];
+  /** Cards dropped for missing fields, duplicates or (kanji) multi-char words */
+  skipped: number;
+}
+
+/**
+ * Field name patterns used to pre-fill the mapping step
+ */
+const FIELD_PATTERNS: Record<keyof FieldMapping, RegExp> = {
+  word: /^(word|expression|vocab|vocabulary|kanji|japanese|front|term)/i,
+  reading: /(reading|kana|furigana|yomi|pronunciation)/i,
+  meaning: /(meaning|english|definition|gloss|translation|back)/i,
+};
+
+// Separators between multiple meanings or readings in a single field
+const LIST_SEPARATOR = /[;,、，；/\n]/;
+
+// Built-in kanji ids count from 1 within each JLPT level; imported kanji
+// are numbered from here by code point so they never share an id with them
+const IMPORTED_KANJI_ID_BASE = 1_000_000;
+
+/**
+ * Flatten a deck hierarchy into a single list of cards
+ */
+export function collectCards(decks: Deck[]): OutputCard[] {
+  const cards: OutputCard[] = [];
+  for (const deck of decks) {
+    cards.push(...deck.cards);
+    if (deck.subdecks) {
+      cards.push(...collectCards(deck.subdecks));
+    }
+  }
+  return cards;
+}
+
+/**
+ * Get every field name used by the cards, in first-seen order
+ */
+export function getFieldNames(cards: OutputCard[]): string[] {
+  const names = new Set<string>();
+  for (const card of cards) {
+    Object.keys(card.fields).forEach(name => names.add(name));
+  }
+  return [...names];
+}
+
+/**
+ * Guess a field mapping from field names, falling back to field order
+ */
+export function suggestFieldMapping(fieldNames: string[]): FieldMapping {
+  const used = new Set<string>();
+  const pick = (key: keyof FieldMapping): string => {
+    const match = fieldNames.find(
+      name => !used.has(name) && FIELD_PATTERNS[key].test(name),
+    );
+    if (match) used.add(match);
+    return match ?? '';
+  };
+
+  const word = pick('word') || fieldNames.find(name => !used.has(name)) || '';
+  used.add(word);
+  const meaning =
+    pick('meaning') || fieldNames.find(name => !used.has(name)) || '';
+  used.add(meaning);
+  const reading = pick('reading');
+
+  return { word, reading, meaning };
+}
+
+/**
+ * Read a mapped field as plain text. Converted fields keep bold and italic
+ * as **markers**, which must not end up in a word (**食べる**).
+ */
+function readField(card: OutputCard, name: string): string {
+  return stripFormattingMarkers(card.fields[name] ?? '').trim();
+}
+
+/**
+ * Split a field holding several comma/semicolon separated values
+ */
+export function splitFieldList(value: string | undefined): string[] {
+  if (!value) return [];
+  return [
+    ...new Set(
+      stripFormattingMarkers(value)
+        .split(LIST_SEPARATOR)
+        .map(piece => piece.trim())
+        .filter(Boolean),
+    ),
+  ];
+}
+
+/**
+ * Seed an SM-2 review card from Anki's review history.
+ * Returns null for cards that were never reviewed.
+ *
+ * Anki doesn't export the last review date, so the import time counts as
+ * the last review and the card comes due one interval from now.
+ */
+export function seedReviewCard(
+  contentType: ImportTarget,
+  key: string,
+  stats: OutputCard['stats'],
+  now: number = Date.now(),
+): ReviewCard | null {
+  if (!stats || stats.reviews <= 0) return null;
+
+  // Anki stores ease as a percentage (250 = 2.5); clamp to SM-2 bounds
+
+  // Negative intervals are learning steps in seconds
+  const stability = Math.min(Math.max(stats.interval, 0), MAX_INTERVAL_DAYS);
+  const ease =
+    stats.ease > 0
+      ? Math.min(MAX_EASE, Math.max(MIN_EASE, stats.ease / 100))
+      : DEFAULT_EASE;
+
+  return {
+    ...createReviewCard(contentType, key, now),
+    dueAt: now + stability * DAY_MS,
+    stability,
+    ease,
+    // Past the 1 day / 6 day steps, the next interval is stability × ease
+    reps: stability >= 6 ? 2 : stability >= 1 ? 1 : 0,
+    lapses: Math.max(stats.lapses, 0),
+    lastReviewedAt: now,
+  };
+}
+
+/**
+ * Map cards to vocabulary items, keeping the first card for each word
+ */
+export function mapCardsToVocab(
+  cards: OutputCard[],
+  mapping: FieldMapping,
+  now: number = Date.now(),
+): DeckImportResult<IVocabObj> {
+  const items: IVocabObj[] = [];
+  const reviewCards: ReviewCard[] = [];
+  const seen = new Set<string>();
+
+  for (const card of cards) {
+    const word = readField(card, mapping.word);
+    const meanings = splitFieldList(card.fields[mapping.meaning]);
+    if (!word || meanings.length === 0 || seen.has(word)) continue;
+    seen.add(word);
+
+    const reading = mapping.reading
+      ? readField(card, mapping.reading) || word
+      : word;
+    items.push({ word, reading, meanings });
+
+    const reviewCard = seedReviewCard('vocabulary', word, card.stats, now);
+    if (reviewCard) reviewCards.push(reviewCard);
+  }
+
+  return { items, reviewCards, skipped: cards.length - items.length };
+}
+
+/**
+ * Map cards to kanji items. The word field must hold a single kanji;
+ * katakana readings become on'yomi and the rest kun'yomi.
+ */
+export function mapCardsToKanji(
+  cards: OutputCard[],
+  mapping: FieldMapping,
+  now: number = Date.now(),
+): DeckImportResult<IKanjiObj> {
+  const items: IKanjiObj[] = [];
+  const reviewCards: ReviewCard[] = [];
+  const seen = new Set<string>();
+
+  for (const card of cards) {
+    const kanjiChar = readField(card, mapping.word);
+    const meanings = splitFieldList(card.fields[mapping.meaning]);
+    if (
+      !kanjiChar ||
+      [...kanjiChar].length !== 1 ||
+      !isKanji(kanjiChar) ||
+      meanings.length === 0 ||
+      seen.has(kanjiChar)
+    ) {
+      continue;
+    }
+    seen.add(kanjiChar);
+
+    const readings = mapping.reading
+      ? splitFieldList(card.fields[mapping.reading])
+      : [];
+    items.push({
+      id: IMPORTED_KANJI_ID_BASE + kanjiChar.codePointAt(0)!,
+      kanjiChar,
+      onyomi: readings.filter(reading => isKatakana(reading)),
+      kunyomi: readings.filter(reading => !isKatakana(reading)),
+      meanings,
+    });
+
+    const reviewCard = seedReviewCard('kanji', kanjiChar, card.stats, now);
+    if (reviewCard) reviewCards.push(reviewCard);
+  }
+
+  return { items, reviewCards, skipped: cards.length - items.length };
+}
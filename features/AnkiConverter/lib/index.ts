@@ -28,6 +28,7 @@ export {
   extractText,
   removeMediaTags,
   preserveFormatting,
+  stripFormattingMarkers,
   decodeHtmlEntities,
   stripHtmlTags,
   cleanWhitespace,
@@ -44,6 +45,38 @@ export {
   flattenDeckNames,
 } from './jsonBuilder';
 
+export {
+  collectCards,
+  getFieldNames,
+  suggestFieldMapping,
+  splitFieldList,
+  seedReviewCard,
+  mapCardsToVocab,
+  mapCardsToKanji,
+} from './deckImport';
+export type {
+  FieldMapping,
+  ImportTarget,
+  DeckImportResult,
+} from './deckImport';
+
+export { buildApkg, escapeFieldText, getCardOrdinals } from './apkgWriter';
+export {
+  KANADOJO_NOTE_TYPES,
+  buildLevelIndex,
+  getExportTags,
+  toApkgSchedule,
+  getWeakestItems,
+  createVocabPackage,
+  createKanjiPackage,
+  conversionResultToPackage,
+} from './deckExport';
+export type {
+  JlptLevelIndex,
+  KanaDojoExportOptions,
+  CharacterMastery,
+} from './deckExport';
+
 export {
   sanitizeFilename,
   generateCollectionFilename,
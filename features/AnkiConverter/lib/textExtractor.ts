@@ -63,6 +63,17 @@ const FORMATTING_CONVERSIONS: Array<{
   { pattern: /<sup[^>]*>([\s\S]*?)<\/sup>/gi, replacement: '^$1^' },
 ];
 
+/**
+ * Text markers written by preserveFormatting, longest first so that
+ * **bold** is not read as two *italic* markers
+ */
+const FORMATTING_MARKER_PATTERNS = [
+  /\*\*([\s\S]+?)\*\*/g,
+  /~~([\s\S]+?)~~/g,
+  /\*([\s\S]+?)\*/g,
+  /_([\s\S]+?)_/g,
+];
+
 /**
  * Block-level tags that should add line breaks
  */
@@ -167,6 +178,26 @@ export function preserveFormatting(html: string): string {
   return result;
 }
 
+/**
+ * Remove the bold, italic, underline and strikethrough markers written by
+ * preserveFormatting, keeping the text inside them.
+ * **食べる** -> 食べる
+ *
+ * @param text - Text with formatting markers
+ * @returns Text without formatting markers
+ */
+export function stripFormattingMarkers(text: string): string {
+  if (!text) return '';
+
+  let result = text;
+
+  for (const pattern of FORMATTING_MARKER_PATTERNS) {
+    result = result.replace(pattern, '$1');
+  }
+
+  return result;
+}
+
 /**
  * Decode HTML entities to their character equivalents.
  *
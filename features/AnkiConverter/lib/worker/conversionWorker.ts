@@ -1,7 +1,8 @@
 /**
  * Anki Converter Web Worker
  *
- * Runs conversion in a background thread to keep the UI responsive.
+ * Runs conversion and .apkg export in a background thread to keep the UI
+ * responsive.
  * All processing happens locally - no network requests are made.
  *
  * @module features/AnkiConverter/lib/worker/conversionWorker
@@ -12,12 +13,18 @@ import type {
   WorkerResponseMessage,
   WorkerProgressMessage,
   WorkerSuccessMessage,
+  WorkerExportSuccessMessage,
   WorkerErrorMessage,
 } from './types';
-import type { ConversionOptions, ProgressEvent } from '../../types';
+import type {
+  ApkgPackage,
+  ConversionOptions,
+  ProgressEvent,
+} from '../../types';
 import { ConversionError, ErrorCode } from '../../types';
 import { createConversionPipeline } from '../conversionPipeline';
 import { detectFormatFromExtension } from '../formatDetection';
+import { buildApkg } from '../apkgWriter';
 
 // Track active conversions for cancellation
 const activeConversions = new Map<string, AbortController>();
@@ -25,8 +32,11 @@ const activeConversions = new Map<string, AbortController>();
 /**
  * Post a message to the main thread
  */
-function postResponse(message: WorkerResponseMessage): void {
-  self.postMessage(message);
+function postResponse(
+  message: WorkerResponseMessage,
+  transfer: Transferable[] = [],
+): void {
+  self.postMessage(message, { transfer });
 }
 
 /**
@@ -112,6 +122,33 @@ async function handleConvert(
   }
 }
 
+/**
+ * Handle .apkg export request
+ */
+async function handleExportApkg(id: string, pkg: ApkgPackage): Promise<void> {
+  try {
+    const bytes = await buildApkg(pkg);
+    const buffer = bytes.buffer.slice(
+      bytes.byteOffset,
+      bytes.byteOffset + bytes.byteLength,
+    ) as ArrayBuffer;
+
+    const successMessage: WorkerExportSuccessMessage = {
+      type: 'export-success',
+      id,
+      payload: buffer,
+    };
+    postResponse(successMessage, [buffer]);
+  } catch (error) {
+    const errorMessage: WorkerErrorMessage = {
+      type: 'error',
+      id,
+      payload: serializeError(error),
+    };
+    postResponse(errorMessage);
+  }
+}
+
 /**
  * Handle cancel request
  */
@@ -187,6 +224,10 @@ self.onmessage = (event: MessageEvent<WorkerRequestMessage>) => {
       );
       break;
 
+    case 'export-apkg':
+      handleExportApkg(message.id, message.payload.package);
+      break;
+
     case 'cancel':
       handleCancel(message.id);
       break;
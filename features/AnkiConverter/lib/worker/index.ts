@@ -10,10 +10,12 @@ export type {
   WorkerRequestMessage,
   WorkerResponseMessage,
   WorkerConvertMessage,
+  WorkerExportApkgMessage,
   WorkerCancelMessage,
   WorkerCleanupMessage,
   WorkerProgressMessage,
   WorkerSuccessMessage,
+  WorkerExportSuccessMessage,
   WorkerErrorMessage,
   WorkerReadyMessage,
   WorkerCleanupCompleteMessage,
@@ -7,6 +7,7 @@
  */
 
 import type {
+  ApkgPackage,
   ConversionOptions,
   ConversionResult,
   ProgressEvent,
@@ -18,6 +19,7 @@ import type {
  */
 export type WorkerRequestMessage =
   | WorkerConvertMessage
+  | WorkerExportApkgMessage
   | WorkerCancelMessage
   | WorkerCleanupMessage;
 
@@ -34,6 +36,17 @@ export interface WorkerConvertMessage {
   };
 }
 
+/**
+ * Request to build an .apkg file
+ */
+export interface WorkerExportApkgMessage {
+  type: 'export-apkg';
+  id: string;
+  payload: {
+    package: ApkgPackage;
+  };
+}
+
 /**
  * Request to cancel an ongoing conversion
  */
@@ -55,6 +68,7 @@ export interface WorkerCleanupMessage {
 export type WorkerResponseMessage =
   | WorkerProgressMessage
   | WorkerSuccessMessage
+  | WorkerExportSuccessMessage
   | WorkerErrorMessage
   | WorkerReadyMessage
   | WorkerCleanupCompleteMessage;
@@ -78,7 +92,16 @@ export interface WorkerSuccessMessage {
 }
 
 /**
- * Error during conversion
+ * Finished .apkg file (the buffer is transferred)
+ */
+export interface WorkerExportSuccessMessage {
+  type: 'export-success';
+  id: string;
+  payload: ArrayBuffer;
+}
+
+/**
+ * Error during conversion or export
  */
 export interface WorkerErrorMessage {
   type: 'error';
@@ -11,8 +11,10 @@ import type {
   WorkerRequestMessage,
   WorkerResponseMessage,
   WorkerConvertMessage,
+  WorkerExportApkgMessage,
 } from './types';
 import type {
+  ApkgPackage,
   ConversionOptions,
   ConversionResult,
   ProgressEvent,
@@ -36,6 +38,14 @@ interface PendingConversion {
   callbacks: ConversionCallbacks;
 }
 
+/**
+ * Pending .apkg export request
+ */
+interface PendingExport {
+  resolve: (buffer: ArrayBuffer) => void;
+  reject: (error: ConversionError) => void;
+}
+
 /**
  * Worker manager state
  */
@@ -43,6 +53,7 @@ interface WorkerManagerState {
   worker: Worker | null;
   ready: boolean;
   pendingConversions: Map<string, PendingConversion>;
+  pendingExports: Map<string, PendingExport>;
   readyPromise: Promise<void> | null;
   readyResolve: (() => void) | null;
 }
@@ -62,6 +73,7 @@ export function createWorkerManager() {
     worker: null,
     ready: false,
     pendingConversions: new Map(),
+    pendingExports: new Map(),
     readyPromise: null,
     readyResolve: null,
   };
@@ -98,21 +110,35 @@ export function createWorkerManager() {
         break;
       }
 
+      case 'export-success': {
+        const pending = state.pendingExports.get(message.id);
+        if (pending) {
+          state.pendingExports.delete(message.id);
+          pending.resolve(message.payload);
+        }
+        break;
+      }
+
       case 'error': {
+        const error = new ConversionError(
+          message.payload.code as ErrorCode,
+          message.payload.message,
+          message.payload.details,
+          message.payload.recoverable,
+        );
         const pending = state.pendingConversions.get(message.id);
         if (pending) {
           state.pendingConversions.delete(message.id);
-          const error = new ConversionError(
-            message.payload.code as ErrorCode,
-            message.payload.message,
-            message.payload.details,
-            message.payload.recoverable,
-          );
           if (pending.callbacks.onError) {
             pending.callbacks.onError(error);
           }
           pending.reject(error);
         }
+        const pendingExport = state.pendingExports.get(message.id);
+        if (pendingExport) {
+          state.pendingExports.delete(message.id);
+          pendingExport.reject(error);
+        }
         break;
       }
 
@@ -142,6 +168,18 @@ export function createWorkerManager() {
       pending.reject(error);
       state.pendingConversions.delete(id);
     }
+
+    for (const [id, pending] of state.pendingExports) {
+      pending.reject(
+        new ConversionError(
+          ErrorCode.EXPORT_ERROR,
+          `Worker error: ${event.message}`,
+          { filename: event.filename, lineno: event.lineno },
+          false,
+        ),
+      );
+      state.pendingExports.delete(id);
+    }
   }
 
   /**
@@ -253,6 +291,35 @@ export function createWorkerManager() {
     });
   }
 
+  /**
+   * Build an .apkg file from a package using the worker
+   */
+  async function exportApkg(pkg: ApkgPackage): Promise<ArrayBuffer> {
+    await initialize();
+
+    if (!state.worker) {
+      throw new ConversionError(
+        ErrorCode.UNKNOWN_ERROR,
+        'Worker not initialized',
+        {},
+        false,
+      );
+    }
+
+    const id = generateId();
+
+    return new Promise<ArrayBuffer>((resolve, reject) => {
+      state.pendingExports.set(id, { resolve, reject });
+
+      const message: WorkerExportApkgMessage = {
+        type: 'export-apkg',
+        id,
+        payload: { package: pkg },
+      };
+      state.worker!.postMessage(message);
+    });
+  }
+
   /**
    * Cancel an ongoing conversion
    */
@@ -311,6 +378,18 @@ export function createWorkerManager() {
       state.pendingConversions.delete(id);
     }
 
+    for (const [id, pending] of state.pendingExports) {
+      pending.reject(
+        new ConversionError(
+          ErrorCode.UNKNOWN_ERROR,
+          'Worker terminated',
+          {},
+          false,
+        ),
+      );
+      state.pendingExports.delete(id);
+    }
+
     state.worker.terminate();
     state.worker = null;
     state.ready = false;
@@ -335,6 +414,7 @@ export function createWorkerManager() {
   return {
     initialize,
     convert,
+    exportApkg,
     cancel,
     cleanup,
     terminate,
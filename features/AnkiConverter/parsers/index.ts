@@ -16,6 +16,7 @@ export type { APKGExtractionResult } from './apkgParser';
 // SQLite Parser (task 6)
 export {
   parseSQLite,
+  getSqlJs,
   openDatabase,
   detectSchemaVersion,
   extractNotes,
@@ -103,9 +103,9 @@ function isBrowser(): boolean {
 }
 
 /**
- * Initialize sql.js (cached)
+ * Initialize sql.js (cached). Shared with the .apkg writer.
  */
-async function getSqlJs(): Promise<SqlJsStatic> {
+export async function getSqlJs(): Promise<SqlJsStatic> {
   if (!sqlPromise) {
     sqlPromise = (async () => {
       try {
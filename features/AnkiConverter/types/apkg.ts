@@ -0,0 +1,52 @@
+/**
+ * APKG Export Types
+ *
+ * Types for writing Anki packages (the reverse direction of the converter).
+ */
+
+/**
+ * A note type (model) in the exported collection.
+ * The first field is the sort field and the front of the card.
+ */
+export interface ApkgNoteType {
+  name: string;
+  fields: string[];
+  /** Cloze note types generate one card per {{cN::...}} deletion */
+  cloze?: boolean;
+}
+
+/**
+ * Review state carried over into the exported card
+ */
+export interface ApkgSchedule {
+  /** Interval in days; cards under one day are exported as new */
+  interval: number;
+  /** Ease factor (2.5 = Anki's 250%) */
+  ease: number;
+  reps: number;
+  lapses: number;
+  /** Timestamp (ms) when the card is next due */
+  dueAt: number;
+}
+
+/**
+ * A note to write. `fields` follows the order of its note type's fields.
+ */
+export interface ApkgNote {
+  /** Deck name, using :: for nesting (e.g. "KanaDojo::N5") */
+  deck: string;
+  noteType: string;
+  fields: string[];
+  tags: string[];
+  schedule?: ApkgSchedule;
+}
+
+/**
+ * Everything needed to build an .apkg file
+ */
+export interface ApkgPackage {
+  noteTypes: ApkgNoteType[];
+  notes: ApkgNote[];
+  /** Media files by filename, listed in the package's media manifest */
+  media?: Record<string, Uint8Array>;
+}
@@ -15,6 +15,7 @@ export enum ErrorCode {
   EXTRACTION_ERROR = 'EXTRACTION_ERROR',
   OUT_OF_MEMORY = 'OUT_OF_MEMORY',
   FILE_TOO_LARGE = 'FILE_TOO_LARGE',
+  EXPORT_ERROR = 'EXPORT_ERROR',
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
 }
 
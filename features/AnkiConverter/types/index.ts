@@ -8,4 +8,5 @@
 export * from './anki';
 export * from './conversion';
 export * from './output';
+export * from './apkg';
 export * from './errors';
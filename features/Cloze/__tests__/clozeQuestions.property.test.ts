@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { buildClozeQuestions, getClozeQuestions } from '../lib/clozeData';
+import {
+  checkClozeAnswer,
+  fillCloze,
+  getClozeOptions,
+  getKanaReading,
+} from '../lib/clozeAnswers';
+import type { ClozeWordEntry } from '../types';
+
+const questions = getClozeQuestions();
+
+describe('Cloze Questions', () => {
+  /**
+   * **Feature: cloze-dojo, Property 1: Every Question Is Answerable**
+   * For any question built from the dataset, the sentence has exactly one
+   * blank, the options contain the answer, and filling the blank with the
+   * answer reproduces the full sentence.
+   */
+  describe('Property 1: Every Question Is Answerable', () => {
+    it('builds questions from the bundled dataset', () => {
+      expect(questions.length).toBeGreaterThan(0);
+    });
+
+    it('has one blank, a correct option and a consistent full sentence', () => {
+      fc.assert(
+        fc.property(fc.constantFrom(...questions), question => {
+          expect(question.fragments.filter(f => f === '_')).toHaveLength(1);
+          expect(question.options).toContain(question.correctAnswer);
+          expect(fillCloze(question.fragments, question.correctAnswer)).toBe(
+            question.japaneseFull,
+          );
+        }),
+        { numRuns: 100 },
+      );
+    });
+
+    it('skips sentences without exactly one blank or a valid answer', () => {
+      const entry: ClozeWordEntry = {
+        word: '雨',
+        reading: 'ame あめ',
+        displayMeanings: ['rain'],
+        meanings: ['rain'],
+        sentences: [
+          {
+            japaneseFull: '雨です。',
+            japaneseCloze: ['雨です。'],
+            englishFull: 'It is rain.',
+            options: ['雨'],
+            correctAnswer: '雨',
+          },
+          {
+            japaneseFull: '雨です。',
+            japaneseCloze: ['_', 'です。'],
+            englishFull: 'It is rain.',
+            options: ['雪', '風'],
+            correctAnswer: '雨',
+          },
+        ],
+      };
+      expect(buildClozeQuestions([entry])).toEqual([]);
+    });
+  });
+
+  /**
+   * **Feature: cloze-dojo, Property 2: Options Are Unique And Complete**
+   * For any question and option count, options start with the correct
+   * answer, contain no duplicates and never exceed the requested count.
+   */
+  describe('Property 2: Options Are Unique And Complete', () => {
+    it('returns distinct options led by the correct answer', () => {
+      fc.assert(
+        fc.property(
+          fc.constantFrom(...questions),
+          fc.integer({ min: 1, max: 8 }),
+          (question, count) => {
+            const options = getClozeOptions(question, questions, count);
+            expect(options[0]).toBe(question.correctAnswer);
+            expect(new Set(options).size).toBe(options.length);
+            expect(options.length).toBeLessThanOrEqual(count);
+          },
+        ),
+        { numRuns: 100 },
+      );
+    });
+  });
+
+  /**
+   * **Feature: cloze-dojo, Property 3: Typed Answers Accept Readings**
+   * For any question, the answer itself, its kana reading and its romaji
+   * reading are accepted, while other options are rejected.
+   */
+  describe('Property 3: Typed Answers Accept Readings', () => {
+    it('accepts the answer in kanji, kana or romaji', () => {
+      fc.assert(
+        fc.property(fc.constantFrom(...questions), question => {
+          const [romaji] = question.reading.split(' ');
+          expect(checkClozeAnswer(question, question.correctAnswer)).toBe(true);
+          expect(
+            checkClozeAnswer(question, ` ${getKanaReading(question.reading)} `),
+          ).toBe(true);
+          expect(checkClozeAnswer(question, romaji.toUpperCase())).toBe(true);
+        }),
+        { numRuns: 100 },
+      );
+    });
+
+    it('rejects wrong options and empty input', () => {
+      fc.assert(
+        fc.property(fc.constantFrom(...questions), question => {
+          question.options
+            .filter(option => option !== question.correctAnswer)
+            .forEach(option => {
+              expect(checkClozeAnswer(question, option)).toBe(false);
+            });
+          expect(checkClozeAnswer(question, '   ')).toBe(false);
+        }),
+        { numRuns: 100 },
+      );
+    });
+  });
+});
@@ -0,0 +1,71 @@
+'use client';
+
+import React from 'react';
+import { useStatsStore } from '@/features/Progress';
+import Blitz, { type BlitzConfig } from '@/shared/components/Blitz';
+import { pickOne } from '@/shared/lib/shuffle';
+import useClozeStore from '@/features/Cloze/store/useClozeStore';
+import { getClozeQuestions } from '@/features/Cloze/lib/clozeData';
+import {
+  checkClozeAnswer,
+  getClozeOptions,
+} from '@/features/Cloze/lib/clozeAnswers';
+import ClozeSentence from './ClozeSentence';
+import type { IClozeQuestion } from '../types';
+
+export default function BlitzCloze() {
+  const selectedClozeSets = useClozeStore(state => state.selectedClozeSets);
+  const selectedGameModeCloze = useClozeStore(
+    state => state.selectedGameModeCloze,
+  );
+
+  const {
+    timedClozeCorrectAnswers,
+    timedClozeWrongAnswers,
+    timedClozeStreak,
+    timedClozeBestStreak,
+    incrementTimedClozeCorrectAnswers,
+    incrementTimedClozeWrongAnswers,
+    resetTimedClozeStats,
+  } = useStatsStore();
+
+  const questions = React.useMemo(
+    () => getClozeQuestions(selectedClozeSets),
+    [selectedClozeSets],
+  );
+
+  const config: BlitzConfig<IClozeQuestion> = {
+    dojoType: 'cloze',
+    dojoLabel: 'Cloze',
+    localStorageKey: 'blitzClozeDuration',
+    goalTimerContext: 'Cloze Blitz',
+    initialGameMode: selectedGameModeCloze,
+    items: questions,
+    selectedSets: selectedClozeSets,
+    generateQuestion: items => pickOne(items)!,
+    renderQuestion: question => (
+      <ClozeSentence
+        fragments={question.fragments}
+        className='text-3xl md:text-4xl'
+      />
+    ),
+    inputPlaceholder: 'Type the missing word...',
+    modeDescription: 'Mode: Type (See sentence → Type the missing word)',
+    checkAnswer: (question, answer) => checkClozeAnswer(question, answer),
+    getCorrectAnswer: question => question.correctAnswer,
+    generateOptions: (question, items, count) =>
+      getClozeOptions(question, items, count),
+    getCorrectOption: question => question.correctAnswer,
+    stats: {
+      correct: timedClozeCorrectAnswers,
+      wrong: timedClozeWrongAnswers,
+      streak: timedClozeStreak,
+      bestStreak: timedClozeBestStreak,
+      incrementCorrect: incrementTimedClozeCorrectAnswers,
+      incrementWrong: incrementTimedClozeWrongAnswers,
+      reset: resetTimedClozeStats,
+    },
+  };
+
+  return <Blitz config={config} />;
+}
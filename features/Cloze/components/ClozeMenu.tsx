@@ -0,0 +1,162 @@
+'use client';
+
+import { useMemo } from 'react';
+import clsx from 'clsx';
+import { Keyboard, MousePointerClick, Play, Swords, Zap } from 'lucide-react';
+import { Link } from '@/core/i18n/routing';
+import { useClick } from '@/shared/hooks/useAudio';
+import useClozeStore from '../store/useClozeStore';
+import { CLOZE_SETS, getClozeQuestions } from '../lib/clozeData';
+import ClozeSentence from './ClozeSentence';
+import type { ClozeGameMode } from '../types';
+
+const GAME_MODES: {
+  mode: ClozeGameMode;
+  label: string;
+  description: string;
+  Icon: typeof Keyboard;
+}[] = [
+  {
+    mode: 'Pick',
+    label: 'Pick',
+    description: 'Choose the word that completes the sentence',
+    Icon: MousePointerClick,
+  },
+  {
+    mode: 'Type',
+    label: 'Type',
+    description: 'Type the missing word (kana or romaji accepted)',
+    Icon: Keyboard,
+  },
+];
+
+const ACTIONS = [
+  { href: '/cloze/train', label: 'Train', Icon: Play },
+  { href: '/cloze/blitz', label: 'Blitz', Icon: Zap },
+  { href: '/cloze/gauntlet', label: 'Gauntlet', Icon: Swords },
+];
+
+/**
+ * Cloze dojo menu: pick sentence sets and a game mode, then start
+ * a classic, Blitz or Gauntlet session.
+ */
+export default function ClozeMenu() {
+  const { playClick } = useClick();
+  const gameMode = useClozeStore(state => state.selectedGameModeCloze);
+  const setGameMode = useClozeStore(state => state.setSelectedGameModeCloze);
+  const selectedSets = useClozeStore(state => state.selectedClozeSets);
+  const toggleSet = useClozeStore(state => state.toggleClozeSet);
+
+  const questions = useMemo(
+    () => getClozeQuestions(selectedSets),
+    [selectedSets],
+  );
+  const example = questions[0];
+  const canStart = questions.length > 0;
+
+  return (
+    <div className='flex flex-col gap-6'>
+      <div className='flex flex-col gap-2 rounded-2xl border-2 border-(--border-color) bg-(--card-color) p-4'>
+        <h1 className='text-2xl font-bold text-(--main-color)'>Cloze Dojo</h1>
+        <p className='text-(--secondary-color)'>
+          Practice words in context: fill the blank in each sentence with the
+          word that fits.
+        </p>
+        {example && (
+          <ClozeSentence
+            fragments={example.fragments}
+            filledAnswer={example.correctAnswer}
+            className='text-xl text-(--secondary-color)'
+          />
+        )}
+      </div>
+
+      <div className='flex flex-col gap-3'>
+        <h2 className='text-lg font-semibold text-(--secondary-color)'>
+          Sentence Sets
+        </h2>
+        <div className='flex flex-wrap gap-2'>
+          {Object.keys(CLOZE_SETS).map(set => (
+            <button
+              key={set}
+              type='button'
+              onClick={() => {
+                playClick();
+                toggleSet(set);
+              }}
+              className={clsx(
+                'rounded-xl border-2 px-4 py-2 transition-colors duration-200 hover:cursor-pointer',
+                selectedSets.includes(set)
+                  ? 'border-(--main-color) text-(--main-color)'
+                  : 'border-(--border-color) text-(--secondary-color)',
+              )}
+            >
+              {set}
+            </button>
+          ))}
+        </div>
+        <p className='text-sm text-(--muted-color)'>
+          {questions.length} sentences selected
+        </p>
+      </div>
+
+      <div className='flex flex-col gap-3'>
+        <h2 className='text-lg font-semibold text-(--secondary-color)'>
+          Game Mode
+        </h2>
+        <div className='flex flex-col gap-3 sm:flex-row'>
+          {GAME_MODES.map(({ mode, label, description, Icon }) => (
+            <button
+              key={mode}
+              type='button'
+              onClick={() => {
+                playClick();
+                setGameMode(mode);
+              }}
+              className={clsx(
+                'flex flex-1 flex-row items-center gap-3 rounded-2xl border-2 p-4 text-left',
+                'transition-colors duration-200 hover:cursor-pointer',
+                gameMode === mode
+                  ? 'border-(--main-color) text-(--main-color)'
+                  : 'border-(--border-color) text-(--secondary-color)',
+              )}
+            >
+              <Icon size={24} />
+              <span className='flex flex-col'>
+                <span className='font-semibold'>{label}</span>
+                <span className='text-sm text-(--muted-color)'>
+                  {description}
+                </span>
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className='flex flex-col gap-3 sm:flex-row'>
+        {ACTIONS.map(({ href, label, Icon }) => (
+          <Link
+            key={href}
+            href={href}
+            className={clsx('flex-1', !canStart && 'pointer-events-none')}
+            aria-disabled={!canStart}
+            onClick={() => playClick()}
+          >
+            <span
+              className={clsx(
+                'flex h-12 w-full flex-row items-center justify-center gap-2 px-6',
+                'bg-(--main-color) text-(--background-color)',
+                'rounded-2xl transition-colors duration-200',
+                'border-b-6 border-(--main-color-accent) shadow-sm',
+                !canStart && 'opacity-50',
+              )}
+            >
+              <Icon size={20} />
+              {label}
+            </span>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+import clsx from 'clsx';
+import FuriganaText from '@/shared/components/text/FuriganaText';
+import { CLOZE_BLANK } from '../lib/clozeData';
+
+interface ClozeSentenceProps {
+  fragments: string[];
+  // Shown in the blank once answered; leave undefined to show the gap
+  filledAnswer?: string;
+  className?: string;
+}
+
+/**
+ * Renders a cloze sentence with its blank as an underlined gap. The
+ * sentences have no stored readings, so furigana are looked up on the
+ * device.
+ */
+const ClozeSentence = ({
+  fragments,
+  filledAnswer,
+  className,
+}: ClozeSentenceProps) => {
+  return (
+    <span lang='ja' className={clsx('text-center leading-relaxed', className)}>
+      {fragments.map((fragment, i) =>
+        fragment === CLOZE_BLANK ? (
+          <span
+            key={i}
+            className={clsx(
+              'mx-1 inline-block min-w-[2.5em] border-b-4 px-1',
+              filledAnswer
+                ? 'border-(--main-color) text-(--main-color)'
+                : 'border-(--secondary-color)/60 text-transparent',
+            )}
+          >
+            {filledAnswer ?? '＿'}
+          </span>
+        ) : (
+          <FuriganaText key={i} text={fragment} autoReading />
+        ),
+      )}
+    </span>
+  );
+};
+
+export default ClozeSentence;
@@ -0,0 +1,214 @@
+'use client';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import clsx from 'clsx';
+import { motion } from 'framer-motion';
+import { useStopwatch } from 'react-timer-hook';
+import { useClick, useCorrect, useError } from '@/shared/hooks/useAudio';
+import { pickOne } from '@/shared/lib/shuffle';
+import { useGameStats, useStatsDisplay } from '@/features/Progress';
+import Stars from '@/shared/components/Game/Stars';
+import { GameBottomBar } from '@/shared/components/Game/GameBottomBar';
+import { useCrazyModeTrigger } from '@/features/CrazyMode/hooks/useCrazyModeTrigger';
+import ClozeSentence from '../ClozeSentence';
+import { checkClozeAnswer } from '../../lib/clozeAnswers';
+import type { IClozeQuestion } from '../../types';
+
+// Bottom bar states
+type BottomBarState = 'check' | 'correct' | 'wrong';
+
+// Pick a question, avoiding an immediate repeat when possible
+const pickNextQuestion = (
+  questions: IClozeQuestion[],
+  currentId?: string,
+): IClozeQuestion | undefined => {
+  const candidates = questions.filter(question => question.id !== currentId);
+  return pickOne(candidates.length > 0 ? candidates : questions);
+};
+
+interface ClozeInputGameProps {
+  questions: IClozeQuestion[];
+  isHidden: boolean;
+}
+
+const ClozeInputGame = ({ questions, isHidden }: ClozeInputGameProps) => {
+  const { score, setScore } = useStatsDisplay();
+  const gameStats = useGameStats();
+  const speedStopwatch = useStopwatch({ autoStart: false });
+
+  const { playClick } = useClick();
+  const { playCorrect } = useCorrect();
+  const { playErrorTwice } = useError();
+  const { trigger: triggerCrazyMode } = useCrazyModeTrigger();
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  const [question, setQuestion] = useState(() => pickNextQuestion(questions));
+  const [inputValue, setInputValue] = useState('');
+  const [bottomBarState, setBottomBarState] = useState<BottomBarState>('check');
+
+  const handleContinue = useCallback(() => {
+    playClick();
+    setInputValue('');
+    setQuestion(current => pickNextQuestion(questions, current?.id));
+    setBottomBarState('check');
+    speedStopwatch.reset();
+    speedStopwatch.start();
+  }, [playClick, questions, speedStopwatch]);
+
+  useEffect(() => {
+    if (inputRef.current && bottomBarState === 'check') {
+      inputRef.current.focus();
+    }
+  }, [bottomBarState]);
+
+  // Enter/Space moves on once the answer is correct
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const isContinueKey =
+        event.key === 'Enter' || event.code === 'Space' || event.key === ' ';
+      if (isContinueKey && bottomBarState === 'correct') {
+        event.preventDefault();
+        buttonRef.current?.click();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bottomBarState]);
+
+  useEffect(() => {
+    speedStopwatch.start();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (isHidden) speedStopwatch.pause();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isHidden]);
+
+  if (!question) {
+    return null;
+  }
+
+  const handleCorrectAnswer = () => {
+    speedStopwatch.pause();
+    const answerTimeMs = speedStopwatch.totalMilliseconds;
+    speedStopwatch.reset();
+
+    playCorrect();
+    gameStats.recordCorrect('cloze', question.word, {
+      gameMode: 'type',
+      timeTaken: answerTimeMs,
+    });
+    setScore(score + 1);
+    triggerCrazyMode();
+    setBottomBarState('correct');
+  };
+
+  const handleWrongAnswer = () => {
+    playErrorTwice();
+    gameStats.recordIncorrect(
+      'cloze',
+      question.word,
+      inputValue.trim(),
+      question.correctAnswer,
+      { gameMode: 'type' },
+    );
+    setInputValue('');
+    setScore(Math.max(0, score - 1));
+    triggerCrazyMode();
+    setBottomBarState('wrong');
+  };
+
+  const handleCheck = () => {
+    if (inputValue.trim().length === 0) return;
+    playClick();
+
+    if (checkClozeAnswer(question, inputValue)) {
+      handleCorrectAnswer();
+    } else {
+      handleWrongAnswer();
+    }
+  };
+
+  const showContinue = bottomBarState === 'correct';
+  const canCheck = inputValue.trim().length > 0 && !showContinue;
+
+  return (
+    <div
+      className={clsx(
+        'flex w-full flex-col items-center gap-10 sm:w-4/5',
+        isHidden ? 'hidden' : '',
+      )}
+    >
+      <div className='flex flex-col items-center gap-4'>
+        <span className='mb-2 text-sm text-(--secondary-color)'>
+          Type the missing word
+        </span>
+        <motion.div
+          initial={{ opacity: 0, y: -30, scale: 0.95 }}
+          animate={{ opacity: 1, y: 0, scale: 1 }}
+          transition={{
+            type: 'spring',
+            stiffness: 150,
+            damping: 20,
+            mass: 1,
+            duration: 0.5,
+          }}
+          key={question.id}
+        >
+          <ClozeSentence
+            fragments={question.fragments}
+            filledAnswer={showContinue ? question.correctAnswer : undefined}
+            className='text-3xl text-(--main-color) md:text-5xl'
+          />
+        </motion.div>
+        <span className='text-base text-(--secondary-color)/70'>
+          {question.englishFull}
+        </span>
+      </div>
+
+      <input
+        ref={inputRef}
+        type='text'
+        value={inputValue}
+        placeholder='Type the missing word...'
+        disabled={showContinue}
+        className={clsx(
+          'w-full max-w-xs sm:max-w-sm md:max-w-md',
+          'rounded-2xl border border-(--border-color) bg-(--card-color) px-5 py-4',
+          'text-center text-2xl font-medium',
+          'text-(--secondary-color) placeholder:text-base placeholder:font-normal placeholder:text-(--secondary-color)/40',
+          'focus:outline-none',
+          'transition-colors duration-200 ease-out',
+          showContinue && 'cursor-not-allowed opacity-60',
+        )}
+        onChange={e => setInputValue(e.target.value)}
+        onKeyDown={e => {
+          // Ignore Enter while an IME composition is being confirmed
+          if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+            e.preventDefault();
+            if (!showContinue) handleCheck();
+          }
+        }}
+        lang='ja'
+      />
+
+      <Stars />
+
+      <GameBottomBar
+        state={bottomBarState}
+        onAction={showContinue ? handleContinue : handleCheck}
+        canCheck={canCheck}
+        feedbackContent={question.correctAnswer}
+        buttonRef={buttonRef}
+        hideRetry
+      />
+
+      <div className='h-32' />
+    </div>
+  );
+};
+
+export default ClozeInputGame;
@@ -0,0 +1,243 @@
+'use client';
+import clsx from 'clsx';
+import { useState, useEffect, useRef, useMemo, memo } from 'react';
+import { CircleCheck, CircleX } from 'lucide-react';
+import { useStopwatch } from 'react-timer-hook';
+import { useCorrect, useError } from '@/shared/hooks/useAudio';
+import { buttonBorderStyles } from '@/shared/lib/styles';
+import { pickGameKeyMappings } from '@/shared/lib/keyMappings';
+import { pickOne, shuffle } from '@/shared/lib/shuffle';
+import { useGameStats, useStatsDisplay } from '@/features/Progress';
+import Stars from '@/shared/components/Game/Stars';
+import AnswerSummary from '@/shared/components/Game/AnswerSummary';
+import { useCrazyModeTrigger } from '@/features/CrazyMode/hooks/useCrazyModeTrigger';
+import ClozeSentence from '../ClozeSentence';
+import {
+  fillCloze,
+  getClozeOptions,
+  getKanaReading,
+} from '../../lib/clozeAnswers';
+import type { IClozeQuestion } from '../../types';
+
+const OPTION_COUNT = 4;
+
+interface OptionButtonProps {
+  option: string;
+  index: number;
+  isWrong: boolean;
+  onClick: (option: string) => void;
+  buttonRef?: (elem: HTMLButtonElement | null) => void;
+}
+
+const OptionButton = memo(
+  ({ option, index, isWrong, onClick, buttonRef }: OptionButtonProps) => {
+    return (
+      <button
+        ref={buttonRef}
+        type='button'
+        disabled={isWrong}
+        className={clsx(
+          'flex w-full flex-row items-center justify-start gap-1.5 rounded-xl py-5 pl-8 md:w-1/2',
+          buttonBorderStyles,
+          'active:scale-95 active:duration-200 md:active:scale-98',
+          'border-b-4 text-3xl',
+          isWrong &&
+            'border-(--border-color) text-(--border-color) hover:bg-(--card-color)',
+          !isWrong &&
+            'border-(--secondary-color)/50 text-(--secondary-color) hover:border-(--secondary-color)',
+        )}
+        onClick={() => onClick(option)}
+        lang='ja'
+      >
+        <span className='flex-1 text-left'>{option}</span>
+        <span
+          className={clsx(
+            'mr-4 hidden rounded-full bg-(--border-color) px-1 text-xs lg:inline',
+            isWrong ? 'text-(--border-color)' : 'text-(--secondary-color)',
+          )}
+        >
+          {index + 1}
+        </span>
+      </button>
+    );
+  },
+);
+
+OptionButton.displayName = 'OptionButton';
+
+// Pick a question, avoiding an immediate repeat when possible
+const pickNextQuestion = (
+  questions: IClozeQuestion[],
+  currentId?: string,
+): IClozeQuestion | undefined => {
+  const candidates = questions.filter(question => question.id !== currentId);
+  return pickOne(candidates.length > 0 ? candidates : questions);
+};
+
+interface ClozePickGameProps {
+  questions: IClozeQuestion[];
+  isHidden: boolean;
+}
+
+const ClozePickGame = ({ questions, isHidden }: ClozePickGameProps) => {
+  const { score, setScore } = useStatsDisplay();
+  const gameStats = useGameStats();
+  const speedStopwatch = useStopwatch({ autoStart: false });
+
+  const { playCorrect } = useCorrect();
+  const { playErrorTwice } = useError();
+  const { trigger: triggerCrazyMode } = useCrazyModeTrigger();
+
+  const [question, setQuestion] = useState(() => pickNextQuestion(questions));
+  const [answeredQuestion, setAnsweredQuestion] = useState(question);
+
+  const options = useMemo(
+    () =>
+      question
+        ? shuffle(getClozeOptions(question, questions, OPTION_COUNT))
+        : [],
+    [question, questions],
+  );
+
+  const [displayAnswerSummary, setDisplayAnswerSummary] = useState(false);
+  const [feedback, setFeedback] = useState(<>{'feedback ~'}</>);
+  const [wrongSelectedAnswers, setWrongSelectedAnswers] = useState<string[]>(
+    [],
+  );
+
+  const buttonRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const index = pickGameKeyMappings[event.code];
+      if (index !== undefined && index < options.length) {
+        buttonRefs.current[index]?.click();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [options.length]);
+
+  useEffect(() => {
+    if (isHidden) speedStopwatch.pause();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isHidden]);
+
+  useEffect(() => {
+    speedStopwatch.reset();
+    speedStopwatch.start();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [question?.id]);
+
+  if (!question) {
+    return null;
+  }
+
+  const handleCorrectAnswer = () => {
+    speedStopwatch.pause();
+    const answerTimeMs = speedStopwatch.totalMilliseconds;
+    playCorrect();
+    gameStats.recordCorrect('cloze', question.word, {
+      gameMode: 'pick',
+      timeTaken: answerTimeMs,
+    });
+    setScore(score + 1);
+    triggerCrazyMode();
+    setWrongSelectedAnswers([]);
+    setAnsweredQuestion(question);
+    setQuestion(pickNextQuestion(questions, question.id));
+  };
+
+  const handleWrongAnswer = (selectedOption: string) => {
+    setWrongSelectedAnswers([...wrongSelectedAnswers, selectedOption]);
+    playErrorTwice();
+    gameStats.recordIncorrect(
+      'cloze',
+      question.word,
+      selectedOption,
+      question.correctAnswer,
+      { gameMode: 'pick' },
+    );
+    setScore(Math.max(0, score - 1));
+    triggerCrazyMode();
+  };
+
+  const handleOptionClick = (selectedOption: string) => {
+    if (selectedOption === question.correctAnswer) {
+      setDisplayAnswerSummary(true);
+      handleCorrectAnswer();
+      setFeedback(
+        <>
+          <span className='text-(--secondary-color)'>{`${fillCloze(question.fragments, selectedOption)} `}</span>
+          <CircleCheck className='inline text-(--main-color)' />
+        </>,
+      );
+    } else {
+      handleWrongAnswer(selectedOption);
+      setFeedback(
+        <>
+          <span className='text-(--secondary-color)'>{`${fillCloze(question.fragments, selectedOption)} `}</span>
+          <CircleX className='inline text-(--main-color)' />
+        </>,
+      );
+    }
+  };
+
+  return (
+    <div
+      className={clsx(
+        'flex w-full flex-col items-center gap-6 sm:w-4/5 sm:gap-10',
+        isHidden ? 'hidden' : '',
+      )}
+    >
+      {displayAnswerSummary && answeredQuestion && (
+        <AnswerSummary
+          payload={{
+            word: answeredQuestion.word,
+            reading: getKanaReading(answeredQuestion.reading),
+            meanings: answeredQuestion.meanings,
+          }}
+          setDisplayAnswerSummary={setDisplayAnswerSummary}
+          feedback={feedback}
+        />
+      )}
+
+      {!displayAnswerSummary && (
+        <>
+          <div className='flex flex-col items-center gap-4'>
+            <span className='mb-2 text-sm text-(--secondary-color)'>
+              Fill in the blank
+            </span>
+            <ClozeSentence
+              fragments={question.fragments}
+              className='text-3xl text-(--main-color) md:text-5xl'
+            />
+            <span className='text-base text-(--secondary-color)/70'>
+              {question.englishFull}
+            </span>
+          </div>
+
+          <div className='flex w-full flex-col items-center gap-6'>
+            {options.map((option, i) => (
+              <OptionButton
+                key={`${question.id}-${option}`}
+                option={option}
+                index={i}
+                isWrong={wrongSelectedAnswers.includes(option)}
+                onClick={handleOptionClick}
+                buttonRef={elem => {
+                  buttonRefs.current[i] = elem;
+                }}
+              />
+            ))}
+          </div>
+
+          <Stars />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ClozePickGame;
@@ -0,0 +1,58 @@
+'use client';
+import { useEffect, useMemo } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import Return from '@/shared/components/Game/ReturnFromGame';
+import Stats from '@/shared/components/Game/Stats';
+import { useStatsStore } from '@/features/Progress';
+import useClozeStore from '../../store/useClozeStore';
+import { getClozeQuestions } from '../../lib/clozeData';
+import Pick from './Pick';
+import Input from './Input';
+
+const Game = () => {
+  const {
+    showStats,
+    resetStats,
+    recordDojoUsed,
+    recordModeUsed,
+    recordChallengeModeUsed,
+  } = useStatsStore(
+    useShallow(state => ({
+      showStats: state.showStats,
+      resetStats: state.resetStats,
+      recordDojoUsed: state.recordDojoUsed,
+      recordModeUsed: state.recordModeUsed,
+      recordChallengeModeUsed: state.recordChallengeModeUsed,
+    })),
+  );
+
+  const gameMode = useClozeStore(state => state.selectedGameModeCloze);
+  const selectedClozeSets = useClozeStore(state => state.selectedClozeSets);
+  const questions = useMemo(
+    () => getClozeQuestions(selectedClozeSets),
+    [selectedClozeSets],
+  );
+
+  useEffect(() => {
+    resetStats();
+    // Track dojo and mode usage for achievements
+    recordDojoUsed('cloze');
+    recordModeUsed(gameMode.toLowerCase());
+    recordChallengeModeUsed('classic');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <div className='flex min-h-[100dvh] max-w-[100dvw] flex-col items-center gap-4 px-4 md:gap-6'>
+      {showStats && <Stats />}
+      <Return isHidden={showStats} href='/cloze' gameMode={gameMode} />
+      {gameMode === 'Pick' ? (
+        <Pick questions={questions} isHidden={showStats} />
+      ) : (
+        <Input questions={questions} isHidden={showStats} />
+      )}
+    </div>
+  );
+};
+
+export default Game;
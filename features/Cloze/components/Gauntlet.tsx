@@ -0,0 +1,53 @@
+'use client';
+
+import React from 'react';
+import Gauntlet, { type GauntletConfig } from '@/shared/components/Gauntlet';
+import { pickOne } from '@/shared/lib/shuffle';
+import useClozeStore from '@/features/Cloze/store/useClozeStore';
+import { getClozeQuestions } from '@/features/Cloze/lib/clozeData';
+import {
+  checkClozeAnswer,
+  getClozeOptions,
+} from '@/features/Cloze/lib/clozeAnswers';
+import ClozeSentence from './ClozeSentence';
+import type { IClozeQuestion } from '../types';
+
+interface GauntletClozeProps {
+  onCancel?: () => void;
+}
+
+const GauntletCloze: React.FC<GauntletClozeProps> = ({ onCancel }) => {
+  const selectedClozeSets = useClozeStore(state => state.selectedClozeSets);
+  const selectedGameModeCloze = useClozeStore(
+    state => state.selectedGameModeCloze,
+  );
+
+  const questions = React.useMemo(
+    () => getClozeQuestions(selectedClozeSets),
+    [selectedClozeSets],
+  );
+
+  const config: GauntletConfig<IClozeQuestion> = {
+    dojoType: 'cloze',
+    dojoLabel: 'Cloze',
+    initialGameMode: selectedGameModeCloze,
+    items: questions,
+    selectedSets: selectedClozeSets,
+    generateQuestion: items => pickOne(items)!,
+    renderQuestion: question => (
+      <ClozeSentence
+        fragments={question.fragments}
+        className='text-3xl md:text-4xl'
+      />
+    ),
+    checkAnswer: (question, answer) => checkClozeAnswer(question, answer),
+    getCorrectAnswer: question => question.correctAnswer,
+    generateOptions: (question, items, count) =>
+      getClozeOptions(question, items, count),
+    getCorrectOption: question => question.correctAnswer,
+  };
+
+  return <Gauntlet config={config} onCancel={onCancel} />;
+};
+
+export default GauntletCloze;
@@ -0,0 +1,37 @@
+// ============================================================================
+// Cloze Feature - Public API
+// ============================================================================
+
+// Types
+export type {
+  ClozeSentence as ClozeSentenceData,
+  ClozeWordEntry,
+  IClozeQuestion,
+  ClozeGameMode,
+  DojoType,
+} from './types';
+
+// Data & answer checking
+export {
+  CLOZE_SETS,
+  buildClozeQuestions,
+  getClozeQuestions,
+} from './lib/clozeData';
+export {
+  checkClozeAnswer,
+  fillCloze,
+  getClozeOptions,
+  getKanaReading,
+} from './lib/clozeAnswers';
+
+// Components (page-level)
+export { default as ClozeMenu } from './components/ClozeMenu';
+export { default as ClozeGame } from './components/Game';
+export { default as ClozeBlitz } from './components/Blitz';
+export { default as ClozeGauntlet } from './components/Gauntlet';
+
+// ============================================================================
+// PRIVATE - DO NOT IMPORT DIRECTLY
+// ============================================================================
+// - store/useClozeStore.ts (internal)
+// - data/ (use getClozeQuestions instead)
@@ -0,0 +1,61 @@
+import { isKana, toHiragana } from 'wanakana';
+import { shuffle } from '@/shared/lib/shuffle';
+import type { IClozeQuestion } from '../types';
+import { CLOZE_BLANK } from './clozeData';
+
+/**
+ * Extract the kana reading from a dataset reading ("aka あか" → "あか")
+ */
+export const getKanaReading = (reading: string): string =>
+  reading.split(/\s+/).find(part => part.length > 0 && isKana(part)) ?? '';
+
+/**
+ * Check a typed answer. Besides the exact answer, the target word's reading
+ * is accepted as kana or romaji, since learners may not have an IME set up.
+ */
+export const checkClozeAnswer = (
+  question: IClozeQuestion,
+  answer: string,
+): boolean => {
+  const trimmed = answer.trim();
+  if (trimmed.length === 0) return false;
+  if (trimmed === question.correctAnswer) return true;
+
+  // Readings only describe the target word, not arbitrary answers
+  if (question.correctAnswer !== question.word) return false;
+  const kanaReading = getKanaReading(question.reading);
+  return (
+    kanaReading.length > 0 &&
+    toHiragana(trimmed.toLowerCase()) === toHiragana(kanaReading)
+  );
+};
+
+/**
+ * Rebuild the sentence with the blank filled in
+ */
+export const fillCloze = (fragments: string[], answer: string): string =>
+  fragments
+    .map(fragment => (fragment === CLOZE_BLANK ? answer : fragment))
+    .join('');
+
+/**
+ * Get up to `count` options for a question, correct answer first.
+ * Uses the sentence's own curated distractors before borrowing answers
+ * from other questions in the pool.
+ */
+export const getClozeOptions = (
+  question: IClozeQuestion,
+  pool: IClozeQuestion[],
+  count: number,
+): string[] => {
+  const options = [question.correctAnswer];
+  const candidates = [
+    ...shuffle(question.options),
+    ...shuffle(pool.map(item => item.correctAnswer)),
+  ];
+  for (const candidate of candidates) {
+    if (options.length >= count) break;
+    if (!options.includes(candidate)) options.push(candidate);
+  }
+  return options;
+};
@@ -0,0 +1,51 @@
+import type { ClozeWordEntry, IClozeQuestion } from '../types';
+import n5Nouns from '../data/n5/nouns.json';
+
+export const CLOZE_BLANK = '_';
+
+/**
+ * Available cloze sets, keyed by display label
+ */
+export const CLOZE_SETS: Record<string, ClozeWordEntry[]> = {
+  'N5 Nouns': n5Nouns as ClozeWordEntry[],
+};
+
+/**
+ * Flatten dataset entries into playable questions.
+ * Sentences without exactly one blank, or whose options don't include the
+ * correct answer, are skipped so games never show an unanswerable question.
+ */
+export const buildClozeQuestions = (
+  entries: ClozeWordEntry[],
+): IClozeQuestion[] =>
+  entries.flatMap(entry =>
+    entry.sentences.flatMap((sentence, index) => {
+      const blanks = sentence.japaneseCloze.filter(
+        fragment => fragment === CLOZE_BLANK,
+      ).length;
+      if (blanks !== 1 || !sentence.options.includes(sentence.correctAnswer)) {
+        return [];
+      }
+      return [
+        {
+          id: `${entry.word}-${index}`,
+          word: entry.word,
+          reading: entry.reading,
+          meanings: entry.displayMeanings,
+          fragments: sentence.japaneseCloze,
+          japaneseFull: sentence.japaneseFull,
+          englishFull: sentence.englishFull,
+          options: [...new Set(sentence.options)],
+          correctAnswer: sentence.correctAnswer,
+        },
+      ];
+    }),
+  );
+
+/**
+ * Get every question for the given sets (all sets when none are given)
+ */
+export const getClozeQuestions = (
+  sets: string[] = Object.keys(CLOZE_SETS),
+): IClozeQuestion[] =>
+  buildClozeQuestions(sets.flatMap(set => CLOZE_SETS[set] ?? []));
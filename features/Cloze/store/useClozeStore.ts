@@ -0,0 +1,28 @@
+import { create } from 'zustand';
+import type { ClozeGameMode } from '../types';
+import { CLOZE_SETS } from '../lib/clozeData';
+
+interface IClozeState {
+  selectedGameModeCloze: ClozeGameMode;
+  setSelectedGameModeCloze: (mode: ClozeGameMode) => void;
+
+  selectedClozeSets: string[];
+  toggleClozeSet: (set: string) => void;
+}
+
+const useClozeStore = create<IClozeState>(set => ({
+  selectedGameModeCloze: 'Pick',
+  setSelectedGameModeCloze: gameMode =>
+    set({ selectedGameModeCloze: gameMode }),
+
+  // Every set starts selected; the dataset is small enough to play as a whole
+  selectedClozeSets: Object.keys(CLOZE_SETS),
+  toggleClozeSet: clozeSet =>
+    set(state => ({
+      selectedClozeSets: state.selectedClozeSets.includes(clozeSet)
+        ? state.selectedClozeSets.filter(current => current !== clozeSet)
+        : [...state.selectedClozeSets, clozeSet],
+    })),
+}));
+
+export default useClozeStore;
@@ -0,0 +1,46 @@
+// ============================================================================
+// Cloze Feature - Types
+// ============================================================================
+
+/**
+ * A single sentence from the cloze dataset. `japaneseCloze` holds the
+ * sentence split into fragments, with `_` marking the blank.
+ */
+export interface ClozeSentence {
+  japaneseFull: string;
+  japaneseCloze: string[];
+  englishFull: string;
+  options: string[];
+  correctAnswer: string;
+}
+
+/**
+ * A dataset entry: one target word with its example sentences.
+ * `reading` is stored as "romaji kana" (e.g. "aka あか").
+ */
+export interface ClozeWordEntry {
+  word: string;
+  reading: string;
+  displayMeanings: string[];
+  meanings: string[];
+  sentences: ClozeSentence[];
+}
+
+/**
+ * A playable cloze question - one sentence flattened with its target word
+ */
+export interface IClozeQuestion {
+  id: string;
+  word: string;
+  reading: string;
+  meanings: string[];
+  fragments: string[];
+  japaneseFull: string;
+  englishFull: string;
+  options: string[];
+  correctAnswer: string;
+}
+
+export type ClozeGameMode = 'Pick' | 'Type';
+
+export type { DojoType } from '@/shared/types/dojo';
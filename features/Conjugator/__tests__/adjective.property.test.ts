@@ -0,0 +1,266 @@
+/**
+ * Property-Based Tests for Adjective Conjugation
+ *
+ * い- and な-adjectives are classified by the same engine as verbs and
+ * conjugate into the adjective forms, grouped under the existing
+ * conjugation categories. いい and its compounds conjugate from よい.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { conjugate, conjugateOrThrow } from '../lib/engine/conjugate';
+import { classifyVerb } from '../lib/engine/classifyVerb';
+import { ADJECTIVE_FORMS, getFormById } from '../data/conjugationForms';
+import { ALL_CONJUGATION_CATEGORIES } from '../types';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+/**
+ * Sample い-adjectives for testing
+ */
+const I_ADJECTIVES = [
+  '高い', // takai - tall, expensive
+  'たかい',
+  '安い', // yasui - cheap
+  '新しい', // atarashii - new
+  '美味しい', // oishii - delicious
+  'さむい', // samui - cold
+  '楽しい', // tanoshii - fun
+  'かわいい', // kawaii - cute (regular despite ending in いい)
+];
+
+/**
+ * Sample な-adjectives for testing (without な)
+ */
+const NA_ADJECTIVES = [
+  '静か', // shizuka - quiet
+  'しずか',
+  '元気', // genki - healthy
+  '有名', // yuumei - famous
+  '便利', // benri - convenient
+  '好き', // suki - liked
+  'きれい', // kirei - pretty (ends in い)
+  '嫌い', // kirai - disliked (ends in い)
+];
+
+/**
+ * いい and its compounds, with their よ stems
+ */
+const II_ADJECTIVES: [string, string][] = [
+  ['いい', 'よ'],
+  ['かっこいい', 'かっこよ'],
+  ['頭がいい', '頭がよ'],
+];
+
+const ALL_ADJECTIVES = [
+  ...I_ADJECTIVES,
+  ...NA_ADJECTIVES,
+  ...II_ADJECTIVES.map(([word]) => word),
+];
+
+const formsOf = (word: string) =>
+  Object.fromEntries(
+    conjugateOrThrow(word).forms.map(form => [form.id, form.kanji]),
+  );
+
+// ============================================================================
+// Property 1: Adjective Classification
+// ============================================================================
+
+describe('Adjective Classification Properties', () => {
+  /**
+   * **Property 1: Adjective Classification**
+   *
+   * Words ending in い are い-adjectives unless they are known な-adjectives,
+   * and a trailing な marks any word but a pre-noun one (大きな) as a
+   * な-adjective.
+   */
+  describe('Property 1: Adjective Classification', () => {
+    it('classifies い-adjectives with the final い as the ending', () => {
+      fc.assert(
+        fc.property(fc.constantFrom(...I_ADJECTIVES), word => {
+          const info = classifyVerb(word);
+          expect(info.type).toBe('i-adjective');
+          expect(info.stem + info.ending).toBe(word);
+          expect(info.irregularType).toBeUndefined();
+        }),
+        { numRuns: 50 },
+      );
+    });
+
+    it('classifies な-adjectives with or without な', () => {
+      fc.assert(
+        fc.property(
+          fc.constantFrom(...NA_ADJECTIVES),
+          fc.boolean(),
+          (word, withNa) => {
+            const info = classifyVerb(withNa ? `${word}な` : word);
+            expect(info.type).toBe('na-adjective');
+            expect(info.dictionaryForm).toBe(word);
+            expect(info.stem).toBe(word);
+          },
+        ),
+        { numRuns: 50 },
+      );
+      expect(classifyVerb('穏やかな').stem).toBe('穏やか');
+    });
+
+    it('does not read pre-noun words ending in な as な-adjectives', () => {
+      fc.assert(
+        fc.property(
+          fc.constantFrom('大きな', '小さな', 'おかしな', 'いろんな'),
+          word => {
+            const result = conjugate(word);
+            expect(result.success).toBe(false);
+          },
+        ),
+        { numRuns: 20 },
+      );
+    });
+
+    it('marks いい and its compounds as irregular with a よ stem', () => {
+      for (const [word, stem] of II_ADJECTIVES) {
+        const info = classifyVerb(word);
+        expect(info.type).toBe('i-adjective');
+        expect(info.irregularType).toBe('ii');
+        expect(info.stem).toBe(stem);
+      }
+    });
+
+    it('still classifies verbs as verbs', () => {
+      expect(classifyVerb('書く').type).toBe('godan');
+      expect(classifyVerb('食べる').type).toBe('ichidan');
+      expect(classifyVerb('する').type).toBe('irregular');
+      // A known な-adjective that ends in a Godan ending
+      expect(classifyVerb('憂鬱').type).toBe('na-adjective');
+    });
+  });
+});
+
+// ============================================================================
+// Property 2: Adjective Conjugation Completeness
+// ============================================================================
+
+describe('Adjective Conjugation Completeness Properties', () => {
+  /**
+   * **Property 2: Adjective Conjugation Completeness**
+   *
+   * Every adjective yields every adjective form exactly once, each in one
+   * of the existing conjugation categories.
+   */
+  describe('Property 2: Adjective Conjugation Completeness', () => {
+    it('produces every adjective form once', () => {
+      fc.assert(
+        fc.property(fc.constantFrom(...ALL_ADJECTIVES), word => {
+          const result = conjugate(word);
+          expect(result.success).toBe(true);
+          if (!result.success) return;
+
+          const ids = result.result.forms.map(form => form.id);
+          expect(new Set(ids).size).toBe(ids.length);
+          expect(ids.sort()).toEqual(ADJECTIVE_FORMS.map(f => f.id).sort());
+
+          for (const form of result.result.forms) {
+            expect(ALL_CONJUGATION_CATEGORIES).toContain(form.category);
+            expect(form.kanji.length).toBeGreaterThan(0);
+          }
+        }),
+        { numRuns: 100 },
+      );
+    });
+
+    it('resolves adjective form ids alongside verb form ids', () => {
+      for (const form of ADJECTIVE_FORMS) {
+        expect(getFormById(form.id)).toEqual(form);
+      }
+    });
+  });
+});
+
+// ============================================================================
+// Property 3: Adjective Conjugation Rules
+// ============================================================================
+
+describe('Adjective Conjugation Rule Properties', () => {
+  /**
+   * **Property 3: い-Adjective Rules**
+   *
+   * い-adjective forms are the stem plus a fixed suffix; only the present,
+   * polite and なら forms keep the full word.
+   */
+  describe('Property 3: い-Adjective Rules', () => {
+    it('builds each form from the stem', () => {
+      fc.assert(
+        fc.property(fc.constantFrom(...I_ADJECTIVES), word => {
+          const stem = word.slice(0, -1);
+          const forms = formsOf(word);
+          expect(forms['adjective-attributive']).toBe(word);
+          expect(forms['adjective-polite']).toBe(`${word}です`);
+          expect(forms['adjective-negative']).toBe(`${stem}くない`);
+          expect(forms['adjective-past']).toBe(`${stem}かった`);
+          expect(forms['adjective-past-negative']).toBe(`${stem}くなかった`);
+          expect(forms['te']).toBe(`${stem}くて`);
+          expect(forms['adjective-adverbial']).toBe(`${stem}く`);
+          expect(forms['adjective-nominal']).toBe(`${stem}さ`);
+          expect(forms['conditional-ba']).toBe(`${stem}ければ`);
+          expect(forms['conditional-tara']).toBe(`${stem}かったら`);
+        }),
+        { numRuns: 50 },
+      );
+    });
+
+    it('conjugates the いい family from よ', () => {
+      fc.assert(
+        fc.property(fc.constantFrom(...II_ADJECTIVES), ([word, stem]) => {
+          const forms = formsOf(word);
+          expect(forms['adjective-present']).toBe(word);
+          expect(forms['adjective-negative']).toBe(`${stem}くない`);
+          expect(forms['adjective-past']).toBe(`${stem}かった`);
+          expect(forms['te']).toBe(`${stem}くて`);
+          expect(forms['adjective-adverbial']).toBe(`${stem}く`);
+          expect(forms['conditional-ba']).toBe(`${stem}ければ`);
+        }),
+        { numRuns: 20 },
+      );
+      expect(formsOf('いい')['adjective-nominal']).toBe('よさ');
+      expect(formsOf('かわいい')['adjective-negative']).toBe('かわいくない');
+    });
+  });
+
+  /**
+   * **Property 4: な-Adjective Rules**
+   *
+   * な-adjective forms are the stem followed by the copula.
+   */
+  describe('Property 4: な-Adjective Rules', () => {
+    it('builds each form from the stem and the copula', () => {
+      fc.assert(
+        fc.property(fc.constantFrom(...NA_ADJECTIVES), word => {
+          const forms = formsOf(word);
+          expect(forms['dictionary']).toBe(word);
+          expect(forms['adjective-present']).toBe(`${word}だ`);
+          expect(forms['adjective-attributive']).toBe(`${word}な`);
+          expect(forms['adjective-negative']).toBe(`${word}ではない`);
+          expect(forms['adjective-past']).toBe(`${word}だった`);
+          expect(forms['te']).toBe(`${word}で`);
+          expect(forms['adjective-adverbial']).toBe(`${word}に`);
+          expect(forms['adjective-nominal']).toBe(`${word}さ`);
+          expect(forms['conditional-tara']).toBe(`${word}だったら`);
+          expect(forms['conditional-nara']).toBe(`${word}なら`);
+        }),
+        { numRuns: 50 },
+      );
+    });
+
+    it('conjugates the same with or without a trailing な', () => {
+      fc.assert(
+        fc.property(fc.constantFrom(...NA_ADJECTIVES), word => {
+          expect(formsOf(`${word}な`)).toEqual(formsOf(word));
+        }),
+        { numRuns: 50 },
+      );
+    });
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Property-Based Tests for Deconjugation
+ *
+ * Deconjugating any conjugated form of a verb finds the verb again, with
+ * the chain of forms that produced it. Dictionary forms are not treated as
+ * inflected.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { classifyVerb } from '../lib/engine/classifyVerb';
+import { conjugateVerbInfo } from '../lib/engine/conjugate';
+import { deconjugate, isInflectedVerb } from '../lib/engine/deconjugate';
+import { DRILL_VERBS } from '../data/verbData';
+import type { DeconjugationStep } from '../types';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+/**
+ * Conjugation form IDs and the deconjugation chain each one is built from
+ */
+const FORM_CHAINS: Record<string, DeconjugationStep[]> = {
+  te: ['te'],
+  masu: ['polite'],
+  masen: ['polite', 'negative'],
+  mashita: ['polite', 'past'],
+  'masen-deshita': ['polite', 'negative', 'past'],
+  nai: ['negative'],
+  nakatta: ['negative', 'past'],
+  ta: ['past'],
+  'volitional-plain': ['volitional'],
+  'potential-plain': ['potential'],
+  'potential-negative': ['potential', 'negative'],
+  'passive-plain': ['passive'],
+  'causative-plain': ['causative'],
+  'causative-passive-plain': ['causative', 'passive'],
+  'imperative-plain': ['imperative'],
+  'conditional-ba': ['conditional-ba'],
+  'conditional-tara': ['conditional-tara'],
+  tai: ['desire'],
+  takunai: ['desire', 'negative'],
+  'progressive-present': ['te', 'progressive'],
+};
+
+/**
+ * Adjective form IDs and the deconjugation chain each one is built from
+ */
+const ADJECTIVE_FORM_CHAINS: Record<string, DeconjugationStep[]> = {
+  te: ['te'],
+  'adjective-negative': ['negative'],
+  'adjective-past': ['past'],
+  'adjective-past-negative': ['negative', 'past'],
+  'adjective-polite-negative': ['polite', 'negative'],
+  'adjective-polite-past': ['polite', 'past'],
+  'adjective-polite-past-negative': ['polite', 'negative', 'past'],
+  'conditional-ba': ['conditional-ba'],
+  'conditional-tara': ['conditional-tara'],
+};
+
+/**
+ * Sample adjectives; な-adjectives are the known ones, since any noun takes
+ * the copula
+ */
+const ADJECTIVES = [
+  '高い',
+  '新しい',
+  'さむい',
+  '大きい',
+  '静か',
+  'きれい',
+  '元気',
+];
+
+/**
+ * ある's potential (ありえる) is a separate verb, not a suffix
+ */
+const isSuppletive = (verb: string, formId: string) =>
+  verb === 'ある' && formId.startsWith('potential');
+
+const findsVerb = (
+  input: string,
+  dictionaryForm: string,
+  chain: DeconjugationStep[],
+) =>
+  deconjugate(input).some(
+    result =>
+      result.verb.dictionaryForm === dictionaryForm &&
+      result.chain.join() === chain.join(),
+  );
+
+// ============================================================================
+// Property 1: Round Trip
+// ============================================================================
+
+describe('Deconjugation Round Trip Properties', () => {
+  /**
+   * **Property 1: Round Trip**
+   *
+   * For every drill verb and every supported form, deconjugating the
+   * conjugated form (in kanji and in kana) finds the dictionary form with
+   * the chain of forms applied.
+   */
+  describe('Property 1: Round Trip', () => {
+    it('finds the dictionary form and chain of every conjugated form', () => {
+      fc.assert(
+        fc.property(fc.constantFrom(...DRILL_VERBS), drillVerb => {
+          const verb = classifyVerb(drillVerb.dictionaryForm);
+          for (const form of conjugateVerbInfo(verb)) {
+            const chain = FORM_CHAINS[form.id];
+            if (!chain || isSuppletive(verb.dictionaryForm, form.id)) continue;
+
+            expect(findsVerb(form.kanji, verb.dictionaryForm, chain)).toBe(
+              true,
+            );
+            expect(
+              findsVerb(form.hiragana, verb.dictionaryForm, chain) ||
+                findsVerb(form.hiragana, drillVerb.reading, chain),
+            ).toBe(true);
+            expect(isInflectedVerb(form.kanji)).toBe(true);
+          }
+        }),
+        { numRuns: 100 },
+      );
+    });
+
+    it('does not treat dictionary forms as inflected', () => {
+      fc.assert(
+        fc.property(fc.constantFrom(...DRILL_VERBS), drillVerb => {
+          expect(isInflectedVerb(drillVerb.dictionaryForm)).toBe(false);
+          expect(deconjugate(drillVerb.dictionaryForm)).toEqual([]);
+        }),
+        { numRuns: 50 },
+      );
+      expect(deconjugate('高い')).toEqual([]);
+      expect(deconjugate('hello')).toEqual([]);
+    });
+  });
+});
+
+// ============================================================================
+// Property 2: Chains and Irregular Verbs
+// ============================================================================
+
+describe('Deconjugation Chain Properties', () => {
+  /**
+   * **Property 2: Chains and Irregular Verbs**
+   *
+   * Long chains are unwound in order, and the irregular verbs (する, 来る,
+   * 行く, ある and the honorific verbs) are found from their irregular forms.
+   */
+  describe('Property 2: Chains and Irregular Verbs', () => {
+    it('unwinds a causative-passive negative past', () => {
+      const [best] = deconjugate('食べさせられなかった');
+      expect(best.verb.dictionaryForm).toBe('食べる');
+      expect(best.chain).toEqual(['causative', 'passive', 'negative', 'past']);
+      expect(
+        findsVerb('書かされた', '書く', ['causative', 'passive', 'past']),
+      ).toBe(true);
+    });
+
+    it('finds irregular and honorific verbs', () => {
+      const cases: [string, string, DeconjugationStep[]][] = [
+        ['行って', '行く', ['te']],
+        ['来なかった', '来る', ['negative', 'past']],
+        ['ない', 'ある', ['negative']],
+        ['勉強できない', '勉強する', ['potential', 'negative']],
+        ['勉強しています', '勉強する', ['te', 'progressive', 'polite']],
+        ['くださいます', 'くださる', ['polite']],
+        ['いらっしゃいませ', 'いらっしゃる', ['polite', 'imperative']],
+        ['おっしゃった', 'おっしゃる', ['past']],
+      ];
+      for (const [input, dictionaryForm, chain] of cases) {
+        expect(findsVerb(input, dictionaryForm, chain)).toBe(true);
+      }
+    });
+
+    it('prefers known verbs over unknown readings', () => {
+      expect(
+        deconjugate('帰った').map(result => result.verb.dictionaryForm),
+      ).toEqual(['帰る']);
+      expect(
+        deconjugate('勉強しています').every(
+          result => result.verb.dictionaryForm === '勉強する',
+        ),
+      ).toBe(true);
+    });
+  });
+});
+
+// ============================================================================
+// Property 3: Adjectives
+// ============================================================================
+
+describe('Adjective Deconjugation Properties', () => {
+  /**
+   * **Property 3: Adjectives**
+   *
+   * Adjective forms are traced back to the adjective, not to a verb made up
+   * from the copula or the inflected ending (静かです + past).
+   */
+  describe('Property 3: Adjectives', () => {
+    it('finds the adjective and chain of every conjugated adjective form', () => {
+      fc.assert(
+        fc.property(fc.constantFrom(...ADJECTIVES), word => {
+          const adjective = classifyVerb(word);
+          for (const form of conjugateVerbInfo(adjective)) {
+            const chain = ADJECTIVE_FORM_CHAINS[form.id];
+            if (!chain) continue;
+
+            expect(deconjugate(form.kanji)).toEqual([
+              { verb: adjective, chain },
+            ]);
+          }
+        }),
+        { numRuns: 50 },
+      );
+    });
+
+    it('reads adjective forms as adjectives only', () => {
+      const cases: [string, string, DeconjugationStep[]][] = [
+        ['静かでした', '静か', ['polite', 'past']],
+        ['高くなかった', '高い', ['negative', 'past']],
+        ['大きくて', '大きい', ['te']],
+      ];
+      for (const [input, dictionaryForm, chain] of cases) {
+        expect(isInflectedVerb(input)).toBe(true);
+        expect(
+          deconjugate(input).map(result => [
+            result.verb.dictionaryForm,
+            result.chain,
+          ]),
+        ).toEqual([[dictionaryForm, chain]]);
+      }
+    });
+
+    it('does not make verbs out of the copula', () => {
+      expect(deconjugate('学生でした')).toEqual([]);
+      expect(deconjugate('学生だった')).toEqual([]);
+    });
+
+    it('leaves the ない and たい forms of verbs to the verb rules', () => {
+      const [best] = deconjugate('食べたくなかった');
+      expect(best.verb.dictionaryForm).toBe('食べる');
+      expect(best.chain).toEqual(['desire', 'negative', 'past']);
+    });
+  });
+});
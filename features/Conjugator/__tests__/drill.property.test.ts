@@ -0,0 +1,197 @@
+/**
+ * Property-Based Tests for the Conjugation Drill
+ *
+ * **Feature: conjugation-drill**
+ * Every drill verb yields a question for every essential form, and the
+ * answer is accepted however it is typed: hiragana, katakana, romaji or
+ * the usual kanji spelling.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { DRILL_VERBS } from '../data/verbData';
+import { toRomaji } from '../lib/romajiConverter';
+import {
+  buildTeFormReport,
+  checkDrillAnswer,
+  createDrillQuestion,
+  DEFAULT_DRILL_FORM_IDS,
+  DRILL_FORM_IDS,
+  getDrillVerbs,
+  getGodanTeKey,
+  normalizeDrillAnswer,
+  pickDrillQuestion,
+} from '../lib/drill';
+import type { DrillVerb } from '../types';
+
+const verbArb = fc.constantFrom(...DRILL_VERBS);
+const formArb = fc.constantFrom(...DEFAULT_DRILL_FORM_IDS);
+
+const toKatakana = (text: string) =>
+  text.replace(/[ぁ-ゖ]/g, char =>
+    String.fromCharCode(char.charCodeAt(0) + 0x60),
+  );
+
+const findVerb = (dictionaryForm: string): DrillVerb =>
+  DRILL_VERBS.find(verb => verb.dictionaryForm === dictionaryForm)!;
+
+const question = (dictionaryForm: string, formId: string) =>
+  createDrillQuestion(findVerb(dictionaryForm), formId)!;
+
+describe('Conjugation Drill', () => {
+  /**
+   * **Property 1: Questions Exist for Every Verb**
+   */
+  describe('Property 1: Questions Exist for Every Verb', () => {
+    it('builds a kana answer for every verb and essential form', () => {
+      fc.assert(
+        fc.property(verbArb, formArb, (verb, formId) => {
+          const q = createDrillQuestion(verb, formId);
+          expect(q).not.toBeNull();
+          expect(q!.answer).toMatch(/^[ぁ-ゖ]+$/);
+          expect(q!.form.id).toBe(formId);
+        }),
+        { numRuns: 200 },
+      );
+    });
+
+    it('uses the drill data class for readings the classifier finds ambiguous', () => {
+      expect(question('帰る', 'te').answer).toBe('かえって');
+      expect(question('着る', 'te').answer).toBe('きて');
+      expect(question('入る', 'nai').answerWritten).toBe('入らない');
+      expect(question('行く', 'te').answerWritten).toBe('行って');
+      expect(question('来る', 'nai').answer).toBe('こない');
+    });
+
+    it('picks only from the selected verbs and forms, avoiding repeats', () => {
+      const verbs = getDrillVerbs(['ichidan']);
+      fc.assert(
+        fc.property(fc.subarray(DRILL_FORM_IDS, { minLength: 2 }), formIds => {
+          const first = pickDrillQuestion(verbs, formIds)!;
+          const next = pickDrillQuestion(verbs, formIds, first.id)!;
+          expect(next.id).not.toBe(first.id);
+          expect(next.verb.type).toBe('ichidan');
+          expect(formIds).toContain(next.form.id);
+        }),
+        { numRuns: 50 },
+      );
+      expect(pickDrillQuestion([], DRILL_FORM_IDS)).toBeNull();
+    });
+  });
+
+  /**
+   * **Property 2: Answers Accepted in Any Script**
+   */
+  describe('Property 2: Answers Accepted in Any Script', () => {
+    it('accepts hiragana, katakana, romaji and the written form', () => {
+      fc.assert(
+        fc.property(verbArb, formArb, (verb, formId) => {
+          const q = createDrillQuestion(verb, formId)!;
+          expect(checkDrillAnswer(q, q.answer)).toBe(true);
+          expect(checkDrillAnswer(q, ` ${q.answerWritten} `)).toBe(true);
+          expect(checkDrillAnswer(q, toKatakana(q.answer))).toBe(true);
+          expect(checkDrillAnswer(q, toRomaji(q.answer))).toBe(true);
+          expect(checkDrillAnswer(q, toRomaji(q.answer).toUpperCase())).toBe(
+            true,
+          );
+        }),
+        { numRuns: 200 },
+      );
+    });
+
+    it('rejects the answer to a different form of the same verb', () => {
+      fc.assert(
+        fc.property(verbArb, formArb, formArb, (verb, formId, otherId) => {
+          const q = createDrillQuestion(verb, formId)!;
+          const other = createDrillQuestion(verb, otherId)!;
+          fc.pre(![q.answer, ...q.alternatives].includes(other.answer));
+          expect(checkDrillAnswer(q, other.answer)).toBe(false);
+          expect(checkDrillAnswer(q, toRomaji(other.answer))).toBe(false);
+        }),
+        { numRuns: 200 },
+      );
+      expect(checkDrillAnswer(question('書く', 'te'), '')).toBe(false);
+    });
+
+    it('accepts common spellings of ん and colloquial contractions', () => {
+      expect(checkDrillAnswer(question('読む', 'te'), 'yonde')).toBe(true);
+      expect(checkDrillAnswer(question('読む', 'te'), 'yonnde')).toBe(true);
+      expect(checkDrillAnswer(question('死ぬ', 'ta'), 'shinda')).toBe(true);
+      expect(
+        checkDrillAnswer(question('見る', 'potential-plain'), 'みれる'),
+      ).toBe(true);
+      expect(
+        checkDrillAnswer(
+          question('書く', 'causative-passive-plain'),
+          'kakasareru',
+        ),
+      ).toBe(true);
+      // す-verbs have no short causative-passive
+      expect(
+        checkDrillAnswer(
+          question('話す', 'causative-passive-plain'),
+          'はなさされる',
+        ),
+      ).toBe(false);
+      expect(normalizeDrillAnswer('kai-te')).toBe('かいて');
+    });
+  });
+
+  /**
+   * **Property 3: Te-Form Weakness Report**
+   */
+  describe('Property 3: Te-Form Weakness Report', () => {
+    it('keys Godan te-forms by ending and tracks 行く separately', () => {
+      expect(getGodanTeKey(findVerb('書く'))).toBe('く');
+      expect(getGodanTeKey(findVerb('行く'))).toBe('行く');
+      expect(getGodanTeKey(findVerb('食べる'))).toBeNull();
+      expect(getGodanTeKey(findVerb('する'))).toBeNull();
+    });
+
+    it('sorts endings weakest first and groups their mistakes', () => {
+      const scoreArb = fc.record({
+        correct: fc.nat({ max: 20 }),
+        incorrect: fc.nat({ max: 20 }),
+      });
+      fc.assert(
+        fc.property(
+          fc.dictionary(
+            fc.constantFrom('う', 'く', 'ぐ', 'む', '行く'),
+            scoreArb,
+          ),
+          scores => {
+            const report = buildTeFormReport(scores, []);
+            for (let i = 1; i < report.length; i++) {
+              expect(report[i - 1].accuracy).toBeLessThanOrEqual(
+                report[i].accuracy,
+              );
+            }
+            for (const entry of report) {
+              expect(entry.correct + entry.incorrect).toBeGreaterThan(0);
+            }
+          },
+        ),
+        { numRuns: 100 },
+      );
+
+      const report = buildTeFormReport(
+        {
+          く: { correct: 1, incorrect: 2 },
+          行く: { correct: 3, incorrect: 1 },
+        },
+        [
+          { verb: '書く', answer: '書って', expected: '書いて' },
+          { verb: '行く', answer: '行いて', expected: '行って' },
+          { verb: '聞く', answer: '聞って', expected: '聞いて' },
+        ],
+      );
+      expect(report.map(entry => entry.key)).toEqual(['く', '行く']);
+      expect(report[0].teEnding).toBe('いて');
+      expect(report[0].recentMistakes.map(m => m.verb)).toEqual([
+        '聞く',
+        '書く',
+      ]);
+      expect(report[1].recentMistakes.map(m => m.verb)).toEqual(['行く']);
+    });
+  });
+});
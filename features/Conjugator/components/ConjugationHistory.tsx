@@ -323,6 +323,20 @@ function getVerbTypeInfo(type: VerbType): {
         bgClass: 'bg-purple-500/20',
         textClass: 'text-purple-500',
       };
+    case 'i-adjective':
+      return {
+        label: 'I-Adjective (い形容詞)',
+        abbrev: 'い',
+        bgClass: 'bg-teal-500/20',
+        textClass: 'text-teal-500',
+      };
+    case 'na-adjective':
+      return {
+        label: 'Na-Adjective (な形容詞)',
+        abbrev: 'な',
+        bgClass: 'bg-amber-500/20',
+        textClass: 'text-amber-500',
+      };
     default:
       return {
         label: 'Unknown',
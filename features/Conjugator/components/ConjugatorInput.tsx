@@ -1,10 +1,12 @@
 'use client';
 
-import { useCallback, useRef, useEffect } from 'react';
-import { X, Keyboard, Search } from 'lucide-react';
+import { useCallback, useRef, useEffect, useMemo } from 'react';
+import { X, Keyboard, Search, Undo2 } from 'lucide-react';
 import { cn } from '@/shared/lib/utils';
 import { ActionButton } from '@/shared/components/ui/ActionButton';
-import type { ConjugationError } from '../types';
+import { deconjugate, isInflectedVerb } from '../lib/engine';
+import { DECONJUGATION_STEP_NAMES } from '../data/conjugationForms';
+import type { ConjugationError, DeconjugationResult } from '../types';
 
 interface ConjugatorInputProps {
   /** Current input value */
@@ -17,6 +19,8 @@ interface ConjugatorInputProps {
   isLoading: boolean;
   /** Error from conjugation attempt */
   error: ConjugationError | null;
+  /** Callback when a dictionary form of inflected input is picked */
+  onSelectDictionaryForm?: (verb: string) => void;
 }
 
 /**
@@ -27,6 +31,7 @@ interface ConjugatorInputProps {
  * - Conjugate button with loading state
  * - Enter key shortcut to conjugate
  * - Validation error display
+ * - Dictionary form suggestions for inflected input (食べさせられた → 食べる)
  * - Proper ARIA labels and roles
  *
  * Requirements: 1.1, 1.3, 1.4, 5.1, 5.3, 10.2
@@ -37,11 +42,18 @@ export default function ConjugatorInput({
   onConjugate,
   isLoading,
   error,
+  onSelectDictionaryForm,
 }: ConjugatorInputProps) {
   const inputRef = useRef<HTMLInputElement>(null);
   const isDisabled = isLoading;
   const canConjugate = value.trim().length > 0 && !isLoading;
 
+  // Detect inflected input and work back to its dictionary forms
+  const deconjugations = useMemo(
+    () => (isInflectedVerb(value) ? deconjugate(value) : []),
+    [value],
+  );
+
   // Handle keyboard shortcut (Enter to conjugate, Escape to clear)
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -112,7 +124,8 @@ export default function ConjugatorInput({
             className='text-xs text-(--secondary-color)'
             id='verb-input-hint'
           >
-            Dictionary form (e.g., 食べる, 行く, する)
+            Dictionary form (e.g., 食べる, 行く, する) or an adjective (高い,
+            静か)
           </p>
         </div>
       </div>
@@ -169,6 +182,15 @@ export default function ConjugatorInput({
         )}
       </div>
 
+      {/* Dictionary forms of inflected input */}
+      {deconjugations.length > 0 && (
+        <DeconjugationPanel
+          results={deconjugations}
+          disabled={isDisabled}
+          onSelect={onSelectDictionaryForm ?? onChange}
+        />
+      )}
+
       {/* Error message */}
       {error && (
         <div
@@ -226,6 +248,63 @@ export default function ConjugatorInput({
   );
 }
 
+/**
+ * Lists the dictionary forms an inflected input may come from, with the
+ * chain of forms applied to each
+ */
+function DeconjugationPanel({
+  results,
+  disabled,
+  onSelect,
+}: {
+  results: DeconjugationResult[];
+  disabled: boolean;
+  onSelect: (verb: string) => void;
+}) {
+  return (
+    <div
+      className={cn(
+        'flex flex-col gap-2 rounded-lg p-3',
+        'border border-(--main-color)/20 bg-(--main-color)/5',
+      )}
+      role='status'
+      aria-live='polite'
+    >
+      <p className='text-xs text-(--secondary-color)'>
+        This looks like an inflected form. Conjugate its dictionary form:
+      </p>
+      <ul className='flex flex-col gap-2'>
+        {results.map(({ verb, chain }) => (
+          <li
+            key={`${verb.dictionaryForm}-${chain.join('-')}`}
+            className='flex flex-wrap items-center gap-x-3 gap-y-1'
+          >
+            <button
+              type='button'
+              onClick={() => onSelect(verb.dictionaryForm)}
+              disabled={disabled}
+              className={cn(
+                'flex items-center gap-1.5 rounded-lg px-2 py-1',
+                'font-japanese text-base text-(--main-color)',
+                'hover:cursor-pointer hover:bg-(--main-color)/10',
+                'disabled:cursor-not-allowed disabled:opacity-50',
+              )}
+              aria-label={`Conjugate ${verb.dictionaryForm}`}
+              lang='ja'
+            >
+              <Undo2 className='h-4 w-4' aria-hidden='true' />
+              {verb.dictionaryForm}
+            </button>
+            <span className='text-xs text-(--secondary-color)'>
+              {chain.map(step => DECONJUGATION_STEP_NAMES[step].en).join(' → ')}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 /**
  * Get user-friendly error message from error code
  */
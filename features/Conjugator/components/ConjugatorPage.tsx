@@ -2,7 +2,8 @@
 
 import { useEffect, useRef, useCallback, useState } from 'react';
 import { useSearchParams, useRouter, usePathname } from 'next/navigation';
-import { Languages, Share2, Check } from 'lucide-react';
+import { Languages, Share2, Check, Dumbbell } from 'lucide-react';
+import { Link } from '@/core/i18n/routing';
 import { cn } from '@/shared/lib/utils';
 
 import useConjugatorStore from '../store/useConjugatorStore';
@@ -92,6 +93,15 @@ export default function ConjugatorPage({ locale = 'en' }: ConjugatorPageProps) {
     }
   }, [inputText, isLoading, conjugate]);
 
+  // Conjugate a dictionary form picked for inflected input
+  const handleSelectDictionaryForm = useCallback(
+    (verb: string) => {
+      setInputText(verb);
+      conjugate();
+    },
+    [setInputText, conjugate],
+  );
+
   // Handle share button click (Requirements: 12.3)
   const handleShare = useCallback(async () => {
     if (!result) return;
@@ -153,6 +163,18 @@ export default function ConjugatorPage({ locale = 'en' }: ConjugatorPageProps) {
             and more.
           </p>
         </div>
+        <Link
+          href='/conjugate/drill'
+          className={cn(
+            'flex items-center gap-2 rounded-xl px-4 py-2 text-sm font-medium transition-all',
+            'border border-(--border-color) bg-(--card-color)',
+            'hover:border-(--main-color)/50 hover:bg-(--main-color)/10',
+            'focus:ring-2 focus:ring-(--main-color)/50 focus:outline-none',
+          )}
+        >
+          <Dumbbell className='h-4 w-4' aria-hidden='true' />
+          <span className='hidden sm:inline'>Drill</span>
+        </Link>
         {/* Share button - Requirements: 12.3 */}
         {result && (
           <button
@@ -202,6 +224,7 @@ export default function ConjugatorPage({ locale = 'en' }: ConjugatorPageProps) {
             onConjugate={handleConjugate}
             isLoading={isLoading}
             error={error}
+            onSelectDictionaryForm={handleSelectDictionaryForm}
           />
 
           {/* Results section */}
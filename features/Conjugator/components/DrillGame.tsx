@@ -0,0 +1,280 @@
+'use client';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import clsx from 'clsx';
+import { motion } from 'framer-motion';
+import { useStopwatch } from 'react-timer-hook';
+import { useShallow } from 'zustand/react/shallow';
+import { useClick, useCorrect, useError } from '@/shared/hooks/useAudio';
+import Return from '@/shared/components/Game/ReturnFromGame';
+import Stats from '@/shared/components/Game/Stats';
+import Stars from '@/shared/components/Game/Stars';
+import { GameBottomBar } from '@/shared/components/Game/GameBottomBar';
+import {
+  statsTracking,
+  useGameStats,
+  useStatsDisplay,
+  useStatsStore,
+} from '@/features/Progress';
+import { useCrazyModeTrigger } from '@/features/CrazyMode/hooks/useCrazyModeTrigger';
+import useDrillStore from '../store/useDrillStore';
+import {
+  checkDrillAnswer,
+  getDrillVerbs,
+  getGodanTeKey,
+  pickDrillQuestion,
+} from '../lib/drill';
+
+// Bottom bar states
+type BottomBarState = 'check' | 'correct' | 'wrong';
+
+/**
+ * Conjugation drill: type the asked form of each verb. Only the first
+ * attempt at a question counts towards per-form and per-class accuracy.
+ */
+const DrillGame = () => {
+  const {
+    showStats,
+    resetStats,
+    recordDojoUsed,
+    recordModeUsed,
+    recordChallengeModeUsed,
+  } = useStatsStore(
+    useShallow(state => ({
+      showStats: state.showStats,
+      resetStats: state.resetStats,
+      recordDojoUsed: state.recordDojoUsed,
+      recordModeUsed: state.recordModeUsed,
+      recordChallengeModeUsed: state.recordChallengeModeUsed,
+    })),
+  );
+  const { score, setScore } = useStatsDisplay();
+  const gameStats = useGameStats();
+  const speedStopwatch = useStopwatch({ autoStart: false });
+
+  const { playClick } = useClick();
+  const { playCorrect } = useCorrect();
+  const { playErrorTwice } = useError();
+  const { trigger: triggerCrazyMode } = useCrazyModeTrigger();
+
+  const selectedFormIds = useDrillStore(state => state.selectedFormIds);
+  const selectedVerbClasses = useDrillStore(state => state.selectedVerbClasses);
+  const verbs = useMemo(
+    () => getDrillVerbs(selectedVerbClasses),
+    [selectedVerbClasses],
+  );
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  const [question, setQuestion] = useState(() =>
+    pickDrillQuestion(verbs, selectedFormIds),
+  );
+  const [hasAnswered, setHasAnswered] = useState(false);
+  const [inputValue, setInputValue] = useState('');
+  const [bottomBarState, setBottomBarState] = useState<BottomBarState>('check');
+
+  useEffect(() => {
+    resetStats();
+    // Track dojo and mode usage for achievements
+    recordDojoUsed('conjugation');
+    recordModeUsed('type');
+    recordChallengeModeUsed('classic');
+    speedStopwatch.start();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleContinue = useCallback(() => {
+    playClick();
+    setInputValue('');
+    setHasAnswered(false);
+    setQuestion(current =>
+      pickDrillQuestion(verbs, selectedFormIds, current?.id),
+    );
+    setBottomBarState('check');
+    speedStopwatch.reset();
+    speedStopwatch.start();
+  }, [playClick, verbs, selectedFormIds, speedStopwatch]);
+
+  useEffect(() => {
+    if (inputRef.current && bottomBarState === 'check') {
+      inputRef.current.focus();
+    }
+  }, [bottomBarState]);
+
+  // Enter/Space moves on once the answer is correct
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const isContinueKey =
+        event.key === 'Enter' || event.code === 'Space' || event.key === ' ';
+      if (isContinueKey && bottomBarState === 'correct') {
+        event.preventDefault();
+        buttonRef.current?.click();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bottomBarState]);
+
+  useEffect(() => {
+    if (showStats) speedStopwatch.pause();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showStats]);
+
+  if (!question) {
+    return null;
+  }
+
+  const recordFirstAttempt = (isCorrect: boolean) => {
+    if (hasAnswered) return;
+    setHasAnswered(true);
+    statsTracking.recordConjugationAnswer({
+      formId: question.form.id,
+      verbClass: question.verb.type,
+      godanTeKey:
+        question.form.id === 'te' ? getGodanTeKey(question.verb) : null,
+      verb: question.verb.dictionaryForm,
+      answer: inputValue.trim(),
+      expected: question.answerWritten,
+      isCorrect,
+    });
+  };
+
+  const handleCorrectAnswer = () => {
+    speedStopwatch.pause();
+    const answerTimeMs = speedStopwatch.totalMilliseconds;
+    speedStopwatch.reset();
+
+    playCorrect();
+    recordFirstAttempt(true);
+    gameStats.recordCorrect('conjugation', question.verb.dictionaryForm, {
+      gameMode: 'type',
+      timeTaken: answerTimeMs,
+    });
+    setScore(score + 1);
+    triggerCrazyMode();
+    setBottomBarState('correct');
+  };
+
+  const handleWrongAnswer = () => {
+    playErrorTwice();
+    recordFirstAttempt(false);
+    gameStats.recordIncorrect(
+      'conjugation',
+      question.verb.dictionaryForm,
+      inputValue.trim(),
+      question.answerWritten,
+      { gameMode: 'type' },
+    );
+    setInputValue('');
+    setScore(Math.max(0, score - 1));
+    triggerCrazyMode();
+    setBottomBarState('wrong');
+  };
+
+  const handleCheck = () => {
+    if (inputValue.trim().length === 0) return;
+    playClick();
+
+    if (checkDrillAnswer(question, inputValue)) {
+      handleCorrectAnswer();
+    } else {
+      handleWrongAnswer();
+    }
+  };
+
+  const showContinue = bottomBarState === 'correct';
+  const canCheck = inputValue.trim().length > 0 && !showContinue;
+  const feedback =
+    question.answerWritten === question.answer
+      ? question.answer
+      : `${question.answerWritten}（${question.answer}）`;
+
+  return (
+    <div className='flex min-h-[100dvh] max-w-[100dvw] flex-col items-center gap-4 px-4 md:gap-6'>
+      {showStats && <Stats />}
+      <Return isHidden={showStats} href='/conjugate/drill' gameMode='Type' />
+      <div
+        className={clsx(
+          'flex w-full flex-col items-center gap-10 sm:w-4/5',
+          showStats ? 'hidden' : '',
+        )}
+      >
+        <div className='flex flex-col items-center gap-4'>
+          <span className='mb-2 text-sm text-(--secondary-color)'>
+            {question.form.name} · {question.form.nameJa}
+          </span>
+          <motion.div
+            initial={{ opacity: 0, y: -30, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            transition={{
+              type: 'spring',
+              stiffness: 150,
+              damping: 20,
+              mass: 1,
+              duration: 0.5,
+            }}
+            key={question.id}
+            className='flex flex-col items-center'
+          >
+            <span
+              className='text-5xl text-(--main-color) md:text-6xl'
+              lang='ja'
+            >
+              {question.verb.dictionaryForm}
+            </span>
+            {question.verb.reading !== question.verb.dictionaryForm && (
+              <span className='text-lg text-(--secondary-color)' lang='ja'>
+                {question.verb.reading}
+              </span>
+            )}
+          </motion.div>
+          <span className='text-base text-(--secondary-color)/70'>
+            {question.verb.meaning}
+          </span>
+        </div>
+
+        <input
+          ref={inputRef}
+          type='text'
+          value={inputValue}
+          placeholder={`Type the ${question.form.name.toLowerCase()}...`}
+          disabled={showContinue}
+          className={clsx(
+            'w-full max-w-xs sm:max-w-sm md:max-w-md',
+            'rounded-2xl border border-(--border-color) bg-(--card-color) px-5 py-4',
+            'text-center text-2xl font-medium',
+            'text-(--secondary-color) placeholder:text-base placeholder:font-normal placeholder:text-(--secondary-color)/40',
+            'focus:outline-none',
+            'transition-colors duration-200 ease-out',
+            showContinue && 'cursor-not-allowed opacity-60',
+          )}
+          onChange={e => setInputValue(e.target.value)}
+          onKeyDown={e => {
+            // Ignore Enter while an IME composition is being confirmed
+            if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+              e.preventDefault();
+              if (!showContinue) handleCheck();
+            }
+          }}
+          lang='ja'
+        />
+
+        <Stars />
+
+        <GameBottomBar
+          state={bottomBarState}
+          onAction={showContinue ? handleContinue : handleCheck}
+          canCheck={canCheck}
+          feedbackContent={feedback}
+          buttonRef={buttonRef}
+          hideRetry
+        />
+
+        <div className='h-32' />
+      </div>
+    </div>
+  );
+};
+
+export default DrillGame;
@@ -0,0 +1,252 @@
+'use client';
+
+import { useMemo } from 'react';
+import clsx from 'clsx';
+import { Play } from 'lucide-react';
+import { Link } from '@/core/i18n/routing';
+import { useClick } from '@/shared/hooks/useAudio';
+import { useConjugationStats } from '@/features/Progress';
+import useDrillStore from '../store/useDrillStore';
+import {
+  buildTeFormReport,
+  DEFAULT_DRILL_FORM_IDS,
+  DRILL_FORM_IDS,
+  DRILL_VERB_CLASSES,
+  getDrillVerbs,
+} from '../lib/drill';
+import {
+  CATEGORY_NAMES,
+  CATEGORY_ORDER,
+  CONJUGATION_FORMS,
+} from '../data/conjugationForms';
+import type { VerbType } from '../types';
+
+const VERB_CLASS_LABELS: Record<VerbType, { label: string; example: string }> =
+  {
+    godan: { label: 'Godan', example: '書く → 書いて' },
+    ichidan: { label: 'Ichidan', example: '食べる → 食べて' },
+    irregular: { label: 'Irregular', example: 'する, 来る, 行く' },
+    'i-adjective': { label: 'I-Adjective', example: '高い → 高くて' },
+    'na-adjective': { label: 'Na-Adjective', example: '静か → 静かで' },
+  };
+
+type Score = { correct: number; incorrect: number } | undefined;
+
+function formatAccuracy(score: Score): string | null {
+  const total = (score?.correct ?? 0) + (score?.incorrect ?? 0);
+  if (!score || total === 0) return null;
+  return `${Math.round((score.correct / total) * 100)}% of ${total}`;
+}
+
+const toggleClassName = (selected: boolean) =>
+  clsx(
+    'flex flex-col items-start rounded-xl border-2 px-4 py-2 text-left',
+    'transition-colors duration-200 hover:cursor-pointer',
+    selected
+      ? 'border-(--main-color) text-(--main-color)'
+      : 'border-(--border-color) text-(--secondary-color)',
+  );
+
+/**
+ * Conjugation drill menu: pick verb classes and forms, review accuracy
+ * per form and class and the Godan te-form weakness report, then start.
+ */
+export default function DrillMenu() {
+  const { playClick } = useClick();
+  const selectedFormIds = useDrillStore(state => state.selectedFormIds);
+  const toggleFormId = useDrillStore(state => state.toggleFormId);
+  const setSelectedFormIds = useDrillStore(state => state.setSelectedFormIds);
+  const selectedVerbClasses = useDrillStore(state => state.selectedVerbClasses);
+  const toggleVerbClass = useDrillStore(state => state.toggleVerbClass);
+  const stats = useConjugationStats();
+
+  const verbCount = getDrillVerbs(selectedVerbClasses).length;
+  const canStart = verbCount > 0 && selectedFormIds.length > 0;
+
+  const formsByCategory = useMemo(
+    () =>
+      CATEGORY_ORDER.map(category => ({
+        category,
+        forms: CONJUGATION_FORMS.filter(
+          form =>
+            form.category === category && DRILL_FORM_IDS.includes(form.id),
+        ),
+      })).filter(group => group.forms.length > 0),
+    [],
+  );
+
+  const teFormReport = useMemo(
+    () => buildTeFormReport(stats.godanTeForm, stats.godanTeMistakes),
+    [stats.godanTeForm, stats.godanTeMistakes],
+  );
+
+  return (
+    <div className='flex flex-col gap-6'>
+      <div className='flex flex-col gap-2 rounded-2xl border-2 border-(--border-color) bg-(--card-color) p-4'>
+        <h1 className='text-2xl font-bold text-(--main-color)'>
+          Conjugation Dojo
+        </h1>
+        <p className='text-(--secondary-color)'>
+          Conjugate verbs into the forms you pick. Type the answer in kana or
+          romaji.
+        </p>
+      </div>
+
+      <div className='flex flex-col gap-3'>
+        <h2 className='text-lg font-semibold text-(--secondary-color)'>
+          Verb Classes
+        </h2>
+        <div className='flex flex-wrap gap-2'>
+          {DRILL_VERB_CLASSES.map(verbClass => {
+            const accuracy = formatAccuracy(stats.byVerbClass[verbClass]);
+            return (
+              <button
+                key={verbClass}
+                type='button'
+                aria-pressed={selectedVerbClasses.includes(verbClass)}
+                onClick={() => {
+                  playClick();
+                  toggleVerbClass(verbClass);
+                }}
+                className={toggleClassName(
+                  selectedVerbClasses.includes(verbClass),
+                )}
+              >
+                <span className='font-semibold'>
+                  {VERB_CLASS_LABELS[verbClass].label}
+                </span>
+                <span className='text-sm text-(--muted-color)'>
+                  {accuracy ?? VERB_CLASS_LABELS[verbClass].example}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+        <p className='text-sm text-(--muted-color)'>
+          {verbCount} verbs selected
+        </p>
+      </div>
+
+      <div className='flex flex-col gap-3'>
+        <div className='flex flex-row flex-wrap items-center gap-3'>
+          <h2 className='text-lg font-semibold text-(--secondary-color)'>
+            Forms
+          </h2>
+          <button
+            type='button'
+            onClick={() => {
+              playClick();
+              setSelectedFormIds(DEFAULT_DRILL_FORM_IDS);
+            }}
+            className='text-sm text-(--main-color) hover:cursor-pointer hover:underline'
+          >
+            Essentials
+          </button>
+          <button
+            type='button'
+            onClick={() => {
+              playClick();
+              setSelectedFormIds(DRILL_FORM_IDS);
+            }}
+            className='text-sm text-(--main-color) hover:cursor-pointer hover:underline'
+          >
+            All
+          </button>
+        </div>
+        {formsByCategory.map(({ category, forms }) => (
+          <div key={category} className='flex flex-col gap-2'>
+            <h3 className='text-sm text-(--muted-color)'>
+              {CATEGORY_NAMES[category].en} · {CATEGORY_NAMES[category].ja}
+            </h3>
+            <div className='flex flex-wrap gap-2'>
+              {forms.map(form => {
+                const accuracy = formatAccuracy(stats.byForm[form.id]);
+                return (
+                  <button
+                    key={form.id}
+                    type='button'
+                    aria-pressed={selectedFormIds.includes(form.id)}
+                    onClick={() => {
+                      playClick();
+                      toggleFormId(form.id);
+                    }}
+                    className={toggleClassName(
+                      selectedFormIds.includes(form.id),
+                    )}
+                  >
+                    <span>{form.name}</span>
+                    {accuracy && (
+                      <span className='text-xs text-(--muted-color)'>
+                        {accuracy}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {teFormReport.length > 0 && (
+        <div className='flex flex-col gap-3'>
+          <h2 className='text-lg font-semibold text-(--secondary-color)'>
+            Godan Te-Form Report
+          </h2>
+          <p className='text-sm text-(--muted-color)'>
+            Accuracy per dictionary ending, weakest first.
+          </p>
+          <ul className='flex flex-col gap-2'>
+            {teFormReport.map(entry => (
+              <li
+                key={entry.key}
+                className='flex flex-col gap-1 rounded-xl border-2 border-(--border-color) bg-(--card-color) px-4 py-2'
+              >
+                <div className='flex flex-row items-center justify-between gap-3'>
+                  <span className='text-(--main-color)'>
+                    {entry.key === '行く' ? '行く' : `〜${entry.key}`} → 〜
+                    {entry.teEnding}
+                  </span>
+                  <span className='text-sm text-(--secondary-color)'>
+                    {entry.accuracy}% ({entry.correct}/
+                    {entry.correct + entry.incorrect})
+                  </span>
+                </div>
+                {entry.recentMistakes.length > 0 && (
+                  <span className='text-sm text-(--muted-color)'>
+                    {entry.recentMistakes
+                      .map(
+                        mistake =>
+                          `${mistake.verb}: ${mistake.answer || '—'} → ${mistake.expected}`,
+                      )
+                      .join(' · ')}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <Link
+        href='/conjugate/drill/train'
+        className={clsx(!canStart && 'pointer-events-none')}
+        aria-disabled={!canStart}
+        onClick={() => playClick()}
+      >
+        <span
+          className={clsx(
+            'flex h-12 w-full flex-row items-center justify-center gap-2 px-6',
+            'bg-(--main-color) text-(--background-color)',
+            'rounded-2xl transition-colors duration-200',
+            'border-b-6 border-(--main-color-accent) shadow-sm',
+            !canStart && 'opacity-50',
+          )}
+        >
+          <Play size={20} />
+          Train
+        </span>
+      </Link>
+    </div>
+  );
+}
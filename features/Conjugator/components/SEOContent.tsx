@@ -276,5 +276,12 @@ function getVerbTypeLabel(verb: VerbInfo): string {
     if (verb.irregularType === 'honorific') return 'Honorific verb (irregular)';
     return 'Irregular verb';
   }
+  if (verb.type === 'i-adjective') {
+    if (verb.irregularType === 'ii') return 'いい adjective (よ stem)';
+    return 'I-adjective (い形容詞)';
+  }
+  if (verb.type === 'na-adjective') {
+    return 'Na-adjective (な形容詞)';
+  }
   return verb.type;
 }
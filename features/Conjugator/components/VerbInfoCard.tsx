@@ -14,7 +14,7 @@ interface VerbInfoCardProps {
  * VerbInfoCard - Displays detected verb type and stem information
  *
  * Features:
- * - Shows verb type (Godan/Ichidan/Irregular)
+ * - Shows verb type (Godan/Ichidan/Irregular, or the adjective class)
  * - Displays verb stem
  * - Expandable section with conjugation rule explanation
  * - Proper ARIA labels and roles
@@ -218,7 +218,7 @@ function getVerbTypeInfo(
   description: string;
   rules: string[];
 } {
-  if (type === 'irregular' && irregularType) {
+  if (irregularType) {
     return getIrregularTypeInfo(irregularType);
   }
 
@@ -258,6 +258,34 @@ function getVerbTypeInfo(
           'This verb has irregular conjugation patterns that must be memorized.',
         rules: ['Conjugation patterns do not follow standard rules'],
       };
+    case 'i-adjective':
+      return {
+        label: 'I-Adjective (い形容詞)',
+        colorClass: 'text-teal-500',
+        description:
+          'I-adjectives end in い and conjugate on their own, much like verbs. The final い is replaced with the conjugation suffix.',
+        rules: [
+          'Negative: stem + くない',
+          'Past: stem + かった',
+          'Te-form: stem + くて',
+          'Adverb: stem + く',
+          'Noun: stem + さ',
+        ],
+      };
+    case 'na-adjective':
+      return {
+        label: 'Na-Adjective (な形容詞)',
+        colorClass: 'text-amber-500',
+        description:
+          'Na-adjectives take な before a noun and conjugate through the copula だ, like nouns.',
+        rules: [
+          'Before nouns: stem + な',
+          'Negative: stem + ではない',
+          'Past: stem + だった',
+          'Te-form: stem + で',
+          'Adverb: stem + に',
+        ],
+      };
     default:
       return {
         label: 'Unknown',
@@ -344,6 +372,19 @@ function getIrregularTypeInfo(irregularType: IrregularType): {
           'Other forms follow Godan patterns',
         ],
       };
+    case 'ii':
+      return {
+        label: 'いい-adjective',
+        colorClass: 'text-orange-500',
+        description:
+          'いい (good) and its compounds like かっこいい conjugate from the older form よい.',
+        rules: [
+          'Negative: よくない (not いくない)',
+          'Past: よかった (not いかった)',
+          'Te-form: よくて',
+          'Present and attributive forms keep いい',
+        ],
+      };
     default:
       return {
         label: 'Irregular',
@@ -1,13 +1,19 @@
 /**
  * Japanese Verb Conjugation Form Definitions
  *
- * This module defines all 30+ conjugation forms organized by category.
+ * This module defines all 30+ verb conjugation forms organized by category,
+ * plus the smaller set of adjective forms, which reuse the same categories.
  * Each form definition includes metadata for display and categorization.
  *
  * Requirements: 3.1-3.13
  */
 
-import type { FormDefinition, ConjugationCategory, Formality } from '../types';
+import type {
+  FormDefinition,
+  ConjugationCategory,
+  DeconjugationStep,
+  Formality,
+} from '../types';
 
 // ============================================================================
 // Form Definitions
@@ -313,6 +319,145 @@ export const CONJUGATION_FORMS: FormDefinition[] = [
   },
 ];
 
+/**
+ * Adjective form definitions (い- and な-adjectives)
+ * Shared ids (dictionary, te, conditionals) match the verb definitions so
+ * lookups by id stay unambiguous.
+ */
+export const ADJECTIVE_FORMS: FormDefinition[] = [
+  // ============================================================================
+  // Basic Forms
+  // ============================================================================
+  {
+    id: 'dictionary',
+    category: 'basic',
+    name: 'Dictionary Form',
+    nameJa: '辞書形',
+    formality: 'plain',
+  },
+  {
+    id: 'adjective-present',
+    category: 'basic',
+    name: 'Present (Predicate)',
+    nameJa: '終止形',
+    formality: 'plain',
+  },
+  {
+    id: 'adjective-attributive',
+    category: 'basic',
+    name: 'Attributive (Before Nouns)',
+    nameJa: '連体形',
+    formality: 'plain',
+  },
+  {
+    id: 'te',
+    category: 'basic',
+    name: 'Te Form',
+    nameJa: 'て形',
+    formality: 'plain',
+  },
+  {
+    id: 'adjective-adverbial',
+    category: 'basic',
+    name: 'Adverbial Form',
+    nameJa: '連用形',
+    formality: 'plain',
+  },
+  {
+    id: 'adjective-nominal',
+    category: 'basic',
+    name: 'Noun Form (-sa)',
+    nameJa: 'さ名詞',
+    formality: 'plain',
+  },
+
+  // ============================================================================
+  // Polite Forms
+  // ============================================================================
+  {
+    id: 'adjective-polite',
+    category: 'polite',
+    name: 'Desu (Polite)',
+    nameJa: 'です',
+    formality: 'polite',
+  },
+  {
+    id: 'adjective-polite-negative',
+    category: 'polite',
+    name: 'Polite Negative',
+    nameJa: '否定・丁寧',
+    formality: 'polite',
+  },
+  {
+    id: 'adjective-polite-past',
+    category: 'polite',
+    name: 'Polite Past',
+    nameJa: '過去・丁寧',
+    formality: 'polite',
+  },
+  {
+    id: 'adjective-polite-past-negative',
+    category: 'polite',
+    name: 'Polite Past Negative',
+    nameJa: '過去否定・丁寧',
+    formality: 'polite',
+  },
+
+  // ============================================================================
+  // Negative Forms
+  // ============================================================================
+  {
+    id: 'adjective-negative',
+    category: 'negative',
+    name: 'Negative',
+    nameJa: '否定形',
+    formality: 'plain',
+  },
+  {
+    id: 'adjective-past-negative',
+    category: 'negative',
+    name: 'Past Negative',
+    nameJa: '過去否定形',
+    formality: 'plain',
+  },
+
+  // ============================================================================
+  // Past Forms
+  // ============================================================================
+  {
+    id: 'adjective-past',
+    category: 'past',
+    name: 'Past',
+    nameJa: '過去形',
+    formality: 'plain',
+  },
+
+  // ============================================================================
+  // Conditional Forms
+  // ============================================================================
+  {
+    id: 'conditional-ba',
+    category: 'conditional',
+    name: 'Ba Form (Conditional)',
+    nameJa: 'ば形',
+    formality: 'plain',
+  },
+  {
+    id: 'conditional-tara',
+    category: 'conditional',
+    name: 'Tara Form (Conditional)',
+    nameJa: 'たら形',
+    formality: 'plain',
+  },
+  {
+    id: 'conditional-nara',
+    category: 'conditional',
+    name: 'Nara Form (Conditional)',
+    nameJa: 'なら形',
+    formality: 'plain',
+  },
+];
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -327,10 +472,13 @@ export function getFormsByCategory(
 }
 
 /**
- * Get a form definition by its ID
+ * Get a form definition by its ID (verb or adjective form)
  */
 export function getFormById(id: string): FormDefinition | undefined {
-  return CONJUGATION_FORMS.find(form => form.id === id);
+  return (
+    CONJUGATION_FORMS.find(form => form.id === id) ??
+    ADJECTIVE_FORMS.find(form => form.id === id)
+  );
 }
 
 /**
@@ -391,3 +539,25 @@ export const CATEGORY_ORDER: ConjugationCategory[] = [
   'progressive',
   'honorific',
 ];
+
+/**
+ * Deconjugation step display names in English and Japanese
+ */
+export const DECONJUGATION_STEP_NAMES: Record<
+  DeconjugationStep,
+  { en: string; ja: string }
+> = {
+  causative: { en: 'Causative', ja: '使役' },
+  passive: { en: 'Passive', ja: '受身' },
+  potential: { en: 'Potential', ja: '可能' },
+  desire: { en: 'Desire (Tai)', ja: '希望' },
+  polite: { en: 'Polite', ja: '丁寧' },
+  te: { en: 'Te Form', ja: 'て形' },
+  progressive: { en: 'Progressive', ja: '進行' },
+  negative: { en: 'Negative', ja: '否定' },
+  past: { en: 'Past', ja: '過去' },
+  volitional: { en: 'Volitional', ja: '意向' },
+  imperative: { en: 'Imperative', ja: '命令' },
+  'conditional-ba': { en: 'Ba Conditional', ja: '仮定' },
+  'conditional-tara': { en: 'Tara Conditional', ja: 'たら' },
+};
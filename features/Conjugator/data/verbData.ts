@@ -5,11 +5,13 @@
  * - Irregular verb mappings
  * - Godan verb ending transformations
  * - Ichidan verb detection rules
+ * - Adjective detection rules (い and な adjectives)
+ * - Drill verbs for the conjugation dojo
  *
  * Requirements: 2.1, 2.2, 2.3, 2.4, 2.5, 2.6
  */
 
-import type { IrregularType, GodanConjugationMap } from '../types';
+import type { IrregularType, GodanConjugationMap, DrillVerb } from '../types';
 
 // ============================================================================
 // Irregular Verb Mappings
@@ -238,6 +240,327 @@ export const KNOWN_ICHIDAN_VERBS: string[] = [
   'くらべる',
 ];
 
+// ============================================================================
+// Adjective Detection Rules
+// ============================================================================
+
+/**
+ * Known な-adjectives, entered without な
+ * Words ending in い here (きれい, 嫌い) would otherwise be read as
+ * い-adjectives; any other word typed with a trailing な is also accepted,
+ * except the pre-noun words below.
+ */
+export const KNOWN_NA_ADJECTIVES: string[] = [
+  // な-adjectives that end in い
+  '綺麗', // きれい (pretty, clean)
+  'きれい',
+  '嫌い', // きらい (disliked)
+  'きらい',
+  '大嫌い', // だいきらい (hated)
+  'だいきらい',
+  'ゆうめい', // 有名 (famous)
+  'ていねい', // 丁寧 (polite)
+  'しつれい', // 失礼 (rude)
+  'とくい', // 得意 (good at)
+  'あいまい', // 曖昧 (vague)
+  // Common な-adjectives
+  '静か', // しずか (quiet)
+  'しずか',
+  '元気', // げんき (healthy)
+  'げんき',
+  '有名', // ゆうめい (famous)
+  '丁寧', // ていねい (polite)
+  '失礼', // しつれい (rude)
+  '得意', // とくい (good at)
+  '親切', // しんせつ (kind)
+  'しんせつ',
+  '便利', // べんり (convenient)
+  'べんり',
+  '不便', // ふべん (inconvenient)
+  'ふべん',
+  '簡単', // かんたん (easy)
+  'かんたん',
+  '大切', // たいせつ (important)
+  'たいせつ',
+  '大事', // だいじ (important)
+  'だいじ',
+  '大丈夫', // だいじょうぶ (all right)
+  'だいじょうぶ',
+  '好き', // すき (liked)
+  'すき',
+  '大好き', // だいすき (loved)
+  'だいすき',
+  '上手', // じょうず (skilled)
+  'じょうず',
+  '下手', // へた (unskilled)
+  'へた',
+  '暇', // ひま (free)
+  'ひま',
+  '大変', // たいへん (tough)
+  'たいへん',
+  '変', // へん (strange)
+  'へん',
+  '残念', // ざんねん (regrettable)
+  'ざんねん',
+  '心配', // しんぱい (worrying)
+  'しんぱい',
+  '無理', // むり (impossible)
+  'むり',
+  '自由', // じゆう (free)
+  'じゆう',
+  '特別', // とくべつ (special)
+  'とくべつ',
+  '必要', // ひつよう (necessary)
+  'ひつよう',
+  '複雑', // ふくざつ (complicated)
+  'ふくざつ',
+  '賑やか', // にぎやか (lively)
+  'にぎやか',
+  '素敵', // すてき (lovely)
+  'すてき',
+  '憂鬱', // ゆううつ (gloomy)
+  'ゆううつ',
+  'ハンサム', // (handsome)
+];
+
+/**
+ * Pre-noun adjectivals (連体詞) that end in な but only ever come before a
+ * noun; they have no stem to conjugate (大きな is not 大き + な)
+ */
+export const ATTRIBUTIVE_NA_WORDS: string[] = [
+  '大きな', // おおきな (big)
+  'おおきな',
+  '小さな', // ちいさな (small)
+  'ちいさな',
+  'おかしな', // 可笑しな (strange)
+  '可笑しな',
+  'いろんな', // 色んな (various)
+  '色んな',
+];
+
+/**
+ * The suffix of いい and its compounds (かっこいい, 頭がいい), which
+ * conjugate from the older よい: いい → よくない, よかった
+ */
+export const II_ADJECTIVE_SUFFIX = 'いい';
+
+/**
+ * Regular い-adjectives that happen to end in いい
+ */
+export const REGULAR_II_ENDING_ADJECTIVES: string[] = [
+  'かわいい', // 可愛い (cute)
+];
+
+// ============================================================================
+// Drill Verbs
+// ============================================================================
+
+/**
+ * Verbs practiced in the conjugation drill. Every Godan ending is covered
+ * so te-form sound changes can be compared per ending, and the ambiguous
+ * readings (きる, ねる, かえる) carry their class explicitly.
+ */
+export const DRILL_VERBS: DrillVerb[] = [
+  // Godan
+  { dictionaryForm: '買う', reading: 'かう', meaning: 'to buy', type: 'godan' },
+  {
+    dictionaryForm: '会う',
+    reading: 'あう',
+    meaning: 'to meet',
+    type: 'godan',
+  },
+  {
+    dictionaryForm: '書く',
+    reading: 'かく',
+    meaning: 'to write',
+    type: 'godan',
+  },
+  {
+    dictionaryForm: '聞く',
+    reading: 'きく',
+    meaning: 'to listen',
+    type: 'godan',
+  },
+  {
+    dictionaryForm: '泳ぐ',
+    reading: 'およぐ',
+    meaning: 'to swim',
+    type: 'godan',
+  },
+  {
+    dictionaryForm: '急ぐ',
+    reading: 'いそぐ',
+    meaning: 'to hurry',
+    type: 'godan',
+  },
+  {
+    dictionaryForm: '話す',
+    reading: 'はなす',
+    meaning: 'to speak',
+    type: 'godan',
+  },
+  {
+    dictionaryForm: '出す',
+    reading: 'だす',
+    meaning: 'to take out',
+    type: 'godan',
+  },
+  {
+    dictionaryForm: '待つ',
+    reading: 'まつ',
+    meaning: 'to wait',
+    type: 'godan',
+  },
+  {
+    dictionaryForm: '持つ',
+    reading: 'もつ',
+    meaning: 'to hold',
+    type: 'godan',
+  },
+  { dictionaryForm: '死ぬ', reading: 'しぬ', meaning: 'to die', type: 'godan' },
+  {
+    dictionaryForm: '遊ぶ',
+    reading: 'あそぶ',
+    meaning: 'to play',
+    type: 'godan',
+  },
+  { dictionaryForm: '飛ぶ', reading: 'とぶ', meaning: 'to fly', type: 'godan' },
+  {
+    dictionaryForm: '読む',
+    reading: 'よむ',
+    meaning: 'to read',
+    type: 'godan',
+  },
+  {
+    dictionaryForm: '飲む',
+    reading: 'のむ',
+    meaning: 'to drink',
+    type: 'godan',
+  },
+  {
+    dictionaryForm: '作る',
+    reading: 'つくる',
+    meaning: 'to make',
+    type: 'godan',
+  },
+  {
+    dictionaryForm: '帰る',
+    reading: 'かえる',
+    meaning: 'to return',
+    type: 'godan',
+  },
+  {
+    dictionaryForm: '走る',
+    reading: 'はしる',
+    meaning: 'to run',
+    type: 'godan',
+  },
+  {
+    dictionaryForm: '入る',
+    reading: 'はいる',
+    meaning: 'to enter',
+    type: 'godan',
+  },
+  {
+    dictionaryForm: '知る',
+    reading: 'しる',
+    meaning: 'to know',
+    type: 'godan',
+  },
+  // Ichidan
+  {
+    dictionaryForm: '食べる',
+    reading: 'たべる',
+    meaning: 'to eat',
+    type: 'ichidan',
+  },
+  {
+    dictionaryForm: '見る',
+    reading: 'みる',
+    meaning: 'to see',
+    type: 'ichidan',
+  },
+  {
+    dictionaryForm: '起きる',
+    reading: 'おきる',
+    meaning: 'to wake up',
+    type: 'ichidan',
+  },
+  {
+    dictionaryForm: '寝る',
+    reading: 'ねる',
+    meaning: 'to sleep',
+    type: 'ichidan',
+  },
+  {
+    dictionaryForm: '着る',
+    reading: 'きる',
+    meaning: 'to wear',
+    type: 'ichidan',
+  },
+  {
+    dictionaryForm: '教える',
+    reading: 'おしえる',
+    meaning: 'to teach',
+    type: 'ichidan',
+  },
+  {
+    dictionaryForm: '開ける',
+    reading: 'あける',
+    meaning: 'to open',
+    type: 'ichidan',
+  },
+  {
+    dictionaryForm: '借りる',
+    reading: 'かりる',
+    meaning: 'to borrow',
+    type: 'ichidan',
+  },
+  {
+    dictionaryForm: '信じる',
+    reading: 'しんじる',
+    meaning: 'to believe',
+    type: 'ichidan',
+  },
+  {
+    dictionaryForm: '出る',
+    reading: 'でる',
+    meaning: 'to exit',
+    type: 'ichidan',
+  },
+  // Irregular
+  {
+    dictionaryForm: 'する',
+    reading: 'する',
+    meaning: 'to do',
+    type: 'irregular',
+  },
+  {
+    dictionaryForm: '来る',
+    reading: 'くる',
+    meaning: 'to come',
+    type: 'irregular',
+  },
+  {
+    dictionaryForm: '行く',
+    reading: 'いく',
+    meaning: 'to go',
+    type: 'irregular',
+  },
+  {
+    dictionaryForm: 'ある',
+    reading: 'ある',
+    meaning: 'to exist',
+    type: 'irregular',
+  },
+  {
+    dictionaryForm: '勉強する',
+    reading: 'べんきょうする',
+    meaning: 'to study',
+    type: 'irregular',
+  },
+];
+
 // ============================================================================
 // Romaji Conversion Data
 // ============================================================================
@@ -0,0 +1,13 @@
+'use client';
+
+import useConjugatorStore from '../store/useConjugatorStore';
+
+type ConjugatorStoreState = ReturnType<typeof useConjugatorStore.getState>;
+
+export const conjugatorBackup = {
+  getHistoryState: (): ConjugatorStoreState => useConjugatorStore.getState(),
+  setHistoryState: (partial: Partial<ConjugatorStoreState>) =>
+    useConjugatorStore.setState(partial),
+};
+
+export type { ConjugatorStoreState };
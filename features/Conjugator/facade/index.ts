@@ -0,0 +1,2 @@
+export { conjugatorBackup } from './backup';
+export type { ConjugatorStoreState } from './backup';
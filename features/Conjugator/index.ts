@@ -21,8 +21,27 @@ export {
   conjugateOrThrow,
   conjugateToForm,
   isValidVerb,
+  conjugateVerbInfo,
+  conjugateAdjective,
+  isAdjective,
+  deconjugate,
+  isInflectedVerb,
 } from './lib/engine';
 
+// Drill
+export {
+  DRILL_FORM_IDS,
+  DEFAULT_DRILL_FORM_IDS,
+  DRILL_VERB_CLASSES,
+  getDrillVerbs,
+  createDrillQuestion,
+  pickDrillQuestion,
+  normalizeDrillAnswer,
+  checkDrillAnswer,
+  getGodanTeKey,
+  buildTeFormReport,
+} from './lib/drill';
+
 // Data
 export {
   IRREGULAR_VERBS,
@@ -33,8 +52,10 @@ export {
   KNOWN_ICHIDAN_VERBS,
   SURU_COMPOUND_SUFFIXES,
   KURU_COMPOUND_SUFFIXES,
+  KNOWN_NA_ADJECTIVES,
   HIRAGANA_TO_ROMAJI,
   HIRAGANA_COMBINATIONS,
+  DRILL_VERBS,
 } from './data/verbData';
 
 // Store
@@ -47,6 +68,11 @@ export {
   useHistory,
   useIsCategoryExpanded,
 } from './store/useConjugatorStore';
+export { default as useDrillStore } from './store/useDrillStore';
+
+// Facades
+export { conjugatorBackup } from './facade';
+export type { ConjugatorStoreState } from './facade';
 
 // Components
 export { default as ConjugatorPage } from './components/ConjugatorPage';
@@ -58,6 +84,8 @@ export { default as VerbInfoCard } from './components/VerbInfoCard';
 export { default as SEOContent } from './components/SEOContent';
 export { default as FAQ } from './components/FAQ';
 export { default as RelatedFeatures } from './components/RelatedFeatures';
+export { default as DrillMenu } from './components/DrillMenu';
+export { default as DrillGame } from './components/DrillGame';
 
 // Hooks (will be exported as implemented)
 // export { useConjugator } from './hooks/useConjugator';
@@ -0,0 +1,253 @@
+/**
+ * Conjugation Drill
+ *
+ * Builds drill questions from the conjugation engine and checks typed
+ * answers. Answers are accepted in hiragana, katakana, romaji or as
+ * usually written with kanji.
+ */
+
+import type {
+  DrillQuestion,
+  DrillVerb,
+  TeFormWeakness,
+  VerbInfo,
+  VerbType,
+} from '../types';
+import { CONJUGATION_FORMS, getFormById } from '../data/conjugationForms';
+import { DRILL_VERBS, GODAN_ENDINGS } from '../data/verbData';
+import { classifyVerb, conjugateVerbInfo } from './engine';
+import { romajiToHiragana, toRomaji } from './romajiConverter';
+import { pickOne } from '@/shared/lib/shuffle';
+
+// ============================================================================
+// Forms
+// ============================================================================
+
+/**
+ * Forms that can be drilled (the dictionary form is the prompt itself)
+ */
+export const DRILL_FORM_IDS = CONJUGATION_FORMS.map(form => form.id).filter(
+  id => id !== 'dictionary',
+);
+
+export const DEFAULT_DRILL_FORM_IDS = [
+  'te',
+  'nai',
+  'ta',
+  'masu',
+  'potential-plain',
+  'causative-passive-plain',
+];
+
+export const DRILL_VERB_CLASSES: VerbType[] = ['godan', 'ichidan', 'irregular'];
+
+export function getDrillVerbs(verbClasses: VerbType[]): DrillVerb[] {
+  return DRILL_VERBS.filter(verb => verbClasses.includes(verb.type));
+}
+
+// ============================================================================
+// Questions
+// ============================================================================
+
+/**
+ * Classify `text` (the verb's reading or written form), trusting the drill
+ * data for the class when the reading alone is ambiguous
+ */
+function getDrillVerbInfo(verb: DrillVerb, text: string): VerbInfo {
+  const info = classifyVerb(text);
+  if (info.type === verb.type) return info;
+  return {
+    ...info,
+    type: verb.type,
+    stem: text.slice(0, -1),
+    ending: text.slice(-1),
+    irregularType: undefined,
+  };
+}
+
+/**
+ * Colloquial contractions accepted alongside the engine's form: ら抜き
+ * Ichidan potentials (見られる → 見れる) and the short Godan
+ * causative-passive (書かせられる → 書かされる, not for す-verbs)
+ */
+function getAlternatives(
+  verb: DrillVerb,
+  formId: string,
+  answer: string,
+): string[] {
+  const stem = verb.reading.slice(0, -1);
+
+  if (verb.type === 'ichidan' && formId.startsWith('potential')) {
+    return answer.startsWith(`${stem}られ`)
+      ? [`${stem}れ${answer.slice(stem.length + 2)}`]
+      : [];
+  }
+
+  if (
+    verb.type === 'godan' &&
+    verb.reading.slice(-1) !== 'す' &&
+    formId.startsWith('causative-passive')
+  ) {
+    const aStem = stem.length + 1;
+    return answer.slice(aStem, aStem + 3) === 'せられ'
+      ? [`${answer.slice(0, aStem)}され${answer.slice(aStem + 3)}`]
+      : [];
+  }
+
+  return [];
+}
+
+/**
+ * Create the question for one verb and form, or null if the engine has no
+ * such form for the verb
+ */
+export function createDrillQuestion(
+  verb: DrillVerb,
+  formId: string,
+): DrillQuestion | null {
+  const form = getFormById(formId);
+  if (!form) return null;
+
+  try {
+    const reading = conjugateVerbInfo(
+      getDrillVerbInfo(verb, verb.reading),
+    ).find(f => f.id === formId);
+    const written = conjugateVerbInfo(
+      getDrillVerbInfo(verb, verb.dictionaryForm),
+    ).find(f => f.id === formId);
+    if (!reading || !written) return null;
+
+    return {
+      id: `${verb.dictionaryForm}:${formId}`,
+      verb,
+      form,
+      answer: reading.hiragana,
+      answerWritten: written.kanji,
+      alternatives: getAlternatives(verb, formId, reading.hiragana),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pick a random question from the selected verbs and forms, avoiding an
+ * immediate repeat when possible
+ */
+export function pickDrillQuestion(
+  verbs: DrillVerb[],
+  formIds: string[],
+  previousId?: string,
+): DrillQuestion | null {
+  if (verbs.length === 0 || formIds.length === 0) return null;
+  const canAvoidRepeat = verbs.length * formIds.length > 1;
+
+  // A few retries cover forms missing for a verb and repeats
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const question = createDrillQuestion(pickOne(verbs)!, pickOne(formIds)!);
+    if (!question) continue;
+    if (canAvoidRepeat && question.id === previousId) continue;
+    return question;
+  }
+  return null;
+}
+
+// ============================================================================
+// Answer Checking
+// ============================================================================
+
+function katakanaToHiragana(text: string): string {
+  return text.replace(/[ァ-ヶ]/g, char =>
+    String.fromCharCode(char.charCodeAt(0) - 0x60),
+  );
+}
+
+function isRomajiInput(text: string): boolean {
+  return /^[a-z]+$/.test(text);
+}
+
+/**
+ * Normalize a typed answer to hiragana (romaji and katakana are converted,
+ * spaces, hyphens and apostrophes dropped)
+ */
+export function normalizeDrillAnswer(input: string): string {
+  const cleaned = input
+    .trim()
+    .toLowerCase()
+    .replace(/[\s'’-]/g, '');
+  return isRomajiInput(cleaned)
+    ? romajiToHiragana(cleaned)
+    : katakanaToHiragana(cleaned);
+}
+
+export function checkDrillAnswer(
+  question: DrillQuestion,
+  input: string,
+): boolean {
+  const trimmed = input.trim();
+  if (trimmed.length === 0) return false;
+  if (trimmed === question.answerWritten) return true;
+
+  const accepted = [question.answer, ...question.alternatives];
+  if (accepted.includes(normalizeDrillAnswer(trimmed))) return true;
+
+  // Romaji spellings that do not convert back cleanly (nn for ん) are
+  // compared in romaji instead
+  const romaji = trimmed.toLowerCase().replace(/[\s'’-]/g, '');
+  if (!isRomajiInput(romaji)) return false;
+  const simplified = romaji.replace(/nn(?![aiueoy])/g, 'n');
+  return accepted.some(answer => {
+    const expected = toRomaji(answer);
+    return expected === romaji || expected === simplified;
+  });
+}
+
+// ============================================================================
+// Godan Te-Form Weakness Report
+// ============================================================================
+
+const IKU_TE_KEY = '行く';
+const IKU_SPELLINGS = ['行く', 'いく'];
+
+/**
+ * Stats key for a te-form answer: the Godan dictionary ending, with 行く
+ * tracked on its own since it breaks the く → いて rule. Null for verbs
+ * whose te-form is not a Godan sound change.
+ */
+export function getGodanTeKey(verb: DrillVerb): string | null {
+  if (verb.reading === 'いく') return IKU_TE_KEY;
+  if (verb.type !== 'godan') return null;
+  return verb.reading.slice(-1);
+}
+
+function getMistakeTeKey(verb: string): string {
+  return IKU_SPELLINGS.includes(verb) ? IKU_TE_KEY : verb.slice(-1);
+}
+
+/**
+ * Godan te-form accuracy per ending, weakest first, each with its most
+ * recent mistakes
+ */
+export function buildTeFormReport(
+  scores: Record<string, { correct: number; incorrect: number }>,
+  mistakes: { verb: string; answer: string; expected: string }[],
+  recentLimit = 3,
+): TeFormWeakness[] {
+  return Object.entries(scores)
+    .filter(([, score]) => score.correct + score.incorrect > 0)
+    .map(([key, score]) => ({
+      key,
+      teEnding: key === IKU_TE_KEY ? 'って' : (GODAN_ENDINGS[key]?.te ?? ''),
+      correct: score.correct,
+      incorrect: score.incorrect,
+      accuracy: Math.round(
+        (score.correct / (score.correct + score.incorrect)) * 100,
+      ),
+      recentMistakes: mistakes
+        .filter(mistake => getMistakeTeKey(mistake.verb) === key)
+        .slice(-recentLimit)
+        .reverse()
+        .map(({ verb, answer, expected }) => ({ verb, answer, expected })),
+    }))
+    .sort((a, b) => a.accuracy - b.accuracy || b.incorrect - a.incorrect);
+}
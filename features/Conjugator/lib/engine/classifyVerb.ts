@@ -2,7 +2,8 @@
  * Japanese Verb Classification Engine
  *
  * This module implements verb type detection and stem extraction for Japanese verbs.
- * It handles Godan, Ichidan, and irregular verbs including compound verbs.
+ * It handles Godan, Ichidan, and irregular verbs including compound verbs,
+ * as well as い- and な-adjectives, which conjugate through the same engine.
  *
  * Requirements: 9.1, 9.2, 2.1-2.8
  */
@@ -17,6 +18,10 @@ import {
   KNOWN_ICHIDAN_VERBS,
   SURU_COMPOUND_SUFFIXES,
   KURU_COMPOUND_SUFFIXES,
+  KNOWN_NA_ADJECTIVES,
+  ATTRIBUTIVE_NA_WORDS,
+  II_ADJECTIVE_SUFFIX,
+  REGULAR_II_ENDING_ADJECTIVES,
   HIRAGANA_TO_ROMAJI,
   HIRAGANA_COMBINATIONS,
 } from '../../data/verbData';
@@ -231,14 +236,81 @@ function isGodanVerb(verb: string): boolean {
   return GODAN_ENDING_CHARS.includes(lastChar);
 }
 
+// ============================================================================
+// Adjective Detection
+// ============================================================================
+
+/**
+ * Check if a word is いい or an いい-compound (かっこいい), which conjugate
+ * from the よい stem
+ */
+function isIiAdjective(word: string): boolean {
+  return (
+    word.endsWith(II_ADJECTIVE_SUFFIX) &&
+    !REGULAR_II_ENDING_ADJECTIVES.includes(word)
+  );
+}
+
+/**
+ * Classify an adjective, or return null if the word is not one
+ *
+ * Known な-adjectives are matched first (some end in い, like きれい), then
+ * a trailing な marks a な-adjective (unless the word is a pre-noun 大きな)
+ * and a trailing い an い-adjective.
+ */
+function classifyAdjective(word: string): VerbInfo | null {
+  if (ATTRIBUTIVE_NA_WORDS.includes(word)) return null;
+
+  const naStem = word.endsWith('な') ? getStem(word) : word;
+  if (
+    KNOWN_NA_ADJECTIVES.includes(naStem) ||
+    (naStem !== word && naStem.length > 0)
+  ) {
+    return {
+      dictionaryForm: naStem,
+      reading: naStem,
+      romaji: hiraganaToRomaji(naStem),
+      type: 'na-adjective',
+      stem: naStem,
+      ending: 'な',
+    };
+  }
+
+  if (word.length < 2 || getLastChar(word) !== 'い') {
+    return null;
+  }
+
+  if (isIiAdjective(word)) {
+    return {
+      dictionaryForm: word,
+      reading: word,
+      romaji: hiraganaToRomaji(word),
+      type: 'i-adjective',
+      stem: word.slice(0, -II_ADJECTIVE_SUFFIX.length) + 'よ',
+      ending: II_ADJECTIVE_SUFFIX,
+      irregularType: 'ii',
+    };
+  }
+
+  return {
+    dictionaryForm: word,
+    reading: word,
+    romaji: hiraganaToRomaji(word),
+    type: 'i-adjective',
+    stem: getStem(word),
+    ending: 'い',
+  };
+}
+
 // ============================================================================
 // Main Classification Function
 // ============================================================================
 
 /**
- * Classify a Japanese verb and extract its components
+ * Classify a Japanese verb or adjective and extract its components
  *
- * @param input - The verb in dictionary form (kanji, hiragana, or mixed)
+ * @param input - The verb or adjective in dictionary form (kanji, hiragana,
+ *   or mixed); な-adjectives may be entered with or without な
  * @returns VerbInfo object with classification details
  * @throws Error if the input is not a valid Japanese verb
  *
@@ -303,6 +375,13 @@ export function classifyVerb(input: string): VerbInfo {
     };
   }
 
+  // Check for adjectives before the ending-based verb rules, since some
+  // な-adjectives end in a Godan ending (憂鬱 ゆううつ)
+  const adjective = classifyAdjective(verb);
+  if (adjective !== null) {
+    return adjective;
+  }
+
   // Check for Ichidan verbs (Requirements 2.2)
   if (looksLikeIchidan(verb) && isActuallyIchidan(verb)) {
     return {
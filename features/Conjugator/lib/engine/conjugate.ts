@@ -19,6 +19,7 @@ import { classifyVerb, isJapanese } from './classifyVerb';
 import { conjugateGodan } from './conjugateGodan';
 import { conjugateIchidan } from './conjugateIchidan';
 import { conjugateIrregular } from './conjugateIrregular';
+import { conjugateAdjective } from './conjugateAdjective';
 
 // ============================================================================
 // Error Handling
@@ -101,6 +102,9 @@ function getConjugationFunction(
       return conjugateIchidan;
     case 'irregular':
       return conjugateIrregular;
+    case 'i-adjective':
+    case 'na-adjective':
+      return conjugateAdjective;
     default:
       throw new Error(`Unknown verb type: ${verbInfo.type}`);
   }
@@ -202,6 +206,17 @@ export function conjugate(input: string): ConjugateResult {
   }
 }
 
+/**
+ * Conjugate an already classified verb to all forms
+ *
+ * Lets callers that know a verb's class (e.g. drill data, where the
+ * hiragana reading alone is ambiguous: きる is both 着る and 切る) skip
+ * classification.
+ */
+export function conjugateVerbInfo(verbInfo: VerbInfo): ConjugationForm[] {
+  return getConjugationFunction(verbInfo)(verbInfo);
+}
+
 /**
  * Conjugate a verb and throw on error (convenience function)
  *
@@ -0,0 +1,168 @@
+/**
+ * Adjective Conjugation Engine
+ *
+ * This module implements conjugation for the two conjugating adjective
+ * classes:
+ * - い-adjectives (高い): the final い is replaced (高くない, 高かった)
+ * - な-adjectives (静か): the stem is followed by the copula (静かだ, 静かだった)
+ *
+ * いい and its compounds (かっこいい) conjugate from the older よい, so
+ * their stem is already よ (いい → よくない) and only the present forms
+ * keep いい.
+ */
+
+import type { VerbInfo, ConjugationForm } from '../../types';
+import { ADJECTIVE_FORMS } from '../../data/conjugationForms';
+import { hiraganaToRomaji } from './classifyVerb';
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Get the stem an adjective conjugates from (高い → 高, いい → よ, 静か → 静か)
+ *
+ * @param adjective - The VerbInfo object for an adjective
+ * @returns The conjugation stem
+ */
+export function getAdjectiveStem(adjective: VerbInfo): string {
+  return adjective.stem;
+}
+
+/**
+ * Check if a VerbInfo is an adjective rather than a verb
+ */
+export function isAdjective(verb: VerbInfo): boolean {
+  return verb.type === 'i-adjective' || verb.type === 'na-adjective';
+}
+
+/**
+ * Create a ConjugationForm object
+ */
+function createForm(
+  id: string,
+  hiragana: string,
+  kanji: string = hiragana,
+): ConjugationForm {
+  const formDef = ADJECTIVE_FORMS.find(f => f.id === id);
+  if (!formDef) {
+    throw new Error(`Unknown form ID: ${id}`);
+  }
+
+  return {
+    id,
+    name: formDef.name,
+    nameJapanese: formDef.nameJa,
+    kanji,
+    hiragana,
+    romaji: hiraganaToRomaji(hiragana),
+    formality: formDef.formality,
+    category: formDef.category,
+  };
+}
+
+// ============================================================================
+// い-Adjective Conjugation
+// ============================================================================
+
+/**
+ * Conjugate an い-adjective (including the いい family)
+ */
+function conjugateIAdjective(adjective: VerbInfo): ConjugationForm[] {
+  const forms: ConjugationForm[] = [];
+  const word = adjective.dictionaryForm;
+  const stem = getAdjectiveStem(adjective);
+
+  // Basic Forms
+  forms.push(createForm('dictionary', word));
+  forms.push(createForm('adjective-present', word));
+  forms.push(createForm('adjective-attributive', word));
+  forms.push(createForm('te', stem + 'くて'));
+  forms.push(createForm('adjective-adverbial', stem + 'く'));
+  forms.push(createForm('adjective-nominal', stem + 'さ'));
+
+  // Polite Forms
+  forms.push(createForm('adjective-polite', word + 'です'));
+  forms.push(createForm('adjective-polite-negative', stem + 'くないです'));
+  forms.push(createForm('adjective-polite-past', stem + 'かったです'));
+  forms.push(
+    createForm('adjective-polite-past-negative', stem + 'くなかったです'),
+  );
+
+  // Negative Forms
+  forms.push(createForm('adjective-negative', stem + 'くない'));
+  forms.push(createForm('adjective-past-negative', stem + 'くなかった'));
+
+  // Past Forms
+  forms.push(createForm('adjective-past', stem + 'かった'));
+
+  // Conditional Forms
+  forms.push(createForm('conditional-ba', stem + 'ければ'));
+  forms.push(createForm('conditional-tara', stem + 'かったら'));
+  forms.push(createForm('conditional-nara', word + 'なら'));
+
+  return forms;
+}
+
+// ============================================================================
+// な-Adjective Conjugation
+// ============================================================================
+
+/**
+ * Conjugate a な-adjective
+ */
+function conjugateNaAdjective(adjective: VerbInfo): ConjugationForm[] {
+  const forms: ConjugationForm[] = [];
+  const stem = getAdjectiveStem(adjective);
+
+  // Basic Forms
+  forms.push(createForm('dictionary', stem));
+  forms.push(createForm('adjective-present', stem + 'だ'));
+  forms.push(createForm('adjective-attributive', stem + 'な'));
+  forms.push(createForm('te', stem + 'で'));
+  forms.push(createForm('adjective-adverbial', stem + 'に'));
+  forms.push(createForm('adjective-nominal', stem + 'さ'));
+
+  // Polite Forms
+  forms.push(createForm('adjective-polite', stem + 'です'));
+  forms.push(createForm('adjective-polite-negative', stem + 'ではありません'));
+  forms.push(createForm('adjective-polite-past', stem + 'でした'));
+  forms.push(
+    createForm('adjective-polite-past-negative', stem + 'ではありませんでした'),
+  );
+
+  // Negative Forms
+  forms.push(createForm('adjective-negative', stem + 'ではない'));
+  forms.push(createForm('adjective-past-negative', stem + 'ではなかった'));
+
+  // Past Forms
+  forms.push(createForm('adjective-past', stem + 'だった'));
+
+  // Conditional Forms
+  forms.push(createForm('conditional-ba', stem + 'であれば'));
+  forms.push(createForm('conditional-tara', stem + 'だったら'));
+  forms.push(createForm('conditional-nara', stem + 'なら'));
+
+  return forms;
+}
+
+// ============================================================================
+// Main Conjugation Function
+// ============================================================================
+
+/**
+ * Conjugate an い- or な-adjective to all adjective forms
+ *
+ * @param adjective - The VerbInfo object for an adjective
+ * @returns Array of all conjugated forms
+ */
+export function conjugateAdjective(adjective: VerbInfo): ConjugationForm[] {
+  switch (adjective.type) {
+    case 'i-adjective':
+      return conjugateIAdjective(adjective);
+    case 'na-adjective':
+      return conjugateNaAdjective(adjective);
+    default:
+      throw new Error('conjugateAdjective called with non-adjective');
+  }
+}
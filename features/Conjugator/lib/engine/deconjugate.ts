@@ -0,0 +1,752 @@
+/**
+ * Deconjugation Engine
+ *
+ * This module works backwards from an inflected form (食べさせられなかった)
+ * to every plausible dictionary form, together with the chain of forms
+ * applied to it (causative → passive → negative → past).
+ *
+ * Suffix rules are stripped one at a time. Each rule states which kind of
+ * word the inflected text must be and which kind it leaves behind, so only
+ * grammatical chains are produced (a potential form cannot be made
+ * causative, a past form cannot be negated). Candidates are then checked
+ * against the verb classifier and ranked, known verbs first.
+ *
+ * Adjective forms (高くなかった, 静かでした) are matched whole against the
+ * endings the adjective conjugator produces, so they are not mistaken for
+ * verbs (静かです + past).
+ */
+
+import type {
+  DeconjugationResult,
+  DeconjugationStep,
+  VerbInfo,
+  VerbType,
+} from '../../types';
+import {
+  DRILL_VERBS,
+  FALSE_ICHIDAN_VERBS,
+  GODAN_ENDINGS,
+  IRREGULAR_VERBS,
+  KNOWN_ICHIDAN_VERBS,
+} from '../../data/verbData';
+import {
+  classifyVerb,
+  detectKuruCompound,
+  detectSuruCompound,
+  isHiragana,
+  isJapanese,
+  isKanji,
+} from './classifyVerb';
+import { isAdjective } from './conjugateAdjective';
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/**
+ * The kind of word a text conjugates as
+ * - v1: Ichidan-type (dictionary Ichidan verbs and potential, passive and
+ *   causative forms, which all conjugate like Ichidan verbs)
+ * - v1-base: an Ichidan-type verb left by stripping a potential, passive or
+ *   causative form; it may itself be causative but not potential
+ * - v5, vs, vk: Godan, する and 来る dictionary forms
+ * - v5-iku, v5-honorific: Godan dictionary forms limited to 行く and the
+ *   honorific verbs (their te-form and masu-form are irregular)
+ * - adj-i: conjugates like an い-adjective (〜ない, 〜たい)
+ * - masu: ends in ます
+ * - te: ends in て or で
+ */
+type WordKind =
+  | 'v1'
+  | 'v1-base'
+  | 'v5'
+  | 'v5-iku'
+  | 'v5-honorific'
+  | 'vs'
+  | 'vk'
+  | 'adj-i'
+  | 'masu'
+  | 'te';
+
+/**
+ * Replace the suffix `from` with `to`, recording `steps`
+ */
+interface DeconjugationRule {
+  from: string;
+  to: string;
+  steps: DeconjugationStep[];
+  /** Kinds the inflected text may have; empty for forms that end a word */
+  in: WordKind[];
+  /** Kind of the text left behind */
+  out: WordKind;
+  /** Only match the whole text (ない → ある) */
+  exact?: boolean;
+}
+
+const DICTIONARY_KINDS: WordKind[] = [
+  'v1',
+  'v1-base',
+  'v5',
+  'v5-iku',
+  'v5-honorific',
+  'vs',
+  'vk',
+];
+
+/** Forms shared by every verb class, keyed to their rule shape */
+type VerbFormSuffixes = Record<
+  | 'negative'
+  | 'polite'
+  | 'desire'
+  | 'te'
+  | 'past'
+  | 'conditional-tara'
+  | 'conditional-ba'
+  | 'imperative'
+  | 'volitional'
+  | 'potential'
+  | 'passive'
+  | 'causative',
+  string[]
+>;
+
+/**
+ * Build the rules that strip each form back to `dictionaryEnding`
+ */
+function createVerbRules(
+  suffixes: VerbFormSuffixes,
+  dictionaryEnding: string,
+  out: WordKind,
+  derivedOut: WordKind = out,
+): DeconjugationRule[] {
+  const ruleShapes: [keyof VerbFormSuffixes, WordKind[], WordKind][] = [
+    ['negative', ['adj-i'], out],
+    ['polite', ['masu'], out],
+    ['desire', ['adj-i'], out],
+    ['te', ['te'], out],
+    ['past', [], out],
+    ['conditional-tara', [], out],
+    ['conditional-ba', [], out],
+    ['imperative', [], out],
+    ['volitional', [], out],
+    ['passive', ['v1'], derivedOut],
+    ['potential', ['v1'], derivedOut],
+    ['causative', ['v1', 'v1-base'], derivedOut],
+  ];
+
+  return ruleShapes.flatMap(([step, kinds, ruleOut]) =>
+    suffixes[step].map(from => ({
+      from,
+      to: dictionaryEnding,
+      steps: [step],
+      in: kinds,
+      out: ruleOut,
+    })),
+  );
+}
+
+/**
+ * Godan rules, built from the vowel-grade table
+ */
+function createGodanRules(): DeconjugationRule[] {
+  return Object.entries(GODAN_ENDINGS).flatMap(([ending, map]) => [
+    ...createVerbRules(
+      {
+        negative: [map.a + 'ない'],
+        polite: [map.i + 'ます'],
+        desire: [map.i + 'たい'],
+        te: [map.te],
+        past: [map.ta],
+        'conditional-tara': [map.ta + 'ら'],
+        'conditional-ba': [map.e + 'ば'],
+        imperative: [map.e],
+        volitional: [map.o + 'う'],
+        potential: [map.e + 'る'],
+        passive: [map.a + 'れる'],
+        causative: [map.a + 'せる'],
+      },
+      ending,
+      'v5',
+    ),
+    // Short causative-passive (書かされる); す-verbs only have the long form
+    ...(ending === 'す'
+      ? []
+      : [
+          {
+            from: map.a + 'される',
+            to: ending,
+            steps: ['causative', 'passive'] as DeconjugationStep[],
+            in: ['v1'] as WordKind[],
+            out: 'v5' as WordKind,
+          },
+        ]),
+  ]);
+}
+
+const ICHIDAN_RULES = createVerbRules(
+  {
+    negative: ['ない'],
+    polite: ['ます'],
+    desire: ['たい'],
+    te: ['て'],
+    past: ['た'],
+    'conditional-tara': ['たら'],
+    'conditional-ba': ['れば'],
+    imperative: ['ろ'],
+    volitional: ['よう'],
+    // The colloquial ら抜き potential (見れる) is accepted too
+    potential: ['られる', 'れる'],
+    passive: ['られる'],
+    causative: ['させる'],
+  },
+  'る',
+  'v1',
+  'v1-base',
+);
+
+const SURU_RULES = createVerbRules(
+  {
+    negative: ['しない'],
+    polite: ['します'],
+    desire: ['したい'],
+    te: ['して'],
+    past: ['した'],
+    'conditional-tara': ['したら'],
+    'conditional-ba': ['すれば'],
+    imperative: ['しろ'],
+    volitional: ['しよう'],
+    potential: ['できる'],
+    passive: ['される'],
+    causative: ['させる'],
+  },
+  'する',
+  'vs',
+);
+
+const KURU_RULES = [
+  ...createVerbRules(
+    {
+      negative: ['来ない'],
+      polite: ['来ます'],
+      desire: ['来たい'],
+      te: ['来て'],
+      past: ['来た'],
+      'conditional-tara': ['来たら'],
+      'conditional-ba': ['来れば'],
+      imperative: ['来い'],
+      volitional: ['来よう'],
+      potential: ['来られる'],
+      passive: ['来られる'],
+      causative: ['来させる'],
+    },
+    '来る',
+    'vk',
+  ),
+  ...createVerbRules(
+    {
+      negative: ['こない'],
+      polite: ['きます'],
+      desire: ['きたい'],
+      te: ['きて'],
+      past: ['きた'],
+      'conditional-tara': ['きたら'],
+      'conditional-ba': ['くれば'],
+      imperative: ['こい'],
+      volitional: ['こよう'],
+      potential: ['こられる'],
+      passive: ['こられる'],
+      causative: ['こさせる'],
+    },
+    'くる',
+    'vk',
+  ),
+];
+
+/**
+ * Exceptions to the Godan table: 行く (行って), the honorific verbs
+ * (くださいます, ください) and ある (ない)
+ */
+const IRREGULAR_GODAN_RULES: DeconjugationRule[] = [
+  { from: 'って', to: 'く', steps: ['te'], in: ['te'], out: 'v5-iku' },
+  { from: 'った', to: 'く', steps: ['past'], in: [], out: 'v5-iku' },
+  {
+    from: 'ったら',
+    to: 'く',
+    steps: ['conditional-tara'],
+    in: [],
+    out: 'v5-iku',
+  },
+  {
+    from: 'います',
+    to: 'る',
+    steps: ['polite'],
+    in: ['masu'],
+    out: 'v5-honorific',
+  },
+  { from: 'い', to: 'る', steps: ['imperative'], in: [], out: 'v5-honorific' },
+  {
+    from: 'いませ',
+    to: 'る',
+    steps: ['polite', 'imperative'],
+    in: [],
+    out: 'v5-honorific',
+  },
+  {
+    from: 'ない',
+    to: 'ある',
+    steps: ['negative'],
+    in: ['adj-i'],
+    out: 'v5',
+    exact: true,
+  },
+];
+
+/**
+ * Endings shared by everything that conjugates like an い-adjective
+ * (食べない, 食べたい) and by the ます form
+ */
+const AUXILIARY_RULES: DeconjugationRule[] = [
+  { from: 'かった', to: 'い', steps: ['past'], in: [], out: 'adj-i' },
+  {
+    from: 'かったら',
+    to: 'い',
+    steps: ['conditional-tara'],
+    in: [],
+    out: 'adj-i',
+  },
+  {
+    from: 'ければ',
+    to: 'い',
+    steps: ['conditional-ba'],
+    in: [],
+    out: 'adj-i',
+  },
+  {
+    from: 'くない',
+    to: 'い',
+    steps: ['negative'],
+    in: ['adj-i'],
+    out: 'adj-i',
+  },
+  { from: 'くて', to: 'い', steps: ['te'], in: ['te'], out: 'adj-i' },
+  { from: 'ないで', to: 'ない', steps: ['te'], in: ['te'], out: 'adj-i' },
+  { from: 'ません', to: 'ます', steps: ['negative'], in: [], out: 'masu' },
+  { from: 'ました', to: 'ます', steps: ['past'], in: [], out: 'masu' },
+  {
+    from: 'ませんでした',
+    to: 'ます',
+    steps: ['negative', 'past'],
+    in: [],
+    out: 'masu',
+  },
+  { from: 'ましょう', to: 'ます', steps: ['volitional'], in: [], out: 'masu' },
+  { from: 'まして', to: 'ます', steps: ['te'], in: ['te'], out: 'masu' },
+  { from: 'ている', to: 'て', steps: ['progressive'], in: ['v1'], out: 'te' },
+  { from: 'でいる', to: 'で', steps: ['progressive'], in: ['v1'], out: 'te' },
+  { from: 'てる', to: 'て', steps: ['progressive'], in: ['v1'], out: 'te' },
+  { from: 'でる', to: 'で', steps: ['progressive'], in: ['v1'], out: 'te' },
+];
+
+/**
+ * All rules; earlier rules win when two analyses give the same result
+ */
+const DECONJUGATION_RULES: DeconjugationRule[] = [
+  ...SURU_RULES,
+  ...KURU_RULES,
+  ...IRREGULAR_GODAN_RULES,
+  ...AUXILIARY_RULES,
+  ...ICHIDAN_RULES,
+  ...createGodanRules(),
+];
+
+/**
+ * Endings of the い-adjective forms, after the final い is dropped
+ * (高くなかった → 高い), with the chain of forms each one applies
+ */
+const I_ADJECTIVE_ENDINGS: [string, DeconjugationStep[]][] = [
+  ['くて', ['te']],
+  ['くない', ['negative']],
+  ['かった', ['past']],
+  ['くなかった', ['negative', 'past']],
+  ['ければ', ['conditional-ba']],
+  ['かったら', ['conditional-tara']],
+  ['いです', ['polite']],
+  ['くないです', ['polite', 'negative']],
+  ['くありません', ['polite', 'negative']],
+  ['かったです', ['polite', 'past']],
+  ['くなかったです', ['polite', 'negative', 'past']],
+  ['くありませんでした', ['polite', 'negative', 'past']],
+];
+
+/**
+ * Endings of the な-adjective forms, which follow the bare stem
+ * (静かでした → 静か)
+ */
+const NA_ADJECTIVE_ENDINGS: [string, DeconjugationStep[]][] = [
+  ['で', ['te']],
+  ['ではない', ['negative']],
+  ['じゃない', ['negative']],
+  ['だった', ['past']],
+  ['ではなかった', ['negative', 'past']],
+  ['じゃなかった', ['negative', 'past']],
+  ['であれば', ['conditional-ba']],
+  ['だったら', ['conditional-tara']],
+  ['です', ['polite']],
+  ['ではありません', ['polite', 'negative']],
+  ['じゃありません', ['polite', 'negative']],
+  ['でした', ['polite', 'past']],
+  ['ではありませんでした', ['polite', 'negative', 'past']],
+  ['じゃありませんでした', ['polite', 'negative', 'past']],
+];
+
+/** Longest chain followed before giving up */
+const MAX_CHAIN_LENGTH = 8;
+
+// ============================================================================
+// Candidate Checking
+// ============================================================================
+
+/**
+ * Check that a verb with kanji has at most two kana between its last kanji
+ * and its ending (確かめる), which rules out stems that still carry
+ * inflections (歌わせらる)
+ */
+function hasPlausibleOkurigana(text: string): boolean {
+  const chars = [...text];
+  const lastKanji = chars.findLastIndex(isKanji);
+  if (lastKanji === -1) return true;
+  return chars.length - lastKanji - 2 <= 2;
+}
+
+/**
+ * Check if a candidate is a noun or な-adjective followed by the copula
+ * (学生です from 学生でした, 静かだる from 静かだった), which no verb is
+ */
+function endsInCopula(text: string): boolean {
+  const stem = text.slice(0, -1);
+  if (text.endsWith('です') || stem.endsWith('でし')) return true;
+  // だ after kana is part of a verb (くだる, だす)
+  return (
+    stem.length >= 2 && stem.endsWith('だ') && !isHiragana(stem.slice(-2, -1))
+  );
+}
+
+/**
+ * Check that a する or 来る compound has a plausible prefix: a noun for
+ * する (勉強する, not 食べする) and a te-form for 来る (持ってくる)
+ */
+function hasPlausibleCompoundPrefix(verb: VerbInfo): boolean {
+  const prefix = verb.compoundPrefix;
+  if (!prefix) return true;
+
+  if (verb.irregularType === 'kuru') {
+    return prefix.endsWith('て') || prefix.endsWith('で');
+  }
+  const hasKanji = [...prefix].some(isKanji);
+  return !(hasKanji && isHiragana(prefix.slice(-1)));
+}
+
+/**
+ * Check if a dictionary form is one the conjugator knows by name
+ */
+function isKnownVerb(verb: VerbInfo): boolean {
+  const text = verb.dictionaryForm;
+  if (verb.compoundPrefix) {
+    // Multi-character nouns (勉強する) and te-form compounds (持ってくる)
+    return verb.irregularType === 'kuru'
+      ? detectKuruCompound(text) !== null
+      : detectSuruCompound(text) !== null &&
+          verb.compoundPrefix.length >= 2 &&
+          ![...verb.compoundPrefix].some(isHiragana);
+  }
+  return (
+    text in IRREGULAR_VERBS ||
+    KNOWN_ICHIDAN_VERBS.includes(text) ||
+    FALSE_ICHIDAN_VERBS.includes(text) ||
+    DRILL_VERBS.some(
+      drillVerb =>
+        drillVerb.dictionaryForm === text || drillVerb.reading === text,
+    )
+  );
+}
+
+/**
+ * Classify `text` as a verb of `kind`, or null if it cannot be one
+ *
+ * A bare kanji + る (煮る) or a hiragana る-verb (かえる) is ambiguous, so
+ * the kind from the rules overrides the classifier's guess there.
+ */
+function toVerbInfo(text: string, kind: WordKind): VerbInfo | null {
+  let info: VerbInfo;
+  try {
+    info = classifyVerb(text);
+  } catch {
+    return null;
+  }
+  if (!hasPlausibleCompoundPrefix(info) || endsInCopula(text)) return null;
+
+  const asType = (type: VerbType): VerbInfo => ({
+    ...info,
+    type,
+    stem: text.slice(0, -1),
+    ending: text.slice(-1),
+    irregularType: undefined,
+    compoundPrefix: undefined,
+  });
+
+  switch (kind) {
+    case 'vs':
+      return info.irregularType === 'suru' ? info : null;
+    case 'vk':
+      return info.irregularType === 'kuru' ? info : null;
+    case 'v5-iku':
+      return info.irregularType === 'iku' ? info : null;
+    case 'v5-honorific':
+      return info.irregularType === 'honorific' ? info : null;
+    case 'v5':
+      if (!hasPlausibleOkurigana(text)) return null;
+      if (info.type === 'godan') return info;
+      if (
+        info.type === 'irregular' &&
+        info.irregularType !== 'suru' &&
+        info.irregularType !== 'kuru'
+      ) {
+        return info;
+      }
+      if (info.type === 'ichidan' && !KNOWN_ICHIDAN_VERBS.includes(text)) {
+        return asType('godan');
+      }
+      return null;
+    case 'v1':
+    case 'v1-base':
+      if (info.irregularType === 'kuru') return info;
+      if (!hasPlausibleOkurigana(text)) return null;
+      if (info.type === 'ichidan') return info;
+      if (
+        info.type === 'godan' &&
+        text.endsWith('る') &&
+        text.length === 2 &&
+        !FALSE_ICHIDAN_VERBS.includes(text)
+      ) {
+        return asType('ichidan');
+      }
+      return null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * How likely a dictionary form is: known verbs first, then forms the
+ * classifier agrees with
+ */
+function scoreCandidate(verb: VerbInfo): number {
+  let score = isKnownVerb(verb) ? 2 : 0;
+  try {
+    if (classifyVerb(verb.dictionaryForm).type === verb.type) score += 1;
+  } catch {
+    // Unclassifiable candidates were already rejected
+  }
+  return score;
+}
+
+/**
+ * Score of the input read as a dictionary form itself, or -1 if it is not
+ * a verb
+ */
+function scoreInput(text: string): number {
+  try {
+    const verb = classifyVerb(text);
+    return isAdjective(verb) || endsInCopula(text) ? -1 : scoreCandidate(verb);
+  } catch {
+    return -1;
+  }
+}
+
+// ============================================================================
+// Main Deconjugation Function
+// ============================================================================
+
+interface DeconjugationNode {
+  text: string;
+  /** Null for the input itself, which may be any kind */
+  kind: WordKind | null;
+  chain: DeconjugationStep[];
+  parent: DeconjugationNode | null;
+}
+
+interface ScoredResult extends DeconjugationResult {
+  score: number;
+}
+
+/**
+ * Follow every rule chain from `text` and return the accepted dictionary
+ * forms of verbs, most likely first
+ */
+function analyzeVerb(text: string): ScoredResult[] {
+  const start: DeconjugationNode = {
+    text,
+    kind: null,
+    chain: [],
+    parent: null,
+  };
+  const queue = [start];
+  const seen = new Set<string>();
+  const accepted: { node: DeconjugationNode; verb: VerbInfo }[] = [];
+
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (node.chain.length >= MAX_CHAIN_LENGTH) continue;
+
+    for (const rule of DECONJUGATION_RULES) {
+      if (node.kind !== null && !rule.in.includes(node.kind)) continue;
+      const matches = rule.exact
+        ? node.text === rule.from
+        : node.text.endsWith(rule.from);
+      if (!matches) continue;
+
+      const next = node.text.slice(0, -rule.from.length) + rule.to;
+      if (next.length < 2) continue;
+
+      const chain = [...rule.steps, ...node.chain];
+      const key = `${next}|${rule.out}|${chain.join()}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const child: DeconjugationNode = {
+        text: next,
+        kind: rule.out,
+        chain,
+        parent: node,
+      };
+      queue.push(child);
+
+      if (DICTIONARY_KINDS.includes(rule.out)) {
+        const verb = toVerbInfo(next, rule.out);
+        if (verb) accepted.push({ node: child, verb });
+      }
+    }
+  }
+
+  // Forms that lead on to another accepted candidate are intermediate
+  // steps (見られる on the way to 見る), unless they are known verbs
+  const intermediates = new Set<DeconjugationNode>();
+  for (const { node } of accepted) {
+    for (let parent = node.parent; parent; parent = parent.parent) {
+      intermediates.add(parent);
+    }
+  }
+
+  const results: ScoredResult[] = [];
+  const seenResults = new Set<string>();
+  for (const { node, verb } of accepted) {
+    if (intermediates.has(node) && !isKnownVerb(verb)) continue;
+
+    const key = `${verb.dictionaryForm}|${node.chain.join()}`;
+    if (seenResults.has(key)) continue;
+    seenResults.add(key);
+
+    results.push({ verb, chain: node.chain, score: scoreCandidate(verb) });
+  }
+
+  // Stable sort keeps rule order (passive before potential) within a score
+  return results.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Read `text` as an adjective form and return the adjectives it may come
+ * from
+ *
+ * Only known な-adjectives are matched, since any noun takes the copula
+ * (学生でした). A verb's ない and たい forms conjugate like い-adjectives,
+ * so an い-adjective that reads at least as well as one (食べない) is left
+ * to the verb rules.
+ */
+function analyzeAdjective(text: string): ScoredResult[] {
+  const candidates = [
+    ...I_ADJECTIVE_ENDINGS.map(([ending, chain]) => ({
+      ending,
+      chain,
+      word: text.slice(0, -ending.length) + 'い',
+      type: 'i-adjective',
+    })),
+    ...NA_ADJECTIVE_ENDINGS.map(([ending, chain]) => ({
+      ending,
+      chain,
+      word: text.slice(0, -ending.length),
+      type: 'na-adjective',
+    })),
+  ].filter(({ ending, word }) => text.endsWith(ending) && word.length >= 2);
+
+  const results: ScoredResult[] = [];
+  for (const { chain, word, type } of candidates) {
+    let adjective: VerbInfo;
+    try {
+      adjective = classifyVerb(word);
+    } catch {
+      continue;
+    }
+    // 高くない on the way to 高い
+    if (adjective.type !== type || analyzeAdjective(word).length > 0) continue;
+
+    const score = type === 'na-adjective' ? 3 : 1;
+    const [verbReading] = analyzeVerb(word);
+    if (verbReading && verbReading.score >= score) continue;
+
+    results.push({ verb: adjective, chain, score });
+  }
+  return results;
+}
+
+/**
+ * Read `text` as an adjective or verb form, most likely first; adjectives
+ * come first within a score
+ */
+function analyze(text: string): ScoredResult[] {
+  return [...analyzeAdjective(text), ...analyzeVerb(text)].sort(
+    (a, b) => b.score - a.score,
+  );
+}
+
+/**
+ * Find every plausible dictionary form of an inflected verb or adjective
+ *
+ * Covers Godan, Ichidan and irregular verbs (する and 来る compounds, 行く,
+ * ある and the honorific verbs) and い- and な-adjectives. Without a
+ * dictionary, a form like 勝った can only be narrowed to 勝う, 勝つ or 勝る,
+ * so all are returned; a known verb (帰る for 帰った) wins over unknown
+ * readings, and an adjective wins over unknown verbs (高い for 高かった,
+ * not 高かる).
+ *
+ * @param input - An inflected form (kanji, hiragana, or mixed)
+ * @returns Dictionary forms with the chain of forms applied to each, most
+ *   likely first; empty if no analysis is as likely as reading the input as
+ *   a dictionary form (食べる is not 食ぶ + potential)
+ */
+export function deconjugate(input: string): DeconjugationResult[] {
+  const text = input.trim();
+  if (!isJapanese(text)) return [];
+
+  const results = analyze(text);
+  const topScore = results[0]?.score ?? -1;
+  if (topScore <= scoreInput(text)) return [];
+
+  const best = results.filter(result => result.score === topScore);
+  const adjectives = best.filter(result => isAdjective(result.verb));
+  return (adjectives.length > 0 ? adjectives : best).map(({ verb, chain }) => ({
+    verb,
+    chain,
+  }));
+}
+
+/**
+ * Check if an input is better read as an inflected verb or adjective than
+ * as a dictionary form (書けない, 食べさせられる, 高くない; not 食べる)
+ */
+export function isInflectedVerb(input: string): boolean {
+  const text = input.trim();
+  if (!isJapanese(text)) return false;
+
+  const [best] = analyze(text);
+  return best !== undefined && best.score > scoreInput(text);
+}
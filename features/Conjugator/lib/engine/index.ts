@@ -7,6 +7,7 @@ export {
   conjugate,
   conjugateOrThrow,
   conjugateToForm,
+  conjugateVerbInfo,
   isValidVerb,
   getVerbInfo,
   type ConjugateResult,
@@ -51,6 +52,16 @@ export {
   isHonorificVerb,
 } from './conjugateIrregular';
 
+// Adjective conjugation
+export {
+  conjugateAdjective,
+  getAdjectiveStem,
+  isAdjective,
+} from './conjugateAdjective';
+
+// Deconjugation
+export { deconjugate, isInflectedVerb } from './deconjugate';
+
 // Compound verb conjugation
 export {
   conjugateCompound,
@@ -454,9 +454,10 @@ export function romajiToHiragana(romaji: string): string {
   // Build reverse mapping
   const romajiToHiraganaMap: Record<string, string> = {};
 
-  // Add single characters
+  // Add single characters; the first kana for a romaji wins so small kana
+  // (ぃ, ゃ) and ぢ/づ do not replace い, や, じ and ず
   for (const [hiragana, rom] of Object.entries(HIRAGANA_TO_ROMAJI)) {
-    if (rom && rom.length > 0) {
+    if (rom && rom.length > 0 && !romajiToHiraganaMap[rom]) {
       romajiToHiraganaMap[rom] = hiragana;
     }
   }
@@ -117,6 +117,10 @@ function generateVerbKeywords(verb: VerbInfo): string[] {
     verbKeywords.push(`${verb.dictionaryForm} ru-verb`);
   } else if (verb.type === 'irregular') {
     verbKeywords.push(`${verb.dictionaryForm} irregular verb`);
+  } else if (verb.type === 'i-adjective') {
+    verbKeywords.push(`${verb.dictionaryForm} i-adjective`);
+  } else if (verb.type === 'na-adjective') {
+    verbKeywords.push(`${verb.dictionaryForm} na-adjective`);
   }
 
   return [...verbKeywords, ...BASE_KEYWORDS];
@@ -135,6 +139,10 @@ function getVerbTypeDisplay(verb: VerbInfo): string {
       if (verb.irregularType === 'suru') return 'する verb';
       if (verb.irregularType === 'kuru') return '来る verb';
       return 'Irregular';
+    case 'i-adjective':
+      return 'い-adjective';
+    case 'na-adjective':
+      return 'な-adjective';
     default:
       return verb.type;
   }
@@ -325,7 +325,8 @@ export function generateVerbSchema(
     if (verb.irregularType === 'suru') verbTypeDisplay = 'する verb';
     else if (verb.irregularType === 'kuru') verbTypeDisplay = '来る verb';
     else verbTypeDisplay = 'Irregular';
-  }
+  } else if (verb.type === 'i-adjective') verbTypeDisplay = 'い-adjective';
+  else if (verb.type === 'na-adjective') verbTypeDisplay = 'な-adjective';
 
   const schema: Record<string, unknown> = {
     '@type': 'DefinedTerm',
@@ -0,0 +1,43 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { VerbType } from '../types';
+import { DEFAULT_DRILL_FORM_IDS, DRILL_VERB_CLASSES } from '../lib/drill';
+
+interface IDrillState {
+  selectedFormIds: string[];
+  toggleFormId: (formId: string) => void;
+  setSelectedFormIds: (formIds: string[]) => void;
+
+  selectedVerbClasses: VerbType[];
+  toggleVerbClass: (verbClass: VerbType) => void;
+}
+
+const toggle = <T>(list: T[], value: T): T[] =>
+  list.includes(value)
+    ? list.filter(current => current !== value)
+    : [...list, value];
+
+const useDrillStore = create<IDrillState>()(
+  persist(
+    set => ({
+      selectedFormIds: DEFAULT_DRILL_FORM_IDS,
+      toggleFormId: formId =>
+        set(state => ({
+          selectedFormIds: toggle(state.selectedFormIds, formId),
+        })),
+      setSelectedFormIds: selectedFormIds => set({ selectedFormIds }),
+
+      selectedVerbClasses: DRILL_VERB_CLASSES,
+      toggleVerbClass: verbClass =>
+        set(state => ({
+          selectedVerbClasses: toggle(state.selectedVerbClasses, verbClass),
+        })),
+    }),
+    {
+      name: 'kanadojo-conjugation-drill',
+      version: 0,
+    },
+  ),
+);
+
+export default useDrillStore;
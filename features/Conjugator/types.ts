@@ -10,12 +10,20 @@
 // ============================================================================
 
 /**
- * The three main verb types in Japanese
+ * The three main verb types in Japanese, plus the two conjugating adjective
+ * classes, which share the same engine
  * - godan: Five-grade verbs (u-verbs) that conjugate across five vowel sounds
  * - ichidan: One-grade verbs (ru-verbs) ending in -iru or -eru
  * - irregular: Verbs that don't follow standard patterns (する, 来る, etc.)
+ * - i-adjective: Adjectives ending in い that conjugate themselves (高い)
+ * - na-adjective: Adjectives that take な before nouns and conjugate via だ (静か)
  */
-export type VerbType = 'godan' | 'ichidan' | 'irregular';
+export type VerbType =
+  | 'godan'
+  | 'ichidan'
+  | 'irregular'
+  | 'i-adjective'
+  | 'na-adjective';
 
 /**
  * Specific irregular verb classifications
@@ -24,8 +32,15 @@ export type VerbType = 'godan' | 'ichidan' | 'irregular';
  * - aru: ある (existence verb with unique negative)
  * - iku: 行く (irregular te-form)
  * - honorific: くださる, なさる, いらっしゃる, おっしゃる, ござる
+ * - ii: いい and its compounds (かっこいい), which conjugate from よい
  */
-export type IrregularType = 'suru' | 'kuru' | 'aru' | 'iku' | 'honorific';
+export type IrregularType =
+  | 'suru'
+  | 'kuru'
+  | 'aru'
+  | 'iku'
+  | 'honorific'
+  | 'ii';
 
 /**
  * Complete information about a verb's classification and structure
@@ -37,7 +52,7 @@ export interface VerbInfo {
   reading: string;
   /** Romanized pronunciation */
   romaji: string;
-  /** Verb classification (godan, ichidan, or irregular) */
+  /** Verb classification (godan, ichidan, irregular, or an adjective class) */
   type: VerbType;
   /** The stem portion used for conjugation */
   stem: string;
@@ -49,6 +64,21 @@ export interface VerbInfo {
   compoundPrefix?: string;
 }
 
+/**
+ * A verb used in the conjugation drill, with its reading and class stated
+ * explicitly because a reading alone can be ambiguous (きる: 着る or 切る)
+ */
+export interface DrillVerb {
+  /** Dictionary form as usually written (may include kanji) */
+  dictionaryForm: string;
+  /** Hiragana reading of the dictionary form */
+  reading: string;
+  /** English meaning */
+  meaning: string;
+  /** Verb classification */
+  type: VerbType;
+}
+
 // ============================================================================
 // Conjugation Form Types
 // ============================================================================
@@ -149,6 +179,74 @@ export interface FormDefinition {
   formality: Formality;
 }
 
+// ============================================================================
+// Drill Types
+// ============================================================================
+
+/**
+ * One drill prompt: conjugate `verb` into `form`
+ */
+export interface DrillQuestion {
+  /** Stable identifier (`dictionaryForm:formId`) */
+  id: string;
+  verb: DrillVerb;
+  form: FormDefinition;
+  /** Expected answer in hiragana */
+  answer: string;
+  /** Expected answer as usually written (may include kanji) */
+  answerWritten: string;
+  /** Other accepted hiragana answers (e.g. colloquial potential 見れる) */
+  alternatives: string[];
+}
+
+/**
+ * Godan te-form accuracy for one dictionary ending
+ */
+export interface TeFormWeakness {
+  /** Dictionary ending (う, く, ぐ, ...), or 行く for the one exception */
+  key: string;
+  /** The te-form ending learners should produce (って, いて, ...) */
+  teEnding: string;
+  correct: number;
+  incorrect: number;
+  /** Accuracy as a percentage (0-100) */
+  accuracy: number;
+  /** Most recent wrong answers, newest first */
+  recentMistakes: { verb: string; answer: string; expected: string }[];
+}
+
+// ============================================================================
+// Deconjugation Types
+// ============================================================================
+
+/**
+ * One form applied on the way from a dictionary form to an inflected form
+ */
+export type DeconjugationStep =
+  | 'causative'
+  | 'passive'
+  | 'potential'
+  | 'desire'
+  | 'polite'
+  | 'te'
+  | 'progressive'
+  | 'negative'
+  | 'past'
+  | 'volitional'
+  | 'imperative'
+  | 'conditional-ba'
+  | 'conditional-tara';
+
+/**
+ * A plausible dictionary form for an inflected input
+ */
+export interface DeconjugationResult {
+  /** The dictionary form, classified */
+  verb: VerbInfo;
+  /** Forms applied to the dictionary form, in order (causative → passive → negative → past) */
+  chain: DeconjugationStep[];
+}
+
 // ============================================================================
 // Godan Conjugation Types
 // ============================================================================
@@ -0,0 +1,168 @@
+/**
+ * Property-Based Tests for the Daily Dojo
+ *
+ * **Feature: daily-challenge**
+ * Questions are drawn from a fixed pool with a date-seeded generator, so
+ * every player gets the same run; results are shared as an emoji grid and
+ * counted into streaks.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { buildDailyQuestions } from '../lib/dailyQuestions';
+import { getDailyStreaks } from '../lib/dailyHistory';
+import {
+  createDailyRandom,
+  getDailyDate,
+  getDailyNumber,
+  toDayIndex,
+} from '../lib/dailySeed';
+import { formatDailyShareText, getDailyImagePath } from '../lib/dailyShare';
+import type { DailyItem, DailyResult } from '../types';
+
+const POOL: DailyItem[] = Array.from({ length: 40 }, (_, index) => ({
+  prompt: `p${index}`,
+  // Some items share an answer, like し and シ
+  answer: `a${index % 30}`,
+}));
+
+const dateArb = fc
+  .date({ min: new Date(2026, 0, 1), max: new Date(2030, 11, 31) })
+  .filter(date => !Number.isNaN(date.getTime()))
+  .map(date => getDailyDate(date));
+
+const contentTypeArb = fc.constantFrom(
+  'kana' as const,
+  'kanji' as const,
+  'vocabulary' as const,
+);
+
+const result = (
+  date: string,
+  answers: boolean[] = [true, true, false],
+): DailyResult => ({
+  date,
+  contentType: 'kana',
+  answers,
+  timeMs: 83_000,
+  completedAt: 0,
+});
+
+describe('daily questions', () => {
+  it('are the same for everyone on the same day', () => {
+    fc.assert(
+      fc.property(dateArb, contentTypeArb, (date, contentType) => {
+        expect(
+          buildDailyQuestions(POOL, createDailyRandom(date, contentType)),
+        ).toEqual(
+          buildDailyQuestions([...POOL], createDailyRandom(date, contentType)),
+        );
+      }),
+    );
+  });
+
+  it('change from one day to the next', () => {
+    const prompts = (date: string) =>
+      buildDailyQuestions(POOL, createDailyRandom(date, 'kana')).map(
+        question => question.prompt,
+      );
+    expect(prompts('2026-10-18')).not.toEqual(prompts('2026-10-19'));
+  });
+
+  it('offer distinct options with one right answer', () => {
+    fc.assert(
+      fc.property(dateArb, contentTypeArb, (date, contentType) => {
+        const questions = buildDailyQuestions(
+          POOL,
+          createDailyRandom(date, contentType),
+        );
+        expect(questions).toHaveLength(10);
+        expect(new Set(questions.map(q => q.prompt)).size).toBe(10);
+        for (const question of questions) {
+          expect(question.options).toHaveLength(4);
+          expect(new Set(question.options).size).toBe(4);
+          expect(
+            question.options.filter(option => option === question.answer),
+          ).toHaveLength(1);
+        }
+      }),
+    );
+  });
+
+  it('shrink to a small pool', () => {
+    const questions = buildDailyQuestions(
+      POOL.slice(0, 3),
+      createDailyRandom('2026-10-18', 'kanji'),
+    );
+    expect(questions).toHaveLength(3);
+    questions.forEach(question => expect(question.options).toHaveLength(3));
+  });
+});
+
+describe('dates', () => {
+  it('numbers days from the first daily', () => {
+    expect(getDailyNumber('2026-01-01')).toBe(1);
+    expect(getDailyNumber('2026-10-18')).toBe(291);
+    expect(getDailyDate(new Date(2026, 2, 5, 23, 59))).toBe('2026-03-05');
+  });
+
+  it('counts consecutive days across months', () => {
+    fc.assert(
+      fc.property(dateArb, date => {
+        const [year, month, day] = date.split('-').map(Number);
+        const next = getDailyDate(new Date(year, month - 1, day + 1, 12));
+        expect(toDayIndex(next) - toDayIndex(date)).toBe(1);
+      }),
+    );
+  });
+});
+
+describe('streaks', () => {
+  it('counts the current and longest runs of played days', () => {
+    const results = [
+      result('2026-10-10', [true, true]),
+      result('2026-10-11'),
+      result('2026-10-12'),
+      result('2026-10-16'),
+      result('2026-10-17', [true]),
+    ];
+    expect(getDailyStreaks(results, '2026-10-18')).toEqual({
+      current: 2,
+      longest: 3,
+      played: 5,
+      perfect: 2,
+    });
+    expect(getDailyStreaks(results, '2026-10-19').current).toBe(0);
+    expect(
+      getDailyStreaks([...results, result('2026-10-18')], '2026-10-18').current,
+    ).toBe(3);
+  });
+});
+
+describe('sharing', () => {
+  it('formats a Wordle-style grid', () => {
+    const shared = result('2026-10-18', [
+      true,
+      true,
+      false,
+      true,
+      true,
+      true,
+      false,
+    ]);
+    expect(formatDailyShareText(shared, 'https://kanadojo.com/daily')).toBe(
+      [
+        'KanaDojo Daily あ Kana #291 5/7 ⏱ 1:23',
+        '🟩🟩🟥🟩🟩',
+        '🟩🟥',
+        'https://kanadojo.com/daily',
+      ].join('\n'),
+    );
+
+    const params = new URL(getDailyImagePath(shared), 'https://kanadojo.com')
+      .searchParams;
+    expect(params.get('type')).toBe('daily');
+    expect(params.get('grid')).toBe('1101110');
+    expect(params.get('title')).toBe('Daily Dojo #291');
+  });
+});
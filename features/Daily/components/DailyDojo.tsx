@@ -0,0 +1,186 @@
+'use client';
+
+import clsx from 'clsx';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { CalendarCheck, Play } from 'lucide-react';
+import { useClick } from '@/shared/hooks/useAudio';
+import type { DailyContentType, DailyResult } from '../types';
+import useDailyStore from '../store/useDailyStore';
+import { useDailyItems } from '../hooks/useDailyItems';
+import { buildDailyQuestions } from '../lib/dailyQuestions';
+import {
+  getDailyResultKey,
+  getDailyScore,
+  getDailyStreaks,
+} from '../lib/dailyHistory';
+import {
+  createDailyRandom,
+  getDailyDate,
+  getDailyNumber,
+} from '../lib/dailySeed';
+import { DAILY_CONTENT_TYPES, formatDailyGrid } from '../lib/dailyShare';
+import DailyGame from './DailyGame';
+import DailyResultCard from './DailyResultCard';
+
+// Past results listed under today's
+const RECENT_RESULT_COUNT = 7;
+
+/**
+ * The Daily Dojo: one challenge a day per dojo, the same for everyone,
+ * with streaks and a shareable result
+ */
+const DailyDojo = () => {
+  const { playClick } = useClick();
+  const results = useDailyStore(state => state.results);
+  const recordDailyResult = useDailyStore(state => state.recordDailyResult);
+
+  const [contentType, setContentType] = useState<DailyContentType>('kana');
+  const [isPlaying, setIsPlaying] = useState(false);
+  // The date and history live on the player's device, so only render them
+  // after hydration
+  const [today, setToday] = useState<string | null>(null);
+
+  useEffect(() => {
+    setToday(getDailyDate());
+  }, []);
+
+  const { items, isLoading } = useDailyItems(contentType);
+  const questions = useMemo(
+    () =>
+      today
+        ? buildDailyQuestions(items, createDailyRandom(today, contentType))
+        : [],
+    [items, today, contentType],
+  );
+
+  const dojoResults = useMemo(
+    () =>
+      Object.values(results)
+        .filter(result => result.contentType === contentType)
+        .sort((a, b) => b.date.localeCompare(a.date)),
+    [results, contentType],
+  );
+
+  const handleFinish = useCallback(
+    (result: DailyResult) => {
+      recordDailyResult(result);
+      setIsPlaying(false);
+    },
+    [recordDailyResult],
+  );
+
+  if (!today) return null;
+
+  const todayResult = results[getDailyResultKey(today, contentType)];
+  const streaks = getDailyStreaks(dojoResults, today);
+  const recentResults = dojoResults
+    .filter(result => result.date !== today)
+    .slice(0, RECENT_RESULT_COUNT);
+
+  return (
+    <div className='flex flex-col gap-6'>
+      <div className='flex flex-col gap-2 rounded-2xl border-2 border-(--border-color) bg-(--card-color) p-4'>
+        <h1 className='text-2xl font-bold text-(--main-color)'>
+          Daily Dojo #{getDailyNumber(today)}
+        </h1>
+        <p className='text-(--secondary-color)'>
+          Ten questions a day per dojo, the same for everyone. One pick per
+          question; share your grid when you are done.
+        </p>
+      </div>
+
+      <div className='flex flex-row flex-wrap gap-2'>
+        {DAILY_CONTENT_TYPES.map(({ value, label, icon }) => (
+          <button
+            key={value}
+            type='button'
+            disabled={isPlaying}
+            onClick={() => {
+              playClick();
+              setContentType(value);
+            }}
+            className={clsx(
+              'flex flex-row items-center gap-2 rounded-xl px-4 py-2 transition-colors duration-250 hover:cursor-pointer disabled:cursor-not-allowed',
+              contentType === value
+                ? 'bg-(--main-color) text-(--background-color)'
+                : 'border border-(--border-color) text-(--secondary-color) hover:text-(--main-color)',
+            )}
+          >
+            <span lang='ja'>{icon}</span>
+            {label}
+            {results[getDailyResultKey(today, value)] && (
+              <CalendarCheck size={16} />
+            )}
+          </button>
+        ))}
+      </div>
+
+      <div className='grid grid-cols-2 gap-2 sm:grid-cols-4'>
+        {[
+          { label: 'Current streak', value: streaks.current },
+          { label: 'Longest streak', value: streaks.longest },
+          { label: 'Played', value: streaks.played },
+          { label: 'Perfect', value: streaks.perfect },
+        ].map(({ label, value }) => (
+          <div
+            key={label}
+            className='flex flex-col items-center rounded-xl border border-(--border-color) p-3'
+          >
+            <span className='text-2xl font-bold text-(--main-color)'>
+              {value}
+            </span>
+            <span className='text-sm text-(--secondary-color)'>{label}</span>
+          </div>
+        ))}
+      </div>
+
+      {todayResult ? (
+        <DailyResultCard result={todayResult} />
+      ) : isPlaying ? (
+        <DailyGame
+          key={contentType}
+          date={today}
+          contentType={contentType}
+          questions={questions}
+          onFinish={handleFinish}
+        />
+      ) : (
+        <button
+          type='button'
+          disabled={isLoading || questions.length === 0}
+          onClick={() => {
+            playClick();
+            setIsPlaying(true);
+          }}
+          className='flex flex-row items-center justify-center gap-2 rounded-xl bg-(--main-color) px-4 py-3 text-(--background-color) hover:cursor-pointer disabled:cursor-not-allowed disabled:opacity-50'
+        >
+          <Play size={20} />
+          {isLoading ? 'Loading…' : "Start today's challenge"}
+        </button>
+      )}
+
+      {recentResults.length > 0 && (
+        <ul className='flex flex-col gap-2'>
+          {recentResults.map(result => (
+            <li
+              key={result.date}
+              className='flex flex-row items-center gap-4 rounded-2xl border border-(--border-color) bg-(--card-color) px-4 py-3'
+            >
+              <span className='flex-1 text-(--secondary-color)'>
+                #{getDailyNumber(result.date)} · {result.date}
+              </span>
+              <span className='text-sm'>
+                {formatDailyGrid(result.answers).replace(/\n/g, '')}
+              </span>
+              <span className='text-(--main-color)'>
+                {getDailyScore(result)}/{result.answers.length}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DailyDojo;
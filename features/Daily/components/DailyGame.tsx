@@ -0,0 +1,168 @@
+'use client';
+
+import clsx from 'clsx';
+import { useEffect, useRef, useState } from 'react';
+import { useCorrect, useError } from '@/shared/hooks/useAudio';
+import { pickGameKeyMappings } from '@/shared/lib/keyMappings';
+import { buttonBorderStyles } from '@/shared/lib/styles';
+import FuriganaText from '@/shared/components/text/FuriganaText';
+import { useGameStats } from '@/features/Progress';
+import type { DailyContentType, DailyQuestion, DailyResult } from '../types';
+
+const GAME_MODE = 'daily';
+
+// How long the right answer stays highlighted before the next question
+const REVEAL_MS = 900;
+
+interface DailyGameProps {
+  date: string;
+  contentType: DailyContentType;
+  questions: DailyQuestion[];
+  onFinish: (result: DailyResult) => void;
+}
+
+/**
+ * One pick per question, Wordle-style: a wrong pick is final, and the right
+ * answer is shown before moving on.
+ */
+const DailyGame = ({
+  date,
+  contentType,
+  questions,
+  onFinish,
+}: DailyGameProps) => {
+  const { playCorrect } = useCorrect();
+  const { playErrorTwice } = useError();
+  const gameStats = useGameStats();
+
+  const [index, setIndex] = useState(0);
+  const [answers, setAnswers] = useState<boolean[]>([]);
+  const [picked, setPicked] = useState<string | null>(null);
+  const startedAt = useRef(Date.now());
+  const buttonRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  const question = questions[index];
+  const optionCount = question?.options.length ?? 0;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const optionIndex = pickGameKeyMappings[event.code];
+      if (optionIndex !== undefined && optionIndex < optionCount) {
+        buttonRefs.current[optionIndex]?.click();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [optionCount]);
+
+  // Move on once the answer has been shown
+  useEffect(() => {
+    if (picked === null) return;
+    const timeout = setTimeout(() => {
+      if (answers.length === questions.length) {
+        onFinish({
+          date,
+          contentType,
+          answers,
+          timeMs: Date.now() - startedAt.current,
+          completedAt: Date.now(),
+        });
+        return;
+      }
+      setPicked(null);
+      setIndex(answers.length);
+    }, REVEAL_MS);
+    return () => clearTimeout(timeout);
+  }, [picked, answers, questions.length, date, contentType, onFinish]);
+
+  if (!question) return null;
+
+  const handlePick = (option: string) => {
+    if (picked !== null) return;
+    const isCorrect = option === question.answer;
+    if (isCorrect) {
+      playCorrect();
+      gameStats.recordCorrect(contentType, question.prompt, {
+        gameMode: GAME_MODE,
+      });
+    } else {
+      playErrorTwice();
+      gameStats.recordIncorrect(
+        contentType,
+        question.prompt,
+        option,
+        question.answer,
+        { gameMode: GAME_MODE },
+      );
+    }
+    setPicked(option);
+    setAnswers(prev => [...prev, isCorrect]);
+  };
+
+  return (
+    <div className='flex flex-col items-center gap-6 rounded-2xl border-2 border-(--border-color) bg-(--card-color) p-4'>
+      <div className='flex w-full flex-row items-center justify-between'>
+        <span className='text-(--secondary-color)'>
+          {index + 1} / {questions.length}
+        </span>
+        <span className='flex flex-row gap-1'>
+          {questions.map((_, questionIndex) => (
+            <span
+              key={questionIndex}
+              className={clsx(
+                'h-3 w-3 rounded-sm',
+                answers[questionIndex] === undefined
+                  ? 'bg-(--border-color)'
+                  : answers[questionIndex]
+                    ? 'bg-green-500'
+                    : 'bg-red-500',
+              )}
+            />
+          ))}
+        </span>
+      </div>
+
+      <p
+        className='text-6xl font-medium text-(--main-color) sm:text-7xl'
+        lang='ja'
+      >
+        <FuriganaText text={question.prompt} reading={question.reading} />
+      </p>
+
+      <div className='grid w-full grid-cols-1 gap-4 sm:grid-cols-2'>
+        {question.options.map((option, optionIndex) => {
+          const isAnswer = picked !== null && option === question.answer;
+          const isWrongPick = picked === option && !isAnswer;
+          return (
+            <button
+              key={option}
+              ref={elem => {
+                buttonRefs.current[optionIndex] = elem;
+              }}
+              type='button'
+              disabled={picked !== null}
+              onClick={() => handlePick(option)}
+              className={clsx(
+                'flex flex-row items-center justify-center gap-2 px-4 pt-3 pb-5 text-2xl',
+                buttonBorderStyles,
+                'border-b-4',
+                isAnswer && 'border-green-500 text-green-500',
+                isWrongPick && 'border-red-500 text-red-500',
+                !isAnswer &&
+                  !isWrongPick &&
+                  'border-(--secondary-color)/50 text-(--secondary-color) hover:border-(--secondary-color)',
+              )}
+            >
+              {option}
+              <span className='hidden text-xs text-(--border-color) lg:inline'>
+                {optionIndex + 1}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DailyGame;
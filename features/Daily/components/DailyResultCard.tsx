@@ -0,0 +1,109 @@
+'use client';
+
+import { useState } from 'react';
+import { Copy, Image as ImageIcon, Share2 } from 'lucide-react';
+import { useClick } from '@/shared/hooks/useAudio';
+import type { DailyResult } from '../types';
+import { getDailyScore } from '../lib/dailyHistory';
+import { getDailyNumber } from '../lib/dailySeed';
+import {
+  formatDailyGrid,
+  formatDailyShareText,
+  formatDailyTime,
+  getDailyImagePath,
+} from '../lib/dailyShare';
+
+interface DailyResultCardProps {
+  result: DailyResult;
+}
+
+/**
+ * Today's result with its emoji grid, ready to share as text or as the
+ * image card
+ */
+const DailyResultCard = ({ result }: DailyResultCardProps) => {
+  const { playClick } = useClick();
+  const [message, setMessage] = useState<string | null>(null);
+
+  const shareText = formatDailyShareText(
+    result,
+    `${window.location.origin}${window.location.pathname}`,
+  );
+  const imagePath = getDailyImagePath(result);
+
+  const copyText = async () => {
+    playClick();
+    try {
+      await navigator.clipboard.writeText(shareText);
+      setMessage('Result copied');
+    } catch {
+      setMessage('Could not copy, select the text above instead');
+    }
+  };
+
+  const share = async () => {
+    playClick();
+    if (!navigator.share) {
+      await copyText();
+      return;
+    }
+    try {
+      await navigator.share({
+        title: `KanaDojo Daily #${getDailyNumber(result.date)}`,
+        text: shareText,
+      });
+    } catch {
+      // Closing the share sheet rejects too; nothing to report
+    }
+  };
+
+  return (
+    <div className='flex flex-col items-center gap-4 rounded-2xl border-2 border-(--border-color) bg-(--card-color) p-6'>
+      <p className='text-xl text-(--secondary-color)'>
+        Daily Dojo #{getDailyNumber(result.date)}
+      </p>
+      <p className='text-5xl font-bold text-(--main-color)'>
+        {getDailyScore(result)}/{result.answers.length}
+      </p>
+      <p className='text-(--secondary-color)'>
+        {formatDailyTime(result.timeMs)}
+      </p>
+      <pre className='text-2xl leading-tight'>
+        {formatDailyGrid(result.answers)}
+      </pre>
+
+      <div className='flex flex-row flex-wrap justify-center gap-2'>
+        <button
+          type='button'
+          onClick={share}
+          className='flex flex-row items-center gap-2 rounded-xl bg-(--main-color) px-4 py-3 text-(--background-color) hover:cursor-pointer'
+        >
+          <Share2 size={20} />
+          Share
+        </button>
+        <button
+          type='button'
+          onClick={copyText}
+          className='flex flex-row items-center gap-2 rounded-xl border border-(--border-color) px-4 py-3 text-(--secondary-color) hover:cursor-pointer hover:text-(--main-color)'
+        >
+          <Copy size={20} />
+          Copy
+        </button>
+        <a
+          href={imagePath}
+          target='_blank'
+          rel='noopener noreferrer'
+          onClick={() => playClick()}
+          className='flex flex-row items-center gap-2 rounded-xl border border-(--border-color) px-4 py-3 text-(--secondary-color) hover:text-(--main-color)'
+        >
+          <ImageIcon size={20} />
+          Image
+        </a>
+      </div>
+
+      {message && <p className='text-sm text-(--secondary-color)'>{message}</p>}
+    </div>
+  );
+};
+
+export default DailyResultCard;
@@ -0,0 +1,13 @@
+'use client';
+
+import useDailyStore from '../store/useDailyStore';
+
+type DailyStoreState = ReturnType<typeof useDailyStore.getState>;
+
+export const dailyBackup = {
+  getHistoryState: (): DailyStoreState => useDailyStore.getState(),
+  setHistoryState: (partial: Partial<DailyStoreState>) =>
+    useDailyStore.setState(partial),
+};
+
+export type { DailyStoreState };
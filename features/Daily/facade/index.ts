@@ -0,0 +1,2 @@
+export { dailyBackup } from './backup';
+export type { DailyStoreState } from './backup';
@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useKanaContent } from '@/features/Kana';
+import { kanjiDataService } from '@/features/Kanji/services/kanjiDataService';
+import { vocabDataService } from '@/features/Vocabulary/services/vocabDataService';
+import type { DailyContentType, DailyItem } from '../types';
+
+/**
+ * The pool a dojo's daily challenge draws from: every kana, or the N5
+ * kanji and words. It ignores the player's own selection so that everyone
+ * gets the same questions.
+ */
+export function useDailyItems(contentType: DailyContentType) {
+  const { allGroups } = useKanaContent();
+  const [loadedItems, setLoadedItems] = useState<{
+    contentType: DailyContentType;
+    items: DailyItem[];
+  } | null>(null);
+
+  useEffect(() => {
+    if (contentType === 'kana') return;
+
+    let cancelled = false;
+    const load =
+      contentType === 'kanji'
+        ? kanjiDataService.getKanjiByLevel('n5').then(kanji =>
+            kanji.map(entry => ({
+              prompt: entry.kanjiChar,
+              answer: entry.meanings[0] ?? '',
+            })),
+          )
+        : vocabDataService.getVocabByLevel('n5').then(words =>
+            words.map(word => ({
+              prompt: word.word,
+              answer: word.meanings[0] ?? '',
+              reading: word.reading,
+            })),
+          );
+
+    load
+      .then(items => {
+        if (!cancelled) setLoadedItems({ contentType, items });
+      })
+      .catch(error => {
+        console.error('Failed to load the daily challenge:', error);
+        if (!cancelled) setLoadedItems({ contentType, items: [] });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [contentType]);
+
+  const kanaItems = useMemo(
+    () =>
+      allGroups.flatMap(group =>
+        group.kana.map((character, index) => ({
+          prompt: character,
+          answer: group.romanji[index],
+        })),
+      ),
+    [allGroups],
+  );
+
+  if (contentType === 'kana') return { items: kanaItems, isLoading: false };
+  if (loadedItems?.contentType !== contentType) {
+    return { items: [], isLoading: true };
+  }
+  return { items: loadedItems.items, isLoading: false };
+}
@@ -0,0 +1,35 @@
+// ============================================================================
+// Daily Feature - Public API
+// ============================================================================
+
+// Facades
+export { dailyBackup } from './facade';
+export type { DailyStoreState } from './facade';
+
+// Types
+export type {
+  DailyContentType,
+  DailyItem,
+  DailyQuestion,
+  DailyResult,
+  DailyStreaks,
+} from './types';
+
+// Seeding & sharing
+export {
+  getDailyDate,
+  getDailyNumber,
+  createDailyRandom,
+} from './lib/dailySeed';
+export { buildDailyQuestions } from './lib/dailyQuestions';
+export { getDailyStreaks } from './lib/dailyHistory';
+export { formatDailyShareText, getDailyImagePath } from './lib/dailyShare';
+
+// Components (page-level)
+export { default as DailyDojo } from './components/DailyDojo';
+
+// ============================================================================
+// PRIVATE - DO NOT IMPORT DIRECTLY
+// ============================================================================
+// - store/useDailyStore.ts (use dailyBackup for backups)
+// - hooks/useDailyItems.ts (internal)
@@ -0,0 +1,49 @@
+import type { DailyContentType, DailyResult, DailyStreaks } from '../types';
+import { toDayIndex } from './dailySeed';
+
+export const getDailyResultKey = (
+  date: string,
+  contentType: DailyContentType,
+) => `${date}:${contentType}`;
+
+export const getDailyScore = (result: DailyResult) =>
+  result.answers.filter(Boolean).length;
+
+export const isPerfectDaily = (result: DailyResult) =>
+  result.answers.length > 0 && result.answers.every(Boolean);
+
+/**
+ * Streaks of one dojo's daily challenge. The current streak still counts
+ * when today is not played yet, as long as yesterday was.
+ */
+export function getDailyStreaks(
+  results: DailyResult[],
+  today: string,
+): DailyStreaks {
+  const days = [...new Set(results.map(result => toDayIndex(result.date)))]
+    .filter(day => day <= toDayIndex(today))
+    .sort((a, b) => a - b);
+  const played = new Set(days);
+
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    run = index > 0 && days[index - 1] === day - 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  let current = 0;
+  let day = toDayIndex(today);
+  if (!played.has(day)) day--;
+  while (played.has(day)) {
+    current++;
+    day--;
+  }
+
+  return {
+    current,
+    longest,
+    played: played.size,
+    perfect: results.filter(isPerfectDaily).length,
+  };
+}
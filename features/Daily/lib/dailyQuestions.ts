@@ -0,0 +1,38 @@
+import type { Random } from 'random-js';
+import type { DailyItem, DailyQuestion } from '../types';
+
+export const DAILY_QUESTION_COUNT = 10;
+export const DAILY_OPTION_COUNT = 4;
+
+/**
+ * Draw the day's questions from a pool. The pool must be the same for
+ * every player (not their dojo selection) and `random` seeded by the date,
+ * see createDailyRandom. Items repeating a prompt are dropped, and the
+ * wrong options never share the correct answer.
+ */
+export function buildDailyQuestions(
+  items: DailyItem[],
+  random: Random,
+  count = DAILY_QUESTION_COUNT,
+  optionCount = DAILY_OPTION_COUNT,
+): DailyQuestion[] {
+  const seen = new Set<string>();
+  const pool = items.filter(item => {
+    if (!item.answer || seen.has(item.prompt)) return false;
+    seen.add(item.prompt);
+    return true;
+  });
+  const answers = [...new Set(pool.map(item => item.answer))];
+
+  return random.sample(pool, Math.min(count, pool.length)).map(item => {
+    const wrongAnswers = answers.filter(answer => answer !== item.answer);
+    const distractors = random.sample(
+      wrongAnswers,
+      Math.min(optionCount - 1, wrongAnswers.length),
+    );
+    return {
+      ...item,
+      options: random.shuffle([item.answer, ...distractors]),
+    };
+  });
+}
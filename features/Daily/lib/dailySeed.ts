@@ -0,0 +1,45 @@
+import { MersenneTwister19937, Random } from 'random-js';
+import type { DailyContentType } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Daily Dojo #1
+export const DAILY_EPOCH = '2026-01-01';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * The local calendar date as YYYY-MM-DD. Players share a challenge by
+ * date, so someone in Tokyo and someone in Paris both get the 18th's
+ * questions on their own 18th.
+ */
+export function getDailyDate(now: Date = new Date()): string {
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/**
+ * Days since 1970-01-01 of a YYYY-MM-DD date, ignoring time zones
+ */
+export function toDayIndex(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+/**
+ * The puzzle number shown in results, counting from DAILY_EPOCH
+ */
+export function getDailyNumber(date: string): number {
+  return toDayIndex(date) - toDayIndex(DAILY_EPOCH) + 1;
+}
+
+/**
+ * A random-js engine seeded by the date and dojo, so every player draws
+ * the same questions and options in the same order
+ */
+export function createDailyRandom(
+  date: string,
+  contentType: DailyContentType,
+): Random {
+  const seed = [...`${date}:${contentType}`].map(char => char.codePointAt(0)!);
+  return new Random(MersenneTwister19937.seedWithArray(seed));
+}
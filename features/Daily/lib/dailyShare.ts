@@ -0,0 +1,76 @@
+import type { DailyContentType, DailyResult } from '../types';
+import { getDailyScore } from './dailyHistory';
+import { getDailyNumber } from './dailySeed';
+
+export const DAILY_CONTENT_TYPES: {
+  value: DailyContentType;
+  label: string;
+  icon: string;
+}[] = [
+  { value: 'kana', label: 'Kana', icon: 'あ' },
+  { value: 'kanji', label: 'Kanji', icon: '漢' },
+  { value: 'vocabulary', label: 'Vocabulary', icon: '語' },
+];
+
+export const DAILY_URL = 'https://kanadojo.com/daily';
+
+// Squares per row of the shared grid
+const GRID_WIDTH = 5;
+
+const getContentType = (contentType: DailyContentType) =>
+  DAILY_CONTENT_TYPES.find(entry => entry.value === contentType)!;
+
+export function formatDailyTime(timeMs: number): string {
+  const seconds = Math.round(timeMs / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * The answers as rows of 🟩 (right on the first pick) and 🟥
+ */
+export function formatDailyGrid(answers: boolean[]): string {
+  const rows: string[] = [];
+  for (let i = 0; i < answers.length; i += GRID_WIDTH) {
+    rows.push(
+      answers
+        .slice(i, i + GRID_WIDTH)
+        .map(isCorrect => (isCorrect ? '🟩' : '🟥'))
+        .join(''),
+    );
+  }
+  return rows.join('\n');
+}
+
+/**
+ * Wordle-style result to paste anywhere:
+ *
+ *   KanaDojo Daily 漢 Kanji #291 8/10 ⏱ 1:23
+ *   🟩🟩🟥🟩🟩
+ *   🟩🟩🟩🟥🟩
+ *   https://kanadojo.com/daily
+ */
+export function formatDailyShareText(
+  result: DailyResult,
+  url = DAILY_URL,
+): string {
+  const { icon, label } = getContentType(result.contentType);
+  return [
+    `KanaDojo Daily ${icon} ${label} #${getDailyNumber(result.date)} ${getDailyScore(result)}/${result.answers.length} ⏱ ${formatDailyTime(result.timeMs)}`,
+    formatDailyGrid(result.answers),
+    url,
+  ].join('\n');
+}
+
+/**
+ * Path of the result card rendered by /api/og
+ */
+export function getDailyImagePath(result: DailyResult): string {
+  const { label } = getContentType(result.contentType);
+  const params = new URLSearchParams({
+    type: 'daily',
+    title: `Daily Dojo #${getDailyNumber(result.date)}`,
+    description: `${label} · ${getDailyScore(result)}/${result.answers.length} · ${formatDailyTime(result.timeMs)}`,
+    grid: result.answers.map(isCorrect => (isCorrect ? '1' : '0')).join(''),
+  });
+  return `/api/og?${params}`;
+}
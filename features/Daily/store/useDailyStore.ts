@@ -0,0 +1,33 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { DailyResult } from '../types';
+import { getDailyResultKey } from '../lib/dailyHistory';
+
+interface DailyState {
+  // Keyed by date and dojo, see getDailyResultKey
+  results: Record<string, DailyResult>;
+
+  // Only the first run of a day counts; replays are not recorded
+  recordDailyResult: (result: DailyResult) => void;
+}
+
+const useDailyStore = create<DailyState>()(
+  persist(
+    set => ({
+      results: {},
+
+      recordDailyResult: result =>
+        set(state => {
+          const key = getDailyResultKey(result.date, result.contentType);
+          if (state.results[key]) return state;
+          return { results: { ...state.results, [key]: result } };
+        }),
+    }),
+    {
+      name: 'kanadojo-daily',
+      partialize: state => ({ results: state.results }),
+    },
+  ),
+);
+
+export default useDailyStore;
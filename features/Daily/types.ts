@@ -0,0 +1,32 @@
+export type DailyContentType = 'kana' | 'kanji' | 'vocabulary';
+
+/**
+ * An item of a daily pool: the prompt shown and the answer to pick
+ */
+export interface DailyItem {
+  prompt: string;
+  answer: string;
+  /** Furigana for word prompts */
+  reading?: string;
+}
+
+export interface DailyQuestion extends DailyItem {
+  options: string[];
+}
+
+export interface DailyResult {
+  /** Local calendar date of the challenge, YYYY-MM-DD */
+  date: string;
+  contentType: DailyContentType;
+  /** Whether each question was answered right on the first pick */
+  answers: boolean[];
+  timeMs: number;
+  completedAt: number;
+}
+
+export interface DailyStreaks {
+  current: number;
+  longest: number;
+  played: number;
+  perfect: number;
+}
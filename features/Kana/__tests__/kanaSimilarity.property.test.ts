@@ -0,0 +1,58 @@
+/**
+ * Property-Based Tests for Kana Similarity
+ *
+ * **Feature: lookalike-distractors**
+ * Kana are scored by how easily they are mistaken for each other: listed
+ * lookalikes, and voiced forms of the same base kana.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { kana } from '../data/kana';
+import { KANA_LOOKALIKES } from '../data/lookalikes';
+import { getKanaSimilarity } from '../lib/kanaSimilarity';
+
+const allKana = [...new Set(kana.flatMap(group => group.kana))];
+
+describe('getKanaSimilarity', () => {
+  it('is symmetric, between 0 and 1, and 0 for the same kana', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...allKana),
+        fc.constantFrom(...allKana),
+        (a, b) => {
+          const similarity = getKanaSimilarity(a, b);
+          expect(similarity).toBe(getKanaSimilarity(b, a));
+          expect(similarity).toBeGreaterThanOrEqual(0);
+          expect(similarity).toBeLessThanOrEqual(1);
+          expect(getKanaSimilarity(a, a)).toBe(0);
+        },
+      ),
+    );
+  });
+
+  it('scores every listed lookalike pair as fully similar', () => {
+    for (const group of KANA_LOOKALIKES) {
+      for (const a of group) {
+        for (const b of group) {
+          if (a !== b) expect(getKanaSimilarity(a, b)).toBe(1);
+        }
+      }
+    }
+  });
+
+  it('relates voiced kana to their base and its lookalikes', () => {
+    expect(getKanaSimilarity('か', 'が')).toBe(0.75);
+    expect(getKanaSimilarity('ば', 'ぱ')).toBe(0.75);
+    expect(getKanaSimilarity('ツ', 'ヅ')).toBe(0.75);
+    expect(getKanaSimilarity('ぼ', 'ま')).toBe(1);
+    expect(getKanaSimilarity('あ', 'か')).toBe(0);
+  });
+
+  it('compares digraphs by their least alike characters', () => {
+    expect(getKanaSimilarity('きゃ', 'さゃ')).toBe(1);
+    expect(getKanaSimilarity('きゃ', 'きゅ')).toBe(1);
+    expect(getKanaSimilarity('きゃ', 'ぎゃ')).toBe(0.75);
+    expect(getKanaSimilarity('きゃ', 'き')).toBe(0);
+  });
+});
@@ -6,8 +6,9 @@ import { useStatsStore } from '@/features/Progress';
 import { generateKanaQuestion } from '@/features/Kana/lib/generateKanaQuestions';
 import type { KanaCharacter } from '@/features/Kana/lib/generateKanaQuestions';
 import { flattenKanaGroups } from '@/features/Kana/lib/flattenKanaGroup';
+import { getKanaSimilarity } from '@/features/Kana/lib/kanaSimilarity';
 import { getSelectionLabels } from '@/shared/lib/selectionFormatting';
-import { shuffle } from '@/shared/lib/shuffle';
+import { pickDistractors } from '@/shared/lib/distractors';
 import Blitz, { type BlitzConfig } from '@/shared/components/Blitz';
 
 export default function BlitzKana() {
@@ -63,25 +64,22 @@ export default function BlitzKana() {
     getCorrectAnswer: (question, isReverse) =>
       isReverse ? question.kana : question.romaji,
     // Pick mode support with reverse mode
-    generateOptions: (question, items, count, isReverse) => {
-      if (isReverse) {
-        // Reverse: options are kana characters
-        const correctAnswer = question.kana;
-        const incorrectOptions = shuffle(
-          items.filter(item => item.kana !== correctAnswer),
-        )
-          .slice(0, count - 1)
-          .map(item => item.kana);
-        return [correctAnswer, ...incorrectOptions];
-      }
-      // Normal: options are romaji
-      const correctAnswer = question.romaji;
-      const incorrectOptions = shuffle(
-        items.filter(item => item.romaji !== correctAnswer),
-      )
-        .slice(0, count - 1)
-        .map(item => item.romaji);
-      return [correctAnswer, ...incorrectOptions];
+    generateOptions: (question, items, count, isReverse, similarity) => {
+      // Options are kana in reverse mode, romaji otherwise;
+      // distractors lean on how alike the kana look
+      const getOption = (item: KanaCharacter) =>
+        isReverse ? item.kana : item.romaji;
+      return [
+        getOption(question),
+        ...pickDistractors(
+          question,
+          items,
+          count - 1,
+          getOption,
+          (a, b) => getKanaSimilarity(a.kana, b.kana),
+          similarity,
+        ),
+      ];
     },
     getCorrectOption: (question, isReverse) =>
       isReverse ? question.kana : question.romaji,
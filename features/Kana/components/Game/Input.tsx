@@ -12,6 +12,7 @@ import { useShallow } from 'zustand/react/shallow';
 import Stars from '@/shared/components/Game/Stars';
 import { useCrazyModeTrigger } from '@/features/CrazyMode/hooks/useCrazyModeTrigger';
 import { getGlobalAdaptiveSelector } from '@/shared/lib/adaptiveSelection';
+import useReviewStore from '@/shared/store/useReviewStore';
 import { GameBottomBar } from '@/shared/components/Game/GameBottomBar';
 
 // Get the global adaptive selector for weighted character selection
@@ -30,6 +31,21 @@ const isKatakana = (char: string): boolean => {
   return code >= 0x30a0 && code <= 0x30ff;
 };
 
+// Selectable characters for the current mode, narrowed to kana due for review
+const getDueSourceArray = (
+  selectedKana: string[],
+  selectedRomaji: string[],
+  isReverse: boolean,
+  excludeKana?: string,
+) => {
+  const dueKana = new Set(
+    useReviewStore.getState().getDuePool('kana', selectedKana, excludeKana),
+  );
+  return isReverse
+    ? selectedRomaji.filter((_, i) => dueKana.has(selectedKana[i]))
+    : selectedKana.filter(char => dueKana.has(char));
+};
+
 // Bottom bar states
 type BottomBarState = 'check' | 'correct' | 'wrong';
 
@@ -69,6 +85,8 @@ const InputGame = ({ isHidden, isReverse = false }: InputGameProps) => {
     })),
   );
 
+  const recordReview = useReviewStore(state => state.recordReview);
+
   const speedStopwatch = useStopwatch({ autoStart: false });
 
   const { playClick } = useClick();
@@ -107,20 +125,16 @@ const InputGame = ({ isHidden, isReverse = false }: InputGameProps) => {
 
   // State for characters - uses weighted selection for adaptive learning
   const [correctChar, setCorrectChar] = useState(() => {
-    if (isReverse) {
-      if (selectedRomaji.length === 0) return '';
-      const selected = adaptiveSelector.selectWeightedCharacter(selectedRomaji);
-      adaptiveSelector.markCharacterSeen(selected);
-      return selected;
-    } else {
-      if (selectedKana.length === 0) return '';
-      const selected = adaptiveSelector.selectWeightedCharacter(selectedKana);
-      adaptiveSelector.markCharacterSeen(selected);
-      return selected;
-    }
+    if (selectedKana.length === 0) return '';
+    const selected = adaptiveSelector.selectWeightedCharacter(
+      getDueSourceArray(selectedKana, selectedRomaji, isReverse),
+    );
+    adaptiveSelector.markCharacterSeen(selected);
+    return selected;
   });
 
   const targetChar = selectedPairs[correctChar];
+  const reviewKana = isReverse ? targetChar : correctChar;
 
   const hasKana = selectedKana.length > 0;
   const hasRomaji = selectedRomaji.length > 0;
@@ -164,7 +178,12 @@ const InputGame = ({ isHidden, isReverse = false }: InputGameProps) => {
 
   const generateNewCharacter = useCallback(() => {
     if (!isReady) return;
-    const sourceArray = isReverse ? selectedRomaji : selectedKana;
+    const sourceArray = getDueSourceArray(
+      selectedKana,
+      selectedRomaji,
+      isReverse,
+      isReverse ? selectedPairs[correctChar] : correctChar,
+    );
     // Use weighted selection - prioritizes characters user struggles with
     const newChar = adaptiveSelector.selectWeightedCharacter(
       sourceArray,
@@ -172,7 +191,14 @@ const InputGame = ({ isHidden, isReverse = false }: InputGameProps) => {
     );
     adaptiveSelector.markCharacterSeen(newChar);
     setCorrectChar(newChar);
-  }, [isReady, isReverse, selectedRomaji, selectedKana, correctChar]);
+  }, [
+    isReady,
+    isReverse,
+    selectedRomaji,
+    selectedKana,
+    selectedPairs,
+    correctChar,
+  ]);
 
   const handleCheck = () => {
     if (inputValue.trim().length === 0) return;
@@ -208,6 +234,8 @@ const InputGame = ({ isHidden, isReverse = false }: InputGameProps) => {
     triggerCrazyMode();
     // Update adaptive weight system - reduces probability of mastered characters
     adaptiveSelector.updateCharacterWeight(correctChar, true);
+    // Reschedule the spaced-repetition review (keyed by kana in both modes)
+    recordReview('kana', reviewKana, true, answerTimeMs);
     // Track content-specific stats for achievements (Requirements 1.1-1.8)
     if (isHiragana(correctChar)) {
       incrementHiraganaCorrect();
@@ -234,6 +262,7 @@ const InputGame = ({ isHidden, isReverse = false }: InputGameProps) => {
     triggerCrazyMode();
     // Update adaptive weight system - increases probability of difficult characters
     adaptiveSelector.updateCharacterWeight(correctChar, false);
+    recordReview('kana', reviewKana, false);
     // Track wrong streak for achievements (Requirement 10.2)
     incrementWrongStreak();
     setBottomBarState('wrong');
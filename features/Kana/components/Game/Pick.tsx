@@ -15,8 +15,12 @@ import { useShallow } from 'zustand/react/shallow';
 import Stars from '@/shared/components/Game/Stars';
 import { useCrazyModeTrigger } from '@/features/CrazyMode/hooks/useCrazyModeTrigger';
 import { getGlobalAdaptiveSelector } from '@/shared/lib/adaptiveSelection';
+import useReviewStore from '@/shared/store/useReviewStore';
+import useMistakeStore from '@/shared/store/useMistakeStore';
 import { useSmartReverseMode } from '@/shared/hooks/useSmartReverseMode';
 import { useProgressiveDifficulty } from '@/shared/hooks/useProgressiveDifficulty';
+import { pickDistractors } from '@/shared/lib/distractors';
+import { getKanaSimilarity } from '@/features/Kana/lib/kanaSimilarity';
 import { useWordBuildingMode } from '@/shared/hooks/useWordBuildingMode';
 import WordBuildingGame from './WordBuildingGame';
 
@@ -38,6 +42,21 @@ const isKatakana = (char: string): boolean => {
   return code >= 0x30a0 && code <= 0x30ff;
 };
 
+// Selectable characters for the current mode, narrowed to kana due for review
+const getDueSourceArray = (
+  selectedKana: string[],
+  selectedRomaji: string[],
+  isReverse: boolean,
+  excludeKana?: string,
+) => {
+  const dueKana = new Set(
+    useReviewStore.getState().getDuePool('kana', selectedKana, excludeKana),
+  );
+  return isReverse
+    ? selectedRomaji.filter((_, i) => dueKana.has(selectedKana[i]))
+    : selectedKana.filter(char => dueKana.has(char));
+};
+
 // Memoized option button component to prevent unnecessary re-renders
 interface OptionButtonProps {
   variantChar: string;
@@ -91,6 +110,7 @@ const PickGame = ({ isHidden }: PickGameProps) => {
     useSmartReverseMode();
   const {
     optionCount,
+    distractorSimilarity,
     recordCorrect: recordDifficultyCorrect,
     recordWrong: recordDifficultyWrong,
   } = useProgressiveDifficulty({
@@ -154,6 +174,9 @@ const PickGame = ({ isHidden }: PickGameProps) => {
     })),
   );
 
+  const recordReview = useReviewStore(state => state.recordReview);
+  const recordConfusion = useMistakeStore(state => state.recordConfusion);
+
   const speedStopwatch = useStopwatch({ autoStart: false });
 
   const { playCorrect } = useCorrect();
@@ -213,7 +236,9 @@ const PickGame = ({ isHidden }: PickGameProps) => {
   // State for normal pick mode - uses weighted selection for adaptive learning
   const [correctKanaChar, setCorrectKanaChar] = useState(() => {
     if (selectedKana.length === 0) return '';
-    const selected = adaptiveSelector.selectWeightedCharacter(selectedKana);
+    const selected = adaptiveSelector.selectWeightedCharacter(
+      getDueSourceArray(selectedKana, selectedRomaji, false),
+    );
     adaptiveSelector.markCharacterSeen(selected);
     return selected;
   });
@@ -223,7 +248,9 @@ const PickGame = ({ isHidden }: PickGameProps) => {
   const [correctRomajiCharReverse, setCorrectRomajiCharReverse] = useState(
     () => {
       if (selectedRomaji.length === 0) return '';
-      const selected = adaptiveSelector.selectWeightedCharacter(selectedRomaji);
+      const selected = adaptiveSelector.selectWeightedCharacter(
+        getDueSourceArray(selectedKana, selectedRomaji, true),
+      );
       adaptiveSelector.markCharacterSeen(selected);
       return selected;
     },
@@ -232,23 +259,30 @@ const PickGame = ({ isHidden }: PickGameProps) => {
     ? selectedPairs1[correctRomajiCharReverse]
     : selectedPairs2[correctRomajiCharReverse];
 
-  // Get incorrect options based on mode and current option count
+  // Get incorrect options based on mode and current option count, with more
+  // lookalike kana as the difficulty level rises
   const getIncorrectOptions = useCallback(
     (count: number) => {
       const incorrectCount = count - 1; // One slot is for the correct answer
       if (!isReverse) {
-        const { [correctKanaChar]: _, ...incorrectPairs } = selectedPairs;
-        void _;
-        return [...Object.values(incorrectPairs)]
-          .sort(() => random.real(0, 1) - 0.5)
-          .slice(0, incorrectCount);
+        return pickDistractors(
+          correctKanaChar,
+          Object.keys(selectedPairs),
+          incorrectCount,
+          kanaChar => selectedPairs[kanaChar],
+          getKanaSimilarity,
+          distractorSimilarity,
+        );
       } else {
-        const { [correctRomajiCharReverse]: _, ...incorrectPairs } =
-          random.bool() ? selectedPairs1 : selectedPairs2;
-        void _;
-        return [...Object.values(incorrectPairs)]
-          .sort(() => random.real(0, 1) - 0.5)
-          .slice(0, incorrectCount);
+        const pairs = random.bool() ? selectedPairs1 : selectedPairs2;
+        return pickDistractors(
+          correctRomajiCharReverse,
+          Object.keys(pairs),
+          incorrectCount,
+          romajiChar => pairs[romajiChar],
+          (a, b) => getKanaSimilarity(pairs[a], pairs[b]),
+          distractorSimilarity,
+        );
       }
     },
     [
@@ -258,6 +292,7 @@ const PickGame = ({ isHidden }: PickGameProps) => {
       selectedPairs,
       selectedPairs1,
       selectedPairs2,
+      distractorSimilarity,
     ],
   );
 
@@ -351,6 +386,13 @@ const PickGame = ({ isHidden }: PickGameProps) => {
       triggerCrazyMode();
       // Update adaptive weight system - reduces probability of mastered characters
       adaptiveSelector.updateCharacterWeight(correctChar, true);
+      // Reschedule the spaced-repetition review (keyed by kana in both modes)
+      recordReview(
+        'kana',
+        isReverse ? correctKanaCharReverse : correctChar,
+        true,
+        answerTimeMs,
+      );
       // Smart algorithm decides next mode based on performance
       decideNextMode();
       // Progressive difficulty - track correct answer
@@ -380,6 +422,9 @@ const PickGame = ({ isHidden }: PickGameProps) => {
       incrementKatakanaCorrect,
       recordAnswerTime,
       resetWrongStreak,
+      isReverse,
+      correctKanaCharReverse,
+      recordReview,
       // speedStopwatch, adaptiveSelector intentionally excluded
     ],
   );
@@ -401,6 +446,29 @@ const PickGame = ({ isHidden }: PickGameProps) => {
       triggerCrazyMode();
       // Update adaptive weight system - increases probability of difficult characters
       adaptiveSelector.updateCharacterWeight(currentChar, false);
+      recordReview(
+        'kana',
+        isReverse ? correctKanaCharReverse : correctKanaChar,
+        false,
+      );
+      // Note which kana the picked option belongs to for the mistake notebook
+      if (isReverse) {
+        recordConfusion(
+          'kana',
+          { key: correctKanaCharReverse, answer: correctRomajiCharReverse },
+          {
+            key: selectedChar,
+            answer:
+              reversedPairs1[selectedChar] ?? reversedPairs2[selectedChar],
+          },
+        );
+      } else {
+        recordConfusion(
+          'kana',
+          { key: correctKanaChar, answer: correctRomajiChar },
+          { key: selectedPairs1[selectedChar], answer: selectedChar },
+        );
+      }
       // Reset consecutive streak without changing mode (avoids rerolling the question)
       recordWrongAnswer();
       // Progressive difficulty - track wrong answer
@@ -422,6 +490,13 @@ const PickGame = ({ isHidden }: PickGameProps) => {
       recordWrongAnswer,
       recordDifficultyWrong,
       incrementWrongStreak,
+      correctKanaCharReverse,
+      recordReview,
+      correctRomajiChar,
+      selectedPairs1,
+      reversedPairs1,
+      reversedPairs2,
+      recordConfusion,
     ],
   );
 
@@ -433,7 +508,12 @@ const PickGame = ({ isHidden }: PickGameProps) => {
           handleCorrectAnswer(correctKanaChar);
           // Use weighted selection - prioritizes characters user struggles with
           const newKana = adaptiveSelector.selectWeightedCharacter(
-            selectedKana,
+            getDueSourceArray(
+              selectedKana,
+              selectedRomaji,
+              false,
+              correctKanaChar,
+            ),
             correctKanaChar,
           );
           adaptiveSelector.markCharacterSeen(newKana);
@@ -462,7 +542,12 @@ const PickGame = ({ isHidden }: PickGameProps) => {
           handleCorrectAnswer(correctRomajiCharReverse);
           // Use weighted selection - prioritizes characters user struggles with
           const newRomaji = adaptiveSelector.selectWeightedCharacter(
-            selectedRomaji,
+            getDueSourceArray(
+              selectedKana,
+              selectedRomaji,
+              true,
+              correctKanaCharReverse,
+            ),
             correctRomajiCharReverse,
           );
           adaptiveSelector.markCharacterSeen(newRomaji);
@@ -8,6 +8,7 @@ import { Random } from 'random-js';
 import { useCorrect, useError, useClick } from '@/shared/hooks/useAudio';
 // import GameIntel from '@/shared/components/Game/GameIntel';
 import { getGlobalAdaptiveSelector } from '@/shared/lib/adaptiveSelection';
+import useReviewStore from '@/shared/store/useReviewStore';
 import Stars from '@/shared/components/Game/Stars';
 import { useCrazyModeTrigger } from '@/features/CrazyMode/hooks/useCrazyModeTrigger';
 import { useStatsStore } from '@/features/Progress';
@@ -68,6 +69,8 @@ const WordBuildingGame = ({
   const isReverse = externalIsReverse ?? internalIsReverse;
   const wordLength = externalWordLength;
 
+  const recordReview = useReviewStore(state => state.recordReview);
+
   // Answer timing for speed achievements
   const speedStopwatch = useStopwatch({ autoStart: false });
   const { playCorrect } = useCorrect();
@@ -178,7 +181,18 @@ const WordBuildingGame = ({
       const available = sourceChars.filter(c => !usedChars.has(c));
       if (available.length === 0) break;
 
-      const selected = adaptiveSelector.selectWeightedCharacter(available);
+      // Serve kana due for spaced-repetition review first
+      const dueKana = new Set(
+        useReviewStore
+          .getState()
+          .getDuePool(
+            'kana',
+            isReverse ? available.map(r => romajiToKana[r]) : available,
+          ),
+      );
+      const selected = adaptiveSelector.selectWeightedCharacter(
+        available.filter(c => dueKana.has(isReverse ? romajiToKana[c] : c)),
+      );
       wordChars.push(selected);
       usedChars.add(selected);
       adaptiveSelector.markCharacterSeen(selected);
@@ -257,6 +271,12 @@ const WordBuildingGame = ({
       placedTiles.length === wordData.answerChars.length &&
       placedTiles.every((tile, i) => tile === wordData.answerChars[i]);
 
+    // Review schedules are keyed by kana, which are the answers in reverse mode
+    const reviewKana = isReverse ? wordData.answerChars : wordData.wordChars;
+    reviewKana.forEach(char =>
+      recordReview('kana', char, isCorrect, answerTimeMs / reviewKana.length),
+    );
+
     if (isCorrect) {
       // Record answer time for speed achievements
       addCorrectAnswerTime(answerTimeMs / 1000);
@@ -337,6 +357,8 @@ const WordBuildingGame = ({
     recordReverseModeWrong,
     addCorrectAnswerTime,
     recordAnswerTime,
+    isReverse,
+    recordReview,
     // speedStopwatch intentionally excluded - only calling methods
   ]);
 
@@ -5,8 +5,9 @@ import useKanaStore from '@/features/Kana/store/useKanaStore';
 import { generateKanaQuestion } from '@/features/Kana/lib/generateKanaQuestions';
 import type { KanaCharacter } from '@/features/Kana/lib/generateKanaQuestions';
 import { flattenKanaGroups } from '@/features/Kana/lib/flattenKanaGroup';
+import { getKanaSimilarity } from '@/features/Kana/lib/kanaSimilarity';
 import { getSelectionLabels } from '@/shared/lib/selectionFormatting';
-import { shuffle } from '@/shared/lib/shuffle';
+import { pickDistractors } from '@/shared/lib/distractors';
 import Gauntlet, { type GauntletConfig } from '@/shared/components/Gauntlet';
 
 interface GauntletKanaProps {
@@ -47,35 +48,22 @@ const GauntletKana: React.FC<GauntletKanaProps> = ({ onCancel }) => {
     },
     getCorrectAnswer: (question, isReverse) =>
       isReverse ? question.kana : question.romaji,
-    generateOptions: (question, items, count, isReverse) => {
-      if (isReverse) {
-        const correctAnswer = question.kana;
-        const seen = new Set([correctAnswer]);
-        const incorrectOptions = shuffle(
-          items.filter(item => item.kana !== correctAnswer),
-        )
-          .filter(item => {
-            if (seen.has(item.kana)) return false;
-            seen.add(item.kana);
-            return true;
-          })
-          .slice(0, count - 1)
-          .map(item => item.kana);
-        return [correctAnswer, ...incorrectOptions];
-      }
-      const correctAnswer = question.romaji;
-      const seen = new Set([correctAnswer]);
-      const incorrectOptions = shuffle(
-        items.filter(item => item.romaji !== correctAnswer),
-      )
-        .filter(item => {
-          if (seen.has(item.romaji)) return false;
-          seen.add(item.romaji);
-          return true;
-        })
-        .slice(0, count - 1)
-        .map(item => item.romaji);
-      return [correctAnswer, ...incorrectOptions];
+    generateOptions: (question, items, count, isReverse, similarity) => {
+      // Options are kana in reverse mode, romaji otherwise;
+      // distractors lean on how alike the kana look
+      const getOption = (item: KanaCharacter) =>
+        isReverse ? item.kana : item.romaji;
+      return [
+        getOption(question),
+        ...pickDistractors(
+          question,
+          items,
+          count - 1,
+          getOption,
+          (a, b) => getKanaSimilarity(a.kana, b.kana),
+          similarity,
+        ),
+      ];
     },
     getCorrectOption: (question, isReverse) =>
       isReverse ? question.kana : question.romaji,
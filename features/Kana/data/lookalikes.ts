@@ -0,0 +1,66 @@
+/**
+ * Kana that are easily mistaken for each other by shape. A kana can be in
+ * several groups. Voiced forms (が, パ) are matched through their base
+ * kana, so only plain kana are listed. The `challenge.similar` groups in
+ * kana.ts drill a few of these.
+ */
+export const KANA_LOOKALIKES: string[][] = [
+  // Hiragana
+  ['あ', 'お', 'め'],
+  ['ぬ', 'め'],
+  ['ね', 'れ', 'わ'],
+  ['る', 'ろ'],
+  ['は', 'ほ', 'け'],
+  ['ほ', 'ま'],
+  ['ま', 'も', 'よ'],
+  ['さ', 'ち', 'き'],
+  ['ち', 'ら'],
+  ['い', 'り', 'こ'],
+  ['こ', 'に', 'た'],
+  ['た', 'な'],
+  ['う', 'つ', 'ら'],
+  ['し', 'つ', 'ん'],
+  ['く', 'へ'],
+  ['そ', 'て'],
+  ['す', 'む', 'お'],
+  ['ゆ', 'よ'],
+  ['を', 'と'],
+  ['ゃ', 'ゅ', 'ょ'],
+
+  // Katakana
+  ['シ', 'ツ', 'ソ', 'ン'],
+  ['ソ', 'リ', 'ノ'],
+  ['ク', 'ケ', 'タ'],
+  ['ク', 'ワ', 'ウ', 'ラ', 'フ'],
+  ['ヌ', 'ス', 'マ', 'メ'],
+  ['ア', 'マ', 'ヤ'],
+  ['コ', 'ユ', 'ロ', 'ヨ'],
+  ['チ', 'テ', 'ナ'],
+  ['ナ', 'メ', 'ノ'],
+  ['ハ', 'ル', 'レ'],
+  ['セ', 'ヤ', 'サ'],
+  ['オ', 'ホ', 'ネ'],
+  ['キ', 'モ', 'チ'],
+  ['ヲ', 'ラ', 'ヨ'],
+  ['エ', 'ユ', 'ニ'],
+  ['ャ', 'ュ', 'ョ'],
+
+  // Hiragana and katakana of nearly the same shape
+  ['か', 'カ'],
+  ['き', 'キ'],
+  ['も', 'モ'],
+  ['や', 'ヤ'],
+  ['せ', 'セ'],
+  ['へ', 'ヘ'],
+  ['り', 'リ'],
+  ['ら', 'ラ'],
+  ['に', 'ニ'],
+  ['こ', 'コ'],
+  ['く', 'ク'],
+  ['け', 'ケ'],
+  ['う', 'ウ'],
+  ['そ', 'ソ'],
+  ['ろ', 'ロ'],
+  ['て', 'テ'],
+  ['と', 'ト'],
+];
@@ -0,0 +1,13 @@
+'use client';
+
+import useKanaStore from '../store/useKanaStore';
+
+type KanaStoreState = ReturnType<typeof useKanaStore.getState>;
+
+export const kanaBackup = {
+  getSelectionState: (): KanaStoreState => useKanaStore.getState(),
+  setSelectionState: (partial: Partial<KanaStoreState>) =>
+    useKanaStore.setState(partial),
+};
+
+export type { KanaStoreState };
@@ -3,3 +3,6 @@ export type { KanaSelection, KanaSelectionActions } from './useKanaSelection';
 
 export { useKanaContent } from './useKanaContent';
 export type { KanaContent } from './useKanaContent';
+
+export { kanaBackup } from './backup';
+export type { KanaStoreState } from './backup';
@@ -3,11 +3,12 @@
 // ============================================================================
 
 // Facades (PRIMARY API - Use these in new code)
-export { useKanaSelection, useKanaContent } from './facade';
+export { useKanaSelection, useKanaContent, kanaBackup } from './facade';
 export type {
   KanaSelection,
   KanaSelectionActions,
   KanaContent,
+  KanaStoreState,
 } from './facade';
 
 // Components (page-level)
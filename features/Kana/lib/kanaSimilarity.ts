@@ -0,0 +1,39 @@
+import { KANA_LOOKALIKES } from '../data/lookalikes';
+
+// Sharing a base kana (か/が, は/ぱ) is a little less confusing than a lookalike
+const VOICING_SIMILARITY = 0.75;
+
+const LOOKALIKES = new Map<string, Set<string>>();
+for (const group of KANA_LOOKALIKES) {
+  for (const char of group) {
+    const similar = LOOKALIKES.get(char) ?? new Set<string>();
+    group.forEach(other => other !== char && similar.add(other));
+    LOOKALIKES.set(char, similar);
+  }
+}
+
+// Strip dakuten and handakuten: が → か, ぱ → は
+const toBaseKana = (char: string) => char.normalize('NFD')[0];
+
+function getCharSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const baseA = toBaseKana(a);
+  const baseB = toBaseKana(b);
+  if (LOOKALIKES.get(baseA)?.has(baseB)) return 1;
+  if (baseA === baseB) return VOICING_SIMILARITY;
+  return 0;
+}
+
+/**
+ * How easily two kana are mistaken for each other by shape, from 0 to 1.
+ * Digraphs (きゃ) compare character by character, as alike as their least
+ * alike pair.
+ */
+export function getKanaSimilarity(a: string, b: string): number {
+  const charsA = [...a];
+  const charsB = [...b];
+  if (a === b || charsA.length !== charsB.length) return 0;
+  return Math.min(
+    ...charsA.map((char, i) => getCharSimilarity(char, charsB[i])),
+  );
+}
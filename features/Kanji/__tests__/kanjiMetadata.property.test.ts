@@ -0,0 +1,281 @@
+/**
+ * Property-Based Tests for Kanji Metadata
+ *
+ * **Feature: kanji-radicals**
+ * KANJIDIC2 entries and KanjiVG SVGs are parsed into radical, stroke, frequency
+ * and component metadata, and kanji are filtered by radical and ordered
+ * from simplest to most complex.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  applyKanjiMetadata,
+  compareKanjiComplexity,
+  countKanjiByRadical,
+  filterKanjiByRadical,
+  getKanjiSharingRadical,
+  getKanjiSimilarity,
+  getRadical,
+  parseKanjidic,
+  parseKanjiVGComponents,
+} from '../lib/kanjiMetadata';
+import { KANGXI_RADICALS } from '../data/radicals';
+import type { IKanjiObj } from '../store/useKanjiStore';
+
+const KANJIDIC_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<kanjidic2>
+<character>
+<literal>休</literal>
+<radical>
+<rad_value rad_type="classical">9</rad_value>
+<rad_value rad_type="nelson_c">9</rad_value>
+</radical>
+<misc>
+<grade>1</grade>
+<stroke_count>6</stroke_count>
+<freq>642</freq>
+<jlpt>4</jlpt>
+</misc>
+</character>
+<character>
+<literal>亜</literal>
+<radical>
+<rad_value rad_type="classical">7</rad_value>
+<rad_value rad_type="nelson_c">1</rad_value>
+</radical>
+<misc>
+<grade>8</grade>
+<stroke_count>7</stroke_count>
+<stroke_count>8</stroke_count>
+</misc>
+</character>
+</kanjidic2>`;
+
+const KANJIVG_SVG = {
+  休: `<svg xmlns="http://www.w3.org/2000/svg" width="109" height="109" viewBox="0 0 109 109">
+<g id="kvg:StrokePaths_04f11" style="fill:none;stroke:#000000;stroke-width:3;">
+<g id="kvg:04f11" kvg:element="休">
+	<g id="kvg:04f11-g1" kvg:element="亻" kvg:variant="true" kvg:original="人" kvg:position="left" kvg:radical="general">
+		<path id="kvg:04f11-s1" kvg:type="㇒" d="M31.5,15.5c0.13,1.46-0.04,3.37-0.46,4.87"/>
+	</g>
+	<g id="kvg:04f11-g2" kvg:element="木" kvg:position="right">
+		<path id="kvg:04f11-s3" kvg:type="㇐" d="M45.07,41.98c1.35,0.39,3.83,0.43,5.19,0.39"/>
+	</g>
+</g>
+</g>
+</svg>`,
+  亜: `<g id="kvg:04e9c" kvg:element="亜">
+	<g id="kvg:04e9c-g1" kvg:element="二" kvg:part="1" kvg:radical="tradit">
+	<g id="kvg:04e9c-g2" kvg:element="一" kvg:radical="nelson">
+	</g>
+	</g>
+	<g id="kvg:04e9c-g3" kvg:element="口">
+	</g>
+	<g id="kvg:04e9c-g4" kvg:element="二" kvg:part="2" kvg:radical="tradit">
+	</g>
+</g>`,
+  日: `<g id="kvg:065e5" kvg:element="日" kvg:radical="general">
+	<path id="kvg:065e5-s1" kvg:type="㇑" d="M31.5,24.5c1.12,1.12,1.74,2.75,1.74,4.75"/>
+</g>`,
+};
+
+const kanji = (
+  id: number,
+  kanjiChar: string,
+  metadata: Partial<IKanjiObj> = {},
+): IKanjiObj => ({
+  id,
+  kanjiChar,
+  onyomi: [],
+  kunyomi: [],
+  meanings: [],
+  ...metadata,
+});
+
+const kanjiArb = fc.record(
+  {
+    id: fc.integer({ min: 1, max: 5000 }),
+    kanjiChar: fc.string({ minLength: 1, maxLength: 1 }),
+    onyomi: fc.constant([]),
+    kunyomi: fc.constant([]),
+    meanings: fc.constant([]),
+    strokeCount: fc.integer({ min: 1, max: 30 }),
+    radical: fc.integer({ min: 1, max: 214 }),
+    frequency: fc.integer({ min: 1, max: 2500 }),
+  },
+  { requiredKeys: ['id', 'kanjiChar', 'onyomi', 'kunyomi', 'meanings'] },
+);
+
+describe('source parsing', () => {
+  it('reads the classical radical, first stroke count and frequency', () => {
+    const metadata = parseKanjidic(KANJIDIC_XML);
+    expect(metadata.get('休')).toEqual({
+      radical: 9,
+      strokeCount: 6,
+      frequency: 642,
+    });
+    // Rare kanji have no frequency, and miscounts are ignored
+    expect(metadata.get('亜')).toEqual({ radical: 7, strokeCount: 7 });
+  });
+
+  it('reads each element a kanji is drawn from once', () => {
+    expect(parseKanjiVGComponents(KANJIVG_SVG.休)).toEqual(['亻', '木']);
+    // Elements split in parts around others are listed once
+    expect(parseKanjiVGComponents(KANJIVG_SVG.亜)).toEqual(['二', '一', '口']);
+    // A kanji that is not split is its own component
+    expect(parseKanjiVGComponents(KANJIVG_SVG.日)).toEqual(['日']);
+  });
+
+  it('adds metadata without touching the existing fields', () => {
+    const [rest, unknown] = applyKanjiMetadata(
+      [
+        kanji(1, '休', { meanings: ['rest'] }),
+        kanji(2, '〆', { strokeCount: 2 }),
+      ],
+      parseKanjidic(KANJIDIC_XML),
+      new Map([['休', parseKanjiVGComponents(KANJIVG_SVG.休)]]),
+    );
+    expect(rest).toEqual({
+      ...kanji(1, '休', { meanings: ['rest'] }),
+      radical: 9,
+      strokeCount: 6,
+      frequency: 642,
+      components: ['亻', '木'],
+    });
+    expect(unknown).toEqual(kanji(2, '〆', { strokeCount: 2 }));
+  });
+});
+
+describe('radicals', () => {
+  it('lists the 214 Kangxi radicals from fewest to most strokes', () => {
+    expect(KANGXI_RADICALS).toHaveLength(214);
+    KANGXI_RADICALS.forEach((radical, index) => {
+      expect(radical.number).toBe(index + 1);
+      if (index > 0) {
+        expect(radical.strokeCount).toBeGreaterThanOrEqual(
+          KANGXI_RADICALS[index - 1].strokeCount,
+        );
+      }
+    });
+    expect(getRadical(9)?.radical).toBe('人');
+    expect(getRadical(215)).toBeUndefined();
+  });
+
+  it('filters to one radical, simplest first', () => {
+    fc.assert(
+      fc.property(
+        fc.array(kanjiArb, { maxLength: 30 }),
+        fc.integer({ min: 1, max: 214 }),
+        (allKanji, radical) => {
+          const filtered = filterKanjiByRadical(allKanji, radical);
+          expect(filtered).toHaveLength(
+            allKanji.filter(entry => entry.radical === radical).length,
+          );
+          expect(countKanjiByRadical(allKanji).get(radical) ?? 0).toBe(
+            filtered.length,
+          );
+          for (let i = 1; i < filtered.length; i++) {
+            expect(
+              compareKanjiComplexity(filtered[i - 1], filtered[i]),
+            ).toBeLessThanOrEqual(0);
+          }
+        },
+      ),
+    );
+  });
+
+  it('orders kanji without metadata after those with it', () => {
+    fc.assert(
+      fc.property(kanjiArb, kanjiArb, (a, b) => {
+        const compared = compareKanjiComplexity(a, b);
+        expect(
+          Math.sign(compared) + Math.sign(compareKanjiComplexity(b, a)),
+        ).toBe(0);
+        if (a.strokeCount !== undefined && b.strokeCount === undefined) {
+          expect(compared).toBeLessThan(0);
+        }
+      }),
+    );
+  });
+
+  it('finds the other kanji sharing a radical', () => {
+    const all = [
+      kanji(1, '休', { radical: 9, strokeCount: 6 }),
+      kanji(2, '人', { radical: 9, strokeCount: 2 }),
+      kanji(3, '木', { radical: 75, strokeCount: 4 }),
+      kanji(4, '体', { radical: 9, strokeCount: 7 }),
+    ];
+    expect(
+      getKanjiSharingRadical(all[0], all).map(entry => entry.kanjiChar),
+    ).toEqual(['人', '体']);
+    expect(getKanjiSharingRadical(kanji(5, '〆'), all)).toEqual([]);
+  });
+});
+
+describe('similarity', () => {
+  it('scores shared components and radicals, symmetrically', () => {
+    const wait = kanji(1, '待', {
+      radical: 60,
+      components: ['彳', '土', '寸'],
+    });
+    const hold = kanji(2, '持', {
+      radical: 64,
+      components: ['扌', '土', '寸'],
+    });
+    const behind = kanji(3, '後', {
+      radical: 60,
+      components: ['彳', '幺', '夂'],
+    });
+    const tree = kanji(4, '木', { radical: 75, components: ['木'] });
+
+    expect(getKanjiSimilarity(wait, hold)).toBe(0.75 * 0.5);
+    expect(getKanjiSimilarity(wait, behind)).toBeCloseTo(0.75 * 0.2 + 0.25);
+    expect(getKanjiSimilarity(wait, tree)).toBe(0);
+    expect(getKanjiSimilarity(wait, wait)).toBe(0);
+    expect(getKanjiSimilarity(hold, wait)).toBe(getKanjiSimilarity(wait, hold));
+  });
+
+  it("falls back to a shared on'yomi when nothing looks alike", () => {
+    const thousand = kanji(1, '千', {
+      radical: 24,
+      components: ['千'],
+      onyomi: ['sen セン'],
+    });
+    const river = kanji(2, '川', {
+      radical: 47,
+      components: ['川'],
+      onyomi: ['sen セン'],
+    });
+    const tree = kanji(3, '木', {
+      radical: 75,
+      components: ['木'],
+      onyomi: ['boku ボク', 'moku モク'],
+    });
+
+    expect(getKanjiSimilarity(thousand, river)).toBe(0.2);
+    expect(getKanjiSimilarity(thousand, tree)).toBe(0);
+  });
+
+  it('finds similar kanji in the shipped N5 data', () => {
+    const n5: IKanjiObj[] = JSON.parse(
+      readFileSync(join(process.cwd(), 'public/data-kanji/N5.json'), 'utf-8'),
+    );
+    const byChar = (char: string) =>
+      n5.find(entry => entry.kanjiChar === char)!;
+
+    expect(n5.every(entry => entry.components?.length)).toBe(true);
+    expect(getKanjiSimilarity(byChar('語'), byChar('話'))).toBeGreaterThan(
+      0.25,
+    );
+    expect(getKanjiSimilarity(byChar('木'), byChar('本'))).toBeGreaterThan(
+      0.25,
+    );
+    const withSimilar = n5.filter(a =>
+      n5.some(b => getKanjiSimilarity(a, b) > 0),
+    );
+    expect(withSimilar.length / n5.length).toBeGreaterThan(0.9);
+  });
+});
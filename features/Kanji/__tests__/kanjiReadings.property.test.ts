@@ -0,0 +1,118 @@
+/**
+ * Property-Based Tests for Kanji Readings
+ *
+ * **Feature: kanji-reading-quiz**
+ * Stored readings are split into kana, okurigana and romaji, typed
+ * answers are accepted in romaji, hiragana or katakana, and giving the
+ * other reading type than asked for is reported as a confusion.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { toKatakana } from 'wanakana';
+import {
+  checkReadingAnswer,
+  formatKanjiReading,
+  getKanjiReadings,
+  matchesKanjiReading,
+  parseKanjiReading,
+} from '../lib/kanjiReadings';
+
+const NICHI = {
+  onyomi: ['nichi ニチ', 'jitsu ジツ'],
+  kunyomi: ['hi ひ', '-bi -び', '-ka -か'],
+};
+
+const GAKU = {
+  onyomi: ['gaku ガク'],
+  kunyomi: ['mana(bu) まな(ぶ)'],
+};
+
+describe('parseKanjiReading', () => {
+  it('separates romaji, kana, okurigana and dash markers', () => {
+    expect(parseKanjiReading('mana(bu) まな(ぶ)', 'kun')).toEqual({
+      kind: 'kun',
+      kana: 'まな',
+      okurigana: 'ぶ',
+      romaji: 'mana',
+      romajiOkurigana: 'bu',
+      isPrefix: false,
+      isSuffix: false,
+    });
+    expect(parseKanjiReading('ku.ru く.る', 'kun')).toMatchObject({
+      kana: 'く',
+      okurigana: 'る',
+    });
+    expect(parseKanjiReading('-bi -び', 'kun')).toMatchObject({
+      kana: 'び',
+      isSuffix: true,
+    });
+    expect(parseKanjiReading('o- お-', 'kun')).toMatchObject({
+      kana: 'お',
+      isPrefix: true,
+    });
+  });
+
+  it('formats readings back with okurigana and dashes', () => {
+    expect(getKanjiReadings(GAKU).map(formatKanjiReading)).toEqual([
+      'ガク',
+      'まな.ぶ',
+    ]);
+    expect(getKanjiReadings(NICHI, 'kun').map(formatKanjiReading)).toEqual([
+      'ひ',
+      '-び',
+      '-か',
+    ]);
+  });
+
+  it('skips empty readings', () => {
+    expect(getKanjiReadings({ onyomi: ['ichi イチ'], kunyomi: [''] })).toEqual([
+      parseKanjiReading('ichi イチ', 'on'),
+    ]);
+  });
+});
+
+describe('answer checking', () => {
+  it('accepts a reading typed in romaji, hiragana or katakana', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...getKanjiReadings(NICHI), ...getKanjiReadings(GAKU)),
+        fc.constantFrom('romaji', 'hiragana', 'katakana'),
+        fc.boolean(),
+        (reading, script, withOkurigana) => {
+          const romaji =
+            reading.romaji + (withOkurigana ? reading.romajiOkurigana : '');
+          const kana = reading.kana + (withOkurigana ? reading.okurigana : '');
+          const input =
+            script === 'romaji'
+              ? romaji.toUpperCase()
+              : script === 'katakana'
+                ? toKatakana(kana)
+                : kana;
+          expect(matchesKanjiReading(` ${input} `, reading)).toBe(true);
+        },
+      ),
+    );
+  });
+
+  it('reports the other reading type as a confusion', () => {
+    expect(checkReadingAnswer('nichi', NICHI, 'on')).toMatchObject({
+      isCorrect: true,
+    });
+    expect(checkReadingAnswer('ひ', NICHI, 'on')).toEqual({
+      isCorrect: false,
+      matched: parseKanjiReading('hi ひ', 'kun'),
+      confusedWith: 'kun',
+    });
+    expect(checkReadingAnswer('ガク', GAKU, 'kun').confusedWith).toBe('on');
+  });
+
+  it('rejects input that is no reading of the kanji', () => {
+    fc.assert(
+      fc.property(fc.constantFrom('にん', 'tsuki', 'manabu', ''), input => {
+        const result = checkReadingAnswer(input, NICHI, 'on');
+        expect(result).toEqual({ isCorrect: false });
+      }),
+    );
+  });
+});
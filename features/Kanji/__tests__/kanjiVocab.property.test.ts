@@ -0,0 +1,141 @@
+/**
+ * Property-Based Tests for Kanji Example Words
+ *
+ * **Feature: kanji-example-words**
+ * Words are indexed by each kanji in their spelling and grouped by the
+ * reading the kanji takes, including rendaku and small っ forms, with
+ * words that fit none of the readings kept in an irregular group.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  buildKanjiVocabIndex,
+  getReadingVariants,
+  groupWordsByReading,
+  matchesReading,
+} from '../lib/kanjiVocab';
+import type { IKanjiObj } from '../store/useKanjiStore';
+import type { IWord } from '@/shared/types/interfaces';
+
+const word = (spelling: string, reading: string): IWord => ({
+  word: spelling,
+  reading,
+  meanings: [],
+});
+
+const NICHI: IKanjiObj = {
+  id: 1,
+  kanjiChar: '日',
+  onyomi: ['nichi ニチ', 'jitsu ジツ'],
+  kunyomi: ['hi ひ', '-bi -び', '-ka -か'],
+  meanings: ['day', 'sun'],
+};
+
+const GAKU: IKanjiObj = {
+  id: 2,
+  kanjiChar: '学',
+  onyomi: ['gaku ガク'],
+  kunyomi: ['mana(bu) まな(ぶ)'],
+  meanings: ['study'],
+};
+
+const WORDS = [
+  word('毎日', 'まいにち'),
+  word('日記', 'にっき'),
+  word('先日', 'せんじつ'),
+  word('日', 'ひ'),
+  word('月曜日', 'げつようび'),
+  word('五日', 'いつか'),
+  word('明日', 'あした'),
+  word('学校', 'がっこう'),
+  word('大学', 'だいがく'),
+  word('学ぶ', 'まなぶ'),
+];
+
+describe('readings', () => {
+  it('adds rendaku and small っ variants', () => {
+    expect(getReadingVariants('ガク')).toEqual(['がく', 'がっ']);
+    expect(getReadingVariants('ひ')).toEqual(['ひ', 'び', 'ぴ']);
+  });
+
+  it('always matches a word built from a kanji reading and kana', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom('にち', 'じつ', 'ひ'),
+        fc.stringMatching(/^[ぁ-ゖ]{0,3}$/),
+        fc.stringMatching(/^[ぁ-ゖ]{0,3}$/),
+        (reading, before, after) => {
+          expect(
+            matchesReading(
+              word(`${before}日${after}`, `${before}${reading}${after}`),
+              '日',
+              [reading],
+            ),
+          ).toBe(true);
+        },
+      ),
+    );
+  });
+
+  it('does not match a reading the word does not use', () => {
+    expect(matchesReading(word('明日', 'あした'), '日', ['にち'])).toBe(false);
+    expect(matchesReading(word('毎日', 'まいにち'), '日', ['ひ'])).toBe(false);
+  });
+});
+
+describe('groupWordsByReading', () => {
+  it('groups words by the reading the kanji takes', () => {
+    const groups = groupWordsByReading(
+      NICHI,
+      buildKanjiVocabIndex(WORDS).get('日') ?? [],
+    );
+    expect(
+      groups.map(group => [
+        group.type,
+        group.reading,
+        group.words.map(entry => entry.word),
+      ]),
+    ).toEqual([
+      ['on', 'ニチ', ['毎日', '日記']],
+      ['on', 'ジツ', ['先日']],
+      ['kun', 'ひ', ['日', '月曜日']],
+      ['kun', 'か', ['五日']],
+      ['irregular', '', ['明日']],
+    ]);
+  });
+
+  it('puts every word containing the kanji in exactly one group', () => {
+    fc.assert(
+      fc.property(
+        fc.subarray(WORDS),
+        fc.constantFrom(NICHI, GAKU),
+        (words, kanji) => {
+          const grouped = groupWordsByReading(kanji, words).flatMap(
+            group => group.words,
+          );
+          expect(grouped).toHaveLength(
+            words.filter(entry => entry.word.includes(kanji.kanjiChar)).length,
+          );
+          expect(new Set(grouped).size).toBe(grouped.length);
+        },
+      ),
+    );
+  });
+
+  it('limits the words per reading', () => {
+    const groups = groupWordsByReading(GAKU, WORDS, 1);
+    expect(groups.map(group => group.words.length)).toEqual([1, 1]);
+  });
+
+  it('indexes each word once per kanji, skipping repeats across levels', () => {
+    const index = buildKanjiVocabIndex([
+      ...WORDS,
+      word('日々', 'ひび'),
+      word('毎日', 'まいにち'),
+    ]);
+    expect(index.get('毎')).toEqual([word('毎日', 'まいにち')]);
+    expect(index.get('日')).toHaveLength(8);
+    expect(index.has('々')).toBe(false);
+  });
+});
@@ -7,7 +7,13 @@ import useKanjiStore, {
 import { useStatsStore } from '@/features/Progress';
 import Blitz, { type BlitzConfig } from '@/shared/components/Blitz';
 import { getSelectionLabels } from '@/shared/lib/selectionFormatting';
-import { shuffle, pickOne } from '@/shared/lib/shuffle';
+import { pickDistractors } from '@/shared/lib/distractors';
+import { pickOne } from '@/shared/lib/shuffle';
+import {
+  getKanjiReadings,
+  matchesKanjiReading,
+} from '@/features/Kanji/lib/kanjiReadings';
+import { getKanjiSimilarity } from '@/features/Kanji/lib/kanjiMetadata';
 
 export default function BlitzKanji() {
   const selectedKanjiObjs = useKanjiStore(state => state.selectedKanjiObjs);
@@ -50,8 +56,9 @@ export default function BlitzKanji() {
         // Reverse: answer should be the kanji character or kunyomi or onyomi
         return (
           answer.trim() === question.kanjiChar ||
-          question.kunyomi.some(k => k.split(' ')[0] === answer) ||
-          question.onyomi.some(k => k.split(' ')[0] === answer) ||
+          getKanjiReadings(question).some(reading =>
+            matchesKanjiReading(answer, reading),
+          ) ||
           question.meanings.some(
             meaning => answer.toLowerCase() === meaning.toLowerCase(),
           )
@@ -65,25 +72,22 @@ export default function BlitzKanji() {
     getCorrectAnswer: (question, isReverse) =>
       isReverse ? question.kanjiChar : question.meanings[0],
     // Pick mode support with reverse mode
-    generateOptions: (question, items, count, isReverse) => {
-      if (isReverse) {
-        // Reverse: options are kanji characters
-        const correctAnswer = question.kanjiChar;
-        const incorrectOptions = shuffle(
-          items.filter(item => item.kanjiChar !== question.kanjiChar),
-        )
-          .slice(0, count - 1)
-          .map(item => item.kanjiChar);
-        return [correctAnswer, ...incorrectOptions];
-      }
-      // Normal: options are meanings
-      const correctAnswer = question.meanings[0];
-      const incorrectOptions = shuffle(
-        items.filter(item => item.kanjiChar !== question.kanjiChar),
-      )
-        .slice(0, count - 1)
-        .map(item => item.meanings[0]);
-      return [correctAnswer, ...incorrectOptions];
+    generateOptions: (question, items, count, isReverse, similarity) => {
+      // Options are kanji in reverse mode, meanings otherwise;
+      // distractors lean on the components the kanji share
+      const getOption = (item: IKanjiObj) =>
+        isReverse ? item.kanjiChar : item.meanings[0];
+      return [
+        getOption(question),
+        ...pickDistractors(
+          question,
+          items,
+          count - 1,
+          getOption,
+          getKanjiSimilarity,
+          similarity,
+        ),
+      ];
     },
     getCorrectOption: (question, isReverse) =>
       isReverse ? question.kanjiChar : question.meanings[0],
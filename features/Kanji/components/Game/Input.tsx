@@ -15,7 +15,17 @@ import SSRAudioButton from '@/shared/components/audio/SSRAudioButton';
 import FuriganaText from '@/shared/components/text/FuriganaText';
 import { useCrazyModeTrigger } from '@/features/CrazyMode/hooks/useCrazyModeTrigger';
 import { getGlobalAdaptiveSelector } from '@/shared/lib/adaptiveSelection';
+import useReviewStore from '@/shared/store/useReviewStore';
 import { GameBottomBar } from '@/shared/components/Game/GameBottomBar';
+import KanjiExampleWords from '../KanjiExampleWords';
+import {
+  checkReadingAnswer,
+  formatKanjiReading,
+  getKanjiReadings,
+  matchesKanjiReading,
+  READING_KIND_LABELS,
+  type KanjiReadingKind,
+} from '../../lib/kanjiReadings';
 
 // Get the global adaptive selector for weighted character selection
 const adaptiveSelector = getGlobalAdaptiveSelector();
@@ -27,12 +37,15 @@ interface KanjiInputGameProps {
   selectedKanjiObjs: IKanjiObj[];
   isHidden: boolean;
   isReverse?: boolean;
+  /** Ask only for the kanji's on'yomi or kun'yomi instead of its meaning */
+  readingKind?: KanjiReadingKind;
 }
 
 const KanjiInputGame = ({
   selectedKanjiObjs,
   isHidden,
   isReverse = false,
+  readingKind,
 }: KanjiInputGameProps) => {
   // Get the current JLPT level from the Kanji store
   const selectedKanjiCollection = useKanjiStore(
@@ -67,6 +80,8 @@ const KanjiInputGame = ({
     })),
   );
 
+  const recordReview = useReviewStore(state => state.recordReview);
+
   const speedStopwatch = useStopwatch({ autoStart: false });
 
   const { playClick } = useClick();
@@ -82,13 +97,27 @@ const KanjiInputGame = ({
   const [inputValue, setInputValue] = useState('');
   const [bottomBarState, setBottomBarState] = useState<BottomBarState>('check');
 
+  // Selectable keys for the current mode, narrowed to kanji due for review
+  const getSourceArray = (excludeKanji?: string) => {
+    const dueKanji = new Set(
+      useReviewStore.getState().getDuePool(
+        'kanji',
+        selectedKanjiObjs.map(obj => obj.kanjiChar),
+        excludeKanji,
+      ),
+    );
+    const dueObjs = selectedKanjiObjs.filter(obj =>
+      dueKanji.has(obj.kanjiChar),
+    );
+    return isReverse
+      ? dueObjs.map(obj => obj.meanings[0])
+      : dueObjs.map(obj => obj.kanjiChar);
+  };
+
   // State management based on mode - uses weighted selection for adaptive learning
   const [correctChar, setCorrectChar] = useState(() => {
     if (selectedKanjiObjs.length === 0) return '';
-    const sourceArray = isReverse
-      ? selectedKanjiObjs.map(obj => obj.meanings[0])
-      : selectedKanjiObjs.map(obj => obj.kanjiChar);
-    const selected = adaptiveSelector.selectWeightedCharacter(sourceArray);
+    const selected = adaptiveSelector.selectWeightedCharacter(getSourceArray());
     adaptiveSelector.markCharacterSeen(selected);
     return selected;
   });
@@ -104,11 +133,14 @@ const KanjiInputGame = ({
 
   const targetChar = isReverse
     ? correctKanjiObj?.kanjiChar
-    : [
-        ...(correctKanjiObj?.meanings ?? []),
-        ...(correctKanjiObj?.kunyomi?.map(k => k.split(' ')[0]) ?? []),
-        ...(correctKanjiObj?.onyomi?.map(k => k.split(' ')[0]) ?? []),
-      ];
+    : readingKind && correctKanjiObj
+      ? getKanjiReadings(correctKanjiObj, readingKind).map(formatKanjiReading)
+      : (correctKanjiObj?.meanings ?? []);
+
+  // Reading type given instead of the one asked for, for the feedback
+  const [confusedWith, setConfusedWith] = useState<KanjiReadingKind | null>(
+    null,
+  );
 
   const [displayAnswerSummary, setDisplayAnswerSummary] = useState(false);
   const [feedback, setFeedback] = useState<React.ReactElement>(
@@ -170,10 +202,21 @@ const KanjiInputGame = ({
   };
 
   const isInputCorrect = (input: string): boolean => {
-    if (!isReverse) {
+    if (readingKind) {
       return (
-        Array.isArray(targetChar) &&
-        targetChar.includes(input.trim().toLowerCase())
+        !!correctKanjiObj &&
+        checkReadingAnswer(input, correctKanjiObj, readingKind).isCorrect
+      );
+    } else if (!isReverse) {
+      // Meanings as typed, or any reading in romaji or kana
+      return (
+        (correctKanjiObj?.meanings ?? []).includes(
+          input.trim().toLowerCase(),
+        ) ||
+        (!!correctKanjiObj &&
+          getKanjiReadings(correctKanjiObj).some(reading =>
+            matchesKanjiReading(input, reading),
+          ))
       );
     } else {
       return input.trim().toLowerCase() === targetChar;
@@ -209,9 +252,16 @@ const KanjiInputGame = ({
 
     triggerCrazyMode();
     adaptiveSelector.updateCharacterWeight(correctChar, true);
+    recordReview(
+      'kanji',
+      correctKanjiObj?.kanjiChar ?? correctChar,
+      true,
+      answerTimeMs,
+    );
     incrementKanjiCorrect(selectedKanjiCollection.toUpperCase());
     resetWrongStreak();
     setBottomBarState('correct');
+    setConfusedWith(null);
     setDisplayAnswerSummary(true);
 
     // Set guard to prevent Enter key repeat from immediately triggering continue
@@ -232,6 +282,12 @@ const KanjiInputGame = ({
   };
 
   const handleWrongAnswer = () => {
+    if (readingKind && correctKanjiObj) {
+      setConfusedWith(
+        checkReadingAnswer(inputValue, correctKanjiObj, readingKind)
+          .confusedWith ?? null,
+      );
+    }
     setInputValue('');
     playErrorTwice();
 
@@ -244,14 +300,13 @@ const KanjiInputGame = ({
     }
     triggerCrazyMode();
     adaptiveSelector.updateCharacterWeight(correctChar, false);
+    recordReview('kanji', correctKanjiObj?.kanjiChar ?? correctChar, false);
     incrementWrongStreak();
     setBottomBarState('wrong');
   };
 
   const generateNewCharacter = () => {
-    const sourceArray = isReverse
-      ? selectedKanjiObjs.map(obj => obj.meanings[0])
-      : selectedKanjiObjs.map(obj => obj.kanjiChar);
+    const sourceArray = getSourceArray(correctKanjiObj?.kanjiChar);
 
     const newChar = adaptiveSelector.selectWeightedCharacter(
       sourceArray,
@@ -267,6 +322,7 @@ const KanjiInputGame = ({
     setDisplayAnswerSummary(false);
     generateNewCharacter();
     setBottomBarState('check');
+    setConfusedWith(null);
     speedStopwatch.reset();
     speedStopwatch.start();
   };
@@ -281,11 +337,20 @@ const KanjiInputGame = ({
   const showFeedback = bottomBarState !== 'check';
 
   // For Bottom Bar feedback
+  // Reading quizzes list every reading asked for, naming a mix-up first
+  const readingFeedbackText =
+    readingKind && Array.isArray(targetChar)
+      ? [
+          confusedWith && `That's the ${READING_KIND_LABELS[confusedWith]}.`,
+          `${READING_KIND_LABELS[readingKind]}: ${targetChar.join('、')}`,
+        ]
+          .filter(Boolean)
+          .join(' ')
+      : null;
   const feedbackText = isReverse
     ? targetChar
-    : Array.isArray(targetChar)
-      ? targetChar[0]
-      : targetChar;
+    : (readingFeedbackText ??
+      (Array.isArray(targetChar) ? targetChar[0] : targetChar));
 
   return (
     <div
@@ -323,7 +388,7 @@ const KanjiInputGame = ({
               <FuriganaText
                 text={correctChar}
                 reading={
-                  !isReverse
+                  !isReverse && !readingKind
                     ? correctKanjiObj?.onyomi[0] || correctKanjiObj?.kunyomi[0]
                     : undefined
                 }
@@ -344,7 +409,11 @@ const KanjiInputGame = ({
           <textarea
             ref={inputRef}
             value={inputValue}
-            placeholder='Type your answer...'
+            placeholder={
+              readingKind
+                ? `Type the ${READING_KIND_LABELS[readingKind]}...`
+                : 'Type your answer...'
+            }
             disabled={showContinue}
             rows={4}
             className={clsx(
@@ -371,6 +440,11 @@ const KanjiInputGame = ({
 
       <Stars />
 
+      {/* Words using the kanji, to help it stick after a miss */}
+      {bottomBarState === 'wrong' && correctKanjiObj && (
+        <KanjiExampleWords kanji={correctKanjiObj} className='max-w-md' />
+      )}
+
       <GameBottomBar
         state={bottomBarState}
         onAction={showContinue ? handleContinue : handleCheck}
@@ -17,9 +17,15 @@ import SSRAudioButton from '@/shared/components/audio/SSRAudioButton';
 import FuriganaText from '@/shared/components/text/FuriganaText';
 import { useCrazyModeTrigger } from '@/features/CrazyMode/hooks/useCrazyModeTrigger';
 import { getGlobalAdaptiveSelector } from '@/shared/lib/adaptiveSelection';
+import useReviewStore from '@/shared/store/useReviewStore';
+import useMistakeStore from '@/shared/store/useMistakeStore';
 import { useSmartReverseMode } from '@/shared/hooks/useSmartReverseMode';
+import { useProgressiveDifficulty } from '@/shared/hooks/useProgressiveDifficulty';
+import { pickDistractors } from '@/shared/lib/distractors';
+import { getKanjiSimilarity } from '@/features/Kanji/lib/kanjiMetadata';
 import { useWordBuildingMode } from '@/shared/hooks/useWordBuildingMode';
 import WordBuildingGame from './WordBuildingGame';
+import KanjiExampleWords from '../KanjiExampleWords';
 
 const random = new Random();
 
@@ -103,6 +109,13 @@ interface KanjiPickGameProps {
 const KanjiPickGame = ({ selectedKanjiObjs, isHidden }: KanjiPickGameProps) => {
   const { isReverse, decideNextMode, recordWrongAnswer } =
     useSmartReverseMode();
+  // The option count stays at three; only the lookalike share of the
+  // distractors rises with the level
+  const {
+    distractorSimilarity,
+    recordCorrect: recordDifficultyCorrect,
+    recordWrong: recordDifficultyWrong,
+  } = useProgressiveDifficulty();
 
   // Set to true to force word building mode for testing
   const FORCE_WORD_BUILDING_MODE = true;
@@ -156,6 +169,9 @@ const KanjiPickGame = ({ selectedKanjiObjs, isHidden }: KanjiPickGameProps) => {
     })),
   );
 
+  const recordReview = useReviewStore(state => state.recordReview);
+  const recordConfusion = useMistakeStore(state => state.recordConfusion);
+
   const speedStopwatch = useStopwatch({ autoStart: false });
 
   const { playCorrect } = useCorrect();
@@ -167,7 +183,10 @@ const KanjiPickGame = ({ selectedKanjiObjs, isHidden }: KanjiPickGameProps) => {
   const [correctChar, setCorrectChar] = useState(() => {
     if (selectedKanjiObjs.length === 0) return '';
     const sourceArray = selectedKanjiObjs.map(obj => obj.kanjiChar);
-    const selected = adaptiveSelector.selectWeightedCharacter(sourceArray);
+    // Serve kanji due for spaced-repetition review first
+    const selected = adaptiveSelector.selectWeightedCharacter(
+      useReviewStore.getState().getDuePool('kanji', sourceArray),
+    );
     adaptiveSelector.markCharacterSeen(selected);
     return selected;
   });
@@ -195,24 +214,16 @@ const KanjiPickGame = ({ selectedKanjiObjs, isHidden }: KanjiPickGameProps) => {
 
   // Get incorrect options based on mode
   const getIncorrectOptions = () => {
-    // Filter out the current kanji
-    const incorrectKanjiObjs = selectedKanjiObjs.filter(
-      obj => obj.kanjiChar !== correctChar,
+    if (!correctKanjiObj) return [];
+    // Normal mode: answers are meanings; reverse mode: kanji characters
+    return pickDistractors(
+      correctKanjiObj,
+      selectedKanjiObjs,
+      2,
+      obj => (isReverse ? obj.kanjiChar : obj.meanings[0]),
+      getKanjiSimilarity,
+      distractorSimilarity,
     );
-
-    if (!isReverse) {
-      // Normal mode: answers are meanings
-      return incorrectKanjiObjs
-        .map(obj => obj.meanings[0])
-        .sort(() => random.real(0, 1) - 0.5)
-        .slice(0, 2);
-    } else {
-      // Reverse mode: answers are kanji characters
-      return incorrectKanjiObjs
-        .map(obj => obj.kanjiChar)
-        .sort(() => random.real(0, 1) - 0.5)
-        .slice(0, 2);
-    }
   };
 
   const randomIncorrectOptions = getIncorrectOptions();
@@ -320,6 +331,7 @@ const KanjiPickGame = ({ selectedKanjiObjs, isHidden }: KanjiPickGameProps) => {
     recordAnswerTime(answerTimeMs);
     speedStopwatch.reset();
     playCorrect();
+    recordDifficultyCorrect();
     setCurrentKanjiObj(correctKanjiObj as IKanjiObj);
 
     addCharacterToHistory(correctChar);
@@ -330,6 +342,8 @@ const KanjiPickGame = ({ selectedKanjiObjs, isHidden }: KanjiPickGameProps) => {
     triggerCrazyMode();
     // Update adaptive weight system - reduces probability of mastered characters
     adaptiveSelector.updateCharacterWeight(correctChar, true);
+    // Reschedule the spaced-repetition review for this kanji
+    recordReview('kanji', correctChar, true, answerTimeMs);
     // Smart algorithm decides next mode based on performance
     decideNextMode();
     // Track content-specific stats for achievements (Requirements 2.1-2.10)
@@ -341,6 +355,7 @@ const KanjiPickGame = ({ selectedKanjiObjs, isHidden }: KanjiPickGameProps) => {
   const handleWrongAnswer = (selectedOption: string) => {
     setWrongSelectedAnswers([...wrongSelectedAnswers, selectedOption]);
     playErrorTwice();
+    recordDifficultyWrong();
     incrementCharacterScore(correctChar, 'wrong');
     incrementWrongAnswers();
     if (score - 1 < 0) {
@@ -351,6 +366,18 @@ const KanjiPickGame = ({ selectedKanjiObjs, isHidden }: KanjiPickGameProps) => {
     triggerCrazyMode();
     // Update adaptive weight system - increases probability of difficult characters
     adaptiveSelector.updateCharacterWeight(correctChar, false);
+    recordReview('kanji', correctChar, false);
+    // Note which kanji the picked option belongs to for the mistake notebook
+    const confusedObj = isReverse
+      ? kanjiObjMap.get(selectedOption)
+      : selectedKanjiObjs.find(obj => obj.meanings[0] === selectedOption);
+    if (correctKanjiObj && confusedObj) {
+      recordConfusion(
+        'kanji',
+        { key: correctChar, answer: correctKanjiObj.meanings[0] },
+        { key: confusedObj.kanjiChar, answer: confusedObj.meanings[0] },
+      );
+    }
     // Reset consecutive streak without changing mode (avoids rerolling the question)
     recordWrongAnswer();
     // Track wrong streak for achievements (Requirement 10.2)
@@ -363,7 +390,7 @@ const KanjiPickGame = ({ selectedKanjiObjs, isHidden }: KanjiPickGameProps) => {
 
     // Use weighted selection - prioritizes characters user struggles with
     const newChar = adaptiveSelector.selectWeightedCharacter(
-      sourceArray,
+      useReviewStore.getState().getDuePool('kanji', sourceArray, correctChar),
       correctChar,
     );
     adaptiveSelector.markCharacterSeen(newChar);
@@ -437,6 +464,11 @@ const KanjiPickGame = ({ selectedKanjiObjs, isHidden }: KanjiPickGameProps) => {
           </div>
 
           <Stars />
+
+          {/* Words using the kanji, to help it stick after a miss */}
+          {wrongSelectedAnswers.length > 0 && correctKanjiObj && (
+            <KanjiExampleWords kanji={correctKanjiObj} className='max-w-md' />
+          )}
         </>
       )}
     </div>
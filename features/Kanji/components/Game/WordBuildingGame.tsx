@@ -6,6 +6,7 @@ import useKanjiStore, { IKanjiObj } from '@/features/Kanji/store/useKanjiStore';
 import { Random } from 'random-js';
 import { useCorrect, useError, useClick } from '@/shared/hooks/useAudio';
 import { getGlobalAdaptiveSelector } from '@/shared/lib/adaptiveSelection';
+import useReviewStore from '@/shared/store/useReviewStore';
 import Stars from '@/shared/components/Game/Stars';
 import { useCrazyModeTrigger } from '@/features/CrazyMode/hooks/useCrazyModeTrigger';
 import { useStatsStore } from '@/features/Progress';
@@ -24,6 +25,7 @@ import {
   useWordBuildingActionKey,
 } from '@/shared/components/Game/wordBuildingShared';
 import WordBuildingTilesGrid from '@/shared/components/Game/WordBuildingTilesGrid';
+import KanjiExampleWords from '../KanjiExampleWords';
 
 const random = new Random();
 const adaptiveSelector = getGlobalAdaptiveSelector();
@@ -70,6 +72,8 @@ const KanjiWordBuildingGame = ({
   );
   const isGlassMode = useThemePreferences().isGlassMode;
 
+  const recordReview = useReviewStore(state => state.recordReview);
+
   // Answer timing for speed achievements
   const speedStopwatch = useStopwatch({ autoStart: false });
   const { playCorrect } = useCorrect();
@@ -120,9 +124,11 @@ const KanjiWordBuildingGame = ({
       return { kanjiChar: '', correctAnswer: '', allTiles: [] };
     }
 
-    // Select a kanji using adaptive selection
+    // Select a kanji using adaptive selection, serving due reviews first
     const kanjiChars = selectedKanjiObjs.map(obj => obj.kanjiChar);
-    const selectedKanji = adaptiveSelector.selectWeightedCharacter(kanjiChars);
+    const selectedKanji = adaptiveSelector.selectWeightedCharacter(
+      useReviewStore.getState().getDuePool('kanji', kanjiChars),
+    );
     adaptiveSelector.markCharacterSeen(selectedKanji);
 
     const selectedKanjiObj = kanjiObjMap.get(selectedKanji);
@@ -229,6 +235,7 @@ const KanjiWordBuildingGame = ({
       addCharacterToHistory(questionData.kanjiChar);
       incrementCharacterScore(questionData.kanjiChar, 'correct');
       adaptiveSelector.updateCharacterWeight(questionData.kanjiChar, true);
+      recordReview('kanji', questionData.kanjiChar, true, answerTimeMs);
       incrementKanjiCorrect(selectedKanjiCollection.toUpperCase());
 
       incrementCorrectAnswers();
@@ -262,6 +269,7 @@ const KanjiWordBuildingGame = ({
 
       incrementCharacterScore(questionData.kanjiChar, 'wrong');
       adaptiveSelector.updateCharacterWeight(questionData.kanjiChar, false);
+      recordReview('kanji', questionData.kanjiChar, false);
 
       if (score - 1 >= 0) {
         setScore(score - 1);
@@ -299,6 +307,7 @@ const KanjiWordBuildingGame = ({
     recordReverseModeWrong,
     addCorrectAnswerTime,
     recordAnswerTime,
+    recordReview,
   ]);
 
   // Handle Continue button (only for correct answers)
@@ -450,6 +459,11 @@ const KanjiWordBuildingGame = ({
 
       <Stars />
 
+      {/* Words using the kanji, to help it stick after a miss */}
+      {showTryAgain && currentKanjiObj && (
+        <KanjiExampleWords kanji={currentKanjiObj} className='max-w-md' />
+      )}
+
       <GameBottomBar
         state={bottomBarState}
         onAction={
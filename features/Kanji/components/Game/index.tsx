@@ -1,5 +1,5 @@
 'use client';
-import { useEffect } from 'react';
+import { useEffect, useMemo } from 'react';
 import Return from '@/shared/components/Game/ReturnFromGame';
 import Pick from './Pick';
 import Input from './Input';
@@ -8,6 +8,7 @@ import useKanjiStore from '@/features/Kanji/store/useKanjiStore';
 import { useStatsStore } from '@/features/Progress';
 import { useShallow } from 'zustand/react/shallow';
 import Stats from '@/shared/components/Game/Stats';
+import { getKanjiReadings } from '@/features/Kanji/lib/kanjiReadings';
 
 const Game = () => {
   const {
@@ -30,6 +31,23 @@ const Game = () => {
   const gameMode = useKanjiStore(state => state.selectedGameModeKanji);
   const selectedKanjiObjs = useKanjiStore(state => state.selectedKanjiObjs);
 
+  // Reading quizzes skip kanji without a reading of the asked-for kind
+  const readingKind =
+    gameMode.toLowerCase() === 'on-yomi'
+      ? 'on'
+      : gameMode.toLowerCase() === 'kun-yomi'
+        ? 'kun'
+        : undefined;
+  const readingKanjiObjs = useMemo(
+    () =>
+      readingKind
+        ? selectedKanjiObjs.filter(
+            obj => getKanjiReadings(obj, readingKind).length > 0,
+          )
+        : selectedKanjiObjs,
+    [selectedKanjiObjs, readingKind],
+  );
+
   useEffect(() => {
     resetStats();
     // Track dojo and mode usage for achievements (Requirements 8.1-8.3)
@@ -52,6 +70,12 @@ const Game = () => {
           isHidden={showStats}
           isReverse={true}
         />
+      ) : readingKind ? (
+        <Input
+          selectedKanjiObjs={readingKanjiObjs}
+          isHidden={showStats}
+          readingKind={readingKind}
+        />
       ) : gameMode.toLowerCase() === 'word-building' ? (
         <WordBuildingGame
           selectedKanjiObjs={selectedKanjiObjs}
@@ -6,7 +6,13 @@ import useKanjiStore, {
 } from '@/features/Kanji/store/useKanjiStore';
 import Gauntlet, { type GauntletConfig } from '@/shared/components/Gauntlet';
 import { getSelectionLabels } from '@/shared/lib/selectionFormatting';
-import { shuffle, pickOne } from '@/shared/lib/shuffle';
+import { pickDistractors } from '@/shared/lib/distractors';
+import { pickOne } from '@/shared/lib/shuffle';
+import {
+  getKanjiReadings,
+  matchesKanjiReading,
+} from '@/features/Kanji/lib/kanjiReadings';
+import { getKanjiSimilarity } from '@/features/Kanji/lib/kanjiMetadata';
 
 interface GauntletKanjiProps {
   onCancel?: () => void;
@@ -40,8 +46,9 @@ const GauntletKanji: React.FC<GauntletKanjiProps> = ({ onCancel }) => {
         // Reverse: showing meaning, answer should be the kanji character or reading
         return (
           answer.trim() === question.kanjiChar ||
-          question.kunyomi.some(k => k.split(' ')[0] === answer) ||
-          question.onyomi.some(k => k.split(' ')[0] === answer)
+          getKanjiReadings(question).some(reading =>
+            matchesKanjiReading(answer, reading),
+          )
         );
       }
       // Normal: showing kanji, answer should match any meaning
@@ -52,38 +59,22 @@ const GauntletKanji: React.FC<GauntletKanjiProps> = ({ onCancel }) => {
     getCorrectAnswer: (question, isReverse) =>
       isReverse ? question.kanjiChar : question.meanings[0],
     // Pick mode support with reverse mode
-    generateOptions: (question, items, count, isReverse) => {
-      if (isReverse) {
-        // Reverse: options are kanji characters
-        const correctAnswer = question.kanjiChar;
-        const seen = new Set([correctAnswer]);
-        const incorrectOptions = shuffle(
-          items.filter(item => item.kanjiChar !== question.kanjiChar),
-        )
-          .filter(item => {
-            if (seen.has(item.kanjiChar)) return false;
-            seen.add(item.kanjiChar);
-            return true;
-          })
-          .slice(0, count - 1)
-          .map(item => item.kanjiChar);
-        return [correctAnswer, ...incorrectOptions];
-      }
-      // Normal: options are meanings
-      const correctAnswer = question.meanings[0];
-      const seen = new Set([correctAnswer]);
-      const incorrectOptions = shuffle(
-        items.filter(item => item.kanjiChar !== question.kanjiChar),
-      )
-        .filter(item => {
-          const meaning = item.meanings[0];
-          if (seen.has(meaning)) return false;
-          seen.add(meaning);
-          return true;
-        })
-        .slice(0, count - 1)
-        .map(item => item.meanings[0]);
-      return [correctAnswer, ...incorrectOptions];
+    generateOptions: (question, items, count, isReverse, similarity) => {
+      // Options are kanji in reverse mode, meanings otherwise;
+      // distractors lean on the components the kanji share
+      const getOption = (item: IKanjiObj) =>
+        isReverse ? item.kanjiChar : item.meanings[0];
+      return [
+        getOption(question),
+        ...pickDistractors(
+          question,
+          items,
+          count - 1,
+          getOption,
+          getKanjiSimilarity,
+          similarity,
+        ),
+      ];
     },
     getCorrectOption: (question, isReverse) =>
       isReverse ? question.kanjiChar : question.meanings[0],
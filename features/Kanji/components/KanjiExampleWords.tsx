@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import clsx from 'clsx';
+import type { IKanjiObj } from '../store/useKanjiStore';
+import {
+  kanjiVocabService,
+  type KanjiReadingGroup,
+} from '../services/kanjiVocabService';
+
+const READING_TYPE_LABELS: Record<KanjiReadingGroup['type'], string> = {
+  on: 'On',
+  kun: 'Kun',
+  irregular: 'Special reading',
+};
+
+interface KanjiExampleWordsProps {
+  kanji: IKanjiObj;
+  wordsPerReading?: number;
+  className?: string;
+}
+
+/**
+ * Vocabulary that uses a kanji, grouped by the reading it takes.
+ * Renders nothing until the words are loaded, or if there are none.
+ */
+export default function KanjiExampleWords({
+  kanji,
+  wordsPerReading = 3,
+  className,
+}: KanjiExampleWordsProps) {
+  const [groups, setGroups] = useState<KanjiReadingGroup[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    kanjiVocabService
+      .getExampleWords(kanji, wordsPerReading)
+      .then(result => {
+        if (!cancelled) setGroups(result);
+      })
+      .catch(error => {
+        console.error('Failed to load example words:', error);
+        if (!cancelled) setGroups([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [kanji, wordsPerReading]);
+
+  if (groups.length === 0) return null;
+
+  return (
+    <div className={clsx('flex w-full flex-col gap-2', className)}>
+      {groups.map(group => (
+        <div
+          key={`${group.type}-${group.reading}`}
+          className='flex flex-col gap-1'
+        >
+          <p className='text-xs text-(--main-color)/80'>
+            {READING_TYPE_LABELS[group.type]}{' '}
+            <span lang='ja'>{group.reading}</span>
+          </p>
+          <ul className='flex flex-col gap-1'>
+            {group.words.map(word => (
+              <li
+                key={`${word.word}-${word.reading}`}
+                className='flex flex-row flex-wrap items-baseline gap-x-2 text-sm'
+              >
+                <span className='text-base text-(--secondary-color)' lang='ja'>
+                  {word.word}
+                </span>
+                <span className='text-(--muted-color)' lang='ja'>
+                  {word.reading}
+                </span>
+                <span className='text-(--muted-color)'>
+                  {word.meanings.slice(0, 2).join(', ')}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
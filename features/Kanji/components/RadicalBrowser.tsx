@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import clsx from 'clsx';
+import { Play } from 'lucide-react';
+import { Link } from '@/core/i18n/routing';
+import { useClick } from '@/shared/hooks/useAudio';
+import type { IKanjiObj } from '../store/useKanjiStore';
+import { kanjiDataService } from '../services/kanjiDataService';
+import { useKanjiSelection } from '../facade/useKanjiSelection';
+import { KANGXI_RADICALS } from '../data/radicals';
+import { countKanjiByRadical, getRadical } from '../lib/kanjiMetadata';
+
+const toggleClassName = (selected: boolean) =>
+  clsx(
+    'flex flex-col items-center rounded-xl border-2 px-3 py-1',
+    'transition-colors duration-200 hover:cursor-pointer',
+    selected
+      ? 'border-(--main-color) text-(--main-color)'
+      : 'border-(--border-color) text-(--secondary-color)',
+  );
+
+/**
+ * Radical browser: the Kangxi radicals used by the JLPT kanji, grouped by
+ * stroke count. Picking a radical lists its kanji from simplest to most
+ * complex, and they can be selected for training in one go.
+ */
+export default function RadicalBrowser() {
+  const { playClick } = useClick();
+  const {
+    radicalFilter,
+    setRadicalFilter,
+    filterByRadical,
+    clearKanji,
+    addKanjiList,
+    setSets,
+  } = useKanjiSelection();
+  const [allKanji, setAllKanji] = useState<IKanjiObj[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    kanjiDataService
+      .preloadAll()
+      .then(() => {
+        if (!cancelled) {
+          setAllKanji(Object.values(kanjiDataService.getAllCached()).flat());
+        }
+      })
+      .catch(error => {
+        console.error('Failed to load kanji for the radical browser:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const counts = useMemo(() => countKanjiByRadical(allKanji), [allKanji]);
+
+  // Radicals in use, grouped by their stroke count
+  const radicalGroups = useMemo(() => {
+    const groups = new Map<number, typeof KANGXI_RADICALS>();
+    for (const radical of KANGXI_RADICALS) {
+      if (!counts.has(radical.number)) continue;
+      groups.set(radical.strokeCount, [
+        ...(groups.get(radical.strokeCount) ?? []),
+        radical,
+      ]);
+    }
+    return [...groups.entries()];
+  }, [counts]);
+
+  const radical =
+    radicalFilter === null ? undefined : getRadical(radicalFilter);
+  const radicalKanji = useMemo(
+    () => (radicalFilter === null ? [] : filterByRadical(allKanji)),
+    [allKanji, radicalFilter, filterByRadical],
+  );
+
+  const selectForTraining = () => {
+    playClick();
+    clearKanji();
+    setSets([]);
+    addKanjiList(radicalKanji);
+  };
+
+  return (
+    <div className='flex flex-col gap-6'>
+      <div className='flex flex-col gap-2 rounded-2xl border-2 border-(--border-color) bg-(--card-color) p-4'>
+        <h1 className='text-2xl font-bold text-(--main-color)'>
+          Kanji by Radical
+        </h1>
+        <p className='text-(--secondary-color)'>
+          Kanji that share a radical often share part of their meaning. Pick a
+          radical to see its kanji, simplest first, and train them together.
+        </p>
+      </div>
+
+      {!isLoading && radicalGroups.length === 0 && (
+        <p className='text-(--muted-color)'>
+          Radical data isn&apos;t available for the kanji yet.
+        </p>
+      )}
+
+      {radicalGroups.map(([strokeCount, radicals]) => (
+        <div key={strokeCount} className='flex flex-col gap-2'>
+          <h2 className='text-sm font-semibold text-(--secondary-color)'>
+            {strokeCount} {strokeCount === 1 ? 'stroke' : 'strokes'}
+          </h2>
+          <div className='flex flex-wrap gap-2'>
+            {radicals.map(entry => (
+              <button
+                key={entry.number}
+                type='button'
+                title={entry.meaning}
+                aria-pressed={radicalFilter === entry.number}
+                onClick={() => {
+                  playClick();
+                  setRadicalFilter(
+                    radicalFilter === entry.number ? null : entry.number,
+                  );
+                }}
+                className={toggleClassName(radicalFilter === entry.number)}
+              >
+                <span className='text-2xl' lang='ja'>
+                  {entry.radical}
+                </span>
+                <span className='text-xs text-(--muted-color)'>
+                  {counts.get(entry.number)}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {radical && radicalKanji.length > 0 && (
+        <div className='flex flex-col gap-3'>
+          <h2 className='text-lg font-semibold text-(--secondary-color)'>
+            <span lang='ja'>{radical.radical}</span> ({radical.meaning}) ·{' '}
+            {radicalKanji.length} kanji
+          </h2>
+          <div className='flex flex-wrap gap-2'>
+            {radicalKanji.map(kanji => (
+              <span
+                key={kanji.kanjiChar}
+                title={kanji.meanings.join(', ')}
+                className='flex flex-col items-center rounded-xl border-2 border-(--border-color) bg-(--card-color) px-3 py-1'
+              >
+                <span className='text-2xl text-(--main-color)' lang='ja'>
+                  {kanji.kanjiChar}
+                </span>
+                <span className='text-xs text-(--muted-color)'>
+                  {kanji.strokeCount ?? '?'}
+                </span>
+              </span>
+            ))}
+          </div>
+
+          <Link href='/kanji' onClick={selectForTraining}>
+            <span
+              className={clsx(
+                'flex h-12 w-full flex-row items-center justify-center gap-2 px-6',
+                'bg-(--main-color) text-(--background-color)',
+                'rounded-2xl transition-colors duration-200',
+                'border-b-6 border-(--main-color-accent) shadow-sm',
+              )}
+            >
+              <Play size={20} />
+              Select for Training
+            </span>
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
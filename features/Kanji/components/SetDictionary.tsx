@@ -3,10 +3,20 @@
 import clsx from 'clsx';
 import { cardBorderStyles } from '@/shared/lib/styles';
 import type { IKanjiObj } from '@/features/Kanji/store/useKanjiStore';
+import { kanjiDataService } from '@/features/Kanji/services/kanjiDataService';
+import {
+  getKanjiSharingRadical,
+  getRadical,
+} from '@/features/Kanji/lib/kanjiMetadata';
+import KanjiExampleWords from '@/features/Kanji/components/KanjiExampleWords';
 import { useThemePreferences } from '@/features/Preferences';
 import FuriganaText from '@/shared/components/text/FuriganaText';
+import AddToStudySet from '@/shared/components/Menu/AddToStudySet';
 import { useClick } from '@/shared/hooks/useAudio';
-import { memo } from 'react';
+import { memo, useMemo } from 'react';
+
+// Kanji sharing the radical shown under each entry
+const SHARED_RADICAL_COUNT = 6;
 
 type KanjiSetDictionaryProps = {
   words: IKanjiObj[];
@@ -18,6 +28,12 @@ const KanjiSetDictionary = memo(function KanjiSetDictionary({
   const { playClick } = useClick();
   const { displayKana: showKana } = useThemePreferences();
 
+  // Levels the menu has already loaded; enough to find radical neighbours
+  const allKanji = useMemo(
+    () => Object.values(kanjiDataService.getAllCached()).flat(),
+    [],
+  );
+
   return (
     <div className={clsx('flex flex-col')}>
       {words.map((kanjiObj, i) => (
@@ -139,10 +155,68 @@ const KanjiSetDictionary = memo(function KanjiSetDictionary({
           <p className='w-full text-xl text-(--secondary-color) md:text-2xl'>
             {kanjiObj.meanings.join(', ')}
           </p>
+
+          {kanjiObj.radical !== undefined && (
+            <KanjiMetadataRow kanjiObj={kanjiObj} allKanji={allKanji} />
+          )}
+
+          <KanjiExampleWords kanji={kanjiObj} />
+
+          <AddToStudySet items={{ kanji: [kanjiObj] }} />
         </div>
       ))}
     </div>
   );
 });
 
+function KanjiMetadataRow({
+  kanjiObj,
+  allKanji,
+}: {
+  kanjiObj: IKanjiObj;
+  allKanji: IKanjiObj[];
+}) {
+  const radical =
+    kanjiObj.radical === undefined ? undefined : getRadical(kanjiObj.radical);
+  const sharing = getKanjiSharingRadical(kanjiObj, allKanji).slice(
+    0,
+    SHARED_RADICAL_COUNT,
+  );
+
+  return (
+    <div className='flex w-full flex-col gap-1 text-sm text-(--muted-color)'>
+      <p className='flex flex-wrap gap-x-4 gap-y-1'>
+        {radical && (
+          <span>
+            Radical{' '}
+            <span className='text-(--secondary-color)' lang='ja'>
+              {radical.radical}
+            </span>{' '}
+            ({radical.meaning})
+          </span>
+        )}
+        {kanjiObj.strokeCount !== undefined && (
+          <span>{kanjiObj.strokeCount} strokes</span>
+        )}
+        {kanjiObj.components && kanjiObj.components.length > 0 && (
+          <span>
+            Components{' '}
+            <span className='text-(--secondary-color)' lang='ja'>
+              {kanjiObj.components.join(' ')}
+            </span>
+          </span>
+        )}
+      </p>
+      {sharing.length > 0 && (
+        <p>
+          Same radical{' '}
+          <span className='text-(--secondary-color)' lang='ja'>
+            {sharing.map(entry => entry.kanjiChar).join(' ')}
+          </span>
+        </p>
+      )}
+    </div>
+  );
+}
+
 export default KanjiSetDictionary;
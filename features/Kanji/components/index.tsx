@@ -10,6 +10,7 @@ import {
   kanjiDataService,
   KanjiLevel,
 } from '@/features/Kanji/services/kanjiDataService';
+import CustomSetCards from '@/shared/components/Menu/CustomSetCards';
 import LevelSetCards from '@/shared/components/Menu/LevelSetCards';
 import {
   N1KanjiLength,
@@ -74,34 +75,42 @@ const KanjiCards = () => {
   );
 
   return (
-    <LevelSetCards<KanjiLevel, IKanjiObj>
-      levelOrder={levelOrder}
-      selectedUnitName={selectedKanjiCollectionName as KanjiLevel}
-      itemsPerSet={KANJI_PER_SET}
-      getCollectionName={getCollectionName}
-      getCollectionSize={getCollectionSize}
-      loadItemsByLevel={loadItemsByLevel}
-      selectedSets={selectedKanjiSets}
-      setSelectedSets={setSelectedKanjiSets}
-      clearSelected={() => {
-        clearKanjiSets();
-        clearKanjiObjs();
-      }}
-      toggleItems={items => addKanjiObjs(items)}
-      collapsedRows={collapsedRows}
-      setCollapsedRows={setCollapsedRows}
-      masteryByKey={allTimeStats.characterMastery}
-      getMasteryKey={item => item.kanjiChar}
-      renderSetDictionary={items => <KanjiSetDictionary words={items} />}
-      loadingText='Loading kanji sets...'
-      tipText={
-        <>
-          💡 <strong>Tip:</strong> Complete some practice sessions to unlock the
-          &ldquo;Hide Mastered Sets&rdquo; filter. Sets become mastered when you
-          achieve 90%+ accuracy with 10+ attempts per character.
-        </>
-      }
-    />
+    <>
+      <CustomSetCards
+        contentType='kanji'
+        selectedSets={selectedKanjiSets}
+        setSelectedSets={setSelectedKanjiSets}
+        toggleItems={items => addKanjiObjs(items)}
+      />
+      <LevelSetCards<KanjiLevel, IKanjiObj>
+        levelOrder={levelOrder}
+        selectedUnitName={selectedKanjiCollectionName as KanjiLevel}
+        itemsPerSet={KANJI_PER_SET}
+        getCollectionName={getCollectionName}
+        getCollectionSize={getCollectionSize}
+        loadItemsByLevel={loadItemsByLevel}
+        selectedSets={selectedKanjiSets}
+        setSelectedSets={setSelectedKanjiSets}
+        clearSelected={() => {
+          clearKanjiSets();
+          clearKanjiObjs();
+        }}
+        toggleItems={items => addKanjiObjs(items)}
+        collapsedRows={collapsedRows}
+        setCollapsedRows={setCollapsedRows}
+        masteryByKey={allTimeStats.characterMastery}
+        getMasteryKey={item => item.kanjiChar}
+        renderSetDictionary={items => <KanjiSetDictionary words={items} />}
+        loadingText='Loading kanji sets...'
+        tipText={
+          <>
+            💡 <strong>Tip:</strong> Complete some practice sessions to unlock
+            the &ldquo;Hide Mastered Sets&rdquo; filter. Sets become mastered
+            when you achieve 90%+ accuracy with 10+ attempts per character.
+          </>
+        }
+      />
+    </>
   );
 };
 
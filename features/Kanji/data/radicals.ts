@@ -0,0 +1,227 @@
+/**
+ * The 214 Kangxi radicals in their traditional order, which runs from
+ * fewest to most strokes. KANJIDIC2 refers to radicals by this number.
+ */
+export interface KanjiRadical {
+  number: number;
+  radical: string;
+  meaning: string;
+  strokeCount: number;
+}
+
+export const KANGXI_RADICALS: KanjiRadical[] = [
+  { number: 1, radical: '一', meaning: 'one', strokeCount: 1 },
+  { number: 2, radical: '丨', meaning: 'line', strokeCount: 1 },
+  { number: 3, radical: '丶', meaning: 'dot', strokeCount: 1 },
+  { number: 4, radical: '丿', meaning: 'slash', strokeCount: 1 },
+  { number: 5, radical: '乙', meaning: 'second', strokeCount: 1 },
+  { number: 6, radical: '亅', meaning: 'hook', strokeCount: 1 },
+  { number: 7, radical: '二', meaning: 'two', strokeCount: 2 },
+  { number: 8, radical: '亠', meaning: 'lid', strokeCount: 2 },
+  { number: 9, radical: '人', meaning: 'man', strokeCount: 2 },
+  { number: 10, radical: '儿', meaning: 'legs', strokeCount: 2 },
+  { number: 11, radical: '入', meaning: 'enter', strokeCount: 2 },
+  { number: 12, radical: '八', meaning: 'eight', strokeCount: 2 },
+  { number: 13, radical: '冂', meaning: 'down box', strokeCount: 2 },
+  { number: 14, radical: '冖', meaning: 'cover', strokeCount: 2 },
+  { number: 15, radical: '冫', meaning: 'ice', strokeCount: 2 },
+  { number: 16, radical: '几', meaning: 'table', strokeCount: 2 },
+  { number: 17, radical: '凵', meaning: 'open box', strokeCount: 2 },
+  { number: 18, radical: '刀', meaning: 'knife', strokeCount: 2 },
+  { number: 19, radical: '力', meaning: 'power', strokeCount: 2 },
+  { number: 20, radical: '勹', meaning: 'wrap', strokeCount: 2 },
+  { number: 21, radical: '匕', meaning: 'spoon', strokeCount: 2 },
+  { number: 22, radical: '匚', meaning: 'right open box', strokeCount: 2 },
+  { number: 23, radical: '匸', meaning: 'hiding enclosure', strokeCount: 2 },
+  { number: 24, radical: '十', meaning: 'ten', strokeCount: 2 },
+  { number: 25, radical: '卜', meaning: 'divination', strokeCount: 2 },
+  { number: 26, radical: '卩', meaning: 'seal', strokeCount: 2 },
+  { number: 27, radical: '厂', meaning: 'cliff', strokeCount: 2 },
+  { number: 28, radical: '厶', meaning: 'private', strokeCount: 2 },
+  { number: 29, radical: '又', meaning: 'again', strokeCount: 2 },
+  { number: 30, radical: '口', meaning: 'mouth', strokeCount: 3 },
+  { number: 31, radical: '囗', meaning: 'enclosure', strokeCount: 3 },
+  { number: 32, radical: '土', meaning: 'earth', strokeCount: 3 },
+  { number: 33, radical: '士', meaning: 'scholar', strokeCount: 3 },
+  { number: 34, radical: '夂', meaning: 'go', strokeCount: 3 },
+  { number: 35, radical: '夊', meaning: 'go slowly', strokeCount: 3 },
+  { number: 36, radical: '夕', meaning: 'evening', strokeCount: 3 },
+  { number: 37, radical: '大', meaning: 'big', strokeCount: 3 },
+  { number: 38, radical: '女', meaning: 'woman', strokeCount: 3 },
+  { number: 39, radical: '子', meaning: 'child', strokeCount: 3 },
+  { number: 40, radical: '宀', meaning: 'roof', strokeCount: 3 },
+  { number: 41, radical: '寸', meaning: 'inch', strokeCount: 3 },
+  { number: 42, radical: '小', meaning: 'small', strokeCount: 3 },
+  { number: 43, radical: '尢', meaning: 'lame', strokeCount: 3 },
+  { number: 44, radical: '尸', meaning: 'corpse', strokeCount: 3 },
+  { number: 45, radical: '屮', meaning: 'sprout', strokeCount: 3 },
+  { number: 46, radical: '山', meaning: 'mountain', strokeCount: 3 },
+  { number: 47, radical: '巛', meaning: 'river', strokeCount: 3 },
+  { number: 48, radical: '工', meaning: 'work', strokeCount: 3 },
+  { number: 49, radical: '己', meaning: 'oneself', strokeCount: 3 },
+  { number: 50, radical: '巾', meaning: 'turban', strokeCount: 3 },
+  { number: 51, radical: '干', meaning: 'dry', strokeCount: 3 },
+  { number: 52, radical: '幺', meaning: 'short thread', strokeCount: 3 },
+  { number: 53, radical: '广', meaning: 'dotted cliff', strokeCount: 3 },
+  { number: 54, radical: '廴', meaning: 'long stride', strokeCount: 3 },
+  { number: 55, radical: '廾', meaning: 'two hands', strokeCount: 3 },
+  { number: 56, radical: '弋', meaning: 'shoot', strokeCount: 3 },
+  { number: 57, radical: '弓', meaning: 'bow', strokeCount: 3 },
+  { number: 58, radical: '彐', meaning: 'snout', strokeCount: 3 },
+  { number: 59, radical: '彡', meaning: 'bristle', strokeCount: 3 },
+  { number: 60, radical: '彳', meaning: 'step', strokeCount: 3 },
+  { number: 61, radical: '心', meaning: 'heart', strokeCount: 4 },
+  { number: 62, radical: '戈', meaning: 'halberd', strokeCount: 4 },
+  { number: 63, radical: '戶', meaning: 'door', strokeCount: 4 },
+  { number: 64, radical: '手', meaning: 'hand', strokeCount: 4 },
+  { number: 65, radical: '支', meaning: 'branch', strokeCount: 4 },
+  { number: 66, radical: '攴', meaning: 'rap', strokeCount: 4 },
+  { number: 67, radical: '文', meaning: 'script', strokeCount: 4 },
+  { number: 68, radical: '斗', meaning: 'dipper', strokeCount: 4 },
+  { number: 69, radical: '斤', meaning: 'axe', strokeCount: 4 },
+  { number: 70, radical: '方', meaning: 'square', strokeCount: 4 },
+  { number: 71, radical: '无', meaning: 'not', strokeCount: 4 },
+  { number: 72, radical: '日', meaning: 'sun', strokeCount: 4 },
+  { number: 73, radical: '曰', meaning: 'say', strokeCount: 4 },
+  { number: 74, radical: '月', meaning: 'moon', strokeCount: 4 },
+  { number: 75, radical: '木', meaning: 'tree', strokeCount: 4 },
+  { number: 76, radical: '欠', meaning: 'lack', strokeCount: 4 },
+  { number: 77, radical: '止', meaning: 'stop', strokeCount: 4 },
+  { number: 78, radical: '歹', meaning: 'death', strokeCount: 4 },
+  { number: 79, radical: '殳', meaning: 'weapon', strokeCount: 4 },
+  { number: 80, radical: '毋', meaning: 'do not', strokeCount: 4 },
+  { number: 81, radical: '比', meaning: 'compare', strokeCount: 4 },
+  { number: 82, radical: '毛', meaning: 'fur', strokeCount: 4 },
+  { number: 83, radical: '氏', meaning: 'clan', strokeCount: 4 },
+  { number: 84, radical: '气', meaning: 'steam', strokeCount: 4 },
+  { number: 85, radical: '水', meaning: 'water', strokeCount: 4 },
+  { number: 86, radical: '火', meaning: 'fire', strokeCount: 4 },
+  { number: 87, radical: '爪', meaning: 'claw', strokeCount: 4 },
+  { number: 88, radical: '父', meaning: 'father', strokeCount: 4 },
+  { number: 89, radical: '爻', meaning: 'double x', strokeCount: 4 },
+  { number: 90, radical: '爿', meaning: 'half tree trunk', strokeCount: 4 },
+  { number: 91, radical: '片', meaning: 'slice', strokeCount: 4 },
+  { number: 92, radical: '牙', meaning: 'fang', strokeCount: 4 },
+  { number: 93, radical: '牛', meaning: 'cow', strokeCount: 4 },
+  { number: 94, radical: '犬', meaning: 'dog', strokeCount: 4 },
+  { number: 95, radical: '玄', meaning: 'profound', strokeCount: 5 },
+  { number: 96, radical: '玉', meaning: 'jade', strokeCount: 5 },
+  { number: 97, radical: '瓜', meaning: 'melon', strokeCount: 5 },
+  { number: 98, radical: '瓦', meaning: 'tile', strokeCount: 5 },
+  { number: 99, radical: '甘', meaning: 'sweet', strokeCount: 5 },
+  { number: 100, radical: '生', meaning: 'life', strokeCount: 5 },
+  { number: 101, radical: '用', meaning: 'use', strokeCount: 5 },
+  { number: 102, radical: '田', meaning: 'field', strokeCount: 5 },
+  { number: 103, radical: '疋', meaning: 'bolt of cloth', strokeCount: 5 },
+  { number: 104, radical: '疒', meaning: 'sickness', strokeCount: 5 },
+  { number: 105, radical: '癶', meaning: 'dotted tent', strokeCount: 5 },
+  { number: 106, radical: '白', meaning: 'white', strokeCount: 5 },
+  { number: 107, radical: '皮', meaning: 'skin', strokeCount: 5 },
+  { number: 108, radical: '皿', meaning: 'dish', strokeCount: 5 },
+  { number: 109, radical: '目', meaning: 'eye', strokeCount: 5 },
+  { number: 110, radical: '矛', meaning: 'spear', strokeCount: 5 },
+  { number: 111, radical: '矢', meaning: 'arrow', strokeCount: 5 },
+  { number: 112, radical: '石', meaning: 'stone', strokeCount: 5 },
+  { number: 113, radical: '示', meaning: 'spirit', strokeCount: 5 },
+  { number: 114, radical: '禸', meaning: 'track', strokeCount: 5 },
+  { number: 115, radical: '禾', meaning: 'grain', strokeCount: 5 },
+  { number: 116, radical: '穴', meaning: 'cave', strokeCount: 5 },
+  { number: 117, radical: '立', meaning: 'stand', strokeCount: 5 },
+  { number: 118, radical: '竹', meaning: 'bamboo', strokeCount: 6 },
+  { number: 119, radical: '米', meaning: 'rice', strokeCount: 6 },
+  { number: 120, radical: '糸', meaning: 'silk', strokeCount: 6 },
+  { number: 121, radical: '缶', meaning: 'jar', strokeCount: 6 },
+  { number: 122, radical: '网', meaning: 'net', strokeCount: 6 },
+  { number: 123, radical: '羊', meaning: 'sheep', strokeCount: 6 },
+  { number: 124, radical: '羽', meaning: 'feather', strokeCount: 6 },
+  { number: 125, radical: '老', meaning: 'old', strokeCount: 6 },
+  { number: 126, radical: '而', meaning: 'and', strokeCount: 6 },
+  { number: 127, radical: '耒', meaning: 'plow', strokeCount: 6 },
+  { number: 128, radical: '耳', meaning: 'ear', strokeCount: 6 },
+  { number: 129, radical: '聿', meaning: 'brush', strokeCount: 6 },
+  { number: 130, radical: '肉', meaning: 'meat', strokeCount: 6 },
+  { number: 131, radical: '臣', meaning: 'minister', strokeCount: 6 },
+  { number: 132, radical: '自', meaning: 'self', strokeCount: 6 },
+  { number: 133, radical: '至', meaning: 'arrive', strokeCount: 6 },
+  { number: 134, radical: '臼', meaning: 'mortar', strokeCount: 6 },
+  { number: 135, radical: '舌', meaning: 'tongue', strokeCount: 6 },
+  { number: 136, radical: '舛', meaning: 'oppose', strokeCount: 6 },
+  { number: 137, radical: '舟', meaning: 'boat', strokeCount: 6 },
+  { number: 138, radical: '艮', meaning: 'stopping', strokeCount: 6 },
+  { number: 139, radical: '色', meaning: 'color', strokeCount: 6 },
+  { number: 140, radical: '艸', meaning: 'grass', strokeCount: 6 },
+  { number: 141, radical: '虍', meaning: 'tiger', strokeCount: 6 },
+  { number: 142, radical: '虫', meaning: 'insect', strokeCount: 6 },
+  { number: 143, radical: '血', meaning: 'blood', strokeCount: 6 },
+  { number: 144, radical: '行', meaning: 'walk enclosure', strokeCount: 6 },
+  { number: 145, radical: '衣', meaning: 'clothes', strokeCount: 6 },
+  { number: 146, radical: '襾', meaning: 'west', strokeCount: 6 },
+  { number: 147, radical: '見', meaning: 'see', strokeCount: 7 },
+  { number: 148, radical: '角', meaning: 'horn', strokeCount: 7 },
+  { number: 149, radical: '言', meaning: 'speech', strokeCount: 7 },
+  { number: 150, radical: '谷', meaning: 'valley', strokeCount: 7 },
+  { number: 151, radical: '豆', meaning: 'bean', strokeCount: 7 },
+  { number: 152, radical: '豕', meaning: 'pig', strokeCount: 7 },
+  { number: 153, radical: '豸', meaning: 'badger', strokeCount: 7 },
+  { number: 154, radical: '貝', meaning: 'shell', strokeCount: 7 },
+  { number: 155, radical: '赤', meaning: 'red', strokeCount: 7 },
+  { number: 156, radical: '走', meaning: 'run', strokeCount: 7 },
+  { number: 157, radical: '足', meaning: 'foot', strokeCount: 7 },
+  { number: 158, radical: '身', meaning: 'body', strokeCount: 7 },
+  { number: 159, radical: '車', meaning: 'cart', strokeCount: 7 },
+  { number: 160, radical: '辛', meaning: 'bitter', strokeCount: 7 },
+  { number: 161, radical: '辰', meaning: 'morning', strokeCount: 7 },
+  { number: 162, radical: '辵', meaning: 'walk', strokeCount: 7 },
+  { number: 163, radical: '邑', meaning: 'city', strokeCount: 7 },
+  { number: 164, radical: '酉', meaning: 'wine', strokeCount: 7 },
+  { number: 165, radical: '釆', meaning: 'distinguish', strokeCount: 7 },
+  { number: 166, radical: '里', meaning: 'village', strokeCount: 7 },
+  { number: 167, radical: '金', meaning: 'gold', strokeCount: 8 },
+  { number: 168, radical: '長', meaning: 'long', strokeCount: 8 },
+  { number: 169, radical: '門', meaning: 'gate', strokeCount: 8 },
+  { number: 170, radical: '阜', meaning: 'mound', strokeCount: 8 },
+  { number: 171, radical: '隶', meaning: 'slave', strokeCount: 8 },
+  { number: 172, radical: '隹', meaning: 'short tailed bird', strokeCount: 8 },
+  { number: 173, radical: '雨', meaning: 'rain', strokeCount: 8 },
+  { number: 174, radical: '靑', meaning: 'blue', strokeCount: 8 },
+  { number: 175, radical: '非', meaning: 'wrong', strokeCount: 8 },
+  { number: 176, radical: '面', meaning: 'face', strokeCount: 9 },
+  { number: 177, radical: '革', meaning: 'leather', strokeCount: 9 },
+  { number: 178, radical: '韋', meaning: 'tanned leather', strokeCount: 9 },
+  { number: 179, radical: '韭', meaning: 'leek', strokeCount: 9 },
+  { number: 180, radical: '音', meaning: 'sound', strokeCount: 9 },
+  { number: 181, radical: '頁', meaning: 'leaf', strokeCount: 9 },
+  { number: 182, radical: '風', meaning: 'wind', strokeCount: 9 },
+  { number: 183, radical: '飛', meaning: 'fly', strokeCount: 9 },
+  { number: 184, radical: '食', meaning: 'eat', strokeCount: 9 },
+  { number: 185, radical: '首', meaning: 'head', strokeCount: 9 },
+  { number: 186, radical: '香', meaning: 'fragrant', strokeCount: 9 },
+  { number: 187, radical: '馬', meaning: 'horse', strokeCount: 10 },
+  { number: 188, radical: '骨', meaning: 'bone', strokeCount: 10 },
+  { number: 189, radical: '高', meaning: 'tall', strokeCount: 10 },
+  { number: 190, radical: '髟', meaning: 'hair', strokeCount: 10 },
+  { number: 191, radical: '鬥', meaning: 'fight', strokeCount: 10 },
+  { number: 192, radical: '鬯', meaning: 'sacrificial wine', strokeCount: 10 },
+  { number: 193, radical: '鬲', meaning: 'cauldron', strokeCount: 10 },
+  { number: 194, radical: '鬼', meaning: 'ghost', strokeCount: 10 },
+  { number: 195, radical: '魚', meaning: 'fish', strokeCount: 11 },
+  { number: 196, radical: '鳥', meaning: 'bird', strokeCount: 11 },
+  { number: 197, radical: '鹵', meaning: 'salt', strokeCount: 11 },
+  { number: 198, radical: '鹿', meaning: 'deer', strokeCount: 11 },
+  { number: 199, radical: '麥', meaning: 'wheat', strokeCount: 11 },
+  { number: 200, radical: '麻', meaning: 'hemp', strokeCount: 11 },
+  { number: 201, radical: '黃', meaning: 'yellow', strokeCount: 12 },
+  { number: 202, radical: '黍', meaning: 'millet', strokeCount: 12 },
+  { number: 203, radical: '黑', meaning: 'black', strokeCount: 12 },
+  { number: 204, radical: '黹', meaning: 'embroidery', strokeCount: 12 },
+  { number: 205, radical: '黽', meaning: 'frog', strokeCount: 13 },
+  { number: 206, radical: '鼎', meaning: 'tripod', strokeCount: 13 },
+  { number: 207, radical: '鼓', meaning: 'drum', strokeCount: 13 },
+  { number: 208, radical: '鼠', meaning: 'rat', strokeCount: 13 },
+  { number: 209, radical: '鼻', meaning: 'nose', strokeCount: 14 },
+  { number: 210, radical: '齊', meaning: 'even', strokeCount: 14 },
+  { number: 211, radical: '齒', meaning: 'tooth', strokeCount: 15 },
+  { number: 212, radical: '龍', meaning: 'dragon', strokeCount: 16 },
+  { number: 213, radical: '龜', meaning: 'turtle', strokeCount: 16 },
+  { number: 214, radical: '龠', meaning: 'flute', strokeCount: 17 },
+];
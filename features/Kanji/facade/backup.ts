@@ -0,0 +1,13 @@
+'use client';
+
+import useKanjiStore from '../store/useKanjiStore';
+
+type KanjiStoreState = ReturnType<typeof useKanjiStore.getState>;
+
+export const kanjiBackup = {
+  getSelectionState: (): KanjiStoreState => useKanjiStore.getState(),
+  setSelectionState: (partial: Partial<KanjiStoreState>) =>
+    useKanjiStore.setState(partial),
+};
+
+export type { KanjiStoreState };
@@ -4,5 +4,35 @@ export type {
   KanjiSelectionActions,
 } from './useKanjiSelection';
 
+export { kanjiBackup } from './backup';
+export type { KanjiStoreState } from './backup';
+
+export { KANGXI_RADICALS, type KanjiRadical } from '../data/radicals';
+export {
+  getRadical,
+  compareKanjiComplexity,
+  filterKanjiByRadical,
+  getKanjiSharingRadical,
+  countKanjiByRadical,
+  getKanjiSimilarity,
+} from '../lib/kanjiMetadata';
+export {
+  parseKanjiReading,
+  getKanjiReadings,
+  formatKanjiReading,
+  normalizeReadingInput,
+  matchesKanjiReading,
+  checkReadingAnswer,
+  READING_KIND_LABELS,
+  type KanjiReading,
+  type KanjiReadingKind,
+  type ReadingAnswerResult,
+} from '../lib/kanjiReadings';
+export {
+  groupWordsByReading,
+  type KanjiReadingGroup,
+  type KanjiReadingType,
+} from '../lib/kanjiVocab';
+
 // Re-export types for convenience
 export type { IKanjiObj } from '../store/useKanjiStore';
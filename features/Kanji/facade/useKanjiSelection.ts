@@ -1,8 +1,9 @@
 'use client';
 
-import { useMemo } from 'react';
+import { useCallback, useMemo } from 'react';
 import useKanjiStore from '../store/useKanjiStore';
 import type { IKanjiObj } from '../store/useKanjiStore';
+import { filterKanjiByRadical } from '../lib/kanjiMetadata';
 
 /**
  * Kanji Selection Facade - Public API for selection state
@@ -17,6 +18,8 @@ export interface KanjiSelection {
   totalSelected: number;
   isEmpty: boolean;
   gameMode: string;
+  /** Kangxi radical number to filter kanji by, if any */
+  radicalFilter: number | null;
 }
 
 export interface KanjiSelectionActions {
@@ -27,6 +30,9 @@ export interface KanjiSelectionActions {
   setSets: (sets: string[]) => void;
   clearSets: () => void;
   setGameMode: (mode: string) => void;
+  setRadicalFilter: (radical: number | null) => void;
+  /** Apply the radical filter to a list of kanji, simplest first */
+  filterByRadical: (kanji: IKanjiObj[]) => IKanjiObj[];
 }
 
 export function useKanjiSelection(): KanjiSelection & KanjiSelectionActions {
@@ -45,6 +51,16 @@ export function useKanjiSelection(): KanjiSelection & KanjiSelectionActions {
   const setSets = useKanjiStore(state => state.setSelectedKanjiSets);
   const clearSets = useKanjiStore(state => state.clearKanjiSets);
   const setGameMode = useKanjiStore(state => state.setSelectedGameModeKanji);
+  const radicalFilter = useKanjiStore(state => state.selectedRadical);
+  const setRadicalFilter = useKanjiStore(state => state.setSelectedRadical);
+
+  const filterByRadical = useCallback(
+    (kanji: IKanjiObj[]) =>
+      radicalFilter === null
+        ? kanji
+        : filterKanjiByRadical(kanji, radicalFilter),
+    [radicalFilter],
+  );
 
   return useMemo(
     () => ({
@@ -55,6 +71,7 @@ export function useKanjiSelection(): KanjiSelection & KanjiSelectionActions {
       totalSelected: selectedKanji.length,
       isEmpty: selectedKanji.length === 0,
       gameMode,
+      radicalFilter,
 
       // Actions
       addKanji,
@@ -64,12 +81,15 @@ export function useKanjiSelection(): KanjiSelection & KanjiSelectionActions {
       setSets,
       clearSets,
       setGameMode,
+      setRadicalFilter,
+      filterByRadical,
     }),
     [
       selectedKanji,
       selectedSets,
       selectedCollection,
       gameMode,
+      radicalFilter,
       addKanji,
       addKanjiList,
       clearKanji,
@@ -77,6 +97,8 @@ export function useKanjiSelection(): KanjiSelection & KanjiSelectionActions {
       setSets,
       clearSets,
       setGameMode,
+      setRadicalFilter,
+      filterByRadical,
     ],
   );
 }
@@ -3,11 +3,36 @@
 // ============================================================================
 
 // Facades (PRIMARY API - Use these in new code)
-export { useKanjiSelection } from './facade';
+export {
+  useKanjiSelection,
+  kanjiBackup,
+  KANGXI_RADICALS,
+  getRadical,
+  compareKanjiComplexity,
+  filterKanjiByRadical,
+  getKanjiSharingRadical,
+  countKanjiByRadical,
+  getKanjiSimilarity,
+  groupWordsByReading,
+  parseKanjiReading,
+  getKanjiReadings,
+  formatKanjiReading,
+  normalizeReadingInput,
+  matchesKanjiReading,
+  checkReadingAnswer,
+  READING_KIND_LABELS,
+} from './facade';
 export type {
   KanjiSelection,
   KanjiSelectionActions,
   IKanjiObj,
+  KanjiStoreState,
+  KanjiRadical,
+  KanjiReadingGroup,
+  KanjiReadingType,
+  KanjiReading,
+  KanjiReadingKind,
+  ReadingAnswerResult,
 } from './facade';
 
 // Components (page-level)
@@ -15,9 +40,13 @@ export { default as KanjiGame } from './components/Game';
 export { default as KanjiCards } from './components';
 export { default as KanjiBlitz } from './components/Blitz';
 export { default as KanjiGauntlet } from './components/Gauntlet';
+export { default as RadicalBrowser } from './components/RadicalBrowser';
+export { default as KanjiExampleWords } from './components/KanjiExampleWords';
 
 // ============================================================================
 // PRIVATE - DO NOT IMPORT DIRECTLY
 // ============================================================================
 // - store/useKanjiStore.ts (use useKanjiSelection facade instead)
 // - services/kanjiDataService.ts (internal)
+// - services/kanjiVocabService.ts (internal, use KanjiExampleWords)
+// - lib/*, data/radicals.ts (use the facade exports instead)
@@ -0,0 +1,182 @@
+/**
+ * Kanji Metadata
+ *
+ * Radical, stroke count, frequency and component data for kanji. The
+ * data comes from KANJIDIC2 (radical, strokes, frequency; © EDRDG,
+ * CC BY-SA 4.0) and the element groups of KanjiVG (components; © Ulrich
+ * Apel, CC BY-SA 3.0). The parsers here are used by
+ * scripts/generateConstants.ts to add the metadata to the JSON files in
+ * public/data-kanji; the rest works on the loaded kanji.
+ */
+
+import type { IKanjiObj } from '../store/useKanjiStore';
+import { KANGXI_RADICALS, type KanjiRadical } from '../data/radicals';
+import { getKanjiReadings } from './kanjiReadings';
+
+export type KanjiMetadata = Pick<
+  IKanjiObj,
+  'strokeCount' | 'radical' | 'components' | 'frequency'
+>;
+
+// ============================================================================
+// Source Parsing
+// ============================================================================
+
+/**
+ * Parse radical, stroke count and frequency per kanji from KANJIDIC2 XML
+ */
+export function parseKanjidic(xml: string): Map<string, KanjiMetadata> {
+  const metadata = new Map<string, KanjiMetadata>();
+
+  for (const [, entry] of xml.matchAll(/<character>([\s\S]*?)<\/character>/g)) {
+    const literal = /<literal>([^<]+)<\/literal>/.exec(entry)?.[1];
+    if (!literal) continue;
+
+    const radical = /<rad_value rad_type="classical">(\d+)<\/rad_value>/.exec(
+      entry,
+    )?.[1];
+    // The first stroke count is the accepted one; others are common miscounts
+    const strokeCount = /<stroke_count>(\d+)<\/stroke_count>/.exec(entry)?.[1];
+    const frequency = /<freq>(\d+)<\/freq>/.exec(entry)?.[1];
+
+    metadata.set(literal, {
+      ...(radical && { radical: Number(radical) }),
+      ...(strokeCount && { strokeCount: Number(strokeCount) }),
+      ...(frequency && { frequency: Number(frequency) }),
+    });
+  }
+
+  return metadata;
+}
+
+/**
+ * Parse the components of a kanji from its KanjiVG SVG: every element
+ * the kanji is drawn from, outer before inner (待: 彳 亻 寺 土 寸). A kanji
+ * that isn't split into elements is its own component.
+ */
+export function parseKanjiVGComponents(svg: string): string[] {
+  const kanji = /<g id="kvg:[0-9a-f]+" kvg:element="([^"]+)"/.exec(svg)?.[1];
+  const components = new Set<string>();
+
+  // Element groups are numbered below the kanji's own group (kvg:05f85-g1)
+  for (const [, element] of svg.matchAll(
+    /<g id="kvg:[0-9a-f]+-g\d+"[^>]*?\skvg:element="([^"]+)"/g,
+  )) {
+    if (element !== kanji) components.add(element);
+  }
+
+  if (components.size === 0 && kanji) components.add(kanji);
+  return [...components];
+}
+
+/**
+ * Add metadata to kanji entries. Kanji missing from a source keep
+ * whatever metadata they already had.
+ */
+export function applyKanjiMetadata<T extends IKanjiObj>(
+  entries: T[],
+  kanjidic: Map<string, KanjiMetadata>,
+  kanjiComponents: Map<string, string[]>,
+): T[] {
+  return entries.map(entry => {
+    const components = kanjiComponents.get(entry.kanjiChar);
+    return {
+      ...entry,
+      ...kanjidic.get(entry.kanjiChar),
+      ...(components && { components }),
+    };
+  });
+}
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+const RADICALS_BY_NUMBER = new Map(
+  KANGXI_RADICALS.map(radical => [radical.number, radical]),
+);
+
+/**
+ * Get a Kangxi radical by its number
+ */
+export function getRadical(number: number): KanjiRadical | undefined {
+  return RADICALS_BY_NUMBER.get(number);
+}
+
+/**
+ * Order kanji from simplest to most complex: fewer strokes first, then
+ * more common first. Kanji without metadata go last.
+ */
+export function compareKanjiComplexity(a: IKanjiObj, b: IKanjiObj): number {
+  return (
+    (a.strokeCount ?? Infinity) - (b.strokeCount ?? Infinity) ||
+    (a.frequency ?? Infinity) - (b.frequency ?? Infinity) ||
+    a.id - b.id
+  );
+}
+
+/**
+ * Kanji with the given radical, simplest first
+ */
+export function filterKanjiByRadical(
+  kanji: IKanjiObj[],
+  radical: number,
+): IKanjiObj[] {
+  return kanji
+    .filter(entry => entry.radical === radical)
+    .sort(compareKanjiComplexity);
+}
+
+/**
+ * Other kanji that share a kanji's radical
+ */
+export function getKanjiSharingRadical(
+  kanji: IKanjiObj,
+  allKanji: IKanjiObj[],
+): IKanjiObj[] {
+  if (kanji.radical === undefined) return [];
+  return filterKanjiByRadical(allKanji, kanji.radical).filter(
+    entry => entry.kanjiChar !== kanji.kanjiChar,
+  );
+}
+
+/**
+ * Count kanji per radical, for radicals used by at least one kanji
+ */
+export function countKanjiByRadical(kanji: IKanjiObj[]): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const entry of kanji) {
+    if (entry.radical === undefined) continue;
+    counts.set(entry.radical, (counts.get(entry.radical) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Score of kanji that only sound alike, below any that look alike
+const SHARED_ONYOMI_SIMILARITY = 0.2;
+
+/**
+ * How easily two kanji are confused, from 0 to 1: the overlap of their
+ * components, plus a share for being filed under the same radical (待 and
+ * 持 share 土 and 寸; 待 and 後 share 彳). Kanji with nothing in common to
+ * look at still count as a little alike if they share an on'yomi (会 and 回
+ * are both カイ).
+ */
+export function getKanjiSimilarity(a: IKanjiObj, b: IKanjiObj): number {
+  if (a.kanjiChar === b.kanjiChar) return 0;
+  const componentsA = new Set(a.components ?? []);
+  const componentsB = new Set(b.components ?? []);
+  const shared = [...componentsA].filter(part => componentsB.has(part)).length;
+  const total = new Set([...componentsA, ...componentsB]).size;
+  const overlap = total > 0 ? shared / total : 0;
+  const sameRadical = a.radical !== undefined && a.radical === b.radical;
+  const shape = 0.75 * overlap + (sameRadical ? 0.25 : 0);
+  if (shape > 0) return shape;
+
+  const onyomiA = new Set(
+    getKanjiReadings(a, 'on').map(reading => reading.kana),
+  );
+  return getKanjiReadings(b, 'on').some(reading => onyomiA.has(reading.kana))
+    ? SHARED_ONYOMI_SIMILARITY
+    : 0;
+}
@@ -0,0 +1,147 @@
+/**
+ * Kanji Readings
+ *
+ * The kanji data stores each reading as one string that mixes romaji and
+ * kana, with okurigana in brackets or after a dot and dashes marking
+ * prefix/suffix readings: "nichi ニチ", "mana(bu) まな(ぶ)", "ku.ru く.る",
+ * "-bi -び", "o- お-". This module splits them into a normalized model and
+ * checks typed answers against it in romaji, hiragana or katakana.
+ */
+
+import { toHiragana } from 'wanakana';
+import type { IKanjiObj } from '../store/useKanjiStore';
+
+export type KanjiReadingKind = 'on' | 'kun';
+
+export interface KanjiReading {
+  kind: KanjiReadingKind;
+  // Part read by the kanji itself: "まな" in 学ぶ, "ニチ" for 日
+  kana: string;
+  // Kana written after the kanji, empty for most on'yomi
+  okurigana: string;
+  romaji: string;
+  romajiOkurigana: string;
+  // The reading only occurs before ("o-") or after ("-bi") other kana
+  isPrefix: boolean;
+  isSuffix: boolean;
+}
+
+export const READING_KIND_LABELS: Record<KanjiReadingKind, string> = {
+  on: "on'yomi",
+  kun: "kun'yomi",
+};
+
+/**
+ * Split one part ("mana(bu)", "ku.ru", "-bi") into stem and okurigana
+ */
+const splitReadingPart = (part: string) => {
+  const isPrefix = part.endsWith('-');
+  const isSuffix = part.startsWith('-');
+  const [stem, okurigana = ''] = part
+    .replace(/^-|-$/g, '')
+    .replace(/\)/g, '')
+    .split(/[.(]/);
+  return { stem, okurigana, isPrefix, isSuffix };
+};
+
+/**
+ * Parse a reading as stored in the kanji data
+ */
+export function parseKanjiReading(
+  raw: string,
+  kind: KanjiReadingKind,
+): KanjiReading {
+  const [romajiPart = '', kanaPart = romajiPart] = raw.trim().split(/\s+/);
+  const kana = splitReadingPart(kanaPart);
+  const romaji = splitReadingPart(romajiPart);
+
+  return {
+    kind,
+    kana: kana.stem,
+    okurigana: kana.okurigana,
+    romaji: romaji.stem.toLowerCase(),
+    romajiOkurigana: romaji.okurigana.toLowerCase(),
+    isPrefix: kana.isPrefix,
+    isSuffix: kana.isSuffix,
+  };
+}
+
+/**
+ * All readings of a kanji, on'yomi first, skipping empty entries
+ */
+export function getKanjiReadings(
+  kanji: Pick<IKanjiObj, 'onyomi' | 'kunyomi'>,
+  kind?: KanjiReadingKind,
+): KanjiReading[] {
+  return [
+    ...kanji.onyomi.map(raw => parseKanjiReading(raw, 'on')),
+    ...kanji.kunyomi.map(raw => parseKanjiReading(raw, 'kun')),
+  ].filter(
+    reading => reading.kana.length > 0 && (!kind || reading.kind === kind),
+  );
+}
+
+/**
+ * Reading as it is usually written: katakana on'yomi, hiragana kun'yomi
+ * with okurigana after a dot ("まな.ぶ")
+ */
+export function formatKanjiReading(reading: KanjiReading): string {
+  const kana = reading.okurigana
+    ? `${reading.kana}.${reading.okurigana}`
+    : reading.kana;
+  return `${reading.isSuffix ? '-' : ''}${kana}${reading.isPrefix ? '-' : ''}`;
+}
+
+/**
+ * Normalize typed input to hiragana, ignoring case, spaces and the
+ * dot/dash/bracket markers
+ */
+export function normalizeReadingInput(input: string): string {
+  return toHiragana(input.toLowerCase().replace(/[\s.\-()]/g, ''));
+}
+
+/**
+ * Whether normalized input is this reading, with or without okurigana.
+ * The romaji is checked as well, since it is the more reliable half of
+ * a few entries in the data.
+ */
+export function matchesKanjiReading(
+  input: string,
+  reading: KanjiReading,
+): boolean {
+  const normalized = normalizeReadingInput(input);
+  if (!normalized) return false;
+  return [
+    reading.kana,
+    reading.kana + reading.okurigana,
+    reading.romaji,
+    reading.romaji + reading.romajiOkurigana,
+  ].some(form => form && toHiragana(form) === normalized);
+}
+
+export interface ReadingAnswerResult {
+  isCorrect: boolean;
+  // Reading the input matched, of either kind
+  matched?: KanjiReading;
+  // Set when the input is a reading of the other kind than asked for
+  confusedWith?: KanjiReadingKind;
+}
+
+/**
+ * Check a typed answer to "give the on'yomi/kun'yomi of this kanji"
+ */
+export function checkReadingAnswer(
+  input: string,
+  kanji: Pick<IKanjiObj, 'onyomi' | 'kunyomi'>,
+  kind: KanjiReadingKind,
+): ReadingAnswerResult {
+  const readings = getKanjiReadings(kanji);
+  const matched =
+    readings.find(
+      reading => reading.kind === kind && matchesKanjiReading(input, reading),
+    ) ?? readings.find(reading => matchesKanjiReading(input, reading));
+
+  if (!matched) return { isCorrect: false };
+  if (matched.kind === kind) return { isCorrect: true, matched };
+  return { isCorrect: false, matched, confusedWith: matched.kind };
+}
@@ -0,0 +1,192 @@
+/**
+ * Kanji Example Words
+ *
+ * Cross-index from kanji to the vocabulary that uses them. Words are
+ * grouped by the reading the kanji takes in them, found by lining the
+ * word's spelling up with its kana reading: kana must match exactly,
+ * other kanji take one or more kana, and the kanji itself has to take one
+ * of its own readings (allowing for rendaku and a small っ).
+ */
+
+import { katakanaToHiragana } from '@/shared/lib/textAnalysis/tokens';
+import type { IWord } from '@/shared/types/interfaces';
+import type { IKanjiObj } from '../store/useKanjiStore';
+import { getKanjiReadings, type KanjiReadingKind } from './kanjiReadings';
+
+export type KanjiReadingType = KanjiReadingKind | 'irregular';
+
+export interface KanjiReadingGroup {
+  type: KanjiReadingType;
+  // Katakana for on'yomi, hiragana for kun'yomi, empty when irregular
+  reading: string;
+  words: IWord[];
+}
+
+// Longest reading a kanji other than the one looked up may take
+const MAX_KANA_PER_KANJI = 4;
+
+const KANJI_PATTERN = /[々一-鿿㐀-䶿豈-﫿]/u;
+const KANA_PATTERN = /[ぁ-ゟ゠-ヿ]/u;
+
+// Voiced forms of a reading's first kana inside compounds (月曜日 げつようび)
+const RENDAKU: Record<string, string[]> = {
+  か: ['が'],
+  き: ['ぎ'],
+  く: ['ぐ'],
+  け: ['げ'],
+  こ: ['ご'],
+  さ: ['ざ'],
+  し: ['じ'],
+  す: ['ず'],
+  せ: ['ぜ'],
+  そ: ['ぞ'],
+  た: ['だ'],
+  ち: ['ぢ', 'じ'],
+  つ: ['づ', 'ず'],
+  て: ['で'],
+  と: ['ど'],
+  は: ['ば', 'ぱ'],
+  ひ: ['び', 'ぴ'],
+  ふ: ['ぶ', 'ぷ'],
+  へ: ['べ', 'ぺ'],
+  ほ: ['ぼ', 'ぽ'],
+};
+
+// Final kana that shorten to っ before another sound (学校 がっこう)
+const SOKUON_FINALS = new Set(['く', 'き', 'ち', 'つ']);
+
+/**
+ * Whether a character is written with kanji (including the 々 repeat mark)
+ */
+export const isKanjiChar = (char: string) => KANJI_PATTERN.test(char);
+
+/**
+ * Ways a reading can be pronounced inside a word, in hiragana
+ */
+export function getReadingVariants(stem: string): string[] {
+  const kana = katakanaToHiragana(stem);
+  if (!kana) return [];
+
+  const variants = [kana];
+  for (const voiced of RENDAKU[kana[0]] ?? []) {
+    variants.push(voiced + kana.slice(1));
+  }
+  if (kana.length > 1 && SOKUON_FINALS.has(kana[kana.length - 1])) {
+    for (const variant of [...variants]) {
+      variants.push(`${variant.slice(0, -1)}っ`);
+    }
+  }
+  return variants;
+}
+
+/**
+ * Check whether a word's spelling lines up with its reading when the
+ * given kanji is read as one of the variants
+ */
+export function matchesReading(
+  word: IWord,
+  kanjiChar: string,
+  variants: string[],
+): boolean {
+  const spelling = [...word.word];
+  const reading = katakanaToHiragana(word.reading);
+
+  const align = (wordIndex: number, readingIndex: number): boolean => {
+    if (wordIndex === spelling.length) return readingIndex === reading.length;
+
+    const char = spelling[wordIndex];
+    if (char === kanjiChar) {
+      return variants.some(
+        variant =>
+          reading.startsWith(variant, readingIndex) &&
+          align(wordIndex + 1, readingIndex + variant.length),
+      );
+    }
+    if (KANA_PATTERN.test(char) && char !== 'ー') {
+      return (
+        katakanaToHiragana(char) === reading[readingIndex] &&
+        align(wordIndex + 1, readingIndex + 1)
+      );
+    }
+    // Another kanji (or a long vowel mark) takes any short run of kana
+    for (let length = 1; length <= MAX_KANA_PER_KANJI; length++) {
+      if (readingIndex + length > reading.length) break;
+      if (align(wordIndex + 1, readingIndex + length)) return true;
+    }
+    return false;
+  };
+
+  return align(0, 0);
+}
+
+/**
+ * Index words by every kanji in their spelling. Words listed in more than
+ * one level are kept once, at their first (easiest) level.
+ */
+export function buildKanjiVocabIndex(words: IWord[]): Map<string, IWord[]> {
+  const index = new Map<string, IWord[]>();
+  const seen = new Set<string>();
+
+  for (const word of words) {
+    const key = `${word.word}|${word.reading}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    for (const char of new Set(word.word)) {
+      if (!isKanjiChar(char) || char === '々') continue;
+      const entries = index.get(char);
+      if (entries) {
+        entries.push(word);
+      } else {
+        index.set(char, [word]);
+      }
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Group the words containing a kanji by the reading the kanji takes.
+ * Readings come in the kanji's own order, on'yomi first; words whose
+ * reading matches none of them (今日, 大人) go in a final irregular group.
+ */
+export function groupWordsByReading(
+  kanji: IKanjiObj,
+  words: IWord[],
+  wordsPerReading = Infinity,
+): KanjiReadingGroup[] {
+  // Readings that differ only in okurigana or a leading dash share a group
+  const groups = new Map<string, KanjiReadingGroup & { variants: string[] }>();
+  for (const { kind, kana } of getKanjiReadings(kanji)) {
+    const key = `${kind}:${katakanaToHiragana(kana)}`;
+    if (groups.has(key)) continue;
+    groups.set(key, {
+      type: kind,
+      reading: kana,
+      words: [],
+      variants: getReadingVariants(kana),
+    });
+  }
+  const irregular: KanjiReadingGroup = {
+    type: 'irregular',
+    reading: '',
+    words: [],
+  };
+
+  for (const word of words) {
+    if (!word.word.includes(kanji.kanjiChar)) continue;
+    const group = [...groups.values()].find(candidate =>
+      matchesReading(word, kanji.kanjiChar, candidate.variants),
+    );
+    (group ?? irregular).words.push(word);
+  }
+
+  return [...groups.values(), irregular]
+    .filter(group => group.words.length > 0)
+    .map(({ type, reading, words: groupWords }) => ({
+      type,
+      reading,
+      words: groupWords.slice(0, wordsPerReading),
+    }));
+}
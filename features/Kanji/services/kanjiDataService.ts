@@ -10,6 +10,10 @@ type RawKanjiEntry = {
   onyomi: string[];
   kunyomi: string[];
   meanings: string[];
+  strokeCount?: number;
+  radical?: number;
+  components?: string[];
+  frequency?: number;
 };
 
 // Module-level cache - persists across component mounts
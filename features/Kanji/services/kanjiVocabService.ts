@@ -0,0 +1,63 @@
+import type { IKanjiObj } from '@/features/Kanji/store/useKanjiStore';
+import { vocabDataService } from '@/features/Vocabulary/services/vocabDataService';
+import {
+  buildKanjiVocabIndex,
+  groupWordsByReading,
+  type KanjiReadingGroup,
+} from '@/features/Kanji/lib/kanjiVocab';
+import type { IWord } from '@/shared/types/interfaces';
+
+// Easiest level first; the cache is keyed in whatever order levels loaded
+const VOCAB_LEVELS = ['n5', 'n4', 'n3', 'n2', 'n1'] as const;
+
+// Built once from all vocab levels, then reused for every kanji
+let indexPromise: Promise<Map<string, IWord[]>> | null = null;
+
+const getIndex = () => {
+  if (!indexPromise) {
+    indexPromise = vocabDataService
+      .preloadAll()
+      .then(() => {
+        const cached = vocabDataService.getAllCached();
+        return buildKanjiVocabIndex(
+          VOCAB_LEVELS.flatMap(level => cached[level] ?? []),
+        );
+      })
+      .catch(err => {
+        indexPromise = null;
+        throw err;
+      });
+  }
+  return indexPromise;
+};
+
+export const kanjiVocabService = {
+  /**
+   * Get every vocab word whose spelling contains the kanji, easiest
+   * level first
+   */
+  async getWordsForKanji(kanjiChar: string): Promise<IWord[]> {
+    const index = await getIndex();
+    return index.get(kanjiChar) ?? [];
+  },
+
+  /**
+   * Get example words for a kanji, grouped by the reading it takes
+   */
+  async getExampleWords(
+    kanji: IKanjiObj,
+    wordsPerReading?: number,
+  ): Promise<KanjiReadingGroup[]> {
+    const words = await this.getWordsForKanji(kanji.kanjiChar);
+    return groupWordsByReading(kanji, words, wordsPerReading);
+  },
+
+  /**
+   * Drop the index so it is rebuilt from the vocab data on next use
+   */
+  clearIndex(): void {
+    indexPromise = null;
+  },
+};
+
+export type { KanjiReadingGroup };
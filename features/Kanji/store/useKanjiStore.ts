@@ -6,6 +6,13 @@ export interface IKanjiObj {
   onyomi: string[];
   kunyomi: string[];
   meanings: string[];
+  // Decomposition metadata from KANJIDIC2/KanjiVG (npm run generate:constants)
+  strokeCount?: number;
+  // Kangxi radical number, see data/radicals.ts
+  radical?: number;
+  components?: string[];
+  // Newspaper frequency rank, 1 = most common; absent for rare kanji
+  frequency?: number;
 }
 
 interface IKanjiState {
@@ -23,6 +30,10 @@ interface IKanjiState {
   setSelectedKanjiSets: (sets: string[]) => void;
   clearKanjiSets: () => void;
 
+  // Kangxi radical number the radical browser is filtered by
+  selectedRadical: number | null;
+  setSelectedRadical: (radical: number | null) => void;
+
   // Collapsed rows per unit (keyed by collection name)
   collapsedRowsByUnit: Record<string, number[]>;
   setCollapsedRowsForUnit: (unit: string, rows: number[]) => void;
@@ -123,6 +134,9 @@ const useKanjiStore = create<IKanjiState>(set => ({
 
   clearKanjiSets: () => set({ selectedKanjiSets: [] }),
 
+  selectedRadical: null,
+  setSelectedRadical: radical => set({ selectedRadical: radical }),
+
   collapsedRowsByUnit: {},
   setCollapsedRowsForUnit: (unit, rows) =>
     set(state => ({
@@ -0,0 +1,167 @@
+/**
+ * Property-Based Tests for Listening Answers
+ *
+ * **Feature: listening-dojo**
+ * Typed answers are compared by sound in romaji, hiragana or katakana,
+ * pick options never contain two items that sound alike, and replay
+ * limits count down from the first playback.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { toKatakana, toRomaji } from 'wanakana';
+import {
+  checkListeningAnswer,
+  getListeningOptions,
+  getRemainingReplays,
+  toListeningKey,
+} from '../lib/listeningAnswers';
+import {
+  buildKanaListeningItems,
+  buildWordListeningItems,
+} from '../lib/listeningSets';
+
+const KANA_GROUPS = [
+  {
+    kana: ['あ', 'い', 'う', 'え', 'お'],
+    romanji: ['a', 'i', 'u', 'e', 'o'],
+    groupName: 'h.b.a',
+  },
+  { kana: ['わ', 'を', 'ん'], romanji: ['wa', 'wo', 'n'], groupName: 'h.b.w' },
+  {
+    kana: ['ざ', 'じ', 'ず', 'ぜ', 'ぞ'],
+    romanji: ['za', 'ji', 'zu', 'ze', 'zo'],
+    groupName: 'h.d.z',
+  },
+  {
+    kana: ['だ', 'ぢ', 'づ', 'で', 'ど'],
+    romanji: ['da', 'ji', 'zu', 'de', 'do'],
+    groupName: 'h.d.d',
+  },
+  {
+    kana: ['きゃ', 'きゅ', 'きょ'],
+    romanji: ['kya', 'kyu', 'kyo'],
+    groupName: 'h.y.k',
+  },
+  {
+    kana: ['ア', 'イ', 'ウ', 'エ', 'オ'],
+    romanji: ['a', 'i', 'u', 'e', 'o'],
+    groupName: 'k.b.a',
+  },
+  {
+    kana: ['ファ', 'フィ', 'フェ', 'フォ', 'フュ'],
+    romanji: ['fa', 'fi', 'fe', 'fo', 'fyu'],
+    groupName: 'k.f.f',
+  },
+  {
+    kana: ['ウィ', 'ウェ', 'ウォ'],
+    romanji: ['wi', 'we', 'wo'],
+    groupName: 'k.f.w',
+  },
+];
+
+const HIRAGANA = buildKanaListeningItems(KANA_GROUPS, 'hiragana');
+const KATAKANA = buildKanaListeningItems(KANA_GROUPS, 'katakana');
+
+const WORDS = [
+  { word: '学校', reading: 'がっこう', meanings: ['school'] },
+  { word: '電車', reading: 'でんしゃ', meanings: ['train'] },
+  { word: '箸', reading: 'はし', meanings: ['chopsticks'] },
+  { word: '橋', reading: 'はし', meanings: ['bridge'] },
+  { word: '食べる', reading: 'たべる', meanings: ['to eat'] },
+  { word: 'ありがとう', reading: 'ありがとう', meanings: ['thank you'] },
+];
+
+describe('listening sets', () => {
+  it('splits words into kanji compounds and other vocabulary', () => {
+    expect(
+      buildWordListeningItems(WORDS, 'compounds').map(item => item.text),
+    ).toEqual(['学校', '電車']);
+    expect(
+      buildWordListeningItems(WORDS, 'vocabulary').map(item => item.text),
+    ).toEqual(['箸', '橋', '食べる', 'ありがとう']);
+  });
+
+  it('includes dakuon, yoon and the foreign katakana sounds', () => {
+    const hiragana = HIRAGANA.map(item => item.text);
+    expect(hiragana).toEqual(expect.arrayContaining(['あ', 'ぢ', 'きゃ']));
+    expect(KATAKANA.map(item => item.text)).toContain('ファ');
+    expect(hiragana).not.toContain('ア');
+  });
+});
+
+describe('checkListeningAnswer', () => {
+  it('accepts any kana item typed as romaji, hiragana or katakana', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...HIRAGANA, ...KATAKANA),
+        fc.constantFrom('romaji', 'hiragana', 'katakana'),
+        (item, script) => {
+          const input =
+            script === 'romaji'
+              ? item.romaji[0].toUpperCase()
+              : script === 'katakana'
+                ? toKatakana(item.reading)
+                : toListeningKey(item.reading);
+          expect(checkListeningAnswer(` ${input} `, item)).toBe(true);
+        },
+      ),
+    );
+  });
+
+  it('accepts the romaji of a word reading', () => {
+    for (const item of buildWordListeningItems(WORDS, 'vocabulary')) {
+      expect(checkListeningAnswer(toRomaji(item.reading), item)).toBe(true);
+    }
+  });
+
+  it('treats kana that sound alike as the same answer', () => {
+    const [zu] = HIRAGANA.filter(item => item.text === 'づ');
+    expect(checkListeningAnswer('ず', zu)).toBe(true);
+    expect(checkListeningAnswer('zu', zu)).toBe(true);
+    expect(checkListeningAnswer('', zu)).toBe(false);
+    expect(checkListeningAnswer('tsu', zu)).toBe(false);
+  });
+});
+
+describe('getListeningOptions', () => {
+  it('offers the item once among options that all sound different', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...HIRAGANA),
+        fc.integer({ min: 2, max: 4 }),
+        (item, count) => {
+          const options = getListeningOptions(item, HIRAGANA, count);
+          expect(options).toHaveLength(count);
+          expect(options.filter(option => option === item)).toHaveLength(1);
+          const keys = options.map(option => toListeningKey(option.reading));
+          expect(new Set(keys).size).toBe(keys.length);
+        },
+      ),
+    );
+  });
+
+  it('leaves out homophones of the answer', () => {
+    const items = buildWordListeningItems(WORDS, 'vocabulary');
+    const [chopsticks] = items;
+    const options = getListeningOptions(chopsticks, items, 4);
+    expect(options.map(option => option.text)).not.toContain('橋');
+  });
+});
+
+describe('getRemainingReplays', () => {
+  it('counts down to zero, or never with no limit', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 10 }),
+        fc.integer({ min: 0, max: 20 }),
+        (limit, used) => {
+          expect(getRemainingReplays(limit, used)).toBe(
+            Math.max(0, limit - used),
+          );
+          expect(getRemainingReplays(null, used)).toBe(Infinity);
+        },
+      ),
+    );
+  });
+});
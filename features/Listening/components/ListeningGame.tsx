@@ -0,0 +1,353 @@
+'use client';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import clsx from 'clsx';
+import { motion } from 'framer-motion';
+import { Volume2 } from 'lucide-react';
+import { useStopwatch } from 'react-timer-hook';
+import { useShallow } from 'zustand/react/shallow';
+import { useClick, useCorrect, useError } from '@/shared/hooks/useAudio';
+import Return from '@/shared/components/Game/ReturnFromGame';
+import Stats from '@/shared/components/Game/Stats';
+import Stars from '@/shared/components/Game/Stars';
+import { GameBottomBar } from '@/shared/components/Game/GameBottomBar';
+import {
+  statsTracking,
+  useGameStats,
+  useStatsDisplay,
+  useStatsStore,
+} from '@/features/Progress';
+import useListeningStore from '../store/useListeningStore';
+import { useListeningItems } from '../hooks/useListeningItems';
+import { useListeningVoice } from '../hooks/useListeningVoice';
+import { pickListeningItem } from '../lib/listeningSets';
+import {
+  checkListeningAnswer,
+  getListeningOptions,
+  getRemainingReplays,
+} from '../lib/listeningAnswers';
+import type { ListeningItem } from '../types';
+import VoiceNotice from './VoiceNotice';
+
+// Bottom bar states
+type BottomBarState = 'check' | 'correct' | 'wrong';
+
+/**
+ * Listening dojo: the prompt is audio only. The user types what they
+ * heard in romaji or kana, or picks it from options, with a limited
+ * number of replays. Results go to listening stats, apart from reading.
+ */
+const ListeningGame = () => {
+  const {
+    showStats,
+    resetStats,
+    recordDojoUsed,
+    recordModeUsed,
+    recordChallengeModeUsed,
+  } = useStatsStore(
+    useShallow(state => ({
+      showStats: state.showStats,
+      resetStats: state.resetStats,
+      recordDojoUsed: state.recordDojoUsed,
+      recordModeUsed: state.recordModeUsed,
+      recordChallengeModeUsed: state.recordChallengeModeUsed,
+    })),
+  );
+  const { score, setScore } = useStatsDisplay();
+  const gameStats = useGameStats();
+  const speedStopwatch = useStopwatch({ autoStart: false });
+
+  const { playClick } = useClick();
+  const { playCorrect } = useCorrect();
+  const { playErrorTwice } = useError();
+
+  const selectedSetIds = useListeningStore(state => state.selectedSetIds);
+  const level = useListeningStore(state => state.level);
+  const answerMode = useListeningStore(state => state.answerMode);
+  const replayLimit = useListeningStore(state => state.replayLimit);
+  const { items, isLoading } = useListeningItems(selectedSetIds, level);
+  const { status, play, enablePronunciation } = useListeningVoice();
+
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const [item, setItem] = useState<ListeningItem | null>(null);
+  const [options, setOptions] = useState<ListeningItem[]>([]);
+  const [input, setInput] = useState('');
+  const [picked, setPicked] = useState<ListeningItem | null>(null);
+  const [replaysUsed, setReplaysUsed] = useState(0);
+  const [bottomBarState, setBottomBarState] = useState<BottomBarState>('check');
+
+  useEffect(() => {
+    resetStats();
+    // Track dojo and mode usage for achievements
+    recordDojoUsed('listening');
+    recordModeUsed(answerMode);
+    recordChallengeModeUsed('classic');
+    speedStopwatch.start();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const showItem = useCallback(
+    (next: ListeningItem | null) => {
+      setItem(next);
+      setOptions(
+        next && answerMode === 'pick' ? getListeningOptions(next, items) : [],
+      );
+      setInput('');
+      setPicked(null);
+      setReplaysUsed(0);
+      setBottomBarState('check');
+    },
+    [answerMode, items],
+  );
+
+  // Pick the first item once the selected sets are loaded
+  useEffect(() => {
+    if (!item && items.length > 0) showItem(pickListeningItem(items));
+  }, [item, items, showItem]);
+
+  // Play each new item once; this first playback is not a replay
+  useEffect(() => {
+    if (item && status === 'ready') void play(item.reading);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [item, status]);
+
+  useEffect(() => {
+    if (answerMode === 'type' && bottomBarState === 'check') {
+      inputRef.current?.focus();
+    }
+  }, [answerMode, bottomBarState, item]);
+
+  const handleContinue = useCallback(() => {
+    playClick();
+    showItem(pickListeningItem(items, item?.text));
+    speedStopwatch.reset();
+    speedStopwatch.start();
+  }, [playClick, showItem, items, item, speedStopwatch]);
+
+  // Enter/Space moves on once the answer is graded
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const isContinueKey =
+        event.key === 'Enter' || event.code === 'Space' || event.key === ' ';
+      if (isContinueKey && bottomBarState !== 'check') {
+        event.preventDefault();
+        buttonRef.current?.click();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bottomBarState]);
+
+  useEffect(() => {
+    if (showStats) speedStopwatch.pause();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showStats]);
+
+  if (status !== 'ready' && status !== 'loading') {
+    return (
+      <div className='flex min-h-[100dvh] flex-col items-center gap-6 px-4'>
+        <Return isHidden={false} href='/listening' gameMode='Listen' />
+        <VoiceNotice
+          status={status}
+          onEnablePronunciation={enablePronunciation}
+        />
+      </div>
+    );
+  }
+
+  if (!item) {
+    return isLoading || items.length > 0 ? null : (
+      <p className='p-8 text-center text-(--secondary-color)'>
+        Pick at least one set to practice.
+      </p>
+    );
+  }
+
+  const remainingReplays = getRemainingReplays(replayLimit, replaysUsed);
+  const isGraded = bottomBarState !== 'check';
+
+  const handleReplay = () => {
+    if (remainingReplays <= 0 || isGraded) return;
+    setReplaysUsed(used => used + 1);
+    void play(item.reading);
+  };
+
+  const grade = (isCorrect: boolean, userAnswer: string) => {
+    statsTracking.recordListeningAnswer({
+      item: item.text,
+      contentType: item.contentType,
+      isCorrect,
+      replays: replaysUsed,
+    });
+
+    if (isCorrect) {
+      speedStopwatch.pause();
+      const answerTimeMs = speedStopwatch.totalMilliseconds;
+      speedStopwatch.reset();
+
+      playCorrect();
+      gameStats.recordCorrect('listening', item.text, {
+        gameMode: answerMode,
+        timeTaken: answerTimeMs,
+      });
+      setScore(score + 1);
+      setBottomBarState('correct');
+    } else {
+      playErrorTwice();
+      gameStats.recordIncorrect('listening', item.text, userAnswer, item.text, {
+        gameMode: answerMode,
+      });
+      setScore(Math.max(0, score - 1));
+      setBottomBarState('wrong');
+    }
+  };
+
+  const handleCheck = () => {
+    if (isGraded || !input.trim()) return;
+    grade(checkListeningAnswer(input, item), input);
+  };
+
+  const handlePick = (option: ListeningItem) => {
+    if (isGraded) return;
+    setPicked(option);
+    grade(option === item, option.text);
+  };
+
+  const answer =
+    item.text === item.reading ? item.text : `${item.text} (${item.reading})`;
+
+  return (
+    <div className='flex min-h-[100dvh] max-w-[100dvw] flex-col items-center gap-4 px-4 md:gap-6'>
+      {showStats && <Stats />}
+      <Return isHidden={showStats} href='/listening' gameMode='Listen' />
+      <div
+        className={clsx(
+          'flex w-full flex-col items-center gap-6 sm:w-4/5',
+          showStats ? 'hidden' : '',
+        )}
+      >
+        <motion.div
+          initial={{ opacity: 0, y: -30, scale: 0.95 }}
+          animate={{ opacity: 1, y: 0, scale: 1 }}
+          transition={{
+            type: 'spring',
+            stiffness: 150,
+            damping: 20,
+            mass: 1,
+            duration: 0.5,
+          }}
+          key={item.text}
+          className='flex flex-col items-center gap-2'
+        >
+          <button
+            type='button'
+            onClick={handleReplay}
+            disabled={status !== 'ready' || remainingReplays <= 0 || isGraded}
+            aria-label='Play again'
+            className={clsx(
+              'flex h-24 w-24 items-center justify-center rounded-full',
+              'border-2 border-(--border-color) bg-(--card-color)',
+              'text-(--main-color) transition-colors duration-200',
+              'hover:cursor-pointer hover:border-(--main-color)',
+              'disabled:cursor-default disabled:opacity-40',
+            )}
+          >
+            <Volume2 size={44} />
+          </button>
+          <span className='text-sm text-(--muted-color)'>
+            {status === 'loading'
+              ? 'Loading voices...'
+              : replayLimit === null
+                ? 'Unlimited replays'
+                : `${remainingReplays} ${remainingReplays === 1 ? 'replay' : 'replays'} left`}
+          </span>
+          {isGraded && (
+            <span className='flex flex-col items-center'>
+              <span className='text-4xl text-(--main-color)' lang='ja'>
+                {item.text}
+              </span>
+              {item.text !== item.reading && (
+                <span className='text-lg text-(--secondary-color)' lang='ja'>
+                  {item.reading}
+                </span>
+              )}
+              {item.meaning && (
+                <span className='text-(--muted-color)'>{item.meaning}</span>
+              )}
+            </span>
+          )}
+        </motion.div>
+
+        {answerMode === 'type' ? (
+          <input
+            ref={inputRef}
+            type='text'
+            value={input}
+            onChange={event => setInput(event.target.value)}
+            onKeyDown={event => {
+              if (event.key === 'Enter' && !isGraded) {
+                event.preventDefault();
+                event.stopPropagation();
+                handleCheck();
+              }
+            }}
+            disabled={isGraded}
+            placeholder='Type what you hear (romaji or kana)'
+            autoComplete='off'
+            autoCapitalize='off'
+            spellCheck={false}
+            lang='ja'
+            className={clsx(
+              'w-full max-w-md rounded-xl border-2 px-4 py-3 text-center text-2xl',
+              'border-(--border-color) bg-(--card-color) text-(--main-color)',
+              'focus:border-(--main-color) focus:outline-none',
+            )}
+          />
+        ) : (
+          <div className='grid w-full max-w-xl grid-cols-2 gap-3'>
+            {options.map(option => (
+              <button
+                key={option.text}
+                type='button'
+                onClick={() => handlePick(option)}
+                disabled={isGraded}
+                lang='ja'
+                className={clsx(
+                  'rounded-xl border-2 px-4 py-3 text-3xl',
+                  'transition-colors duration-200',
+                  !isGraded
+                    ? 'border-(--border-color) text-(--secondary-color) hover:cursor-pointer hover:border-(--main-color)'
+                    : option === item
+                      ? 'border-(--main-color) text-(--main-color)'
+                      : option === picked
+                        ? 'border-red-500 text-red-500'
+                        : 'border-(--border-color) text-(--muted-color)',
+                )}
+              >
+                {option.text}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <Stars />
+
+        <GameBottomBar
+          state={bottomBarState}
+          onAction={isGraded ? handleContinue : handleCheck}
+          canCheck={answerMode === 'type' && !!input.trim() && !isGraded}
+          feedbackContent={answer}
+          actionLabel={isGraded ? 'next' : undefined}
+          hideRetry
+          buttonRef={buttonRef}
+        />
+
+        <div className='h-32' />
+      </div>
+    </div>
+  );
+};
+
+export default ListeningGame;
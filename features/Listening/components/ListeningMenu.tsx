@@ -0,0 +1,275 @@
+'use client';
+
+import { useMemo } from 'react';
+import clsx from 'clsx';
+import { Play } from 'lucide-react';
+import { Link } from '@/core/i18n/routing';
+import { useClick } from '@/shared/hooks/useAudio';
+import { useListeningStats } from '@/features/Progress';
+import useListeningStore from '../store/useListeningStore';
+import { useListeningVoice } from '../hooks/useListeningVoice';
+import {
+  LISTENING_LEVELS,
+  LISTENING_SETS,
+  isWordListeningSet,
+} from '../lib/listeningSets';
+import type { ListeningAnswerMode, ListeningContentType } from '../types';
+import VoiceNotice from './VoiceNotice';
+
+const ANSWER_MODES: {
+  id: ListeningAnswerMode;
+  label: string;
+  description: string;
+}[] = [
+  { id: 'pick', label: 'Pick', description: 'Choose what you heard' },
+  { id: 'type', label: 'Type', description: 'Write it in romaji or kana' },
+];
+
+const REPLAY_LIMITS: { value: number | null; label: string }[] = [
+  { value: 0, label: 'None' },
+  { value: 2, label: '2' },
+  { value: 5, label: '5' },
+  { value: null, label: 'Unlimited' },
+];
+
+const CONTENT_LABELS: Record<ListeningContentType, string> = {
+  kana: 'Kana',
+  kanji: 'Kanji compounds',
+  vocabulary: 'Vocabulary',
+};
+
+const toggleClassName = (selected: boolean) =>
+  clsx(
+    'flex flex-col items-start rounded-xl border-2 px-4 py-2 text-left',
+    'transition-colors duration-200 hover:cursor-pointer',
+    selected
+      ? 'border-(--main-color) text-(--main-color)'
+      : 'border-(--border-color) text-(--secondary-color)',
+  );
+
+/**
+ * Listening dojo menu: pick what to hear and how to answer, set the
+ * replay limit and speech speed, and see listening accuracy so far.
+ */
+export default function ListeningMenu() {
+  const { playClick } = useClick();
+  const selectedSetIds = useListeningStore(state => state.selectedSetIds);
+  const toggleSetId = useListeningStore(state => state.toggleSetId);
+  const level = useListeningStore(state => state.level);
+  const setLevel = useListeningStore(state => state.setLevel);
+  const answerMode = useListeningStore(state => state.answerMode);
+  const setAnswerMode = useListeningStore(state => state.setAnswerMode);
+  const replayLimit = useListeningStore(state => state.replayLimit);
+  const setReplayLimit = useListeningStore(state => state.setReplayLimit);
+  const {
+    status,
+    play,
+    pronunciationSpeed,
+    setPronunciationSpeed,
+    enablePronunciation,
+  } = useListeningVoice();
+  const stats = useListeningStats();
+
+  const canStart =
+    selectedSetIds.length > 0 && (status === 'ready' || status === 'loading');
+  const usesWords = selectedSetIds.some(isWordListeningSet);
+
+  const accuracy = useMemo(
+    () =>
+      (Object.keys(CONTENT_LABELS) as ListeningContentType[])
+        .filter(contentType => stats.byContent[contentType])
+        .map(contentType => {
+          const { correct, incorrect } = stats.byContent[contentType];
+          return {
+            contentType,
+            answered: correct + incorrect,
+            accuracy: Math.round((correct / (correct + incorrect)) * 100),
+          };
+        }),
+    [stats.byContent],
+  );
+
+  return (
+    <div className='flex flex-col gap-6'>
+      <div className='flex flex-col gap-2 rounded-2xl border-2 border-(--border-color) bg-(--card-color) p-4'>
+        <h1 className='text-2xl font-bold text-(--main-color)'>
+          Listening Dojo
+        </h1>
+        <p className='text-(--secondary-color)'>
+          Train your ear: each question is only spoken, never shown. Type what
+          you hear or pick it from the options.
+        </p>
+      </div>
+
+      <VoiceNotice
+        status={status}
+        onEnablePronunciation={enablePronunciation}
+      />
+
+      <div className='flex flex-col gap-3'>
+        <h2 className='text-lg font-semibold text-(--secondary-color)'>
+          What to Hear
+        </h2>
+        <div className='flex flex-wrap gap-2'>
+          {LISTENING_SETS.map(set => (
+            <button
+              key={set.id}
+              type='button'
+              aria-pressed={selectedSetIds.includes(set.id)}
+              onClick={() => {
+                playClick();
+                toggleSetId(set.id);
+              }}
+              className={toggleClassName(selectedSetIds.includes(set.id))}
+            >
+              <span className='font-semibold'>{set.label}</span>
+              <span className='text-sm text-(--muted-color)' lang='ja'>
+                {set.description}
+              </span>
+            </button>
+          ))}
+        </div>
+        {usesWords && (
+          <div className='flex flex-wrap gap-2'>
+            {LISTENING_LEVELS.map(entry => (
+              <button
+                key={entry}
+                type='button'
+                aria-pressed={level === entry}
+                onClick={() => {
+                  playClick();
+                  setLevel(entry);
+                }}
+                className={toggleClassName(level === entry)}
+              >
+                <span className='font-semibold'>{entry.toUpperCase()}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className='flex flex-col gap-3'>
+        <h2 className='text-lg font-semibold text-(--secondary-color)'>
+          Answer By
+        </h2>
+        <div className='flex flex-wrap gap-2'>
+          {ANSWER_MODES.map(mode => (
+            <button
+              key={mode.id}
+              type='button'
+              aria-pressed={answerMode === mode.id}
+              onClick={() => {
+                playClick();
+                setAnswerMode(mode.id);
+              }}
+              className={toggleClassName(answerMode === mode.id)}
+            >
+              <span className='font-semibold'>{mode.label}</span>
+              <span className='text-sm text-(--muted-color)'>
+                {mode.description}
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className='flex flex-col gap-3'>
+        <h2 className='text-lg font-semibold text-(--secondary-color)'>
+          Replays per Question
+        </h2>
+        <div className='flex flex-wrap gap-2'>
+          {REPLAY_LIMITS.map(limit => (
+            <button
+              key={limit.label}
+              type='button'
+              aria-pressed={replayLimit === limit.value}
+              onClick={() => {
+                playClick();
+                setReplayLimit(limit.value);
+              }}
+              className={toggleClassName(replayLimit === limit.value)}
+            >
+              <span className='font-semibold'>{limit.label}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className='flex flex-col gap-3'>
+        <h2 className='text-lg font-semibold text-(--secondary-color)'>
+          Speed
+        </h2>
+        <div className='flex flex-row items-center gap-4'>
+          <input
+            type='range'
+            min='0.5'
+            max='1.5'
+            step='0.1'
+            value={pronunciationSpeed}
+            onChange={event =>
+              setPronunciationSpeed(parseFloat(event.target.value))
+            }
+            aria-label='Speech speed'
+            className='w-full max-w-xs accent-(--main-color)'
+          />
+          <span className='w-12 text-(--secondary-color)'>
+            {pronunciationSpeed}x
+          </span>
+          <button
+            type='button'
+            disabled={status !== 'ready'}
+            onClick={() => void play('こんにちは')}
+            className='text-(--main-color) hover:cursor-pointer hover:underline disabled:opacity-40'
+          >
+            Test
+          </button>
+        </div>
+      </div>
+
+      {accuracy.length > 0 && (
+        <div className='flex flex-col gap-3'>
+          <h2 className='text-lg font-semibold text-(--secondary-color)'>
+            Listening Accuracy
+          </h2>
+          <div className='flex flex-wrap gap-2'>
+            {accuracy.map(entry => (
+              <span
+                key={entry.contentType}
+                className='flex flex-col items-center rounded-xl border-2 border-(--border-color) bg-(--card-color) px-4 py-2'
+              >
+                <span className='text-2xl text-(--main-color)'>
+                  {entry.accuracy}%
+                </span>
+                <span className='text-xs text-(--muted-color)'>
+                  {CONTENT_LABELS[entry.contentType]} · {entry.answered}{' '}
+                  answered
+                </span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Link
+        href='/listening/train'
+        className={clsx(!canStart && 'pointer-events-none')}
+        aria-disabled={!canStart}
+        onClick={() => playClick()}
+      >
+        <span
+          className={clsx(
+            'flex h-12 w-full flex-row items-center justify-center gap-2 px-6',
+            'bg-(--main-color) text-(--background-color)',
+            'rounded-2xl transition-colors duration-200',
+            'border-b-6 border-(--main-color-accent) shadow-sm',
+            !canStart && 'opacity-50',
+          )}
+        >
+          <Play size={20} />
+          Train
+        </span>
+      </Link>
+    </div>
+  );
+}
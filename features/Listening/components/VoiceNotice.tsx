@@ -0,0 +1,47 @@
+'use client';
+
+import type { ListeningVoiceStatus } from '../hooks/useListeningVoice';
+
+const VOICE_MESSAGES: Record<
+  Exclude<ListeningVoiceStatus, 'ready' | 'loading'>,
+  string
+> = {
+  disabled: 'Pronunciation is turned off, so the questions cannot be played.',
+  unsupported:
+    'This browser cannot play speech. Try another browser, or install a Japanese voice in your system settings.',
+  'no-japanese-voice':
+    'No Japanese voice is installed, so words would be read with the wrong pronunciation. Install a Japanese voice in your system settings and reload the page.',
+};
+
+interface VoiceNoticeProps {
+  status: ListeningVoiceStatus;
+  onEnablePronunciation: () => void;
+}
+
+/**
+ * Why listening questions can't be played, with a fix where one exists
+ */
+export default function VoiceNotice({
+  status,
+  onEnablePronunciation,
+}: VoiceNoticeProps) {
+  if (status === 'ready' || status === 'loading') return null;
+
+  return (
+    <div
+      role='alert'
+      className='flex flex-col gap-2 rounded-2xl border-2 border-(--border-color) bg-(--card-color) p-4 text-(--secondary-color)'
+    >
+      <p>{VOICE_MESSAGES[status]}</p>
+      {status === 'disabled' && (
+        <button
+          type='button'
+          onClick={onEnablePronunciation}
+          className='self-start text-(--main-color) hover:cursor-pointer hover:underline'
+        >
+          Turn on pronunciation
+        </button>
+      )}
+    </div>
+  );
+}
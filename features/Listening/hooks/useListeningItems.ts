@@ -0,0 +1,74 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useKanaContent } from '@/features/Kana';
+import {
+  vocabDataService,
+  type VocabLevel,
+} from '@/features/Vocabulary/services/vocabDataService';
+import type { IWord } from '@/shared/types/interfaces';
+import type { ListeningSetId } from '../types';
+import {
+  buildKanaListeningItems,
+  buildWordListeningItems,
+} from '../lib/listeningSets';
+
+/**
+ * Items of the selected listening sets. Kana are available at once;
+ * words of the chosen level are fetched (and cached by the vocab data
+ * service).
+ */
+export function useListeningItems(setIds: ListeningSetId[], level: VocabLevel) {
+  const { allGroups } = useKanaContent();
+  const [words, setWords] = useState<IWord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const needsWords =
+    setIds.includes('compounds') || setIds.includes('vocabulary');
+
+  useEffect(() => {
+    if (!needsWords) {
+      setWords([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    vocabDataService
+      .getVocabByLevel(level)
+      .then(levelWords => {
+        if (!cancelled) setWords(levelWords);
+      })
+      .catch(error => {
+        console.error('Failed to load vocabulary for listening:', error);
+        if (!cancelled) setWords([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [needsWords, level]);
+
+  const items = useMemo(
+    () => [
+      ...(setIds.includes('hiragana')
+        ? buildKanaListeningItems(allGroups, 'hiragana')
+        : []),
+      ...(setIds.includes('katakana')
+        ? buildKanaListeningItems(allGroups, 'katakana')
+        : []),
+      ...(setIds.includes('compounds')
+        ? buildWordListeningItems(words, 'compounds')
+        : []),
+      ...(setIds.includes('vocabulary')
+        ? buildWordListeningItems(words, 'vocabulary')
+        : []),
+    ],
+    [allGroups, setIds, words],
+  );
+
+  return { items, isLoading };
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useJapaneseTTS } from '@/shared/hooks/useJapaneseTTS';
+import { useAudioPreferences } from '@/features/Preferences';
+
+/**
+ * Whether listening questions can be played
+ * - loading: the browser is still loading its voices
+ * - disabled: pronunciation is turned off in the preferences
+ * - unsupported: no speech synthesis, or no voices at all
+ * - no-japanese-voice: only non-Japanese voices, which misread Japanese
+ */
+export type ListeningVoiceStatus =
+  | 'loading'
+  | 'ready'
+  | 'disabled'
+  | 'unsupported'
+  | 'no-japanese-voice';
+
+// Browsers without any voice never report them, so stop waiting after this
+const VOICE_LOAD_TIMEOUT_MS = 3000;
+
+/**
+ * Speech for the listening dojo, at the user's pronunciation speed and
+ * pitch, with the reason it can't be used when it can't
+ */
+export function useListeningVoice() {
+  const { speak, stop, isPlaying, isSupported, hasJapaneseVoices } =
+    useJapaneseTTS();
+  const {
+    pronunciationEnabled,
+    setPronunciationEnabled,
+    pronunciationSpeed,
+    setPronunciationSpeed,
+    pronunciationPitch,
+  } = useAudioPreferences();
+  const [timedOut, setTimedOut] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setTimedOut(true), VOICE_LOAD_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, []);
+
+  const hasSpeechSynthesis =
+    typeof window === 'undefined' || 'speechSynthesis' in window;
+
+  let status: ListeningVoiceStatus;
+  if (!pronunciationEnabled) status = 'disabled';
+  else if (!hasSpeechSynthesis) status = 'unsupported';
+  else if (!isSupported) status = timedOut ? 'unsupported' : 'loading';
+  else status = hasJapaneseVoices ? 'ready' : 'no-japanese-voice';
+
+  const play = useCallback(
+    (text: string) =>
+      speak(text, {
+        rate: pronunciationSpeed,
+        pitch: pronunciationPitch,
+        volume: 0.8,
+      }),
+    [speak, pronunciationSpeed, pronunciationPitch],
+  );
+
+  return {
+    status,
+    play,
+    stop,
+    isPlaying,
+    pronunciationSpeed,
+    setPronunciationSpeed,
+    enablePronunciation: () => setPronunciationEnabled(true),
+  };
+}
@@ -0,0 +1,31 @@
+// ============================================================================
+// Listening Feature - Public API
+// ============================================================================
+
+// Types
+export type {
+  ListeningSetId,
+  ListeningContentType,
+  ListeningAnswerMode,
+  ListeningItem,
+} from './types';
+export type { ListeningVoiceStatus } from './hooks/useListeningVoice';
+
+// Sets & answer checking
+export { LISTENING_SETS } from './lib/listeningSets';
+export {
+  toListeningKey,
+  checkListeningAnswer,
+  getListeningOptions,
+} from './lib/listeningAnswers';
+
+// Components (page-level)
+export { default as ListeningMenu } from './components/ListeningMenu';
+export { default as ListeningGame } from './components/ListeningGame';
+
+// ============================================================================
+// PRIVATE - DO NOT IMPORT DIRECTLY
+// ============================================================================
+// - store/useListeningStore.ts (internal)
+// - hooks/useListeningItems.ts (internal)
+// - hooks/useListeningVoice.ts (internal)
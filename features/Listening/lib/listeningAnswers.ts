@@ -0,0 +1,78 @@
+import { toHiragana } from 'wanakana';
+import { shuffle } from '@/shared/lib/shuffle';
+import type { ListeningItem } from '../types';
+
+// Kana that sound the same and can't be told apart by ear
+const HOMOPHONE_KANA: Record<string, string> = {
+  ぢ: 'じ',
+  づ: 'ず',
+  を: 'お',
+};
+
+/**
+ * What an answer sounds like: hiragana, ignoring case, spaces and the
+ * kana that are pronounced alike. Romaji and katakana are converted.
+ */
+export function toListeningKey(text: string): string {
+  return toHiragana(text.trim().toLowerCase().replace(/\s+/g, '')).replace(
+    /[ぢづを]/g,
+    kana => HOMOPHONE_KANA[kana],
+  );
+}
+
+/**
+ * Whether a typed answer is what was heard, in romaji, hiragana or
+ * katakana
+ */
+export function checkListeningAnswer(
+  input: string,
+  item: ListeningItem,
+): boolean {
+  const key = toListeningKey(input);
+  if (!key) return false;
+  return [item.reading, ...item.romaji].some(
+    answer => toListeningKey(answer) === key,
+  );
+}
+
+/**
+ * Options for pick mode: the item and distractors from the pool, with
+ * same-length readings first so the options sound alike. Items that
+ * sound the same as the answer are never offered.
+ */
+export function getListeningOptions(
+  item: ListeningItem,
+  pool: ListeningItem[],
+  count = 4,
+): ListeningItem[] {
+  const key = toListeningKey(item.reading);
+  const seen = new Set([key]);
+  const distractors: ListeningItem[] = [];
+
+  const candidates = shuffle(pool).sort(
+    (a, b) =>
+      Number(a.reading.length !== item.reading.length) -
+      Number(b.reading.length !== item.reading.length),
+  );
+  for (const candidate of candidates) {
+    if (distractors.length >= count - 1) break;
+    const candidateKey = toListeningKey(candidate.reading);
+    if (seen.has(candidateKey)) continue;
+    seen.add(candidateKey);
+    distractors.push(candidate);
+  }
+
+  return shuffle([item, ...distractors]);
+}
+
+/**
+ * Replays left for a question; a limit of null means unlimited
+ */
+export function getRemainingReplays(
+  replayLimit: number | null,
+  replaysUsed: number,
+): number {
+  return replayLimit === null
+    ? Infinity
+    : Math.max(0, replayLimit - replaysUsed);
+}
@@ -0,0 +1,85 @@
+import type { IWord } from '@/shared/types/interfaces';
+import type { VocabLevel } from '@/features/Vocabulary/services/vocabDataService';
+import type { ListeningItem, ListeningSetId } from '../types';
+
+export const LISTENING_SETS: {
+  id: ListeningSetId;
+  label: string;
+  description: string;
+}[] = [
+  { id: 'hiragana', label: 'Hiragana', description: 'あ, きゃ, ぱ' },
+  { id: 'katakana', label: 'Katakana', description: 'ア, キャ, ファ' },
+  { id: 'compounds', label: 'Kanji Compounds', description: '学校, 電車' },
+  { id: 'vocabulary', label: 'Vocabulary', description: 'たべる, 大きい' },
+];
+
+export const DEFAULT_LISTENING_SET_IDS: ListeningSetId[] = ['hiragana'];
+
+export const LISTENING_LEVELS: VocabLevel[] = ['n5', 'n4', 'n3', 'n2', 'n1'];
+
+export const isWordListeningSet = (setId: ListeningSetId) =>
+  setId === 'compounds' || setId === 'vocabulary';
+
+// Kana groups of each script: base, dakuon, yoon and (katakana) foreign
+const KANA_GROUP_PREFIXES: Record<'hiragana' | 'katakana', string> = {
+  hiragana: 'h.',
+  katakana: 'k.',
+};
+
+const COMPOUND_REGEX = /^[一-龯々]{2,}$/;
+
+/**
+ * Build the listening items of a kana set from the kana groups
+ */
+export function buildKanaListeningItems(
+  groups: { kana: string[]; romanji: string[]; groupName: string }[],
+  setId: 'hiragana' | 'katakana',
+): ListeningItem[] {
+  return groups
+    .filter(group => group.groupName.startsWith(KANA_GROUP_PREFIXES[setId]))
+    .flatMap(group =>
+      group.kana.map((character, index) => ({
+        text: character,
+        reading: character,
+        romaji: [group.romanji[index]],
+        meaning: '',
+        contentType: 'kana' as const,
+      })),
+    );
+}
+
+/**
+ * Build the listening items of a word set: compounds are the words
+ * written only in kanji, vocabulary is every other word
+ */
+export function buildWordListeningItems(
+  words: IWord[],
+  setId: 'compounds' | 'vocabulary',
+): ListeningItem[] {
+  return words
+    .filter(
+      word =>
+        word.reading &&
+        COMPOUND_REGEX.test(word.word) === (setId === 'compounds'),
+    )
+    .map(word => ({
+      text: word.word,
+      reading: word.reading,
+      romaji: [],
+      meaning: word.meanings[0] ?? '',
+      contentType: setId === 'compounds' ? 'kanji' : 'vocabulary',
+    }));
+}
+
+/**
+ * Pick a random item, avoiding the previous one when possible
+ */
+export function pickListeningItem(
+  items: ListeningItem[],
+  previousText?: string,
+): ListeningItem | null {
+  if (items.length === 0) return null;
+  const candidates =
+    items.length > 1 ? items.filter(item => item.text !== previousText) : items;
+  return candidates[Math.floor(Math.random() * candidates.length)];
+}
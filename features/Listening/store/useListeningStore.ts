@@ -0,0 +1,53 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { VocabLevel } from '@/features/Vocabulary/services/vocabDataService';
+import type { ListeningAnswerMode, ListeningSetId } from '../types';
+import { DEFAULT_LISTENING_SET_IDS } from '../lib/listeningSets';
+
+interface IListeningState {
+  selectedSetIds: ListeningSetId[];
+  toggleSetId: (setId: ListeningSetId) => void;
+
+  // JLPT level of the compound and vocabulary sets
+  level: VocabLevel;
+  setLevel: (level: VocabLevel) => void;
+
+  answerMode: ListeningAnswerMode;
+  setAnswerMode: (answerMode: ListeningAnswerMode) => void;
+
+  // Replays allowed per question after the first playback, null for no limit
+  replayLimit: number | null;
+  setReplayLimit: (replayLimit: number | null) => void;
+}
+
+const toggle = <T>(list: T[], value: T): T[] =>
+  list.includes(value)
+    ? list.filter(current => current !== value)
+    : [...list, value];
+
+const useListeningStore = create<IListeningState>()(
+  persist(
+    set => ({
+      selectedSetIds: DEFAULT_LISTENING_SET_IDS,
+      toggleSetId: setId =>
+        set(state => ({
+          selectedSetIds: toggle(state.selectedSetIds, setId),
+        })),
+
+      level: 'n5',
+      setLevel: level => set({ level }),
+
+      answerMode: 'pick',
+      setAnswerMode: answerMode => set({ answerMode }),
+
+      replayLimit: 2,
+      setReplayLimit: replayLimit => set({ replayLimit }),
+    }),
+    {
+      name: 'kanadojo-listening',
+      version: 0,
+    },
+  ),
+);
+
+export default useListeningStore;
@@ -0,0 +1,39 @@
+// ============================================================================
+// Listening Feature Types
+// ============================================================================
+
+/**
+ * Content that can be practiced by ear
+ * - compounds: vocabulary written only in kanji (学校, 電車)
+ * - vocabulary: the remaining words, in kana or with okurigana
+ */
+export type ListeningSetId =
+  | 'hiragana'
+  | 'katakana'
+  | 'compounds'
+  | 'vocabulary';
+
+/**
+ * Stats bucket of a listening item
+ */
+export type ListeningContentType = 'kana' | 'kanji' | 'vocabulary';
+
+/**
+ * How the user answers: type the reading, or pick from options
+ */
+export type ListeningAnswerMode = 'type' | 'pick';
+
+/**
+ * Something to listen to, with what the user must recognize in it
+ */
+export interface ListeningItem {
+  /** Text shown once answered and as a pick option (あ, 学校) */
+  text: string;
+  /** Kana that is spoken and checked against typed answers */
+  reading: string;
+  /** Romaji accepted on top of the reading's own romanization */
+  romaji: string[];
+  /** Meaning shown after answering, empty for kana */
+  meaning: string;
+  contentType: ListeningContentType;
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import clsx from 'clsx';
+import { useEffect, useRef, useState, type ReactNode } from 'react';
+import { CircleCheck, CircleX, X } from 'lucide-react';
+import { useClick, useCorrect, useError } from '@/shared/hooks/useAudio';
+import { pickGameKeyMappings } from '@/shared/lib/keyMappings';
+import { buttonBorderStyles } from '@/shared/lib/styles';
+import {
+  buildConfusionDrillQuestion,
+  type ConfusionPair,
+  type MistakeItem,
+} from '@/shared/lib/mistakeNotebook';
+import useMistakeStore from '@/shared/store/useMistakeStore';
+import useReviewStore from '@/shared/store/useReviewStore';
+import { useGameStats } from '@/features/Progress';
+
+const GAME_MODE = 'confusion-drill';
+
+interface ConfusionDrillProps {
+  pairs: ConfusionPair[];
+  onExit: () => void;
+}
+
+/**
+ * Pick drill over the user's confusion pairs: each question's options are
+ * the items it was confused with, so ソ is asked next to ン rather than a
+ * random kana. Wrong picks are added to the notebook like in the dojos.
+ */
+const ConfusionDrill = ({ pairs, onExit }: ConfusionDrillProps) => {
+  const { playClick } = useClick();
+  const { playCorrect } = useCorrect();
+  const { playErrorTwice } = useError();
+  const gameStats = useGameStats();
+  const recordConfusion = useMistakeStore(state => state.recordConfusion);
+  const recordReview = useReviewStore(state => state.recordReview);
+
+  const [question, setQuestion] = useState(() =>
+    buildConfusionDrillQuestion(pairs),
+  );
+  const [wrongPicks, setWrongPicks] = useState<string[]>([]);
+  const [feedback, setFeedback] = useState<ReactNode>(null);
+  const [score, setScore] = useState({ correct: 0, answered: 0 });
+  const buttonRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  const optionCount = question?.options.length ?? 0;
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const index = pickGameKeyMappings[event.code];
+      if (index !== undefined && index < optionCount) {
+        buttonRefs.current[index]?.click();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [optionCount]);
+
+  if (!question) return null;
+  const { contentType, item } = question;
+
+  const handlePick = (option: MistakeItem) => {
+    const isFirstTry = wrongPicks.length === 0;
+
+    if (option.answer === item.answer) {
+      playCorrect();
+      recordReview(contentType, item.key, isFirstTry);
+      if (isFirstTry) {
+        gameStats.recordCorrect(contentType, item.key, {
+          gameMode: GAME_MODE,
+        });
+      }
+      setScore(prev => ({
+        correct: prev.correct + (isFirstTry ? 1 : 0),
+        answered: prev.answered + 1,
+      }));
+      setFeedback(
+        <>
+          <span>{`${item.key} = ${item.answer} `}</span>
+          <CircleCheck className='inline text-(--main-color)' />
+        </>,
+      );
+      setWrongPicks([]);
+      setQuestion(buildConfusionDrillQuestion(pairs, 4, item.key));
+      return;
+    }
+
+    playErrorTwice();
+    setWrongPicks(prev => [...prev, option.answer]);
+    recordConfusion(contentType, item, option);
+    gameStats.recordIncorrect(
+      contentType,
+      item.key,
+      option.answer,
+      item.answer,
+      {
+        gameMode: GAME_MODE,
+      },
+    );
+    setFeedback(
+      <>
+        <span>{`${item.key} ≠ ${option.answer} `}</span>
+        <CircleX className='inline text-(--main-color)' />
+      </>,
+    );
+  };
+
+  return (
+    <div className='flex flex-col items-center gap-6 rounded-2xl border-2 border-(--border-color) bg-(--card-color) p-4'>
+      <div className='flex w-full flex-row items-center justify-between'>
+        <span className='text-(--secondary-color)'>
+          {score.correct} / {score.answered} on the first try
+        </span>
+        <button
+          type='button'
+          aria-label='Stop the drill'
+          className='rounded-lg p-2 text-(--secondary-color) hover:cursor-pointer hover:text-(--main-color)'
+          onClick={() => {
+            playClick();
+            onExit();
+          }}
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      <p
+        className='text-7xl font-medium text-(--main-color) sm:text-8xl'
+        lang='ja'
+      >
+        {item.key}
+      </p>
+
+      <div className='grid w-full grid-cols-1 gap-4 sm:grid-cols-2'>
+        {question.options.map((option, index) => {
+          const isWrong = wrongPicks.includes(option.answer);
+          return (
+            <button
+              key={option.key}
+              ref={elem => {
+                buttonRefs.current[index] = elem;
+              }}
+              type='button'
+              disabled={isWrong}
+              onClick={() => handlePick(option)}
+              className={clsx(
+                'flex flex-row items-center justify-center gap-2 px-4 pt-3 pb-5 text-2xl',
+                buttonBorderStyles,
+                'border-b-4',
+                isWrong
+                  ? 'text-(--border-color) hover:border-(--border-color) hover:bg-(--card-color)'
+                  : 'border-(--secondary-color)/50 text-(--secondary-color) hover:border-(--secondary-color)',
+              )}
+            >
+              {option.answer}
+              <span className='hidden text-xs text-(--border-color) lg:inline'>
+                {index + 1}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {feedback && (
+        <p className='text-xl text-(--secondary-color)'>{feedback}</p>
+      )}
+    </div>
+  );
+};
+
+export default ConfusionDrill;
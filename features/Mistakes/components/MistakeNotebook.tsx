@@ -0,0 +1,173 @@
+'use client';
+
+import clsx from 'clsx';
+import { useEffect, useMemo, useState } from 'react';
+import { Crosshair, Trash2, X } from 'lucide-react';
+import { useClick } from '@/shared/hooks/useAudio';
+import {
+  groupConfusionPairs,
+  type MistakeContentType,
+} from '@/shared/lib/mistakeNotebook';
+import useMistakeStore from '@/shared/store/useMistakeStore';
+import ConfusionDrill from './ConfusionDrill';
+
+type NotebookFilter = 'all' | MistakeContentType;
+
+const FILTERS: { value: NotebookFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'kana', label: 'Kana' },
+  { value: 'kanji', label: 'Kanji' },
+  { value: 'vocabulary', label: 'Vocabulary' },
+];
+
+/**
+ * The mistake notebook: pairs of items the user has confused in Pick games,
+ * most frequent first, and a drill that practices them against each other.
+ */
+const MistakeNotebook = () => {
+  const { playClick } = useClick();
+  const confusions = useMistakeStore(state => state.confusions);
+  const removeConfusionPair = useMistakeStore(
+    state => state.removeConfusionPair,
+  );
+  const clearConfusions = useMistakeStore(state => state.clearConfusions);
+
+  const [filter, setFilter] = useState<NotebookFilter>('all');
+  const [isDrilling, setIsDrilling] = useState(false);
+  // The notebook lives in localStorage, so only render it after hydration
+  const [isMounted, setIsMounted] = useState(false);
+
+  useEffect(() => {
+    setIsMounted(true);
+  }, []);
+
+  const pairs = useMemo(
+    () =>
+      groupConfusionPairs(
+        Object.values(confusions),
+        filter === 'all' ? undefined : filter,
+      ),
+    [confusions, filter],
+  );
+
+  return (
+    <div className='flex flex-col gap-6'>
+      <div className='flex flex-col gap-2 rounded-2xl border-2 border-(--border-color) bg-(--card-color) p-4'>
+        <h1 className='text-2xl font-bold text-(--main-color)'>
+          Mistake Notebook
+        </h1>
+        <p className='text-(--secondary-color)'>
+          Every wrong pick in the Kana, Kanji and Vocabulary dojos is noted here
+          with the item you mistook it for. Drill your confusions to practice
+          each pair side by side.
+        </p>
+      </div>
+
+      <div className='flex flex-row flex-wrap gap-2'>
+        {FILTERS.map(({ value, label }) => (
+          <button
+            key={value}
+            type='button'
+            onClick={() => {
+              playClick();
+              setFilter(value);
+              setIsDrilling(false);
+            }}
+            className={clsx(
+              'rounded-xl px-4 py-2 transition-colors duration-250 hover:cursor-pointer',
+              filter === value
+                ? 'bg-(--main-color) text-(--background-color)'
+                : 'border border-(--border-color) text-(--secondary-color) hover:text-(--main-color)',
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {isMounted && pairs.length === 0 && (
+        <p className='text-(--muted-color)'>
+          No confusions yet. Wrong answers in Pick mode will show up here.
+        </p>
+      )}
+
+      {isMounted && pairs.length > 0 && (
+        <>
+          {isDrilling ? (
+            <ConfusionDrill
+              key={filter}
+              pairs={pairs}
+              onExit={() => setIsDrilling(false)}
+            />
+          ) : (
+            <div className='flex flex-col gap-2 sm:flex-row'>
+              <button
+                type='button'
+                onClick={() => {
+                  playClick();
+                  setIsDrilling(true);
+                }}
+                className='flex flex-1 flex-row items-center justify-center gap-2 rounded-xl bg-(--main-color) px-4 py-3 text-(--background-color) hover:cursor-pointer'
+              >
+                <Crosshair size={20} />
+                Drill my confusions
+              </button>
+              <button
+                type='button'
+                onClick={() => {
+                  playClick();
+                  clearConfusions(filter === 'all' ? undefined : filter);
+                }}
+                className='flex flex-row items-center justify-center gap-2 rounded-xl border border-(--border-color) px-4 py-3 text-(--secondary-color) hover:cursor-pointer hover:text-(--main-color)'
+              >
+                <Trash2 size={20} />
+                Clear
+              </button>
+            </div>
+          )}
+
+          <ul className='flex flex-col gap-2'>
+            {pairs.map(pair => (
+              <li
+                key={pair.id}
+                className='flex flex-row items-center gap-4 rounded-2xl border border-(--border-color) bg-(--card-color) px-4 py-3'
+              >
+                <div className='flex flex-1 flex-row flex-wrap items-center gap-x-4 gap-y-1'>
+                  {pair.items.map((item, index) => (
+                    <span
+                      key={item.key}
+                      className='flex flex-row items-baseline gap-2'
+                    >
+                      {index === 1 && (
+                        <span className='text-(--muted-color)'>vs</span>
+                      )}
+                      <span className='text-3xl text-(--main-color)' lang='ja'>
+                        {item.key}
+                      </span>
+                      <span className='text-sm text-(--secondary-color)'>
+                        {item.answer}
+                      </span>
+                    </span>
+                  ))}
+                </div>
+                <span className='text-sm text-(--secondary-color)'>
+                  ×{pair.count}
+                </span>
+                <button
+                  type='button'
+                  aria-label={`Remove ${pair.items[0].key} vs ${pair.items[1].key}`}
+                  onClick={() => removeConfusionPair(pair.id)}
+                  className='rounded-lg p-1 text-(--secondary-color) hover:cursor-pointer hover:text-(--main-color)'
+                >
+                  <X size={16} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MistakeNotebook;
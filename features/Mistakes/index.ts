@@ -0,0 +1,8 @@
+// ============================================================================
+// Mistakes Feature - Public API
+// ============================================================================
+// The confusion log is written by the dojo Pick games, so it lives in
+// shared/store/useMistakeStore.ts and shared/lib/mistakeNotebook.ts.
+
+// Components (page-level)
+export { default as MistakeNotebook } from './components/MistakeNotebook';
@@ -3,16 +3,24 @@ import * as React from 'react';
 import { Button } from '@/shared/components/ui/button';
 import {
   applyBackup,
+  BACKUP_VERSION,
   createBackup,
-  type BackupFile,
+  previewBackup,
+  type BackupPreview,
 } from '@/shared/lib/backup';
 
+const MAX_LISTED_CHANGES = 3;
+
 const Backup: React.FC = () => {
   const fileRef = React.useRef<HTMLInputElement | null>(null);
   const [message, setMessage] = React.useState<string | null>(null);
+  const [pending, setPending] = React.useState<{
+    data: unknown;
+    preview: BackupPreview;
+  } | null>(null);
 
-  const onExport = () => {
-    const data = createBackup();
+  const onExport = async () => {
+    const data = await createBackup();
     const blob = new Blob([JSON.stringify(data, null, 2)], {
       type: 'application/json',
     });
@@ -28,9 +36,10 @@ const Backup: React.FC = () => {
   const onFilePicked = async (file: File) => {
     try {
       const text = await file.text();
-      const parsed = JSON.parse(text) as BackupFile;
-      const ok = applyBackup(parsed);
-      setMessage(ok ? 'Imported backup successfully' : 'Import failed');
+      const data: unknown = JSON.parse(text);
+      const preview = await previewBackup(data);
+      setPending({ data, preview });
+      setMessage(null);
     } catch {
       setMessage('Invalid file');
     } finally {
@@ -38,6 +47,17 @@ const Backup: React.FC = () => {
     }
   };
 
+  const onConfirm = async () => {
+    if (!pending) return;
+    const ok = await applyBackup(pending.data);
+    setPending(null);
+    setMessage(ok ? 'Imported backup successfully' : 'Import failed');
+  };
+
+  const changedSections =
+    pending?.preview.sections.filter(section => section.changes.length > 0) ??
+    [];
+
   return (
     <div className='flex flex-col gap-3'>
       <div className='flex flex-row gap-3'>
@@ -62,9 +82,63 @@ const Backup: React.FC = () => {
           }}
         />
       </div>
+      {pending && (
+        <div className='flex flex-col gap-2 rounded-xl border border-(--border-color) p-3 text-sm'>
+          <p>
+            Backup from{' '}
+            {pending.preview.createdAt
+              ? new Date(pending.preview.createdAt).toLocaleString()
+              : 'an unknown date'}
+            {pending.preview.sourceVersion < BACKUP_VERSION &&
+              ' (older format, upgraded on import)'}
+          </p>
+          {changedSections.length === 0 ? (
+            <p className='text-(--secondary-color)'>
+              Nothing would change. Your data already matches this backup.
+            </p>
+          ) : (
+            <ul className='flex flex-col gap-1'>
+              {changedSections.map(section => (
+                <li key={section.key}>
+                  <span className='font-medium'>{section.label}</span>
+                  <span className='text-(--secondary-color)'>
+                    {' '}
+                    —{' '}
+                    {section.changes
+                      .slice(0, MAX_LISTED_CHANGES)
+                      .map(change => `${change.path} (${change.kind})`)
+                      .join(', ')}
+                    {section.changes.length > MAX_LISTED_CHANGES &&
+                      ` and ${section.changes.length - MAX_LISTED_CHANGES} more`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className='flex flex-row gap-3'>
+            <Button
+              onClick={onConfirm}
+              disabled={changedSections.length === 0}
+              className='hover:cursor-pointer'
+            >
+              Restore
+            </Button>
+            <Button
+              variant='secondary'
+              onClick={() => setPending(null)}
+              className='hover:cursor-pointer'
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
       {message && <p className='text-sm text-(--secondary-color)'>{message}</p>}
       <p className='text-xs opacity-70'>
-        Exports only preferences and stats. No account data is included.
+        Exports preferences, themes, wallpapers, stats, achievements, review
+        schedules, custom sets, history and selections. No account data is
+        included. Importing shows what would change before anything is
+        overwritten.
       </p>
     </div>
   );
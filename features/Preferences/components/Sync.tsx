@@ -0,0 +1,176 @@
+'use client';
+import * as React from 'react';
+import clsx from 'clsx';
+import { Button } from '@/shared/components/ui/button';
+import {
+  createFileSyncAdapter,
+  createWebDavSyncAdapter,
+  SyncError,
+  syncWithAdapter,
+  type SyncAdapter,
+} from '@/shared/lib/sync';
+import useSyncStore, { type SyncTransport } from '@/shared/store/useSyncStore';
+
+const TRANSPORTS: { value: SyncTransport; label: string }[] = [
+  { value: 'webdav', label: 'WebDAV server' },
+  { value: 'file', label: 'Sync file' },
+];
+
+const inputClassName =
+  'rounded-lg border border-(--border-color) bg-(--card-color) px-3 py-2 text-sm';
+
+const Sync: React.FC = () => {
+  const fileRef = React.useRef<HTMLInputElement | null>(null);
+  const {
+    deviceId,
+    transport,
+    webdavUrl,
+    webdavUsername,
+    webdavPassword,
+    lastSyncedAt,
+    setTransport,
+    setWebdavSettings,
+    setLastSyncedAt,
+  } = useSyncStore();
+  const [isSyncing, setIsSyncing] = React.useState(false);
+  const [message, setMessage] = React.useState<string | null>(null);
+
+  const run = async (adapter: SyncAdapter) => {
+    setIsSyncing(true);
+    setMessage(null);
+    try {
+      const result = await syncWithAdapter(adapter, { deviceId });
+      setLastSyncedAt(Date.now());
+      setMessage(
+        result.changedSections.length > 0
+          ? `Synced. Updated ${result.changedSections.length} section${result.changedSections.length === 1 ? '' : 's'} from other devices.`
+          : result.pulled
+            ? 'Synced. Already up to date.'
+            : 'Synced. This device is the first to sync.',
+      );
+    } catch (err) {
+      setMessage(err instanceof SyncError ? err.message : 'Sync failed');
+    } finally {
+      setIsSyncing(false);
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  };
+
+  const onWebdavSync = () =>
+    run(
+      createWebDavSyncAdapter({
+        url: webdavUrl.trim(),
+        username: webdavUsername || undefined,
+        password: webdavPassword,
+      }),
+    );
+
+  return (
+    <div className='flex flex-col gap-3'>
+      <div className='flex flex-row gap-2' role='radiogroup'>
+        {TRANSPORTS.map(option => (
+          <button
+            key={option.value}
+            type='button'
+            role='radio'
+            aria-checked={transport === option.value}
+            onClick={() => setTransport(option.value)}
+            className={clsx(
+              'rounded-lg border px-3 py-2 text-sm hover:cursor-pointer',
+              transport === option.value
+                ? 'border-(--main-color) text-(--main-color)'
+                : 'border-(--border-color) text-(--secondary-color)',
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {transport === 'webdav' ? (
+        <div className='flex flex-col gap-2'>
+          <input
+            type='url'
+            placeholder='https://dav.example.com/kanadojo-sync.json'
+            value={webdavUrl}
+            onChange={e => setWebdavSettings({ webdavUrl: e.target.value })}
+            className={inputClassName}
+          />
+          <div className='flex flex-row gap-2'>
+            <input
+              type='text'
+              placeholder='Username'
+              autoComplete='username'
+              value={webdavUsername}
+              onChange={e =>
+                setWebdavSettings({ webdavUsername: e.target.value })
+              }
+              className={clsx(inputClassName, 'flex-1')}
+            />
+            <input
+              type='password'
+              placeholder='Password'
+              autoComplete='current-password'
+              value={webdavPassword}
+              onChange={e =>
+                setWebdavSettings({ webdavPassword: e.target.value })
+              }
+              className={clsx(inputClassName, 'flex-1')}
+            />
+          </div>
+          <div>
+            <Button
+              onClick={onWebdavSync}
+              disabled={isSyncing || !webdavUrl.trim()}
+              className='hover:cursor-pointer'
+            >
+              {isSyncing ? 'Syncing…' : 'Sync now'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className='flex flex-row gap-3'>
+          <Button
+            onClick={() => run(createFileSyncAdapter())}
+            disabled={isSyncing}
+            className='hover:cursor-pointer'
+          >
+            Export sync file
+          </Button>
+          <Button
+            variant='secondary'
+            onClick={() => fileRef.current?.click()}
+            disabled={isSyncing}
+            className='hover:cursor-pointer'
+          >
+            Merge sync file
+          </Button>
+          <input
+            ref={fileRef}
+            type='file'
+            accept='application/json'
+            hidden
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              const file = e.target.files?.[0];
+              if (file) run(createFileSyncAdapter({ file }));
+            }}
+          />
+        </div>
+      )}
+
+      {message && <p className='text-sm text-(--secondary-color)'>{message}</p>}
+      <p className='text-xs opacity-70'>
+        {lastSyncedAt
+          ? `Last synced ${new Date(lastSyncedAt).toLocaleString()}. `
+          : ''}
+        Syncs preferences, stats, achievements, review schedules, custom sets,
+        adaptive weights and history. Answer counts from every device add up;
+        for everything else the most recent change wins.
+        {transport === 'file' &&
+          ' Merging a file from another device downloads the combined file to carry back.'}
+      </p>
+    </div>
+  );
+};
+
+export default Sync;
@@ -4,6 +4,7 @@ import Themes from './Themes';
 import Fonts from './Fonts';
 import Behavior from './Behavior';
 import Backup from './Backup';
+import Sync from './Sync';
 import CollapsibleSection from './CollapsibleSection';
 // import GoalTimers from './GoalTimers';
 import {
@@ -13,6 +14,7 @@ import {
   Blocks,
   Palette,
   Save,
+  RefreshCw,
   // Target
 } from 'lucide-react';
 
@@ -84,6 +86,15 @@ const Settings = () => {
         <Backup />
       </div>
 
+      {/* Sync Section */}
+      <div className='flex flex-col gap-4'>
+        <h3 className='flex flex-row items-end gap-2 border-b-1 border-(--border-color) pb-2 text-2xl'>
+          <RefreshCw size={22} className='text-(--secondary-color)' />
+          <span>Sync</span>
+        </h3>
+        <Sync />
+      </div>
+
       {/* Coming Soon */}
       <div className='mb-12 flex flex-col gap-4'>
         <h3
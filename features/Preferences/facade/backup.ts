@@ -1,10 +1,16 @@
 'use client';
 
 import { useCustomThemeStore } from '../store/useCustomThemeStore';
+import {
+  useCustomWallpaperStore,
+  type CustomWallpaperMeta,
+} from '../store/useCustomWallpaperStore';
+import useGoalTimersStore from '../store/useGoalTimersStore';
 import usePreferencesStore from '../store/usePreferencesStore';
 
 type PreferencesStoreState = ReturnType<typeof usePreferencesStore.getState>;
 type CustomThemeStoreState = ReturnType<typeof useCustomThemeStore.getState>;
+type GoalTimersStoreState = ReturnType<typeof useGoalTimersStore.getState>;
 
 export const preferencesBackup = {
   getPreferencesState: (): PreferencesStoreState =>
@@ -16,6 +22,29 @@ export const preferencesBackup = {
     useCustomThemeStore.getState(),
   setCustomThemeState: (partial: Partial<CustomThemeStoreState>) =>
     useCustomThemeStore.setState(partial),
+
+  getGoalTimersState: (): GoalTimersStoreState => useGoalTimersStore.getState(),
+  setGoalTimersState: (partial: Partial<GoalTimersStoreState>) =>
+    useGoalTimersStore.setState(partial),
+
+  getCustomWallpapers: async (): Promise<
+    { meta: CustomWallpaperMeta; blob: Blob }[]
+  > => {
+    const store = useCustomWallpaperStore.getState();
+    const entries: { meta: CustomWallpaperMeta; blob: Blob }[] = [];
+    for (const meta of store.wallpapers) {
+      const blob = await store.getWallpaperBlob(meta.id);
+      if (blob) entries.push({ meta, blob });
+    }
+    return entries;
+  },
+  setCustomWallpapers: (entries: { meta: CustomWallpaperMeta; blob: Blob }[]) =>
+    useCustomWallpaperStore.getState().replaceWallpapers(entries),
 };
 
-export type { PreferencesStoreState, CustomThemeStoreState };
+export type {
+  PreferencesStoreState,
+  CustomThemeStoreState,
+  GoalTimersStoreState,
+  CustomWallpaperMeta,
+};
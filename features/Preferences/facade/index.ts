@@ -14,4 +14,9 @@ export type {
 } from './useGoalTimersPreferences';
 
 export { preferencesBackup } from './backup';
-export type { PreferencesStoreState, CustomThemeStoreState } from './backup';
+export type {
+  PreferencesStoreState,
+  CustomThemeStoreState,
+  GoalTimersStoreState,
+  CustomWallpaperMeta,
+} from './backup';
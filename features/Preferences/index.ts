@@ -18,6 +18,8 @@ export type {
   GoalTimersPreferencesActions,
   PreferencesStoreState,
   CustomThemeStoreState,
+  GoalTimersStoreState,
+  CustomWallpaperMeta,
 } from './facade';
 
 // Components (page-level)
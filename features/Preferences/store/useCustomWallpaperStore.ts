@@ -47,6 +47,12 @@ interface CustomWallpaperStore {
   getThumbnailUrl: (id: string) => string | undefined;
   hasWallpaper: (id: string) => boolean;
   initializeObjectUrls: () => Promise<void>;
+  /** Full-size image for a wallpaper, read from IndexedDB */
+  getWallpaperBlob: (id: string) => Promise<Blob | undefined>;
+  /** Replace all wallpapers, e.g. when restoring a backup */
+  replaceWallpapers: (
+    entries: { meta: CustomWallpaperMeta; blob: Blob }[],
+  ) => Promise<void>;
 }
 
 // ============================================================================
@@ -210,6 +216,23 @@ export const useCustomWallpaperStore = create<CustomWallpaperStore>()(
           initialized: true,
         });
       },
+
+      getWallpaperBlob: id => loadBlob(id),
+
+      replaceWallpapers: async entries => {
+        const incomingIds = new Set(entries.map(entry => entry.meta.id));
+        for (const wallpaper of get().wallpapers) {
+          if (!incomingIds.has(wallpaper.id)) {
+            await get().removeWallpaper(wallpaper.id);
+          }
+        }
+
+        for (const { meta, blob } of entries) {
+          // Wallpaper ids are unique per image, so a matching id is the same wallpaper
+          if (get().hasWallpaper(meta.id)) continue;
+          await get().addWallpaper(meta, blob);
+        }
+      },
     }),
     {
       name: 'kanadojo-custom-wallpapers-meta',
@@ -1,12 +1,18 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '@/shared/lib/utils';
 import { ActionButton } from '@/shared/components/ui/ActionButton';
 import { kana } from '@/features/Kana/data/kana';
 import useKanjiStore from '@/features/Kanji/store/useKanjiStore';
 import useVocabStore from '@/features/Vocabulary/store/useVocabStore';
+import AddToStudySet from '@/shared/components/Menu/AddToStudySet';
+import { groupStudySetKeys, resolveStudySetKeys } from '@/shared/lib/studySets';
+import {
+  countStudySetItems,
+  type StudySetItems,
+} from '@/shared/store/useCustomSetsStore';
 import type {
   CharacterMasteryItem,
   ContentFilter,
@@ -22,6 +28,10 @@ import { calculateAccuracy } from '../../lib/calculateAccuracy';
 export interface CharacterMasteryPanelProps {
   /** Raw character mastery data from the stats store */
   characterMastery: Record<string, { correct: number; incorrect: number }>;
+  /** Writing dojo results per character, shown under the Writing filter */
+  writingMastery?: Record<string, { correct: number; incorrect: number }>;
+  /** Listening dojo results per item, shown under the Listening filter */
+  listeningMastery?: Record<string, { correct: number; incorrect: number }>;
   /** Optional additional CSS classes */
   className?: string;
 }
@@ -34,6 +44,8 @@ const CONTENT_FILTERS: { value: ContentFilter; label: string }[] = [
   { value: 'kana', label: 'Kana' },
   { value: 'kanji', label: 'Kanji' },
   { value: 'vocabulary', label: 'Vocabulary' },
+  { value: 'writing', label: 'Writing' },
+  { value: 'listening', label: 'Listening' },
 ];
 
 /**
@@ -93,12 +105,13 @@ const ROMAJI_TO_KANA = buildRomajiToKanaMap();
  */
 function transformCharacterData(
   characterMastery: Record<string, { correct: number; incorrect: number }>,
+  contentTypeOverride?: CharacterMasteryItem['contentType'],
 ): CharacterMasteryItem[] {
   return Object.entries(characterMastery).map(([character, stats]) => {
     const total = stats.correct + stats.incorrect;
     const accuracy = calculateAccuracy(stats.correct, stats.incorrect);
     const masteryLevel = classifyCharacter(stats.correct, stats.incorrect);
-    const contentType = detectContentType(character);
+    const contentType = contentTypeOverride ?? detectContentType(character);
 
     return {
       character,
@@ -145,6 +158,8 @@ export function getTopCharacters(
  */
 export default function CharacterMasteryPanel({
   characterMastery,
+  writingMastery,
+  listeningMastery,
   className,
 }: CharacterMasteryPanelProps) {
   const [contentFilter, setContentFilter] = useState<ContentFilter>('all');
@@ -226,8 +241,14 @@ export default function CharacterMasteryPanel({
 
   const filteredCharacters = useMemo(() => {
     if (contentFilter === 'all') return allCharacters;
+    if (contentFilter === 'writing') {
+      return transformCharacterData(writingMastery ?? {}, 'writing');
+    }
+    if (contentFilter === 'listening') {
+      return transformCharacterData(listeningMastery ?? {}, 'listening');
+    }
     return allCharacters.filter(char => char.contentType === contentFilter);
-  }, [allCharacters, contentFilter]);
+  }, [allCharacters, contentFilter, writingMastery, listeningMastery]);
 
   const topDifficult = useMemo(
     () => getTopCharacters(filteredCharacters, 5, 'difficult'),
@@ -252,6 +273,27 @@ export default function CharacterMasteryPanel({
     return grouped;
   }, [filteredCharacters]);
 
+  // Entries of the characters needing practice, looked up for study sets
+  const [weakItems, setWeakItems] = useState<StudySetItems | null>(null);
+  useEffect(() => {
+    const keys = groupedByMastery['needs-practice'].map(char => char.character);
+    if (keys.length === 0) {
+      setWeakItems(null);
+      return;
+    }
+    let cancelled = false;
+    resolveStudySetKeys(groupStudySetKeys(keys))
+      .then(({ items }) => {
+        if (!cancelled) setWeakItems(items);
+      })
+      .catch(error => {
+        console.error('Failed to look up weak characters:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [groupedByMastery]);
+
   const hasCharacters = filteredCharacters.length > 0;
 
   return (
@@ -351,6 +393,12 @@ export default function CharacterMasteryPanel({
                       Needs Practice
                     </h4>
                   </div>
+                  {weakItems && (
+                    <AddToStudySet
+                      items={weakItems}
+                      label={`Save ${countStudySetItems(weakItems)} to a set`}
+                    />
+                  )}
                   {topDifficult.length > 0 ? (
                     <div className='space-y-2'>
                       {topDifficult.map((char, idx) => (
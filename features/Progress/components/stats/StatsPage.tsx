@@ -94,6 +94,12 @@ export default function StatsPage({ className }: StatsPageProps) {
   const { clearAllProgress } = useStatsStore(
     useShallow(state => ({ clearAllProgress: state.clearAllProgress })),
   );
+  const writingMastery = useStatsStore(
+    state => state.allTimeStats.writingStats?.byCharacter,
+  );
+  const listeningMastery = useStatsStore(
+    state => state.allTimeStats.listeningStats?.byItem,
+  );
   const { stats, isLoading } = useStatsAggregator();
   const [showResetModal, setShowResetModal] = useState(false);
 
@@ -255,7 +261,11 @@ export default function StatsPage({ className }: StatsPageProps) {
 
             {/* Two-column layout for panels */}
             <div className='grid grid-cols-1 gap-6 lg:grid-cols-2'>
-              <CharacterMasteryPanel characterMastery={characterMasteryMap} />
+              <CharacterMasteryPanel
+                characterMastery={characterMasteryMap}
+                writingMastery={writingMastery}
+                listeningMastery={listeningMastery}
+              />
               <MasteryDistributionChart
                 distribution={stats.masteryDistribution}
               />
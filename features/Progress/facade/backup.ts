@@ -1,6 +1,7 @@
 'use client';
 
 import useStatsStore from '../store/useStatsStore';
+import useVisitStore from '../store/useVisitStore';
 
 type StatsStoreState = ReturnType<typeof useStatsStore.getState>;
 
@@ -8,6 +9,15 @@ export const progressBackup = {
   getStatsState: (): StatsStoreState => useStatsStore.getState(),
   setStatsState: (partial: Partial<StatsStoreState>) =>
     useStatsStore.setState(partial),
+
+  getVisits: async (): Promise<string[]> => {
+    if (!useVisitStore.getState().isLoaded) {
+      await useVisitStore.getState().loadVisits();
+    }
+    return useVisitStore.getState().visits;
+  },
+  setVisits: (visits: string[]) =>
+    useVisitStore.getState().replaceVisits(visits),
 };
 
 export type { StatsStoreState };
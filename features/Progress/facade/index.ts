@@ -5,13 +5,26 @@ export {
   useStatsDisplay,
   useSessionStats,
   useTimedStats,
+  useConjugationStats,
+  useWritingStats,
+  useListeningStats,
+} from './useStatsDisplay';
+export type {
+  StatsDisplay,
+  SessionStats,
+  TimedStats,
+  ConjugationStats,
+  WritingStats,
+  ListeningStats,
 } from './useStatsDisplay';
-export type { StatsDisplay, SessionStats, TimedStats } from './useStatsDisplay';
 
 export { statsTracking } from './statsTracking';
 export type {
   RecordGauntletRunParams,
   RecordBlitzSessionParams,
+  RecordConjugationAnswerParams,
+  RecordWritingAnswerParams,
+  RecordListeningAnswerParams,
 } from './statsTracking';
 
 export { progressBackup } from './backup';
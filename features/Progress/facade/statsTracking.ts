@@ -12,6 +12,18 @@ export type RecordBlitzSessionParams = Parameters<
   StatsState['recordBlitzSession']
 >[0];
 
+export type RecordConjugationAnswerParams = Parameters<
+  StatsState['recordConjugationAnswer']
+>[0];
+
+export type RecordWritingAnswerParams = Parameters<
+  StatsState['recordWritingAnswer']
+>[0];
+
+export type RecordListeningAnswerParams = Parameters<
+  StatsState['recordListeningAnswer']
+>[0];
+
 export const statsTracking = {
   recordBlitzSession: (params: RecordBlitzSessionParams) =>
     useStatsStore.getState().recordBlitzSession(params),
@@ -21,4 +33,10 @@ export const statsTracking = {
     useStatsStore.getState().recordChallengeModeUsed(challengeMode),
   recordDojoUsed: (dojo: string) =>
     useStatsStore.getState().recordDojoUsed(dojo),
+  recordConjugationAnswer: (params: RecordConjugationAnswerParams) =>
+    useStatsStore.getState().recordConjugationAnswer(params),
+  recordWritingAnswer: (params: RecordWritingAnswerParams) =>
+    useStatsStore.getState().recordWritingAnswer(params),
+  recordListeningAnswer: (params: RecordListeningAnswerParams) =>
+    useStatsStore.getState().recordListeningAnswer(params),
 };
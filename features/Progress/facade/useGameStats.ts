@@ -28,6 +28,11 @@ export interface GameStatsActions {
   resetSessionStats: () => void;
 }
 
+const SEPARATELY_TRACKED = new Set<StatEvent['contentType']>([
+  'writing',
+  'listening',
+]);
+
 /**
  * Hook for game components to track stats
  *
@@ -44,8 +49,9 @@ export function useGameStats(): GameStatsActions {
       'correct',
       (event: StatEvent) => {
         store.incrementCorrectAnswers();
-        // Update character history based on content type
-        if (event.character) {
+        // Update character history based on content type. Writing and
+        // listening have their own stats, apart from recognition
+        if (event.character && !SEPARATELY_TRACKED.has(event.contentType)) {
           store.addCharacterToHistory(event.character);
           store.incrementCharacterScore(event.character, 'correct');
         }
@@ -56,8 +62,9 @@ export function useGameStats(): GameStatsActions {
       'incorrect',
       (event: StatEvent) => {
         store.incrementWrongAnswers();
-        // Update character history based on content type
-        if (event.character) {
+        // Update character history based on content type. Writing and
+        // listening have their own stats, apart from recognition
+        if (event.character && !SEPARATELY_TRACKED.has(event.contentType)) {
           store.addCharacterToHistory(event.character);
           store.incrementCharacterScore(event.character, 'wrong');
         }
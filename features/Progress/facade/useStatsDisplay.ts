@@ -223,3 +223,60 @@ export function useTimedStats(
     [correct, wrong, streak, bestStreak, reset],
   );
 }
+
+export type ConjugationStats = ReturnType<
+  typeof useStatsStore.getState
+>['allTimeStats']['conjugationStats'];
+
+const EMPTY_CONJUGATION_STATS: ConjugationStats = {
+  byForm: {},
+  byVerbClass: {},
+  godanTeForm: {},
+  godanTeMistakes: [],
+};
+
+/**
+ * Read-only all-time conjugation drill stats
+ */
+export function useConjugationStats(): ConjugationStats {
+  return useStatsStore(
+    state => state.allTimeStats.conjugationStats ?? EMPTY_CONJUGATION_STATS,
+  );
+}
+
+export type WritingStats = ReturnType<
+  typeof useStatsStore.getState
+>['allTimeStats']['writingStats'];
+
+const EMPTY_WRITING_STATS: WritingStats = {
+  byCharacter: {},
+  mistakes: {},
+};
+
+/**
+ * Read-only all-time writing dojo stats
+ */
+export function useWritingStats(): WritingStats {
+  return useStatsStore(
+    state => state.allTimeStats.writingStats ?? EMPTY_WRITING_STATS,
+  );
+}
+
+export type ListeningStats = ReturnType<
+  typeof useStatsStore.getState
+>['allTimeStats']['listeningStats'];
+
+const EMPTY_LISTENING_STATS: ListeningStats = {
+  byContent: {},
+  byItem: {},
+  replays: 0,
+};
+
+/**
+ * Read-only all-time listening dojo stats
+ */
+export function useListeningStats(): ListeningStats {
+  return useStatsStore(
+    state => state.allTimeStats.listeningStats ?? EMPTY_LISTENING_STATS,
+  );
+}
@@ -8,6 +8,9 @@ export {
   useStatsDisplay,
   useSessionStats,
   useTimedStats,
+  useConjugationStats,
+  useWritingStats,
+  useListeningStats,
   statsTracking,
   progressBackup,
 } from './facade';
@@ -17,8 +20,14 @@ export type {
   StatsDisplay,
   SessionStats,
   TimedStats,
+  ConjugationStats,
+  WritingStats,
+  ListeningStats,
   RecordGauntletRunParams,
   RecordBlitzSessionParams,
+  RecordConjugationAnswerParams,
+  RecordWritingAnswerParams,
+  RecordListeningAnswerParams,
   StatsStoreState,
 } from './facade';
 
@@ -19,6 +19,10 @@ interface GauntletStats {
   noDeathRuns: number;
   livesRegenerated: number;
   bestStreak: number;
+  // Runs with a per-question timer, and the completed ones never timed out
+  timedRuns: number;
+  noTimeoutRuns: number;
+  timeouts: number;
 }
 
 // Blitz-specific stats (Requirements 5.1-5.8)
@@ -30,6 +34,43 @@ interface BlitzStats {
   totalAnswers: number;
 }
 
+// Conjugation drill stats
+interface AnswerScore {
+  correct: number;
+  incorrect: number;
+}
+
+interface ConjugationMistake {
+  verb: string;
+  answer: string;
+  expected: string;
+  timestamp: number;
+}
+
+interface ConjugationStats {
+  byForm: Record<string, AnswerScore>;
+  byVerbClass: Record<string, AnswerScore>;
+  // Godan te-form answers keyed by dictionary ending (行く on its own)
+  godanTeForm: Record<string, AnswerScore>;
+  godanTeMistakes: ConjugationMistake[];
+}
+
+// Writing dojo stats
+interface WritingStats {
+  byCharacter: Record<string, AnswerScore>;
+  // How often each kind of stroke mistake was made (count, order, ...)
+  mistakes: Record<string, number>;
+}
+
+// Listening dojo stats, kept apart from reading recognition
+interface ListeningStats {
+  // Keyed by the content listened to: kana, kanji or vocabulary
+  byContent: Record<string, AnswerScore>;
+  byItem: Record<string, AnswerScore>;
+  // Replays used beyond the first playback
+  replays: number;
+}
+
 interface AllTimeStats {
   totalSessions: number;
   totalCorrect: number;
@@ -45,6 +86,12 @@ interface AllTimeStats {
   gauntletStats: GauntletStats;
   // Blitz-specific tracking (Requirements 5.1-5.8)
   blitzStats: BlitzStats;
+  // Conjugation drill tracking
+  conjugationStats: ConjugationStats;
+  // Writing dojo tracking
+  writingStats: WritingStats;
+  // Listening dojo tracking
+  listeningStats: ListeningStats;
   // Time and speed tracking (Requirements 6.1-6.5)
   fastestAnswerMs: number;
   answerTimesMs: number[];
@@ -70,6 +117,9 @@ const defaultGauntletStats: GauntletStats = {
   noDeathRuns: 0,
   livesRegenerated: 0,
   bestStreak: 0,
+  timedRuns: 0,
+  noTimeoutRuns: 0,
+  timeouts: 0,
 };
 
 const defaultBlitzStats: BlitzStats = {
@@ -80,10 +130,29 @@ const defaultBlitzStats: BlitzStats = {
   totalAnswers: 0,
 };
 
+const createDefaultConjugationStats = (): ConjugationStats => ({
+  byForm: {},
+  byVerbClass: {},
+  godanTeForm: {},
+  godanTeMistakes: [],
+});
+
+const createDefaultWritingStats = (): WritingStats => ({
+  byCharacter: {},
+  mistakes: {},
+});
+
+const createDefaultListeningStats = (): ListeningStats => ({
+  byContent: {},
+  byItem: {},
+  replays: 0,
+});
+
 // Max array sizes to prevent memory exhaustion over extended use
 const MAX_ANSWER_TIMES = 1000; // Keep last 1000 answer times
 const MAX_TRAINING_DAYS = 400; // Keep last ~13 months of training days
 const MAX_CHARACTER_HISTORY = 500; // Keep last 500 characters per session
+const MAX_CONJUGATION_MISTAKES = 50; // Keep last 50 te-form mistakes
 
 /**
  * Cap an array to a maximum size, keeping the most recent entries
@@ -155,6 +224,15 @@ interface IStatsState {
   incrementTimedKanjiWrongAnswers: () => void;
   resetTimedKanjiStats: () => void;
 
+  // Timed Cloze stats
+  timedClozeCorrectAnswers: number;
+  timedClozeWrongAnswers: number;
+  timedClozeStreak: number;
+  timedClozeBestStreak: number;
+  incrementTimedClozeCorrectAnswers: () => void;
+  incrementTimedClozeWrongAnswers: () => void;
+  resetTimedClozeStats: () => void;
+
   // Historical tracking
   allTimeStats: AllTimeStats;
   saveSession: () => void;
@@ -170,11 +248,15 @@ interface IStatsState {
   // Gauntlet-specific tracking actions (Requirements 4.1-4.10)
   recordGauntletRun: (params: {
     completed: boolean;
-    difficulty: 'normal' | 'hard' | 'instant-death';
+    // Custom challenges count as runs but not toward a difficulty
+    difficulty: 'normal' | 'hard' | 'instant-death' | 'custom';
     isPerfect: boolean;
     livesLost: number;
     livesRegenerated: number;
     bestStreak: number;
+    // Played with a per-question timer
+    timed: boolean;
+    timeouts: number;
   }) => void;
 
   // Blitz-specific tracking actions (Requirements 5.1-5.8)
@@ -185,6 +267,33 @@ interface IStatsState {
     wrongAnswers: number;
   }) => void;
 
+  // Conjugation drill tracking actions
+  recordConjugationAnswer: (params: {
+    formId: string;
+    verbClass: string;
+    // Set for Godan te-form answers
+    godanTeKey?: string | null;
+    verb: string;
+    answer: string;
+    expected: string;
+    isCorrect: boolean;
+  }) => void;
+
+  // Writing dojo tracking actions
+  recordWritingAnswer: (params: {
+    character: string;
+    isCorrect: boolean;
+    mistakes: string[];
+  }) => void;
+
+  // Listening dojo tracking actions
+  recordListeningAnswer: (params: {
+    item: string;
+    contentType: string;
+    isCorrect: boolean;
+    replays: number;
+  }) => void;
+
   // Time and speed tracking actions (Requirements 6.1-6.5)
   recordAnswerTime: (timeMs: number) => void;
 
@@ -386,6 +495,36 @@ const useStatsStore = create<IStatsState>()(
           timedKanjiStreak: 0,
         }),
 
+      // Timed Cloze stats
+      timedClozeCorrectAnswers: 0,
+      timedClozeWrongAnswers: 0,
+      timedClozeStreak: 0,
+      timedClozeBestStreak: 0,
+
+      incrementTimedClozeCorrectAnswers: () =>
+        set(
+          createTimedCorrectIncrement(
+            'timedClozeCorrectAnswers',
+            'timedClozeStreak',
+            'timedClozeBestStreak',
+          ),
+        ),
+
+      incrementTimedClozeWrongAnswers: () =>
+        set(
+          createTimedWrongIncrement(
+            'timedClozeWrongAnswers',
+            'timedClozeStreak',
+          ),
+        ),
+
+      resetTimedClozeStats: () =>
+        set({
+          timedClozeCorrectAnswers: 0,
+          timedClozeWrongAnswers: 0,
+          timedClozeStreak: 0,
+        }),
+
       // Historical tracking
       allTimeStats: {
         totalSessions: 0,
@@ -402,6 +541,12 @@ const useStatsStore = create<IStatsState>()(
         gauntletStats: { ...defaultGauntletStats },
         // Blitz-specific tracking
         blitzStats: { ...defaultBlitzStats },
+        // Conjugation drill tracking
+        conjugationStats: createDefaultConjugationStats(),
+        // Writing dojo tracking
+        writingStats: createDefaultWritingStats(),
+        // Listening dojo tracking
+        listeningStats: createDefaultListeningStats(),
         // Time and speed tracking
         fastestAnswerMs: Infinity,
         answerTimesMs: [],
@@ -513,6 +658,12 @@ const useStatsStore = create<IStatsState>()(
             gauntletStats: { ...defaultGauntletStats },
             // Blitz-specific tracking
             blitzStats: { ...defaultBlitzStats },
+            // Conjugation drill tracking
+            conjugationStats: createDefaultConjugationStats(),
+            // Writing dojo tracking
+            writingStats: createDefaultWritingStats(),
+            // Listening dojo tracking
+            listeningStats: createDefaultListeningStats(),
             // Time and speed tracking
             fastestAnswerMs: Infinity,
             answerTimesMs: [],
@@ -587,6 +738,8 @@ const useStatsStore = create<IStatsState>()(
         livesLost,
         livesRegenerated,
         bestStreak,
+        timed,
+        timeouts,
       }) =>
         set(s => {
           const gauntletStats = { ...s.allTimeStats.gauntletStats };
@@ -613,6 +766,16 @@ const useStatsStore = create<IStatsState>()(
             if (livesLost === 0) {
               gauntletStats.noDeathRuns += 1;
             }
+
+            // Track timed runs that beat the clock on every question
+            if (timed && timeouts === 0) {
+              gauntletStats.noTimeoutRuns += 1;
+            }
+          }
+
+          if (timed) {
+            gauntletStats.timedRuns += 1;
+            gauntletStats.timeouts += timeouts;
           }
 
           // Track lives regenerated
@@ -653,6 +816,116 @@ const useStatsStore = create<IStatsState>()(
           };
         }),
 
+      // Conjugation drill tracking actions
+      recordConjugationAnswer: ({
+        formId,
+        verbClass,
+        godanTeKey,
+        verb,
+        answer,
+        expected,
+        isCorrect,
+      }) =>
+        set(s => {
+          const field = isCorrect ? 'correct' : 'incorrect';
+          const increment = (
+            scores: Record<string, AnswerScore>,
+            key: string,
+          ) => {
+            const score = scores[key] || { correct: 0, incorrect: 0 };
+            return {
+              ...scores,
+              [key]: { ...score, [field]: score[field] + 1 },
+            };
+          };
+
+          // Restored backups from before the drill have no conjugation stats
+          const prev =
+            s.allTimeStats.conjugationStats ?? createDefaultConjugationStats();
+          const conjugationStats: ConjugationStats = {
+            byForm: increment(prev.byForm, formId),
+            byVerbClass: increment(prev.byVerbClass, verbClass),
+            godanTeForm: godanTeKey
+              ? increment(prev.godanTeForm, godanTeKey)
+              : prev.godanTeForm,
+            godanTeMistakes:
+              godanTeKey && !isCorrect
+                ? capArray(
+                    [
+                      ...prev.godanTeMistakes,
+                      { verb, answer, expected, timestamp: Date.now() },
+                    ],
+                    MAX_CONJUGATION_MISTAKES,
+                  )
+                : prev.godanTeMistakes,
+          };
+
+          return {
+            allTimeStats: {
+              ...s.allTimeStats,
+              conjugationStats,
+            },
+          };
+        }),
+
+      // Writing dojo tracking actions
+      recordWritingAnswer: ({ character, isCorrect, mistakes }) =>
+        set(s => {
+          const prev =
+            s.allTimeStats.writingStats ?? createDefaultWritingStats();
+          const score = prev.byCharacter[character] || {
+            correct: 0,
+            incorrect: 0,
+          };
+          const field = isCorrect ? 'correct' : 'incorrect';
+          const mistakeCounts = { ...prev.mistakes };
+          for (const mistake of mistakes) {
+            mistakeCounts[mistake] = (mistakeCounts[mistake] || 0) + 1;
+          }
+
+          return {
+            allTimeStats: {
+              ...s.allTimeStats,
+              writingStats: {
+                byCharacter: {
+                  ...prev.byCharacter,
+                  [character]: { ...score, [field]: score[field] + 1 },
+                },
+                mistakes: mistakeCounts,
+              },
+            },
+          };
+        }),
+
+      // Listening dojo tracking actions
+      recordListeningAnswer: ({ item, contentType, isCorrect, replays }) =>
+        set(s => {
+          const prev =
+            s.allTimeStats.listeningStats ?? createDefaultListeningStats();
+          const field = isCorrect ? 'correct' : 'incorrect';
+          const bump = (score: AnswerScore = { correct: 0, incorrect: 0 }) => ({
+            ...score,
+            [field]: score[field] + 1,
+          });
+
+          return {
+            allTimeStats: {
+              ...s.allTimeStats,
+              listeningStats: {
+                byContent: {
+                  ...prev.byContent,
+                  [contentType]: bump(prev.byContent[contentType]),
+                },
+                byItem: {
+                  ...prev.byItem,
+                  [item]: bump(prev.byItem[item]),
+                },
+                replays: prev.replays + replays,
+              },
+            },
+          };
+        }),
+
       // Time and speed tracking actions (Requirements 6.1-6.5)
       recordAnswerTime: (timeMs: number) =>
         set(s => ({
@@ -772,6 +1045,18 @@ const useStatsStore = create<IStatsState>()(
               ...defaultBlitzStats,
               ...(persisted?.allTimeStats?.blitzStats || {}),
             },
+            conjugationStats: {
+              ...createDefaultConjugationStats(),
+              ...(persisted?.allTimeStats?.conjugationStats || {}),
+            },
+            writingStats: {
+              ...createDefaultWritingStats(),
+              ...(persisted?.allTimeStats?.writingStats || {}),
+            },
+            listeningStats: {
+              ...createDefaultListeningStats(),
+              ...(persisted?.allTimeStats?.listeningStats || {}),
+            },
             // Ensure arrays have defaults if missing from persisted state
             dojosUsed: persisted?.allTimeStats?.dojosUsed ?? [],
             modesUsed: persisted?.allTimeStats?.modesUsed ?? [],
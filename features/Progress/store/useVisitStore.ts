@@ -11,6 +11,7 @@ interface VisitState {
   // Actions
   loadVisits: () => Promise<void>;
   recordVisit: (date?: string) => Promise<void>;
+  replaceVisits: (visits: string[]) => Promise<void>;
   getVisits: () => string[];
 }
 
@@ -56,6 +57,19 @@ const useVisitStore = create<VisitState>()((set, get) => ({
     }
   },
 
+  replaceVisits: async (visits: string[]) => {
+    const validVisits = [...new Set(visits)].filter(
+      date => typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date),
+    );
+    set({ visits: validVisits, isLoaded: true });
+
+    try {
+      await localforage.setItem(STORAGE_KEY, validVisits);
+    } catch (error) {
+      console.warn('Failed to save visits to LocalForage:', error);
+    }
+  },
+
   getVisits: () => get().visits,
 }));
 
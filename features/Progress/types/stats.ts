@@ -12,9 +12,11 @@
 export type ContentType = 'kana' | 'kanji' | 'vocabulary';
 
 /**
- * Content filter including 'all' option for UI filtering
+ * Content filter including 'all' option for UI filtering. Writing and
+ * listening are tracked apart from recognition, so they only show up as
+ * their own filters
  */
-export type ContentFilter = 'all' | ContentType;
+export type ContentFilter = 'all' | ContentType | 'writing' | 'listening';
 
 /**
  * Mastery level classification based on accuracy and attempt thresholds
@@ -40,8 +42,8 @@ export interface CharacterMasteryItem {
   accuracy: number;
   /** Calculated mastery level */
   masteryLevel: MasteryLevel;
-  /** Detected content type */
-  contentType: ContentType;
+  /** Detected content type, or the dojo for writing/listening results */
+  contentType: Exclude<ContentFilter, 'all'>;
 }
 
 /**
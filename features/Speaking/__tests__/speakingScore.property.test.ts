@@ -0,0 +1,202 @@
+/**
+ * Property-Based Tests for Speaking Scores
+ *
+ * **Feature: speaking-drill**
+ * Transcripts are compared with the expected reading as spoken kana, the
+ * mora diff accounts for every expected and heard mora, and any speech
+ * backend (here canned transcripts) can drive the scoring.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { toKatakana } from 'wanakana';
+import {
+  PASS_SCORE,
+  diffMorae,
+  normalizeSpokenKana,
+  scoreMoraDiff,
+  scoreSpokenAttempt,
+  tokensToSpokenReading,
+  type ReadingResolver,
+} from '../lib/speakingScore';
+import {
+  SpeechBackendError,
+  createCannedSpeechBackend,
+} from '../lib/speechBackend';
+import type { SpeakingPrompt } from '../types';
+
+const MORAE = ['か', 'き', 'きゃ', 'っ', 'ん', 'こ', 'し', 'しょ', 'ー', 'が'];
+const moraeArb = fc.array(fc.constantFrom(...MORAE), { maxLength: 8 });
+
+// Stands in for the tokenizer, which leaves kana other than particles as is
+const READINGS: Record<string, string> = {
+  学校: 'がっこう',
+  学生: 'がくせい',
+  私は学生です: 'わたしわがくせいです',
+  わたしはがくせいです: 'わたしわがくせいです',
+};
+const resolveReading: ReadingResolver = async text => {
+  const written = text.replace(/[。、\s]/g, '');
+  return READINGS[written] ?? written;
+};
+
+const listenAll = async (transcripts: (string | string[])[]) => {
+  const backend = createCannedSpeechBackend(transcripts);
+  const heard: string[][] = [];
+  for (let i = 0; i < transcripts.length; i++) {
+    heard.push(await backend.listen({ lang: 'ja-JP' }));
+  }
+  return { backend, heard };
+};
+
+describe('diffMorae', () => {
+  it('keeps every expected and heard mora in order', () => {
+    fc.assert(
+      fc.property(moraeArb, moraeArb, (expected, heard) => {
+        const diff = diffMorae(expected, heard);
+        expect(
+          diff.flatMap(step => (step.expected ? [step.expected] : [])),
+        ).toEqual(expected);
+        expect(diff.flatMap(step => (step.heard ? [step.heard] : []))).toEqual(
+          heard,
+        );
+      }),
+    );
+  });
+
+  it('scores 100 only when everything matched', () => {
+    fc.assert(
+      fc.property(moraeArb, moraeArb, (expected, heard) => {
+        const score = scoreMoraDiff(diffMorae(expected, heard));
+        expect(score).toBeGreaterThanOrEqual(0);
+        expect(score).toBeLessThanOrEqual(100);
+        expect(score === 100).toBe(
+          expected.length > 0 && expected.join() === heard.join(),
+        );
+      }),
+    );
+  });
+
+  it('marks a dropped sokuon as missing', () => {
+    expect(diffMorae(['が', 'っ', 'こ', 'う'], ['が', 'こ', 'う'])).toEqual([
+      { type: 'match', expected: 'が', heard: 'が' },
+      { type: 'missing', expected: 'っ' },
+      { type: 'match', expected: 'こ', heard: 'こ' },
+      { type: 'match', expected: 'う', heard: 'う' },
+    ]);
+  });
+});
+
+describe('normalizeSpokenKana', () => {
+  it('reads katakana as hiragana and ignores punctuation', () => {
+    fc.assert(
+      fc.property(moraeArb, morae => {
+        const reading = morae.join('');
+        expect(normalizeSpokenKana(`${toKatakana(reading)}。`)).toBe(reading);
+      }),
+    );
+  });
+
+  it('says the particles は, へ and を as わ, え and お', () => {
+    expect(
+      tokensToSpokenReading([
+        { surface: '私', reading: 'わたし', pos: 'Noun' },
+        { surface: 'は', reading: 'は', pos: 'Particle' },
+        { surface: '花', reading: 'はな', pos: 'Noun' },
+        { surface: 'を', reading: 'を', pos: 'Particle' },
+      ] as Parameters<typeof tokensToSpokenReading>[0]),
+    ).toBe('わたしわはなお');
+  });
+});
+
+describe('scoreSpokenAttempt', () => {
+  it('passes canned transcripts written in kanji, kana or katakana', async () => {
+    const word: SpeakingPrompt = {
+      kind: 'word',
+      text: '学校',
+      reading: 'がっこう',
+      meaning: 'school',
+    };
+    const { heard } = await listenAll(['学校', 'がっこう', 'ガッコウ']);
+    for (const transcripts of heard) {
+      const result = await scoreSpokenAttempt(
+        word,
+        transcripts,
+        resolveReading,
+      );
+      expect(result.score).toBe(100);
+      expect(result.isCorrect).toBe(true);
+    }
+  });
+
+  it('keeps the best of the alternative transcripts', async () => {
+    const { heard } = await listenAll([['学生', '学校']]);
+    const result = await scoreSpokenAttempt(
+      { kind: 'word', text: '学校', reading: 'がっこう', meaning: 'school' },
+      heard[0],
+      resolveReading,
+    );
+    expect(result.transcript).toBe('学校');
+    expect(result.score).toBe(100);
+  });
+
+  it('resolves sentence readings and fails a dropped mora', async () => {
+    const sentence: SpeakingPrompt = {
+      kind: 'sentence',
+      text: '私は学生です。',
+      meaning: 'I am a student.',
+    };
+    for (const transcript of ['私は学生です', 'わたしわ がくせいです']) {
+      const good = await scoreSpokenAttempt(
+        sentence,
+        [transcript],
+        resolveReading,
+      );
+      expect(good.score).toBe(100);
+    }
+
+    const kana: SpeakingPrompt = {
+      kind: 'kana',
+      text: 'きゃ',
+      reading: 'きゃ',
+      meaning: '',
+    };
+    const wrong = await scoreSpokenAttempt(kana, ['き'], resolveReading);
+    expect(wrong.score).toBeLessThan(PASS_SCORE);
+    expect(wrong.isCorrect).toBe(false);
+  });
+
+  it('reads particles the same way in kanji and kana sentences', async () => {
+    const sentence = (text: string): SpeakingPrompt => ({
+      kind: 'sentence',
+      text,
+      meaning: 'I am a student.',
+    });
+    const { heard } = await listenAll(['わたしはがくせいです', '私は学生です']);
+
+    const kanaTranscript = await scoreSpokenAttempt(
+      sentence('私は学生です。'),
+      heard[0],
+      resolveReading,
+    );
+    expect(kanaTranscript.score).toBe(100);
+
+    const kanaPrompt = await scoreSpokenAttempt(
+      sentence('わたしはがくせいです'),
+      heard[1],
+      resolveReading,
+    );
+    expect(kanaPrompt.score).toBe(100);
+    expect(kanaPrompt.diff.every(step => step.type === 'match')).toBe(true);
+  });
+
+  it('reports no-speech once the canned transcripts run out', async () => {
+    const { backend } = await listenAll(['あ']);
+    await expect(backend.listen({ lang: 'ja-JP' })).rejects.toMatchObject({
+      code: 'no-speech',
+    });
+    await expect(backend.listen({ lang: 'ja-JP' })).rejects.toBeInstanceOf(
+      SpeechBackendError,
+    );
+  });
+});
@@ -0,0 +1,307 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import clsx from 'clsx';
+import { ArrowRight, Mic, Square, Volume2 } from 'lucide-react';
+import { useShallow } from 'zustand/react/shallow';
+import { useClick, useCorrect, useError } from '@/shared/hooks/useAudio';
+import { useJapaneseTTS } from '@/shared/hooks/useJapaneseTTS';
+import type { MoraDiff, SpeakingPrompt, SpeakingResult } from '../types';
+import useSpeakingStore from '../store/useSpeakingStore';
+import { useSpeakingPrompts } from '../hooks/useSpeakingPrompts';
+import { useSpeechAttempt } from '../hooks/useSpeechAttempt';
+import { webSpeechBackend, type SpeechBackend } from '../lib/speechBackend';
+import {
+  PASS_SCORE,
+  resolveReadingWithTokenizer,
+  scoreSpokenAttempt,
+  type ReadingResolver,
+} from '../lib/speakingScore';
+import {
+  SPEAKING_LEVELS,
+  SPEAKING_PROMPT_KINDS,
+  pickSpeakingPrompt,
+} from '../lib/speakingPrompts';
+
+interface SpeakingDrillProps {
+  /** Speech recognition to listen with; the browser's by default */
+  backend?: SpeechBackend;
+  /** Reads prompts and transcripts that contain kanji */
+  resolveReading?: ReadingResolver;
+}
+
+const DIFF_STYLES: Record<MoraDiff['type'], string> = {
+  match: 'border-(--main-color) text-(--main-color)',
+  substitute: 'border-red-500 text-red-500',
+  missing: 'border-dashed border-red-500 text-red-500 opacity-60',
+  extra: 'border-dashed border-(--border-color) text-(--muted-color)',
+};
+
+const DIFF_LABELS: Record<MoraDiff['type'], string> = {
+  match: 'said as expected',
+  substitute: 'heard something else',
+  missing: 'not heard',
+  extra: 'heard in addition',
+};
+
+function MoraDiffView({ diff }: { diff: MoraDiff[] }) {
+  return (
+    <div className='flex flex-wrap justify-center gap-1' lang='ja'>
+      {diff.map((step, index) => (
+        <span
+          key={index}
+          title={DIFF_LABELS[step.type]}
+          className={clsx(
+            'flex min-w-10 flex-col items-center rounded-lg border-2 px-2 py-1',
+            DIFF_STYLES[step.type],
+          )}
+        >
+          <span className='text-xl'>{step.expected ?? '·'}</span>
+          {step.type !== 'match' && (
+            <span className='text-xs'>{step.heard ?? '—'}</span>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Speaking drill: a kana, word or sentence is shown, the user says it and
+ * the recognized speech is scored mora by mora against its reading
+ */
+export default function SpeakingDrill({
+  backend = webSpeechBackend,
+  resolveReading = resolveReadingWithTokenizer,
+}: SpeakingDrillProps) {
+  const { playClick } = useClick();
+  const { playCorrect } = useCorrect();
+  const { playErrorTwice } = useError();
+  const { speak } = useJapaneseTTS();
+
+  const { promptKind, setPromptKind, level, setLevel } = useSpeakingStore(
+    useShallow(state => ({
+      promptKind: state.promptKind,
+      setPromptKind: state.setPromptKind,
+      level: state.level,
+      setLevel: state.setLevel,
+    })),
+  );
+  const { prompts, isLoading } = useSpeakingPrompts(promptKind, level);
+  const { isSupported, isListening, error, listen, stop } =
+    useSpeechAttempt(backend);
+
+  const [prompt, setPrompt] = useState<SpeakingPrompt | null>(null);
+  const [result, setResult] = useState<SpeakingResult | null>(null);
+  const [isScoring, setIsScoring] = useState(false);
+  const [score, setScore] = useState({ correct: 0, total: 0 });
+
+  useEffect(() => {
+    setPrompt(pickSpeakingPrompt(prompts));
+    setResult(null);
+  }, [prompts]);
+
+  const attempt = async () => {
+    if (!prompt) return;
+    playClick();
+    setResult(null);
+    const transcripts = await listen();
+    if (!transcripts) return;
+
+    setIsScoring(true);
+    try {
+      const attemptResult = await scoreSpokenAttempt(
+        prompt,
+        transcripts,
+        resolveReading,
+      );
+      if (attemptResult.isCorrect) playCorrect();
+      else playErrorTwice();
+      setResult(attemptResult);
+      setScore(prev => ({
+        correct: prev.correct + (attemptResult.isCorrect ? 1 : 0),
+        total: prev.total + 1,
+      }));
+    } catch (scoreError) {
+      console.error('Failed to score the spoken attempt:', scoreError);
+    } finally {
+      setIsScoring(false);
+    }
+  };
+
+  const next = () => {
+    playClick();
+    stop();
+    setPrompt(pickSpeakingPrompt(prompts, prompt?.text));
+    setResult(null);
+  };
+
+  const optionClass = (isSelected: boolean) =>
+    clsx(
+      'rounded-xl border-2 px-4 py-2 transition-colors duration-200',
+      'hover:cursor-pointer',
+      isSelected
+        ? 'border-(--main-color) text-(--main-color)'
+        : 'border-(--border-color) text-(--secondary-color) hover:border-(--main-color)',
+    );
+
+  return (
+    <div className='flex flex-col gap-6'>
+      <div className='flex flex-col gap-2 rounded-2xl border-2 border-(--border-color) bg-(--card-color) p-4'>
+        <h1 className='text-2xl font-bold text-(--main-color)'>
+          Speaking Drill
+        </h1>
+        <p className='text-(--secondary-color)'>
+          Say the prompt out loud. What the browser hears is compared with the
+          reading mora by mora; {PASS_SCORE}% or more counts as correct.
+        </p>
+        {score.total > 0 && (
+          <p className='text-sm text-(--muted-color)'>
+            {score.correct} / {score.total} correct
+          </p>
+        )}
+      </div>
+
+      <div className='flex flex-wrap gap-2'>
+        {SPEAKING_PROMPT_KINDS.map(kind => (
+          <button
+            key={kind.id}
+            type='button'
+            onClick={() => {
+              playClick();
+              setPromptKind(kind.id);
+            }}
+            className={optionClass(promptKind === kind.id)}
+          >
+            {kind.label}
+            <span className='ml-2 text-xs text-(--muted-color)' lang='ja'>
+              {kind.description}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {promptKind === 'word' && (
+        <div className='flex flex-wrap gap-2'>
+          {SPEAKING_LEVELS.map(option => (
+            <button
+              key={option}
+              type='button'
+              onClick={() => {
+                playClick();
+                setLevel(option);
+              }}
+              className={optionClass(level === option)}
+            >
+              {option.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!isSupported && (
+        <p className='text-(--muted-color)'>
+          Speech recognition is not supported in your browser. Try Chrome, Edge
+          or Safari.
+        </p>
+      )}
+
+      {!isLoading && prompts.length === 0 && (
+        <p className='text-(--muted-color)'>Nothing to practice here yet.</p>
+      )}
+
+      {prompt && (
+        <div className='flex flex-col items-center gap-4'>
+          <div className='flex flex-col items-center gap-1 text-center'>
+            <p
+              lang='ja'
+              className={clsx(
+                'text-(--main-color)',
+                prompt.kind === 'sentence' ? 'text-3xl' : 'text-6xl',
+              )}
+            >
+              {prompt.text}
+            </p>
+            {prompt.meaning && (
+              <p className='text-(--secondary-color)'>{prompt.meaning}</p>
+            )}
+          </div>
+
+          <div className='flex flex-row items-center gap-4'>
+            <button
+              type='button'
+              onClick={isListening ? stop : attempt}
+              disabled={!isSupported || isScoring}
+              aria-label={isListening ? 'Stop listening' : 'Start speaking'}
+              className={clsx(
+                'flex h-20 w-20 items-center justify-center rounded-full',
+                'border-2 bg-(--card-color) transition-colors duration-200',
+                'hover:cursor-pointer disabled:cursor-not-allowed disabled:opacity-50',
+                isListening
+                  ? 'animate-pulse border-red-500 text-red-500'
+                  : 'border-(--border-color) text-(--main-color) hover:border-(--main-color)',
+              )}
+            >
+              {isListening ? <Square size={32} /> : <Mic size={36} />}
+            </button>
+            <button
+              type='button'
+              onClick={() => void speak(prompt.text)}
+              aria-label='Hear the prompt'
+              className={clsx(
+                'flex h-12 w-12 items-center justify-center rounded-full',
+                'border-2 border-(--border-color) text-(--secondary-color)',
+                'transition-colors duration-200',
+                'hover:cursor-pointer hover:border-(--main-color)',
+              )}
+            >
+              <Volume2 size={22} />
+            </button>
+          </div>
+
+          {isListening && <p className='text-(--muted-color)'>Listening…</p>}
+          {error && <p className='text-red-500'>{error}</p>}
+
+          {result && (
+            <div className='flex w-full flex-col items-center gap-3'>
+              <p
+                className={clsx(
+                  'text-2xl font-bold',
+                  result.isCorrect ? 'text-(--main-color)' : 'text-red-500',
+                )}
+              >
+                {result.score}%
+              </p>
+              <MoraDiffView diff={result.diff} />
+              <p className='text-sm text-(--secondary-color)'>
+                Heard: <span lang='ja'>{result.transcript || '(nothing)'}</span>
+                {result.heardReading &&
+                  result.heardReading !== result.transcript && (
+                    <span className='text-(--muted-color)' lang='ja'>
+                      {' '}
+                      ({result.heardReading})
+                    </span>
+                  )}
+              </p>
+            </div>
+          )}
+
+          <button
+            type='button'
+            onClick={next}
+            className={clsx(
+              'flex h-12 w-full flex-row items-center justify-center gap-2 px-6',
+              'bg-(--main-color) text-(--background-color)',
+              'rounded-2xl transition-colors duration-200',
+              'border-b-6 border-(--main-color-accent) shadow-sm',
+              'hover:cursor-pointer',
+            )}
+          >
+            {result ? 'Next' : 'Skip'}
+            <ArrowRight size={20} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
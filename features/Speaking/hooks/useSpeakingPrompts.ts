@@ -0,0 +1,69 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useKanaContent } from '@/features/Kana';
+import { getClozeQuestions } from '@/features/Cloze';
+import {
+  vocabDataService,
+  type VocabLevel,
+} from '@/features/Vocabulary/services/vocabDataService';
+import type { IWord } from '@/shared/types/interfaces';
+import type { SpeakingPromptKind } from '../types';
+import {
+  buildKanaPrompts,
+  buildSentencePrompts,
+  buildWordPrompts,
+} from '../lib/speakingPrompts';
+
+/**
+ * Prompts of the chosen kind. Kana and sentences are available at once;
+ * words of the chosen level are fetched (and cached by the vocab data
+ * service).
+ */
+export function useSpeakingPrompts(
+  kind: SpeakingPromptKind,
+  level: VocabLevel,
+) {
+  const { allGroups } = useKanaContent();
+  const [words, setWords] = useState<IWord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (kind !== 'word') {
+      setWords([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    vocabDataService
+      .getVocabByLevel(level)
+      .then(levelWords => {
+        if (!cancelled) setWords(levelWords);
+      })
+      .catch(error => {
+        console.error('Failed to load vocabulary for speaking:', error);
+        if (!cancelled) setWords([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, level]);
+
+  const prompts = useMemo(() => {
+    switch (kind) {
+      case 'kana':
+        return buildKanaPrompts(allGroups);
+      case 'word':
+        return buildWordPrompts(words);
+      case 'sentence':
+        return buildSentencePrompts(getClozeQuestions());
+    }
+  }, [allGroups, kind, words]);
+
+  return { prompts, isLoading };
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SpeechBackendError, type SpeechBackend } from '../lib/speechBackend';
+
+/**
+ * One listen at a time on a speech backend. `listen` resolves with the
+ * alternative transcripts, or null when nothing usable was heard (the
+ * reason is in `error`, except for a stop by the user).
+ */
+export function useSpeechAttempt(backend: SpeechBackend, lang = 'ja-JP') {
+  const [isSupported, setIsSupported] = useState(false);
+  const [isListening, setIsListening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Checked after mount; the server can't know
+  useEffect(() => {
+    setIsSupported(backend.isSupported());
+  }, [backend]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const listen = useCallback(async (): Promise<string[] | null> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setError(null);
+    setIsListening(true);
+    try {
+      return await backend.listen({ lang, signal: controller.signal });
+    } catch (listenError) {
+      if (
+        listenError instanceof SpeechBackendError &&
+        listenError.code === 'aborted'
+      ) {
+        return null;
+      }
+      setError(
+        listenError instanceof Error
+          ? listenError.message
+          : 'Speech recognition error.',
+      );
+      return null;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsListening(false);
+      }
+    }
+  }, [backend, lang]);
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return { isSupported, isListening, error, listen, stop };
+}
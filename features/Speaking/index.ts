@@ -0,0 +1,36 @@
+// ============================================================================
+// Speaking Feature - Public API
+// ============================================================================
+
+// Types
+export type {
+  SpeakingPromptKind,
+  SpeakingPrompt,
+  MoraDiff,
+  SpeakingResult,
+} from './types';
+
+// Speech backends & scoring
+export {
+  SpeechBackendError,
+  createWebSpeechBackend,
+  createCannedSpeechBackend,
+  type SpeechBackend,
+  type SpeechBackendErrorCode,
+} from './lib/speechBackend';
+export {
+  PASS_SCORE,
+  diffMorae,
+  scoreSpokenAttempt,
+  type ReadingResolver,
+} from './lib/speakingScore';
+
+// Components (page-level)
+export { default as SpeakingDrill } from './components/SpeakingDrill';
+
+// ============================================================================
+// PRIVATE - DO NOT IMPORT DIRECTLY
+// ============================================================================
+// - store/useSpeakingStore.ts (internal)
+// - hooks/useSpeakingPrompts.ts (internal)
+// - hooks/useSpeechAttempt.ts (internal)
@@ -0,0 +1,79 @@
+import type { IWord } from '@/shared/types/interfaces';
+import type { VocabLevel } from '@/features/Vocabulary/services/vocabDataService';
+import type { IClozeQuestion } from '@/features/Cloze';
+import type { SpeakingPrompt, SpeakingPromptKind } from '../types';
+
+export const SPEAKING_PROMPT_KINDS: {
+  id: SpeakingPromptKind;
+  label: string;
+  description: string;
+}[] = [
+  { id: 'kana', label: 'Kana', description: 'あ, きゃ, ファ' },
+  { id: 'word', label: 'Words', description: '学校, たべる' },
+  { id: 'sentence', label: 'Sentences', description: '私は学生です。' },
+];
+
+export const SPEAKING_LEVELS: VocabLevel[] = ['n5', 'n4', 'n3', 'n2', 'n1'];
+
+/**
+ * Every kana of the kana groups, hiragana and katakana
+ */
+export function buildKanaPrompts(
+  groups: { kana: string[]; groupName: string }[],
+): SpeakingPrompt[] {
+  return groups.flatMap(group =>
+    group.kana.map(character => ({
+      kind: 'kana' as const,
+      text: character,
+      reading: character,
+      meaning: '',
+    })),
+  );
+}
+
+export function buildWordPrompts(words: IWord[]): SpeakingPrompt[] {
+  return words
+    .filter(word => word.reading)
+    .map(word => ({
+      kind: 'word',
+      text: word.word,
+      reading: word.reading,
+      meaning: word.meanings[0] ?? '',
+    }));
+}
+
+/**
+ * Cloze sentences read whole. A sentence with several blanks appears once;
+ * its reading is left to the resolver.
+ */
+export function buildSentencePrompts(
+  questions: IClozeQuestion[],
+): SpeakingPrompt[] {
+  const seen = new Set<string>();
+  return questions.flatMap(question => {
+    if (seen.has(question.japaneseFull)) return [];
+    seen.add(question.japaneseFull);
+    return [
+      {
+        kind: 'sentence' as const,
+        text: question.japaneseFull,
+        meaning: question.englishFull,
+      },
+    ];
+  });
+}
+
+/**
+ * Pick a random prompt, avoiding the previous one when possible
+ */
+export function pickSpeakingPrompt(
+  prompts: SpeakingPrompt[],
+  previousText?: string,
+): SpeakingPrompt | null {
+  if (prompts.length === 0) return null;
+  const candidates =
+    prompts.length > 1
+      ? prompts.filter(prompt => prompt.text !== previousText)
+      : prompts;
+  return candidates[Math.floor(Math.random() * candidates.length)];
+}
@@ -0,0 +1,180 @@
+/**
+ * Speaking Score
+ *
+ * The recognizer writes what it heard the way Japanese is usually
+ * written, with kanji, katakana and punctuation. Both the transcript and
+ * the expected text are brought to hiragana in the form they are spoken
+ * (kanji through the tokenizer, particles は/へ/を as わ/え/お), split into
+ * morae and aligned, and the score is the share of the alignment that
+ * matched. Only the tokenizer tells particles apart, so sentences always
+ * go through it, whether they are written in kanji or kana.
+ */
+
+import { toHiragana } from 'wanakana';
+import { analyzeText, type AnalyzedToken } from '@/shared/lib/textAnalysis';
+import { splitMorae } from '@/shared/lib/pitchAccent';
+import type { MoraDiff, SpeakingPrompt, SpeakingResult } from '../types';
+
+/**
+ * Reads text that contains kanji, as hiragana
+ */
+export type ReadingResolver = (text: string) => Promise<string>;
+
+// Score from which an attempt counts as correct
+export const PASS_SCORE = 80;
+
+const KANJI_REGEX = /[一-龯々]/;
+const PUNCTUATION_REGEX = /[\s、。！？!?.,]/g;
+
+// Particles that are written with one kana and said with another
+const PARTICLE_SOUNDS: Record<string, string> = {
+  は: 'わ',
+  へ: 'え',
+  を: 'お',
+};
+
+/**
+ * Hiragana as spoken: katakana converted, long vowel marks kept as their
+ * own mora, and anything that isn't kana (punctuation, spaces) dropped
+ */
+export function normalizeSpokenKana(text: string): string {
+  return toHiragana(text.normalize('NFKC'), {
+    convertLongVowelMark: false,
+  }).replace(/[^ぁ-ゖー]/g, '');
+}
+
+/**
+ * Spoken reading of tokenized text
+ */
+export function tokensToSpokenReading(tokens: AnalyzedToken[]): string {
+  return tokens
+    .map(token =>
+      token.pos === 'Particle' && PARTICLE_SOUNDS[token.surface]
+        ? PARTICLE_SOUNDS[token.surface]
+        : token.reading || token.surface,
+    )
+    .join('');
+}
+
+/**
+ * Default resolver: the in-browser tokenizer
+ */
+export const resolveReadingWithTokenizer: ReadingResolver = async text =>
+  tokensToSpokenReading(await analyzeText(text));
+
+/**
+ * Spoken kana of any text, only asking the resolver when there is kanji or
+ * the text is a sentence, which may hold particles
+ */
+export async function toSpokenReading(
+  text: string,
+  resolveReading: ReadingResolver,
+  isSentence = false,
+): Promise<string> {
+  const kana =
+    isSentence || KANJI_REGEX.test(text) ? await resolveReading(text) : text;
+  return normalizeSpokenKana(kana);
+}
+
+/**
+ * Align heard morae with the expected ones by edit distance, preferring
+ * matches, then substitutions, over gaps
+ */
+export function diffMorae(expected: string[], heard: string[]): MoraDiff[] {
+  const rows = expected.length + 1;
+  const cols = heard.length + 1;
+  const cost: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const same = expected[i - 1] === heard[j - 1];
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + (same ? 0 : 1),
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1,
+      );
+    }
+  }
+
+  const diff: MoraDiff[] = [];
+  let i = expected.length;
+  let j = heard.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const same = expected[i - 1] === heard[j - 1];
+      if (cost[i][j] === cost[i - 1][j - 1] + (same ? 0 : 1)) {
+        diff.push({
+          type: same ? 'match' : 'substitute',
+          expected: expected[i - 1],
+          heard: heard[j - 1],
+        });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      diff.push({ type: 'missing', expected: expected[i - 1] });
+      i--;
+    } else {
+      diff.push({ type: 'extra', heard: heard[j - 1] });
+      j--;
+    }
+  }
+
+  return diff.reverse();
+}
+
+/**
+ * Share of the alignment that matched, 0-100
+ */
+export function scoreMoraDiff(diff: MoraDiff[]): number {
+  if (diff.length === 0) return 0;
+  const matches = diff.filter(step => step.type === 'match').length;
+  return Math.round((matches / diff.length) * 100);
+}
+
+/**
+ * Score a spoken attempt against a prompt, keeping the best of the
+ * recognizer's alternative transcripts
+ */
+export async function scoreSpokenAttempt(
+  prompt: SpeakingPrompt,
+  transcripts: string[],
+  resolveReading: ReadingResolver = resolveReadingWithTokenizer,
+): Promise<SpeakingResult> {
+  const isSentence = prompt.kind === 'sentence';
+  const expectedReading = await toSpokenReading(
+    prompt.reading ?? prompt.text,
+    resolveReading,
+    isSentence,
+  );
+  const expected = splitMorae(expectedReading);
+
+  let best: SpeakingResult | null = null;
+  for (const transcript of transcripts.length > 0 ? transcripts : ['']) {
+    // Written exactly as the prompt: no need to read it again
+    const heardReading =
+      transcript.replace(PUNCTUATION_REGEX, '') ===
+      prompt.text.replace(PUNCTUATION_REGEX, '')
+        ? expectedReading
+        : await toSpokenReading(transcript, resolveReading, isSentence);
+    const diff = diffMorae(expected, splitMorae(heardReading));
+    const score = scoreMoraDiff(diff);
+
+    if (!best || score > best.score) {
+      best = {
+        score,
+        isCorrect: score >= PASS_SCORE,
+        transcript,
+        heardReading,
+        expectedReading,
+        diff,
+      };
+    }
+  }
+
+  return best!;
+}
@@ -0,0 +1,124 @@
+/**
+ * Speech Backends
+ *
+ * A speech backend only turns one utterance into text; scoring happens in
+ * speakingScore. The drill takes the backend as a prop so tests (and
+ * browsers without the Web Speech API) can supply their own.
+ */
+
+import {
+  createSpeechRecognition,
+  getSpeechRecognition,
+  SPEECH_ERROR_MESSAGES,
+  toSpeechErrorCode,
+  type SpeechRecognitionErrorCode,
+} from '@/shared/lib/speechRecognition';
+
+export type SpeechBackendErrorCode = SpeechRecognitionErrorCode;
+
+export class SpeechBackendError extends Error {
+  readonly code: SpeechBackendErrorCode;
+
+  constructor(code: SpeechBackendErrorCode, message: string) {
+    super(message);
+    this.name = 'SpeechBackendError';
+    this.code = code;
+  }
+}
+
+export interface ListenOptions {
+  /** BCP 47 language of the utterance */
+  lang: string;
+  /** Stops listening; the pending listen rejects with `aborted` */
+  signal?: AbortSignal;
+}
+
+export interface SpeechBackend {
+  readonly name: string;
+  isSupported(): boolean;
+  /**
+   * Listens for one utterance and resolves with the recognizer's
+   * alternative transcripts, best first
+   */
+  listen(options: ListenOptions): Promise<string[]>;
+}
+
+const speechError = (code: SpeechBackendErrorCode) =>
+  new SpeechBackendError(code, SPEECH_ERROR_MESSAGES[code]);
+
+/**
+ * Browser speech recognition. Nothing touches `window` until used, so the
+ * backend can be created during server rendering.
+ */
+export function createWebSpeechBackend(maxAlternatives = 5): SpeechBackend {
+  return {
+    name: 'web-speech',
+    isSupported: () => !!getSpeechRecognition(),
+    listen({ lang, signal }) {
+      const recognition = createSpeechRecognition({ lang, maxAlternatives });
+      if (!recognition) return Promise.reject(speechError('unsupported'));
+      if (signal?.aborted) return Promise.reject(speechError('aborted'));
+
+      return new Promise((resolve, reject) => {
+        let settled = false;
+        const settle = (finish: () => void) => {
+          if (settled) return;
+          settled = true;
+          signal?.removeEventListener('abort', onAbort);
+          finish();
+        };
+        const onAbort = () => {
+          recognition.abort();
+          settle(() => reject(speechError('aborted')));
+        };
+
+        recognition.onresult = (event: SpeechRecognitionEvent) => {
+          const result = event.results[event.resultIndex];
+          const transcripts = Array.from(
+            { length: result.length },
+            (_, index) => result[index].transcript,
+          );
+          settle(() => resolve(transcripts));
+        };
+        recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+          settle(() => reject(speechError(toSpeechErrorCode(event.error))));
+        };
+        // Ended without a result or an error: nothing was heard
+        recognition.onend = () => {
+          settle(() => reject(speechError('no-speech')));
+        };
+
+        signal?.addEventListener('abort', onAbort);
+        try {
+          recognition.start();
+        } catch {
+          settle(() => reject(speechError('unknown')));
+        }
+      });
+    },
+  };
+}
+
+/**
+ * Backend that "hears" the given transcripts in order, one per listen. A
+ * transcript can be a list of alternatives. Once they run out every listen
+ * rejects with `no-speech`.
+ */
+export function createCannedSpeechBackend(
+  transcripts: (string | string[])[],
+): SpeechBackend {
+  const queue = [...transcripts];
+
+  return {
+    name: 'canned',
+    isSupported: () => true,
+    async listen({ signal }) {
+      if (signal?.aborted) throw speechError('aborted');
+      const next = queue.shift();
+      if (next === undefined) throw speechError('no-speech');
+      return Array.isArray(next) ? next : [next];
+    },
+  };
+}
+
+export const webSpeechBackend = createWebSpeechBackend();
@@ -0,0 +1,31 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { VocabLevel } from '@/features/Vocabulary/services/vocabDataService';
+import type { SpeakingPromptKind } from '../types';
+
+interface ISpeakingState {
+  promptKind: SpeakingPromptKind;
+  setPromptKind: (promptKind: SpeakingPromptKind) => void;
+
+  // JLPT level of the word prompts
+  level: VocabLevel;
+  setLevel: (level: VocabLevel) => void;
+}
+
+const useSpeakingStore = create<ISpeakingState>()(
+  persist(
+    set => ({
+      promptKind: 'kana',
+      setPromptKind: promptKind => set({ promptKind }),
+
+      level: 'n5',
+      setLevel: level => set({ level }),
+    }),
+    {
+      name: 'kanadojo-speaking',
+      version: 0,
+    },
+  ),
+);
+
+export default useSpeakingStore;
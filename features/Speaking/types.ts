@@ -0,0 +1,53 @@
+// ============================================================================
+// Speaking Feature Types
+// ============================================================================
+
+/**
+ * What the user is asked to say
+ */
+export type SpeakingPromptKind = 'kana' | 'word' | 'sentence';
+
+/**
+ * Something to read aloud
+ */
+export interface SpeakingPrompt {
+  kind: SpeakingPromptKind;
+  /** Text shown to the user (あ, 学校, 私は学生です) */
+  text: string;
+  /** Expected kana reading; resolved from the text when left out */
+  reading?: string;
+  /** Meaning shown under the prompt, empty for kana */
+  meaning: string;
+}
+
+/**
+ * One step of the alignment between the expected and the heard morae
+ * - match: said as expected
+ * - substitute: a different mora was heard in its place
+ * - missing: an expected mora was not heard
+ * - extra: a mora was heard that was not expected
+ */
+export type MoraDiffType = 'match' | 'substitute' | 'missing' | 'extra';
+
+export interface MoraDiff {
+  type: MoraDiffType;
+  /** Expected mora, absent for extra */
+  expected?: string;
+  /** Heard mora, absent for missing */
+  heard?: string;
+}
+
+/**
+ * Score of one spoken attempt, for the best of the recognizer's guesses
+ */
+export interface SpeakingResult {
+  /** 0-100, the share of the alignment that matched */
+  score: number;
+  isCorrect: boolean;
+  /** What the recognizer wrote, as is */
+  transcript: string;
+  /** The transcript as kana, the form it was compared in */
+  heardReading: string;
+  expectedReading: string;
+  diff: MoraDiff[];
+}
@@ -0,0 +1,444 @@
+'use client';
+
+import clsx from 'clsx';
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import {
+  Check,
+  Download,
+  Link2,
+  Pencil,
+  Plus,
+  Trash2,
+  Upload,
+  X,
+} from 'lucide-react';
+import { usePathname } from '@/core/i18n/routing';
+import { useClick } from '@/shared/hooks/useAudio';
+import { useKanjiSelection } from '@/features/Kanji';
+import { useVocabSelection } from '@/features/Vocabulary';
+import useCustomSetsStore, {
+  countStudySetItems,
+  type StudySet,
+  type StudySetContentType,
+} from '@/shared/store/useCustomSetsStore';
+import {
+  STUDY_SET_SHARE_PARAM,
+  createStudySetFile,
+  encodeStudySetLink,
+  getStudySetKeys,
+  groupStudySetKeys,
+  parseStudySetFile,
+  readStudySetLink,
+  resolveStudySetKeys,
+  type SharedStudySet,
+} from '@/shared/lib/studySets';
+
+const CONTENT_LABELS: Record<StudySetContentType, string> = {
+  kana: 'Kana',
+  kanji: 'Kanji',
+  vocabulary: 'Vocabulary',
+};
+
+const CONTENT_TYPES = Object.keys(CONTENT_LABELS) as StudySetContentType[];
+
+const inputClass =
+  'min-w-0 flex-1 rounded-xl border border-(--border-color) bg-(--background-color) px-3 py-2 text-(--main-color) outline-none';
+
+const iconButtonClass =
+  'rounded-lg p-2 text-(--secondary-color) transition-colors duration-250 hover:cursor-pointer hover:text-(--main-color)';
+
+const primaryButtonClass = clsx(
+  'flex flex-row items-center justify-center gap-2 rounded-xl px-4 py-2',
+  'bg-(--main-color) text-(--background-color) hover:cursor-pointer',
+);
+
+// Split typed entries on spaces, commas and Japanese list separators
+const splitEntries = (text: string) => text.split(/[\s,、・]+/);
+
+/**
+ * The Kanji and Vocabulary dojos select a study set by its name, so a set is
+ * deselected there, items included, before it is renamed or deleted
+ */
+function useDeselectStudySet() {
+  const kanjiSelection = useKanjiSelection();
+  const vocabSelection = useVocabSelection();
+
+  return (studySet: StudySet) => {
+    if (kanjiSelection.selectedSets.includes(studySet.name)) {
+      const chars = new Set(studySet.items.kanji.map(item => item.kanjiChar));
+      kanjiSelection.addKanjiList(
+        kanjiSelection.selectedKanji.filter(item => chars.has(item.kanjiChar)),
+      );
+      kanjiSelection.setSets(
+        kanjiSelection.selectedSets.filter(name => name !== studySet.name),
+      );
+    }
+    if (vocabSelection.selectedSets.includes(studySet.name)) {
+      const words = new Set(studySet.items.vocabulary.map(item => item.word));
+      vocabSelection.addVocabList(
+        vocabSelection.selectedVocab.filter(item => words.has(item.word)),
+      );
+      vocabSelection.setSets(
+        vocabSelection.selectedSets.filter(name => name !== studySet.name),
+      );
+    }
+  };
+}
+
+function StudySetCard({ studySet }: { studySet: StudySet }) {
+  const { playClick } = useClick();
+  const pathname = usePathname();
+  const deselectStudySet = useDeselectStudySet();
+  const renameStudySet = useCustomSetsStore(state => state.renameStudySet);
+  const addToStudySet = useCustomSetsStore(state => state.addToStudySet);
+  const removeFromStudySet = useCustomSetsStore(
+    state => state.removeFromStudySet,
+  );
+  const removeStudySet = useCustomSetsStore(state => state.removeStudySet);
+
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(studySet.name);
+  const [entries, setEntries] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+
+  const addEntries = async () => {
+    const keys = groupStudySetKeys(splitEntries(entries));
+    const { items, missing } = await resolveStudySetKeys(keys);
+    addToStudySet(studySet.id, items);
+    setEntries('');
+    setMessage(missing.length > 0 ? `Not found: ${missing.join(', ')}` : null);
+  };
+
+  const copyLink = async () => {
+    playClick();
+    const encoded = encodeStudySetLink(
+      studySet.name,
+      getStudySetKeys(studySet.items),
+    );
+    const url = `${window.location.origin}${pathname}?${STUDY_SET_SHARE_PARAM}=${encoded}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setMessage('Link copied');
+    } catch {
+      setMessage(url);
+    }
+  };
+
+  const exportFile = () => {
+    playClick();
+    const blob = new Blob(
+      [JSON.stringify(createStudySetFile(studySet), null, 2)],
+      { type: 'application/json' },
+    );
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${studySet.name}.kanadojo-set.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className='flex flex-col gap-4 rounded-2xl border-2 border-(--border-color) bg-(--card-color) p-4'>
+      <div className='flex flex-row items-center gap-2'>
+        {isRenaming ? (
+          <form
+            className='flex flex-1 flex-row gap-2'
+            onSubmit={e => {
+              e.preventDefault();
+              if (name.trim() && name.trim() !== studySet.name) {
+                deselectStudySet(studySet);
+              }
+              renameStudySet(studySet.id, name);
+              setIsRenaming(false);
+            }}
+          >
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              aria-label='Set name'
+              className={inputClass}
+              autoFocus
+            />
+            <button
+              type='submit'
+              aria-label='Save name'
+              className={iconButtonClass}
+            >
+              <Check size={20} />
+            </button>
+          </form>
+        ) : (
+          <>
+            <h2 className='flex-1 truncate text-2xl text-(--main-color)'>
+              {studySet.name}
+            </h2>
+            <span className='text-sm text-(--secondary-color)'>
+              {countStudySetItems(studySet.items)} items
+            </span>
+            <button
+              type='button'
+              aria-label={`Rename ${studySet.name}`}
+              className={iconButtonClass}
+              onClick={() => {
+                setName(studySet.name);
+                setIsRenaming(true);
+              }}
+            >
+              <Pencil size={20} />
+            </button>
+          </>
+        )}
+        <button
+          type='button'
+          aria-label={`Copy a share link for ${studySet.name}`}
+          className={iconButtonClass}
+          onClick={copyLink}
+        >
+          <Link2 size={20} />
+        </button>
+        <button
+          type='button'
+          aria-label={`Export ${studySet.name} as JSON`}
+          className={iconButtonClass}
+          onClick={exportFile}
+        >
+          <Download size={20} />
+        </button>
+        <button
+          type='button'
+          aria-label={`Delete ${studySet.name}`}
+          className={iconButtonClass}
+          onClick={() => {
+            playClick();
+            deselectStudySet(studySet);
+            removeStudySet(studySet.id);
+          }}
+        >
+          <Trash2 size={20} />
+        </button>
+      </div>
+
+      {CONTENT_TYPES.map(contentType => {
+        const keys = getStudySetKeys(studySet.items)[contentType];
+        if (keys.length === 0) return null;
+        return (
+          <div key={contentType} className='flex flex-col gap-2'>
+            <h3 className='text-sm tracking-wider text-(--secondary-color) uppercase'>
+              {CONTENT_LABELS[contentType]}
+            </h3>
+            <div className='flex flex-wrap gap-2' lang='ja'>
+              {keys.map(key => (
+                <span
+                  key={key}
+                  className='flex flex-row items-center gap-1 rounded-xl bg-(--background-color) py-1 pr-1 pl-3 text-xl text-(--main-color)'
+                >
+                  {key}
+                  <button
+                    type='button'
+                    aria-label={`Remove ${key}`}
+                    className='rounded-lg p-1 text-(--secondary-color) hover:cursor-pointer hover:text-(--main-color)'
+                    onClick={() =>
+                      removeFromStudySet(studySet.id, contentType, key)
+                    }
+                  >
+                    <X size={14} />
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      <form
+        className='flex flex-row gap-2'
+        onSubmit={e => {
+          e.preventDefault();
+          void addEntries();
+        }}
+      >
+        <input
+          value={entries}
+          onChange={e => setEntries(e.target.value)}
+          placeholder='Add kana, kanji or words: あ 日 学校'
+          aria-label={`Add entries to ${studySet.name}`}
+          className={inputClass}
+          lang='ja'
+        />
+        <button
+          type='submit'
+          aria-label='Add entries'
+          className={primaryButtonClass}
+        >
+          <Plus size={20} />
+        </button>
+      </form>
+
+      {message && (
+        <p className='text-sm break-all text-(--secondary-color)'>{message}</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The user's study sets: create, edit and share them, and import sets
+ * shared by link (`?share=`) or as a JSON file. Sets are selected in the
+ * Kana, Kanji and Vocabulary menus.
+ */
+export default function StudySetManager() {
+  const { playClick } = useClick();
+  const searchParams = useSearchParams();
+  const studySets = useCustomSetsStore(state => state.studySets);
+  const createStudySet = useCustomSetsStore(state => state.createStudySet);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const [newName, setNewName] = useState('');
+  const [pending, setPending] = useState<SharedStudySet | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  // Study sets live in localStorage, so only render them after hydration
+  const [isMounted, setIsMounted] = useState(false);
+
+  useEffect(() => {
+    setIsMounted(true);
+  }, []);
+
+  const shared = searchParams.get(STUDY_SET_SHARE_PARAM);
+  useEffect(() => {
+    if (!shared) return;
+    let cancelled = false;
+    readStudySetLink(shared)
+      .then(studySet => {
+        if (!cancelled) setPending(studySet);
+      })
+      .catch(() => {
+        if (!cancelled) setMessage('This share link is not a valid study set');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [shared]);
+
+  const onFilePicked = async (file: File) => {
+    try {
+      setPending(parseStudySetFile(JSON.parse(await file.text())));
+      setMessage(null);
+    } catch {
+      setMessage('Invalid file');
+    } finally {
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  };
+
+  const savePending = () => {
+    if (!pending) return;
+    playClick();
+    const saved = createStudySet(pending.name, pending.items);
+    setPending(null);
+    setMessage(`Saved "${saved.name}"`);
+  };
+
+  return (
+    <div className='flex flex-col gap-6'>
+      <div className='flex flex-col gap-2 rounded-2xl border-2 border-(--border-color) bg-(--card-color) p-4'>
+        <h1 className='text-2xl font-bold text-(--main-color)'>My Sets</h1>
+        <p className='text-(--secondary-color)'>
+          Build your own sets of kana, kanji and words. Each set shows up in the
+          Kana, Kanji and Vocabulary menus with the part that dojo practices.
+          Add items here, from the set dictionaries, or from the characters that
+          need practice on the progress page.
+        </p>
+      </div>
+
+      <div className='flex flex-col gap-2 sm:flex-row'>
+        <form
+          className='flex flex-1 flex-row gap-2'
+          onSubmit={e => {
+            e.preventDefault();
+            playClick();
+            createStudySet(newName);
+            setNewName('');
+          }}
+        >
+          <input
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            placeholder='New set name'
+            aria-label='New set name'
+            className={inputClass}
+          />
+          <button type='submit' className={primaryButtonClass}>
+            <Plus size={20} />
+            Create
+          </button>
+        </form>
+        <button
+          type='button'
+          className={clsx(
+            'flex flex-row items-center justify-center gap-2 rounded-xl px-4 py-2',
+            'border border-(--border-color) text-(--secondary-color)',
+            'hover:cursor-pointer hover:text-(--main-color)',
+          )}
+          onClick={() => fileRef.current?.click()}
+        >
+          <Upload size={20} />
+          Import JSON
+        </button>
+        <input
+          ref={fileRef}
+          type='file'
+          accept='application/json,.json'
+          className='hidden'
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) void onFilePicked(file);
+          }}
+        />
+      </div>
+
+      {message && <p className='text-(--secondary-color)'>{message}</p>}
+
+      {pending && (
+        <div className='flex flex-col gap-3 rounded-2xl border-2 border-(--main-color) bg-(--card-color) p-4'>
+          <p className='text-(--main-color)'>
+            Import &quot;{pending.name || 'Shared set'}&quot; with{' '}
+            {countStudySetItems(pending.items)} items?
+          </p>
+          {pending.missing.length > 0 && (
+            <p className='text-sm text-(--secondary-color)'>
+              {pending.missing.length} entries could not be found and will be
+              left out.
+            </p>
+          )}
+          <div className='flex flex-row gap-2'>
+            <button
+              type='button'
+              className={primaryButtonClass}
+              onClick={savePending}
+            >
+              Save set
+            </button>
+            <button
+              type='button'
+              className='rounded-xl px-4 py-2 text-(--secondary-color) hover:cursor-pointer hover:text-(--main-color)'
+              onClick={() => setPending(null)}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isMounted && studySets.length === 0 && !pending && (
+        <p className='text-(--muted-color)'>No sets yet.</p>
+      )}
+
+      {isMounted &&
+        studySets.map(studySet => (
+          <StudySetCard key={studySet.id} studySet={studySet} />
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+// ============================================================================
+// Study Sets Feature - Public API
+// ============================================================================
+// Sets themselves live in shared/store/useCustomSetsStore.ts and sharing in
+// shared/lib/studySets.ts, since every dojo menu reads them.
+
+// Components (page-level)
+export { default as StudySetManager } from './components/StudySetManager';
@@ -1,6 +1,12 @@
 'use client';
 
 import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  createSpeechRecognition,
+  getSpeechRecognition,
+  SPEECH_ERROR_MESSAGES,
+  toSpeechErrorCode,
+} from '@/shared/lib/speechRecognition';
 import type { Language } from '../types';
 
 interface UseVoiceInputOptions {
@@ -35,27 +41,19 @@ export function useVoiceInput({
 
   // Check if Web Speech API is supported
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const SpeechRecognition =
-        window.SpeechRecognition || window.webkitSpeechRecognition;
-      setIsSupported(!!SpeechRecognition);
-    }
+    setIsSupported(!!getSpeechRecognition());
   }, []);
 
   // Initialize speech recognition
   useEffect(() => {
-    if (!isSupported || typeof window === 'undefined') return;
-
-    const SpeechRecognition =
-      window.SpeechRecognition || window.webkitSpeechRecognition;
-
-    const recognition = new SpeechRecognition();
-    recognition.continuous = false;
-    recognition.interimResults = true;
-    recognition.maxAlternatives = 1;
+    if (!isSupported) return;
 
     // Set language based on source
-    recognition.lang = language === 'ja' ? 'ja-JP' : 'en-US';
+    const recognition = createSpeechRecognition({
+      lang: language === 'ja' ? 'ja-JP' : 'en-US',
+      interimResults: true,
+    });
+    if (!recognition) return;
 
     recognition.onstart = () => {
       setIsListening(true);
@@ -75,24 +73,8 @@ export function useVoiceInput({
     };
 
     recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
-      let errorMessage = 'Speech recognition error';
-
-      switch (event.error) {
-        case 'no-speech':
-          errorMessage = 'No speech detected. Please try again.';
-          break;
-        case 'audio-capture':
-          errorMessage = 'No microphone found. Please check your settings.';
-          break;
-        case 'not-allowed':
-          errorMessage = 'Microphone permission denied. Please allow access.';
-          break;
-        case 'network':
-          errorMessage = 'Network error. Please check your connection.';
-          break;
-        default:
-          errorMessage = `Speech recognition error: ${event.error}`;
-      }
+      const errorMessage =
+        SPEECH_ERROR_MESSAGES[toSpeechErrorCode(event.error)];
 
       setError(errorMessage);
       setIsListening(false);
@@ -129,7 +111,7 @@ export function useVoiceInput({
 
   const startListening = useCallback(() => {
     if (!isSupported) {
-      const msg = 'Speech recognition is not supported in your browser.';
+      const msg = SPEECH_ERROR_MESSAGES.unsupported;
       setError(msg);
       if (onError) onError(msg);
       return;
@@ -161,58 +143,3 @@ export function useVoiceInput({
     transcript,
   };
 }
-
-// Type declarations for Web Speech API
-declare global {
-  interface Window {
-    SpeechRecognition: typeof SpeechRecognition;
-    webkitSpeechRecognition: typeof SpeechRecognition;
-  }
-
-  interface SpeechRecognition extends EventTarget {
-    continuous: boolean;
-    interimResults: boolean;
-    lang: string;
-    maxAlternatives: number;
-    start(): void;
-    stop(): void;
-    abort(): void;
-    onerror: (event: SpeechRecognitionErrorEvent) => void;
-    onresult: (event: SpeechRecognitionEvent) => void;
-    onstart: () => void;
-    onend: () => void;
-  }
-
-  const SpeechRecognition: {
-    prototype: SpeechRecognition;
-    new (): SpeechRecognition;
-  };
-
-  interface SpeechRecognitionEvent extends Event {
-    resultIndex: number;
-    results: SpeechRecognitionResultList;
-  }
-
-  interface SpeechRecognitionResultList {
-    readonly length: number;
-    item(index: number): SpeechRecognitionResult;
-    [index: number]: SpeechRecognitionResult;
-  }
-
-  interface SpeechRecognitionResult {
-    readonly isFinal: boolean;
-    readonly length: number;
-    item(index: number): SpeechRecognitionAlternative;
-    [index: number]: SpeechRecognitionAlternative;
-  }
-
-  interface SpeechRecognitionAlternative {
-    readonly transcript: string;
-    readonly confidence: number;
-  }
-
-  interface SpeechRecognitionErrorEvent extends Event {
-    error: string;
-    message: string;
-  }
-}
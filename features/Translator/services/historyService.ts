@@ -63,6 +63,22 @@ export async function deleteEntry(id: string): Promise<TranslationEntry[]> {
   }
 }
 
+/**
+ * Replace the whole translation history, e.g. when restoring a backup
+ * @param entries The entries to store
+ * @returns Promise resolving when history is saved
+ */
+export async function replaceHistory(
+  entries: TranslationEntry[],
+): Promise<void> {
+  try {
+    await historyStore.setItem(STORAGE_KEY, entries);
+  } catch (error) {
+    console.error('Failed to replace translation history:', error);
+    throw error;
+  }
+}
+
 /**
  * Clear all translation history
  * @returns Promise resolving when history is cleared
@@ -5,10 +5,12 @@ import useVocabStore, {
   type IVocabObj,
 } from '@/features/Vocabulary/store/useVocabStore';
 import { useStatsStore } from '@/features/Progress';
+import { getVocabSimilarity } from '@/features/Vocabulary/lib/vocabSimilarity';
 import Blitz, { type BlitzConfig } from '@/shared/components/Blitz';
 import FuriganaText from '@/shared/components/text/FuriganaText';
 import { getSelectionLabels } from '@/shared/lib/selectionFormatting';
-import { shuffle, pickOne } from '@/shared/lib/shuffle';
+import { pickDistractors } from '@/shared/lib/distractors';
+import { pickOne } from '@/shared/lib/shuffle';
 
 export default function BlitzVocab() {
   const selectedVocabObjs = useVocabStore(state => state.selectedVocabObjs);
@@ -63,25 +65,22 @@ export default function BlitzVocab() {
     getCorrectAnswer: (question, isReverse) =>
       isReverse ? question.word : question.meanings[0],
     // Pick mode support with reverse mode
-    generateOptions: (question, items, count, isReverse) => {
-      if (isReverse) {
-        // Reverse: options are Japanese words
-        const correctAnswer = question.word;
-        const incorrectOptions = shuffle(
-          items.filter(item => item.word !== question.word),
-        )
-          .slice(0, count - 1)
-          .map(item => item.word);
-        return [correctAnswer, ...incorrectOptions];
-      }
-      // Normal: options are meanings
-      const correctAnswer = question.meanings[0];
-      const incorrectOptions = shuffle(
-        items.filter(item => item.word !== question.word),
-      )
-        .slice(0, count - 1)
-        .map(item => item.meanings[0]);
-      return [correctAnswer, ...incorrectOptions];
+    generateOptions: (question, items, count, isReverse, similarity) => {
+      // Options are words in reverse mode, meanings otherwise;
+      // distractors lean on shared readings and meanings
+      const getOption = (item: IVocabObj) =>
+        isReverse ? item.word : item.meanings[0];
+      return [
+        getOption(question),
+        ...pickDistractors(
+          question,
+          items,
+          count - 1,
+          getOption,
+          getVocabSimilarity,
+          similarity,
+        ),
+      ];
     },
     getCorrectOption: (question, isReverse) =>
       isReverse ? question.word : question.meanings[0],
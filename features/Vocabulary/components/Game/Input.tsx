@@ -13,11 +13,31 @@ import SSRAudioButton from '@/shared/components/audio/SSRAudioButton';
 import FuriganaText from '@/shared/components/text/FuriganaText';
 import { useCrazyModeTrigger } from '@/features/CrazyMode/hooks/useCrazyModeTrigger';
 import { getGlobalAdaptiveSelector } from '@/shared/lib/adaptiveSelection';
+import useReviewStore from '@/shared/store/useReviewStore';
 import { GameBottomBar } from '@/shared/components/Game/GameBottomBar';
 
 // Get the global adaptive selector for weighted character selection
 const adaptiveSelector = getGlobalAdaptiveSelector();
 
+// Selectable keys for the current mode, narrowed to words due for review
+const getDueSourceArray = (
+  wordObjs: IVocabObj[],
+  isReverse: boolean,
+  excludeWord?: string,
+) => {
+  const dueWords = new Set(
+    useReviewStore.getState().getDuePool(
+      'vocabulary',
+      wordObjs.map(obj => obj.word),
+      excludeWord,
+    ),
+  );
+  const dueObjs = wordObjs.filter(obj => dueWords.has(obj.word));
+  return isReverse
+    ? dueObjs.map(obj => obj.meanings[0])
+    : dueObjs.map(obj => obj.word);
+};
+
 // Bottom bar states
 type BottomBarState = 'check' | 'correct' | 'wrong';
 
@@ -34,6 +54,7 @@ const VocabInputGame = ({
 }: VocabInputGameProps) => {
   const { score, setScore } = useStatsDisplay();
   const gameStats = useGameStats();
+  const recordReview = useReviewStore(state => state.recordReview);
 
   const speedStopwatch = useStopwatch({ autoStart: false });
 
@@ -54,9 +75,7 @@ const VocabInputGame = ({
   // State management based on mode - uses weighted selection for adaptive learning
   const [correctChar, setCorrectChar] = useState(() => {
     if (selectedWordObjs.length === 0) return '';
-    const sourceArray = isReverse
-      ? selectedWordObjs.map(obj => obj.meanings[0])
-      : selectedWordObjs.map(obj => obj.word);
+    const sourceArray = getDueSourceArray(selectedWordObjs, isReverse);
     const selected = adaptiveSelector.selectWeightedCharacter(sourceArray);
     adaptiveSelector.markCharacterSeen(selected);
     return selected;
@@ -83,9 +102,14 @@ const VocabInputGame = ({
 
   // Generate new character - defined before useCallback that uses it
   const generateNewCharacter = useCallback(() => {
-    const sourceArray = isReverse
-      ? selectedWordObjs.map(obj => obj.meanings[0])
-      : selectedWordObjs.map(obj => obj.word);
+    const currentWord = isReverse
+      ? selectedWordObjs.find(obj => obj.meanings[0] === correctChar)?.word
+      : correctChar;
+    const sourceArray = getDueSourceArray(
+      selectedWordObjs,
+      isReverse,
+      currentWord,
+    );
 
     const newChar = adaptiveSelector.selectWeightedCharacter(
       sourceArray,
@@ -192,6 +216,12 @@ const VocabInputGame = ({
 
     triggerCrazyMode();
     adaptiveSelector.updateCharacterWeight(correctChar, true);
+    recordReview(
+      'vocabulary',
+      correctWordObj?.word ?? correctChar,
+      true,
+      answerTimeMs,
+    );
     setBottomBarState('correct');
     setDisplayAnswerSummary(true);
   };
@@ -216,6 +246,7 @@ const VocabInputGame = ({
     }
     triggerCrazyMode();
     adaptiveSelector.updateCharacterWeight(correctChar, false);
+    recordReview('vocabulary', correctWordObj?.word ?? correctChar, false);
     setBottomBarState('wrong');
   };
 
@@ -287,6 +318,7 @@ const VocabInputGame = ({
                       ? correctWordObj?.reading
                       : undefined
                   }
+                  pitchAccent={correctWordObj?.pitchAccent?.[0]}
                   className={clsx(textSize, 'text-center')}
                   lang={displayCharLang}
                 />
@@ -17,7 +17,12 @@ import SSRAudioButton from '@/shared/components/audio/SSRAudioButton';
 import FuriganaText from '@/shared/components/text/FuriganaText';
 import { useCrazyModeTrigger } from '@/features/CrazyMode/hooks/useCrazyModeTrigger';
 import { getGlobalAdaptiveSelector } from '@/shared/lib/adaptiveSelection';
+import useReviewStore from '@/shared/store/useReviewStore';
+import useMistakeStore from '@/shared/store/useMistakeStore';
 import { useSmartReverseMode } from '@/shared/hooks/useSmartReverseMode';
+import { useProgressiveDifficulty } from '@/shared/hooks/useProgressiveDifficulty';
+import { pickDistractors } from '@/shared/lib/distractors';
+import { getVocabSimilarity } from '@/features/Vocabulary/lib/vocabSimilarity';
 
 const random = new Random();
 
@@ -112,6 +117,13 @@ const VocabPickGame = ({ selectedWordObjs, isHidden }: VocabPickGameProps) => {
   const hasWords = !!selectedWordObjs && selectedWordObjs.length > 0;
   const { isReverse, decideNextMode, recordWrongAnswer } =
     useSmartReverseMode();
+  // The option count stays at three; only the lookalike share of the
+  // distractors rises with the level
+  const {
+    distractorSimilarity,
+    recordCorrect: recordDifficultyCorrect,
+    recordWrong: recordDifficultyWrong,
+  } = useProgressiveDifficulty();
   const {
     score,
     setScore,
@@ -140,6 +152,9 @@ const VocabPickGame = ({ selectedWordObjs, isHidden }: VocabPickGameProps) => {
     })),
   );
 
+  const recordReview = useReviewStore(state => state.recordReview);
+  const recordConfusion = useMistakeStore(state => state.recordConfusion);
+
   const speedStopwatch = useStopwatch({ autoStart: false });
 
   const { playCorrect } = useCorrect();
@@ -154,7 +169,10 @@ const VocabPickGame = ({ selectedWordObjs, isHidden }: VocabPickGameProps) => {
   const [correctChar, setCorrectChar] = useState(() => {
     if (!hasWords) return '';
     const sourceArray = selectedWordObjs.map(obj => obj.word);
-    const selected = adaptiveSelector.selectWeightedCharacter(sourceArray);
+    // Serve words due for spaced-repetition review first
+    const selected = adaptiveSelector.selectWeightedCharacter(
+      useReviewStore.getState().getDuePool('vocabulary', sourceArray),
+    );
     adaptiveSelector.markCharacterSeen(selected);
     return selected;
   });
@@ -185,21 +203,26 @@ const VocabPickGame = ({ selectedWordObjs, isHidden }: VocabPickGameProps) => {
 
   // Get incorrect options based on mode and quiz type
   const getIncorrectOptions = (): string[] => {
-    // Filter out the current word
-    const incorrectWordObjs = selectedWordObjs.filter(
-      obj => obj.word !== correctChar,
-    );
+    if (!correctWordObj) return [];
 
     if (quizType === 'meaning') {
-      return incorrectWordObjs
-        .map(obj => (isReverse ? obj.word : obj.meanings[0]))
-        .sort(() => random.real(0, 1) - 0.5)
-        .slice(0, 2);
+      return pickDistractors(
+        correctWordObj,
+        selectedWordObjs,
+        2,
+        obj => (isReverse ? obj.word : obj.meanings[0]),
+        getVocabSimilarity,
+        distractorSimilarity,
+      );
     } else if (quizType === 'reading') {
-      return incorrectWordObjs
-        .map(obj => obj.reading)
-        .sort(() => random.real(0, 1) - 0.5)
-        .slice(0, 2);
+      return pickDistractors(
+        correctWordObj,
+        selectedWordObjs,
+        2,
+        obj => obj.reading,
+        getVocabSimilarity,
+        distractorSimilarity,
+      );
     }
     return []; // Fallback in case quizType is neither 'meaning' nor 'reading'
   };
@@ -282,6 +305,7 @@ const VocabPickGame = ({ selectedWordObjs, isHidden }: VocabPickGameProps) => {
     recordAnswerTime(answerTimeMs);
     speedStopwatch.reset();
     playCorrect();
+    recordDifficultyCorrect();
     addCharacterToHistory(correctChar);
     incrementCharacterScore(correctChar, 'correct');
     incrementCorrectAnswers();
@@ -290,6 +314,8 @@ const VocabPickGame = ({ selectedWordObjs, isHidden }: VocabPickGameProps) => {
     triggerCrazyMode();
     // Update adaptive weight system - reduces probability of mastered words
     adaptiveSelector.updateCharacterWeight(correctChar, true);
+    // Reschedule the spaced-repetition review for this word
+    recordReview('vocabulary', correctChar, true, answerTimeMs);
     // Smart algorithm decides next mode based on performance
     decideNextMode();
     // Track vocabulary correct for achievements
@@ -301,6 +327,7 @@ const VocabPickGame = ({ selectedWordObjs, isHidden }: VocabPickGameProps) => {
   const handleWrongAnswer = (selectedOption: string) => {
     setWrongSelectedAnswers([...wrongSelectedAnswers, selectedOption]);
     playErrorTwice();
+    recordDifficultyWrong();
     incrementCharacterScore(correctChar, 'wrong');
     incrementWrongAnswers();
     if (score - 1 < 0) {
@@ -311,6 +338,21 @@ const VocabPickGame = ({ selectedWordObjs, isHidden }: VocabPickGameProps) => {
     triggerCrazyMode();
     // Update adaptive weight system - increases probability of difficult words
     adaptiveSelector.updateCharacterWeight(correctChar, false);
+    recordReview('vocabulary', correctChar, false);
+    // Note which word the picked option belongs to for the mistake notebook
+    const confusedObj =
+      quizType === 'reading'
+        ? selectedWordObjs.find(obj => obj.reading === selectedOption)
+        : isReverse
+          ? wordObjMap.get(selectedOption)
+          : selectedWordObjs.find(obj => obj.meanings[0] === selectedOption);
+    if (correctWordObj && confusedObj) {
+      recordConfusion(
+        'vocabulary',
+        { key: correctChar, answer: correctWordObj.meanings[0] },
+        { key: confusedObj.word, answer: confusedObj.meanings[0] },
+      );
+    }
     // Reset consecutive streak without changing mode (avoids rerolling the question)
     recordWrongAnswer();
     // Track wrong streak for achievements (Requirement 10.2)
@@ -323,7 +365,9 @@ const VocabPickGame = ({ selectedWordObjs, isHidden }: VocabPickGameProps) => {
 
     // Use weighted selection - prioritizes words user struggles with
     const newChar = adaptiveSelector.selectWeightedCharacter(
-      sourceArray,
+      useReviewStore
+        .getState()
+        .getDuePool('vocabulary', sourceArray, correctWordObj?.word),
       // Exclude current word to avoid repetition
       correctWordObj?.word,
     );
@@ -390,6 +434,7 @@ const VocabPickGame = ({ selectedWordObjs, isHidden }: VocabPickGameProps) => {
                     ? correctWordObj?.reading
                     : undefined
                 }
+                pitchAccent={correctWordObj?.pitchAccent?.[0]}
                 className={clsx(textSize, 'text-center')}
                 lang={displayCharLang}
               />
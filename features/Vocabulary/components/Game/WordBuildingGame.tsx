@@ -8,6 +8,7 @@ import useVocabStore, {
 import { Random } from 'random-js';
 import { useCorrect, useError, useClick } from '@/shared/hooks/useAudio';
 import { getGlobalAdaptiveSelector } from '@/shared/lib/adaptiveSelection';
+import useReviewStore from '@/shared/store/useReviewStore';
 import Stars from '@/shared/components/Game/Stars';
 import { useCrazyModeTrigger } from '@/features/CrazyMode/hooks/useCrazyModeTrigger';
 import { useStatsStore } from '@/features/Progress';
@@ -80,6 +81,8 @@ const VocabWordBuildingGame = ({
   const isGlassMode = useThemePreferences().isGlassMode;
 
   // Answer timing for speed achievements
+  const recordReview = useReviewStore(state => state.recordReview);
+
   const speedStopwatch = useStopwatch({ autoStart: false });
   const { playCorrect } = useCorrect();
   const { playErrorTwice } = useError();
@@ -143,9 +146,11 @@ const VocabWordBuildingGame = ({
         };
       }
 
-      // Select a word using adaptive selection
+      // Select a word using adaptive selection, serving due reviews first
       const words = selectedWordObjs.map(obj => obj.word);
-      const selectedWord = adaptiveSelector.selectWeightedCharacter(words);
+      const selectedWord = adaptiveSelector.selectWeightedCharacter(
+        useReviewStore.getState().getDuePool('vocabulary', words),
+      );
       adaptiveSelector.markCharacterSeen(selectedWord);
 
       const selectedWordObj = wordObjMap.get(selectedWord);
@@ -316,6 +321,7 @@ const VocabWordBuildingGame = ({
       addCharacterToHistory(questionData.word);
       incrementCharacterScore(questionData.word, 'correct');
       adaptiveSelector.updateCharacterWeight(questionData.word, true);
+      recordReview('vocabulary', questionData.word, true, answerTimeMs);
       incrementVocabularyCorrect();
 
       incrementCorrectAnswers();
@@ -356,6 +362,7 @@ const VocabWordBuildingGame = ({
 
       incrementCharacterScore(questionData.word, 'wrong');
       adaptiveSelector.updateCharacterWeight(questionData.word, false);
+      recordReview('vocabulary', questionData.word, false);
 
       if (score - 1 >= 0) {
         setScore(score - 1);
@@ -392,6 +399,7 @@ const VocabWordBuildingGame = ({
     recordReverseModeWrong,
     addCorrectAnswerTime,
     recordAnswerTime,
+    recordReview,
     isReverse,
     quizType,
   ]);
@@ -544,6 +552,7 @@ const VocabWordBuildingGame = ({
                           ? currentWordObj?.reading
                           : undefined
                       }
+                      pitchAccent={currentWordObj?.pitchAccent?.[0]}
                       className={clsx(
                         questionData.quizType === 'meaning' && isReverse
                           ? 'text-5xl sm:text-6xl'
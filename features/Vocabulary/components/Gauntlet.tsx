@@ -4,9 +4,11 @@ import React from 'react';
 import useVocabStore, {
   type IVocabObj,
 } from '@/features/Vocabulary/store/useVocabStore';
+import { getVocabSimilarity } from '@/features/Vocabulary/lib/vocabSimilarity';
 import Gauntlet, { type GauntletConfig } from '@/shared/components/Gauntlet';
 import { getSelectionLabels } from '@/shared/lib/selectionFormatting';
-import { shuffle, pickOne } from '@/shared/lib/shuffle';
+import { pickDistractors } from '@/shared/lib/distractors';
+import { pickOne } from '@/shared/lib/shuffle';
 import FuriganaText from '@/shared/components/text/FuriganaText';
 
 interface GauntletVocabProps {
@@ -53,38 +55,22 @@ const GauntletVocab: React.FC<GauntletVocabProps> = ({ onCancel }) => {
     getCorrectAnswer: (question, isReverse) =>
       isReverse ? question.word : question.meanings[0],
     // Pick mode support with reverse mode
-    generateOptions: (question, items, count, isReverse) => {
-      if (isReverse) {
-        // Reverse: options are Japanese words
-        const correctAnswer = question.word;
-        const seen = new Set([correctAnswer]);
-        const incorrectOptions = shuffle(
-          items.filter(item => item.word !== question.word),
-        )
-          .filter(item => {
-            if (seen.has(item.word)) return false;
-            seen.add(item.word);
-            return true;
-          })
-          .slice(0, count - 1)
-          .map(item => item.word);
-        return [correctAnswer, ...incorrectOptions];
-      }
-      // Normal: options are meanings
-      const correctAnswer = question.meanings[0];
-      const seen = new Set([correctAnswer]);
-      const incorrectOptions = shuffle(
-        items.filter(item => item.word !== question.word),
-      )
-        .filter(item => {
-          const meaning = item.meanings[0];
-          if (seen.has(meaning)) return false;
-          seen.add(meaning);
-          return true;
-        })
-        .slice(0, count - 1)
-        .map(item => item.meanings[0]);
-      return [correctAnswer, ...incorrectOptions];
+    generateOptions: (question, items, count, isReverse, similarity) => {
+      // Options are words in reverse mode, meanings otherwise;
+      // distractors lean on shared readings and meanings
+      const getOption = (item: IVocabObj) =>
+        isReverse ? item.word : item.meanings[0];
+      return [
+        getOption(question),
+        ...pickDistractors(
+          question,
+          items,
+          count - 1,
+          getOption,
+          getVocabSimilarity,
+          similarity,
+        ),
+      ];
     },
     getCorrectOption: (question, isReverse) =>
       isReverse ? question.word : question.meanings[0],
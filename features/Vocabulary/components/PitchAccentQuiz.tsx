@@ -0,0 +1,235 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import clsx from 'clsx';
+import { ArrowRight, Volume2 } from 'lucide-react';
+import { useClick, useCorrect, useError } from '@/shared/hooks/useAudio';
+import { useJapaneseTTS } from '@/shared/hooks/useJapaneseTTS';
+import { useAudioPreferences } from '@/features/Preferences';
+import PitchAccentText from '@/shared/components/text/PitchAccentText';
+import { pickOne } from '@/shared/lib/shuffle';
+import {
+  ACCENT_TYPE_LABELS,
+  getAccentChoices,
+  getAccentType,
+  splitMorae,
+} from '@/shared/lib/pitchAccent';
+import type { IWord } from '@/shared/types/interfaces';
+import { vocabDataService } from '../services/vocabDataService';
+import { useVocabSelection } from '../facade/useVocabSelection';
+
+type PitchWord = IWord & { pitchAccent: number[] };
+
+interface PitchQuestion {
+  word: PitchWord;
+  choices: number[];
+}
+
+const hasPitchAccent = (word: IWord): word is PitchWord =>
+  (word.pitchAccent?.length ?? 0) > 0;
+
+const makeQuestion = (
+  words: PitchWord[],
+  previous?: PitchWord,
+): PitchQuestion | null => {
+  const candidates =
+    words.length > 1 ? words.filter(word => word !== previous) : words;
+  const word = pickOne(candidates);
+  if (!word) return null;
+  return {
+    word,
+    choices: getAccentChoices(
+      splitMorae(word.reading).length,
+      word.pitchAccent,
+    ),
+  };
+};
+
+/**
+ * Listening quiz: a word is spoken and the user picks its accent pattern.
+ * Uses the selected vocabulary, or the N5 words when nothing is selected.
+ */
+export default function PitchAccentQuiz() {
+  const { playClick } = useClick();
+  const { playCorrect } = useCorrect();
+  const { playErrorTwice } = useError();
+  const { speak } = useJapaneseTTS();
+  const { pronunciationEnabled } = useAudioPreferences();
+  const { selectedVocab } = useVocabSelection();
+
+  const [levelWords, setLevelWords] = useState<PitchWord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [question, setQuestion] = useState<PitchQuestion | null>(null);
+  const [answer, setAnswer] = useState<number | null>(null);
+  const [score, setScore] = useState({ correct: 0, total: 0 });
+
+  const selectedWords = useMemo(
+    () => selectedVocab.filter(hasPitchAccent),
+    [selectedVocab],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    vocabDataService
+      .getVocabByLevel('n5')
+      .then(words => {
+        if (!cancelled) setLevelWords(words.filter(hasPitchAccent));
+      })
+      .catch(error => {
+        console.error('Failed to load vocab for the pitch quiz:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const words = selectedWords.length > 0 ? selectedWords : levelWords;
+
+  useEffect(() => {
+    if (words.length === 0) return;
+    setQuestion(makeQuestion(words));
+    setAnswer(null);
+  }, [words]);
+
+  const playWord = useCallback(() => {
+    if (question) void speak(question.word.word);
+  }, [question, speak]);
+
+  // Speak each new word once it is shown
+  useEffect(() => {
+    playWord();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [question]);
+
+  const choose = (accent: number) => {
+    if (!question || answer !== null) return;
+    const isCorrect = question.word.pitchAccent.includes(accent);
+    if (isCorrect) playCorrect();
+    else playErrorTwice();
+    setAnswer(accent);
+    setScore(prev => ({
+      correct: prev.correct + (isCorrect ? 1 : 0),
+      total: prev.total + 1,
+    }));
+  };
+
+  const next = () => {
+    playClick();
+    setQuestion(makeQuestion(words, question?.word));
+    setAnswer(null);
+  };
+
+  return (
+    <div className='flex flex-col gap-6'>
+      <div className='flex flex-col gap-2 rounded-2xl border-2 border-(--border-color) bg-(--card-color) p-4'>
+        <h1 className='text-2xl font-bold text-(--main-color)'>
+          Pitch Accent Quiz
+        </h1>
+        <p className='text-(--secondary-color)'>
+          Listen to the word and pick its pitch accent. A line over a kana means
+          it is high, and a tick marks where the pitch falls.
+        </p>
+        {score.total > 0 && (
+          <p className='text-sm text-(--muted-color)'>
+            {score.correct} / {score.total} correct
+          </p>
+        )}
+      </div>
+
+      {!pronunciationEnabled && (
+        <p className='text-(--muted-color)'>
+          Pronunciation is turned off. Enable it in the preferences to hear the
+          words.
+        </p>
+      )}
+
+      {!isLoading && words.length === 0 && (
+        <p className='text-(--muted-color)'>
+          Pitch accent data isn&apos;t available for the vocabulary yet.
+        </p>
+      )}
+
+      {question && (
+        <div className='flex flex-col items-center gap-4'>
+          <button
+            type='button'
+            onClick={playWord}
+            aria-label='Play the word again'
+            className={clsx(
+              'flex h-20 w-20 items-center justify-center rounded-full',
+              'border-2 border-(--border-color) bg-(--card-color)',
+              'text-(--main-color) transition-colors duration-200',
+              'hover:cursor-pointer hover:border-(--main-color)',
+            )}
+          >
+            <Volume2 size={36} />
+          </button>
+
+          <div className='grid w-full grid-cols-1 gap-3 sm:grid-cols-2'>
+            {question.choices.map(accent => {
+              const isAnswer = question.word.pitchAccent.includes(accent);
+              const moraCount = splitMorae(question.word.reading).length;
+              return (
+                <button
+                  key={accent}
+                  type='button'
+                  onClick={() => choose(accent)}
+                  disabled={answer !== null}
+                  className={clsx(
+                    'flex flex-col items-center gap-1 rounded-xl border-2 px-4 py-3',
+                    'transition-colors duration-200',
+                    answer === null
+                      ? 'border-(--border-color) text-(--secondary-color) hover:cursor-pointer hover:border-(--main-color)'
+                      : isAnswer
+                        ? 'border-(--main-color) text-(--main-color)'
+                        : answer === accent
+                          ? 'border-red-500 text-red-500'
+                          : 'border-(--border-color) text-(--muted-color)',
+                  )}
+                >
+                  <PitchAccentText
+                    reading={question.word.reading}
+                    accent={accent}
+                    className='text-2xl'
+                  />
+                  <span className='text-xs'>
+                    {ACCENT_TYPE_LABELS[getAccentType(moraCount, accent)]}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+
+          {answer !== null && (
+            <div className='flex w-full flex-col items-center gap-3'>
+              <p className='text-lg text-(--secondary-color)'>
+                <span className='text-(--main-color)' lang='ja'>
+                  {question.word.word}
+                </span>{' '}
+                · {question.word.meanings.join(', ')}
+              </p>
+              <button
+                type='button'
+                onClick={next}
+                className={clsx(
+                  'flex h-12 w-full flex-row items-center justify-center gap-2 px-6',
+                  'bg-(--main-color) text-(--background-color)',
+                  'rounded-2xl transition-colors duration-200',
+                  'border-b-6 border-(--main-color-accent) shadow-sm',
+                  'hover:cursor-pointer',
+                )}
+              >
+                Next
+                <ArrowRight size={20} />
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { IWord } from '@/shared/types/interfaces';
 import { cardBorderStyles } from '@/shared/lib/styles';
 import { useThemePreferences } from '@/features/Preferences';
 import FuriganaText from '@/shared/components/text/FuriganaText';
+import AddToStudySet from '@/shared/components/Menu/AddToStudySet';
 import { memo } from 'react';
 
 type SetDictionaryProps = {
@@ -65,6 +66,7 @@ const SetDictionary = memo(function SetDictionary({
                 {wordObj.meanings.join(', ')}
               </p>
             </div>
+            <AddToStudySet items={{ vocabulary: [wordObj] }} />
           </div>
         );
       })}
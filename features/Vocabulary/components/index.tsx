@@ -8,6 +8,7 @@ import {
   vocabDataService,
   VocabLevel,
 } from '@/features/Vocabulary/services/vocabDataService';
+import CustomSetCards from '@/shared/components/Menu/CustomSetCards';
 import LevelSetCards from '@/shared/components/Menu/LevelSetCards';
 import {
   N1VocabLength,
@@ -82,34 +83,42 @@ const VocabCards = () => {
   );
 
   return (
-    <LevelSetCards<VocabLevel, IWord>
-      levelOrder={levelOrder}
-      selectedUnitName={selectedVocabCollectionName as VocabLevel}
-      itemsPerSet={WORDS_PER_SET}
-      getCollectionName={getCollectionName}
-      getCollectionSize={getCollectionSize}
-      loadItemsByLevel={loadItemsByLevel}
-      selectedSets={selectedVocabSets}
-      setSelectedSets={setSelectedVocabSets}
-      clearSelected={() => {
-        clearVocabObjs();
-        clearVocabSets();
-      }}
-      toggleItems={items => addWordObjs(items)}
-      collapsedRows={collapsedRows}
-      setCollapsedRows={setCollapsedRows}
-      masteryByKey={allTimeStats.characterMastery}
-      getMasteryKey={item => item.word}
-      renderSetDictionary={items => <VocabSetDictionary words={items} />}
-      loadingText='Loading vocabulary sets...'
-      tipText={
-        <>
-          💡 <strong>Tip:</strong> Complete some practice sessions to unlock the
-          &apos;Hide Mastered Sets&apos; filter. Sets become mastered when you
-          achieve 90%+ accuracy with 10+ attempts per word.
-        </>
-      }
-    />
+    <>
+      <CustomSetCards
+        contentType='vocabulary'
+        selectedSets={selectedVocabSets}
+        setSelectedSets={setSelectedVocabSets}
+        toggleItems={items => addWordObjs(items)}
+      />
+      <LevelSetCards<VocabLevel, IWord>
+        levelOrder={levelOrder}
+        selectedUnitName={selectedVocabCollectionName as VocabLevel}
+        itemsPerSet={WORDS_PER_SET}
+        getCollectionName={getCollectionName}
+        getCollectionSize={getCollectionSize}
+        loadItemsByLevel={loadItemsByLevel}
+        selectedSets={selectedVocabSets}
+        setSelectedSets={setSelectedVocabSets}
+        clearSelected={() => {
+          clearVocabObjs();
+          clearVocabSets();
+        }}
+        toggleItems={items => addWordObjs(items)}
+        collapsedRows={collapsedRows}
+        setCollapsedRows={setCollapsedRows}
+        masteryByKey={allTimeStats.characterMastery}
+        getMasteryKey={item => item.word}
+        renderSetDictionary={items => <VocabSetDictionary words={items} />}
+        loadingText='Loading vocabulary sets...'
+        tipText={
+          <>
+            💡 <strong>Tip:</strong> Complete some practice sessions to unlock
+            the &apos;Hide Mastered Sets&apos; filter. Sets become mastered when
+            you achieve 90%+ accuracy with 10+ attempts per word.
+          </>
+        }
+      />
+    </>
   );
 };
 
@@ -0,0 +1,13 @@
+'use client';
+
+import useVocabStore from '../store/useVocabStore';
+
+type VocabStoreState = ReturnType<typeof useVocabStore.getState>;
+
+export const vocabBackup = {
+  getSelectionState: (): VocabStoreState => useVocabStore.getState(),
+  setSelectionState: (partial: Partial<VocabStoreState>) =>
+    useVocabStore.setState(partial),
+};
+
+export type { VocabStoreState };
@@ -4,5 +4,8 @@ export type {
   VocabSelectionActions,
 } from './useVocabSelection';
 
+export { vocabBackup } from './backup';
+export type { VocabStoreState } from './backup';
+
 // Re-export types for convenience
 export type { IVocabObj } from '../store/useVocabStore';
@@ -3,11 +3,12 @@
 // ============================================================================
 
 // Facades (PRIMARY API - Use these in new code)
-export { useVocabSelection } from './facade';
+export { useVocabSelection, vocabBackup } from './facade';
 export type {
   VocabSelection,
   VocabSelectionActions,
   IVocabObj,
+  VocabStoreState,
 } from './facade';
 
 // Components (page-level)
@@ -15,9 +16,11 @@ export { default as VocabularyGame } from './components/Game';
 export { default as VocabCards } from './components';
 export { default as VocabBlitz } from './components/Blitz';
 export { default as VocabGauntlet } from './components/Gauntlet';
+export { default as PitchAccentQuiz } from './components/PitchAccentQuiz';
 
 // ============================================================================
 // PRIVATE - DO NOT IMPORT DIRECTLY
 // ============================================================================
 // - store/useVocabStore.ts (use useVocabSelection facade instead)
 // - services/vocabDataService.ts (internal)
+// - lib/* (internal utilities)
@@ -0,0 +1,56 @@
+import type { IVocabObj } from '../store/useVocabStore';
+
+// Gloss words too common to link two meanings
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'at',
+  'be',
+  'by',
+  'for',
+  'in',
+  'of',
+  'on',
+  'one',
+  'or',
+  'someone',
+  'something',
+  'the',
+  'to',
+  'with',
+]);
+
+const KANJI_REGEX = /[㐀-䶿一-鿿々]/g;
+
+const toMeaningWords = (meanings: string[]) =>
+  new Set(
+    meanings
+      .flatMap(meaning => meaning.toLowerCase().split(/[^a-z]+/))
+      .filter(word => word.length > 1 && !STOP_WORDS.has(word)),
+  );
+
+function getOverlap(a: Set<string>, b: Set<string>): number {
+  const shared = [...a].filter(item => b.has(item)).length;
+  const total = new Set([...a, ...b]).size;
+  return total > 0 ? shared / total : 0;
+}
+
+/**
+ * How easily two words are mixed up, from 0 to 1: the same reading (橋 and
+ * 箸) is as close as it gets; otherwise the overlap of their meanings, or
+ * half the overlap of their kanji (学校 and 学生)
+ */
+export function getVocabSimilarity(a: IVocabObj, b: IVocabObj): number {
+  if (a.word === b.word) return 0;
+  if (a.reading === b.reading) return 1;
+  const meaningOverlap = getOverlap(
+    toMeaningWords(a.meanings),
+    toMeaningWords(b.meanings),
+  );
+  const kanjiOverlap = getOverlap(
+    new Set(a.word.match(KANJI_REGEX)),
+    new Set(b.word.match(KANJI_REGEX)),
+  );
+  return Math.max(meaningOverlap, 0.5 * kanjiOverlap);
+}
@@ -9,6 +9,8 @@ type RawVocabEntry = {
   kana: string;
   kanji: string;
   waller_definition: string;
+  // Added by scripts/generateConstants.ts where the accent list has the word
+  pitch_accent?: number[];
 };
 
 const toWordObj = (entry: RawVocabEntry): IWord => {
@@ -21,6 +23,7 @@ const toWordObj = (entry: RawVocabEntry): IWord => {
     word: entry.kanji?.trim() || entry.kana,
     reading: `${entry.kana}`.trim(),
     meanings: definitionPieces,
+    ...(entry.pitch_accent && { pitchAccent: entry.pitch_accent }),
   };
 };
 
@@ -4,6 +4,7 @@ export interface IVocabObj {
   word: string;
   reading: string;
   meanings: string[];
+  pitchAccent?: number[];
 }
 
 interface IFormState {
@@ -0,0 +1,190 @@
+/**
+ * Property-Based Tests for Stroke Grading
+ *
+ * **Feature: writing-dojo**
+ * KanjiVG paths are sampled in stroke order, and drawing the reference
+ * strokes (however shakily) is graded correct, while reversed, swapped,
+ * missing or misplaced strokes are reported as the matching mistake.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  getStrokeFileName,
+  loadCharacterStrokes,
+  parseStrokeSvg,
+  sampleSvgPath,
+} from '../lib/strokeData';
+import { gradeStrokes, resampleStroke } from '../lib/strokeGrading';
+import type { StrokePoint } from '../types';
+
+// 十 from KanjiVG, with the strokes listed out of order
+const JUU_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="109" height="109" viewBox="0 0 109 109">
+<g id="kvg:StrokePaths_05341" style="fill:none;stroke:#000000;stroke-width:3;">
+<g id="kvg:05341" kvg:element="十">
+  <path id="kvg:05341-s2" kvg:type="㇑" d="M52.77,16.63c1.05,1.05,1.44,3.12,1.44,4.97c0,14.29,0.04,66.15,0.04,77.27"/>
+  <path id="kvg:05341-s1" kvg:type="㇐" d="M17.25,55.35c3.13,0.65,7.96,0.84,11.34,0.65c21.41-1.12,40.21-3.92,59.99-4.06c3.39-0.02,6.89,0.04,10.41,0.71"/>
+</g>
+</g>
+</svg>`;
+
+// 三: three horizontal strokes, top to bottom
+const SAN_STROKES = [
+  { path: 'M30,25L80,25', points: sampleSvgPath('M30,25L80,25') },
+  { path: 'M35,55L75,55', points: sampleSvgPath('M35,55L75,55') },
+  { path: 'M15,88L95,88', points: sampleSvgPath('M15,88L95,88') },
+];
+
+const JUU_STROKES = parseStrokeSvg(JUU_SVG);
+
+const jitterArb = fc.double({ min: -2, max: 2, noNaN: true });
+
+// Redraw a stroke with a little wobble on every point
+const wobble = (points: StrokePoint[], offsets: number[]) =>
+  points.map((point, index) => ({
+    x: point.x + offsets[index % offsets.length],
+    y: point.y - offsets[(index + 1) % offsets.length],
+  }));
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('stroke data', () => {
+  it('samples lines and curves from their first to their last point', () => {
+    const line = sampleSvgPath('M10,10L20,10l0,5');
+    expect(line[0]).toEqual({ x: 10, y: 10 });
+    expect(line[line.length - 1]).toEqual({ x: 20, y: 15 });
+
+    const curve = sampleSvgPath('M0,0c0,10,10,10,10,0s10,-10,10,0');
+    expect(curve[curve.length - 1].x).toBeCloseTo(20);
+    expect(curve[curve.length - 1].y).toBeCloseTo(0);
+  });
+
+  it('parses KanjiVG strokes in stroke order', () => {
+    expect(JUU_STROKES).toHaveLength(2);
+    // The horizontal stroke comes first
+    const [first, second] = JUU_STROKES;
+    expect(first.points[0]).toEqual({ x: 17.25, y: 55.35 });
+    expect(second.points[0]).toEqual({ x: 52.77, y: 16.63 });
+    expect(getStrokeFileName('十')).toBe('05341.svg');
+    expect(getStrokeFileName('あ')).toBe('03042.svg');
+  });
+
+  it('caches stroke data and retries after a failed request', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: false } as Response)
+      .mockResolvedValue({
+        ok: true,
+        text: async () => JUU_SVG,
+      } as Response);
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(loadCharacterStrokes('十')).rejects.toThrow(
+      'No stroke data for 十',
+    );
+    const loaded = await loadCharacterStrokes('十');
+    expect(loaded.strokes).toHaveLength(2);
+    await loadCharacterStrokes('十');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops at malformed path data instead of reading on forever', () => {
+    const tokenArb = fc.oneof(
+      fc.constantFrom(...'MmLlHhVvCcSsQqTtZzA'),
+      fc.integer({ min: -100, max: 100 }).map(String),
+    );
+    fc.assert(
+      fc.property(fc.array(tokenArb, { maxLength: 20 }), tokens => {
+        const d = `M0 0Z${tokens.join(' ')}`;
+        const points = sampleSvgPath(d);
+        // The move and close, then at most one sampled segment per token
+        expect(points.length).toBeLessThanOrEqual(2 + tokens.length * 8);
+      }),
+    );
+    expect(sampleSvgPath('M0 0Z5 5')).toEqual([
+      { x: 0, y: 0 },
+      { x: 0, y: 0 },
+    ]);
+  });
+
+  it('resamples any stroke to evenly spaced points', () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.record({
+            x: fc.double({ min: 0, max: 109, noNaN: true }),
+            y: fc.double({ min: 0, max: 109, noNaN: true }),
+          }),
+          { minLength: 1, maxLength: 20 },
+        ),
+        fc.integer({ min: 2, max: 32 }),
+        (points, count) => {
+          const resampled = resampleStroke(points, count);
+          expect(resampled).toHaveLength(count);
+          expect(resampled[0]).toEqual(points[0]);
+        },
+      ),
+    );
+  });
+});
+
+describe('gradeStrokes', () => {
+  it('accepts the reference strokes drawn with a little wobble', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(JUU_STROKES, SAN_STROKES),
+        fc.array(jitterArb, { minLength: 1, maxLength: 8 }),
+        (reference, offsets) => {
+          const drawn = reference.map(stroke => wobble(stroke.points, offsets));
+          const grade = gradeStrokes(drawn, reference);
+          expect(grade.isCorrect).toBe(true);
+          expect(grade.strokes.map(stroke => stroke.matchedIndex)).toEqual(
+            reference.map((_, index) => index),
+          );
+        },
+      ),
+    );
+  });
+
+  it('reports a stroke drawn backwards as a direction mistake', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 2 }), reversedIndex => {
+        const drawn = SAN_STROKES.map((stroke, index) =>
+          index === reversedIndex
+            ? [...stroke.points].reverse()
+            : stroke.points,
+        );
+        const grade = gradeStrokes(drawn, SAN_STROKES);
+        expect(grade.mistakes).toEqual(['direction']);
+        expect(grade.strokes[reversedIndex].reversed).toBe(true);
+      }),
+    );
+  });
+
+  it('reports swapped strokes as an order mistake', () => {
+    const drawn = [JUU_STROKES[1].points, JUU_STROKES[0].points];
+    const grade = gradeStrokes(drawn, JUU_STROKES);
+    expect(grade.mistakes).toEqual(['order']);
+    expect(grade.strokes.map(stroke => stroke.matchedIndex)).toEqual([1, 0]);
+  });
+
+  it('reports a missing stroke only as a count mistake', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 2 }), missingIndex => {
+        const drawn = SAN_STROKES.filter(
+          (_, index) => index !== missingIndex,
+        ).map(stroke => stroke.points);
+        expect(gradeStrokes(drawn, SAN_STROKES).mistakes).toEqual(['count']);
+      }),
+    );
+  });
+
+  it('reports a stroke far from every reference stroke as a shape mistake', () => {
+    const drawn = [JUU_STROKES[0].points, sampleSvgPath('M5,5L5,30')];
+    const grade = gradeStrokes(drawn, JUU_STROKES);
+    expect(grade.mistakes).toEqual(['shape']);
+    expect(grade.strokes[1].matchedIndex).toBeNull();
+  });
+});
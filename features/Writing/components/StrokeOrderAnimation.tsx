@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import clsx from 'clsx';
+import { motion } from 'framer-motion';
+import { RotateCcw } from 'lucide-react';
+import type { ReferenceStroke } from '../types';
+import { STROKE_BOX_SIZE } from '../lib/strokeData';
+
+// Seconds to draw each stroke
+const STROKE_DURATION = 0.5;
+const STROKE_GAP = 0.15;
+
+interface StrokeOrderAnimationProps {
+  strokes: ReferenceStroke[];
+  className?: string;
+}
+
+/**
+ * Draws a character's reference strokes one after another, numbering
+ * each at its starting point.
+ */
+const StrokeOrderAnimation = ({
+  strokes,
+  className,
+}: StrokeOrderAnimationProps) => {
+  const [playCount, setPlayCount] = useState(0);
+
+  return (
+    <div className={clsx('relative aspect-square', className)}>
+      <svg
+        key={playCount}
+        viewBox={`0 0 ${STROKE_BOX_SIZE} ${STROKE_BOX_SIZE}`}
+        className='h-full w-full rounded-2xl border-2 border-(--border-color) bg-(--card-color)'
+        aria-label='Stroke order'
+        role='img'
+      >
+        {strokes.map((stroke, index) => (
+          <motion.path
+            key={index}
+            d={stroke.path}
+            fill='none'
+            stroke='var(--main-color)'
+            strokeWidth={4}
+            strokeLinecap='round'
+            strokeLinejoin='round'
+            initial={{ pathLength: 0 }}
+            animate={{ pathLength: 1 }}
+            transition={{
+              duration: STROKE_DURATION,
+              delay: index * (STROKE_DURATION + STROKE_GAP),
+              ease: 'easeInOut',
+            }}
+          />
+        ))}
+        {strokes.map((stroke, index) => (
+          <motion.text
+            key={index}
+            x={stroke.points[0].x - 4}
+            y={stroke.points[0].y - 3}
+            fontSize={8}
+            fill='var(--secondary-color)'
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: index * (STROKE_DURATION + STROKE_GAP) }}
+          >
+            {index + 1}
+          </motion.text>
+        ))}
+      </svg>
+      <button
+        type='button'
+        onClick={() => setPlayCount(count => count + 1)}
+        className='absolute right-2 bottom-2 rounded-full p-1 text-(--secondary-color) hover:cursor-pointer hover:text-(--main-color)'
+        aria-label='Replay stroke order'
+      >
+        <RotateCcw size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default StrokeOrderAnimation;
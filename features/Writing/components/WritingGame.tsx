@@ -0,0 +1,335 @@
+'use client';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import clsx from 'clsx';
+import { motion } from 'framer-motion';
+import { Eraser, Undo2 } from 'lucide-react';
+import { useStopwatch } from 'react-timer-hook';
+import { useShallow } from 'zustand/react/shallow';
+import { useClick, useCorrect, useError } from '@/shared/hooks/useAudio';
+import Return from '@/shared/components/Game/ReturnFromGame';
+import Stats from '@/shared/components/Game/Stats';
+import Stars from '@/shared/components/Game/Stars';
+import { GameBottomBar } from '@/shared/components/Game/GameBottomBar';
+import {
+  statsTracking,
+  useGameStats,
+  useStatsDisplay,
+  useStatsStore,
+} from '@/features/Progress';
+import useWritingStore from '../store/useWritingStore';
+import { useWritingItems } from '../hooks/useWritingItems';
+import { pickWritingItem } from '../lib/writingSets';
+import { loadCharacterStrokes } from '../lib/strokeData';
+import { gradeStrokes, STROKE_MISTAKE_LABELS } from '../lib/strokeGrading';
+import type {
+  CharacterStrokes,
+  StrokePoint,
+  WritingGrade,
+  WritingItem,
+} from '../types';
+import WritingPad from './WritingPad';
+import StrokeOrderAnimation from './StrokeOrderAnimation';
+
+// Bottom bar states
+type BottomBarState = 'check' | 'correct' | 'wrong';
+
+/**
+ * Writing dojo: draw the asked character stroke by stroke. Strokes are
+ * graded for count, order and direction against the KanjiVG reference,
+ * and the correct stroke order is animated after a mistake. Only the
+ * first attempt at a character counts towards writing stats.
+ */
+const WritingGame = () => {
+  const {
+    showStats,
+    resetStats,
+    recordDojoUsed,
+    recordModeUsed,
+    recordChallengeModeUsed,
+  } = useStatsStore(
+    useShallow(state => ({
+      showStats: state.showStats,
+      resetStats: state.resetStats,
+      recordDojoUsed: state.recordDojoUsed,
+      recordModeUsed: state.recordModeUsed,
+      recordChallengeModeUsed: state.recordChallengeModeUsed,
+    })),
+  );
+  const { score, setScore } = useStatsDisplay();
+  const gameStats = useGameStats();
+  const speedStopwatch = useStopwatch({ autoStart: false });
+
+  const { playClick } = useClick();
+  const { playCorrect } = useCorrect();
+  const { playErrorTwice } = useError();
+
+  const selectedSetIds = useWritingStore(state => state.selectedSetIds);
+  const showGuide = useWritingStore(state => state.showGuide);
+  const { items, isLoading } = useWritingItems(selectedSetIds);
+
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  const [item, setItem] = useState<WritingItem | null>(null);
+  const [reference, setReference] = useState<CharacterStrokes | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [drawnStrokes, setDrawnStrokes] = useState<StrokePoint[][]>([]);
+  const [grade, setGrade] = useState<WritingGrade | null>(null);
+  const [hasAnswered, setHasAnswered] = useState(false);
+  const [bottomBarState, setBottomBarState] = useState<BottomBarState>('check');
+
+  useEffect(() => {
+    resetStats();
+    // Track dojo and mode usage for achievements
+    recordDojoUsed('writing');
+    recordModeUsed('write');
+    recordChallengeModeUsed('classic');
+    speedStopwatch.start();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Pick the first character once the selected sets are loaded
+  useEffect(() => {
+    if (!item && items.length > 0) setItem(pickWritingItem(items));
+  }, [item, items]);
+
+  useEffect(() => {
+    if (!item) return;
+    let cancelled = false;
+    setReference(null);
+    setLoadError(false);
+    loadCharacterStrokes(item.character)
+      .then(strokes => {
+        if (!cancelled) setReference(strokes);
+      })
+      .catch(error => {
+        console.error('Failed to load stroke data:', error);
+        if (!cancelled) setLoadError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [item]);
+
+  const handleContinue = useCallback(() => {
+    playClick();
+    setDrawnStrokes([]);
+    setGrade(null);
+    setHasAnswered(false);
+    setItem(current => pickWritingItem(items, current?.character));
+    setBottomBarState('check');
+    speedStopwatch.reset();
+    speedStopwatch.start();
+  }, [playClick, items, speedStopwatch]);
+
+  const handleRetry = () => {
+    playClick();
+    setDrawnStrokes([]);
+    setGrade(null);
+    setBottomBarState('check');
+  };
+
+  // Enter/Space moves on once the answer is correct
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const isContinueKey =
+        event.key === 'Enter' || event.code === 'Space' || event.key === ' ';
+      if (isContinueKey && bottomBarState === 'correct') {
+        event.preventDefault();
+        buttonRef.current?.click();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bottomBarState]);
+
+  useEffect(() => {
+    if (showStats) speedStopwatch.pause();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showStats]);
+
+  if (!item) {
+    return isLoading || items.length > 0 ? null : (
+      <p className='p-8 text-center text-(--secondary-color)'>
+        Pick at least one character set to practice.
+      </p>
+    );
+  }
+
+  const recordFirstAttempt = (result: WritingGrade) => {
+    if (hasAnswered) return;
+    setHasAnswered(true);
+    statsTracking.recordWritingAnswer({
+      character: item.character,
+      isCorrect: result.isCorrect,
+      mistakes: result.mistakes,
+    });
+  };
+
+  const handleCheck = () => {
+    if (!reference || drawnStrokes.length === 0) return;
+    playClick();
+
+    const result = gradeStrokes(drawnStrokes, reference.strokes);
+    setGrade(result);
+    recordFirstAttempt(result);
+
+    if (result.isCorrect) {
+      speedStopwatch.pause();
+      const answerTimeMs = speedStopwatch.totalMilliseconds;
+      speedStopwatch.reset();
+
+      playCorrect();
+      gameStats.recordCorrect('writing', item.character, {
+        gameMode: 'write',
+        timeTaken: answerTimeMs,
+      });
+      setScore(score + 1);
+      setBottomBarState('correct');
+    } else {
+      playErrorTwice();
+      gameStats.recordIncorrect(
+        'writing',
+        item.character,
+        result.mistakes.join(', '),
+        item.character,
+        { gameMode: 'write' },
+      );
+      setScore(Math.max(0, score - 1));
+      setBottomBarState('wrong');
+    }
+  };
+
+  const isGraded = bottomBarState !== 'check';
+  const canCheck = !!reference && drawnStrokes.length > 0 && !isGraded;
+  const feedback =
+    bottomBarState === 'wrong' && grade
+      ? grade.mistakes
+          .map(mistake => STROKE_MISTAKE_LABELS[mistake])
+          .join(' · ')
+      : item.character;
+
+  return (
+    <div className='flex min-h-[100dvh] max-w-[100dvw] flex-col items-center gap-4 px-4 md:gap-6'>
+      {showStats && <Stats />}
+      <Return isHidden={showStats} href='/writing' gameMode='Write' />
+      <div
+        className={clsx(
+          'flex w-full flex-col items-center gap-6 sm:w-4/5',
+          showStats ? 'hidden' : '',
+        )}
+      >
+        <motion.div
+          initial={{ opacity: 0, y: -30, scale: 0.95 }}
+          animate={{ opacity: 1, y: 0, scale: 1 }}
+          transition={{
+            type: 'spring',
+            stiffness: 150,
+            damping: 20,
+            mass: 1,
+            duration: 0.5,
+          }}
+          key={item.character}
+          className='flex flex-col items-center gap-1'
+        >
+          <span className='text-4xl text-(--main-color) md:text-5xl'>
+            {item.prompt}
+          </span>
+          {item.readings.length > 0 && (
+            <span className='text-lg text-(--secondary-color)' lang='ja'>
+              {item.readings.join('、')}
+            </span>
+          )}
+          {reference && (
+            <span className='text-sm text-(--muted-color)'>
+              {reference.strokes.length} strokes
+            </span>
+          )}
+        </motion.div>
+
+        {loadError ? (
+          <div className='flex flex-col items-center gap-3'>
+            <p className='text-(--secondary-color)'>
+              Stroke data for {item.character} could not be loaded.
+            </p>
+            <button
+              type='button'
+              onClick={handleContinue}
+              className='text-(--main-color) hover:cursor-pointer hover:underline'
+            >
+              Skip
+            </button>
+          </div>
+        ) : (
+          <div className='flex flex-col items-center gap-4 sm:flex-row sm:items-start'>
+            <div className='flex flex-col items-center gap-2'>
+              <WritingPad
+                strokes={drawnStrokes}
+                onStrokeEnd={stroke =>
+                  setDrawnStrokes(current => [...current, stroke])
+                }
+                disabled={!reference || isGraded}
+                guideCharacter={showGuide ? item.character : undefined}
+                grade={isGraded ? grade : null}
+                className='w-64 md:w-72'
+              />
+              <div className='flex flex-row gap-4'>
+                <button
+                  type='button'
+                  disabled={isGraded || drawnStrokes.length === 0}
+                  onClick={() => {
+                    playClick();
+                    setDrawnStrokes(current => current.slice(0, -1));
+                  }}
+                  className='flex flex-row items-center gap-1 text-(--secondary-color) hover:cursor-pointer hover:text-(--main-color) disabled:opacity-40'
+                >
+                  <Undo2 size={18} />
+                  Undo
+                </button>
+                <button
+                  type='button'
+                  disabled={isGraded || drawnStrokes.length === 0}
+                  onClick={() => {
+                    playClick();
+                    setDrawnStrokes([]);
+                  }}
+                  className='flex flex-row items-center gap-1 text-(--secondary-color) hover:cursor-pointer hover:text-(--main-color) disabled:opacity-40'
+                >
+                  <Eraser size={18} />
+                  Clear
+                </button>
+              </div>
+            </div>
+            {bottomBarState === 'wrong' && reference && (
+              <StrokeOrderAnimation
+                strokes={reference.strokes}
+                className='w-64 md:w-72'
+              />
+            )}
+          </div>
+        )}
+
+        <Stars />
+
+        <GameBottomBar
+          state={bottomBarState}
+          onAction={
+            bottomBarState === 'correct'
+              ? handleContinue
+              : bottomBarState === 'wrong'
+                ? handleRetry
+                : handleCheck
+          }
+          canCheck={canCheck}
+          feedbackTitle={bottomBarState === 'wrong' ? 'Not quite:' : undefined}
+          feedbackContent={feedback}
+          buttonRef={buttonRef}
+        />
+
+        <div className='h-32' />
+      </div>
+    </div>
+  );
+};
+
+export default WritingGame;
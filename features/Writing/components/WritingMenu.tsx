@@ -0,0 +1,172 @@
+'use client';
+
+import { useMemo } from 'react';
+import clsx from 'clsx';
+import { Play } from 'lucide-react';
+import { Link } from '@/core/i18n/routing';
+import { useClick } from '@/shared/hooks/useAudio';
+import { useWritingStats } from '@/features/Progress';
+import useWritingStore from '../store/useWritingStore';
+import { WRITING_SETS } from '../lib/writingSets';
+import { STROKE_MISTAKE_LABELS } from '../lib/strokeGrading';
+import type { StrokeMistake } from '../types';
+
+// Characters shown in the "needs practice" list
+const WEAKEST_COUNT = 10;
+
+const toggleClassName = (selected: boolean) =>
+  clsx(
+    'flex flex-col items-start rounded-xl border-2 px-4 py-2 text-left',
+    'transition-colors duration-200 hover:cursor-pointer',
+    selected
+      ? 'border-(--main-color) text-(--main-color)'
+      : 'border-(--border-color) text-(--secondary-color)',
+  );
+
+/**
+ * Writing dojo menu: pick kana and JLPT kanji sets, review the most
+ * missed characters and common stroke mistakes, then start.
+ */
+export default function WritingMenu() {
+  const { playClick } = useClick();
+  const selectedSetIds = useWritingStore(state => state.selectedSetIds);
+  const toggleSetId = useWritingStore(state => state.toggleSetId);
+  const showGuide = useWritingStore(state => state.showGuide);
+  const setShowGuide = useWritingStore(state => state.setShowGuide);
+  const stats = useWritingStats();
+
+  const canStart = selectedSetIds.length > 0;
+
+  const weakest = useMemo(
+    () =>
+      Object.entries(stats.byCharacter)
+        .filter(([, score]) => score.incorrect > 0)
+        .map(([character, score]) => ({
+          character,
+          accuracy: Math.round(
+            (score.correct / (score.correct + score.incorrect)) * 100,
+          ),
+        }))
+        .sort((a, b) => a.accuracy - b.accuracy)
+        .slice(0, WEAKEST_COUNT),
+    [stats.byCharacter],
+  );
+
+  const mistakes = (
+    Object.keys(STROKE_MISTAKE_LABELS) as StrokeMistake[]
+  ).filter(mistake => (stats.mistakes[mistake] ?? 0) > 0);
+
+  return (
+    <div className='flex flex-col gap-6'>
+      <div className='flex flex-col gap-2 rounded-2xl border-2 border-(--border-color) bg-(--card-color) p-4'>
+        <h1 className='text-2xl font-bold text-(--main-color)'>Writing Dojo</h1>
+        <p className='text-(--secondary-color)'>
+          Draw each character stroke by stroke. Your strokes are checked for
+          count, order and direction, and the correct stroke order is shown when
+          you miss.
+        </p>
+      </div>
+
+      <div className='flex flex-col gap-3'>
+        <h2 className='text-lg font-semibold text-(--secondary-color)'>
+          Character Sets
+        </h2>
+        <div className='flex flex-wrap gap-2'>
+          {WRITING_SETS.map(set => (
+            <button
+              key={set.id}
+              type='button'
+              aria-pressed={selectedSetIds.includes(set.id)}
+              onClick={() => {
+                playClick();
+                toggleSetId(set.id);
+              }}
+              className={toggleClassName(selectedSetIds.includes(set.id))}
+            >
+              <span className='font-semibold'>{set.label}</span>
+              <span className='text-sm text-(--muted-color)'>
+                {set.description}
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className='flex flex-col gap-3'>
+        <h2 className='text-lg font-semibold text-(--secondary-color)'>
+          Guide
+        </h2>
+        <div className='flex flex-wrap gap-2'>
+          <button
+            type='button'
+            aria-pressed={showGuide}
+            onClick={() => {
+              playClick();
+              setShowGuide(!showGuide);
+            }}
+            className={toggleClassName(showGuide)}
+          >
+            <span className='font-semibold'>Trace</span>
+            <span className='text-sm text-(--muted-color)'>
+              Show the character faintly behind the pad
+            </span>
+          </button>
+        </div>
+      </div>
+
+      {(weakest.length > 0 || mistakes.length > 0) && (
+        <div className='flex flex-col gap-3'>
+          <h2 className='text-lg font-semibold text-(--secondary-color)'>
+            Needs Practice
+          </h2>
+          {weakest.length > 0 && (
+            <div className='flex flex-wrap gap-2'>
+              {weakest.map(entry => (
+                <span
+                  key={entry.character}
+                  className='flex flex-col items-center rounded-xl border-2 border-(--border-color) bg-(--card-color) px-3 py-1'
+                >
+                  <span className='text-2xl text-(--main-color)' lang='ja'>
+                    {entry.character}
+                  </span>
+                  <span className='text-xs text-(--muted-color)'>
+                    {entry.accuracy}%
+                  </span>
+                </span>
+              ))}
+            </div>
+          )}
+          {mistakes.length > 0 && (
+            <ul className='flex flex-col gap-1 text-sm text-(--muted-color)'>
+              {mistakes.map(mistake => (
+                <li key={mistake}>
+                  {STROKE_MISTAKE_LABELS[mistake]}: {stats.mistakes[mistake]}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <Link
+        href='/writing/train'
+        className={clsx(!canStart && 'pointer-events-none')}
+        aria-disabled={!canStart}
+        onClick={() => playClick()}
+      >
+        <span
+          className={clsx(
+            'flex h-12 w-full flex-row items-center justify-center gap-2 px-6',
+            'bg-(--main-color) text-(--background-color)',
+            'rounded-2xl transition-colors duration-200',
+            'border-b-6 border-(--main-color-accent) shadow-sm',
+            !canStart && 'opacity-50',
+          )}
+        >
+          <Play size={20} />
+          Train
+        </span>
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useState } from 'react';
+import clsx from 'clsx';
+import type { StrokePoint, WritingGrade } from '../types';
+import { STROKE_BOX_SIZE } from '../lib/strokeData';
+
+interface WritingPadProps {
+  strokes: StrokePoint[][];
+  onStrokeEnd: (stroke: StrokePoint[]) => void;
+  disabled?: boolean;
+  // Faded character drawn behind the pad
+  guideCharacter?: string;
+  // Once graded, strokes with mistakes are highlighted
+  grade?: WritingGrade | null;
+  className?: string;
+}
+
+const toPolyline = (points: StrokePoint[]) =>
+  points.map(point => `${point.x},${point.y}`).join(' ');
+
+/**
+ * Square drawing pad in KanjiVG coordinates. Records one stroke per
+ * pointer press, so mouse, pen and touch all work.
+ */
+const WritingPad = ({
+  strokes,
+  onStrokeEnd,
+  disabled = false,
+  guideCharacter,
+  grade,
+  className,
+}: WritingPadProps) => {
+  const [currentStroke, setCurrentStroke] = useState<StrokePoint[] | null>(
+    null,
+  );
+
+  const toPoint = (event: React.PointerEvent<SVGSVGElement>): StrokePoint => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * STROKE_BOX_SIZE,
+      y: ((event.clientY - rect.top) / rect.height) * STROKE_BOX_SIZE,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setCurrentStroke([toPoint(event)]);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!currentStroke) return;
+    const point = toPoint(event);
+    setCurrentStroke(stroke => (stroke ? [...stroke, point] : stroke));
+  };
+
+  const handlePointerUp = () => {
+    if (!currentStroke) return;
+    onStrokeEnd(currentStroke);
+    setCurrentStroke(null);
+  };
+
+  const isMistake = (index: number) => {
+    const strokeGrade = grade?.strokes[index];
+    return (
+      !!strokeGrade &&
+      (strokeGrade.matchedIndex === null ||
+        strokeGrade.reversed ||
+        strokeGrade.outOfOrder)
+    );
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${STROKE_BOX_SIZE} ${STROKE_BOX_SIZE}`}
+      className={clsx(
+        'aspect-square touch-none rounded-2xl border-2 border-(--border-color) bg-(--card-color)',
+        disabled ? 'cursor-not-allowed' : 'cursor-crosshair',
+        className,
+      )}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      role='img'
+      aria-label='Drawing pad'
+    >
+      {/* Centre guides */}
+      <line
+        x1={STROKE_BOX_SIZE / 2}
+        y1={0}
+        x2={STROKE_BOX_SIZE / 2}
+        y2={STROKE_BOX_SIZE}
+        stroke='var(--border-color)'
+        strokeDasharray='2 3'
+        strokeWidth={0.5}
+      />
+      <line
+        x1={0}
+        y1={STROKE_BOX_SIZE / 2}
+        x2={STROKE_BOX_SIZE}
+        y2={STROKE_BOX_SIZE / 2}
+        stroke='var(--border-color)'
+        strokeDasharray='2 3'
+        strokeWidth={0.5}
+      />
+      {guideCharacter && (
+        <text
+          x='50%'
+          y='50%'
+          dominantBaseline='central'
+          textAnchor='middle'
+          fontSize={90}
+          fill='var(--secondary-color)'
+          opacity={0.12}
+          lang='ja'
+          className='pointer-events-none select-none'
+        >
+          {guideCharacter}
+        </text>
+      )}
+      {strokes.map((stroke, index) => (
+        <polyline
+          key={index}
+          points={toPolyline(stroke)}
+          fill='none'
+          stroke={isMistake(index) ? undefined : 'var(--main-color)'}
+          strokeWidth={4}
+          strokeLinecap='round'
+          strokeLinejoin='round'
+          className={clsx(isMistake(index) && 'stroke-red-500')}
+        />
+      ))}
+      {currentStroke && (
+        <polyline
+          points={toPolyline(currentStroke)}
+          fill='none'
+          stroke='var(--secondary-color)'
+          strokeWidth={4}
+          strokeLinecap='round'
+          strokeLinejoin='round'
+        />
+      )}
+    </svg>
+  );
+};
+
+export default WritingPad;
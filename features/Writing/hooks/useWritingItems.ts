@@ -0,0 +1,65 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useKanaContent } from '@/features/Kana';
+import { kanjiDataService } from '@/features/Kanji/services/kanjiDataService';
+import type { WritingItem, WritingSetId } from '../types';
+import {
+  buildKanaWritingItems,
+  buildKanjiWritingItems,
+  isKanjiWritingSet,
+} from '../lib/writingSets';
+
+/**
+ * Characters of the selected writing sets. Kana are available at once;
+ * kanji levels are fetched (and cached by the kanji data service).
+ */
+export function useWritingItems(setIds: WritingSetId[]) {
+  const { allGroups } = useKanaContent();
+  const [kanjiItems, setKanjiItems] = useState<WritingItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const kanjiSetIds = useMemo(() => setIds.filter(isKanjiWritingSet), [setIds]);
+
+  useEffect(() => {
+    if (kanjiSetIds.length === 0) {
+      setKanjiItems([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    Promise.all(
+      kanjiSetIds.map(level => kanjiDataService.getKanjiByLevel(level)),
+    )
+      .then(levels => {
+        if (!cancelled) setKanjiItems(buildKanjiWritingItems(levels.flat()));
+      })
+      .catch(error => {
+        console.error('Failed to load kanji for writing:', error);
+        if (!cancelled) setKanjiItems([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [kanjiSetIds]);
+
+  const items = useMemo(
+    () => [
+      ...(setIds.includes('hiragana')
+        ? buildKanaWritingItems(allGroups, 'hiragana')
+        : []),
+      ...(setIds.includes('katakana')
+        ? buildKanaWritingItems(allGroups, 'katakana')
+        : []),
+      ...kanjiItems,
+    ],
+    [allGroups, setIds, kanjiItems],
+  );
+
+  return { items, isLoading };
+}
@@ -0,0 +1,40 @@
+// ============================================================================
+// Writing Feature - Public API
+// ============================================================================
+
+// Types
+export type {
+  StrokePoint,
+  ReferenceStroke,
+  CharacterStrokes,
+  StrokeMistake,
+  StrokeGrade,
+  WritingGrade,
+  WritingSetId,
+  WritingItem,
+} from './types';
+
+// Stroke data & grading
+export {
+  STROKE_BOX_SIZE,
+  sampleSvgPath,
+  parseStrokeSvg,
+  loadCharacterStrokes,
+} from './lib/strokeData';
+export {
+  gradeStrokes,
+  resampleStroke,
+  STROKE_MISTAKE_LABELS,
+} from './lib/strokeGrading';
+export { WRITING_SETS } from './lib/writingSets';
+
+// Components (page-level)
+export { default as WritingMenu } from './components/WritingMenu';
+export { default as WritingGame } from './components/WritingGame';
+export { default as StrokeOrderAnimation } from './components/StrokeOrderAnimation';
+
+// ============================================================================
+// PRIVATE - DO NOT IMPORT DIRECTLY
+// ============================================================================
+// - store/useWritingStore.ts (internal)
+// - hooks/useWritingItems.ts (internal)
@@ -0,0 +1,274 @@
+/**
+ * Stroke Data
+ *
+ * Loads KanjiVG stroke paths for kana and kanji. KanjiVG draws every
+ * character in a 109×109 box with one <path> per stroke, numbered in
+ * stroke order (kvg:065e5-s1, kvg:065e5-s2, ...). Paths are sampled into
+ * points so strokes can be compared with what the user draws.
+ *
+ * The SVGs are served from public/kanjivg, copied there from the pinned
+ * kanjivg-js package by scripts/copy-kanjivg.js.
+ *
+ * Stroke data © Ulrich Apel, KanjiVG, CC BY-SA 3.0.
+ */
+
+import type { CharacterStrokes, ReferenceStroke, StrokePoint } from '../types';
+
+export const STROKE_BOX_SIZE = 109;
+
+const STROKE_DATA_URL = '/kanjivg';
+
+// Points sampled along each path segment
+const SAMPLES_PER_SEGMENT = 8;
+
+// ============================================================================
+// SVG Path Sampling
+// ============================================================================
+
+const PATH_TOKEN_REGEX =
+  /[MmLlHhVvCcSsQqTtZz]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g;
+
+const PARAMETER_COUNTS: Record<string, number> = {
+  M: 2,
+  L: 2,
+  H: 1,
+  V: 1,
+  C: 6,
+  S: 4,
+  Q: 4,
+  T: 2,
+  Z: 0,
+};
+
+function cubicAt(
+  p0: StrokePoint,
+  p1: StrokePoint,
+  p2: StrokePoint,
+  p3: StrokePoint,
+  t: number,
+): StrokePoint {
+  const u = 1 - t;
+  return {
+    x:
+      u * u * u * p0.x +
+      3 * u * u * t * p1.x +
+      3 * u * t * t * p2.x +
+      t * t * t * p3.x,
+    y:
+      u * u * u * p0.y +
+      3 * u * u * t * p1.y +
+      3 * u * t * t * p2.y +
+      t * t * t * p3.y,
+  };
+}
+
+function quadraticAt(
+  p0: StrokePoint,
+  p1: StrokePoint,
+  p2: StrokePoint,
+  t: number,
+): StrokePoint {
+  const u = 1 - t;
+  return {
+    x: u * u * p0.x + 2 * u * t * p1.x + t * t * p2.x,
+    y: u * u * p0.y + 2 * u * t * p1.y + t * t * p2.y,
+  };
+}
+
+/**
+ * Sample points along an SVG path (the subset of commands KanjiVG uses:
+ * moves, lines and cubic/quadratic Béziers, absolute or relative)
+ *
+ * @param d - The path's d attribute
+ * @returns Points along the path, starting at its first point
+ */
+export function sampleSvgPath(d: string): StrokePoint[] {
+  const tokens = d.match(PATH_TOKEN_REGEX) ?? [];
+  const points: StrokePoint[] = [];
+
+  let current: StrokePoint = { x: 0, y: 0 };
+  let start: StrokePoint = { x: 0, y: 0 };
+  // Reflected control point for S/T
+  let lastControl: StrokePoint | null = null;
+  let command = '';
+  let i = 0;
+
+  const sampleCurve = (at: (t: number) => StrokePoint) => {
+    for (let step = 1; step <= SAMPLES_PER_SEGMENT; step++) {
+      points.push(at(step / SAMPLES_PER_SEGMENT));
+    }
+  };
+
+  while (i < tokens.length) {
+    if (/^[A-Za-z]$/.test(tokens[i])) {
+      command = tokens[i++];
+    } else if (command === 'M') {
+      // Extra coordinate pairs after a move are lines
+      command = 'L';
+    } else if (command === 'm') {
+      command = 'l';
+    } else if (command === 'Z' || command === 'z') {
+      // Numbers after a close path are an error; Z takes no parameters,
+      // so reading on would never advance
+      break;
+    }
+
+    const upper = command.toUpperCase();
+    const count = PARAMETER_COUNTS[upper];
+    if (count === undefined) break;
+
+    const args = tokens.slice(i, i + count).map(Number);
+    if (args.length < count || args.some(Number.isNaN)) break;
+    i += count;
+
+    const relative = command !== upper;
+    const point = (x: number, y: number): StrokePoint =>
+      relative ? { x: current.x + x, y: current.y + y } : { x, y };
+
+    switch (upper) {
+      case 'M':
+        current = point(args[0], args[1]);
+        start = current;
+        points.push(current);
+        lastControl = null;
+        break;
+      case 'L':
+      case 'H':
+      case 'V': {
+        const end =
+          upper === 'H'
+            ? { x: relative ? current.x + args[0] : args[0], y: current.y }
+            : upper === 'V'
+              ? { x: current.x, y: relative ? current.y + args[0] : args[0] }
+              : point(args[0], args[1]);
+        const from = current;
+        sampleCurve(t => ({
+          x: from.x + (end.x - from.x) * t,
+          y: from.y + (end.y - from.y) * t,
+        }));
+        current = end;
+        lastControl = null;
+        break;
+      }
+      case 'C':
+      case 'S': {
+        const from = current;
+        const control1: StrokePoint =
+          upper === 'C'
+            ? point(args[0], args[1])
+            : lastControl
+              ? { x: 2 * from.x - lastControl.x, y: 2 * from.y - lastControl.y }
+              : from;
+        const rest = upper === 'C' ? args.slice(2) : args;
+        const control2 = point(rest[0], rest[1]);
+        const end = point(rest[2], rest[3]);
+        sampleCurve(t => cubicAt(from, control1, control2, end, t));
+        current = end;
+        lastControl = control2;
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const from = current;
+        const control: StrokePoint =
+          upper === 'Q'
+            ? point(args[0], args[1])
+            : lastControl
+              ? { x: 2 * from.x - lastControl.x, y: 2 * from.y - lastControl.y }
+              : from;
+        const end =
+          upper === 'Q' ? point(args[2], args[3]) : point(args[0], args[1]);
+        sampleCurve(t => quadraticAt(from, control, end, t));
+        current = end;
+        lastControl = control;
+        break;
+      }
+      case 'Z':
+        points.push(start);
+        current = start;
+        lastControl = null;
+        break;
+    }
+  }
+
+  return points;
+}
+
+// ============================================================================
+// KanjiVG Parsing
+// ============================================================================
+
+/**
+ * Get the KanjiVG file name of a character (5-digit lowercase hex code)
+ */
+export function getStrokeFileName(character: string): string {
+  const code = character.codePointAt(0) ?? 0;
+  return `${code.toString(16).padStart(5, '0')}.svg`;
+}
+
+/**
+ * Extract the strokes of a KanjiVG SVG document, in stroke order
+ *
+ * @returns The strokes, or an empty array if the document has none
+ */
+export function parseStrokeSvg(svg: string): ReferenceStroke[] {
+  const strokes: { index: number; stroke: ReferenceStroke }[] = [];
+
+  for (const [tag] of svg.matchAll(/<path\b[^>]*>/g)) {
+    const id = /\bid="[^"]*-s(\d+)"/.exec(tag);
+    const d = /\sd="([^"]+)"/.exec(tag);
+    if (!id || !d) continue;
+
+    strokes.push({
+      index: Number(id[1]),
+      stroke: { path: d[1], points: sampleSvgPath(d[1]) },
+    });
+  }
+
+  return strokes
+    .sort((a, b) => a.index - b.index)
+    .map(({ stroke }) => stroke)
+    .filter(stroke => stroke.points.length > 0);
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+// Module-level cache - persists across component mounts
+const strokeCache = new Map<string, Promise<CharacterStrokes>>();
+
+/**
+ * Load the reference strokes of a character
+ *
+ * @throws If the stroke data cannot be fetched or has no strokes
+ */
+export function loadCharacterStrokes(
+  character: string,
+): Promise<CharacterStrokes> {
+  const cached = strokeCache.get(character);
+  if (cached) return cached;
+
+  const request = fetch(`${STROKE_DATA_URL}/${getStrokeFileName(character)}`)
+    .then(response => {
+      if (!response.ok) {
+        throw new Error(`No stroke data for ${character}`);
+      }
+      return response.text();
+    })
+    .then(svg => {
+      const strokes = parseStrokeSvg(svg);
+      if (strokes.length === 0) {
+        throw new Error(`No stroke data for ${character}`);
+      }
+      return { character, strokes };
+    })
+    .catch(error => {
+      // Allow a retry on the next request
+      strokeCache.delete(character);
+      throw error;
+    });
+
+  strokeCache.set(character, request);
+  return request;
+}
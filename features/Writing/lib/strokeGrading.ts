@@ -0,0 +1,185 @@
+/**
+ * Stroke Grading
+ *
+ * Compares the strokes a user drew with the reference strokes of a
+ * character. Both are resampled to the same number of evenly spaced
+ * points; a user stroke matches the reference stroke with the smallest
+ * mean point distance, drawn either way round. From the matches we can
+ * tell which strokes were reversed, drawn out of turn or match nothing.
+ */
+
+import type {
+  ReferenceStroke,
+  StrokeGrade,
+  StrokeMistake,
+  StrokePoint,
+  WritingGrade,
+} from '../types';
+
+// Points compared per stroke
+const RESAMPLE_COUNT = 16;
+
+// Mean distance (in the 109×109 box) beyond which a stroke matches nothing
+export const SHAPE_TOLERANCE = 16;
+
+// Strokes shorter than this are dots; their direction is not graded
+const MIN_DIRECTED_LENGTH = 8;
+
+const MISTAKE_ORDER: StrokeMistake[] = ['count', 'order', 'direction', 'shape'];
+
+export const STROKE_MISTAKE_LABELS: Record<StrokeMistake, string> = {
+  count: 'Wrong number of strokes',
+  order: 'Strokes out of order',
+  direction: 'Stroke drawn backwards',
+  shape: 'Stroke in the wrong place',
+};
+
+// ============================================================================
+// Geometry
+// ============================================================================
+
+function distance(a: StrokePoint, b: StrokePoint): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Total length of a polyline
+ */
+export function strokeLength(points: StrokePoint[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += distance(points[i - 1], points[i]);
+  }
+  return length;
+}
+
+/**
+ * Resample a polyline to `count` points evenly spaced along its length
+ */
+export function resampleStroke(
+  points: StrokePoint[],
+  count: number = RESAMPLE_COUNT,
+): StrokePoint[] {
+  if (points.length === 0) return [];
+
+  const total = strokeLength(points);
+  if (points.length === 1 || total === 0) {
+    return Array.from({ length: count }, () => ({ ...points[0] }));
+  }
+
+  const step = total / (count - 1);
+  const result: StrokePoint[] = [{ ...points[0] }];
+  let travelled = 0;
+  let target = step;
+
+  for (let i = 1; i < points.length && result.length < count; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const segment = distance(from, to);
+
+    while (
+      segment > 0 &&
+      travelled + segment >= target &&
+      result.length < count
+    ) {
+      const t = (target - travelled) / segment;
+      result.push({
+        x: from.x + (to.x - from.x) * t,
+        y: from.y + (to.y - from.y) * t,
+      });
+      target += step;
+    }
+    travelled += segment;
+  }
+
+  // Rounding can leave the last point out
+  while (result.length < count) {
+    result.push({ ...points[points.length - 1] });
+  }
+  return result;
+}
+
+/**
+ * Mean distance between corresponding points of two resampled strokes
+ */
+function meanDistance(a: StrokePoint[], b: StrokePoint[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += distance(a[i], b[i]);
+  }
+  return sum / a.length;
+}
+
+// ============================================================================
+// Grading
+// ============================================================================
+
+/**
+ * Grade the strokes a user drew against a character's reference strokes
+ *
+ * @param drawn - User strokes as points in the 109×109 box, in drawing order
+ * @param reference - Reference strokes in stroke order
+ * @returns Per-stroke grades and the kinds of mistakes made
+ */
+export function gradeStrokes(
+  drawn: StrokePoint[][],
+  reference: ReferenceStroke[],
+): WritingGrade {
+  const references = reference.map(stroke => resampleStroke(stroke.points));
+  const claimed = new Set<number>();
+  // A stroke is out of turn if a later reference stroke was already drawn,
+  // so a skipped stroke only counts as a count mistake
+  let latestMatched = -1;
+
+  const strokes: StrokeGrade[] = drawn.map(points => {
+    const forward = resampleStroke(points);
+    const backward = [...forward].reverse();
+
+    // Closest reference stroke not already matched by an earlier stroke
+    let match: { index: number; distance: number; reversed: boolean } | null =
+      null;
+    for (let i = 0; i < references.length; i++) {
+      if (claimed.has(i)) continue;
+      const forwardDistance = meanDistance(forward, references[i]);
+      const backwardDistance = meanDistance(backward, references[i]);
+      const candidate = Math.min(forwardDistance, backwardDistance);
+      if (!match || candidate < match.distance) {
+        match = {
+          index: i,
+          distance: candidate,
+          reversed: backwardDistance < forwardDistance,
+        };
+      }
+    }
+
+    if (!match || match.distance > SHAPE_TOLERANCE) {
+      return { matchedIndex: null, reversed: false, outOfOrder: false };
+    }
+
+    claimed.add(match.index);
+    const outOfOrder = match.index < latestMatched;
+    latestMatched = Math.max(latestMatched, match.index);
+    const isDot = strokeLength(references[match.index]) < MIN_DIRECTED_LENGTH;
+    return {
+      matchedIndex: match.index,
+      reversed: match.reversed && !isDot,
+      outOfOrder,
+    };
+  });
+
+  const found = new Set<StrokeMistake>();
+  if (drawn.length !== reference.length) found.add('count');
+  for (const stroke of strokes) {
+    if (stroke.matchedIndex === null) found.add('shape');
+    if (stroke.reversed) found.add('direction');
+    if (stroke.outOfOrder) found.add('order');
+  }
+
+  const mistakes = MISTAKE_ORDER.filter(mistake => found.has(mistake));
+  return {
+    strokes,
+    expectedStrokeCount: reference.length,
+    mistakes,
+    isCorrect: mistakes.length === 0,
+  };
+}
@@ -0,0 +1,74 @@
+import type { IKanjiObj } from '@/features/Kanji';
+import type { WritingItem, WritingSetId } from '../types';
+
+export const WRITING_SETS: {
+  id: WritingSetId;
+  label: string;
+  description: string;
+}[] = [
+  { id: 'hiragana', label: 'Hiragana', description: 'あ to ん' },
+  { id: 'katakana', label: 'Katakana', description: 'ア to ン' },
+  { id: 'n5', label: 'JLPT N5', description: 'Beginner kanji' },
+  { id: 'n4', label: 'JLPT N4', description: 'Elementary kanji' },
+  { id: 'n3', label: 'JLPT N3', description: 'Intermediate kanji' },
+  { id: 'n2', label: 'JLPT N2', description: 'Upper-intermediate kanji' },
+  { id: 'n1', label: 'JLPT N1', description: 'Advanced kanji' },
+];
+
+export const DEFAULT_WRITING_SET_IDS: WritingSetId[] = ['hiragana'];
+
+export type KanjiWritingSetId = Exclude<WritingSetId, 'hiragana' | 'katakana'>;
+
+export const isKanjiWritingSet = (
+  setId: WritingSetId,
+): setId is KanjiWritingSetId => setId !== 'hiragana' && setId !== 'katakana';
+
+// Base kana groups only: combinations are written as two characters
+const KANA_GROUP_PREFIXES: Record<'hiragana' | 'katakana', string> = {
+  hiragana: 'h.b.',
+  katakana: 'k.b.',
+};
+
+/**
+ * Build the writing items of a kana set from the kana groups
+ */
+export function buildKanaWritingItems(
+  groups: { kana: string[]; romanji: string[]; groupName: string }[],
+  setId: 'hiragana' | 'katakana',
+): WritingItem[] {
+  return groups
+    .filter(group => group.groupName.startsWith(KANA_GROUP_PREFIXES[setId]))
+    .flatMap(group =>
+      group.kana.map((character, index) => ({
+        character,
+        prompt: group.romanji[index],
+        readings: [],
+      })),
+    );
+}
+
+/**
+ * Build writing items from a JLPT kanji level
+ */
+export function buildKanjiWritingItems(kanji: IKanjiObj[]): WritingItem[] {
+  return kanji.map(entry => ({
+    character: entry.kanjiChar,
+    prompt: entry.meanings[0] ?? '',
+    readings: [...entry.onyomi, ...entry.kunyomi],
+  }));
+}
+
+/**
+ * Pick a random item, avoiding the previous character when possible
+ */
+export function pickWritingItem(
+  items: WritingItem[],
+  previousCharacter?: string,
+): WritingItem | null {
+  if (items.length === 0) return null;
+  const candidates =
+    items.length > 1
+      ? items.filter(item => item.character !== previousCharacter)
+      : items;
+  return candidates[Math.floor(Math.random() * candidates.length)];
+}
@@ -0,0 +1,39 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { WritingSetId } from '../types';
+import { DEFAULT_WRITING_SET_IDS } from '../lib/writingSets';
+
+interface IWritingState {
+  selectedSetIds: WritingSetId[];
+  toggleSetId: (setId: WritingSetId) => void;
+
+  // Show the faded character behind the drawing pad
+  showGuide: boolean;
+  setShowGuide: (showGuide: boolean) => void;
+}
+
+const toggle = <T>(list: T[], value: T): T[] =>
+  list.includes(value)
+    ? list.filter(current => current !== value)
+    : [...list, value];
+
+const useWritingStore = create<IWritingState>()(
+  persist(
+    set => ({
+      selectedSetIds: DEFAULT_WRITING_SET_IDS,
+      toggleSetId: setId =>
+        set(state => ({
+          selectedSetIds: toggle(state.selectedSetIds, setId),
+        })),
+
+      showGuide: true,
+      setShowGuide: showGuide => set({ showGuide }),
+    }),
+    {
+      name: 'kanadojo-writing',
+      version: 0,
+    },
+  ),
+);
+
+export default useWritingStore;
@@ -0,0 +1,79 @@
+// ============================================================================
+// Writing Feature Types
+// ============================================================================
+
+/**
+ * A point in the 109×109 KanjiVG coordinate space
+ */
+export interface StrokePoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * One reference stroke: its SVG path and points sampled along it
+ */
+export interface ReferenceStroke {
+  path: string;
+  points: StrokePoint[];
+}
+
+/**
+ * Reference strokes of a character, in stroke order
+ */
+export interface CharacterStrokes {
+  character: string;
+  strokes: ReferenceStroke[];
+}
+
+/**
+ * Ways a written character can differ from the reference
+ * - count: too many or too few strokes
+ * - direction: a stroke drawn backwards
+ * - order: a stroke drawn out of turn
+ * - shape: a stroke that matches no reference stroke
+ */
+export type StrokeMistake = 'count' | 'direction' | 'order' | 'shape';
+
+/**
+ * Grade of a single user stroke
+ */
+export interface StrokeGrade {
+  /** Index of the closest reference stroke, null if none is close */
+  matchedIndex: number | null;
+  reversed: boolean;
+  outOfOrder: boolean;
+}
+
+/**
+ * Grade of a whole written character
+ */
+export interface WritingGrade {
+  strokes: StrokeGrade[];
+  expectedStrokeCount: number;
+  mistakes: StrokeMistake[];
+  isCorrect: boolean;
+}
+
+/**
+ * Character sets that can be practiced
+ */
+export type WritingSetId =
+  | 'hiragana'
+  | 'katakana'
+  | 'n5'
+  | 'n4'
+  | 'n3'
+  | 'n2'
+  | 'n1';
+
+/**
+ * A character to write, with the prompt shown for it
+ */
+export interface WritingItem {
+  character: string;
+  /** Romaji for kana, main meaning for kanji */
+  prompt: string;
+  /** Readings for kanji, empty for kana */
+  readings: string[];
+}
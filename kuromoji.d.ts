@@ -0,0 +1,31 @@
+declare module 'kuromoji' {
+  interface IpadicFeatures {
+    word_id: number;
+    word_type: 'KNOWN' | 'UNKNOWN';
+    word_position: number;
+    surface_form: string;
+    pos: string;
+    pos_detail_1: string;
+    pos_detail_2: string;
+    pos_detail_3: string;
+    conjugated_type: string;
+    conjugated_form: string;
+    basic_form: string;
+    reading?: string;
+    pronunciation?: string;
+  }
+
+  interface Tokenizer {
+    tokenize(text: string): IpadicFeatures[];
+  }
+
+  interface TokenizerBuilder {
+    build(callback: (error: Error | null, tokenizer: Tokenizer) => void): void;
+  }
+
+  const kuromoji: {
+    builder(options: { dicPath?: string }): TokenizerBuilder;
+  };
+  export default kuromoji;
+  export type { IpadicFeatures, Tokenizer, TokenizerBuilder };
+}
@@ -164,6 +164,26 @@ const nextConfig: NextConfig = {
           },
         ],
       },
+      {
+        // kuromoji dictionary - immutable, cached so text analysis works offline
+        source: '/kuromoji/dict/:path*',
+        headers: [
+          {
+            key: 'Cache-Control',
+            value: 'public, max-age=31536000, immutable',
+          },
+        ],
+      },
+      {
+        // KanjiVG stroke SVGs - cache for 1 week
+        source: '/kanjivg/:path*.svg',
+        headers: [
+          {
+            key: 'Cache-Control',
+            value: 'public, max-age=604800, stale-while-revalidate=86400',
+          },
+        ],
+      },
       {
         // Kanji JSON data files - cache for 1 week
         source: '/data-kanji/:path*.json',
@@ -4,22 +4,38 @@
  *
  * Command-line interface for converting Anki deck files to JSON format.
  * Supports APKG, TSV, SQLite, COLPKG, and ANKI2 formats.
+ * With --reverse, turns converter JSON or KanaDojo sets back into an .apkg.
  *
  * Usage:
  *   npm run anki:convert -- --input deck.apkg --output deck.json
  *   npm run anki:convert -- -i deck.apkg -o deck.json --include-stats
+ *   npm run anki:convert -- -i deck.json -o deck.apkg --reverse
  */
 
 import { Command } from 'commander';
 import { readFile, writeFile } from 'fs/promises';
-import { basename } from 'path';
+import { basename, extname, join } from 'path';
 import { createConversionPipeline } from '../features/AnkiConverter/lib/conversionPipeline.js';
+import { buildApkg } from '../features/AnkiConverter/lib/apkgWriter.js';
+import {
+  buildLevelIndex,
+  conversionResultToPackage,
+  createKanjiPackage,
+  createVocabPackage,
+  type JlptLevelIndex,
+} from '../features/AnkiConverter/lib/deckExport.js';
 import type {
+  ApkgPackage,
   ConversionOptions,
   ConversionResult,
   ProgressEvent,
 } from '../features/AnkiConverter/types/index.js';
-import { ConversionError } from '../features/AnkiConverter/types/index.js';
+import {
+  ConversionError,
+  ErrorCode,
+} from '../features/AnkiConverter/types/index.js';
+import type { IKanjiObj } from '../features/Kanji/index.js';
+import type { IVocabObj } from '../features/Vocabulary/index.js';
 
 /**
  * CLI version
@@ -91,6 +107,115 @@ function displaySuccess(result: ConversionResult, outputPath: string): void {
   console.log('');
 }
 
+/**
+ * JLPT levels, easiest first
+ */
+const JLPT_LEVELS = ['n5', 'n4', 'n3', 'n2', 'n1'];
+
+/**
+ * Read a KanaDojo level data file, or nothing if it is missing
+ */
+async function readLevelData<T>(path: string): Promise<T[]> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8')) as T[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Build the JLPT level index from the app's public data files
+ */
+async function loadLevelIndex(
+  contentType: 'vocabulary' | 'kanji',
+): Promise<JlptLevelIndex> {
+  if (contentType === 'kanji') {
+    const byLevel: Record<string, IKanjiObj[]> = {};
+    for (const level of JLPT_LEVELS) {
+      byLevel[level] = await readLevelData<IKanjiObj>(
+        join('public', 'data-kanji', `${level.toUpperCase()}.json`),
+      );
+    }
+    return buildLevelIndex(byLevel, item => item.kanjiChar);
+  }
+
+  const byLevel: Record<string, { kana: string; kanji: string }[]> = {};
+  for (const level of JLPT_LEVELS) {
+    byLevel[level] = await readLevelData(
+      join('public', 'data-vocab', `${level}.json`),
+    );
+  }
+  return buildLevelIndex(byLevel, entry => entry.kanji?.trim() || entry.kana);
+}
+
+/**
+ * Turn reverse-mode input into a package. Accepts converter JSON, a
+ * KanaDojo custom set ({ contentType, items }) or a plain item array.
+ */
+async function createReversePackage(
+  input: unknown,
+  deckName: string,
+): Promise<ApkgPackage> {
+  if (input && typeof input === 'object' && 'decks' in input) {
+    return conversionResultToPackage(input as ConversionResult);
+  }
+
+  const items: unknown[] = Array.isArray(input)
+    ? input
+    : input && typeof input === 'object' && 'items' in input
+      ? (input as { items: unknown[] }).items
+      : [];
+  const first = items[0];
+  if (!first || typeof first !== 'object') {
+    throw new ConversionError(
+      ErrorCode.EXPORT_ERROR,
+      'Input must be converter JSON, a custom set or a list of KanaDojo items',
+      {},
+      false,
+    );
+  }
+
+  if ('kanjiChar' in first) {
+    return createKanjiPackage(items as IKanjiObj[], {
+      deckName,
+      levels: await loadLevelIndex('kanji'),
+    });
+  }
+  return createVocabPackage(items as IVocabObj[], {
+    deckName,
+    levels: await loadLevelIndex('vocabulary'),
+  });
+}
+
+/**
+ * Reverse mode: JSON in, .apkg out
+ */
+async function runReverse(options: {
+  input: string;
+  output: string;
+  deckName?: string;
+}): Promise<void> {
+  console.log(`📖 Reading file: ${options.input}`);
+  const input: unknown = JSON.parse(await readFile(options.input, 'utf-8'));
+
+  const deckName =
+    options.deckName ||
+    (input && typeof input === 'object' && 'name' in input
+      ? String(input.name)
+      : basename(options.input, extname(options.input)));
+
+  console.log('📦 Building Anki package...');
+  const pkg = await createReversePackage(input, deckName);
+  const bytes = await buildApkg(pkg);
+  await writeFile(options.output, bytes);
+
+  console.log('\n✅ Export successful!');
+  console.log(`   Output: ${options.output}`);
+  console.log(`   Note types: ${pkg.noteTypes.length}`);
+  console.log(`   Notes: ${pkg.notes.length}`);
+  console.log('');
+}
+
 /**
  * Main CLI function
  */
@@ -99,13 +224,18 @@ async function main(): Promise<void> {
 
   program
     .name('anki-converter')
-    .description('Convert Anki deck files to JSON format')
+    .description(
+      'Convert Anki deck files to JSON format, or JSON back to .apkg with --reverse',
+    )
     .version(VERSION)
     .requiredOption(
       '-i, --input <path>',
       'Input file path (APKG, TSV, SQLite, COLPKG, or ANKI2)',
     )
-    .requiredOption('-o, --output <path>', 'Output JSON file path')
+    .requiredOption(
+      '-o, --output <path>',
+      'Output file path (JSON, or .apkg with --reverse)',
+    )
     .option('--include-stats', 'Include card statistics in output', false)
     .option('--include-suspended', 'Include suspended cards in output', false)
     .option(
@@ -113,6 +243,15 @@ async function main(): Promise<void> {
       'Force specific format (auto, apkg, tsv, sqlite, colpkg, anki2)',
       'auto',
     )
+    .option(
+      '--reverse',
+      'Build an .apkg from converter JSON or a KanaDojo set',
+      false,
+    )
+    .option(
+      '--deck-name <name>',
+      'Deck name for KanaDojo items in --reverse mode (default: set name or input filename)',
+    )
     .addHelpText(
       'after',
       `
@@ -121,6 +260,8 @@ Examples:
   $ npm run anki:convert -- -i deck.apkg -o deck.json --include-stats
   $ npm run anki:convert -- -i deck.tsv -o deck.json --format tsv
   $ npm run anki:convert -- -i collection.anki2 -o output.json --include-suspended
+  $ npm run anki:convert -- -i deck.json -o deck.apkg --reverse
+  $ npm run anki:convert -- -i my-set.json -o my-set.apkg --reverse --deck-name "KanaDojo::N5"
 
 Supported Formats:
   - APKG files (.apkg) - Anki package format
@@ -128,6 +269,11 @@ Supported Formats:
   - SQLite databases (.db, .sqlite, .anki2) - Direct Anki database files
   - COLPKG files (.colpkg) - Collection packages
 
+Reverse Mode (--reverse) Input:
+  - Converter JSON (round-trips decks, note types, tags and --include-stats stats)
+  - A KanaDojo custom set ({ "contentType": "vocabulary" | "kanji", "items": [...] })
+  - An array of KanaDojo vocabulary or kanji items
+
 Privacy:
   All processing happens locally on your machine. No data is sent to external servers.
 `,
@@ -141,9 +287,16 @@ Privacy:
     includeStats?: boolean;
     includeSuspended?: boolean;
     format?: string;
+    reverse?: boolean;
+    deckName?: string;
   }>();
 
   try {
+    if (options.reverse) {
+      await runReverse(options);
+      process.exit(0);
+    }
+
     // Read input file
     console.log(`📖 Reading file: ${options.input}`);
     const buffer = await readFile(options.input);
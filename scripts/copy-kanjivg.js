@@ -0,0 +1,81 @@
+#!/usr/bin/env node
+/**
+ * Copies the KanjiVG stroke order SVGs of the kana and the JLPT kanji into
+ * public/kanjivg so the Writing dojo can load them from the same origin.
+ * - The SVGs come from the kanjivg-js package, pinned in package.json.
+ * - Runs before dev and build; skips files that are already up to date.
+ *
+ * KanjiVG © Ulrich Apel, CC BY-SA 3.0 (https://kanjivg.tagaini.net). Each
+ * file keeps its copyright header.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+
+const require = createRequire(import.meta.url);
+// The package doesn't export its package.json; its entry point is in dist/
+const sourceDir = path.join(
+  path.dirname(require.resolve('kanjivg-js')),
+  '..',
+  'kanji',
+);
+const targetDir = path.join(process.cwd(), 'public', 'kanjivg');
+const kanjiDir = path.join(process.cwd(), 'public', 'data-kanji');
+
+const KANJI_LEVELS = ['N5', 'N4', 'N3', 'N2', 'N1'];
+// Hiragana and Katakana Unicode blocks
+const KANA_RANGES = [
+  [0x3040, 0x309f],
+  [0x30a0, 0x30ff],
+];
+
+// KanjiVG names files by 5-digit lowercase hex code point
+const getFileName = character =>
+  `${character.codePointAt(0).toString(16).padStart(5, '0')}.svg`;
+
+const characters = new Set();
+for (const [start, end] of KANA_RANGES) {
+  for (let code = start; code <= end; code++) {
+    characters.add(String.fromCodePoint(code));
+  }
+}
+for (const level of KANJI_LEVELS) {
+  const kanji = JSON.parse(
+    fs.readFileSync(path.join(kanjiDir, `${level}.json`), 'utf-8'),
+  );
+  kanji.forEach(entry => characters.add(entry.kanjiChar));
+}
+
+fs.mkdirSync(targetDir, { recursive: true });
+
+let copied = 0;
+const missingKanji = [];
+for (const character of characters) {
+  const file = getFileName(character);
+  const source = path.join(sourceDir, file);
+  if (!fs.existsSync(source)) {
+    // Not every code point in the kana blocks is a character
+    if (!/\p{Script=Han}/u.test(character)) continue;
+    missingKanji.push(character);
+    continue;
+  }
+
+  const target = path.join(targetDir, file);
+  if (
+    fs.existsSync(target) &&
+    fs.statSync(target).size === fs.statSync(source).size
+  ) {
+    continue;
+  }
+
+  fs.copyFileSync(source, target);
+  copied++;
+}
+
+if (missingKanji.length > 0) {
+  console.warn(
+    `⚠️  No KanjiVG strokes for ${missingKanji.length} kanji: ${missingKanji.join('')}`,
+  );
+}
+console.log(`✅ KanjiVG strokes ready (${copied} file(s) copied)`);
@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+/**
+ * Copies the kuromoji dictionary into public/kuromoji/dict so the text
+ * analysis worker can load it from the same origin.
+ * - Runs before dev and build; skips files that are already up to date.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+
+const require = createRequire(import.meta.url);
+const sourceDir = path.join(
+  path.dirname(require.resolve('kuromoji/package.json')),
+  'dict',
+);
+const targetDir = path.join(process.cwd(), 'public', 'kuromoji', 'dict');
+
+fs.mkdirSync(targetDir, { recursive: true });
+
+let copied = 0;
+for (const file of fs.readdirSync(sourceDir)) {
+  if (!file.endsWith('.dat.gz')) continue;
+
+  const source = path.join(sourceDir, file);
+  const target = path.join(targetDir, file);
+  if (
+    fs.existsSync(target) &&
+    fs.statSync(target).size === fs.statSync(source).size
+  ) {
+    continue;
+  }
+
+  fs.copyFileSync(source, target);
+  copied++;
+}
+
+console.log(`✅ kuromoji dictionary ready (${copied} file(s) copied)`);
@@ -1,66 +1,205 @@
 // scripts/generateConstants.ts
-// Run this script to generate unitSets.ts automatically
+// Run this script to generate unitSets.ts automatically, to add radical,
+// component and stroke metadata to the kanji data files and pitch accent
+// to the vocab data files
 // Usage: tsx scripts/generateConstants.ts (requires tsx: npm i -D tsx)
 // Or add to package.json: "generate:constants": "tsx scripts/generateConstants.ts"
 
-import { writeFileSync } from 'fs';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { createRequire } from 'module';
 import { join, dirname } from 'path';
-import { fileURLToPath, pathToFileURL } from 'url';
+import { fileURLToPath } from 'url';
+import { gunzipSync } from 'zlib';
+import {
+  applyKanjiMetadata,
+  parseKanjidic,
+  parseKanjiVGComponents,
+} from '../features/Kanji/lib/kanjiMetadata.js';
+import type { IKanjiObj } from '../features/Kanji/index.js';
+import { getStrokeFileName } from '../features/Writing/lib/strokeData.js';
+import {
+  getAccentKey,
+  parseNaistJdicAccents,
+} from '../shared/lib/pitchAccent.js';
 
 // ES module equivalent of __dirname
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-const staticDir = join(__dirname, '../static');
+const publicDir = join(__dirname, '../public');
+const kanjiDir = join(publicDir, 'data-kanji');
+const vocabDir = join(publicDir, 'data-vocab');
+// Downloaded metadata sources are kept here between runs (git-ignored)
+const sourcesDir = join(__dirname, 'data');
+// KanjiVG SVGs of the kanjivg-js package, also used for the Writing dojo
+const kanjiVGDir = join(
+  dirname(createRequire(import.meta.url).resolve('kanjivg-js')),
+  '..',
+  'kanji',
+);
+
+const KANJI_LEVELS = ['N5', 'N4', 'N3', 'N2', 'N1'] as const;
+const VOCAB_LEVELS = ['n5', 'n4', 'n3', 'n2', 'n1'] as const;
+
+// KANJIDIC2, © EDRDG, CC BY-SA 4.0
+const KANJIDIC_URL = 'https://www.edrdg.org/kanjidic/kanjidic2.xml.gz';
+// NAIST Japanese Dictionary with OpenJTalk's accent types, © NAIST, BSD
+// license, from the copy bundled with the node-openjtalk npm package
+const ACCENTS_URL =
+  'https://registry.npmjs.org/node-openjtalk/-/node-openjtalk-1.1.1.tgz';
+const ACCENTS_TAR_ENTRY =
+  'package/deps/open_jtalk-1.08/mecab-naist-jdic/naist-jdic.csv';
+
+type RawVocabEntry = {
+  kana: string;
+  kanji: string;
+  pitch_accent?: number[];
+};
+
+const readJson = <T>(path: string): T =>
+  JSON.parse(readFileSync(path, 'utf-8')) as T;
+
+/**
+ * Get a file out of an (uncompressed) tar archive
+ */
+function readTarEntry(tar: Buffer, name: string): Buffer {
+  let offset = 0;
+  // Each file is a 512-byte header followed by its data, padded to 512
+  while (offset + 512 <= tar.length && tar[offset] !== 0) {
+    const field = (start: number, length: number) =>
+      tar
+        .subarray(offset + start, offset + start + length)
+        .toString('utf-8')
+        .split('\0')[0];
+    const prefix = field(345, 155);
+    const entryName = prefix ? `${prefix}/${field(0, 100)}` : field(0, 100);
+    const size = parseInt(field(124, 12).trim(), 8);
+
+    if (entryName === name) {
+      return tar.subarray(offset + 512, offset + 512 + size);
+    }
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+  throw new Error(`${name} not found in archive`);
+}
 
-// Helper to convert path to file:// URL for dynamic imports
-const toFileURL = (path: string) => pathToFileURL(path).href;
+/**
+ * Read a metadata source (gunzipping .gz and .tgz files, and taking the
+ * given entry out of a .tgz), downloading it on the first run
+ */
+async function loadSource(
+  url: string,
+  fileName: string,
+  encoding: string,
+  tarEntry?: string,
+): Promise<string> {
+  const path = join(sourcesDir, fileName);
+  if (!existsSync(path)) {
+    console.log(`⬇️  Downloading ${url}...`);
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download ${url}: ${response.status}`);
+    }
+    mkdirSync(sourcesDir, { recursive: true });
+    writeFileSync(path, Buffer.from(await response.arrayBuffer()));
+  }
+  const data = readFileSync(path);
+  const unzipped = /\.(gz|tgz)$/.test(fileName) ? gunzipSync(data) : data;
+  return new TextDecoder(encoding).decode(
+    tarEntry ? readTarEntry(unzipped, tarEntry) : unzipped,
+  );
+}
 
-// Dynamic imports for data files
-async function generateConstants() {
-  try {
-    console.log('🔄 Loading data files...');
-
-    // Import kanji files
-    const n5Kanji = await import(toFileURL(join(staticDir, 'kanji/N5.js')));
-    const n4Kanji = await import(toFileURL(join(staticDir, 'kanji/N4.js')));
-    const n3Kanji = await import(toFileURL(join(staticDir, 'kanji/N3.js')));
-    const n2Kanji = await import(toFileURL(join(staticDir, 'kanji/N2.js')));
-    const n1Kanji = await import(toFileURL(join(staticDir, 'kanji/N1.js')));
-
-    // Import vocab files
-    const n5Vocab = await import(toFileURL(join(staticDir, 'vocab/n5.json')), {
-      assert: { type: 'json' },
-    });
-    const n4Vocab = await import(toFileURL(join(staticDir, 'vocab/n4.json')), {
-      assert: { type: 'json' },
-    });
-    const n3Vocab = await import(toFileURL(join(staticDir, 'vocab/n3.json')), {
-      assert: { type: 'json' },
-    });
-    const n2Vocab = await import(toFileURL(join(staticDir, 'vocab/n2.json')), {
-      assert: { type: 'json' },
-    });
-    const n1Vocab = await import(toFileURL(join(staticDir, 'vocab/n1.json')), {
-      assert: { type: 'json' },
+/**
+ * Read the components of a kanji from its KanjiVG SVG, if KanjiVG has it
+ */
+function readKanjiComponents(kanjiChar: string): string[] | undefined {
+  const path = join(kanjiVGDir, getStrokeFileName(kanjiChar));
+  return existsSync(path)
+    ? parseKanjiVGComponents(readFileSync(path, 'utf-8'))
+    : undefined;
+}
+
+async function generateKanjiMetadata() {
+  console.log('🔄 Loading kanji metadata sources...');
+  const kanjidic = parseKanjidic(
+    await loadSource(KANJIDIC_URL, 'kanjidic2.xml.gz', 'utf-8'),
+  );
+
+  for (const level of KANJI_LEVELS) {
+    const path = join(kanjiDir, `${level}.json`);
+    const entries = readJson<IKanjiObj[]>(path);
+    const components = new Map<string, string[]>();
+    for (const { kanjiChar } of entries) {
+      const parts = readKanjiComponents(kanjiChar);
+      if (parts) components.set(kanjiChar, parts);
+    }
+    const kanji = applyKanjiMetadata(entries, kanjidic, components);
+    writeFileSync(path, `${JSON.stringify(kanji, null, 2)}\n`, 'utf-8');
+
+    const missing = kanji.filter(
+      entry =>
+        entry.radical === undefined ||
+        entry.strokeCount === undefined ||
+        entry.components === undefined,
+    );
+    console.log(
+      `   ${level}: ${kanji.length - missing.length}/${kanji.length} with metadata` +
+        (missing.length > 0
+          ? ` (missing: ${missing.map(entry => entry.kanjiChar).join('')})`
+          : ''),
+    );
+  }
+}
+
+async function generateVocabPitchAccent() {
+  console.log('\n🔄 Loading pitch accent dictionary...');
+  const accents = parseNaistJdicAccents(
+    await loadSource(
+      ACCENTS_URL,
+      'node-openjtalk-1.1.1.tgz',
+      'euc-jp',
+      ACCENTS_TAR_ENTRY,
+    ),
+  );
+
+  for (const level of VOCAB_LEVELS) {
+    const path = join(vocabDir, `${level}.json`);
+    const vocab = readJson<RawVocabEntry[]>(path).map(entry => {
+      const word = entry.kanji?.trim() || entry.kana;
+      const accent =
+        accents.get(getAccentKey(word, entry.kana)) ??
+        accents.get(getAccentKey(entry.kana, entry.kana));
+      return accent ? { ...entry, pitch_accent: accent } : entry;
     });
+    writeFileSync(path, `${JSON.stringify(vocab, null, 2)}\n`, 'utf-8');
 
-    // Get lengths (handle both default exports and named exports)
-    const kanjiLengths = {
-      n5: (n5Kanji.default || n5Kanji).length,
-      n4: (n4Kanji.default || n4Kanji).length,
-      n3: (n3Kanji.default || n3Kanji).length,
-      n2: (n2Kanji.default || n2Kanji).length,
-      n1: (n1Kanji.default || n1Kanji).length,
-    };
-
-    const vocabLengths = {
-      n5: (n5Vocab.default || n5Vocab).length,
-      n4: (n4Vocab.default || n4Vocab).length,
-      n3: (n3Vocab.default || n3Vocab).length,
-      n2: (n2Vocab.default || n2Vocab).length,
-      n1: (n1Vocab.default || n1Vocab).length,
-    };
+    const withAccent = vocab.filter(entry => entry.pitch_accent).length;
+    console.log(`   ${level}: ${withAccent}/${vocab.length} with pitch accent`);
+  }
+}
+
+async function generateConstants() {
+  try {
+    await generateKanjiMetadata();
+    await generateVocabPitchAccent();
+
+    console.log('\n🔄 Loading data files...');
+
+    // Get lengths
+    const kanjiLengths = Object.fromEntries(
+      KANJI_LEVELS.map(level => [
+        level.toLowerCase(),
+        readJson<unknown[]>(join(kanjiDir, `${level}.json`)).length,
+      ]),
+    );
+
+    const vocabLengths = Object.fromEntries(
+      VOCAB_LEVELS.map(level => [
+        level,
+        readJson<unknown[]>(join(vocabDir, `${level}.json`)).length,
+      ]),
+    );
 
     // Generate the TypeScript file content
     const content = `// Auto-generated file - DO NOT EDIT MANUALLY
@@ -80,7 +219,7 @@ export const N2VocabLength = ${vocabLengths.n2};
 export const N1VocabLength = ${vocabLengths.n1};
 `;
 
-    const outputPath = join(staticDir, 'unitSets.ts');
+    const outputPath = join(__dirname, '../shared/lib/unitSets.ts');
     writeFileSync(outputPath, content, 'utf-8');
 
     console.log('✅ Generated unitSets.ts successfully!\n');
@@ -3,9 +3,10 @@
 import { Timer, ArrowLeft } from 'lucide-react';
 import { Link } from '@/core/i18n/routing';
 import clsx from 'clsx';
+import type { DojoType } from '@/shared/types/dojo';
 
 interface EmptyStateProps {
-  dojoType: 'kana' | 'kanji' | 'vocabulary';
+  dojoType: DojoType;
   dojoLabel: string;
 }
 
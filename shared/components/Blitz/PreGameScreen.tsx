@@ -16,9 +16,10 @@ import GoalTimersPanel from '@/shared/components/Timer/GoalTimersPanel';
 import { ActionButton } from '@/shared/components/ui/ActionButton';
 import { useClick } from '@/shared/hooks/useAudio';
 import type { BlitzGameMode, GoalTimer, AddGoalFn } from './types';
+import type { DojoType } from '@/shared/types/dojo';
 
 interface PreGameScreenProps {
-  dojoType: 'kana' | 'kanji' | 'vocabulary';
+  dojoType: DojoType;
   dojoLabel: string;
   itemsCount: number;
   selectedSets?: string[];
@@ -182,7 +183,7 @@ function SelectedLevelsCard({
   itemsCount,
   selectedSets,
 }: {
-  dojoType: 'kana' | 'kanji' | 'vocabulary';
+  dojoType: DojoType;
   dojoLabel: string;
   itemsCount: number;
   selectedSets?: string[];
@@ -222,7 +223,8 @@ function SelectedLevelsCard({
     return sortedSets
       .map(set => {
         const cleaned = set.replace('Set ', '').replace('Level ', '');
-        return dojoType === 'kana'
+        // Kana groups and custom set names are shown as-is
+        return dojoType === 'kana' || !/^\d/.test(cleaned)
           ? cleaned
           : `${cleaned.includes('-') ? 'Levels' : 'Level'} ${cleaned}`;
       })
@@ -1,5 +1,6 @@
 'use client';
 
+import { useState } from 'react';
 import {
   Timer,
   Target,
@@ -8,14 +9,20 @@ import {
   ArrowLeft,
   CheckCircle2,
   XCircle,
+  History,
+  ChevronDown,
+  ChevronUp,
 } from 'lucide-react';
 import { Link } from '@/core/i18n/routing';
 import clsx from 'clsx';
 import { useClick } from '@/shared/hooks/useAudio';
+import type { SessionTimeline } from '@/shared/lib/sessionTimeline';
+import SessionReplay from '@/shared/components/Game/SessionReplay';
 import type { GoalTimer } from './types';
+import type { DojoType } from '@/shared/types/dojo';
 
 interface ResultsScreenProps {
-  dojoType: 'kana' | 'kanji' | 'vocabulary';
+  dojoType: DojoType;
   challengeDuration: number;
   stats: {
     correct: number;
@@ -24,6 +31,7 @@ interface ResultsScreenProps {
   };
   showGoalTimers: boolean;
   goals: GoalTimer[];
+  timeline?: SessionTimeline | null;
   onRestart: () => void;
 }
 
@@ -33,6 +41,7 @@ export default function ResultsScreen({
   stats,
   showGoalTimers,
   goals,
+  timeline,
   onRestart,
 }: ResultsScreenProps) {
   const { playClick } = useClick();
@@ -87,6 +96,9 @@ export default function ResultsScreen({
             />
           )}
 
+          {/* Replay */}
+          {timeline && <ReplayResults timeline={timeline} />}
+
           {/* Action Buttons */}
           <div className='flex w-full flex-row items-center justify-center gap-2 md:gap-4'>
             <Link href={`/${dojoType}`} className='w-1/2'>
@@ -186,6 +198,38 @@ function MainStatsGrid({
   );
 }
 
+function ReplayResults({ timeline }: { timeline: SessionTimeline }) {
+  const { playClick } = useClick();
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className='overflow-hidden rounded-lg border border-(--border-color) bg-(--card-color)'>
+      <button
+        onClick={() => {
+          playClick();
+          setIsOpen(!isOpen);
+        }}
+        className='flex w-full items-center justify-between p-4 text-left hover:cursor-pointer'
+      >
+        <span className='flex items-center gap-2 font-semibold text-(--secondary-color)'>
+          <History size={20} className='text-(--main-color)' />
+          Replay
+        </span>
+        {isOpen ? (
+          <ChevronUp size={20} className='text-(--muted-color)' />
+        ) : (
+          <ChevronDown size={20} className='text-(--muted-color)' />
+        )}
+      </button>
+      {isOpen && (
+        <div className='border-t border-(--border-color) p-4'>
+          <SessionReplay timeline={timeline} />
+        </div>
+      )}
+    </div>
+  );
+}
+
 function GoalTimersResults({
   reachedGoals,
   missedGoals,
@@ -4,8 +4,14 @@ import { useEffect, useState, useRef, useCallback } from 'react';
 import { usePathname } from 'next/navigation';
 import { useChallengeTimer } from '@/shared/hooks/useTimer';
 import { useGoalTimers } from '@/shared/hooks/useGoalTimers';
+import { useProgressiveDifficulty } from '@/shared/hooks/useProgressiveDifficulty';
+import { useSessionTimeline } from '@/shared/hooks/useSessionTimeline';
 import { useClick, useCorrect, useError } from '@/shared/hooks/useAudio';
 import { shuffle } from '@/shared/lib/shuffle';
+import {
+  getQuestionItemId,
+  type SessionTimeline,
+} from '@/shared/lib/sessionTimeline';
 import confetti from 'canvas-confetti';
 import { useRouter } from '@/core/i18n/routing';
 import { statsTracking } from '@/features/Progress';
@@ -129,6 +135,28 @@ export default function Blitz<T>({ config }: BlitzProps<T>) {
   const generateOptionsRef = useRef(generateOptions);
   generateOptionsRef.current = generateOptions;
 
+  // Lookalike distractors grow more frequent as the player keeps answering right
+  const {
+    distractorSimilarity,
+    recordCorrect: recordDifficultyCorrect,
+    recordWrong: recordDifficultyWrong,
+    reset: resetDifficulty,
+  } = useProgressiveDifficulty();
+  const distractorSimilarityRef = useRef(distractorSimilarity);
+  distractorSimilarityRef.current = distractorSimilarity;
+
+  // Every answer, for the replay on the results screen. Latency runs from
+  // the question (or the previous try at it) to the answer.
+  const timeline = useSessionTimeline('blitz', dojoType);
+  const [replayTimeline, setReplayTimeline] = useState<SessionTimeline | null>(
+    null,
+  );
+  const questionShownAt = useRef(0);
+
+  useEffect(() => {
+    questionShownAt.current = Date.now();
+  }, [currentQuestion]);
+
   // Initialize question
   useEffect(() => {
     if (items.length > 0 && !currentQuestion) {
@@ -160,10 +188,13 @@ export default function Blitz<T>({ config }: BlitzProps<T>) {
     setLastAnswerCorrect(null);
     setWrongSelectedAnswers([]);
     goalTimers.resetGoals();
+    timeline.start(gameMode);
     resetTimer();
     startTimer();
     setIsBlitzBooting(false);
   }, [
+    gameMode,
+    timeline,
     currentQuestion,
     isBlitzRoute,
     isFinished,
@@ -187,6 +218,7 @@ export default function Blitz<T>({ config }: BlitzProps<T>) {
         items,
         3,
         isReverseActive,
+        distractorSimilarityRef.current,
       );
       setShuffledOptions(shuffle(options));
       setWrongSelectedAnswers([]);
@@ -198,6 +230,7 @@ export default function Blitz<T>({ config }: BlitzProps<T>) {
   useEffect(() => {
     if (timeLeft === 0 && !isFinished) {
       setIsFinished(true);
+      setReplayTimeline(timeline.finish());
       confetti({ particleCount: 100, spread: 70, origin: { y: 0.6 } });
       // Track blitz stats for achievements
       statsTracking.recordBlitzSession({
@@ -207,7 +240,14 @@ export default function Blitz<T>({ config }: BlitzProps<T>) {
         wrongAnswers: stats.wrong,
       });
     }
-  }, [timeLeft, isFinished, stats.correct, stats.wrong, stats.bestStreak]);
+  }, [
+    timeLeft,
+    isFinished,
+    stats.correct,
+    stats.wrong,
+    stats.bestStreak,
+    timeline,
+  ]);
 
   // Track challenge mode usage on mount
   useEffect(() => {
@@ -227,12 +267,14 @@ export default function Blitz<T>({ config }: BlitzProps<T>) {
   const handleStart = useCallback(() => {
     playClick();
     stats.reset();
+    resetDifficulty();
     setIsFinished(false);
     setUserAnswer('');
     setLastAnswerCorrect(null);
     setWrongSelectedAnswers([]);
     setCurrentQuestion(generateQuestionRef.current(items));
     goalTimers.resetGoals();
+    timeline.start(gameMode);
     resetTimer();
     setTimeout(() => startTimer(), 50);
     setTimeout(() => {
@@ -260,6 +302,26 @@ export default function Blitz<T>({ config }: BlitzProps<T>) {
     setWrongSelectedAnswers([]);
   };
 
+  const recordTimelineAnswer = (
+    question: T,
+    answer: string,
+    isCorrect: boolean,
+    options?: string[],
+  ) => {
+    const now = Date.now();
+    timeline.recordAnswer({
+      question: getQuestionItemId(question),
+      correctAnswer: options
+        ? (getCorrectOption?.(question, isReverseActive) ?? '')
+        : getCorrectAnswer(question, isReverseActive),
+      options,
+      answer,
+      isCorrect,
+      latencyMs: Math.max(0, now - questionShownAt.current),
+    });
+    questionShownAt.current = now;
+  };
+
   const handleSubmit = (e?: React.FormEvent) => {
     e?.preventDefault();
     if (!currentQuestion || !userAnswer.trim()) return;
@@ -270,10 +332,12 @@ export default function Blitz<T>({ config }: BlitzProps<T>) {
       userAnswer.trim(),
       isReverseActive,
     );
+    recordTimelineAnswer(currentQuestion, userAnswer.trim(), isCorrect);
 
     if (isCorrect) {
       playCorrect();
       stats.incrementCorrect();
+      recordDifficultyCorrect();
       setLastAnswerCorrect(true);
       setTimeout(() => {
         setCurrentQuestion(generateQuestionRef.current(items));
@@ -282,6 +346,7 @@ export default function Blitz<T>({ config }: BlitzProps<T>) {
     } else {
       playError();
       stats.incrementWrong();
+      recordDifficultyWrong();
       setLastAnswerCorrect(false);
       setTimeout(() => setLastAnswerCorrect(null), 800);
     }
@@ -293,10 +358,17 @@ export default function Blitz<T>({ config }: BlitzProps<T>) {
 
     const correctOption = getCorrectOption(currentQuestion, isReverseActive);
     const isCorrect = selectedOption === correctOption;
+    recordTimelineAnswer(
+      currentQuestion,
+      selectedOption,
+      isCorrect,
+      shuffledOptions,
+    );
 
     if (isCorrect) {
       playCorrect();
       stats.incrementCorrect();
+      recordDifficultyCorrect();
       setLastAnswerCorrect(true);
       setWrongSelectedAnswers([]);
       setTimeout(() => {
@@ -306,6 +378,7 @@ export default function Blitz<T>({ config }: BlitzProps<T>) {
     } else {
       playError();
       stats.incrementWrong();
+      recordDifficultyWrong();
       setWrongSelectedAnswers(prev => [...prev, selectedOption]);
       setLastAnswerCorrect(false);
     }
@@ -357,6 +430,7 @@ export default function Blitz<T>({ config }: BlitzProps<T>) {
         }}
         showGoalTimers={showGoalTimers}
         goals={goalTimers.goals}
+        timeline={replayTimeline}
         onRestart={handleStart}
       />
     );
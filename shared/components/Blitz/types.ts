@@ -1,10 +1,11 @@
 import React from 'react';
+import type { DojoType } from '@/shared/types/dojo';
 
 export type BlitzGameMode = 'Pick' | 'Type';
 
 export interface BlitzConfig<T> {
   // Identity
-  dojoType: 'kana' | 'kanji' | 'vocabulary';
+  dojoType: DojoType;
   dojoLabel: string;
   localStorageKey: string;
   goalTimerContext: string;
@@ -26,12 +27,14 @@ export interface BlitzConfig<T> {
   checkAnswer: (question: T, answer: string, isReverse?: boolean) => boolean;
   getCorrectAnswer: (question: T, isReverse?: boolean) => string;
 
-  // Pick mode support
+  // Pick mode support. `similarity` (0-1) is the share of distractors to
+  // take from lookalikes, raised by useProgressiveDifficulty
   generateOptions?: (
     question: T,
     items: T[],
     count: number,
     isReverse?: boolean,
+    similarity?: number,
   ) => string[];
   renderOption?: (
     option: string,
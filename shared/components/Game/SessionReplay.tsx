@@ -0,0 +1,189 @@
+'use client';
+
+import { useState } from 'react';
+import clsx from 'clsx';
+import { ChevronLeft, ChevronRight, Heart } from 'lucide-react';
+import { useClick } from '@/shared/hooks/useAudio';
+import {
+  getRegensByAnswer,
+  getTimelineAnswers,
+  getTimelinePoints,
+  type SessionTimeline,
+} from '@/shared/lib/sessionTimeline';
+
+// Chart size in SVG units; it scales to the container width
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 100;
+
+interface SessionReplayProps {
+  timeline: SessionTimeline;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+/**
+ * Steps through a recorded run answer by answer, above a chart of latency
+ * (bars, green when right) and rolling accuracy (line)
+ */
+export default function SessionReplay({ timeline }: SessionReplayProps) {
+  const { playClick } = useClick();
+  const answers = getTimelineAnswers(timeline);
+  const points = getTimelinePoints(timeline);
+  const regensByAnswer = getRegensByAnswer(timeline);
+  const [step, setStep] = useState(0);
+
+  if (answers.length === 0) {
+    return (
+      <p className='text-sm text-(--muted-color)'>No answers were recorded.</p>
+    );
+  }
+
+  const current = answers[Math.min(step, answers.length - 1)];
+  const regens = regensByAnswer.get(step + 1) ?? [];
+  const maxLatency = Math.max(...points.map(point => point.latencyMs), 1);
+  const barWidth = CHART_WIDTH / points.length;
+
+  const goTo = (next: number) => {
+    playClick();
+    setStep(Math.max(0, Math.min(answers.length - 1, next)));
+  };
+
+  const accuracyLine = points
+    .map(
+      (point, index) =>
+        `${(index + 0.5) * barWidth},${CHART_HEIGHT * (1 - point.rollingAccuracy)}`,
+    )
+    .join(' ');
+
+  return (
+    <div className='space-y-4'>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio='none'
+        className='h-28 w-full rounded-lg bg-(--background-color)'
+        role='img'
+        aria-label='Answer time and rolling accuracy over the run'
+      >
+        {points.map((point, index) => {
+          const height = (point.latencyMs / maxLatency) * CHART_HEIGHT;
+          return (
+            <rect
+              key={point.answerNumber}
+              x={index * barWidth + barWidth * 0.1}
+              y={CHART_HEIGHT - height}
+              width={barWidth * 0.8}
+              height={height}
+              onClick={() => goTo(index)}
+              className={clsx(
+                'cursor-pointer',
+                point.isCorrect ? 'fill-green-500' : 'fill-red-500',
+                index === step ? 'opacity-100' : 'opacity-40',
+              )}
+            />
+          );
+        })}
+        <polyline
+          points={accuracyLine}
+          fill='none'
+          strokeWidth={2}
+          vectorEffect='non-scaling-stroke'
+          className='pointer-events-none stroke-(--main-color)'
+        />
+      </svg>
+      <div className='flex justify-between text-xs text-(--muted-color)'>
+        <span>Bars: answer time (max {formatSeconds(maxLatency)})</span>
+        <span>Line: accuracy over the last answers</span>
+      </div>
+
+      <div className='rounded-lg bg-(--background-color) p-4'>
+        <div className='flex items-center justify-between text-sm text-(--muted-color)'>
+          <span>
+            Answer {step + 1} / {answers.length}
+          </span>
+          <span className={clsx(current.timedOut && 'text-red-500')}>
+            {current.timedOut
+              ? `Time's up (${formatSeconds(current.latencyMs)})`
+              : formatSeconds(current.latencyMs)}
+          </span>
+        </div>
+        <p className='mt-2 text-3xl font-medium text-(--main-color)' lang='ja'>
+          {current.question}
+        </p>
+
+        {current.options ? (
+          <div className='mt-3 grid grid-cols-2 gap-2'>
+            {current.options.map(option => (
+              <span
+                key={option}
+                className={clsx(
+                  'rounded-lg border px-3 py-2 text-center',
+                  option === current.correctAnswer
+                    ? 'border-green-500 text-green-500'
+                    : option === current.answer
+                      ? 'border-red-500 text-red-500'
+                      : 'border-(--border-color) text-(--muted-color)',
+                )}
+              >
+                {option}
+              </span>
+            ))}
+          </div>
+        ) : (
+          <div className='mt-3 space-y-1 text-sm'>
+            <p
+              className={current.isCorrect ? 'text-green-500' : 'text-red-500'}
+            >
+              Answered: {current.answer || '—'}
+            </p>
+            {!current.isCorrect && (
+              <p className='text-(--secondary-color)'>
+                Correct: {current.correctAnswer}
+              </p>
+            )}
+          </div>
+        )}
+
+        {current.livesBefore !== undefined &&
+          current.livesAfter !== undefined && (
+            <p className='mt-3 flex items-center gap-1 text-sm text-(--secondary-color)'>
+              <Heart size={14} />
+              {current.livesBefore} → {current.livesAfter}
+            </p>
+          )}
+        {regens.map((regen, index) => (
+          <p key={index} className='mt-1 text-sm text-(--main-color)'>
+            Life regenerated: {regen.livesBefore} → {regen.livesAfter}
+          </p>
+        ))}
+      </div>
+
+      <div className='flex items-center gap-3'>
+        <button
+          onClick={() => goTo(step - 1)}
+          disabled={step === 0}
+          aria-label='Previous answer'
+          className='rounded-lg p-2 text-(--secondary-color) hover:bg-(--border-color)/20 disabled:opacity-30'
+        >
+          <ChevronLeft size={20} />
+        </button>
+        <input
+          type='range'
+          min={0}
+          max={answers.length - 1}
+          value={step}
+          onChange={event => setStep(Number(event.target.value))}
+          aria-label='Answer'
+          className='flex-1 accent-(--main-color)'
+        />
+        <button
+          onClick={() => goTo(step + 1)}
+          disabled={step === answers.length - 1}
+          aria-label='Next answer'
+          className='rounded-lg p-2 text-(--secondary-color) hover:bg-(--border-color)/20 disabled:opacity-30'
+        >
+          <ChevronRight size={20} />
+        </button>
+      </div>
+    </div>
+  );
+}
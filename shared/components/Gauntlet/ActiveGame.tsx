@@ -15,7 +15,7 @@ import {
   type Variants,
   type MotionStyle,
 } from 'framer-motion';
-import { Heart, HeartCrack, X } from 'lucide-react';
+import { Heart, HeartCrack, Timer, X } from 'lucide-react';
 import {
   GameBottomBar,
   type BottomBarState,
@@ -26,6 +26,7 @@ import { useClick } from '@/shared/hooks/useAudio';
 import { cn } from '@/shared/lib/utils';
 import { useThemePreferences } from '@/features/Preferences';
 import type { GauntletGameMode } from './types';
+import type { DojoType } from '@/shared/types/dojo';
 
 // Duolingo-like spring animation config
 const springConfig = {
@@ -214,7 +215,7 @@ BlankTile.displayName = 'BlankTile';
 
 interface ActiveGameProps<T> {
   // Dojo type for layout customization
-  dojoType: 'kana' | 'kanji' | 'vocabulary';
+  dojoType: DojoType;
 
   // Game mode
   gameMode: GauntletGameMode;
@@ -227,6 +228,9 @@ interface ActiveGameProps<T> {
   lives: number;
   maxLives: number;
 
+  // Milliseconds to answer the current question; 0 for no limit
+  questionTimeBudgetMs?: number;
+
   // Question display
   currentQuestion: T | null;
   renderQuestion: (question: T, isReverse?: boolean) => React.ReactNode;
@@ -242,7 +246,11 @@ interface ActiveGameProps<T> {
   items: T[];
 
   // Answer handling
-  onSubmit: (selectedOption: string, isCorrect: boolean) => void;
+  onSubmit: (
+    selectedOption: string,
+    isCorrect: boolean,
+    timedOut: boolean,
+  ) => void;
   getCorrectOption: (question: T, isReverse?: boolean) => string;
 
   // Type mode
@@ -265,6 +273,7 @@ export default function ActiveGame<T>({
   totalQuestions,
   lives,
   maxLives,
+  questionTimeBudgetMs = 0,
   currentQuestion,
   renderQuestion,
   isReverseActive,
@@ -296,10 +305,15 @@ export default function ActiveGame<T>({
   const [checkedResult, setCheckedResult] = useState<{
     selectedOption: string;
     isCorrect: boolean;
+    timedOut?: boolean;
   } | null>(null);
+  const [timeLeftMs, setTimeLeftMs] = useState(questionTimeBudgetMs);
+  const questionShownAt = useRef(0);
 
   // Reset state when question changes
   useEffect(() => {
+    questionShownAt.current = Date.now();
+    setTimeLeftMs(questionTimeBudgetMs);
     setPlacedTiles([]);
     setBottomBarState('check');
     setIsChecking(false);
@@ -310,7 +324,28 @@ export default function ActiveGame<T>({
       // Focus the input after a small delay to allow render
       setTimeout(() => inputRef.current?.focus(), 100);
     }
-  }, [questionKey, isTypeMode, setUserAnswer]);
+  }, [questionKey, isTypeMode, setUserAnswer, questionTimeBudgetMs]);
+
+  // Count down while the question is open; running out locks in a timeout
+  // with nothing selected
+  useEffect(() => {
+    if (!questionTimeBudgetMs || isChecking) return;
+    const interval = setInterval(() => {
+      const left =
+        questionTimeBudgetMs - (Date.now() - questionShownAt.current);
+      setTimeLeftMs(Math.max(0, left));
+      if (left <= 0) {
+        setIsChecking(true);
+        setCheckedResult({
+          selectedOption: '',
+          isCorrect: false,
+          timedOut: true,
+        });
+        setBottomBarState('wrong');
+      }
+    }, 100);
+    return () => clearInterval(interval);
+  }, [questionTimeBudgetMs, isChecking, questionKey]);
 
   // Keyboard shortcut for Enter/Space to trigger the action button.
   // In Type mode, Enter triggers Check/Continue from the input field.
@@ -415,7 +450,11 @@ export default function ActiveGame<T>({
 
     // Use the locked-in result from check time (not recalculated from current tiles)
     if (checkedResult) {
-      onSubmit(checkedResult.selectedOption, checkedResult.isCorrect);
+      onSubmit(
+        checkedResult.selectedOption,
+        checkedResult.isCorrect,
+        !!checkedResult.timedOut,
+      );
     }
   }, [playClick, checkedResult, onSubmit]);
 
@@ -447,6 +486,9 @@ export default function ActiveGame<T>({
     : placedTiles.length > 0 && !isChecking;
   const showContinue = bottomBarState === 'correct';
   const showTryAgain = bottomBarState === 'wrong';
+  const timedOut = !!checkedResult?.timedOut;
+  const timeLeftShare =
+    questionTimeBudgetMs > 0 ? timeLeftMs / questionTimeBudgetMs : 0;
 
   // Sizing classes based on dojoType (matching exact sizes from each WordBuildingGame)
   // Kana: tiles text-2xl sm:text-3xl, question text-7xl sm:text-8xl
@@ -498,6 +540,17 @@ export default function ActiveGame<T>({
           <span>
             {currentIndex} / {totalQuestions}
           </span>
+          {questionTimeBudgetMs > 0 && (
+            <span
+              className={clsx(
+                'flex items-center gap-1 tabular-nums',
+                timeLeftMs <= 3000 && !isChecking && 'text-red-500',
+              )}
+            >
+              <Timer size={14} />
+              {Math.ceil(timeLeftMs / 1000)}s
+            </span>
+          )}
         </div>
 
         {/* Lives Display */}
@@ -525,6 +578,23 @@ export default function ActiveGame<T>({
         <ProgressBar value={currentIndex} max={totalQuestions} />
       </div>
 
+      {/* Question Timer - depletes until the answer is checked */}
+      {questionTimeBudgetMs > 0 && (
+        <div
+          role='timer'
+          aria-label='Time left'
+          className='mt-2 h-1.5 w-full overflow-hidden rounded-full bg-(--border-color)/30 md:w-2/3 lg:w-1/2'
+        >
+          <div
+            className={clsx(
+              'h-full rounded-full transition-[width] duration-100 ease-linear',
+              timeLeftShare <= 0.25 ? 'bg-red-500' : 'bg-(--main-color)',
+            )}
+            style={{ width: `${timeLeftShare * 100}%` }}
+          />
+        </div>
+      )}
+
       {/* Main Game Area - EXACTLY matching WordBuildingGame */}
       <div className='mt-8 flex w-full flex-col items-center gap-6 sm:mt-12 sm:w-4/5 sm:gap-10'>
         <AnimatePresence mode='wait'>
@@ -698,7 +768,13 @@ export default function ActiveGame<T>({
           onAction={showContinue || showTryAgain ? handleContinue : handleCheck}
           canCheck={canCheck}
           feedbackTitle={
-            showContinue ? 'Correct!' : showTryAgain ? 'Wrong!' : ''
+            showContinue
+              ? 'Correct!'
+              : showTryAgain
+                ? timedOut
+                  ? "Time's up!"
+                  : 'Wrong!'
+                : ''
           }
           feedbackContent={
             showTryAgain && currentQuestion
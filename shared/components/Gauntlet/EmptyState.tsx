@@ -3,9 +3,10 @@
 import clsx from 'clsx';
 import { Link } from '@/core/i18n/routing';
 import { Swords, ArrowLeft } from 'lucide-react';
+import type { DojoType } from '@/shared/types/dojo';
 
 interface EmptyStateProps {
-  dojoType: 'kana' | 'kanji' | 'vocabulary';
+  dojoType: DojoType;
   dojoLabel: string;
 }
 
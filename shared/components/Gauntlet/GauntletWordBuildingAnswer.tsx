@@ -5,9 +5,10 @@ import { AnimatePresence, motion, type Variants } from 'framer-motion';
 import clsx from 'clsx';
 import { ActionButton } from '@/shared/components/ui/ActionButton';
 import { GameBottomBar } from '@/shared/components/Game/GameBottomBar';
+import type { DojoType } from '@/shared/types/dojo';
 
 interface GauntletWordBuildingAnswerProps {
-  dojoType: 'kana' | 'kanji' | 'vocabulary';
+  dojoType: DojoType;
   options: string[];
   disabledOptions: string[];
   onSubmit: (option: string) => void;
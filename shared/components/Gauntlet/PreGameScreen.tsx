@@ -13,20 +13,26 @@ import {
   Shield,
   Skull,
   Zap,
+  SlidersHorizontal,
 } from 'lucide-react';
 import { useClick } from '@/shared/hooks/useAudio';
 import {
   DIFFICULTY_CONFIG,
+  QUESTION_TIMER_OPTIONS,
   REPETITION_OPTIONS,
   type GauntletDifficulty,
   type GauntletGameMode,
+  type QuestionTimerSeconds,
   type RepetitionCount,
 } from './types';
 import { ActionButton } from '@/shared/components/ui/ActionButton';
 import { cn } from '@/shared/lib/utils';
+import type { GauntletPreset } from '@/shared/lib/gauntletPresets';
+import PresetBuilder from './PresetBuilder';
+import type { DojoType } from '@/shared/types/dojo';
 
 interface PreGameScreenProps {
-  dojoType: 'kana' | 'kanji' | 'vocabulary';
+  dojoType: DojoType;
   dojoLabel: string;
   itemsCount: number;
   selectedSets: string[];
@@ -36,8 +42,14 @@ interface PreGameScreenProps {
   setDifficulty: (difficulty: GauntletDifficulty) => void;
   repetitions: RepetitionCount;
   setRepetitions: (reps: RepetitionCount) => void;
+  questionTimer: QuestionTimerSeconds;
+  setQuestionTimer: (seconds: QuestionTimerSeconds) => void;
   pickModeSupported: boolean;
-  onStart?: () => void; // Kept for backwards compatibility but no longer used
+  // Custom difficulty: the selected preset, null if none is saved yet
+  preset: GauntletPreset | null;
+  reverseSupported: boolean;
+  // Starts in place; without it, Start navigates to the gauntlet route
+  onStart?: () => void;
   onCancel?: () => void; // Optional callback to handle back/cancel in modal mode
 }
 
@@ -45,6 +57,7 @@ const difficultyIcons: Record<GauntletDifficulty, React.ReactNode> = {
   normal: <Shield size={24} />,
   hard: <Zap size={24} />,
   'instant-death': <Skull size={24} />,
+  custom: <SlidersHorizontal size={24} />,
 };
 
 const GAME_MODES: Array<{
@@ -78,7 +91,12 @@ export default function PreGameScreen({
   setDifficulty,
   repetitions,
   setRepetitions,
+  questionTimer,
+  setQuestionTimer,
   pickModeSupported,
+  preset,
+  reverseSupported,
+  onStart,
   onCancel,
 }: PreGameScreenProps) {
   const { playClick } = useClick();
@@ -96,9 +114,14 @@ export default function PreGameScreen({
     }
   };
 
+  const isCustom = difficulty === 'custom';
+  const effectiveRepetitions =
+    isCustom && preset ? preset.repetitions : repetitions;
+  const canStart = !isCustom || preset !== null;
+
   const totalQuestions = useMemo(
-    () => itemsCount * repetitions,
-    [itemsCount, repetitions],
+    () => itemsCount * effectiveRepetitions,
+    [itemsCount, effectiveRepetitions],
   );
   const estimatedMinutes = useMemo(
     () => Math.ceil((totalQuestions * 3) / 60),
@@ -120,6 +143,23 @@ export default function PreGameScreen({
     [playClick, setDifficulty],
   );
 
+  const startButton = (
+    <button
+      disabled={!canStart}
+      onClick={() => (onStart ? onStart() : playClick())}
+      className={clsx(
+        'flex w-full flex-row items-center justify-center gap-2 px-2 py-3 sm:px-6',
+        'rounded-3xl transition-colors duration-200',
+        'border-b-10',
+        'hover:cursor-pointer disabled:cursor-not-allowed disabled:opacity-50',
+        'border-(--main-color-accent) bg-(--main-color) text-(--background-color)',
+      )}
+    >
+      <Play className='fill-current' size={20} />
+      <span className='whitespace-nowrap'>Start Gauntlet</span>
+    </button>
+  );
+
   // Shared design toggle for Difficulty and Mode selector sections:
   // true = New design (ActionButtons with main/secondary colors and opacity)
   // false = Old design (transparent non-selected or detailed cards)
@@ -150,8 +190,8 @@ export default function PreGameScreen({
                 {selectedSetsLabel}
               </span>
               <span className='text-xs text-(--secondary-color)'>
-                {itemsCount} characters × {repetitions} = {totalQuestions}{' '}
-                questions (~{estimatedMinutes} min)
+                {itemsCount} characters × {effectiveRepetitions} ={' '}
+                {totalQuestions} questions (~{estimatedMinutes} min)
               </span>
             </div>
           </div>
@@ -251,6 +291,14 @@ export default function PreGameScreen({
             );
           })()}
 
+          {/* Custom challenge builder */}
+          {isCustom && (
+            <PresetBuilder
+              dojoType={dojoType}
+              reverseSupported={reverseSupported}
+            />
+          )}
+
           {/* Game Mode Cards */}
           {(() => {
             if (useNewSelectorDesign) {
@@ -269,7 +317,10 @@ export default function PreGameScreen({
                       const isSelected = mode.id === gameMode;
                       const Icon = mode.icon;
                       const isDisabled =
-                        mode.id === 'Pick' && !pickModeSupported;
+                        (mode.id === 'Pick' && !pickModeSupported) ||
+                        (isCustom &&
+                          !!preset &&
+                          !preset.allowedModes.includes(mode.id));
 
                       return (
                         <ActionButton
@@ -311,7 +362,11 @@ export default function PreGameScreen({
                 {gameModes.map(mode => {
                   const isSelected = mode.id === gameMode;
                   const Icon = mode.icon;
-                  const isDisabled = mode.id === 'Pick' && !pickModeSupported;
+                  const isDisabled =
+                    (mode.id === 'Pick' && !pickModeSupported) ||
+                    (isCustom &&
+                      !!preset &&
+                      !preset.allowedModes.includes(mode.id));
 
                   return (
                     <button
@@ -382,33 +437,77 @@ export default function PreGameScreen({
             );
           })()}
 
-          {/* Repetitions per character */}
-          <div className='space-y-3 rounded-2xl bg-(--card-color) p-4'>
-            <p className='text-sm font-medium text-(--main-color)'>
-              Repetitions per character:
-            </p>
-            <div className='flex flex-wrap justify-center gap-2'>
-              {REPETITION_OPTIONS.map(rep => (
-                <ActionButton
-                  key={rep}
-                  onClick={() => {
-                    playClick();
-                    setRepetitions(rep);
-                  }}
-                  colorScheme={repetitions === rep ? 'main' : 'secondary'}
-                  borderColorScheme={repetitions === rep ? 'main' : 'secondary'}
-                  borderBottomThickness={10}
-                  borderRadius='3xl'
-                  className={clsx(
-                    'w-auto px-4 py-2',
-                    repetitions !== rep && 'opacity-60',
-                  )}
-                >
-                  {rep}×
-                </ActionButton>
-              ))}
+          {/* Repetitions per character (custom challenges set their own) */}
+          {!isCustom && (
+            <div className='space-y-3 rounded-2xl bg-(--card-color) p-4'>
+              <p className='text-sm font-medium text-(--main-color)'>
+                Repetitions per character:
+              </p>
+              <div className='flex flex-wrap justify-center gap-2'>
+                {REPETITION_OPTIONS.map(rep => (
+                  <ActionButton
+                    key={rep}
+                    onClick={() => {
+                      playClick();
+                      setRepetitions(rep);
+                    }}
+                    colorScheme={repetitions === rep ? 'main' : 'secondary'}
+                    borderColorScheme={
+                      repetitions === rep ? 'main' : 'secondary'
+                    }
+                    borderBottomThickness={10}
+                    borderRadius='3xl'
+                    className={clsx(
+                      'w-auto px-4 py-2',
+                      repetitions !== rep && 'opacity-60',
+                    )}
+                  >
+                    {rep}×
+                  </ActionButton>
+                ))}
+              </div>
             </div>
-          </div>
+          )}
+
+          {/* Per-question timer (custom challenges set their own) */}
+          {!isCustom && (
+            <div className='space-y-3 rounded-2xl bg-(--card-color) p-4'>
+              <p className='text-sm font-medium text-(--main-color)'>
+                Time per question:
+              </p>
+              <div className='flex flex-wrap justify-center gap-2'>
+                {QUESTION_TIMER_OPTIONS.map(seconds => (
+                  <ActionButton
+                    key={seconds}
+                    onClick={() => {
+                      playClick();
+                      setQuestionTimer(seconds);
+                    }}
+                    colorScheme={
+                      questionTimer === seconds ? 'main' : 'secondary'
+                    }
+                    borderColorScheme={
+                      questionTimer === seconds ? 'main' : 'secondary'
+                    }
+                    borderBottomThickness={10}
+                    borderRadius='3xl'
+                    className={clsx(
+                      'w-auto px-4 py-2',
+                      questionTimer !== seconds && 'opacity-60',
+                    )}
+                  >
+                    {seconds === 0 ? 'Off' : `${seconds}s`}
+                  </ActionButton>
+                ))}
+              </div>
+              {questionTimer > 0 && (
+                <p className='text-center text-xs text-(--secondary-color)'>
+                  Running out of time costs a life, and the clock gets shorter
+                  as your streak grows.
+                </p>
+              )}
+            </div>
+          )}
 
           {/* Action Buttons */}
           <div className='flex flex-row items-center justify-center gap-2 pt-2 md:gap-4'>
@@ -426,22 +525,18 @@ export default function PreGameScreen({
               <span className='whitespace-nowrap'>Back</span>
             </button>
 
-            {/* Start button: Navigate to gauntlet route to start the game */}
-            <Link href={`/${dojoType}/gauntlet`} className='w-1/2'>
-              <button
-                onClick={() => playClick()}
-                className={clsx(
-                  'flex w-full flex-row items-center justify-center gap-2 px-2 py-3 sm:px-6',
-                  'rounded-3xl transition-colors duration-200',
-                  'border-b-10',
-                  'hover:cursor-pointer',
-                  'border-(--main-color-accent) bg-(--main-color) text-(--background-color)',
-                )}
+            {/* Start button: on the gauntlet route start in place (e.g. after
+                opening a challenge link), otherwise navigate to the route */}
+            {onStart ? (
+              <div className='w-1/2'>{startButton}</div>
+            ) : (
+              <Link
+                href={`/${dojoType}/gauntlet`}
+                className={clsx('w-1/2', !canStart && 'pointer-events-none')}
               >
-                <Play className='fill-current' size={20} />
-                <span className='whitespace-nowrap'>Start Gauntlet</span>
-              </button>
-            </Link>
+                {startButton}
+              </Link>
+            )}
           </div>
         </div>
       </div>
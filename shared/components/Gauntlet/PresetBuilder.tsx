@@ -0,0 +1,301 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import clsx from 'clsx';
+import { Link2, Minus, Plus, Trash2 } from 'lucide-react';
+import { useClick } from '@/shared/hooks/useAudio';
+import useGauntletSettingsStore from '@/shared/store/useGauntletSettingsStore';
+import {
+  DEFAULT_PRESET_RULES,
+  GAUNTLET_PRESET_PARAM,
+  PRESET_LIMITS,
+  PRESET_NAME_MAX_LENGTH,
+  encodePresetLink,
+  generatePresetId,
+  normalizePresetRules,
+  type GauntletPreset,
+  type GauntletPresetMode,
+} from '@/shared/lib/gauntletPresets';
+import { formatTime, getPresetStats } from '@/shared/lib/gauntletStats';
+import type { DojoType } from '@/shared/types/dojo';
+
+interface PresetBuilderProps {
+  dojoType: DojoType;
+  reverseSupported: boolean;
+}
+
+type PresetStats = Awaited<ReturnType<typeof getPresetStats>>;
+
+const MODES: GauntletPresetMode[] = ['Pick', 'Type'];
+
+function Stepper({
+  label,
+  value,
+  min,
+  max,
+  format = String,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  format?: (value: number) => string;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className='flex items-center justify-between gap-2'>
+      <span className='text-sm text-(--secondary-color)'>{label}</span>
+      <div className='flex items-center gap-2'>
+        <button
+          onClick={() => onChange(value - 1)}
+          disabled={value <= min}
+          aria-label={`Less ${label.toLowerCase()}`}
+          className='rounded-lg p-1 text-(--secondary-color) hover:cursor-pointer hover:text-(--main-color) disabled:cursor-not-allowed disabled:opacity-30'
+        >
+          <Minus size={16} />
+        </button>
+        <span className='w-16 text-center text-sm font-medium text-(--main-color)'>
+          {format(value)}
+        </span>
+        <button
+          onClick={() => onChange(value + 1)}
+          disabled={value >= max}
+          aria-label={`More ${label.toLowerCase()}`}
+          className='rounded-lg p-1 text-(--secondary-color) hover:cursor-pointer hover:text-(--main-color) disabled:cursor-not-allowed disabled:opacity-30'
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Builds custom challenges for the 'custom' difficulty. Changes save as
+ * they are made; the selected preset is the one the dojo plays.
+ */
+export default function PresetBuilder({
+  dojoType,
+  reverseSupported,
+}: PresetBuilderProps) {
+  const { playClick } = useClick();
+  const presets = useGauntletSettingsStore(state => state.presets);
+  const presetIds = useGauntletSettingsStore(state => state.presetIds);
+  const savePreset = useGauntletSettingsStore(state => state.savePreset);
+  const deletePreset = useGauntletSettingsStore(state => state.deletePreset);
+  const setPresetId = useGauntletSettingsStore(state => state.setPresetId);
+
+  const preset =
+    presets.find(p => p.id === presetIds[dojoType]) ?? presets[0] ?? null;
+
+  const [stats, setStats] = useState<PresetStats | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const presetId = preset?.id;
+  useEffect(() => {
+    setMessage(null);
+    if (!presetId) {
+      setStats(null);
+      return;
+    }
+    let cancelled = false;
+    getPresetStats(presetId).then(result => {
+      if (!cancelled) setStats(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [presetId]);
+
+  const createPreset = () => {
+    playClick();
+    const created: GauntletPreset = {
+      id: generatePresetId(),
+      name: `Challenge ${presets.length + 1}`,
+      ...DEFAULT_PRESET_RULES,
+    };
+    savePreset(created);
+    setPresetId(dojoType, created.id);
+  };
+
+  const update = (changes: Partial<GauntletPreset>) => {
+    if (!preset) return;
+    const next = { ...preset, ...changes };
+    savePreset({ ...next, ...normalizePresetRules(next) });
+  };
+
+  const toggleMode = (mode: GauntletPresetMode) => {
+    if (!preset) return;
+    playClick();
+    const allowedModes = preset.allowedModes.includes(mode)
+      ? preset.allowedModes.filter(m => m !== mode)
+      : MODES.filter(m => m === mode || preset.allowedModes.includes(m));
+    // A challenge needs at least one mode to play in
+    if (allowedModes.length > 0) update({ allowedModes });
+  };
+
+  const copyLink = async () => {
+    if (!preset) return;
+    playClick();
+    const base = window.location.pathname.replace(/\/gauntlet\/?$/, '');
+    const url = `${window.location.origin}${base}/gauntlet?${GAUNTLET_PRESET_PARAM}=${encodePresetLink(preset)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setMessage('Challenge link copied');
+    } catch {
+      setMessage(url);
+    }
+  };
+
+  return (
+    <div className='space-y-4 rounded-2xl bg-(--card-color) p-4'>
+      <div className='flex flex-wrap gap-2'>
+        {presets.map(p => (
+          <button
+            key={p.id}
+            onClick={() => {
+              playClick();
+              setPresetId(dojoType, p.id);
+            }}
+            className={clsx(
+              'rounded-xl px-3 py-1.5 text-sm hover:cursor-pointer',
+              p.id === preset?.id
+                ? 'bg-(--main-color) text-(--background-color)'
+                : 'border border-(--border-color) text-(--secondary-color) hover:text-(--main-color)',
+            )}
+          >
+            {p.name || 'Untitled'}
+          </button>
+        ))}
+        <button
+          onClick={createPreset}
+          className='flex items-center gap-1 rounded-xl border border-dashed border-(--border-color) px-3 py-1.5 text-sm text-(--secondary-color) hover:cursor-pointer hover:text-(--main-color)'
+        >
+          <Plus size={14} />
+          New challenge
+        </button>
+      </div>
+
+      {preset ? (
+        <>
+          <input
+            type='text'
+            value={preset.name}
+            maxLength={PRESET_NAME_MAX_LENGTH}
+            onChange={e => update({ name: e.target.value })}
+            aria-label='Challenge name'
+            className='w-full rounded-xl border-2 border-(--border-color) bg-transparent px-3 py-2 text-(--secondary-color) outline-none focus:border-(--main-color)'
+          />
+
+          <div className='space-y-2'>
+            <Stepper
+              label='Lives'
+              value={preset.lives}
+              {...PRESET_LIMITS.lives}
+              onChange={lives => update({ lives })}
+            />
+            <Stepper
+              label='Regain a life every'
+              value={preset.regenThreshold}
+              {...PRESET_LIMITS.regenThreshold}
+              format={value => (value === 0 ? 'Never' : `${value} right`)}
+              onChange={regenThreshold => update({ regenThreshold })}
+            />
+            <Stepper
+              label='Repetitions per character'
+              value={preset.repetitions}
+              {...PRESET_LIMITS.repetitions}
+              format={value => `${value}×`}
+              onChange={repetitions => update({ repetitions })}
+            />
+            <Stepper
+              label='Time per question'
+              value={preset.questionTimeLimit}
+              {...PRESET_LIMITS.questionTimeLimit}
+              format={value => (value === 0 ? 'No limit' : `${value}s`)}
+              onChange={questionTimeLimit => update({ questionTimeLimit })}
+            />
+          </div>
+
+          <div className='flex items-center justify-between gap-2'>
+            <span className='text-sm text-(--secondary-color)'>Modes</span>
+            <div className='flex gap-2'>
+              {MODES.map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => toggleMode(mode)}
+                  className={clsx(
+                    'rounded-lg px-3 py-1 text-sm hover:cursor-pointer',
+                    preset.allowedModes.includes(mode)
+                      ? 'bg-(--main-color) text-(--background-color)'
+                      : 'border border-(--border-color) text-(--muted-color)',
+                  )}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {reverseSupported && (
+            <label className='flex items-center justify-between gap-4 text-sm text-(--secondary-color)'>
+              <span className='whitespace-nowrap'>
+                Reverse questions: {Math.round(preset.reverseProbability * 100)}
+                %
+              </span>
+              <input
+                type='range'
+                min={0}
+                max={100}
+                step={10}
+                value={Math.round(preset.reverseProbability * 100)}
+                onChange={e =>
+                  update({ reverseProbability: Number(e.target.value) / 100 })
+                }
+                className='flex-1 accent-(--main-color)'
+              />
+            </label>
+          )}
+
+          {stats && stats.totalSessions > 0 && (
+            <p className='text-xs text-(--muted-color)'>
+              {stats.totalSessions} runs · {stats.completedSessions} completed ·
+              best streak {stats.bestStreak}
+              {stats.fastestTime !== null &&
+                ` · fastest ${formatTime(stats.fastestTime)}`}
+            </p>
+          )}
+
+          <div className='flex gap-2'>
+            <button
+              onClick={copyLink}
+              className='flex flex-1 items-center justify-center gap-2 rounded-xl border border-(--border-color) px-3 py-2 text-sm text-(--secondary-color) hover:cursor-pointer hover:text-(--main-color)'
+            >
+              <Link2 size={16} />
+              Share link
+            </button>
+            <button
+              onClick={() => {
+                playClick();
+                deletePreset(preset.id);
+              }}
+              aria-label='Delete challenge'
+              className='rounded-xl border border-(--border-color) px-3 py-2 text-(--secondary-color) hover:cursor-pointer hover:text-red-500'
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+          {message && (
+            <p className='text-xs break-all text-(--muted-color)'>{message}</p>
+          )}
+        </>
+      ) : (
+        <p className='text-sm text-(--muted-color)'>
+          Create a challenge to set your own lives, regeneration, repetitions
+          and time limit.
+        </p>
+      )}
+    </div>
+  );
+}
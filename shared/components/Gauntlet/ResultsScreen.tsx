@@ -16,16 +16,21 @@ import {
   Skull,
   Crown,
   Sparkles,
+  History,
 } from 'lucide-react';
 import confetti from 'canvas-confetti';
 import { DIFFICULTY_CONFIG, type GauntletSessionStats } from './types';
 import { formatTime, getBestTime } from '@/shared/lib/gauntletStats';
 import { useClick } from '@/shared/hooks/useAudio';
+import type { SessionTimeline } from '@/shared/lib/sessionTimeline';
+import SessionReplay from '@/shared/components/Game/SessionReplay';
+import type { DojoType } from '@/shared/types/dojo';
 
 interface ResultsScreenProps {
-  dojoType: 'kana' | 'kanji' | 'vocabulary';
+  dojoType: DojoType;
   stats: Omit<GauntletSessionStats, 'id'>;
   isNewBest: boolean;
+  timeline?: SessionTimeline | null;
   onRestart: () => void;
   onChangeSettings: () => void;
 }
@@ -34,15 +39,19 @@ export default function ResultsScreen({
   dojoType,
   stats,
   isNewBest,
+  timeline,
   onRestart,
   onChangeSettings,
 }: ResultsScreenProps) {
   const { playClick } = useClick();
   const [showCharacterBreakdown, setShowCharacterBreakdown] = useState(false);
+  const [showReplay, setShowReplay] = useState(false);
   const [previousBest, setPreviousBest] = useState<number | null>(null);
 
   const isVictory = stats.completed;
   const difficultyConfig = DIFFICULTY_CONFIG[stats.difficulty];
+  const answeredCount =
+    stats.correctAnswers + stats.wrongAnswers + (stats.timeouts ?? 0);
 
   // Trigger confetti on victory (keeping this as it's celebratory, not UI animation)
   useEffect(() => {
@@ -81,6 +90,7 @@ export default function ResultsScreen({
         stats.repetitionsPerChar,
         stats.gameMode,
         stats.totalCharacters,
+        stats.presetId,
       );
       if (best && !isNewBest) {
         setPreviousBest(best);
@@ -149,7 +159,7 @@ export default function ResultsScreen({
             )}
           >
             <span>{difficultyConfig.icon}</span>
-            {difficultyConfig.label} • {stats.gameMode}
+            {stats.presetName ?? difficultyConfig.label} • {stats.gameMode}
           </span>
         </div>
 
@@ -181,7 +191,7 @@ export default function ResultsScreen({
               {Math.round(stats.accuracy * 100)}%
             </p>
             <p className='text-xs text-(--muted-color)'>
-              {stats.correctAnswers}/{stats.correctAnswers + stats.wrongAnswers}
+              {stats.correctAnswers}/{answeredCount}
             </p>
           </div>
 
@@ -233,6 +243,20 @@ export default function ResultsScreen({
               {formatTime(stats.slowestAnswerMs)}
             </span>
           </div>
+          {!!stats.questionTimeLimit && (
+            <div className='mt-1 flex justify-between text-sm'>
+              <span className='text-(--muted-color)'>
+                Timeouts ({stats.questionTimeLimit}s limit)
+              </span>
+              <span
+                className={
+                  stats.timeouts ? 'text-red-500' : 'text-(--main-color)'
+                }
+              >
+                {stats.timeouts ?? 0}
+              </span>
+            </div>
+          )}
         </div>
 
         {/* Character Breakdown (Collapsible) */}
@@ -292,6 +316,35 @@ export default function ResultsScreen({
           )}
         </div>
 
+        {/* Replay (Collapsible) */}
+        {timeline && (
+          <div className='overflow-hidden rounded-xl bg-(--card-color)'>
+            <button
+              onClick={() => {
+                playClick();
+                setShowReplay(!showReplay);
+              }}
+              className='flex w-full items-center justify-between p-4 text-left hover:bg-(--border-color)/20'
+            >
+              <span className='flex items-center gap-2 font-medium text-(--secondary-color)'>
+                <History size={18} />
+                Replay
+              </span>
+              {showReplay ? (
+                <ChevronUp size={20} className='text-(--muted-color)' />
+              ) : (
+                <ChevronDown size={20} className='text-(--muted-color)' />
+              )}
+            </button>
+
+            {showReplay && (
+              <div className='border-t border-(--border-color) p-4'>
+                <SessionReplay timeline={timeline} />
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className='flex flex-col gap-3'>
           <div className='flex gap-3'>
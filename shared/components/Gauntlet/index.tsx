@@ -5,8 +5,21 @@ import { usePathname } from 'next/navigation';
 import { useRouter } from '@/core/i18n/routing';
 import { Random } from 'random-js';
 import { useClick, useCorrect, useError } from '@/shared/hooks/useAudio';
+import { useProgressiveDifficulty } from '@/shared/hooks/useProgressiveDifficulty';
+import { useSessionTimeline } from '@/shared/hooks/useSessionTimeline';
 import { shuffle } from '@/shared/lib/shuffle';
 import { saveSession } from '@/shared/lib/gauntletStats';
+import { getQuestionTimeBudgetMs } from '@/shared/lib/gauntletTimer';
+import {
+  GAUNTLET_PRESET_PARAM,
+  decodePresetLink,
+  getPresetGameMode,
+  type GauntletPreset,
+} from '@/shared/lib/gauntletPresets';
+import {
+  getQuestionItemId,
+  type SessionTimeline,
+} from '@/shared/lib/sessionTimeline';
 import useGauntletSettingsStore from '@/shared/store/useGauntletSettingsStore';
 
 import { statsTracking } from '@/features/Progress';
@@ -21,6 +34,7 @@ import {
   type GauntletGameMode,
   type GauntletQuestion,
   type GauntletSessionStats,
+  type QuestionTimerSeconds,
   type RepetitionCount,
 } from './types';
 
@@ -43,17 +57,6 @@ const calculateRegenThreshold = (totalQuestions: number): number => {
   return Math.max(5, Math.min(20, Math.ceil(totalQuestions * 0.1)));
 };
 
-const getQuestionItemId = <T,>(item: T): string => {
-  if (typeof item === 'object' && item !== null) {
-    const obj = item as Record<string, unknown>;
-    if ('kana' in obj) return String(obj.kana);
-    if ('kanjiChar' in obj) return String(obj.kanjiChar);
-    if ('word' in obj) return String(obj.word);
-    if ('id' in obj) return String(obj.id);
-  }
-  return String(item);
-};
-
 function stabilizeQueueNoImmediateRepeats<T>(
   queue: GauntletQuestion<T>[],
 ): GauntletQuestion<T>[] {
@@ -85,6 +88,7 @@ function stabilizeQueueNoImmediateRepeats<T>(
 function generateQuestionQueue<T>(
   items: T[],
   repetitions: number,
+  reverseProbability = 0,
 ): GauntletQuestion<T>[] {
   const queue: GauntletQuestion<T>[] = [];
 
@@ -95,6 +99,7 @@ function generateQuestionQueue<T>(
         item,
         index: 0, // Will be set after shuffle
         repetitionNumber: rep,
+        isReverse: reverseProbability > 0 && random.bool(reverseProbability),
       });
     }
   });
@@ -139,6 +144,7 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
     generateOptions,
     renderOption,
     getCorrectOption,
+    supportsReverseMode,
     initialGameMode,
   } = config;
 
@@ -154,6 +160,9 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
   const [repetitions, setRepetitionsState] = useState<RepetitionCount>(
     gauntletSettings.getRepetitions(dojoType),
   );
+  const [questionTimer, setQuestionTimerState] = useState<QuestionTimerSeconds>(
+    gauntletSettings.getQuestionTimer(dojoType),
+  );
 
   // Wrapper setters that also sync to store for persistence across navigation
   const setGameMode = useCallback(
@@ -180,6 +189,27 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
     [dojoType, gauntletSettings],
   );
 
+  const setQuestionTimer = useCallback(
+    (seconds: QuestionTimerSeconds) => {
+      setQuestionTimerState(seconds);
+      gauntletSettings.setQuestionTimer(dojoType, seconds);
+    },
+    [dojoType, gauntletSettings],
+  );
+
+  // Custom difficulty: the preset selected for this dojo, and the one the
+  // current run is playing (fixed at start)
+  const selectedPreset =
+    difficulty === 'custom' ? gauntletSettings.getPreset(dojoType) : null;
+  const [activePreset, setActivePreset] = useState<GauntletPreset | null>(null);
+
+  // Keep the mode to one the selected preset allows
+  useEffect(() => {
+    if (selectedPreset && !selectedPreset.allowedModes.includes(gameMode)) {
+      setGameMode(getPresetGameMode(selectedPreset, gameMode));
+    }
+  }, [selectedPreset, gameMode, setGameMode]);
+
   // Game phase state
   const [phase, setPhase] = useState<'pregame' | 'playing' | 'results'>(
     'pregame',
@@ -192,10 +222,13 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
   const [maxLives, setMaxLives] = useState(3);
   const [correctSinceLastRegen, setCorrectSinceLastRegen] = useState(0);
   const [regenThreshold, setRegenThreshold] = useState(10);
+  // Seconds per question for this run (0 for none), fixed at start
+  const [questionTimeLimit, setQuestionTimeLimit] = useState(0);
 
   // Stats tracking
   const [correctAnswers, setCorrectAnswers] = useState(0);
   const [wrongAnswers, setWrongAnswers] = useState(0);
+  const [timeouts, setTimeouts] = useState(0);
   const [currentStreak, setCurrentStreak] = useState(0);
   const [bestStreak, setBestStreak] = useState(0);
   const [livesRegenerated, setLivesRegenerated] = useState(0);
@@ -229,12 +262,24 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
   > | null>(null);
   const [isNewBest, setIsNewBest] = useState(false);
 
+  // Every answer and regen, for the replay on the results screen
+  const timeline = useSessionTimeline('gauntlet', dojoType);
+  const [replayTimeline, setReplayTimeline] = useState<SessionTimeline | null>(
+    null,
+  );
+
   const pickModeSupported = !!(generateOptions && getCorrectOption);
-  // Gauntlet mode always uses normal mode (never reverse)
-  const isReverseActive = false;
 
-  const totalQuestions = items.length * repetitions;
+  const effectiveRepetitions = activePreset?.repetitions ?? repetitions;
+  const totalQuestions = items.length * effectiveRepetitions;
   const currentQuestion = questionQueue[currentIndex] || null;
+  // Questions are only asked in reverse in custom challenges that allow it
+  const isReverseActive = currentQuestion?.isReverse ?? false;
+  // Time to answer shrinks as the streak grows
+  const questionTimeBudgetMs = getQuestionTimeBudgetMs(
+    questionTimeLimit,
+    currentStreak,
+  );
 
   // Auto-start state (effect comes after handleStart is defined)
   const [hasAutoStarted, setHasAutoStarted] = useState(false);
@@ -246,33 +291,63 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
     statsTracking.recordDojoUsed(dojoType);
   }, [dojoType]);
 
+  // Lookalike distractors grow more frequent as the player keeps answering right
+  const {
+    distractorSimilarity,
+    recordCorrect: recordDifficultyCorrect,
+    recordWrong: recordDifficultyWrong,
+    reset: resetDifficulty,
+  } = useProgressiveDifficulty();
+  const distractorSimilarityRef = useRef(distractorSimilarity);
+  distractorSimilarityRef.current = distractorSimilarity;
+
   // Helper: generate shuffled options for a given question item (Pick mode)
   const generateShuffledOptions = useCallback(
-    (questionItem: T) => {
+    (question: GauntletQuestion<T>) => {
       if (!generateOptions || gameMode !== 'Pick') return;
-      const options = generateOptions(questionItem, items, 4, isReverseActive);
+      const options = generateOptions(
+        question.item,
+        items,
+        4,
+        question.isReverse ?? false,
+        distractorSimilarityRef.current,
+      );
       setShuffledOptions(shuffle(options));
     },
-    [generateOptions, gameMode, items, isReverseActive],
+    [generateOptions, gameMode, items],
   );
 
   // Handle game start
   const handleStart = useCallback(() => {
     playClick();
 
-    const queue = generateQuestionQueue(items, repetitions);
+    const preset =
+      difficulty === 'custom' ? gauntletSettings.getPreset(dojoType) : null;
+    if (difficulty === 'custom' && !preset) return;
+
+    const queue = generateQuestionQueue(
+      items,
+      preset?.repetitions ?? repetitions,
+      supportsReverseMode ? (preset?.reverseProbability ?? 0) : 0,
+    );
     const diffConfig = DIFFICULTY_CONFIG[difficulty];
-    const threshold = calculateRegenThreshold(queue.length);
+    const startingLives = preset?.lives ?? diffConfig.lives;
+    const threshold = preset
+      ? preset.regenThreshold
+      : calculateRegenThreshold(queue.length);
 
+    setActivePreset(preset);
     setQuestionQueue(queue);
     setCurrentIndex(0);
-    setLives(diffConfig.lives);
-    setMaxLives(diffConfig.lives);
+    setLives(startingLives);
+    setMaxLives(startingLives);
     setCorrectSinceLastRegen(0);
     setRegenThreshold(threshold);
+    setQuestionTimeLimit(preset ? preset.questionTimeLimit : questionTimer);
 
     setCorrectAnswers(0);
     setWrongAnswers(0);
+    setTimeouts(0);
     setCurrentStreak(0);
     setBestStreak(0);
     setLivesRegenerated(0);
@@ -288,14 +363,29 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
     setLifeJustLost(false);
     setUserAnswer('');
     setWrongSelectedAnswers([]);
+    resetDifficulty();
+    timeline.start(gameMode);
 
     // Generate initial options for the first question (Pick mode only)
     if (queue.length > 0) {
-      generateShuffledOptions(queue[0].item);
+      generateShuffledOptions(queue[0]);
     }
 
     setPhase('playing');
-  }, [items, repetitions, difficulty, generateShuffledOptions, playClick]);
+  }, [
+    items,
+    repetitions,
+    questionTimer,
+    difficulty,
+    dojoType,
+    gauntletSettings,
+    supportsReverseMode,
+    generateShuffledOptions,
+    playClick,
+    resetDifficulty,
+    timeline,
+    gameMode,
+  ]);
 
   // Get a unique identifier for the current question item
   const getItemId = useCallback(
@@ -346,6 +436,7 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
       actualLives,
       actualCorrectAnswers,
       actualWrongAnswers,
+      actualTimeouts,
       actualQuestionsCompleted,
       actualBestStreak,
       actualCurrentStreak,
@@ -354,13 +445,18 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
       actualLives: number;
       actualCorrectAnswers: number;
       actualWrongAnswers: number;
+      actualTimeouts: number;
       actualQuestionsCompleted: number;
       actualBestStreak: number;
       actualCurrentStreak: number;
     }) => {
       const totalTimeMs = Date.now() - startTime;
       const validAnswerTimes = answerTimes.filter(t => t > 0);
+      const finishedTimeline = timeline.finish();
+      setReplayTimeline(finishedTimeline);
 
+      // A timeout is a miss, but counted apart from wrong answers
+      const actualMisses = actualWrongAnswers + actualTimeouts;
       const stats: Omit<GauntletSessionStats, 'id'> = {
         timestamp: Date.now(),
         dojoType,
@@ -369,9 +465,10 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
         totalQuestions,
         correctAnswers: actualCorrectAnswers,
         wrongAnswers: actualWrongAnswers,
+        timeouts: actualTimeouts,
         accuracy:
-          actualCorrectAnswers + actualWrongAnswers > 0
-            ? actualCorrectAnswers / (actualCorrectAnswers + actualWrongAnswers)
+          actualCorrectAnswers + actualMisses > 0
+            ? actualCorrectAnswers / (actualCorrectAnswers + actualMisses)
             : 0,
         bestStreak: actualBestStreak,
         currentStreak: actualCurrentStreak,
@@ -389,12 +486,16 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
           validAnswerTimes.length > 0 ? Math.min(...validAnswerTimes) : 0,
         slowestAnswerMs:
           validAnswerTimes.length > 0 ? Math.max(...validAnswerTimes) : 0,
+        questionTimeLimit,
         completed,
         questionsCompleted: actualQuestionsCompleted,
         characterStats,
         totalCharacters: items.length,
-        repetitionsPerChar: repetitions,
+        repetitionsPerChar: effectiveRepetitions,
         selectedSets: selectedSets || [],
+        timelineId: finishedTimeline?.id,
+        presetId: activePreset?.id,
+        presetName: activePreset?.name,
       };
 
       setSessionStats(stats);
@@ -413,6 +514,8 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
         livesLost,
         livesRegenerated,
         bestStreak: actualBestStreak,
+        timed: questionTimeLimit > 0,
+        timeouts: actualTimeouts,
       });
 
       setPhase('results');
@@ -426,24 +529,30 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
       totalQuestions,
       maxLives,
       livesRegenerated,
+      questionTimeLimit,
       characterStats,
       items.length,
-      repetitions,
+      effectiveRepetitions,
       selectedSets,
+      timeline,
+      activePreset,
     ],
   );
 
-  const recordAnswerTime = useCallback(() => {
+  // Returns the time taken on this answer, or 0 if it couldn't be measured
+  const recordAnswerTime = useCallback((): number => {
     const now = Date.now();
+    let timeTaken = 0;
     // Skip recording if lastAnswerTime hasn't been set yet (shouldn't happen,
     // but guard against negative/zero times from race conditions)
     if (lastAnswerTime.current > 0) {
-      const timeTaken = now - lastAnswerTime.current;
+      timeTaken = now - lastAnswerTime.current;
       if (timeTaken > 0) {
         setAnswerTimes(prev => [...prev, timeTaken]);
       }
     }
     lastAnswerTime.current = now;
+    return Math.max(0, timeTaken);
   }, []);
 
   const advanceToNextQuestion = useCallback(
@@ -452,6 +561,7 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
       wasCorrect: boolean,
       newCorrectAnswers: number,
       newWrongAnswers: number,
+      newTimeouts: number,
       questionsCompleted: number,
       newBestStreak: number,
       newCurrentStreak: number,
@@ -466,6 +576,7 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
           actualLives: newLives,
           actualCorrectAnswers: newCorrectAnswers,
           actualWrongAnswers: newWrongAnswers,
+          actualTimeouts: newTimeouts,
           actualQuestionsCompleted: questionsCompleted,
           actualBestStreak: newBestStreak,
           actualCurrentStreak: newCurrentStreak,
@@ -481,6 +592,7 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
             actualLives: newLives,
             actualCorrectAnswers: newCorrectAnswers,
             actualWrongAnswers: newWrongAnswers,
+            actualTimeouts: newTimeouts,
             actualQuestionsCompleted: questionsCompleted,
             actualBestStreak: newBestStreak,
             actualCurrentStreak: newCurrentStreak,
@@ -498,7 +610,7 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
         }
         const nextQuestion = stabilizedQueue[nextIndex];
         if (nextQuestion) {
-          generateShuffledOptions(nextQuestion.item);
+          generateShuffledOptions(nextQuestion);
         }
         setCurrentIndex(nextIndex);
       } else {
@@ -534,7 +646,7 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
         const nextIndex = currentIndex + 1;
         const nextQuestion = stabilizedQueue[nextIndex];
         if (nextQuestion) {
-          generateShuffledOptions(nextQuestion.item);
+          generateShuffledOptions(nextQuestion);
         }
         // Still advance past the current slot (the re-queued copy is ahead)
         setCurrentIndex(nextIndex);
@@ -551,13 +663,27 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
   );
 
   const submitAnswer = useCallback(
-    (isCorrect: boolean) => {
+    (isCorrect: boolean, answer: string, timedOut = false) => {
       if (!currentQuestion) return;
 
-      recordAnswerTime();
+      const latencyMs = recordAnswerTime();
+      const isPick = gameMode === 'Pick' && !!getCorrectOption;
+      const answerEvent = {
+        question: getItemId(currentQuestion.item),
+        correctAnswer: isPick
+          ? getCorrectOption(currentQuestion.item, isReverseActive)
+          : getCorrectAnswer(currentQuestion.item, isReverseActive),
+        options: isPick ? shuffledOptions : undefined,
+        answer,
+        isCorrect,
+        latencyMs,
+        timedOut: timedOut || undefined,
+        livesBefore: lives,
+      };
 
       if (isCorrect) {
         playCorrect();
+        recordDifficultyCorrect();
         setLastAnswerCorrect(true);
 
         // Compute new streak values inline to avoid stale closure in endGame
@@ -567,6 +693,7 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
         setCorrectAnswers(prev => prev + 1);
         setCurrentStreak(newCurrentStreak);
         setBestStreak(newBestStreak);
+        timeline.recordAnswer({ ...answerEvent, livesAfter: lives });
 
         const charId = getItemId(currentQuestion.item);
         setCharacterStats(prev => ({
@@ -580,11 +707,17 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
         const newCorrectAnswers = correctAnswers + 1;
         const questionsCompleted = currentIndex + 1;
 
-        const canRegen = DIFFICULTY_CONFIG[difficulty].regenerates;
+        const canRegen = activePreset
+          ? activePreset.regenThreshold > 0
+          : DIFFICULTY_CONFIG[difficulty].regenerates;
         if (canRegen && lives < maxLives) {
           const newCorrectSinceRegen = correctSinceLastRegen + 1;
           if (newCorrectSinceRegen >= regenThreshold) {
             setLives(prev => Math.min(prev + 1, maxLives));
+            timeline.recordRegen({
+              livesBefore: lives,
+              livesAfter: Math.min(lives + 1, maxLives),
+            });
             setCorrectSinceLastRegen(0);
             setLivesRegenerated(prev => prev + 1);
             setLifeJustGained(true);
@@ -599,6 +732,7 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
           true,
           newCorrectAnswers,
           wrongAnswers,
+          timeouts,
           questionsCompleted,
           newBestStreak,
           newCurrentStreak,
@@ -607,8 +741,14 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
       }
 
       playError();
+      recordDifficultyWrong();
       setLastAnswerCorrect(false);
-      setWrongAnswers(prev => prev + 1);
+      // A timeout costs a life like a wrong answer, but is counted apart
+      if (timedOut) {
+        setTimeouts(prev => prev + 1);
+      } else {
+        setWrongAnswers(prev => prev + 1);
+      }
       setCurrentStreak(0);
       setCorrectSinceLastRegen(0);
 
@@ -622,7 +762,9 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
       }));
 
       const newLives = lives - 1;
-      const newWrongAnswers = wrongAnswers + 1;
+      const newWrongAnswers = timedOut ? wrongAnswers : wrongAnswers + 1;
+      const newTimeouts = timedOut ? timeouts + 1 : timeouts;
+      timeline.recordAnswer({ ...answerEvent, livesAfter: newLives });
       const questionsCompletedOnWrong = currentIndex + 1;
       setLives(newLives);
       setLifeJustLost(true);
@@ -634,12 +776,14 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
         false,
         correctAnswers,
         newWrongAnswers,
+        newTimeouts,
         questionsCompletedOnWrong,
         bestStreak,
         0,
       );
     },
     [
+      activePreset,
       advanceToNextQuestion,
       bestStreak,
       correctAnswers,
@@ -648,13 +792,22 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
       currentQuestion,
       currentStreak,
       difficulty,
+      gameMode,
+      getCorrectAnswer,
+      getCorrectOption,
       getItemId,
+      isReverseActive,
       lives,
       maxLives,
       playCorrect,
       playError,
       recordAnswerTime,
+      recordDifficultyCorrect,
+      recordDifficultyWrong,
       regenThreshold,
+      shuffledOptions,
+      timeline,
+      timeouts,
       wrongAnswers,
     ],
   );
@@ -671,8 +824,8 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
 
   // Handler for new ActiveGame component - receives selected option and result directly
   const handleActiveGameSubmit = useCallback(
-    (selectedOption: string, isCorrect: boolean) => {
-      submitAnswer(isCorrect);
+    (selectedOption: string, isCorrect: boolean, timedOut: boolean) => {
+      submitAnswer(isCorrect, selectedOption, timedOut);
     },
     [submitAnswer],
   );
@@ -690,8 +843,35 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
     if (items.length === 0) return;
 
     setHasAutoStarted(true);
+
+    // A challenge link opens the settings with the shared preset selected
+    const shared = new URLSearchParams(window.location.search).get(
+      GAUNTLET_PRESET_PARAM,
+    );
+    if (shared) {
+      window.history.replaceState(null, '', window.location.pathname);
+      try {
+        const preset = decodePresetLink(shared);
+        gauntletSettings.savePreset(preset);
+        gauntletSettings.setPresetId(dojoType, preset.id);
+        setDifficulty('custom');
+        return;
+      } catch (error) {
+        console.warn('[Gauntlet] Ignoring invalid challenge link:', error);
+      }
+    }
+
     handleStart();
-  }, [isGauntletRoute, hasAutoStarted, phase, items.length, handleStart]);
+  }, [
+    isGauntletRoute,
+    hasAutoStarted,
+    phase,
+    items.length,
+    handleStart,
+    gauntletSettings,
+    dojoType,
+    setDifficulty,
+  ]);
 
   // Render states
   if (items.length === 0) {
@@ -711,8 +891,12 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
         setDifficulty={setDifficulty}
         repetitions={repetitions}
         setRepetitions={setRepetitions}
+        questionTimer={questionTimer}
+        setQuestionTimer={setQuestionTimer}
         pickModeSupported={pickModeSupported}
-        onStart={handleStart}
+        preset={selectedPreset}
+        reverseSupported={!!supportsReverseMode}
+        onStart={isGauntletRoute ? handleStart : undefined}
         onCancel={onCancel}
       />
     );
@@ -724,6 +908,7 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
         dojoType={dojoType}
         stats={sessionStats}
         isNewBest={isNewBest}
+        timeline={replayTimeline}
         onRestart={handleStart}
         onChangeSettings={() => setPhase('pregame')}
       />
@@ -746,6 +931,7 @@ export default function Gauntlet<T>({ config, onCancel }: GauntletProps<T>) {
       totalQuestions={totalQuestions}
       lives={lives}
       maxLives={maxLives}
+      questionTimeBudgetMs={questionTimeBudgetMs}
       currentQuestion={currentQuestion?.item || null}
       renderQuestion={renderQuestion}
       isReverseActive={isReverseActive ?? false}
@@ -1,11 +1,12 @@
 import React from 'react';
+import type { DojoType } from '@/shared/types/dojo';
 
-export type GauntletDifficulty = 'normal' | 'hard' | 'instant-death';
+export type GauntletDifficulty = 'normal' | 'hard' | 'instant-death' | 'custom';
 export type GauntletGameMode = 'Pick' | 'Type';
 
 export interface GauntletConfig<T> {
   // Identity
-  dojoType: 'kana' | 'kanji' | 'vocabulary';
+  dojoType: DojoType;
   dojoLabel: string;
 
   // Data
@@ -18,12 +19,14 @@ export interface GauntletConfig<T> {
   checkAnswer: (question: T, answer: string, isReverse?: boolean) => boolean;
   getCorrectAnswer: (question: T, isReverse?: boolean) => string;
 
-  // Pick mode support
+  // Pick mode support. `similarity` (0-1) is the share of distractors to
+  // take from lookalikes, raised by useProgressiveDifficulty
   generateOptions?: (
     question: T,
     items: T[],
     count: number,
     isReverse?: boolean,
+    similarity?: number,
   ) => string[];
   renderOption?: (
     option: string,
@@ -42,7 +45,7 @@ export interface GauntletConfig<T> {
 export interface GauntletSessionStats {
   id: string;
   timestamp: number;
-  dojoType: 'kana' | 'kanji' | 'vocabulary';
+  dojoType: DojoType;
   difficulty: GauntletDifficulty;
   gameMode: GauntletGameMode;
 
@@ -50,6 +53,8 @@ export interface GauntletSessionStats {
   totalQuestions: number;
   correctAnswers: number;
   wrongAnswers: number;
+  // Questions left unanswered when the timer ran out (not in wrongAnswers)
+  timeouts?: number;
   accuracy: number;
 
   // Streak tracking
@@ -67,6 +72,9 @@ export interface GauntletSessionStats {
   averageTimePerQuestionMs: number;
   fastestAnswerMs: number;
   slowestAnswerMs: number;
+  // Per-question time limit in seconds before adaptive shrinking; 0 or
+  // missing for untimed runs
+  questionTimeLimit?: number;
 
   // Completion
   completed: boolean;
@@ -79,12 +87,20 @@ export interface GauntletSessionStats {
   totalCharacters: number;
   repetitionsPerChar: number;
   selectedSets: string[];
+
+  // Replay, see sessionTimeline
+  timelineId?: string;
+
+  // Custom challenge played, on 'custom' difficulty
+  presetId?: string;
+  presetName?: string;
 }
 
 export interface GauntletQuestion<T> {
   item: T;
   index: number; // Position in the queue
   repetitionNumber: number; // Which repetition this is (1, 2, 3...)
+  isReverse?: boolean; // Asked in reverse (custom challenges only)
 }
 
 export interface GauntletState<T> {
@@ -146,7 +162,19 @@ export const DIFFICULTY_CONFIG: Record<
     description: "One strike and you're out. For true masters only.",
     icon: '💀',
   },
+  // Lives and regeneration come from the selected preset
+  custom: {
+    lives: 3,
+    regenerates: true,
+    label: 'Custom',
+    description: 'Your own rules: lives, regeneration, time limits and more.',
+    icon: '🛠️',
+  },
 };
 
 export const REPETITION_OPTIONS = [3, 5, 10, 15, 20] as const;
 export type RepetitionCount = (typeof REPETITION_OPTIONS)[number];
+
+// Seconds per question; 0 for no limit
+export const QUESTION_TIMER_OPTIONS = [0, 5, 10, 15] as const;
+export type QuestionTimerSeconds = (typeof QUESTION_TIMER_OPTIONS)[number];
@@ -0,0 +1,125 @@
+'use client';
+
+import clsx from 'clsx';
+import { useState } from 'react';
+import { Check, FolderPlus, Plus } from 'lucide-react';
+import { useClick } from '@/shared/hooks/useAudio';
+import useCustomSetsStore, {
+  countStudySetItems,
+  EMPTY_STUDY_SET_ITEMS,
+  mergeStudySetItems,
+  type StudySet,
+  type StudySetItems,
+} from '@/shared/store/useCustomSetsStore';
+
+type AddToStudySetProps = {
+  items: Partial<StudySetItems>;
+  /** Button text, e.g. "Add to set" or "Save to a set" */
+  label?: string;
+  className?: string;
+};
+
+// Whether a set already holds every given entry
+const containsAll = (studySet: StudySet, items: Partial<StudySetItems>) =>
+  countStudySetItems(mergeStudySetItems(studySet.items, items)) ===
+  countStudySetItems(studySet.items);
+
+/**
+ * Adds entries to one of the user's study sets, or to a new one named on
+ * the spot. Used wherever single items are listed (set dictionaries, the
+ * progress page).
+ */
+const AddToStudySet = ({
+  items,
+  label = 'Add to set',
+  className,
+}: AddToStudySetProps) => {
+  const { playClick } = useClick();
+  const studySets = useCustomSetsStore(state => state.studySets);
+  const createStudySet = useCustomSetsStore(state => state.createStudySet);
+  const addToStudySet = useCustomSetsStore(state => state.addToStudySet);
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  if (countStudySetItems({ ...EMPTY_STUDY_SET_ITEMS, ...items }) === 0) {
+    return null;
+  }
+
+  const createWithItems = () => {
+    playClick();
+    createStudySet(newName, items);
+    setNewName('');
+    setIsOpen(false);
+  };
+
+  return (
+    <div className={clsx('flex flex-col gap-2', className)}>
+      <button
+        type='button'
+        aria-expanded={isOpen}
+        onClick={() => {
+          playClick();
+          setIsOpen(open => !open);
+        }}
+        className={clsx(
+          'flex w-fit flex-row items-center gap-2 rounded-xl px-3 py-1 text-sm',
+          'border border-(--border-color) text-(--secondary-color)',
+          'transition-colors duration-250 hover:cursor-pointer hover:text-(--main-color)',
+        )}
+      >
+        <FolderPlus size={16} />
+        {label}
+      </button>
+      {isOpen && (
+        <div className='flex flex-col gap-1 rounded-2xl border border-(--border-color) bg-(--card-color) p-2'>
+          {studySets.map(studySet => {
+            const isIn = containsAll(studySet, items);
+            return (
+              <button
+                key={studySet.id}
+                type='button'
+                disabled={isIn}
+                onClick={() => {
+                  playClick();
+                  addToStudySet(studySet.id, items);
+                }}
+                className={clsx(
+                  'flex flex-row items-center justify-between gap-2 rounded-xl px-3 py-2 text-left',
+                  isIn
+                    ? 'text-(--main-color)'
+                    : 'text-(--secondary-color) hover:cursor-pointer hover:bg-(--border-color)/30',
+                )}
+              >
+                <span className='truncate'>{studySet.name}</span>
+                {isIn ? <Check size={16} /> : <Plus size={16} />}
+              </button>
+            );
+          })}
+          <form
+            className='flex flex-row gap-2'
+            onSubmit={e => {
+              e.preventDefault();
+              createWithItems();
+            }}
+          >
+            <input
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              placeholder='New set name'
+              aria-label='New set name'
+              className='min-w-0 flex-1 rounded-xl border border-(--border-color) bg-(--background-color) px-3 py-1 text-(--main-color) outline-none'
+            />
+            <button
+              type='submit'
+              className='rounded-xl bg-(--main-color) px-3 py-1 text-sm text-(--background-color) hover:cursor-pointer'
+            >
+              Create
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AddToStudySet;
@@ -0,0 +1,200 @@
+'use client';
+
+import clsx from 'clsx';
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import { Circle, CircleCheck, Settings2, Trash2 } from 'lucide-react';
+import { Link } from '@/core/i18n/routing';
+import { useClick } from '@/shared/hooks/useAudio';
+import useCustomSetsStore, {
+  type StudySetContentType,
+  type StudySetItemTypes,
+} from '@/shared/store/useCustomSetsStore';
+
+type CustomSetCardsProps<T extends StudySetContentType> = {
+  contentType: T;
+  selectedSets: string[];
+  /** Left out where the dojo tracks selection by its items alone (kana) */
+  setSelectedSets?: (sets: string[]) => void;
+  toggleItems: (items: StudySetItemTypes[T][]) => void;
+  /** Shown under the study sets, e.g. when a dojo selects more than the set */
+  studySetNote?: string;
+};
+
+const SetToggleButton = ({
+  name,
+  count,
+  isSelected,
+  onToggle,
+}: {
+  name: string;
+  count: number;
+  isSelected: boolean;
+  onToggle: () => void;
+}) => {
+  const { playClick } = useClick();
+  return (
+    <button
+      className={clsx(
+        'group flex flex-1 items-center justify-center gap-2 text-xl',
+        'rounded-3xl hover:cursor-pointer',
+        'transition-all duration-250 ease-in-out',
+        'border-b-10 px-2 py-3',
+        isSelected
+          ? 'border-(--secondary-color-accent) bg-(--secondary-color) text-(--background-color)'
+          : 'border-(--border-color) bg-(--background-color) hover:border-(--main-color)/70',
+      )}
+      onClick={e => {
+        e.currentTarget.blur();
+        playClick();
+        onToggle();
+      }}
+    >
+      {isSelected ? (
+        <CircleCheck className='mt-0.5 shrink-0 fill-current text-(--background-color) duration-250' />
+      ) : (
+        <Circle className='mt-0.5 shrink-0 text-(--border-color) duration-250' />
+      )}
+      <span className='truncate'>{name}</span>
+      <span className='shrink-0 text-sm opacity-70'>({count})</span>
+    </button>
+  );
+};
+
+const SetSection = ({
+  title,
+  action,
+  note,
+  children,
+}: {
+  title: string;
+  action?: ReactNode;
+  note?: string;
+  children: ReactNode;
+}) => (
+  <div className='flex flex-col gap-3'>
+    <div className='ml-4 flex flex-row items-center gap-3'>
+      <h3 className='text-2xl'>{title}</h3>
+      {action}
+    </div>
+    {note && <p className='ml-4 text-sm text-(--secondary-color)'>{note}</p>}
+    <div className='flex w-full flex-col gap-3 md:grid md:grid-cols-2 2xl:grid-cols-3'>
+      {children}
+    </div>
+  </div>
+);
+
+/**
+ * The user's study sets and imported decks for a dojo, selectable next to
+ * the built-in sets. A study set offers the part of it the dojo practices.
+ * The set name is used as the selection key; deleting a selected deck
+ * deselects its items first.
+ */
+const CustomSetCards = <T extends StudySetContentType>({
+  contentType,
+  selectedSets,
+  setSelectedSets,
+  toggleItems,
+  studySetNote,
+}: CustomSetCardsProps<T>) => {
+  const { playClick } = useClick();
+  const allSets = useCustomSetsStore(state => state.sets);
+  const allStudySets = useCustomSetsStore(state => state.studySets);
+  const removeSet = useCustomSetsStore(state => state.removeSet);
+  // Custom sets live in localStorage, so only render after hydration
+  const [isMounted, setIsMounted] = useState(false);
+
+  useEffect(() => {
+    setIsMounted(true);
+  }, []);
+
+  const sets = useMemo(
+    () => allSets.filter(set => set.contentType === contentType),
+    [allSets, contentType],
+  );
+  const studySets = useMemo(
+    () =>
+      allStudySets
+        .map(studySet => ({
+          ...studySet,
+          entries: studySet.items[contentType] as StudySetItemTypes[T][],
+        }))
+        .filter(studySet => studySet.entries.length > 0),
+    [allStudySets, contentType],
+  );
+
+  if (!isMounted || (sets.length === 0 && studySets.length === 0)) {
+    return null;
+  }
+
+  const toggleSet = (name: string, items: StudySetItemTypes[T][]) => {
+    if (setSelectedSets) {
+      if (selectedSets.includes(name)) {
+        setSelectedSets(selectedSets.filter(selected => selected !== name));
+      } else {
+        setSelectedSets([...new Set(selectedSets.concat(name))]);
+      }
+    }
+    toggleItems(items);
+  };
+
+  return (
+    <>
+      {studySets.length > 0 && (
+        <SetSection
+          title='My Sets'
+          note={studySetNote}
+          action={
+            <Link
+              href='/sets'
+              aria-label='Manage study sets'
+              className='text-(--secondary-color) transition-colors duration-250 hover:text-(--main-color)'
+            >
+              <Settings2 size={20} />
+            </Link>
+          }
+        >
+          {studySets.map(studySet => (
+            <SetToggleButton
+              key={studySet.id}
+              name={studySet.name}
+              count={studySet.entries.length}
+              isSelected={selectedSets.includes(studySet.name)}
+              onToggle={() => toggleSet(studySet.name, studySet.entries)}
+            />
+          ))}
+        </SetSection>
+      )}
+      {sets.length > 0 && (
+        <SetSection title='Imported Decks'>
+          {sets.map(set => {
+            const isSelected = selectedSets.includes(set.name);
+            const items = set.items as StudySetItemTypes[T][];
+            return (
+              <div key={set.id} className='flex flex-row items-center gap-2'>
+                <SetToggleButton
+                  name={set.name}
+                  count={set.items.length}
+                  isSelected={isSelected}
+                  onToggle={() => toggleSet(set.name, items)}
+                />
+                <button
+                  aria-label={`Delete ${set.name}`}
+                  className='p-2 text-(--secondary-color) transition-colors duration-250 hover:cursor-pointer hover:text-(--main-color)'
+                  onClick={() => {
+                    playClick();
+                    if (isSelected) toggleSet(set.name, items);
+                    removeSet(set.id);
+                  }}
+                >
+                  <Trash2 size={20} />
+                </button>
+              </div>
+            );
+          })}
+        </SetSection>
+      )}
+    </>
+  );
+};
+
+export default CustomSetCards;
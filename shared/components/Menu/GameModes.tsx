@@ -11,6 +11,8 @@ import {
   ArrowLeft,
   CheckCircle2,
   Zap,
+  Languages,
+  BookOpen,
 } from 'lucide-react';
 import clsx from 'clsx';
 import { useClick } from '@/shared/hooks/useAudio';
@@ -164,6 +166,23 @@ const GameModes = ({
       description: 'Type the correct answer',
       icon: Keyboard,
     },
+    // Reading quizzes only exist in the classic kanji training
+    ...(currentDojo === 'kanji' && mode === 'train'
+      ? [
+          {
+            id: 'On-yomi',
+            title: "On'yomi",
+            description: 'Type the Chinese-derived reading, in romaji or kana',
+            icon: Languages,
+          },
+          {
+            id: 'Kun-yomi',
+            title: "Kun'yomi",
+            description: 'Type the native Japanese reading, in romaji or kana',
+            icon: BookOpen,
+          },
+        ]
+      : []),
   ];
 
   const dojoLabel =
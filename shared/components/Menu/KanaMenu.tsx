@@ -1,20 +1,34 @@
 'use client';
 
 import Info from '@/shared/components/Menu/Info';
+import ReviewDueLink from '@/shared/components/Review/ReviewDueLink';
 import TrainingActionBar from '@/shared/components/Menu/TrainingActionBar';
 import SelectionStatusBar from '@/shared/components/Menu/SelectionStatusBar';
 import { ActionButton } from '@/shared/components/ui/ActionButton';
 import { MousePointer } from 'lucide-react';
 import { cn } from '@/shared/lib/utils';
 import { useClick } from '@/shared/hooks/useAudio';
+import { getKanaGroupIndices } from '@/shared/lib/studySets';
+import useCustomSetsStore from '@/shared/store/useCustomSetsStore';
+import CustomSetCards from '@/shared/components/Menu/CustomSetCards';
 import { KanaCards, useKanaContent, useKanaSelection } from '@/features/Kana';
 
 type KanaMenuFilter = 'all' | 'hiragana' | 'katakana';
 
 const KanaMenu = ({ filter = 'all' }: { filter?: KanaMenuFilter }) => {
   const { playClick } = useClick();
-  const { addGroups: addKanaGroupIndices } = useKanaSelection();
+  const { addGroups: addKanaGroupIndices, isGroupSelected } =
+    useKanaSelection();
   const { allGroups: kana } = useKanaContent();
+  const studySets = useCustomSetsStore(state => state.studySets);
+
+  // A study set counts as selected once all of its kana groups are
+  const selectedStudySets = studySets
+    .filter(studySet => {
+      const indices = getKanaGroupIndices(kana, studySet.items.kana);
+      return indices.length > 0 && indices.every(isGroupSelected);
+    })
+    .map(studySet => studySet.name);
 
   const headerText =
     filter === 'hiragana'
@@ -35,6 +49,7 @@ const KanaMenu = ({ filter = 'all' }: { filter?: KanaMenuFilter }) => {
           </div>
         )}
         <Info />
+        <ReviewDueLink contentType='kana' />
         <ActionButton
           onClick={e => {
             e.currentTarget.blur();
@@ -57,6 +72,14 @@ const KanaMenu = ({ filter = 'all' }: { filter?: KanaMenuFilter }) => {
           <MousePointer className={cn('fill-current')} />
           Select All Kana
         </ActionButton>
+        <CustomSetCards
+          contentType='kana'
+          selectedSets={selectedStudySets}
+          toggleItems={characters =>
+            addKanaGroupIndices(getKanaGroupIndices(kana, characters))
+          }
+          studySetNote='Kana are practiced in rows, so a set selects every row that has one of its kana.'
+        />
         <KanaCards filter={filter} />
         <SelectionStatusBar />
       </div>
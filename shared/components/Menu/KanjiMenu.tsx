@@ -1,7 +1,11 @@
 'use client';
 
 import { useEffect } from 'react';
+import clsx from 'clsx';
+import { ChevronRight } from 'lucide-react';
+import { Link } from '@/core/i18n/routing';
 import Info from '@/shared/components/Menu/Info';
+import ReviewDueLink from '@/shared/components/Review/ReviewDueLink';
 import TrainingActionBar from '@/shared/components/Menu/TrainingActionBar';
 import UnitSelector from '@/shared/components/Menu/UnitSelector';
 import { KanjiCards } from '@/features/Kanji';
@@ -22,6 +26,22 @@ const KanjiMenu = () => {
     <>
       <div className='flex flex-col gap-4'>
         <Info />
+        <ReviewDueLink contentType='kanji' />
+        <Link
+          href='/kanji/radicals'
+          className={clsx(
+            'flex flex-row items-center gap-3 rounded-2xl px-4 py-3',
+            'border-2 border-(--border-color) bg-(--card-color)',
+            'text-(--secondary-color) transition-colors duration-200',
+            'hover:border-(--main-color) hover:text-(--main-color)',
+          )}
+        >
+          <span className='text-xl text-(--main-color)' lang='ja'>
+            部
+          </span>
+          <span className='flex-1'>Browse kanji by radical</span>
+          <ChevronRight size={20} />
+        </Link>
         <UnitSelector />
         <KanjiCards />
       </div>
@@ -11,6 +11,7 @@ import {
   Library,
   Repeat,
   Package,
+  Dumbbell,
   type LucideIcon,
 } from 'lucide-react';
 import clsx from 'clsx';
@@ -56,6 +57,13 @@ const mainNavItems: NavItem[] = [
   { href: '/kana', label: 'Kana', charIcon: 'あ' },
   { href: '/vocabulary', label: ' Vocabulary', charIcon: '語' },
   { href: '/kanji', label: ' Kanji', charIcon: '字' },
+  { href: '/cloze', label: ' Cloze', charIcon: '文' },
+  { href: '/writing', label: ' Writing', charIcon: '書' },
+  { href: '/listening', label: ' Listening', charIcon: '聴' },
+  { href: '/speaking', label: ' Speaking', charIcon: '話' },
+  { href: '/sets', label: ' My Sets', charIcon: '集' },
+  { href: '/mistakes', label: ' Mistakes', charIcon: '誤' },
+  { href: '/daily', label: ' Daily', charIcon: '日' },
   {
     href: '/preferences',
     label: 'Preferences',
@@ -79,6 +87,7 @@ const staticSecondaryNavSections: NavSection[] = [
     items: [
       { href: '/translate', label: 'Translate', icon: Languages },
       { href: '/conjugate', label: 'Conjugate', icon: Repeat },
+      { href: '/conjugate/drill', label: 'Verb Drill', icon: Dumbbell },
       { href: '/tools/anki-converter', label: 'Converter', icon: Package },
     ],
     collapsible: true,
@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import clsx from 'clsx';
+import { CalendarCheck, ChevronRight } from 'lucide-react';
+import { Link } from '@/core/i18n/routing';
+import useReviewStore from '@/shared/store/useReviewStore';
+import {
+  getDueCards,
+  getEndOfDay,
+  type ReviewContentType,
+} from '@/shared/lib/spacedRepetition';
+
+interface ReviewDueLinkProps {
+  contentType: ReviewContentType;
+}
+
+/**
+ * Menu shortcut to the dojo's "Reviews due today" queue.
+ * Hidden when nothing is due.
+ */
+export default function ReviewDueLink({ contentType }: ReviewDueLinkProps) {
+  const cards = useReviewStore(state => state.cards);
+  // Review cards live in localStorage, so only render after hydration
+  const [isMounted, setIsMounted] = useState(false);
+
+  useEffect(() => {
+    setIsMounted(true);
+  }, []);
+
+  const dueCount = useMemo(
+    () => getDueCards(Object.values(cards), getEndOfDay(), contentType).length,
+    [cards, contentType],
+  );
+
+  if (!isMounted || dueCount === 0) return null;
+
+  return (
+    <Link
+      href={`/${contentType}/review`}
+      className={clsx(
+        'flex flex-row items-center gap-3 rounded-2xl px-4 py-3',
+        'border-2 border-(--border-color) bg-(--card-color)',
+        'text-(--secondary-color) transition-colors duration-200',
+        'hover:border-(--main-color) hover:text-(--main-color)',
+      )}
+    >
+      <CalendarCheck size={20} className='text-(--main-color)' />
+      <span className='flex-1'>
+        {dueCount} {dueCount === 1 ? 'review' : 'reviews'} due today
+      </span>
+      <ChevronRight size={20} />
+    </Link>
+  );
+}
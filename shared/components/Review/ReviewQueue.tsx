@@ -0,0 +1,191 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import clsx from 'clsx';
+import { ArrowLeft, CalendarCheck, Play } from 'lucide-react';
+import { Link, useRouter } from '@/core/i18n/routing';
+import { useKanaContent, useKanaSelection } from '@/features/Kana';
+import { useKanjiSelection } from '@/features/Kanji';
+import { useVocabSelection } from '@/features/Vocabulary';
+import { kanjiDataService } from '@/features/Kanji/services/kanjiDataService';
+import { vocabDataService } from '@/features/Vocabulary/services/vocabDataService';
+import { useClick } from '@/shared/hooks/useAudio';
+import useReviewStore from '@/shared/store/useReviewStore';
+import {
+  getDueCards,
+  getEndOfDay,
+  type ReviewContentType,
+} from '@/shared/lib/spacedRepetition';
+
+const DOJO_LABELS: Record<ReviewContentType, string> = {
+  kana: 'Kana',
+  kanji: 'Kanji',
+  vocabulary: 'Vocabulary',
+};
+
+// Cap the preview so huge backlogs don't render thousands of chips
+const MAX_PREVIEW_ITEMS = 60;
+
+interface ReviewQueueProps {
+  contentType: ReviewContentType;
+}
+
+/**
+ * "Reviews due today" queue for a dojo.
+ * Loads every item whose spaced-repetition review is due into the dojo's
+ * selection and starts a classic training session with them.
+ */
+export default function ReviewQueue({ contentType }: ReviewQueueProps) {
+  const router = useRouter();
+  const { playClick } = useClick();
+  const [isStarting, setIsStarting] = useState(false);
+
+  const cards = useReviewStore(state => state.cards);
+  const dueCards = useMemo(
+    () => getDueCards(Object.values(cards), getEndOfDay(), contentType),
+    [cards, contentType],
+  );
+  const overdueCount = useMemo(
+    () => dueCards.filter(card => card.dueAt <= Date.now()).length,
+    [dueCards],
+  );
+
+  const { allGroups } = useKanaContent();
+  const kanaSelection = useKanaSelection();
+  const kanjiSelection = useKanjiSelection();
+  const vocabSelection = useVocabSelection();
+
+  const dojoLabel = DOJO_LABELS[contentType];
+
+  const loadDueItems = async () => {
+    const dueKeys = new Set(dueCards.map(card => card.key));
+
+    if (contentType === 'kana') {
+      const groupIndices = allGroups
+        .map((group, index) => ({ group, index }))
+        .filter(({ group }) => group.kana.some(char => dueKeys.has(char)))
+        .map(({ index }) => index);
+      // Selection actions toggle, so clear before adding the due groups
+      kanaSelection.clearSelection();
+      kanaSelection.addGroups(groupIndices);
+      kanaSelection.setGameMode('Pick');
+      return;
+    }
+
+    if (contentType === 'kanji') {
+      await kanjiDataService.preloadAll();
+      const dueKanji = Object.values(kanjiDataService.getAllCached())
+        .flat()
+        .filter(obj => dueKeys.has(obj.kanjiChar));
+      kanjiSelection.clearKanji();
+      kanjiSelection.addKanjiList(dueKanji);
+      kanjiSelection.setGameMode('Pick');
+      return;
+    }
+
+    await vocabDataService.preloadAll();
+    const seen = new Set<string>();
+    const dueWords = Object.values(vocabDataService.getAllCached())
+      .flat()
+      .filter(word => {
+        if (!dueKeys.has(word.word) || seen.has(word.word)) return false;
+        seen.add(word.word);
+        return true;
+      });
+    vocabSelection.clearVocab();
+    vocabSelection.addVocabList(dueWords);
+    vocabSelection.setGameMode('Pick');
+  };
+
+  const handleStart = async () => {
+    if (dueCards.length === 0 || isStarting) return;
+    playClick();
+    setIsStarting(true);
+    try {
+      await loadDueItems();
+      router.push(`/${contentType}/train`);
+    } catch (error) {
+      console.error('[ReviewQueue] Failed to load due items:', error);
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <div className='flex min-h-[100dvh] flex-col items-center justify-center p-4'>
+      <div className='w-full max-w-xl space-y-6 text-center'>
+        <CalendarCheck size={64} className='mx-auto text-(--main-color)' />
+        <h1 className='text-2xl font-bold text-(--secondary-color)'>
+          {dojoLabel} Reviews Due Today
+        </h1>
+
+        {dueCards.length === 0 ? (
+          <p className='text-(--muted-color)'>
+            Nothing to review right now. Keep training and items will come back
+            here when their review date arrives.
+          </p>
+        ) : (
+          <>
+            <p className='text-(--muted-color)'>
+              {dueCards.length} {dueCards.length === 1 ? 'item' : 'items'} due
+              today
+              {overdueCount > 0 && ` · ${overdueCount} ready now`}
+            </p>
+            <div className='flex flex-wrap justify-center gap-2'>
+              {dueCards.slice(0, MAX_PREVIEW_ITEMS).map(card => (
+                <span
+                  key={card.key}
+                  lang='ja'
+                  className={clsx(
+                    'rounded-lg border-2 border-(--border-color) px-3 py-1 text-lg',
+                    card.lapses > 0
+                      ? 'text-(--main-color)'
+                      : 'text-(--secondary-color)',
+                  )}
+                  title={`Lapses: ${card.lapses}`}
+                >
+                  {card.key}
+                </span>
+              ))}
+              {dueCards.length > MAX_PREVIEW_ITEMS && (
+                <span className='px-3 py-1 text-(--muted-color)'>
+                  +{dueCards.length - MAX_PREVIEW_ITEMS} more
+                </span>
+              )}
+            </div>
+          </>
+        )}
+
+        <div className='flex flex-col gap-3 sm:flex-row'>
+          <Link href={`/${contentType}`} className='flex-1'>
+            <button
+              className={clsx(
+                'flex h-12 w-full flex-row items-center justify-center gap-2 px-6',
+                'bg-(--card-color) text-(--secondary-color)',
+                'rounded-2xl transition-colors duration-200',
+                'border-b-6 border-(--border-color)',
+                'hover:cursor-pointer',
+              )}
+            >
+              <ArrowLeft size={20} />
+              <span>Back to {dojoLabel}</span>
+            </button>
+          </Link>
+          <button
+            onClick={handleStart}
+            disabled={dueCards.length === 0 || isStarting}
+            className={clsx(
+              'flex h-12 flex-1 flex-row items-center justify-center gap-2 px-6',
+              'bg-(--main-color) text-(--background-color)',
+              'rounded-2xl transition-colors duration-200',
+              'border-b-6 border-(--main-color-accent) shadow-sm',
+              'hover:cursor-pointer disabled:cursor-not-allowed disabled:opacity-50',
+            )}
+          >
+            <Play size={20} className='fill-current' />
+            <span>{isStarting ? 'Loading...' : 'Start Review'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 'use client';
 import { ReactNode, memo } from 'react';
 import { useThemePreferences } from '@/features/Preferences';
+import { useTextAnalysis } from '@/shared/hooks/useTextAnalysis';
+import PitchAccentText from '@/shared/components/text/PitchAccentText';
+
+const KANJI_REGEX = /[\u4E00-\u9FAF]/;
 
 interface FuriganaTextProps {
   text: string;
@@ -9,12 +13,21 @@ interface FuriganaTextProps {
   furiganaClassName?: string;
   lang?: string;
   children?: ReactNode;
+  /** Look up per-word readings on the device when no reading is given */
+  autoReading?: boolean;
+  /** Downstep position of `reading`; draws a pitch overlay on the furigana */
+  pitchAccent?: number;
 }
 
 /**
  * Component for displaying Japanese text with optional furigana (reading annotations)
  * When furigana is enabled in settings, displays reading above the main text
  * When disabled, displays only the main text
+ * With autoReading, text without a reading is tokenized on the device and
+ * each word with kanji gets its own reading
+ * With pitchAccent, the furigana of the given reading show which morae are
+ * high and where the pitch drops; it describes the whole word, so it is
+ * not applied to children or to looked-up readings
  */
 const FuriganaText = ({
   text,
@@ -23,8 +36,14 @@ const FuriganaText = ({
   furiganaClassName = '',
   lang = 'ja',
   children,
+  autoReading = false,
+  pitchAccent,
 }: FuriganaTextProps) => {
   const { furiganaEnabled } = useThemePreferences();
+  const tokens = useTextAnalysis(
+    text,
+    autoReading && furiganaEnabled && !reading && !children,
+  );
 
   // If children are provided, render them with optional furigana
   if (children) {
@@ -55,14 +74,38 @@ const FuriganaText = ({
     return (
       <ruby className={className} lang={lang}>
         {text}
-        <rt
-          className={`text-xs ${furiganaClassName} text-(--secondary-color)`}
-        >
-          {hiraganaReading}
+        <rt className={`text-xs ${furiganaClassName} text-(--secondary-color)`}>
+          {pitchAccent !== undefined ? (
+            <PitchAccentText reading={hiraganaReading} accent={pitchAccent} />
+          ) : (
+            hiraganaReading
+          )}
         </rt>
       </ruby>
     );
   }
+  if (tokens) {
+    return (
+      <span className={className} lang={lang}>
+        {tokens.map((token, index) =>
+          token.reading &&
+          token.reading !== token.surface &&
+          KANJI_REGEX.test(token.surface) ? (
+            <ruby key={index}>
+              {token.surface}
+              <rt
+                className={`text-xs ${furiganaClassName} text-(--secondary-color)`}
+              >
+                {token.reading}
+              </rt>
+            </ruby>
+          ) : (
+            token.surface
+          ),
+        )}
+      </span>
+    );
+  }
   return (
     <span className={className} lang={lang}>
       {text}
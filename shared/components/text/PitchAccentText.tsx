@@ -0,0 +1,48 @@
+import { memo } from 'react';
+import clsx from 'clsx';
+import { getPitchPattern, splitMorae } from '@/shared/lib/pitchAccent';
+
+interface PitchAccentTextProps {
+  reading: string;
+  accent: number;
+  className?: string;
+}
+
+/**
+ * Kana reading with a pitch overlay: a line over each high mora and a
+ * tick where the pitch drops, including a drop onto the next particle
+ */
+const PitchAccentText = ({
+  reading,
+  accent,
+  className = '',
+}: PitchAccentTextProps) => {
+  const morae = splitMorae(reading);
+  const pattern = getPitchPattern(morae.length, accent);
+
+  return (
+    <span
+      className={clsx('inline-flex', className)}
+      lang='ja'
+      aria-label={`${reading}, accent ${accent}`}
+    >
+      {morae.map((mora, index) => (
+        <span
+          key={index}
+          data-pitch={pattern[index]}
+          className={clsx(
+            'border-t-2 pt-0.5',
+            pattern[index] === 'high' ? 'border-current' : 'border-transparent',
+            pattern[index] === 'high' &&
+              pattern[index + 1] === 'low' &&
+              'border-r-2 border-r-current',
+          )}
+        >
+          {mora}
+        </span>
+      ))}
+    </span>
+  );
+};
+
+export default memo(PitchAccentText);
@@ -5,6 +5,8 @@
 export interface AchievementEvent {
   type: 'check' | 'unlock';
   achievementId?: string;
+  /** Stat paths that changed; a check without them re-evaluates everything */
+  changed?: string[];
   timestamp: number;
 }
 
@@ -26,8 +28,8 @@ class AchievementEventBus {
 export const achievementEvents = new AchievementEventBus();
 
 export const achievementApi = {
-  triggerCheck() {
-    achievementEvents.emit({ type: 'check', timestamp: Date.now() });
+  triggerCheck(changed?: string[]) {
+    achievementEvents.emit({ type: 'check', changed, timestamp: Date.now() });
   },
 
   recordUnlock(achievementId: string) {
@@ -2,11 +2,13 @@
 // Stats Event System - Decouples game features from Progress store
 // ============================================================================
 
+import type { DojoType } from '@/shared/types/dojo';
+
 export type StatEventType = 'correct' | 'incorrect' | 'session_complete';
 
 export interface StatEvent {
   type: StatEventType;
-  contentType: 'kana' | 'kanji' | 'vocabulary';
+  contentType: DojoType | 'conjugation' | 'writing' | 'listening';
   character: string;
   correctAnswer?: string;
   userAnswer?: string;
@@ -32,6 +32,8 @@ interface ProgressiveDifficultyState {
  * - After N consecutive correct answers, adds 1 more option (up to 6)
  * - After M consecutive wrong answers, removes 1 option (down to 3)
  * - Tracks performance to adaptively adjust difficulty
+ * - Raises `distractorSimilarity` with the level, for games that pick
+ *   lookalike distractors (see shared/lib/distractors.ts)
  *
  * @example
  * const { optionCount, recordCorrect, recordWrong, difficultyLevel } = useProgressiveDifficulty();
@@ -129,11 +131,18 @@ export const useProgressiveDifficulty = (
     return Math.round((state.levelStreak / streakPerLevel) * 100);
   }, [state.levelStreak, streakPerLevel]);
 
+  // Share of distractors drawn from lookalikes: none at the easiest level,
+  // all of them at the hardest
+  const maxLevel = maxOptions - minOptions;
+  const distractorSimilarity =
+    maxLevel > 0 ? state.difficultyLevel / maxLevel : 0;
+
   return {
     optionCount: state.optionCount,
     difficultyLevel: state.difficultyLevel,
     levelStreak: state.levelStreak,
     levelProgress,
+    distractorSimilarity,
     recordCorrect,
     recordWrong,
     reset,
@@ -0,0 +1,87 @@
+'use client';
+import { useCallback, useMemo, useRef } from 'react';
+import {
+  generateTimelineId,
+  saveTimeline,
+  type SessionTimeline,
+  type TimelineAnswerEvent,
+  type TimelineChallenge,
+  type TimelineRegenEvent,
+} from '@/shared/lib/sessionTimeline';
+
+/**
+ * Records a Gauntlet or Blitz run as a timeline of events.
+ *
+ * The run is kept in a ref so recording never re-renders the game;
+ * `finish` stamps the end, stores the timeline and returns it for the
+ * results screen.
+ *
+ * @example
+ * const timeline = useSessionTimeline('gauntlet', 'kana');
+ * timeline.start('Pick');
+ * timeline.recordAnswer({ question: 'あ', answer: 'o', isCorrect: false, ... });
+ * const finished = timeline.finish();
+ */
+export function useSessionTimeline(
+  challenge: TimelineChallenge,
+  dojoType: SessionTimeline['dojoType'],
+) {
+  const timelineRef = useRef<SessionTimeline | null>(null);
+
+  const start = useCallback(
+    (gameMode: SessionTimeline['gameMode']) => {
+      timelineRef.current = {
+        id: generateTimelineId(challenge),
+        challenge,
+        dojoType,
+        gameMode,
+        startedAt: Date.now(),
+        endedAt: 0,
+        events: [],
+      };
+    },
+    [challenge, dojoType],
+  );
+
+  const recordAnswer = useCallback(
+    (event: Omit<TimelineAnswerEvent, 'type' | 'at'>) => {
+      const timeline = timelineRef.current;
+      if (!timeline) return;
+      timeline.events.push({
+        type: 'answer',
+        at: Date.now() - timeline.startedAt,
+        ...event,
+      });
+    },
+    [],
+  );
+
+  const recordRegen = useCallback(
+    (event: Omit<TimelineRegenEvent, 'type' | 'at'>) => {
+      const timeline = timelineRef.current;
+      if (!timeline) return;
+      timeline.events.push({
+        type: 'regen',
+        at: Date.now() - timeline.startedAt,
+        ...event,
+      });
+    },
+    [],
+  );
+
+  const finish = useCallback((): SessionTimeline | null => {
+    const timeline = timelineRef.current;
+    if (!timeline) return null;
+    timelineRef.current = null;
+    const finished = { ...timeline, endedAt: Date.now() };
+    void saveTimeline(finished);
+    return finished;
+  }, []);
+
+  return useMemo(
+    () => ({ start, recordAnswer, recordRegen, finish }),
+    [start, recordAnswer, recordRegen, finish],
+  );
+}
+
+export default useSessionTimeline;
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import {
+  analyzeText,
+  needsAnalysis,
+  type AnalyzedToken,
+} from '@/shared/lib/textAnalysis';
+
+/**
+ * Tokenize Japanese text in the analysis worker
+ *
+ * @returns The tokens, or null while loading, when disabled or when the
+ *   text has no Japanese in it
+ */
+export function useTextAnalysis(
+  text: string,
+  enabled = true,
+): AnalyzedToken[] | null {
+  const [result, setResult] = useState<{
+    text: string;
+    tokens: AnalyzedToken[];
+  } | null>(null);
+  const shouldAnalyze = enabled && needsAnalysis(text);
+
+  useEffect(() => {
+    if (!shouldAnalyze) return;
+
+    let cancelled = false;
+    void analyzeText(text).then(tokens => {
+      if (!cancelled) setResult({ text, tokens });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [text, shouldAnalyze]);
+
+  return shouldAnalyze && result?.text === text ? result.tokens : null;
+}
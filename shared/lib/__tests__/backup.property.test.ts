@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  applyBackup,
+  BACKUP_VERSION,
+  diffBackupSection,
+  migrateBackup,
+  previewBackup,
+  type JSONObject,
+  type JSONValue,
+} from '../backup';
+import useCustomSetsStore from '@/shared/store/useCustomSetsStore';
+import useReviewStore from '@/shared/store/useReviewStore';
+
+// Feature barrels also export page components; the backup only needs their facades
+vi.mock('@/features/Kana', () => import('@/features/Kana/facade'));
+vi.mock('@/features/Kanji', () => import('@/features/Kanji/facade'));
+vi.mock('@/features/Vocabulary', () => import('@/features/Vocabulary/facade'));
+vi.mock(
+  '@/features/Preferences',
+  () => import('@/features/Preferences/facade'),
+);
+vi.mock('@/features/Progress', () => import('@/features/Progress/facade'));
+vi.mock('@/features/Conjugator', () => import('@/features/Conjugator/facade'));
+
+const leafArb: fc.Arbitrary<JSONValue> = fc.oneof(
+  fc.integer(),
+  fc.string(),
+  fc.boolean(),
+  fc.constant(null),
+);
+
+const jsonObjectArb: fc.Arbitrary<JSONObject> = fc.dictionary(
+  fc.constantFrom('a', 'b', 'c', 'd'),
+  fc.oneof(
+    leafArb,
+    fc.array(leafArb, { maxLength: 3 }),
+    fc.dictionary(fc.constantFrom('x', 'y'), leafArb),
+  ),
+);
+
+const legacyFile = {
+  version: '0.1.14',
+  createdAt: '2025-11-02T10:00:00.000Z',
+  theme: { selectedTheme: 'dark' },
+  stats: { allTimeStats: { totalCorrect: 10 } },
+};
+
+describe('Backup', () => {
+  beforeEach(() => {
+    useCustomSetsStore.setState({ sets: [] });
+    useReviewStore.setState({ cards: {} });
+  });
+
+  /**
+   * **Feature: backup, Property 1: Migrations Reach the Current Version**
+   */
+  describe('Property 1: Migrations Reach the Current Version', () => {
+    it('upgrades legacy files and keeps their sections', () => {
+      const file = migrateBackup(legacyFile);
+      expect(file).toEqual({
+        version: BACKUP_VERSION,
+        appVersion: '0.1.14',
+        createdAt: legacyFile.createdAt,
+        theme: legacyFile.theme,
+        stats: legacyFile.stats,
+      });
+    });
+
+    it('is idempotent and drops unknown or malformed sections', () => {
+      fc.assert(
+        fc.property(jsonObjectArb, jsonObjectArb, (theme, extra) => {
+          const file = migrateBackup({
+            ...legacyFile,
+            theme,
+            achievements: 'not an object',
+            unknownSection: extra,
+          });
+          expect(file.version).toBe(BACKUP_VERSION);
+          expect(file.theme).toEqual(theme);
+          expect(file).not.toHaveProperty('achievements');
+          expect(file).not.toHaveProperty('unknownSection');
+          expect(migrateBackup(file)).toEqual(file);
+        }),
+        { numRuns: 100 },
+      );
+    });
+
+    it('rejects non-backups and files from newer versions', () => {
+      expect(() => migrateBackup([1, 2])).toThrow();
+      expect(() => migrateBackup(null)).toThrow();
+      expect(() =>
+        migrateBackup({ version: BACKUP_VERSION + 1, createdAt: '' }),
+      ).toThrow(/newer/);
+    });
+  });
+
+  /**
+   * **Feature: backup, Property 2: Diff Reports Exactly the Restored Changes**
+   */
+  describe('Property 2: Diff Reports Exactly the Restored Changes', () => {
+    it('finds no changes when restoring the current state', () => {
+      fc.assert(
+        fc.property(jsonObjectArb, state => {
+          expect(diffBackupSection(state, state)).toEqual([]);
+        }),
+        { numRuns: 100 },
+      );
+    });
+
+    it('reports a change for every differing top-level key in the backup', () => {
+      fc.assert(
+        fc.property(jsonObjectArb, jsonObjectArb, (current, incoming) => {
+          const changes = diffBackupSection(current, incoming);
+          for (const [key, value] of Object.entries(incoming)) {
+            const changed =
+              JSON.stringify(current[key]) !== JSON.stringify(value);
+            const reported = changes.some(
+              change =>
+                change.path === key || change.path.startsWith(`${key}.`),
+            );
+            expect(reported).toBe(changed);
+          }
+          // Keys only in the current state are untouched by a restore
+          for (const change of changes) {
+            expect(change.path.split('.')[0] in incoming).toBe(true);
+          }
+        }),
+        { numRuns: 100 },
+      );
+    });
+
+    it('names nested paths', () => {
+      expect(
+        diffBackupSection(
+          { allTimeStats: { totalCorrect: 1, streak: 2 } },
+          { allTimeStats: { totalCorrect: 5, best: 3 } },
+        ),
+      ).toEqual([
+        { path: 'allTimeStats.totalCorrect', kind: 'changed' },
+        { path: 'allTimeStats.streak', kind: 'removed' },
+        { path: 'allTimeStats.best', kind: 'added' },
+      ]);
+    });
+  });
+
+  describe('Preview and apply', () => {
+    const customSet = {
+      id: 'set-1',
+      name: 'Core 100',
+      source: 'anki',
+      createdAt: 1,
+      contentType: 'vocabulary',
+      items: [{ word: '水', reading: 'みず', meanings: ['water'] }],
+    };
+    const backup = {
+      version: BACKUP_VERSION,
+      appVersion: 'dev',
+      createdAt: '2026-10-01T00:00:00.000Z',
+      customSets: { sets: [customSet] },
+      reviews: { cards: {} },
+    };
+
+    it('previews without writing, then applies', async () => {
+      const preview = await previewBackup(backup);
+      expect(preview.sourceVersion).toBe(BACKUP_VERSION);
+      expect(preview.sections).toEqual([
+        {
+          key: 'reviews',
+          label: 'Review schedule',
+          changes: [],
+        },
+        {
+          key: 'customSets',
+          label: 'Custom sets',
+          changes: [{ path: 'sets', kind: 'changed' }],
+        },
+      ]);
+      expect(useCustomSetsStore.getState().sets).toEqual([]);
+
+      expect(await applyBackup(backup)).toBe(true);
+      expect(useCustomSetsStore.getState().sets).toEqual([customSet]);
+
+      const after = await previewBackup(backup);
+      expect(after.sections.every(s => s.changes.length === 0)).toBe(true);
+    });
+
+    it('fails without writing anything for invalid files', async () => {
+      expect(await applyBackup('not json')).toBe(false);
+      expect(useCustomSetsStore.getState().sets).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Property-Based Tests for Distractor Selection
+ *
+ * **Feature: lookalike-distractors**
+ * Pick games draw a share of their wrong options from the items most like
+ * the answer, and the rest at random, never repeating an option or showing
+ * the correct one.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { pickDistractors } from '../distractors';
+
+interface Item {
+  id: number;
+  option: string;
+}
+
+const getOption = (item: Item) => item.option;
+
+// Items are alike when their ids are close; 10 apart or more is unrelated
+const getSimilarity = (a: Item, b: Item) =>
+  a.id === b.id ? 0 : Math.max(0, 1 - Math.abs(a.id - b.id) / 10);
+
+const itemsArb = fc.array(
+  fc.record({
+    id: fc.integer({ min: 0, max: 100 }),
+    option: fc.constantFrom('a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'),
+  }),
+  { maxLength: 30 },
+);
+
+describe('pickDistractors', () => {
+  it('returns distinct wrong options, as many as are available', () => {
+    fc.assert(
+      fc.property(
+        itemsArb,
+        fc.nat({ max: 30 }),
+        fc.integer({ min: 0, max: 5 }),
+        fc.double({ min: 0, max: 1, noNaN: true }),
+        (items, questionIndex, count, similarity) => {
+          fc.pre(items.length > 0);
+          const question = items[questionIndex % items.length];
+          const distractors = pickDistractors(
+            question,
+            items,
+            count,
+            getOption,
+            getSimilarity,
+            similarity,
+          );
+          const available = new Set(items.map(getOption));
+          available.delete(question.option);
+
+          expect(new Set(distractors).size).toBe(distractors.length);
+          expect(distractors).not.toContain(question.option);
+          expect(distractors).toHaveLength(Math.min(count, available.size));
+          distractors.forEach(option =>
+            expect(available.has(option)).toBe(true),
+          );
+        },
+      ),
+    );
+  });
+
+  it('picks the most similar items at full similarity', () => {
+    const question = { id: 50, option: 'q' };
+    const items = [
+      question,
+      { id: 0, option: 'far' },
+      { id: 49, option: 'close' },
+      { id: 90, option: 'farther' },
+      { id: 53, option: 'near' },
+      { id: 20, option: 'away' },
+    ];
+    for (let run = 0; run < 20; run++) {
+      expect(
+        pickDistractors(question, items, 2, getOption, getSimilarity, 1),
+      ).toEqual(['close', 'near']);
+    }
+  });
+
+  it('fills the remaining slots at random when few items are similar', () => {
+    const question = { id: 50, option: 'q' };
+    const items = [
+      question,
+      { id: 51, option: 'close' },
+      { id: 0, option: 'far' },
+      { id: 90, option: 'farther' },
+    ];
+    const distractors = pickDistractors(
+      question,
+      items,
+      3,
+      getOption,
+      getSimilarity,
+      1,
+    );
+    expect(distractors[0]).toBe('close');
+    expect([...distractors].sort()).toEqual(['close', 'far', 'farther']);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Property-Based Tests for Gauntlet Challenge Presets
+ *
+ * **Feature: gauntlet-presets**
+ * Custom challenges travel as links; whatever a link carries, the preset
+ * read from it stays within the builder's limits.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  PRESET_LIMITS,
+  decodePresetLink,
+  encodePresetLink,
+  getPresetGameMode,
+  normalizePresetRules,
+  type GauntletPreset,
+} from '../gauntletPresets';
+import { toBase64Url } from '../base64Url';
+
+const rangeArb = ({ min, max }: { min: number; max: number }) =>
+  fc.integer({ min, max });
+
+const presetArb: fc.Arbitrary<GauntletPreset> = fc.record({
+  id: fc.string({ minLength: 1, maxLength: 20 }),
+  name: fc
+    .string({ minLength: 1, maxLength: 40 })
+    .filter(name => name.trim() === name && name.length > 0),
+  lives: rangeArb(PRESET_LIMITS.lives),
+  regenThreshold: rangeArb(PRESET_LIMITS.regenThreshold),
+  repetitions: rangeArb(PRESET_LIMITS.repetitions),
+  questionTimeLimit: rangeArb(PRESET_LIMITS.questionTimeLimit),
+  allowedModes: fc.constantFrom<GauntletPreset['allowedModes']>(
+    ['Pick'],
+    ['Type'],
+    ['Pick', 'Type'],
+  ),
+  reverseProbability: fc.double({ min: 0, max: 1, noNaN: true }),
+});
+
+describe('preset links', () => {
+  it('round-trips every preset', () => {
+    fc.assert(
+      fc.property(presetArb, preset => {
+        expect(decodePresetLink(encodePresetLink(preset))).toEqual(preset);
+      }),
+    );
+  });
+
+  it('rejects links that are not presets', () => {
+    expect(() => decodePresetLink('not a preset')).toThrow();
+    expect(() =>
+      decodePresetLink(toBase64Url(JSON.stringify({ v: 1, n: 'x' }))),
+    ).toThrow();
+    expect(() =>
+      decodePresetLink(
+        toBase64Url(JSON.stringify({ v: 99, i: 'preset', n: 'x' })),
+      ),
+    ).toThrow();
+  });
+});
+
+describe('normalizePresetRules', () => {
+  it('keeps any input within the limits, with at least one mode', () => {
+    fc.assert(
+      fc.property(
+        fc.record({
+          lives: fc.anything(),
+          regenThreshold: fc.oneof(fc.integer(), fc.double()),
+          repetitions: fc.integer(),
+          questionTimeLimit: fc.anything(),
+          allowedModes: fc.array(fc.constantFrom('Pick', 'Type', 'Draw')),
+          reverseProbability: fc.oneof(fc.double(), fc.string()),
+        }),
+        rules => {
+          const normalized = normalizePresetRules(rules);
+          for (const key of Object.keys(PRESET_LIMITS) as Array<
+            keyof typeof PRESET_LIMITS
+          >) {
+            expect(Number.isInteger(normalized[key])).toBe(true);
+            expect(normalized[key]).toBeGreaterThanOrEqual(
+              PRESET_LIMITS[key].min,
+            );
+            expect(normalized[key]).toBeLessThanOrEqual(PRESET_LIMITS[key].max);
+          }
+          expect(normalized.allowedModes.length).toBeGreaterThan(0);
+          expect(
+            normalized.allowedModes.every(
+              mode => mode === 'Pick' || mode === 'Type',
+            ),
+          ).toBe(true);
+          expect(normalized.reverseProbability).toBeGreaterThanOrEqual(0);
+          expect(normalized.reverseProbability).toBeLessThanOrEqual(1);
+        },
+      ),
+    );
+  });
+
+  it('plays a preset only in a mode it allows', () => {
+    fc.assert(
+      fc.property(
+        presetArb,
+        fc.constantFrom<'Pick' | 'Type'>('Pick', 'Type'),
+        (preset, mode) => {
+          const played = getPresetGameMode(preset, mode);
+          expect(preset.allowedModes).toContain(played);
+          if (preset.allowedModes.includes(mode)) expect(played).toBe(mode);
+        },
+      ),
+    );
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Property-Based Tests for the Gauntlet Question Timer
+ *
+ * **Feature: gauntlet-question-timer**
+ * The time to answer shrinks as the streak grows, but stays within the
+ * limit and never drops below the floor.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  TIMER_MIN_MS,
+  TIMER_MIN_SHARE,
+  getQuestionTimeBudgetMs,
+} from '../gauntletTimer';
+
+const limitArb = fc.integer({ min: 1, max: 60 });
+const streakArb = fc.integer({ min: 0, max: 500 });
+
+describe('getQuestionTimeBudgetMs', () => {
+  it('is 0 without a limit', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: -60, max: 0 }), streakArb, (limit, s) => {
+        expect(getQuestionTimeBudgetMs(limit, s)).toBe(0);
+      }),
+    );
+  });
+
+  it('gives the full limit with no streak', () => {
+    fc.assert(
+      fc.property(limitArb, limit => {
+        expect(getQuestionTimeBudgetMs(limit, 0)).toBe(limit * 1000);
+      }),
+    );
+  });
+
+  it('stays between the floor and the limit', () => {
+    fc.assert(
+      fc.property(limitArb, streakArb, (limit, streak) => {
+        const budget = getQuestionTimeBudgetMs(limit, streak);
+        const floor = Math.min(
+          limit * 1000,
+          Math.max(TIMER_MIN_MS, limit * 1000 * TIMER_MIN_SHARE),
+        );
+        expect(budget).toBeLessThanOrEqual(limit * 1000);
+        expect(budget).toBeGreaterThanOrEqual(Math.floor(floor));
+      }),
+    );
+  });
+
+  it('never grows as the streak grows', () => {
+    fc.assert(
+      fc.property(limitArb, streakArb, streakArb, (limit, a, b) => {
+        const [shorter, longer] = a <= b ? [a, b] : [b, a];
+        expect(getQuestionTimeBudgetMs(limit, longer)).toBeLessThanOrEqual(
+          getQuestionTimeBudgetMs(limit, shorter),
+        );
+      }),
+    );
+  });
+});
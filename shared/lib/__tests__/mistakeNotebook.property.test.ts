@@ -0,0 +1,154 @@
+/**
+ * Property-Based Tests for the Mistake Notebook
+ *
+ * **Feature: mistake-notebook**
+ * Confusions are counted per direction and grouped into unordered pairs,
+ * and drill questions only offer the asked item next to items from the
+ * notebook, led by the ones it was confused with.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  addConfusion,
+  buildConfusionDrillQuestion,
+  getConfusionPartners,
+  groupConfusionPairs,
+  MAX_CONFUSIONS,
+  type Confusion,
+  type MistakeItem,
+} from '../mistakeNotebook';
+
+const KANA: MistakeItem[] = [
+  { key: 'ソ', answer: 'so' },
+  { key: 'ン', answer: 'n' },
+  { key: 'シ', answer: 'shi' },
+  { key: 'ツ', answer: 'tsu' },
+  { key: 'ア', answer: 'a' },
+];
+
+const confusionArb = fc.tuple(
+  fc.nat({ max: KANA.length - 1 }),
+  fc.nat({ max: KANA.length - 1 }),
+);
+
+function record(steps: [number, number][]): Record<string, Confusion> {
+  return steps.reduce(
+    (confusions, [asked, picked], time) =>
+      addConfusion(confusions, 'kana', KANA[asked], KANA[picked], time),
+    {} as Record<string, Confusion>,
+  );
+}
+
+describe('mistakeNotebook', () => {
+  it('counts every wrong pick once, whichever direction it went', () => {
+    fc.assert(
+      fc.property(fc.array(confusionArb, { maxLength: 40 }), steps => {
+        const pairs = groupConfusionPairs(Object.values(record(steps)));
+        const wrongPicks = steps.filter(([a, b]) => a !== b).length;
+
+        expect(pairs.reduce((sum, pair) => sum + pair.count, 0)).toBe(
+          wrongPicks,
+        );
+        expect(new Set(pairs.map(pair => pair.id)).size).toBe(pairs.length);
+        for (let i = 1; i < pairs.length; i++) {
+          expect(pairs[i - 1].count).toBeGreaterThanOrEqual(pairs[i].count);
+        }
+      }),
+    );
+  });
+
+  it('groups ソ→ン and ン→ソ into one pair', () => {
+    const pairs = groupConfusionPairs(
+      Object.values(
+        record([
+          [0, 1],
+          [1, 0],
+          [0, 1],
+          [2, 3],
+        ]),
+      ),
+    );
+    expect(pairs).toHaveLength(2);
+    expect(pairs[0].count).toBe(3);
+    expect(pairs[0].items.map(item => item.key).sort()).toEqual(['ソ', 'ン']);
+    expect(getConfusionPartners(pairs, 'kana', 'ン')).toEqual([KANA[0]]);
+    expect(getConfusionPartners(pairs, 'kanji', 'ン')).toEqual([]);
+  });
+
+  it('keeps the notebook to the most recent confusions', () => {
+    let confusions: Record<string, Confusion> = {};
+    for (let i = 0; i <= MAX_CONFUSIONS; i++) {
+      confusions = addConfusion(
+        confusions,
+        'vocabulary',
+        { key: `w${i}`, answer: `m${i}` },
+        { key: 'w', answer: 'm' },
+        i,
+      );
+    }
+    expect(Object.keys(confusions)).toHaveLength(MAX_CONFUSIONS);
+    expect(Object.values(confusions).some(c => c.item.key === 'w0')).toBe(
+      false,
+    );
+  });
+
+  it('drills an item against what it was confused with', () => {
+    fc.assert(
+      fc.property(
+        fc.array(confusionArb, { minLength: 1, maxLength: 30 }),
+        fc.integer({ min: 2, max: 6 }),
+        fc.double({ min: 0, max: 1, maxExcluded: true, noNaN: true }),
+        (steps, optionCount, seed) => {
+          const pairs = groupConfusionPairs(Object.values(record(steps)));
+          const random = () => seed;
+          const question = buildConfusionDrillQuestion(
+            pairs,
+            optionCount,
+            undefined,
+            random,
+          );
+          if (pairs.length === 0) {
+            expect(question).toBeNull();
+            return;
+          }
+
+          const { item, options } = question!;
+          const answers = options.map(option => option.answer);
+          const inNotebook = new Set(
+            pairs.flatMap(pair => pair.items.map(i => i.key)),
+          );
+          expect(answers.filter(answer => answer === item.answer)).toHaveLength(
+            1,
+          );
+          expect(new Set(answers).size).toBe(answers.length);
+          expect(options.length).toBeLessThanOrEqual(optionCount);
+          expect(options.every(option => inNotebook.has(option.key))).toBe(
+            true,
+          );
+
+          const partners = getConfusionPartners(pairs, 'kana', item.key);
+          const expectedPartners = partners.slice(0, optionCount - 1);
+          expect(
+            expectedPartners.every(partner => options.includes(partner)),
+          ).toBe(true);
+        },
+      ),
+    );
+  });
+
+  it('moves on from the previous item when it can', () => {
+    const pairs = groupConfusionPairs(
+      Object.values(
+        record([
+          [0, 1],
+          [2, 3],
+        ]),
+      ),
+    );
+    for (const seed of [0, 0.3, 0.6, 0.99]) {
+      const question = buildConfusionDrillQuestion(pairs, 4, 'ソ', () => seed);
+      expect(['シ', 'ツ']).toContain(question!.item.key);
+    }
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Property-Based Tests for Pitch Accent
+ *
+ * **Feature: pitch-accent**
+ * Readings are split into morae, downstep numbers are expanded into a
+ * high/low pattern with a following particle, and quiz choices always
+ * hold exactly one accent of the word.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  getAccentChoices,
+  getAccentKey,
+  getAccentType,
+  getPitchPattern,
+  getPossibleAccents,
+  parseNaistJdicAccents,
+  splitMorae,
+} from '../pitchAccent';
+
+describe('splitMorae', () => {
+  it('joins small kana to the previous mora', () => {
+    expect(splitMorae('きょう')).toEqual(['きょ', 'う']);
+    expect(splitMorae('がっこう')).toEqual(['が', 'っ', 'こ', 'う']);
+    expect(splitMorae('コーヒー')).toEqual(['コ', 'ー', 'ヒ', 'ー']);
+    expect(splitMorae('しんぶん')).toEqual(['し', 'ん', 'ぶ', 'ん']);
+  });
+});
+
+describe('getPitchPattern', () => {
+  it('expands each accent type', () => {
+    expect(getPitchPattern(3, 0)).toEqual(['low', 'high', 'high', 'high']);
+    expect(getPitchPattern(3, 1)).toEqual(['high', 'low', 'low', 'low']);
+    expect(getPitchPattern(3, 2)).toEqual(['low', 'high', 'low', 'low']);
+    expect(getPitchPattern(3, 3)).toEqual(['low', 'high', 'high', 'low']);
+  });
+
+  it('falls once, right after the accented mora', () => {
+    fc.assert(
+      fc.property(
+        fc
+          .integer({ min: 1, max: 8 })
+          .chain(moraCount =>
+            fc.tuple(
+              fc.constant(moraCount),
+              fc.integer({ min: 0, max: moraCount }),
+            ),
+          ),
+        ([moraCount, accent]) => {
+          const pattern = getPitchPattern(moraCount, accent);
+          expect(pattern).toHaveLength(moraCount + 1);
+
+          const drops = pattern.flatMap((level, index) =>
+            level === 'high' && pattern[index + 1] === 'low' ? [index + 1] : [],
+          );
+          expect(drops).toEqual(accent === 0 ? [] : [accent]);
+          expect(getAccentType(moraCount, accent)).toBe(
+            accent === 0
+              ? 'heiban'
+              : accent === 1
+                ? 'atamadaka'
+                : accent === moraCount
+                  ? 'odaka'
+                  : 'nakadaka',
+          );
+        },
+      ),
+    );
+  });
+});
+
+describe('getAccentChoices', () => {
+  it('includes the main accent and no alternative accents', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 8 }).chain(moraCount =>
+          fc.tuple(
+            fc.constant(moraCount),
+            fc.uniqueArray(fc.integer({ min: 0, max: moraCount }), {
+              minLength: 1,
+              maxLength: 2,
+            }),
+          ),
+        ),
+        ([moraCount, accents]) => {
+          const choices = getAccentChoices(moraCount, accents);
+          expect(choices.filter(accent => accents.includes(accent))).toEqual([
+            accents[0],
+          ]);
+          expect(choices.length).toBe(
+            Math.min(4, moraCount + 2 - accents.length),
+          );
+          expect(new Set(choices).size).toBe(choices.length);
+          expect(
+            choices.every(accent =>
+              getPossibleAccents(moraCount).includes(accent),
+            ),
+          ).toBe(true);
+          expect([...choices].sort((a, b) => a - b)).toEqual(choices);
+        },
+      ),
+    );
+  });
+});
+
+describe('parseNaistJdicAccents', () => {
+  it('reads the accents of dictionary forms, most common first', () => {
+    const accents = parseNaistJdicAccents(
+      [
+        '箸,1345,1345,5786,名詞,一般,*,*,*,*,箸,ハシ,ハシ,1/2,C3',
+        '橋,1345,1345,4973,名詞,一般,*,*,*,*,橋,ハシ,ハシ,2/2,C3',
+        '端,1345,1345,6702,名詞,一般,*,*,*,*,端,ハシ,ハシ,1/2,C1',
+        '端,1345,1345,49,名詞,一般,*,*,*,*,端,ハシ,ハシ,0/2,C1',
+        '今日,1375,1375,3394,名詞,副詞可能,*,*,*,*,今日,キョウ,キョー,1/2,C3',
+        '見る,645,645,6569,動詞,自立,*,*,一段,基本形,見る,ミル,ミル,1/2,*',
+        '見れ,645,645,6569,動詞,自立,*,*,一段,仮定形,見る,ミレ,ミレ,1/2,*',
+        '東京駅,1345,1345,4000,名詞,固有名詞,*,*,*,*,東京駅,トウキョウエキ,トーキョーエキ,0/4:1/2,C1',
+        'bad line',
+      ].join('\n'),
+    );
+    expect(accents.get(getAccentKey('箸', 'はし'))).toEqual([1]);
+    expect(accents.get(getAccentKey('橋', 'ハシ'))).toEqual([2]);
+    expect(accents.get(getAccentKey('端', 'はし'))).toEqual([0, 1]);
+    expect(accents.get(getAccentKey('今日', 'きょう'))).toEqual([1]);
+    expect(accents.get(getAccentKey('見る', 'みる'))).toEqual([1]);
+    expect(accents.size).toBe(5);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Property-Based Tests for Session Timelines
+ *
+ * **Feature: session-replay**
+ * Gauntlet and Blitz runs are recorded as timelines of answers and regens;
+ * the replay chart is derived from them and only the newest runs are kept.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  addTimeline,
+  getRegensByAnswer,
+  getTimelineAnswers,
+  getTimelinePoints,
+  type SessionTimeline,
+  type TimelineEvent,
+} from '../sessionTimeline';
+
+const eventArb: fc.Arbitrary<TimelineEvent> = fc.oneof(
+  fc.record({
+    type: fc.constant('answer' as const),
+    at: fc.nat(),
+    question: fc.constantFrom('あ', 'い', 'う'),
+    correctAnswer: fc.constantFrom('a', 'i', 'u'),
+    answer: fc.constantFrom('a', 'i', 'u'),
+    isCorrect: fc.boolean(),
+    latencyMs: fc.nat({ max: 10000 }),
+  }),
+  fc.record({
+    type: fc.constant('regen' as const),
+    at: fc.nat(),
+    livesBefore: fc.nat({ max: 3 }),
+    livesAfter: fc.nat({ max: 3 }),
+  }),
+);
+
+const timelineArb = (id = fc.string()): fc.Arbitrary<SessionTimeline> =>
+  fc.record({
+    id,
+    challenge: fc.constantFrom('gauntlet' as const, 'blitz' as const),
+    dojoType: fc.constantFrom('kana' as const, 'kanji' as const),
+    gameMode: fc.constantFrom('Pick' as const, 'Type' as const),
+    startedAt: fc.nat(),
+    endedAt: fc.nat(),
+    events: fc.array(eventArb, { maxLength: 40 }),
+  });
+
+describe('getTimelinePoints', () => {
+  it('charts every answer with accuracy over the window ending at it', () => {
+    fc.assert(
+      fc.property(
+        timelineArb(),
+        fc.integer({ min: 1, max: 10 }),
+        (timeline, window) => {
+          const answers = getTimelineAnswers(timeline);
+          const points = getTimelinePoints(timeline, window);
+
+          expect(points).toHaveLength(answers.length);
+          points.forEach((point, index) => {
+            const recent = answers.slice(
+              Math.max(0, index - window + 1),
+              index + 1,
+            );
+            expect(point.answerNumber).toBe(index + 1);
+            expect(point.latencyMs).toBe(answers[index].latencyMs);
+            expect(point.rollingAccuracy).toBeCloseTo(
+              recent.filter(answer => answer.isCorrect).length / recent.length,
+            );
+          });
+        },
+      ),
+    );
+  });
+});
+
+describe('getRegensByAnswer', () => {
+  it('places every regen after the answers that preceded it', () => {
+    fc.assert(
+      fc.property(timelineArb(), timeline => {
+        const regensByAnswer = getRegensByAnswer(timeline);
+        const regens = timeline.events.filter(event => event.type === 'regen');
+
+        expect([...regensByAnswer.values()].flat()).toEqual(regens);
+        for (const [answerCount, atCount] of regensByAnswer) {
+          const index = timeline.events.indexOf(atCount[0]);
+          expect(
+            getTimelineAnswers({
+              ...timeline,
+              events: timeline.events.slice(0, index),
+            }),
+          ).toHaveLength(answerCount);
+        }
+      }),
+    );
+  });
+});
+
+describe('addTimeline', () => {
+  it('keeps the newest runs first, once each, up to the limit', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(timelineArb(fc.string({ maxLength: 3 })), {
+          selector: timeline => timeline.id,
+          maxLength: 10,
+        }),
+        timelineArb(fc.string({ maxLength: 3 })),
+        fc.integer({ min: 1, max: 10 }),
+        (stored, timeline, limit) => {
+          const result = addTimeline(stored, timeline, limit);
+
+          expect(result[0]).toBe(timeline);
+          expect(result.length).toBeLessThanOrEqual(limit);
+          expect(new Set(result.map(entry => entry.id)).size).toBe(
+            result.length,
+          );
+          expect(result.slice(1)).toEqual(
+            stored
+              .filter(entry => entry.id !== timeline.id)
+              .slice(0, limit - 1),
+          );
+        },
+      ),
+    );
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  createReviewCard,
+  scheduleReview,
+  prioritizeDue,
+  getDueCards,
+  gradeAnswer,
+  getCardId,
+  isDue,
+  DAY_MS,
+  RELEARN_DELAY_MS,
+  type ReviewCard,
+  type ReviewGrade,
+} from '../spacedRepetition';
+
+const NOW = new Date('2026-03-01T12:00:00Z').getTime();
+
+const gradeArb = fc.constantFrom<ReviewGrade>('again', 'hard', 'good', 'easy');
+
+const contentTypeArb = fc.constantFrom(
+  'kana' as const,
+  'kanji' as const,
+  'vocabulary' as const,
+);
+
+/**
+ * Replay a sequence of grades, each given exactly when the card becomes due
+ */
+const replayOnDueDates = (grades: ReviewGrade[]): ReviewCard => {
+  let card = createReviewCard('kanji', '日', NOW);
+  for (const grade of grades) {
+    card = scheduleReview(card, grade, Math.max(card.dueAt, NOW));
+  }
+  return card;
+};
+
+describe('Spaced Repetition Scheduler', () => {
+  /**
+   * **Feature: spaced-repetition, Property 1: Schedules Stay Bounded**
+   * For any sequence of reviews, the ease factor stays within SM-2 bounds,
+   * stability is never negative and the due date never precedes the review.
+   */
+  describe('Property 1: Schedules Stay Bounded', () => {
+    it('keeps ease, stability and due date valid', () => {
+      fc.assert(
+        fc.property(fc.array(gradeArb, { maxLength: 30 }), grades => {
+          const card = replayOnDueDates(grades);
+          expect(card.ease).toBeGreaterThanOrEqual(1.3);
+          expect(card.ease).toBeLessThanOrEqual(3.0);
+          expect(card.stability).toBeGreaterThanOrEqual(0);
+          expect(card.stability).toBeLessThanOrEqual(365);
+          expect(card.dueAt).toBeGreaterThanOrEqual(card.lastReviewedAt);
+        }),
+        { numRuns: 100 },
+      );
+    });
+  });
+
+  /**
+   * **Feature: spaced-repetition, Property 2: Successful Reviews Grow Intervals**
+   * For any run of successful on-time reviews, each interval is at least as
+   * long as the previous one.
+   */
+  describe('Property 2: Successful Reviews Grow Intervals', () => {
+    it('never shrinks the interval on good or easy answers', () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.constantFrom<ReviewGrade>('good', 'easy'), {
+            minLength: 1,
+            maxLength: 15,
+          }),
+          grades => {
+            let card = createReviewCard('kana', 'あ', NOW);
+            let previous = 0;
+            for (const grade of grades) {
+              card = scheduleReview(card, grade, card.dueAt);
+              expect(card.stability).toBeGreaterThanOrEqual(previous);
+              previous = card.stability;
+            }
+          },
+        ),
+        { numRuns: 100 },
+      );
+    });
+
+    it('follows the 1 day / 6 day SM-2 graduation steps', () => {
+      const first = scheduleReview(
+        createReviewCard('kana', 'あ', NOW),
+        'good',
+        NOW,
+      );
+      expect(first.dueAt - NOW).toBe(DAY_MS);
+      const second = scheduleReview(first, 'good', first.dueAt);
+      expect(second.dueAt - first.dueAt).toBe(6 * DAY_MS);
+    });
+  });
+
+  /**
+   * **Feature: spaced-repetition, Property 3: Lapses Reset to Relearning**
+   * For any graduated card, a miss sends it back to relearning, shortens the
+   * next review to the relearning delay and counts exactly one lapse.
+   */
+  describe('Property 3: Lapses Reset to Relearning', () => {
+    it('counts one lapse per forgotten graduated card', () => {
+      fc.assert(
+        fc.property(
+          fc.integer({ min: 1, max: 10 }),
+          fc.integer({ min: 1, max: 5 }),
+          (successes, misses) => {
+            let card = replayOnDueDates(Array(successes).fill('good'));
+            const lapsesBefore = card.lapses;
+            const missAt = card.dueAt;
+            for (let i = 0; i < misses; i++) {
+              card = scheduleReview(card, 'again', missAt);
+            }
+            expect(card.lapses).toBe(lapsesBefore + 1);
+            expect(card.reps).toBe(0);
+            expect(card.stability).toBe(0);
+            expect(card.dueAt).toBe(missAt + RELEARN_DELAY_MS);
+          },
+        ),
+        { numRuns: 100 },
+      );
+    });
+  });
+
+  /**
+   * **Feature: spaced-repetition, Property 4: Early Reviews Don't Inflate**
+   * For any card that is not yet due, a correct answer leaves its schedule
+   * unchanged.
+   */
+  describe('Property 4: Early Reviews Do Not Inflate Intervals', () => {
+    it('keeps the due date for correct answers before the due date', () => {
+      fc.assert(
+        fc.property(
+          fc.constantFrom<ReviewGrade>('hard', 'good', 'easy'),
+          fc.integer({ min: 1, max: DAY_MS - 1 }),
+          (grade, elapsed) => {
+            const card = scheduleReview(
+              createReviewCard('vocabulary', '学校', NOW),
+              'good',
+              NOW,
+            );
+            const early = scheduleReview(card, grade, NOW + elapsed);
+            expect(early.dueAt).toBe(card.dueAt);
+            expect(early.stability).toBe(card.stability);
+            expect(early.reps).toBe(card.reps);
+          },
+        ),
+        { numRuns: 100 },
+      );
+    });
+  });
+
+  /**
+   * **Feature: spaced-repetition, Property 5: Due Items Are Served First**
+   * For any pool with at least one due item, prioritizeDue returns only due
+   * items; with none due it returns the pool unchanged.
+   */
+  describe('Property 5: Due Items Are Served First', () => {
+    it('narrows the pool to due items when any are due', () => {
+      fc.assert(
+        fc.property(
+          fc.uniqueArray(fc.string({ minLength: 1, maxLength: 3 }), {
+            minLength: 1,
+            maxLength: 20,
+          }),
+          fc.array(fc.boolean(), { minLength: 20, maxLength: 20 }),
+          contentTypeArb,
+          (pool, dueFlags, contentType) => {
+            const cards: Record<string, ReviewCard> = {};
+            pool.forEach((key, i) => {
+              cards[getCardId(contentType, key)] = {
+                ...createReviewCard(contentType, key, NOW),
+                dueAt: dueFlags[i] ? NOW - 1 : NOW + DAY_MS,
+              };
+            });
+
+            const result = prioritizeDue(
+              pool,
+              cards,
+              contentType,
+              undefined,
+              NOW,
+            );
+            const due = pool.filter((_, i) => dueFlags[i]);
+
+            if (due.length > 0) {
+              expect(result).toEqual(due);
+            } else {
+              expect(result).toEqual(pool);
+            }
+          },
+        ),
+        { numRuns: 100 },
+      );
+    });
+
+    it('ignores cards from other content types', () => {
+      const cards = {
+        [getCardId('kanji', '人')]: {
+          ...createReviewCard('kanji', '人', NOW),
+          dueAt: NOW - 1,
+        },
+      };
+      expect(
+        prioritizeDue(['人', '学校'], cards, 'vocabulary', undefined, NOW),
+      ).toEqual(['人', '学校']);
+    });
+
+    it('never returns only the excluded item', () => {
+      const cards = {
+        [getCardId('kana', 'あ')]: {
+          ...createReviewCard('kana', 'あ', NOW),
+          dueAt: NOW - 1,
+        },
+      };
+      expect(prioritizeDue(['あ', 'い'], cards, 'kana', 'あ', NOW)).toEqual([
+        'あ',
+        'い',
+      ]);
+    });
+  });
+
+  describe('Due queue helpers', () => {
+    it('sorts due cards most overdue first', () => {
+      const cards = [3, 1, 2].map(offset => ({
+        ...createReviewCard('kana', String(offset), NOW),
+        dueAt: NOW - offset * 1000,
+      }));
+      expect(getDueCards(cards, NOW).map(card => card.key)).toEqual([
+        '3',
+        '2',
+        '1',
+      ]);
+      expect(isDue(cards[0], NOW)).toBe(true);
+    });
+
+    it('grades answers by correctness and speed', () => {
+      expect(gradeAnswer(false, 500)).toBe('again');
+      expect(gradeAnswer(true)).toBe('good');
+      expect(gradeAnswer(true, 800)).toBe('easy');
+      expect(gradeAnswer(true, 3000)).toBe('good');
+      expect(gradeAnswer(true, 9000)).toBe('hard');
+    });
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Property-Based Tests for Study Sets
+ *
+ * **Feature: custom-study-sets**
+ * Share links carry a set's keys through unchanged, files keep valid
+ * entries and drop malformed ones, and study set edits never duplicate an
+ * entry or a set name.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  classifyStudySetKey,
+  createStudySetFile,
+  decodeStudySetLink,
+  encodeStudySetLink,
+  getKanaGroupIndices,
+  getStudySetKeys,
+  groupStudySetKeys,
+  parseStudySetFile,
+} from '../studySets';
+import useCustomSetsStore, {
+  countStudySetItems,
+  mergeStudySetItems,
+  EMPTY_STUDY_SET_ITEMS,
+} from '@/shared/store/useCustomSetsStore';
+
+const KANJI = {
+  id: 1,
+  kanjiChar: '日',
+  onyomi: ['nichi にち'],
+  kunyomi: ['hi ひ'],
+  meanings: ['day', 'sun'],
+};
+const WORD = { word: '学校', reading: 'がっこう', meanings: ['school'] };
+
+const KANA_GROUPS = [
+  { kana: ['あ', 'い', 'う', 'え', 'お'], groupName: 'h.b.a' },
+  { kana: ['きゃ', 'きゅ', 'きょ'], groupName: 'h.y.k' },
+  { kana: ['ア', 'イ', 'ウ', 'エ', 'オ'], groupName: 'k.b.a' },
+  { kana: ['あ', 'お'], groupName: 'challenge.similar' },
+];
+
+const keyArb = fc.constantFrom(
+  'あ',
+  'きゃ',
+  'ア',
+  '日',
+  '々',
+  '学校',
+  'ありがとう',
+  '食べる',
+);
+const nameArb = fc.string({ maxLength: 20 });
+
+describe('study set links', () => {
+  it('round-trip the name and keys of any set', () => {
+    fc.assert(
+      fc.property(
+        nameArb,
+        fc.array(keyArb, { maxLength: 10 }),
+        (name, keys) => {
+          const grouped = groupStudySetKeys(keys);
+          const encoded = encodeStudySetLink(name, grouped);
+          expect(encoded).toMatch(/^[A-Za-z0-9_-]*$/);
+          expect(decodeStudySetLink(encoded)).toEqual({ name, keys: grouped });
+        },
+      ),
+    );
+  });
+
+  it('rejects payloads that are not study sets', () => {
+    expect(() => decodeStudySetLink('not a set')).toThrow();
+    expect(() =>
+      decodeStudySetLink(btoa(JSON.stringify({ v: 99, n: 'x' }))),
+    ).toThrow(/newer/);
+  });
+
+  it('sorts keys into the dojo that practices them', () => {
+    expect(groupStudySetKeys(['あ', ' 日 ', '学校', 'きゃ', 'あ', ''])).toEqual(
+      { kana: ['あ', 'きゃ'], kanji: ['日'], vocabulary: ['学校'] },
+    );
+    expect(classifyStudySetKey('ありがとう')).toBe('vocabulary');
+  });
+});
+
+describe('study set files', () => {
+  it('read back what was exported', () => {
+    const items = mergeStudySetItems(EMPTY_STUDY_SET_ITEMS, {
+      kana: ['あ'],
+      kanji: [KANJI],
+      vocabulary: [WORD],
+    });
+    const file = createStudySetFile({
+      id: 'user-1',
+      name: 'Mixed',
+      createdAt: 0,
+      updatedAt: 0,
+      items,
+    });
+    expect(parseStudySetFile(JSON.parse(JSON.stringify(file)))).toEqual({
+      name: 'Mixed',
+      items,
+      missing: [],
+    });
+  });
+
+  it('drops malformed entries and refuses other files', () => {
+    const parsed = parseStudySetFile({
+      format: 'kanadojo-study-set',
+      version: 1,
+      name: 'Broken',
+      items: {
+        kana: ['あ', 'x', 3],
+        kanji: [{ kanjiChar: '日' }],
+        vocabulary: [WORD],
+      },
+    });
+    expect(parsed.items).toEqual({
+      kana: ['あ'],
+      kanji: [],
+      vocabulary: [WORD],
+    });
+    expect(parsed.missing).toHaveLength(3);
+    expect(() => parseStudySetFile({ format: 'kanadojo-backup' })).toThrow();
+  });
+});
+
+describe('getKanaGroupIndices', () => {
+  it('selects the groups holding the kana, never the challenge groups', () => {
+    expect(getKanaGroupIndices(KANA_GROUPS, ['あ', 'きょ'])).toEqual([0, 1]);
+    expect(getKanaGroupIndices(KANA_GROUPS, ['ウ'])).toEqual([2]);
+    expect(getKanaGroupIndices(KANA_GROUPS, [])).toEqual([]);
+  });
+});
+
+describe('study set store', () => {
+  beforeEach(() => {
+    useCustomSetsStore.setState({ sets: [], studySets: [] });
+  });
+
+  it('never holds an entry twice, whatever is added', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.array(keyArb, { maxLength: 5 }), { maxLength: 5 }),
+        batches => {
+          useCustomSetsStore.setState({ studySets: [] });
+          const { id } = useCustomSetsStore.getState().createStudySet('Set');
+          for (const batch of batches) {
+            const grouped = groupStudySetKeys(batch);
+            useCustomSetsStore.getState().addToStudySet(id, {
+              kana: grouped.kana,
+              kanji: grouped.kanji.map(kanjiChar => ({ ...KANJI, kanjiChar })),
+              vocabulary: grouped.vocabulary.map(word => ({ ...WORD, word })),
+            });
+          }
+          const [studySet] = useCustomSetsStore.getState().studySets;
+          const keys = getStudySetKeys(studySet.items);
+          const all = [...keys.kana, ...keys.kanji, ...keys.vocabulary];
+          expect(new Set(all).size).toBe(countStudySetItems(studySet.items));
+          expect(new Set(all)).toEqual(new Set(batches.flat()));
+        },
+      ),
+    );
+  });
+
+  it('keeps names unique across study sets and imported decks', () => {
+    useCustomSetsStore.setState({
+      sets: [
+        {
+          id: 'anki-1',
+          name: 'Core',
+          source: 'anki',
+          createdAt: 0,
+          contentType: 'vocabulary',
+          items: [WORD],
+        },
+      ],
+    });
+    const store = useCustomSetsStore.getState();
+    expect(store.createStudySet('Core').name).toBe('Core (2)');
+    const other = store.createStudySet('  ');
+    expect(other.name).toBe('My set');
+
+    store.renameStudySet(other.id, 'Core (2)');
+    store.renameStudySet(other.id, '');
+    expect(
+      useCustomSetsStore.getState().studySets.map(studySet => studySet.name),
+    ).toEqual(['Core (2)', 'Core (2) (2)']);
+  });
+
+  it('keeps imported deck names unique across content types and study sets', () => {
+    const store = useCustomSetsStore.getState();
+    store.createStudySet('Core');
+    const deck = {
+      name: 'Core',
+      source: 'anki' as const,
+      contentType: 'vocabulary' as const,
+      items: [WORD],
+    };
+    expect(store.addSet(deck).name).toBe('Core (2)');
+    expect(
+      store.addSet({ ...deck, contentType: 'kanji', items: [KANJI] }).name,
+    ).toBe('Core (3)');
+  });
+
+  it('never takes the name of a built-in level set', () => {
+    const store = useCustomSetsStore.getState();
+    expect(store.createStudySet('Set 3').name).toBe('Set 3 (2)');
+    expect(store.createStudySet('Set').name).toBe('Set');
+  });
+
+  it('removes single entries by key', () => {
+    const store = useCustomSetsStore.getState();
+    const { id } = store.createStudySet('Set', {
+      kana: ['あ'],
+      kanji: [KANJI],
+    });
+    store.removeFromStudySet(id, 'kanji', '日');
+    expect(useCustomSetsStore.getState().studySets[0].items).toEqual({
+      kana: ['あ'],
+      kanji: [],
+      vocabulary: [],
+    });
+  });
+});
@@ -0,0 +1,352 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  applyFieldsToSections,
+  buildLocalDocument,
+  createSyncDocument,
+  createWebDavSyncAdapter,
+  flattenSections,
+  mergeSyncDocuments,
+  parseSyncDocument,
+  resetSyncState,
+  SyncError,
+  syncWithAdapter,
+  type SyncDocument,
+  type SyncField,
+} from '../sync';
+import { createMockSyncServer } from '../sync/mockServer';
+import type { JSONObject, JSONValue } from '../backup';
+import useCustomSetsStore from '@/shared/store/useCustomSetsStore';
+import { progressBackup } from '@/features/Progress';
+
+// Feature barrels also export page components; sync only needs their facades
+vi.mock('@/features/Kana', () => import('@/features/Kana/facade'));
+vi.mock('@/features/Kanji', () => import('@/features/Kanji/facade'));
+vi.mock('@/features/Vocabulary', () => import('@/features/Vocabulary/facade'));
+vi.mock(
+  '@/features/Preferences',
+  () => import('@/features/Preferences/facade'),
+);
+vi.mock('@/features/Progress', () => import('@/features/Progress/facade'));
+vi.mock('@/features/Conjugator', () => import('@/features/Conjugator/facade'));
+
+const SUM_PATH = 'stats/allTimeStats/totalCorrect';
+const MAX_PATH = 'stats/allTimeStats/bestStreak';
+const UNION_PATH = 'visits/visits';
+const LWW_PATHS = ['theme/selectedTheme', 'reviews/cards/kana:あ'];
+
+const deviceArb = fc.constantFrom('laptop', 'phone', 'tablet');
+const stampArb = fc.record({
+  updatedAt: fc.integer({ min: 0, max: 5 }),
+  deviceId: deviceArb,
+});
+const leafArb: fc.Arbitrary<JSONValue> = fc.oneof(
+  fc.integer(),
+  fc.string({ maxLength: 3 }),
+  fc.boolean(),
+);
+
+const lwwFieldArb: fc.Arbitrary<SyncField> = fc.oneof(
+  fc.tuple(stampArb, leafArb).map(([stamp, value]) => ({ ...stamp, value })),
+  stampArb.map(stamp => ({ ...stamp, value: null, deleted: true })),
+);
+const sumFieldArb: fc.Arbitrary<SyncField> = fc
+  .tuple(stampArb, fc.dictionary(deviceArb, fc.nat({ max: 50 })))
+  .map(([stamp, counts]) => ({
+    ...stamp,
+    counts,
+    value: Object.values(counts).reduce((a, b) => a + b, 0),
+  }));
+const maxFieldArb: fc.Arbitrary<SyncField> = fc
+  .tuple(stampArb, fc.nat({ max: 50 }))
+  .map(([stamp, value]) => ({ ...stamp, value }));
+const unionFieldArb: fc.Arbitrary<SyncField> = fc
+  .tuple(
+    stampArb,
+    fc.uniqueArray(fc.constantFrom('2026-10-01', '2026-10-02', '2026-10-03')),
+  )
+  .map(([stamp, value]) => ({ ...stamp, value }));
+
+const docArb: fc.Arbitrary<SyncDocument> = fc
+  .record(
+    {
+      [SUM_PATH]: sumFieldArb,
+      [MAX_PATH]: maxFieldArb,
+      [UNION_PATH]: unionFieldArb,
+      [LWW_PATHS[0]]: lwwFieldArb,
+      [LWW_PATHS[1]]: lwwFieldArb,
+    },
+    { requiredKeys: [] },
+  )
+  .map(fields => createSyncDocument(fields as Record<string, SyncField>));
+
+const sectionsArb: fc.Arbitrary<Record<string, JSONObject>> = fc.dictionary(
+  fc.constantFrom('theme', 'stats'),
+  fc.dictionary(
+    fc.constantFrom('a', 'b/c', 'd~e'),
+    fc.oneof(
+      leafArb,
+      fc.array(leafArb, { maxLength: 2 }),
+      fc.dictionary(fc.constantFrom('x', 'y'), leafArb, { minKeys: 1 }),
+    ),
+  ),
+);
+
+describe('Sync', () => {
+  /**
+   * **Feature: sync, Property 1: Merge Converges**
+   * Devices may sync in any order and any number of times and still agree.
+   */
+  describe('Property 1: Merge Converges', () => {
+    it('is commutative', () => {
+      fc.assert(
+        fc.property(docArb, docArb, (a, b) => {
+          expect(mergeSyncDocuments(a, b)).toEqual(mergeSyncDocuments(b, a));
+        }),
+        { numRuns: 300 },
+      );
+    });
+
+    it('is idempotent', () => {
+      fc.assert(
+        fc.property(docArb, docArb, (a, b) => {
+          const merged = mergeSyncDocuments(a, b);
+          expect(mergeSyncDocuments(a, a)).toEqual(a);
+          expect(mergeSyncDocuments(merged, b)).toEqual(merged);
+          expect(mergeSyncDocuments(merged, merged)).toEqual(merged);
+        }),
+        { numRuns: 300 },
+      );
+    });
+
+    it('agrees on counters, maxima and last writes regardless of grouping', () => {
+      fc.assert(
+        fc.property(docArb, docArb, docArb, (a, b, c) => {
+          const left = mergeSyncDocuments(mergeSyncDocuments(a, b), c);
+          const right = mergeSyncDocuments(a, mergeSyncDocuments(b, c));
+          for (const path of [SUM_PATH, MAX_PATH, ...LWW_PATHS]) {
+            expect(left.fields[path]).toEqual(right.fields[path]);
+          }
+          expect(
+            new Set(left.fields[UNION_PATH]?.value as string[] | undefined),
+          ).toEqual(
+            new Set(right.fields[UNION_PATH]?.value as string[] | undefined),
+          );
+        }),
+        { numRuns: 200 },
+      );
+    });
+  });
+
+  /**
+   * **Feature: sync, Property 2: Counters Add Across Devices**
+   */
+  describe('Property 2: Counters Add Across Devices', () => {
+    it('counts answers given on each device since the last sync once', () => {
+      fc.assert(
+        fc.property(
+          fc.nat({ max: 100 }),
+          fc.nat({ max: 100 }),
+          fc.nat({ max: 100 }),
+          (base, laptopAnswers, phoneAnswers) => {
+            const synced = buildLocalDocument(
+              { [SUM_PATH]: base },
+              null,
+              'laptop',
+              1,
+            );
+            const laptop = buildLocalDocument(
+              { [SUM_PATH]: base + laptopAnswers },
+              synced,
+              'laptop',
+              2,
+            );
+            const phone = buildLocalDocument(
+              { [SUM_PATH]: base + phoneAnswers },
+              synced,
+              'phone',
+              3,
+            );
+            const merged = mergeSyncDocuments(laptop, phone);
+            expect(merged.fields[SUM_PATH].value).toBe(
+              base + laptopAnswers + phoneAnswers,
+            );
+
+            // Syncing again without new answers changes nothing
+            const again = buildLocalDocument(
+              { [SUM_PATH]: merged.fields[SUM_PATH].value },
+              merged,
+              'phone',
+              4,
+            );
+            expect(mergeSyncDocuments(again, merged)).toEqual(merged);
+          },
+        ),
+        { numRuns: 100 },
+      );
+    });
+
+    it('keeps timestamps of unchanged fields and tombstones removed ones', () => {
+      const first = buildLocalDocument(
+        { [LWW_PATHS[0]]: 'dark', [LWW_PATHS[1]]: 1 },
+        null,
+        'laptop',
+        1,
+      );
+      const second = buildLocalDocument(
+        { [LWW_PATHS[0]]: 'dark' },
+        first,
+        'laptop',
+        2,
+      );
+      expect(second.fields[LWW_PATHS[0]]).toEqual(first.fields[LWW_PATHS[0]]);
+      expect(second.fields[LWW_PATHS[1]]).toEqual({
+        value: null,
+        updatedAt: 2,
+        deviceId: 'laptop',
+        deleted: true,
+      });
+    });
+  });
+
+  /**
+   * **Feature: sync, Property 3: Fields Round-Trip Through Sections**
+   */
+  describe('Property 3: Fields Round-Trip Through Sections', () => {
+    it('rebuilds sections from their flattened fields', () => {
+      fc.assert(
+        fc.property(sectionsArb, sections => {
+          const doc = buildLocalDocument(
+            flattenSections(sections),
+            null,
+            'laptop',
+            1,
+          );
+          // Empty sections have no fields to rebuild them from
+          const nonEmpty = Object.fromEntries(
+            Object.entries(sections).filter(
+              ([, section]) => Object.keys(section).length > 0,
+            ),
+          );
+          expect(applyFieldsToSections({}, doc.fields)).toEqual(nonEmpty);
+          expect(applyFieldsToSections(sections, doc.fields)).toEqual(sections);
+        }),
+        { numRuns: 200 },
+      );
+    });
+
+    it('validates downloaded documents', () => {
+      expect(() => parseSyncDocument('not json')).toThrow(SyncError);
+      expect(() => parseSyncDocument({ fields: {} })).toThrow(SyncError);
+      expect(
+        parseSyncDocument({
+          format: 'kanadojo-sync',
+          version: 1,
+          fields: { ok: { value: 1, updatedAt: 1, deviceId: 'a' }, bad: 3 },
+        }).fields,
+      ).toEqual({ ok: { value: 1, updatedAt: 1, deviceId: 'a' } });
+    });
+  });
+
+  describe('WebDAV adapter', () => {
+    const url = 'https://dav.test/kanadojo-sync.json';
+
+    it('rejects concurrent pushes and wrong credentials', async () => {
+      const server = createMockSyncServer({ username: 'me', password: 'pw' });
+      const adapter = createWebDavSyncAdapter({
+        url,
+        username: 'me',
+        password: 'pw',
+        fetch: server.fetch,
+      });
+      const doc = createSyncDocument();
+
+      const empty = await adapter.pull();
+      expect(empty).toEqual({ document: null, revision: null });
+      await adapter.push(doc, empty);
+      await expect(adapter.push(doc, empty)).rejects.toMatchObject({
+        code: 'conflict',
+      });
+
+      const snapshot = await adapter.pull();
+      expect(snapshot.document).toEqual(doc);
+      await adapter.push(doc, snapshot);
+
+      const stranger = createWebDavSyncAdapter({
+        url,
+        username: 'me',
+        password: 'wrong',
+        fetch: server.fetch,
+      });
+      await expect(stranger.pull()).rejects.toMatchObject({ code: 'auth' });
+    });
+  });
+
+  describe('syncWithAdapter', () => {
+    const url = 'https://dav.test/kanadojo-sync.json';
+    const setMastery = (correct: number) =>
+      progressBackup.setStatsState({
+        allTimeStats: {
+          ...progressBackup.getStatsState().allTimeStats,
+          characterMastery: { あ: { correct, incorrect: 0 } },
+        },
+      });
+
+    beforeEach(async () => {
+      useCustomSetsStore.setState({ sets: [] });
+      await resetSyncState();
+    });
+
+    it('adds mastery counted on two devices and shares custom sets', async () => {
+      const server = createMockSyncServer();
+      const adapter = createWebDavSyncAdapter({ url, fetch: server.fetch });
+
+      // Laptop syncs first
+      setMastery(3);
+      const laptop = await syncWithAdapter(adapter, {
+        deviceId: 'laptop',
+        now: 1,
+      });
+      expect(laptop.pulled).toBe(false);
+
+      // The phone has never synced and has its own answers and a set
+      await resetSyncState();
+      setMastery(2);
+      const customSet = {
+        id: 'set-1',
+        name: 'Phone set',
+        source: 'anki' as const,
+        createdAt: 2,
+        contentType: 'kanji' as const,
+        items: [],
+      };
+      useCustomSetsStore.setState({ sets: [customSet] });
+
+      const phone = await syncWithAdapter(adapter, {
+        deviceId: 'phone',
+        now: 2,
+      });
+      expect(phone.pulled).toBe(true);
+      expect(phone.changedSections).toContain('stats');
+      expect(
+        progressBackup.getStatsState().allTimeStats.characterMastery['あ'],
+      ).toEqual({ correct: 5, incorrect: 0 });
+
+      // Syncing again is a no-op
+      const again = await syncWithAdapter(adapter, {
+        deviceId: 'phone',
+        now: 3,
+      });
+      expect(again.changedSections).toEqual([]);
+      expect(
+        progressBackup.getStatsState().allTimeStats.characterMastery['あ']
+          .correct,
+      ).toBe(5);
+
+      const remote = parseSyncDocument(
+        server.files.values().next().value!.body,
+      );
+      expect(remote.fields['customSets/sets'].value).toEqual([customSet]);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  analyzeText,
+  getAnalysisWorkerClient,
+  toAnalyzedTokens,
+  type AnalyzedToken,
+  type KuromojiToken,
+} from '../textAnalysis';
+import { katakanaToHiragana } from '../textAnalysis/tokens';
+
+const kuromojiToken = (
+  overrides: Partial<KuromojiToken> = {},
+): KuromojiToken => ({
+  surface_form: '食べ',
+  pos: '動詞',
+  pos_detail_1: '自立',
+  pos_detail_2: '*',
+  pos_detail_3: '*',
+  conjugated_type: '一段',
+  conjugated_form: '連用形',
+  basic_form: '食べる',
+  reading: 'タベ',
+  pronunciation: 'タベ',
+  ...overrides,
+});
+
+const TOKENS: AnalyzedToken[] = [
+  {
+    surface: '猫',
+    reading: 'ねこ',
+    basicForm: '猫',
+    pos: 'Noun',
+    posDetail: '',
+  },
+];
+
+const jsonResponse = (body: unknown, ok = true) =>
+  ({ ok, json: async () => body }) as Response;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('token conversion', () => {
+  it('converts katakana readings to hiragana and leaves other text alone', () => {
+    fc.assert(
+      fc.property(fc.array(fc.integer({ min: 0x30a1, max: 0x30f6 })), codes => {
+        const katakana = String.fromCharCode(...codes);
+        const hiragana = katakanaToHiragana(katakana);
+        expect(hiragana).toHaveLength(katakana.length);
+        expect(hiragana).toMatch(/^[ぁ-ゖ]*$/);
+      }),
+    );
+    expect(katakanaToHiragana('ー漢字abc')).toBe('ー漢字abc');
+  });
+
+  it('matches the API token format', () => {
+    expect(toAnalyzedTokens([kuromojiToken()])).toEqual([
+      {
+        surface: '食べ',
+        reading: 'たべ',
+        basicForm: '食べる',
+        pos: 'Verb',
+        posDetail: '一段, 連用形, 自立',
+      },
+    ]);
+
+    const [unknown] = toAnalyzedTokens([
+      kuromojiToken({
+        surface_form: 'ＫＤ',
+        pos: '名詞',
+        pos_detail_1: '*',
+        conjugated_type: '*',
+        conjugated_form: '*',
+        basic_form: '*',
+        reading: undefined,
+      }),
+    ]);
+    expect(unknown.basicForm).toBeUndefined();
+    expect(unknown.reading).toBe('');
+    expect(unknown.posDetail).toBe('No additional info');
+  });
+});
+
+describe('analyzeText', () => {
+  it('analyzes in the worker without calling the API', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(getAnalysisWorkerClient(), 'analyze').mockResolvedValue(TOKENS);
+
+    expect(await analyzeText('猫が好き')).toEqual(TOKENS);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the API when the worker fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(jsonResponse({ tokens: TOKENS }));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(getAnalysisWorkerClient(), 'analyze').mockRejectedValue(
+      new Error('dictionary failed to load'),
+    );
+
+    expect(await analyzeText('猫です')).toEqual(TOKENS);
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/analyze-text',
+      expect.objectContaining({ method: 'POST' }),
+    );
+  });
+
+  it('returns no tokens when both the worker and the API fail', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(jsonResponse({ error: 'limit' }, false)),
+    );
+    vi.spyOn(getAnalysisWorkerClient(), 'analyze').mockRejectedValue(
+      new Error('offline'),
+    );
+
+    expect(await analyzeText('犬です')).toEqual([]);
+    expect(await analyzeText('   ')).toEqual([]);
+  });
+});
@@ -368,6 +368,27 @@ export function createAdaptiveSelector(storageKey?: string) {
     };
   };
 
+  /**
+   * Get all tracked weights keyed by character.
+   */
+  const getWeights = (): Record<string, CharacterWeight> => {
+    return Object.fromEntries(characterWeights);
+  };
+
+  /**
+   * Replace all weights and save them immediately (used by backup restore).
+   */
+  const replaceWeights = async (
+    weights: Record<string, CharacterWeight>,
+  ): Promise<void> => {
+    await loadFromStorage();
+    characterWeights.clear();
+    Object.entries(weights).forEach(([char, weight]) => {
+      characterWeights.set(char, weight);
+    });
+    await forceSave();
+  };
+
   /**
    * Ensure weights are loaded from storage before use.
    * Call this during app initialization.
@@ -405,6 +426,8 @@ export function createAdaptiveSelector(storageKey?: string) {
     getStats,
     ensureLoaded,
     forceSave,
+    getWeights,
+    replaceWeights,
   };
 }
 
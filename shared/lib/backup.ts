@@ -1,7 +1,35 @@
-// Helpers to export/import user preferences and stats (client-side only)
+// Helpers to export/import everything KanaDojo persists (client-side only)
 
-import { preferencesBackup } from '@/features/Preferences';
+import { useAchievementStore } from '@/features/Achievements';
+import { conjugatorBackup } from '@/features/Conjugator';
+import { dailyBackup } from '@/features/Daily';
+import { kanaBackup } from '@/features/Kana';
+import { kanjiBackup } from '@/features/Kanji';
+import {
+  preferencesBackup,
+  type CustomWallpaperMeta,
+} from '@/features/Preferences';
 import { progressBackup } from '@/features/Progress';
+import {
+  loadHistory,
+  replaceHistory,
+} from '@/features/Translator/services/historyService';
+import type { TranslationEntry } from '@/features/Translator/types';
+import { vocabBackup } from '@/features/Vocabulary';
+import {
+  getGlobalAdaptiveSelector,
+  type CharacterWeight,
+} from '@/shared/lib/adaptiveSelection';
+import {
+  exportGauntletData,
+  importGauntletData,
+  type StoredGauntletData,
+} from '@/shared/lib/gauntletStats';
+import useCustomSetsStore from '@/shared/store/useCustomSetsStore';
+import useGauntletSettingsStore from '@/shared/store/useGauntletSettingsStore';
+import useMistakeStore from '@/shared/store/useMistakeStore';
+import useOnboardingStore from '@/shared/store/useOnboardingStore';
+import useReviewStore from '@/shared/store/useReviewStore';
 
 // JSON-safe type
 export type JSONValue =
@@ -12,12 +40,60 @@ export type JSONValue =
   | { [k: string]: JSONValue }
   | JSONValue[];
 
+export type JSONObject = { [k: string]: JSONValue };
+
+// Bump when the backup format changes, and add a migration from the old version
+export const BACKUP_VERSION = 2;
+
+export const BACKUP_SECTION_KEYS = [
+  'theme',
+  'customTheme',
+  'customWallpapers',
+  'goalTimers',
+  'stats',
+  'visits',
+  'achievements',
+  'reviews',
+  'customSets',
+  'mistakes',
+  'daily',
+  'adaptiveWeights',
+  'gauntletStats',
+  'gauntletSettings',
+  'translatorHistory',
+  'conjugatorHistory',
+  'kanaSelection',
+  'kanjiSelection',
+  'vocabSelection',
+  'onboarding',
+] as const;
+
+export type BackupSectionKey = (typeof BACKUP_SECTION_KEYS)[number];
+
 export type BackupFile = {
-  version: string;
+  // Backup schema version (version 1 files stored the app version here)
+  version: number;
+  appVersion: string;
+  createdAt: string;
+} & Partial<Record<BackupSectionKey, JSONObject>>;
+
+export type BackupChange = {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+};
+
+export type BackupSectionPreview = {
+  key: BackupSectionKey;
+  label: string;
+  changes: BackupChange[];
+};
+
+export type BackupPreview = {
+  // Schema version of the file before migration
+  sourceVersion: number;
+  appVersion: string;
   createdAt: string;
-  theme?: Record<string, JSONValue>;
-  customTheme?: Record<string, JSONValue>;
-  stats?: Record<string, JSONValue>;
+  sections: BackupSectionPreview[];
 };
 
 function isPlainObject(v: unknown): v is Record<string, unknown> {
@@ -70,36 +146,406 @@ function getAppVersion(): string {
   return env?.NEXT_PUBLIC_APP_VERSION ?? 'dev';
 }
 
-export function createBackup(): BackupFile {
-  const themeState = preferencesBackup.getPreferencesState();
-  const customThemeState = preferencesBackup.getCustomThemeState();
-  const statsState = progressBackup.getStatsState();
+// ============================================================================
+// Migrations
+// ============================================================================
+
+type BackupMigration = (data: JSONObject) => JSONObject;
 
+// Keyed by the version each migration upgrades from
+const MIGRATIONS: Record<number, BackupMigration> = {
+  // v1 kept the app version in `version` and only had theme, customTheme
+  // and stats, which v2 reads unchanged
+  1: data => ({
+    ...data,
+    version: 2,
+    appVersion: typeof data.version === 'string' ? data.version : 'unknown',
+  }),
+};
+
+export function getBackupVersion(data: JSONObject): number {
+  return typeof data.version === 'number' ? data.version : 1;
+}
+
+/**
+ * Upgrade a parsed backup file to the current schema.
+ * Throws if the file is not a backup or comes from a newer KanaDojo.
+ */
+export function migrateBackup(raw: unknown): BackupFile {
+  const parsed = toJSONValue(raw);
+  if (!isPlainObject(parsed)) {
+    throw new Error('[backup] file is not a KanaDojo backup');
+  }
+
+  let data: JSONObject = parsed;
+  let version = getBackupVersion(data);
+  if (version > BACKUP_VERSION) {
+    throw new Error(
+      `[backup] file version ${version} is newer than supported version ${BACKUP_VERSION}`,
+    );
+  }
+  while (version < BACKUP_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`[backup] no migration from version ${version}`);
+    }
+    data = migrate(data);
+    version = getBackupVersion(data);
+  }
+
+  const file: BackupFile = {
+    version: BACKUP_VERSION,
+    appVersion:
+      typeof data.appVersion === 'string' ? data.appVersion : 'unknown',
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : '',
+  };
+  for (const key of BACKUP_SECTION_KEYS) {
+    const section = data[key];
+    if (isPlainObject(section)) file[key] = section;
+  }
+  return file;
+}
+
+// ============================================================================
+// Sections
+// ============================================================================
+
+type BackupSection = {
+  label: string;
+  read: () => Promise<JSONObject | undefined>;
+  // The part of a backed-up value this section restores
+  pick: (value: JSONObject) => JSONObject;
+  write: (value: JSONObject) => Promise<void>;
+};
+
+function pickKeys<T extends object>(state: T, keys?: (keyof T & string)[]) {
+  if (!keys) return state;
+  const picked: Partial<T> = {};
+  for (const key of keys) picked[key] = state[key];
+  return picked;
+}
+
+// Section for a zustand store, optionally limited to its persisted keys
+function storeSection<T extends object>(
+  label: string,
+  getState: () => T,
+  setState: (partial: Partial<T>) => void,
+  keys?: (keyof T & string)[],
+  afterWrite?: () => void,
+): BackupSection {
+  const pick = (value: JSONObject) =>
+    filterToKnownKeys(pickKeys(getState(), keys), value) as JSONObject;
   return {
-    version: getAppVersion(),
-    createdAt: new Date().toISOString(),
-    theme: toJSONValue(themeState) as Record<string, JSONValue>,
-    customTheme: toJSONValue(customThemeState) as Record<string, JSONValue>,
-    stats: toJSONValue(statsState) as Record<string, JSONValue>,
+    label,
+    read: async () => toJSONValue(pickKeys(getState(), keys)) as JSONObject,
+    pick,
+    write: async value => {
+      setState(pick(value) as Partial<T>);
+      afterWrite?.();
+    },
   };
 }
 
-export function applyBackup(data: BackupFile): boolean {
-  try {
-    if (data.theme) {
-      const current = preferencesBackup.getPreferencesState();
-      const picked = filterToKnownKeys(current, data.theme);
-      preferencesBackup.setPreferencesState(picked);
+// Section for a single list or record stored outside zustand
+function valueSection<T>(
+  label: string,
+  field: string,
+  isValid: (value: JSONValue) => boolean,
+  read: () => Promise<T>,
+  write: (value: T) => Promise<void>,
+): BackupSection {
+  const pick = (value: JSONObject): JSONObject =>
+    field in value && isValid(value[field]) ? { [field]: value[field] } : {};
+  return {
+    label,
+    read: async () => ({ [field]: toJSONValue(await read()) ?? null }),
+    pick,
+    write: async value => {
+      const picked = pick(value);
+      if (field in picked) await write(picked[field] as T);
+    },
+  };
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  const res = await fetch(dataUrl);
+  return res.blob();
+}
+
+type WallpaperBackup = { meta: CustomWallpaperMeta; image: string };
+
+const SECTIONS: Record<BackupSectionKey, BackupSection> = {
+  theme: storeSection(
+    'Preferences',
+    preferencesBackup.getPreferencesState,
+    preferencesBackup.setPreferencesState,
+  ),
+  customTheme: storeSection(
+    'Custom themes',
+    preferencesBackup.getCustomThemeState,
+    preferencesBackup.setCustomThemeState,
+  ),
+  customWallpapers: valueSection<WallpaperBackup[]>(
+    'Custom wallpapers',
+    'wallpapers',
+    Array.isArray,
+    async () =>
+      Promise.all(
+        (await preferencesBackup.getCustomWallpapers()).map(
+          async ({ meta, blob }) => ({
+            meta,
+            image: await blobToDataUrl(blob),
+          }),
+        ),
+      ),
+    async wallpapers =>
+      preferencesBackup.setCustomWallpapers(
+        await Promise.all(
+          wallpapers
+            .filter(entry => entry?.meta?.id && entry.image)
+            .map(async ({ meta, image }) => ({
+              meta,
+              blob: await dataUrlToBlob(image),
+            })),
+        ),
+      ),
+  ),
+  goalTimers: storeSection(
+    'Goal timers',
+    preferencesBackup.getGoalTimersState,
+    preferencesBackup.setGoalTimersState,
+    ['templates', 'history', 'settings'],
+  ),
+  stats: storeSection(
+    'Stats',
+    progressBackup.getStatsState,
+    progressBackup.setStatsState,
+  ),
+  visits: valueSection<string[]>(
+    'Visit history',
+    'visits',
+    Array.isArray,
+    progressBackup.getVisits,
+    progressBackup.setVisits,
+  ),
+  achievements: storeSection(
+    'Achievements',
+    useAchievementStore.getState,
+    useAchievementStore.setState,
+    ['unlockedAchievements', 'notifications', 'totalPoints', 'level'],
+    () => useAchievementStore.getState().updateComputedProperties(),
+  ),
+  reviews: storeSection(
+    'Review schedule',
+    useReviewStore.getState,
+    useReviewStore.setState,
+    ['cards'],
+  ),
+  customSets: storeSection(
+    'Custom sets',
+    useCustomSetsStore.getState,
+    useCustomSetsStore.setState,
+    ['sets', 'studySets'],
+  ),
+  mistakes: storeSection(
+    'Mistake notebook',
+    useMistakeStore.getState,
+    useMistakeStore.setState,
+    ['confusions'],
+  ),
+  daily: storeSection(
+    'Daily Dojo history',
+    dailyBackup.getHistoryState,
+    dailyBackup.setHistoryState,
+    ['results'],
+  ),
+  adaptiveWeights: valueSection<Record<string, CharacterWeight>>(
+    'Adaptive practice weights',
+    'weights',
+    isPlainObject,
+    async () => {
+      const selector = getGlobalAdaptiveSelector();
+      await selector.ensureLoaded();
+      return selector.getWeights();
+    },
+    weights => getGlobalAdaptiveSelector().replaceWeights(weights),
+  ),
+  gauntletStats: valueSection<StoredGauntletData>(
+    'Gauntlet stats',
+    'data',
+    value => isPlainObject(value) && Array.isArray(value.sessions),
+    exportGauntletData,
+    importGauntletData,
+  ),
+  gauntletSettings: storeSection(
+    'Gauntlet settings',
+    useGauntletSettingsStore.getState,
+    useGauntletSettingsStore.setState,
+  ),
+  translatorHistory: valueSection<TranslationEntry[]>(
+    'Translator history',
+    'entries',
+    Array.isArray,
+    loadHistory,
+    replaceHistory,
+  ),
+  conjugatorHistory: storeSection(
+    'Conjugator history',
+    conjugatorBackup.getHistoryState,
+    conjugatorBackup.setHistoryState,
+    ['history'],
+  ),
+  kanaSelection: storeSection(
+    'Kana selection',
+    kanaBackup.getSelectionState,
+    kanaBackup.setSelectionState,
+  ),
+  kanjiSelection: storeSection(
+    'Kanji selection',
+    kanjiBackup.getSelectionState,
+    kanjiBackup.setSelectionState,
+  ),
+  vocabSelection: storeSection(
+    'Vocabulary selection',
+    vocabBackup.getSelectionState,
+    vocabBackup.setSelectionState,
+  ),
+  onboarding: storeSection(
+    'Welcome screen',
+    useOnboardingStore.getState,
+    useOnboardingStore.setState,
+  ),
+};
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+const MAX_DIFF_DEPTH = 3;
+
+function isEqualJSON(a: JSONValue | undefined, b: JSONValue | undefined) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffValues(
+  before: JSONValue | undefined,
+  after: JSONValue | undefined,
+  path: string,
+  depth: number,
+  changes: BackupChange[],
+) {
+  if (isEqualJSON(before, after)) return;
+  if (before === undefined) {
+    changes.push({ path, kind: 'added' });
+    return;
+  }
+  if (after === undefined) {
+    changes.push({ path, kind: 'removed' });
+    return;
+  }
+  if (
+    depth >= MAX_DIFF_DEPTH ||
+    !isPlainObject(before) ||
+    !isPlainObject(after)
+  ) {
+    changes.push({ path, kind: 'changed' });
+    return;
+  }
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const key of keys) {
+    diffValues(before[key], after[key], `${path}.${key}`, depth + 1, changes);
+  }
+}
+
+/**
+ * What restoring `incoming` over `current` would change. Top-level keys
+ * missing from `incoming` are left alone by a restore, so they are skipped.
+ */
+export function diffBackupSection(
+  current: JSONObject | undefined,
+  incoming: JSONObject,
+): BackupChange[] {
+  const changes: BackupChange[] = [];
+  for (const [key, value] of Object.entries(incoming)) {
+    diffValues(current?.[key], value, key, 1, changes);
+  }
+  return changes;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export async function createBackup(
+  sections: readonly BackupSectionKey[] = BACKUP_SECTION_KEYS,
+): Promise<BackupFile> {
+  const file: BackupFile = {
+    version: BACKUP_VERSION,
+    appVersion: getAppVersion(),
+    createdAt: new Date().toISOString(),
+  };
+  for (const key of sections) {
+    try {
+      const value = await SECTIONS[key].read();
+      if (value) file[key] = value;
+    } catch (err) {
+      console.warn(`[backup] could not read ${key}`, err);
     }
-    if (data.customTheme) {
-      const current = preferencesBackup.getCustomThemeState();
-      const picked = filterToKnownKeys(current, data.customTheme);
-      preferencesBackup.setCustomThemeState(picked);
+  }
+  return file;
+}
+
+/**
+ * Dry run of `applyBackup`: migrates the file and lists, per section, what
+ * restoring it would change. Nothing is written.
+ */
+export async function previewBackup(raw: unknown): Promise<BackupPreview> {
+  const sourceVersion = isPlainObject(raw)
+    ? getBackupVersion(raw as JSONObject)
+    : 1;
+  const file = migrateBackup(raw);
+
+  const sections: BackupSectionPreview[] = [];
+  for (const key of BACKUP_SECTION_KEYS) {
+    const incoming = file[key];
+    if (!incoming) continue;
+    const section = SECTIONS[key];
+    let current: JSONObject | undefined;
+    try {
+      current = await section.read();
+    } catch {
+      current = undefined;
     }
-    if (data.stats) {
-      const current = progressBackup.getStatsState();
-      const picked = filterToKnownKeys(current, data.stats);
-      progressBackup.setStatsState(picked);
+    sections.push({
+      key,
+      label: section.label,
+      changes: diffBackupSection(current, section.pick(incoming)),
+    });
+  }
+
+  return {
+    sourceVersion,
+    appVersion: file.appVersion,
+    createdAt: file.createdAt,
+    sections,
+  };
+}
+
+export async function applyBackup(raw: unknown): Promise<boolean> {
+  try {
+    const file = migrateBackup(raw);
+    for (const key of BACKUP_SECTION_KEYS) {
+      const value = file[key];
+      if (value) await SECTIONS[key].write(value);
     }
     return true;
   } catch (err) {
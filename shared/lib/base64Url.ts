@@ -0,0 +1,22 @@
+/**
+ * URL-safe base64 for share links. Text is UTF-8 encoded first, so names
+ * in Japanese survive the trip.
+ */
+
+export function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+export function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, char => char.charCodeAt(0)),
+  );
+}
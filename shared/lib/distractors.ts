@@ -0,0 +1,57 @@
+/**
+ * Distractor Selection
+ *
+ * Picks the wrong options of Pick games. Each dojo supplies a similarity
+ * measure between two of its items (lookalike kana, kanji sharing
+ * components, words with the same reading); `similarity` sets the share of
+ * distractors taken from the items most like the answer, the rest are
+ * random. Games raise it with `useProgressiveDifficulty`, so a learner on a
+ * streak gets シ vs ツ rather than シ vs ま.
+ */
+
+import { shuffle } from '@/shared/lib/shuffle';
+
+export type SimilarityFn<T> = (a: T, b: T) => number;
+
+/**
+ * Pick up to `count` distinct wrong options for a question.
+ *
+ * @param getOption - the option an item shows; items showing the correct
+ *   option, and repeats of an option, are skipped
+ * @param getSimilarity - 0 (unrelated) to 1 (easily confused)
+ * @param similarity - 0 for random distractors, 1 for the most similar
+ *   items only
+ */
+export function pickDistractors<T>(
+  question: T,
+  items: T[],
+  count: number,
+  getOption: (item: T) => string,
+  getSimilarity: SimilarityFn<T>,
+  similarity = 0,
+): string[] {
+  const correctOption = getOption(question);
+  const seen = new Set([correctOption]);
+  const candidates = shuffle(items).filter(item => {
+    const option = getOption(item);
+    if (seen.has(option)) return false;
+    seen.add(option);
+    return true;
+  });
+
+  const similarSlots = Math.round(
+    Math.max(0, count) * Math.min(1, Math.max(0, similarity)),
+  );
+  // Array sort is stable, so equally similar items keep their shuffled order
+  const similar = candidates
+    .map(item => ({ item, score: getSimilarity(question, item) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, similarSlots)
+    .map(({ item }) => item);
+
+  const picked = new Set(similar);
+  return [...similar, ...candidates.filter(item => !picked.has(item))]
+    .slice(0, Math.max(0, count))
+    .map(getOption);
+}
@@ -0,0 +1,196 @@
+/**
+ * Gauntlet Challenge Presets
+ *
+ * The built-in difficulties fix lives and regeneration. A preset is a
+ * challenge with its own rules, built on the Gauntlet settings screen,
+ * saved in useGauntletSettingsStore and shared as a link that opens the
+ * settings screen with the preset selected.
+ */
+
+import { fromBase64Url, toBase64Url } from '@/shared/lib/base64Url';
+
+export type GauntletPresetMode = 'Pick' | 'Type';
+
+export interface GauntletPreset {
+  id: string;
+  name: string;
+  /** Lives at the start, which is also the most a player can have */
+  lives: number;
+  /** Correct answers in a row that win a life back; 0 never regenerates */
+  regenThreshold: number;
+  repetitions: number;
+  /** Seconds per question; 0 for no limit */
+  questionTimeLimit: number;
+  allowedModes: GauntletPresetMode[];
+  /** Chance (0-1) that a question is asked in reverse */
+  reverseProbability: number;
+}
+
+export type GauntletPresetRules = Omit<GauntletPreset, 'id' | 'name'>;
+
+export const PRESET_FORMAT_VERSION = 1;
+
+// Query parameter of a shared preset on the Gauntlet routes
+export const GAUNTLET_PRESET_PARAM = 'challenge';
+
+export const PRESET_NAME_MAX_LENGTH = 40;
+
+export const PRESET_LIMITS = {
+  lives: { min: 1, max: 10 },
+  regenThreshold: { min: 0, max: 50 },
+  repetitions: { min: 1, max: 30 },
+  questionTimeLimit: { min: 0, max: 60 },
+} as const;
+
+const MODES: GauntletPresetMode[] = ['Pick', 'Type'];
+
+export const DEFAULT_PRESET_RULES: GauntletPresetRules = {
+  lives: 3,
+  regenThreshold: 10,
+  repetitions: 5,
+  questionTimeLimit: 0,
+  allowedModes: ['Pick', 'Type'],
+  reverseProbability: 0,
+};
+
+export const generatePresetId = (): string =>
+  `preset-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+const clampInteger = (
+  value: unknown,
+  { min, max }: { min: number; max: number },
+  fallback: number,
+): number =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(max, Math.max(min, Math.round(value)))
+    : fallback;
+
+/**
+ * Bring a preset's rules into range: numbers are clamped, unknown modes
+ * dropped, and a preset that allows no mode allows both
+ */
+export function normalizePresetRules(
+  rules: Partial<Record<keyof GauntletPresetRules, unknown>>,
+): GauntletPresetRules {
+  const allowedModes = Array.isArray(rules.allowedModes)
+    ? MODES.filter(mode => (rules.allowedModes as unknown[]).includes(mode))
+    : [];
+  const reverseProbability =
+    typeof rules.reverseProbability === 'number' &&
+    Number.isFinite(rules.reverseProbability)
+      ? Math.min(1, Math.max(0, rules.reverseProbability))
+      : DEFAULT_PRESET_RULES.reverseProbability;
+
+  return {
+    lives: clampInteger(
+      rules.lives,
+      PRESET_LIMITS.lives,
+      DEFAULT_PRESET_RULES.lives,
+    ),
+    regenThreshold: clampInteger(
+      rules.regenThreshold,
+      PRESET_LIMITS.regenThreshold,
+      DEFAULT_PRESET_RULES.regenThreshold,
+    ),
+    repetitions: clampInteger(
+      rules.repetitions,
+      PRESET_LIMITS.repetitions,
+      DEFAULT_PRESET_RULES.repetitions,
+    ),
+    questionTimeLimit: clampInteger(
+      rules.questionTimeLimit,
+      PRESET_LIMITS.questionTimeLimit,
+      DEFAULT_PRESET_RULES.questionTimeLimit,
+    ),
+    allowedModes:
+      allowedModes.length > 0
+        ? allowedModes
+        : [...DEFAULT_PRESET_RULES.allowedModes],
+    reverseProbability,
+  };
+}
+
+/**
+ * The mode to play a preset in: the chosen one if the preset allows it
+ */
+export const getPresetGameMode = (
+  preset: GauntletPreset,
+  gameMode: GauntletPresetMode,
+): GauntletPresetMode =>
+  preset.allowedModes.includes(gameMode) ? gameMode : preset.allowedModes[0];
+
+// ============================================================================
+// Links
+// ============================================================================
+
+interface PresetLinkPayload {
+  v: number;
+  i: string;
+  n: string;
+  l: number;
+  r: number;
+  p: number;
+  t: number;
+  m: GauntletPresetMode[];
+  rv: number;
+}
+
+/**
+ * Encode a preset for a share link. The id travels too, so opening the
+ * same link twice updates the saved preset instead of adding a copy.
+ */
+export function encodePresetLink(preset: GauntletPreset): string {
+  const payload: PresetLinkPayload = {
+    v: PRESET_FORMAT_VERSION,
+    i: preset.id,
+    n: preset.name,
+    l: preset.lives,
+    r: preset.regenThreshold,
+    p: preset.repetitions,
+    t: preset.questionTimeLimit,
+    m: preset.allowedModes,
+    rv: preset.reverseProbability,
+  };
+  return toBase64Url(JSON.stringify(payload));
+}
+
+/**
+ * Read a share link payload. Throws if it is not a Gauntlet preset link.
+ */
+export function decodePresetLink(encoded: string): GauntletPreset {
+  let payload: Partial<PresetLinkPayload>;
+  try {
+    payload = JSON.parse(fromBase64Url(encoded.trim()));
+  } catch {
+    throw new Error('[gauntletPresets] link is not a Gauntlet challenge');
+  }
+  if (
+    typeof payload !== 'object' ||
+    payload === null ||
+    typeof payload.v !== 'number' ||
+    typeof payload.i !== 'string' ||
+    payload.i.length === 0 ||
+    typeof payload.n !== 'string'
+  ) {
+    throw new Error('[gauntletPresets] link is not a Gauntlet challenge');
+  }
+  if (payload.v > PRESET_FORMAT_VERSION) {
+    throw new Error(
+      `[gauntletPresets] link version ${payload.v} is newer than supported version ${PRESET_FORMAT_VERSION}`,
+    );
+  }
+
+  return {
+    id: payload.i,
+    name:
+      payload.n.trim().slice(0, PRESET_NAME_MAX_LENGTH) || 'Shared challenge',
+    ...normalizePresetRules({
+      lives: payload.l,
+      regenThreshold: payload.r,
+      repetitions: payload.p,
+      questionTimeLimit: payload.t,
+      allowedModes: payload.m,
+      reverseProbability: payload.rv,
+    }),
+  };
+}
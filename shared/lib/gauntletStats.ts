@@ -4,6 +4,7 @@ import type {
   GauntletDifficulty,
   GauntletGameMode,
 } from '@/shared/components/Gauntlet/types';
+import type { DojoType } from '@/shared/types/dojo';
 
 const STORAGE_KEY = 'kanadojo-gauntlet-stats';
 
@@ -15,20 +16,24 @@ interface LifetimeTotals {
   bestStreak: number;
 }
 
-interface StoredGauntletData {
+export interface StoredGauntletData {
   version: number;
   sessions: GauntletSessionStats[];
   bestTimes: {
     kana: Record<string, number>;
     kanji: Record<string, number>;
     vocabulary: Record<string, number>;
+    cloze: Record<string, number>;
   };
   /** Accumulated lifetime totals that persist even when sessions are trimmed */
   lifetimeTotals: {
     kana: LifetimeTotals;
     kanji: LifetimeTotals;
     vocabulary: LifetimeTotals;
+    cloze: LifetimeTotals;
   };
+  /** Lifetime totals of each custom challenge, by preset id */
+  presetTotals: Record<string, LifetimeTotals>;
 }
 
 const getDefaultLifetimeTotals = (): LifetimeTotals => ({
@@ -46,24 +51,40 @@ const getDefaultData = (): StoredGauntletData => ({
     kana: {},
     kanji: {},
     vocabulary: {},
+    cloze: {},
   },
   lifetimeTotals: {
     kana: getDefaultLifetimeTotals(),
     kanji: getDefaultLifetimeTotals(),
     vocabulary: getDefaultLifetimeTotals(),
+    cloze: getDefaultLifetimeTotals(),
   },
+  presetTotals: {},
 });
 
 /**
- * Generate a key for best time lookup
+ * Generate a key for best time lookup. Custom challenges are timed per
+ * preset rather than per difficulty.
  */
 const getBestTimeKey = (
   difficulty: GauntletDifficulty,
   repetitions: number,
   gameMode: GauntletGameMode,
   totalCharacters: number,
+  presetId?: string,
 ): string => {
-  return `${difficulty}-${repetitions}-${gameMode}-${totalCharacters}`;
+  return `${presetId ?? difficulty}-${repetitions}-${gameMode}-${totalCharacters}`;
+};
+
+const addToTotals = (
+  totals: LifetimeTotals,
+  stats: Omit<GauntletSessionStats, 'id'>,
+) => {
+  totals.totalSessions += 1;
+  if (stats.completed) totals.completedSessions += 1;
+  totals.totalCorrect += stats.correctAnswers;
+  totals.totalWrong += stats.wrongAnswers;
+  totals.bestStreak = Math.max(totals.bestStreak, stats.bestStreak);
 };
 
 /**
@@ -79,6 +100,7 @@ const loadData = async (): Promise<StoredGauntletData> => {
           kana: getDefaultLifetimeTotals(),
           kanji: getDefaultLifetimeTotals(),
           vocabulary: getDefaultLifetimeTotals(),
+          cloze: getDefaultLifetimeTotals(),
         };
         // Backfill from existing sessions
         for (const session of data.sessions) {
@@ -90,6 +112,11 @@ const loadData = async (): Promise<StoredGauntletData> => {
           totals.bestStreak = Math.max(totals.bestStreak, session.bestStreak);
         }
       }
+      // Migrate: add the cloze dojo (installs from before it existed)
+      data.bestTimes.cloze ??= {};
+      data.lifetimeTotals.cloze ??= getDefaultLifetimeTotals();
+      // Migrate: add custom challenge totals
+      data.presetTotals ??= {};
       return data;
     }
     return getDefaultData();
@@ -132,12 +159,11 @@ export const saveSession = async (
   };
 
   // Accumulate lifetime totals (persists even when sessions are trimmed)
-  const totals = data.lifetimeTotals[stats.dojoType];
-  totals.totalSessions += 1;
-  if (stats.completed) totals.completedSessions += 1;
-  totals.totalCorrect += stats.correctAnswers;
-  totals.totalWrong += stats.wrongAnswers;
-  totals.bestStreak = Math.max(totals.bestStreak, stats.bestStreak);
+  addToTotals(data.lifetimeTotals[stats.dojoType], stats);
+  if (stats.presetId) {
+    data.presetTotals[stats.presetId] ??= getDefaultLifetimeTotals();
+    addToTotals(data.presetTotals[stats.presetId], stats);
+  }
 
   // Add to sessions (keep last 100 for detailed history)
   data.sessions.unshift(session);
@@ -153,6 +179,7 @@ export const saveSession = async (
       stats.repetitionsPerChar,
       stats.gameMode,
       stats.totalCharacters,
+      stats.presetId,
     );
     const currentBest = data.bestTimes[stats.dojoType][key];
 
@@ -171,7 +198,7 @@ export const saveSession = async (
  * Get session history for a dojo
  */
 export const getSessionHistory = async (
-  dojoType: 'kana' | 'kanji' | 'vocabulary',
+  dojoType: DojoType,
   limit: number = 20,
 ): Promise<GauntletSessionStats[]> => {
   const data = await loadData();
@@ -182,11 +209,12 @@ export const getSessionHistory = async (
  * Get best time for a specific configuration
  */
 export const getBestTime = async (
-  dojoType: 'kana' | 'kanji' | 'vocabulary',
+  dojoType: DojoType,
   difficulty: GauntletDifficulty,
   repetitions: number,
   gameMode: GauntletGameMode,
   totalCharacters: number,
+  presetId?: string,
 ): Promise<number | null> => {
   const data = await loadData();
   const key = getBestTimeKey(
@@ -194,6 +222,7 @@ export const getBestTime = async (
     repetitions,
     gameMode,
     totalCharacters,
+    presetId,
   );
   return data.bestTimes[dojoType][key] ?? null;
 };
@@ -202,7 +231,7 @@ export const getBestTime = async (
  * Get leaderboard (top completed runs) for a dojo
  */
 export const getLeaderboard = async (
-  dojoType: 'kana' | 'kanji' | 'vocabulary',
+  dojoType: DojoType,
   difficulty?: GauntletDifficulty,
   limit: number = 10,
 ): Promise<GauntletSessionStats[]> => {
@@ -226,7 +255,7 @@ export const getLeaderboard = async (
  * Get overall statistics for a dojo
  */
 export const getOverallStats = async (
-  dojoType: 'kana' | 'kanji' | 'vocabulary',
+  dojoType: DojoType,
 ): Promise<{
   totalSessions: number;
   completedSessions: number;
@@ -257,6 +286,43 @@ export const getOverallStats = async (
   };
 };
 
+/**
+ * Get statistics for a custom challenge, across all dojos
+ */
+export const getPresetStats = async (
+  presetId: string,
+): Promise<LifetimeTotals & { fastestTime: number | null }> => {
+  const data = await loadData();
+  const completedSessions = data.sessions.filter(
+    s => s.presetId === presetId && s.completed,
+  );
+
+  return {
+    ...(data.presetTotals[presetId] ?? getDefaultLifetimeTotals()),
+    fastestTime:
+      completedSessions.length > 0
+        ? Math.min(...completedSessions.map(s => s.totalTimeMs))
+        : null,
+  };
+};
+
+/**
+ * Get all stored gauntlet data (for backups)
+ */
+export const exportGauntletData = async (): Promise<StoredGauntletData> => {
+  return loadData();
+};
+
+/**
+ * Replace all stored gauntlet data (for backup restore).
+ * Older data is migrated the next time it is loaded.
+ */
+export const importGauntletData = async (
+  data: StoredGauntletData,
+): Promise<void> => {
+  await saveData(data);
+};
+
 /**
  * Clear all gauntlet stats (for testing/reset)
  */
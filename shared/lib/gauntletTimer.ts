@@ -0,0 +1,36 @@
+/**
+ * Gauntlet Question Timer
+ *
+ * With a per-question time limit, running out of time costs a life. The
+ * budget for each question starts at the chosen limit and shrinks as the
+ * streak grows, so a long streak turns into sudden-death timing.
+ */
+
+// Correct answers in a row per step of shrinking
+export const TIMER_STREAK_STEP = 5;
+
+// Share of the full limit taken off per step
+export const TIMER_SHRINK_PER_STEP = 0.1;
+
+// The budget never drops below this share of the limit...
+export const TIMER_MIN_SHARE = 0.4;
+
+// ...or below this many milliseconds (unless the limit itself is shorter)
+export const TIMER_MIN_MS = 2000;
+
+/**
+ * Milliseconds to answer a question, given the limit in seconds and the
+ * current streak. Returns 0 when there is no limit.
+ */
+export function getQuestionTimeBudgetMs(
+  limitSeconds: number,
+  streak: number,
+): number {
+  if (!Number.isFinite(limitSeconds) || limitSeconds <= 0) return 0;
+
+  const limitMs = limitSeconds * 1000;
+  const steps = Math.floor(Math.max(0, streak) / TIMER_STREAK_STEP);
+  const share = Math.max(TIMER_MIN_SHARE, 1 - steps * TIMER_SHRINK_PER_STEP);
+
+  return Math.max(Math.min(limitMs, TIMER_MIN_MS), Math.round(limitMs * share));
+}
@@ -0,0 +1,214 @@
+/**
+ * Mistake Notebook
+ *
+ * Pick games record which item a wrong answer belonged to, so the notebook
+ * knows what was confused with what (ソ answered as ン, 待 as 持) instead of
+ * only counting misses. Confusions are kept per direction and grouped into
+ * unordered pairs for the notebook and the confusion drill, whose options
+ * come from the pairs instead of random distractors.
+ */
+
+export type MistakeContentType = 'kana' | 'kanji' | 'vocabulary';
+
+/** An item as Pick games ask it: the prompt and the option that answers it */
+export interface MistakeItem {
+  key: string;
+  answer: string;
+}
+
+/** One direction of a confusion: `item` was asked, `confusedWith` picked */
+export interface Confusion {
+  contentType: MistakeContentType;
+  item: MistakeItem;
+  confusedWith: MistakeItem;
+  count: number;
+  lastAt: number;
+}
+
+/** Both directions of a confusion between two items */
+export interface ConfusionPair {
+  id: string;
+  contentType: MistakeContentType;
+  items: [MistakeItem, MistakeItem];
+  count: number;
+  lastAt: number;
+}
+
+export interface ConfusionDrillQuestion {
+  contentType: MistakeContentType;
+  item: MistakeItem;
+  /** The item itself and the items it was confused with, shuffled */
+  options: MistakeItem[];
+}
+
+// Oldest confusions are dropped past this many
+export const MAX_CONFUSIONS = 500;
+
+export const getConfusionId = (
+  contentType: MistakeContentType,
+  key: string,
+  confusedKey: string,
+) => `${contentType}:${key}>${confusedKey}`;
+
+export const getConfusionPairId = (
+  contentType: MistakeContentType,
+  key: string,
+  otherKey: string,
+) => `${contentType}:${[key, otherKey].sort().join('|')}`;
+
+/**
+ * Count a confusion, returning the new map. Answers picked for the asked
+ * item itself are ignored.
+ */
+export function addConfusion(
+  confusions: Record<string, Confusion>,
+  contentType: MistakeContentType,
+  item: MistakeItem,
+  confusedWith: MistakeItem,
+  now: number,
+): Record<string, Confusion> {
+  if (!item.key || !confusedWith.key || item.key === confusedWith.key) {
+    return confusions;
+  }
+  const id = getConfusionId(contentType, item.key, confusedWith.key);
+  const next = {
+    ...confusions,
+    [id]: {
+      contentType,
+      item,
+      confusedWith,
+      count: (confusions[id]?.count ?? 0) + 1,
+      lastAt: now,
+    },
+  };
+
+  const ids = Object.keys(next);
+  if (ids.length <= MAX_CONFUSIONS) return next;
+  ids
+    .sort((a, b) => next[a].lastAt - next[b].lastAt)
+    .slice(0, ids.length - MAX_CONFUSIONS)
+    .forEach(oldId => delete next[oldId]);
+  return next;
+}
+
+/**
+ * Group confusions into unordered pairs, most frequent first
+ */
+export function groupConfusionPairs(
+  confusions: Confusion[],
+  contentType?: MistakeContentType,
+): ConfusionPair[] {
+  const pairs = new Map<string, ConfusionPair>();
+  for (const confusion of confusions) {
+    if (contentType && confusion.contentType !== contentType) continue;
+    const id = getConfusionPairId(
+      confusion.contentType,
+      confusion.item.key,
+      confusion.confusedWith.key,
+    );
+    const pair = pairs.get(id);
+    if (pair) {
+      pair.count += confusion.count;
+      pair.lastAt = Math.max(pair.lastAt, confusion.lastAt);
+    } else {
+      pairs.set(id, {
+        id,
+        contentType: confusion.contentType,
+        items: [confusion.item, confusion.confusedWith],
+        count: confusion.count,
+        lastAt: confusion.lastAt,
+      });
+    }
+  }
+  return [...pairs.values()].sort(
+    (a, b) => b.count - a.count || b.lastAt - a.lastAt,
+  );
+}
+
+/**
+ * Items a key has been confused with, in either direction, most frequent
+ * first
+ */
+export function getConfusionPartners(
+  pairs: ConfusionPair[],
+  contentType: MistakeContentType,
+  key: string,
+): MistakeItem[] {
+  return pairs
+    .filter(pair => pair.contentType === contentType)
+    .flatMap(pair =>
+      pair.items[0].key === key
+        ? [pair.items[1]]
+        : pair.items[1].key === key
+          ? [pair.items[0]]
+          : [],
+    );
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Next drill question: a pair is drawn weighted by how often it was
+ * confused, one of its items is asked, and the options are the items it
+ * was confused with, topped up from other confused items of the same type.
+ * Returns null when there is nothing to drill.
+ */
+export function buildConfusionDrillQuestion(
+  pairs: ConfusionPair[],
+  optionCount = 4,
+  previousKey?: string,
+  random: () => number = Math.random,
+): ConfusionDrillQuestion | null {
+  if (pairs.length === 0) return null;
+
+  const candidates = pairs.filter(
+    pair =>
+      !previousKey ||
+      (pair.items[0].key !== previousKey && pair.items[1].key !== previousKey),
+  );
+  const pool = candidates.length > 0 ? candidates : pairs;
+  const total = pool.reduce((sum, pair) => sum + pair.count, 0);
+  let roll = random() * total;
+  const pair =
+    pool.find(candidate => (roll -= candidate.count) < 0) ??
+    pool[pool.length - 1];
+  const item =
+    pair.items[0].key === previousKey || random() >= 0.5
+      ? pair.items[1]
+      : pair.items[0];
+
+  const usedAnswers = new Set([item.answer]);
+  const distractors: MistakeItem[] = [];
+  const addDistractor = (candidate: MistakeItem) => {
+    if (
+      distractors.length < optionCount - 1 &&
+      !usedAnswers.has(candidate.answer)
+    ) {
+      usedAnswers.add(candidate.answer);
+      distractors.push(candidate);
+    }
+  };
+
+  getConfusionPartners(pairs, pair.contentType, item.key).forEach(
+    addDistractor,
+  );
+  shuffle(
+    pairs
+      .filter(other => other.contentType === pair.contentType)
+      .flatMap(other => other.items),
+    random,
+  ).forEach(addDistractor);
+
+  return {
+    contentType: pair.contentType,
+    item,
+    options: shuffle([item, ...distractors], random),
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Pitch Accent
+ *
+ * Tokyo-dialect pitch accent in the usual downstep notation: the number
+ * is the mora after which the pitch falls, and 0 means it never falls
+ * (heiban). The first mora is low unless the accent is on it. Patterns
+ * include one extra mora for a following particle, which is how odaka
+ * (falls on the particle) differs from heiban (stays high).
+ *
+ * Accent numbers come from the accent types OpenJTalk adds to the NAIST
+ * Japanese Dictionary (© NAIST, BSD license), added to the vocab data by
+ * scripts/generateConstants.ts.
+ */
+
+import { toHiragana } from 'wanakana';
+import { shuffle } from '@/shared/lib/shuffle';
+
+export type PitchLevel = 'high' | 'low';
+
+export type AccentType = 'heiban' | 'atamadaka' | 'nakadaka' | 'odaka';
+
+export const ACCENT_TYPE_LABELS: Record<AccentType, string> = {
+  heiban: 'Heiban (flat)',
+  atamadaka: 'Atamadaka (falls after the first mora)',
+  nakadaka: 'Nakadaka (falls inside the word)',
+  odaka: 'Odaka (falls on the particle)',
+};
+
+// Small kana that share a mora with the kana before them
+const SMALL_KANA = /^[ぁぃぅぇぉゃゅょゎァィゥェォャュョヮ]$/;
+
+/**
+ * Split a kana reading into morae. Small ゃ/ゅ/ょ and vowels join the
+ * previous kana; っ, ん and ー count as morae of their own.
+ */
+export function splitMorae(reading: string): string[] {
+  const morae: string[] = [];
+  for (const char of reading.trim()) {
+    if (SMALL_KANA.test(char) && morae.length > 0) {
+      morae[morae.length - 1] += char;
+    } else {
+      morae.push(char);
+    }
+  }
+  return morae;
+}
+
+/**
+ * Pitch of each mora plus a following particle
+ */
+export function getPitchPattern(
+  moraCount: number,
+  accent: number,
+): PitchLevel[] {
+  return Array.from({ length: moraCount + 1 }, (_, index) => {
+    if (accent === 1) return index === 0 ? 'high' : 'low';
+    if (index === 0) return 'low';
+    return accent === 0 || index < accent ? 'high' : 'low';
+  });
+}
+
+export function getAccentType(moraCount: number, accent: number): AccentType {
+  if (accent === 0) return 'heiban';
+  if (accent === 1) return 'atamadaka';
+  return accent >= moraCount ? 'odaka' : 'nakadaka';
+}
+
+/**
+ * Every accent a word of this length can have, 0 (heiban) first
+ */
+export function getPossibleAccents(moraCount: number): number[] {
+  return Array.from({ length: moraCount + 1 }, (_, index) => index);
+}
+
+/**
+ * Accent choices for a listening question: the word's main accent plus
+ * up to count - 1 other possible accents, in downstep order. Alternative
+ * accents of the word are left out so only one choice is right.
+ */
+export function getAccentChoices(
+  moraCount: number,
+  accents: number[],
+  count = 4,
+): number[] {
+  const others = getPossibleAccents(moraCount).filter(
+    accent => !accents.includes(accent),
+  );
+  return [accents[0], ...shuffle(others).slice(0, count - 1)].sort(
+    (a, b) => a - b,
+  );
+}
+
+/**
+ * Parse the accents of OpenJTalk's naist-jdic.csv. Each line is a MeCab
+ * entry: surface, ids, cost, part of speech, base form (column 11),
+ * reading (12) and "accent/morae" (14). Only dictionary forms are read,
+ * and a word's accents are listed from its most common entry (lowest
+ * cost) down. Keys are "word|reading" in hiragana.
+ */
+export function parseNaistJdicAccents(csv: string): Map<string, number[]> {
+  const entries = new Map<string, { cost: number; accent: number }[]>();
+
+  for (const line of csv.split('\n')) {
+    const fields = line.trim().split(',');
+    if (fields.length !== 15) continue;
+    const [word, , , cost] = fields;
+    const [baseForm, reading, , accentType] = fields.slice(10);
+    // Compounds list one "accent/morae" per part ("1/2:0/3"); skip them
+    const accent = /^(\d+)\/\d+$/.exec(accentType)?.[1];
+    if (word !== baseForm || reading === '*' || accent === undefined) continue;
+
+    const key = getAccentKey(word, reading);
+    const list = entries.get(key) ?? [];
+    list.push({ cost: Number(cost), accent: Number(accent) });
+    entries.set(key, list);
+  }
+
+  return new Map(
+    [...entries].map(([key, list]) => [
+      key,
+      [
+        ...new Set(
+          list.sort((a, b) => a.cost - b.cost).map(entry => entry.accent),
+        ),
+      ],
+    ]),
+  );
+}
+
+/**
+ * Lookup key shared by the accent dictionary and the vocab data
+ */
+export const getAccentKey = (word: string, reading: string) =>
+  `${word}|${toHiragana(reading)}`;
@@ -174,6 +174,7 @@ export const getKanaGroupNames = (kanaGroupIndices: number[]) => {
 
 /**
  * Returns full and compact labels for selected Kanji or Vocabulary levels.
+ * Custom sets (e.g. imported Anki decks) are listed by name after the levels.
  */
 export const getKanjiVocabLabels = (sets: string[]) => {
   if (sets.length === 0) {
@@ -183,7 +184,14 @@ export const getKanjiVocabLabels = (sets: string[]) => {
     };
   }
 
-  const sortedSets = [...sets].sort((a, b) => {
+  const levelSets = sets.filter(set => /^Set \d+$/.test(set));
+  const customSets = sets.filter(set => !levelSets.includes(set));
+  if (levelSets.length === 0) {
+    const names = customSets.join(', ');
+    return { full: names, compact: names };
+  }
+
+  const sortedSets = [...levelSets].sort((a, b) => {
     const numA = parseInt(a.replace('Set ', ''));
     const numB = parseInt(b.replace('Set ', ''));
     return numA - numB;
@@ -193,11 +201,12 @@ export const getKanjiVocabLabels = (sets: string[]) => {
   const full = ranges
     .split(', ')
     .map(range => `${range.includes('-') ? 'Levels' : 'Level'} ${range}`)
+    .concat(customSets)
     .join(', ');
 
   return {
     full,
-    compact: ranges,
+    compact: [ranges, ...customSets].join(', '),
   };
 };
 
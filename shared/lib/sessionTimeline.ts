@@ -0,0 +1,204 @@
+/**
+ * Session Timelines
+ *
+ * Gauntlet and Blitz runs are recorded event by event (every answer with
+ * its options, latency and lives, and every life regenerated) so the
+ * results screen can replay where a run went wrong. Aggregates stay in
+ * gauntletStats; timelines are larger, so only the most recent runs are
+ * kept, in IndexedDB through localforage.
+ */
+
+import localforage from 'localforage';
+import type { DojoType } from '@/shared/types/dojo';
+
+const STORAGE_KEY = 'kanadojo-session-timelines';
+
+// Timelines kept, newest first
+export const MAX_STORED_TIMELINES = 30;
+
+// Answers averaged into each point of the accuracy curve
+export const ACCURACY_WINDOW = 5;
+
+export type TimelineChallenge = 'gauntlet' | 'blitz';
+
+export interface TimelineAnswerEvent {
+  type: 'answer';
+  /** Milliseconds since the run started */
+  at: number;
+  question: string;
+  correctAnswer: string;
+  /** Options on screen, in order (Pick mode only) */
+  options?: string[];
+  answer: string;
+  isCorrect: boolean;
+  latencyMs: number;
+  /** Ran out of time before answering (Gauntlet question timer) */
+  timedOut?: boolean;
+  /** Gauntlet only */
+  livesBefore?: number;
+  livesAfter?: number;
+}
+
+export interface TimelineRegenEvent {
+  type: 'regen';
+  at: number;
+  livesBefore: number;
+  livesAfter: number;
+}
+
+export type TimelineEvent = TimelineAnswerEvent | TimelineRegenEvent;
+
+export interface SessionTimeline {
+  id: string;
+  challenge: TimelineChallenge;
+  dojoType: DojoType;
+  gameMode: 'Pick' | 'Type';
+  startedAt: number;
+  endedAt: number;
+  events: TimelineEvent[];
+}
+
+export interface TimelinePoint {
+  /** 1-based answer number */
+  answerNumber: number;
+  latencyMs: number;
+  isCorrect: boolean;
+  /** Share of the last ACCURACY_WINDOW answers that were right */
+  rollingAccuracy: number;
+}
+
+/**
+ * The id a question item is recorded under: its kana, kanji or word
+ */
+export const getQuestionItemId = <T>(item: T): string => {
+  if (typeof item === 'object' && item !== null) {
+    const obj = item as Record<string, unknown>;
+    if ('kana' in obj) return String(obj.kana);
+    if ('kanjiChar' in obj) return String(obj.kanjiChar);
+    if ('word' in obj) return String(obj.word);
+    if ('id' in obj) return String(obj.id);
+  }
+  return String(item);
+};
+
+export const generateTimelineId = (challenge: TimelineChallenge): string =>
+  `${challenge}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+export const getTimelineAnswers = (
+  timeline: SessionTimeline,
+): TimelineAnswerEvent[] =>
+  timeline.events.filter(
+    (event): event is TimelineAnswerEvent => event.type === 'answer',
+  );
+
+/**
+ * Latency and rolling accuracy per answer, for the replay chart
+ */
+export function getTimelinePoints(
+  timeline: SessionTimeline,
+  window = ACCURACY_WINDOW,
+): TimelinePoint[] {
+  const answers = getTimelineAnswers(timeline);
+  return answers.map((answer, index) => {
+    const recent = answers.slice(Math.max(0, index - window + 1), index + 1);
+    return {
+      answerNumber: index + 1,
+      latencyMs: answer.latencyMs,
+      isCorrect: answer.isCorrect,
+      rollingAccuracy:
+        recent.filter(entry => entry.isCorrect).length / recent.length,
+    };
+  });
+}
+
+/**
+ * Regenerations that happened between two answers, keyed by the number of
+ * answers given before them
+ */
+export function getRegensByAnswer(
+  timeline: SessionTimeline,
+): Map<number, TimelineRegenEvent[]> {
+  const regens = new Map<number, TimelineRegenEvent[]>();
+  let answerCount = 0;
+  for (const event of timeline.events) {
+    if (event.type === 'answer') {
+      answerCount++;
+    } else {
+      regens.set(answerCount, [...(regens.get(answerCount) ?? []), event]);
+    }
+  }
+  return regens;
+}
+
+/**
+ * Add a timeline to the stored ones, newest first, dropping the oldest
+ * beyond `limit`. Saving a timeline again replaces it.
+ */
+export function addTimeline(
+  timelines: SessionTimeline[],
+  timeline: SessionTimeline,
+  limit = MAX_STORED_TIMELINES,
+): SessionTimeline[] {
+  return [
+    timeline,
+    ...timelines.filter(stored => stored.id !== timeline.id),
+  ].slice(0, limit);
+}
+
+const loadTimelines = async (): Promise<SessionTimeline[]> => {
+  try {
+    const stored = await localforage.getItem<SessionTimeline[]>(STORAGE_KEY);
+    return Array.isArray(stored) ? stored : [];
+  } catch (error) {
+    console.warn('[SessionTimeline] Failed to load timelines:', error);
+    return [];
+  }
+};
+
+/**
+ * Store a finished run
+ */
+export const saveTimeline = async (
+  timeline: SessionTimeline,
+): Promise<void> => {
+  try {
+    const timelines = await loadTimelines();
+    await localforage.setItem(STORAGE_KEY, addTimeline(timelines, timeline));
+  } catch (error) {
+    console.warn('[SessionTimeline] Failed to save timeline:', error);
+  }
+};
+
+/**
+ * Get a stored run, e.g. the one linked from a Gauntlet session
+ */
+export const getTimeline = async (
+  id: string,
+): Promise<SessionTimeline | null> => {
+  const timelines = await loadTimelines();
+  return timelines.find(timeline => timeline.id === id) ?? null;
+};
+
+/**
+ * Get the most recent runs, optionally of one challenge and dojo
+ */
+export const getRecentTimelines = async (
+  filter: {
+    challenge?: TimelineChallenge;
+    dojoType?: SessionTimeline['dojoType'];
+  } = {},
+): Promise<SessionTimeline[]> => {
+  const timelines = await loadTimelines();
+  return timelines.filter(
+    timeline =>
+      (!filter.challenge || timeline.challenge === filter.challenge) &&
+      (!filter.dojoType || timeline.dojoType === filter.dojoType),
+  );
+};
+
+/**
+ * Clear all stored timelines
+ */
+export const clearTimelines = async (): Promise<void> => {
+  await localforage.removeItem(STORAGE_KEY);
+};
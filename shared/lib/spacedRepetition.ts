@@ -0,0 +1,194 @@
+/**
+ * Spaced Repetition Scheduler (SM-2)
+ *
+ * Complements the adaptive selector: where adaptiveSelection.ts reacts to
+ * in-session mistakes, this module decides *when* an item should come back
+ * for review. Each kana, kanji and vocabulary item gets a review card that
+ * stores its due date, stability (current interval in days), ease factor and
+ * lapse count.
+ *
+ * Scheduling follows SuperMemo-2 with a short relearning step:
+ * 1. New items graduate to a 1 day interval, then 6 days, then interval × ease
+ * 2. A miss ("again") sends the item back to relearning in 10 minutes
+ * 3. Early reviews (item not yet due) never push the due date further out,
+ *    so grinding the same set in one sitting cannot inflate intervals
+ */
+
+export type ReviewContentType = 'kana' | 'kanji' | 'vocabulary';
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ReviewCard {
+  key: string;
+  contentType: ReviewContentType;
+  dueAt: number; // timestamp when the item is next due
+  stability: number; // current interval in days (0 while (re)learning)
+  ease: number; // SM-2 ease factor
+  reps: number; // successful reviews in a row
+  lapses: number; // times the item was forgotten after graduating
+  lastReviewedAt: number;
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+export const DEFAULT_EASE = 2.5;
+export const MIN_EASE = 1.3;
+export const MAX_EASE = 3.0;
+export const MAX_INTERVAL_DAYS = 365;
+
+// Answer time thresholds used to turn a correct answer into a grade
+const EASY_ANSWER_MS = 1500;
+const HARD_ANSWER_MS = 6000;
+
+/**
+ * Build the storage id for a card. Content types are namespaced so a
+ * one-kanji word (e.g. 人) doesn't share a schedule with the kanji itself.
+ */
+export const getCardId = (contentType: ReviewContentType, key: string) =>
+  `${contentType}:${key}`;
+
+/**
+ * Create a fresh card that is due immediately.
+ */
+export const createReviewCard = (
+  contentType: ReviewContentType,
+  key: string,
+  now: number = Date.now(),
+): ReviewCard => ({
+  key,
+  contentType,
+  dueAt: now,
+  stability: 0,
+  ease: DEFAULT_EASE,
+  reps: 0,
+  lapses: 0,
+  lastReviewedAt: 0,
+});
+
+/**
+ * Map a game answer to a review grade. Fast correct answers count as "easy",
+ * slow ones as "hard"; without timing data a correct answer is "good".
+ */
+export const gradeAnswer = (
+  isCorrect: boolean,
+  answerTimeMs?: number,
+): ReviewGrade => {
+  if (!isCorrect) return 'again';
+  if (answerTimeMs === undefined || answerTimeMs <= 0) return 'good';
+  if (answerTimeMs < EASY_ANSWER_MS) return 'easy';
+  if (answerTimeMs > HARD_ANSWER_MS) return 'hard';
+  return 'good';
+};
+
+export const isDue = (card: ReviewCard, now: number = Date.now()) =>
+  card.dueAt <= now;
+
+const clampEase = (ease: number) =>
+  Math.max(MIN_EASE, Math.min(MAX_EASE, ease));
+
+/**
+ * Apply a review grade to a card and return the rescheduled card.
+ * The input card is never mutated.
+ */
+export const scheduleReview = (
+  card: ReviewCard,
+  grade: ReviewGrade,
+  now: number = Date.now(),
+): ReviewCard => {
+  if (grade === 'again') {
+    return {
+      ...card,
+      // Only count a lapse when a graduated item is forgotten; repeated misses
+      // while relearning don't pile up extra lapses
+      lapses: card.reps > 0 ? card.lapses + 1 : card.lapses,
+      reps: 0,
+      stability: 0,
+      ease: card.reps > 0 ? clampEase(card.ease - 0.2) : card.ease,
+      dueAt: now + RELEARN_DELAY_MS,
+      lastReviewedAt: now,
+    };
+  }
+
+  // Early review: keep the existing schedule so intervals can't be farmed
+  if (!isDue(card, now)) {
+    return { ...card, lastReviewedAt: now };
+  }
+
+  const reps = card.reps + 1;
+  let ease = card.ease;
+  let interval: number;
+
+  if (reps === 1) {
+    interval = 1;
+  } else if (reps === 2) {
+    interval = 6;
+  } else {
+    interval = Math.max(1, card.stability) * card.ease;
+  }
+
+  if (grade === 'hard') {
+    ease = clampEase(ease - 0.15);
+    interval = reps <= 2 ? interval : Math.max(1, card.stability * 1.2);
+  } else if (grade === 'easy') {
+    ease = clampEase(ease + 0.15);
+    interval *= 1.3;
+  }
+
+  const stability = Math.min(MAX_INTERVAL_DAYS, Math.round(interval * 10) / 10);
+
+  return {
+    ...card,
+    reps,
+    ease,
+    stability,
+    dueAt: now + stability * DAY_MS,
+    lastReviewedAt: now,
+  };
+};
+
+/**
+ * Timestamp for the end of the local day containing `now`.
+ * Anything due before this counts towards "reviews due today".
+ */
+export const getEndOfDay = (now: number = Date.now()) => {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end.getTime();
+};
+
+/**
+ * Get cards due by `until`, most overdue first.
+ */
+export const getDueCards = (
+  cards: ReviewCard[],
+  until: number = Date.now(),
+  contentType?: ReviewContentType,
+): ReviewCard[] =>
+  cards
+    .filter(
+      card =>
+        card.dueAt <= until &&
+        (contentType === undefined || card.contentType === contentType),
+    )
+    .sort((a, b) => a.dueAt - b.dueAt);
+
+/**
+ * Narrow a selection pool to its due items so games serve reviews first.
+ * Returns the pool unchanged when nothing (other than `excludeKey`) is due,
+ * letting the adaptive selector pick from the full set as before.
+ */
+export const prioritizeDue = (
+  pool: string[],
+  cards: Record<string, ReviewCard>,
+  contentType: ReviewContentType,
+  excludeKey?: string,
+  now: number = Date.now(),
+): string[] => {
+  const due = pool.filter(key => {
+    if (key === excludeKey) return false;
+    const card = cards[getCardId(contentType, key)];
+    return card !== undefined && isDue(card, now);
+  });
+  return due.length > 0 ? due : pool;
+};
@@ -0,0 +1,137 @@
+/**
+ * Speech Recognition
+ *
+ * Shared access to the browser's Web Speech recognizer, used by voice input
+ * in the Translator and by the Speaking drill, with one set of error codes
+ * and user-facing messages.
+ */
+
+export type SpeechRecognitionErrorCode =
+  | 'unsupported'
+  | 'no-speech'
+  | 'audio-capture'
+  | 'not-allowed'
+  | 'network'
+  | 'aborted'
+  | 'unknown';
+
+export const SPEECH_ERROR_MESSAGES: Record<SpeechRecognitionErrorCode, string> =
+  {
+    unsupported: 'Speech recognition is not supported in your browser.',
+    'no-speech': 'No speech detected. Please try again.',
+    'audio-capture': 'No microphone found. Please check your settings.',
+    'not-allowed': 'Microphone permission denied. Please allow access.',
+    network: 'Network error. Please check your connection.',
+    aborted: 'Listening was stopped.',
+    unknown: 'Speech recognition error.',
+  };
+
+/**
+ * Map the `error` of a recognition error event to an error code
+ */
+export function toSpeechErrorCode(error: string): SpeechRecognitionErrorCode {
+  switch (error) {
+    case 'no-speech':
+    case 'audio-capture':
+    case 'not-allowed':
+    case 'network':
+    case 'aborted':
+      return error;
+    case 'service-not-allowed':
+      return 'not-allowed';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * The browser's recognizer, or undefined when unsupported or rendering on
+ * the server
+ */
+export const getSpeechRecognition = (): typeof SpeechRecognition | undefined =>
+  typeof window === 'undefined'
+    ? undefined
+    : window.SpeechRecognition || window.webkitSpeechRecognition;
+
+export interface SpeechRecognitionOptions {
+  /** BCP 47 language of the utterance */
+  lang: string;
+  interimResults?: boolean;
+  maxAlternatives?: number;
+}
+
+/**
+ * Create a recognizer that listens for a single utterance
+ *
+ * @returns The recognizer, or undefined when unsupported
+ */
+export function createSpeechRecognition({
+  lang,
+  interimResults = false,
+  maxAlternatives = 1,
+}: SpeechRecognitionOptions): SpeechRecognition | undefined {
+  const Recognition = getSpeechRecognition();
+  if (!Recognition) return undefined;
+
+  const recognition = new Recognition();
+  recognition.continuous = false;
+  recognition.interimResults = interimResults;
+  recognition.maxAlternatives = maxAlternatives;
+  recognition.lang = lang;
+  return recognition;
+}
+
+// Type declarations for Web Speech API
+declare global {
+  interface Window {
+    SpeechRecognition: typeof SpeechRecognition;
+    webkitSpeechRecognition: typeof SpeechRecognition;
+  }
+
+  interface SpeechRecognition extends EventTarget {
+    continuous: boolean;
+    interimResults: boolean;
+    lang: string;
+    maxAlternatives: number;
+    start(): void;
+    stop(): void;
+    abort(): void;
+    onerror: (event: SpeechRecognitionErrorEvent) => void;
+    onresult: (event: SpeechRecognitionEvent) => void;
+    onstart: () => void;
+    onend: () => void;
+  }
+
+  const SpeechRecognition: {
+    prototype: SpeechRecognition;
+    new (): SpeechRecognition;
+  };
+
+  interface SpeechRecognitionEvent extends Event {
+    resultIndex: number;
+    results: SpeechRecognitionResultList;
+  }
+
+  interface SpeechRecognitionResultList {
+    readonly length: number;
+    item(index: number): SpeechRecognitionResult;
+    [index: number]: SpeechRecognitionResult;
+  }
+
+  interface SpeechRecognitionResult {
+    readonly isFinal: boolean;
+    readonly length: number;
+    item(index: number): SpeechRecognitionAlternative;
+    [index: number]: SpeechRecognitionAlternative;
+  }
+
+  interface SpeechRecognitionAlternative {
+    readonly transcript: string;
+    readonly confidence: number;
+  }
+
+  interface SpeechRecognitionErrorEvent extends Event {
+    error: string;
+    message: string;
+  }
+}
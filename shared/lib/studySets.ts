@@ -0,0 +1,303 @@
+/**
+ * Study Set Sharing
+ *
+ * A study set travels in two forms:
+ * - a link, which only carries the set's keys (kana, kanji characters and
+ *   words) so it stays short; the receiving device looks the entries up in
+ *   the built-in JLPT data and reports any it can't find
+ * - a JSON file with the full entries, so sets built from imported decks
+ *   survive the trip as well
+ */
+
+import {
+  kanjiDataService,
+  type KanjiLevel,
+} from '@/features/Kanji/services/kanjiDataService';
+import {
+  vocabDataService,
+  type VocabLevel,
+} from '@/features/Vocabulary/services/vocabDataService';
+import type { IKanjiObj } from '@/features/Kanji';
+import type { IVocabObj } from '@/features/Vocabulary';
+import {
+  EMPTY_STUDY_SET_ITEMS,
+  getStudySetItemKey,
+  mergeStudySetItems,
+  type StudySet,
+  type StudySetContentType,
+  type StudySetItems,
+} from '@/shared/store/useCustomSetsStore';
+import { fromBase64Url, toBase64Url } from '@/shared/lib/base64Url';
+
+export const STUDY_SET_FORMAT = 'kanadojo-study-set';
+export const STUDY_SET_VERSION = 1;
+
+// Query parameter of a shared set on the study sets page
+export const STUDY_SET_SHARE_PARAM = 'share';
+
+const LEVELS: (KanjiLevel & VocabLevel)[] = ['n5', 'n4', 'n3', 'n2', 'n1'];
+
+const KANA_REGEX = /^[぀-ヿ]+$/;
+const SINGLE_KANJI_REGEX = /^[㐀-䶿一-鿿々]$/;
+
+export type StudySetKeys = Record<StudySetContentType, string[]>;
+
+/** A set read from a link or file, not yet saved */
+export interface SharedStudySet {
+  name: string;
+  items: StudySetItems;
+  /** Keys that could not be resolved to an entry */
+  missing: string[];
+}
+
+/**
+ * Which dojo practices a key: kana strings are kana, a lone kanji is a
+ * kanji, anything else is a word
+ */
+export function classifyStudySetKey(key: string): StudySetContentType {
+  if (KANA_REGEX.test(key) && [...key].length <= 2) return 'kana';
+  if (SINGLE_KANJI_REGEX.test(key)) return 'kanji';
+  return 'vocabulary';
+}
+
+export function groupStudySetKeys(keys: string[]): StudySetKeys {
+  const grouped: StudySetKeys = { kana: [], kanji: [], vocabulary: [] };
+  for (const key of new Set(keys.map(k => k.trim()).filter(Boolean))) {
+    grouped[classifyStudySetKey(key)].push(key);
+  }
+  return grouped;
+}
+
+export function getStudySetKeys(items: StudySetItems): StudySetKeys {
+  return {
+    kana: [...items.kana],
+    kanji: items.kanji.map(item => getStudySetItemKey('kanji', item)),
+    vocabulary: items.vocabulary.map(item =>
+      getStudySetItemKey('vocabulary', item),
+    ),
+  };
+}
+
+/**
+ * Kana groups to select for a set's kana: the Kana dojo selects whole
+ * groups, so every group holding one of them
+ */
+export function getKanaGroupIndices(
+  groups: { kana: string[]; groupName: string }[],
+  kana: string[],
+): number[] {
+  const wanted = new Set(kana);
+  return groups.flatMap((group, index) =>
+    !group.groupName.startsWith('challenge.') &&
+    group.kana.some(character => wanted.has(character))
+      ? [index]
+      : [],
+  );
+}
+
+// ============================================================================
+// Links
+// ============================================================================
+
+interface StudySetLinkPayload {
+  v: number;
+  n: string;
+  a?: string[];
+  k?: string;
+  w?: string[];
+}
+
+/**
+ * Encode a set's name and keys for a share link. Kanji are single
+ * characters, so they are joined into one string.
+ */
+export function encodeStudySetLink(name: string, keys: StudySetKeys): string {
+  const payload: StudySetLinkPayload = { v: STUDY_SET_VERSION, n: name };
+  if (keys.kana.length > 0) payload.a = keys.kana;
+  if (keys.kanji.length > 0) payload.k = keys.kanji.join('');
+  if (keys.vocabulary.length > 0) payload.w = keys.vocabulary;
+  return toBase64Url(JSON.stringify(payload));
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Read a share link payload. Throws if it is not a study set link.
+ */
+export function decodeStudySetLink(encoded: string): {
+  name: string;
+  keys: StudySetKeys;
+} {
+  let payload: Partial<StudySetLinkPayload>;
+  try {
+    payload = JSON.parse(fromBase64Url(encoded.trim()));
+  } catch {
+    throw new Error('[studySets] link is not a KanaDojo study set');
+  }
+  if (
+    typeof payload !== 'object' ||
+    payload === null ||
+    typeof payload.v !== 'number' ||
+    typeof payload.n !== 'string'
+  ) {
+    throw new Error('[studySets] link is not a KanaDojo study set');
+  }
+  if (payload.v > STUDY_SET_VERSION) {
+    throw new Error(
+      `[studySets] link version ${payload.v} is newer than supported version ${STUDY_SET_VERSION}`,
+    );
+  }
+
+  return {
+    name: payload.n,
+    keys: {
+      kana: isStringArray(payload.a) ? payload.a : [],
+      kanji: typeof payload.k === 'string' ? [...payload.k] : [],
+      vocabulary: isStringArray(payload.w) ? payload.w : [],
+    },
+  };
+}
+
+/**
+ * Find the entries of set keys in the built-in JLPT data. Kana need no
+ * lookup; kanji and words that aren't in any level are reported missing.
+ */
+export async function resolveStudySetKeys(
+  keys: StudySetKeys,
+): Promise<{ items: StudySetItems; missing: string[] }> {
+  const needsKanji = keys.kanji.length > 0;
+  const needsVocab = keys.vocabulary.length > 0;
+  const [kanjiLevels, vocabLevels] = await Promise.all([
+    needsKanji
+      ? Promise.all(
+          LEVELS.map(level => kanjiDataService.getKanjiByLevel(level)),
+        )
+      : [],
+    needsVocab
+      ? Promise.all(
+          LEVELS.map(level => vocabDataService.getVocabByLevel(level)),
+        )
+      : [],
+  ]);
+
+  const kanjiByChar = new Map<string, IKanjiObj>();
+  for (const kanji of kanjiLevels.flat()) {
+    if (!kanjiByChar.has(kanji.kanjiChar))
+      kanjiByChar.set(kanji.kanjiChar, kanji);
+  }
+  const vocabByWord = new Map<string, IVocabObj>();
+  for (const word of vocabLevels.flat()) {
+    if (!vocabByWord.has(word.word)) vocabByWord.set(word.word, word);
+  }
+
+  const missing: string[] = [];
+  const lookUp = <T>(wanted: string[], found: Map<string, T>): T[] =>
+    wanted.flatMap(key => {
+      const item = found.get(key);
+      if (!item) missing.push(key);
+      return item ? [item] : [];
+    });
+
+  const items = mergeStudySetItems(EMPTY_STUDY_SET_ITEMS, {
+    kana: keys.kana.filter(key => {
+      const isKana = KANA_REGEX.test(key);
+      if (!isKana) missing.push(key);
+      return isKana;
+    }),
+    kanji: lookUp(keys.kanji, kanjiByChar),
+    vocabulary: lookUp(keys.vocabulary, vocabByWord),
+  });
+
+  return { items, missing };
+}
+
+/**
+ * Read a share link into a set, looking its entries up
+ */
+export async function readStudySetLink(
+  encoded: string,
+): Promise<SharedStudySet> {
+  const { name, keys } = decodeStudySetLink(encoded);
+  const { items, missing } = await resolveStudySetKeys(keys);
+  return { name, items, missing };
+}
+
+// ============================================================================
+// Files
+// ============================================================================
+
+export interface StudySetFile {
+  format: typeof STUDY_SET_FORMAT;
+  version: number;
+  name: string;
+  items: StudySetItems;
+}
+
+export function createStudySetFile(studySet: StudySet): StudySetFile {
+  return {
+    format: STUDY_SET_FORMAT,
+    version: STUDY_SET_VERSION,
+    name: studySet.name,
+    items: studySet.items,
+  };
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isKanjiObj = (value: unknown): value is IKanjiObj =>
+  isPlainObject(value) &&
+  typeof value.kanjiChar === 'string' &&
+  isStringArray(value.onyomi) &&
+  isStringArray(value.kunyomi) &&
+  isStringArray(value.meanings);
+
+const isVocabObj = (value: unknown): value is IVocabObj =>
+  isPlainObject(value) &&
+  typeof value.word === 'string' &&
+  typeof value.reading === 'string' &&
+  isStringArray(value.meanings);
+
+/**
+ * Validate a parsed study set file. Malformed entries are dropped and
+ * counted as missing rather than failing the whole import; throws if the
+ * file is not a study set at all.
+ */
+export function parseStudySetFile(raw: unknown): SharedStudySet {
+  if (!isPlainObject(raw) || raw.format !== STUDY_SET_FORMAT) {
+    throw new Error('[studySets] file is not a KanaDojo study set');
+  }
+  if (typeof raw.version !== 'number' || raw.version > STUDY_SET_VERSION) {
+    throw new Error(
+      `[studySets] file version ${String(raw.version)} is not supported`,
+    );
+  }
+
+  const items = isPlainObject(raw.items) ? raw.items : {};
+  const listOf = (value: unknown) => (Array.isArray(value) ? value : []);
+  const missing: string[] = [];
+  const keep = <T>(
+    values: unknown[],
+    isValid: (value: unknown) => value is T,
+  ): T[] =>
+    values.filter((value): value is T => {
+      if (isValid(value)) return true;
+      missing.push(JSON.stringify(value));
+      return false;
+    });
+
+  return {
+    name: typeof raw.name === 'string' ? raw.name : '',
+    items: mergeStudySetItems(EMPTY_STUDY_SET_ITEMS, {
+      kana: keep(
+        listOf(items.kana),
+        (value): value is string =>
+          typeof value === 'string' && KANA_REGEX.test(value),
+      ),
+      kanji: keep(listOf(items.kanji), isKanjiObj),
+      vocabulary: keep(listOf(items.vocabulary), isVocabObj),
+    }),
+    missing,
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * Sync Transports
+ *
+ * A sync adapter only moves one sync document to and from somewhere; all
+ * merging happens on the device. Adapters that can detect concurrent writes
+ * (WebDAV via ETags) throw a `conflict` SyncError so the caller can pull,
+ * merge and try again.
+ */
+
+import {
+  SYNC_FORMAT,
+  SYNC_VERSION,
+  type SyncDocument,
+  type SyncField,
+} from './changeLog';
+
+export type SyncErrorCode = 'conflict' | 'auth' | 'network' | 'invalid';
+
+export class SyncError extends Error {
+  readonly code: SyncErrorCode;
+
+  constructor(code: SyncErrorCode, message: string) {
+    super(message);
+    this.name = 'SyncError';
+    this.code = code;
+  }
+}
+
+/** What a pull found: the remote document and the revision it was read at */
+export interface SyncSnapshot {
+  document: SyncDocument | null;
+  revision: string | null;
+}
+
+export interface SyncAdapter {
+  readonly name: string;
+  pull(): Promise<SyncSnapshot>;
+  /**
+   * Stores `document`, replacing the one read in `base`. Throws a
+   * `conflict` SyncError if the remote changed since.
+   */
+  push(document: SyncDocument, base: SyncSnapshot): Promise<void>;
+}
+
+function isSyncField(value: unknown): value is SyncField {
+  if (typeof value !== 'object' || value === null) return false;
+  const field = value as Partial<SyncField>;
+  return (
+    'value' in field &&
+    typeof field.updatedAt === 'number' &&
+    typeof field.deviceId === 'string'
+  );
+}
+
+/**
+ * Validates a downloaded document. Malformed fields are dropped rather than
+ * failing the whole sync.
+ */
+export function parseSyncDocument(raw: unknown): SyncDocument {
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      throw new SyncError('invalid', 'Sync file is not valid JSON');
+    }
+  }
+  const doc = raw as Partial<SyncDocument> | null;
+  if (
+    typeof doc !== 'object' ||
+    doc === null ||
+    doc.format !== SYNC_FORMAT ||
+    typeof doc.fields !== 'object' ||
+    doc.fields === null
+  ) {
+    throw new SyncError('invalid', 'Not a KanaDojo sync file');
+  }
+  if (typeof doc.version !== 'number' || doc.version > SYNC_VERSION) {
+    throw new SyncError(
+      'invalid',
+      'Sync file was written by a newer version of KanaDojo',
+    );
+  }
+  const fields: Record<string, SyncField> = {};
+  for (const [path, field] of Object.entries(doc.fields)) {
+    if (isSyncField(field)) fields[path] = field;
+  }
+  return { format: SYNC_FORMAT, version: SYNC_VERSION, fields };
+}
+
+// ============================================================================
+// File
+// ============================================================================
+
+export const SYNC_FILENAME = 'kanadojo-sync.json';
+
+export interface FileSyncAdapterOptions {
+  /** A sync file picked by the user to merge; omit to only export */
+  file?: Blob | null;
+  /** Receives the merged document; defaults to downloading it */
+  save?: (blob: Blob, filename: string) => void | Promise<void>;
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Manual sync through a file: merge a sync file exported on another device,
+ * then download the merged result to carry back.
+ */
+export function createFileSyncAdapter(
+  options: FileSyncAdapterOptions = {},
+): SyncAdapter {
+  const save = options.save ?? downloadBlob;
+  return {
+    name: 'file',
+    pull: async () => ({
+      document: options.file
+        ? parseSyncDocument(await options.file.text())
+        : null,
+      revision: null,
+    }),
+    push: async document => {
+      await save(
+        new Blob([JSON.stringify(document)], { type: 'application/json' }),
+        SYNC_FILENAME,
+      );
+    },
+  };
+}
+
+// ============================================================================
+// WebDAV
+// ============================================================================
+
+export interface WebDavSyncAdapterOptions {
+  /** URL of the sync file, e.g. https://dav.example.com/kanadojo-sync.json */
+  url: string;
+  username?: string;
+  password?: string;
+  /** Injected for tests (see mockServer.ts) */
+  fetch?: typeof fetch;
+}
+
+function toBase64(text: string): string {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(text)));
+}
+
+/**
+ * Sync through any server that supports plain GET/PUT with ETags
+ * (Nextcloud, ownCloud, Apache mod_dav, nginx dav, ...). Conditional PUTs
+ * make two devices syncing at once retry instead of overwriting each other.
+ */
+export function createWebDavSyncAdapter(
+  options: WebDavSyncAdapterOptions,
+): SyncAdapter {
+  const doFetch = options.fetch ?? fetch;
+  const headers: Record<string, string> = {};
+  if (options.username) {
+    headers.Authorization = `Basic ${toBase64(
+      `${options.username}:${options.password ?? ''}`,
+    )}`;
+  }
+
+  const request = async (init: RequestInit): Promise<Response> => {
+    let res: Response;
+    try {
+      res = await doFetch(options.url, {
+        ...init,
+        cache: 'no-store',
+        headers: { ...headers, ...(init.headers as Record<string, string>) },
+      });
+    } catch {
+      throw new SyncError('network', 'Could not reach the sync server');
+    }
+    if (res.status === 401 || res.status === 403) {
+      throw new SyncError('auth', 'The sync server rejected the credentials');
+    }
+    return res;
+  };
+
+  return {
+    name: 'webdav',
+    pull: async () => {
+      const res = await request({ method: 'GET' });
+      if (res.status === 404) return { document: null, revision: null };
+      if (!res.ok) {
+        throw new SyncError('network', `Sync server returned ${res.status}`);
+      }
+      return {
+        document: parseSyncDocument(await res.text()),
+        revision: res.headers.get('ETag'),
+      };
+    },
+    push: async (document, base) => {
+      const conditions: Record<string, string> = base.revision
+        ? { 'If-Match': base.revision }
+        : base.document
+          ? {}
+          : { 'If-None-Match': '*' };
+      const res = await request({
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...conditions },
+        body: JSON.stringify(document),
+      });
+      if (res.status === 412) {
+        throw new SyncError('conflict', 'Another device synced meanwhile');
+      }
+      if (!res.ok) {
+        throw new SyncError('network', `Sync server returned ${res.status}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,424 @@
+/**
+ * Sync Change Log
+ *
+ * Turns backup sections into a flat log of fields, one per path, each
+ * stamped with when and on which device it last changed. Two logs merge
+ * field by field according to a policy:
+ *
+ * 1. lww   - last writer wins, by timestamp then device id (the default)
+ * 2. sum   - counters: every device keeps its own contribution and the
+ *            value is their total, so answers given offline on two devices
+ *            both count (a grow-only counter, merged per device by max)
+ * 3. max / min - best streaks and fastest times keep the better value
+ * 4. union - lists merge by item id (or value), newest copy of an item wins
+ *
+ * Counters, maxima and unions only grow: clearing them on one device does
+ * not clear them elsewhere. Deleting an lww field leaves a tombstone so the
+ * deletion reaches other devices.
+ *
+ * Everything here is pure so merges can be tested without storage.
+ */
+
+import type { JSONObject, JSONValue } from '@/shared/lib/backup';
+
+export const SYNC_FORMAT = 'kanadojo-sync';
+export const SYNC_VERSION = 1;
+
+export type SyncStrategy = 'lww' | 'sum' | 'max' | 'min' | 'union';
+
+export interface SyncRule {
+  /** Path segments separated by `/`; `*` matches any one segment */
+  pattern: string;
+  strategy: SyncStrategy;
+}
+
+export interface SyncField {
+  value: JSONValue;
+  updatedAt: number;
+  deviceId: string;
+  /** Set when an lww field was removed; `value` is then null */
+  deleted?: boolean;
+  /** Per-device contributions of a `sum` field; `value` is their total */
+  counts?: Record<string, number>;
+}
+
+export interface SyncDocument {
+  format: typeof SYNC_FORMAT;
+  version: number;
+  fields: Record<string, SyncField>;
+}
+
+/**
+ * Merge policy for the synced sections. Rules are matched against whole
+ * paths; a rule matching an object stops flattening there, so the object
+ * (e.g. one review card) is merged as a unit. The first matching rule wins.
+ */
+export const DEFAULT_SYNC_RULES: SyncRule[] = [
+  // Progress counters add up across devices
+  { pattern: 'stats/allTimeStats/characterMastery/*/*', strategy: 'sum' },
+  { pattern: 'stats/allTimeStats/kanjiCorrectByLevel/*', strategy: 'sum' },
+  { pattern: 'stats/allTimeStats/totalSessions', strategy: 'sum' },
+  { pattern: 'stats/allTimeStats/totalCorrect', strategy: 'sum' },
+  { pattern: 'stats/allTimeStats/totalIncorrect', strategy: 'sum' },
+  { pattern: 'stats/allTimeStats/hiraganaCorrect', strategy: 'sum' },
+  { pattern: 'stats/allTimeStats/katakanaCorrect', strategy: 'sum' },
+  { pattern: 'stats/allTimeStats/vocabularyCorrect', strategy: 'sum' },
+  { pattern: 'stats/allTimeStats/bestStreak', strategy: 'max' },
+  { pattern: 'stats/allTimeStats/maxWrongStreak', strategy: 'max' },
+  { pattern: 'stats/allTimeStats/fastestAnswerMs', strategy: 'min' },
+  { pattern: 'stats/allTimeStats/gauntletStats/bestStreak', strategy: 'max' },
+  { pattern: 'stats/allTimeStats/gauntletStats/*', strategy: 'sum' },
+  { pattern: 'stats/allTimeStats/blitzStats/bestStreak', strategy: 'max' },
+  {
+    pattern: 'stats/allTimeStats/blitzStats/bestSessionScore',
+    strategy: 'max',
+  },
+  { pattern: 'stats/allTimeStats/blitzStats/*', strategy: 'sum' },
+  {
+    pattern: 'stats/allTimeStats/conjugationStats/godanTeMistakes',
+    strategy: 'union',
+  },
+  { pattern: 'stats/allTimeStats/conjugationStats/*/*/*', strategy: 'sum' },
+  {
+    pattern: 'stats/allTimeStats/writingStats/byCharacter/*/*',
+    strategy: 'sum',
+  },
+  { pattern: 'stats/allTimeStats/writingStats/mistakes/*', strategy: 'sum' },
+  {
+    pattern: 'stats/allTimeStats/listeningStats/byContent/*/*',
+    strategy: 'sum',
+  },
+  {
+    pattern: 'stats/allTimeStats/listeningStats/byItem/*/*',
+    strategy: 'sum',
+  },
+  { pattern: 'stats/allTimeStats/listeningStats/replays', strategy: 'sum' },
+  { pattern: 'stats/allTimeStats/dojosUsed', strategy: 'union' },
+  { pattern: 'stats/allTimeStats/modesUsed', strategy: 'union' },
+  { pattern: 'stats/allTimeStats/challengeModesUsed', strategy: 'union' },
+  { pattern: 'stats/allTimeStats/trainingDays', strategy: 'union' },
+  { pattern: 'visits/visits', strategy: 'union' },
+
+  // Adaptive weights: answer counts add up, the rest follows the last device
+  { pattern: 'adaptiveWeights/weights/*/correct', strategy: 'sum' },
+  { pattern: 'adaptiveWeights/weights/*/wrong', strategy: 'sum' },
+  { pattern: 'adaptiveWeights/weights/*/lastSeen', strategy: 'max' },
+  { pattern: 'adaptiveWeights/weights/*/recentMisses', strategy: 'union' },
+
+  { pattern: 'gauntletStats/data/sessions', strategy: 'union' },
+  { pattern: 'gauntletStats/data/bestTimes/*/*', strategy: 'min' },
+  {
+    pattern: 'gauntletStats/data/lifetimeTotals/*/bestStreak',
+    strategy: 'max',
+  },
+  { pattern: 'gauntletStats/data/lifetimeTotals/*/*', strategy: 'sum' },
+
+  { pattern: 'achievements/unlockedAchievements/*', strategy: 'lww' },
+  { pattern: 'achievements/notifications', strategy: 'union' },
+  { pattern: 'achievements/totalPoints', strategy: 'max' },
+  { pattern: 'achievements/level', strategy: 'max' },
+
+  // One review card is scheduled as a whole
+  { pattern: 'reviews/cards/*', strategy: 'lww' },
+  { pattern: 'customSets/sets', strategy: 'union' },
+  { pattern: 'customSets/studySets', strategy: 'union' },
+  { pattern: 'mistakes/confusions/*/count', strategy: 'sum' },
+  { pattern: 'mistakes/confusions/*/lastAt', strategy: 'max' },
+  // One daily result is kept as a whole
+  { pattern: 'daily/results/*', strategy: 'lww' },
+  { pattern: 'translatorHistory/entries', strategy: 'union' },
+  { pattern: 'conjugatorHistory/history', strategy: 'union' },
+];
+
+// ============================================================================
+// Paths
+// ============================================================================
+
+// JSON Pointer style escaping keeps keys containing `/` unambiguous
+function escapeSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapeSegment(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+export function toSyncPath(segments: string[]): string {
+  return segments.map(escapeSegment).join('/');
+}
+
+export function fromSyncPath(path: string): string[] {
+  return path.split('/').map(unescapeSegment);
+}
+
+function matchesPattern(segments: string[], pattern: string[]): boolean {
+  return (
+    segments.length === pattern.length &&
+    pattern.every((part, i) => part === '*' || part === segments[i])
+  );
+}
+
+function compileRules(rules: SyncRule[]) {
+  const compiled = rules.map(rule => ({
+    pattern: rule.pattern.split('/'),
+    strategy: rule.strategy,
+  }));
+  return (segments: string[]): SyncStrategy | undefined =>
+    compiled.find(rule => matchesPattern(segments, rule.pattern))?.strategy;
+}
+
+export function getSyncStrategy(
+  path: string,
+  rules: SyncRule[] = DEFAULT_SYNC_RULES,
+): SyncStrategy {
+  return compileRules(rules)(fromSyncPath(path)) ?? 'lww';
+}
+
+function isPlainObject(v: unknown): v is JSONObject {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function isEqualJSON(a: JSONValue | undefined, b: JSONValue | undefined) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Flattens sections into `path → value`. Objects are descended into unless a
+ * rule matches them; empty objects and non-finite numbers (unset minima such
+ * as `fastestAnswerMs: Infinity`) have no fields.
+ */
+export function flattenSections(
+  sections: Record<string, JSONObject>,
+  rules: SyncRule[] = DEFAULT_SYNC_RULES,
+): Record<string, JSONValue> {
+  const strategyFor = compileRules(rules);
+  const fields: Record<string, JSONValue> = {};
+
+  const visit = (value: JSONValue, segments: string[]) => {
+    if (typeof value === 'number' && !Number.isFinite(value)) return;
+    if (isPlainObject(value) && !strategyFor(segments)) {
+      for (const [key, child] of Object.entries(value)) {
+        visit(child, [...segments, key]);
+      }
+      return;
+    }
+    fields[toSyncPath(segments)] = value;
+  };
+
+  for (const [key, section] of Object.entries(sections)) {
+    visit(section, [key]);
+  }
+  return fields;
+}
+
+// Unlike a JSON round trip this keeps non-finite numbers, which are not synced
+function cloneJSON(value: JSONValue): JSONValue {
+  if (Array.isArray(value)) return value.map(cloneJSON);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [key, cloneJSON(child)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Writes merged fields over local sections: live fields are set, tombstoned
+ * ones removed. Paths the document does not mention are left alone.
+ */
+export function applyFieldsToSections(
+  sections: Record<string, JSONObject>,
+  fields: Record<string, SyncField>,
+): Record<string, JSONObject> {
+  const result = cloneJSON(sections) as Record<string, JSONObject>;
+
+  for (const [path, field] of Object.entries(fields)) {
+    const segments = fromSyncPath(path);
+    const last = segments.pop()!;
+    let container: Record<string, JSONValue> = result as Record<
+      string,
+      JSONValue
+    >;
+    for (const segment of segments) {
+      if (!isPlainObject(container[segment])) {
+        if (field.deleted) {
+          container = {};
+          break;
+        }
+        container[segment] = {};
+      }
+      container = container[segment] as JSONObject;
+    }
+    if (field.deleted) delete container[last];
+    else container[last] = field.value;
+  }
+  return result;
+}
+
+// ============================================================================
+// Building the local log
+// ============================================================================
+
+export function createSyncDocument(
+  fields: Record<string, SyncField> = {},
+): SyncDocument {
+  return { format: SYNC_FORMAT, version: SYNC_VERSION, fields };
+}
+
+function sumCounts(counts: Record<string, number>): number {
+  return Object.values(counts).reduce((total, n) => total + n, 0);
+}
+
+/**
+ * Stamps the current local values against the last merged document this
+ * device saw. Unchanged fields keep their old timestamp; changed ones get
+ * `now`. For counters the device's own contribution is whatever the local
+ * total has beyond the other devices' known contributions.
+ */
+export function buildLocalDocument(
+  values: Record<string, JSONValue>,
+  previous: SyncDocument | null,
+  deviceId: string,
+  now: number,
+  rules: SyncRule[] = DEFAULT_SYNC_RULES,
+): SyncDocument {
+  const strategyFor = compileRules(rules);
+  const before = previous?.fields ?? {};
+  const fields: Record<string, SyncField> = {};
+
+  for (const [path, value] of Object.entries(values)) {
+    const prev = before[path];
+    const strategy = strategyFor(fromSyncPath(path)) ?? 'lww';
+
+    if (strategy === 'sum' && typeof value === 'number') {
+      const counts = { ...(prev?.counts ?? {}) };
+      const others = sumCounts(counts) - (counts[deviceId] ?? 0);
+      const own = Math.max(counts[deviceId] ?? 0, value - others);
+      const changed = own !== (counts[deviceId] ?? 0) || !prev?.counts;
+      counts[deviceId] = own;
+      fields[path] = changed
+        ? { value: sumCounts(counts), updatedAt: now, deviceId, counts }
+        : { ...prev, value: sumCounts(counts), counts };
+      continue;
+    }
+
+    fields[path] =
+      prev && !prev.deleted && isEqualJSON(prev.value, value)
+        ? prev
+        : { value, updatedAt: now, deviceId };
+  }
+
+  for (const [path, prev] of Object.entries(before)) {
+    if (path in fields) continue;
+    const strategy = strategyFor(fromSyncPath(path)) ?? 'lww';
+    fields[path] =
+      strategy === 'lww' && !prev.deleted
+        ? { value: null, updatedAt: now, deviceId, deleted: true }
+        : prev;
+  }
+
+  return createSyncDocument(fields);
+}
+
+// ============================================================================
+// Merging
+// ============================================================================
+
+function isNewer(a: SyncField, b: SyncField): boolean {
+  if (a.updatedAt !== b.updatedAt) return a.updatedAt > b.updatedAt;
+  if (a.deviceId !== b.deviceId) return a.deviceId > b.deviceId;
+  // Same stamp from the same device: pick deterministically by content
+  return JSON.stringify(a) > JSON.stringify(b);
+}
+
+function newer(a: SyncField, b: SyncField): SyncField {
+  return isNewer(a, b) ? a : b;
+}
+
+function unionKey(item: JSONValue): string {
+  return isPlainObject(item) && typeof item.id === 'string'
+    ? `id:${item.id}`
+    : JSON.stringify(item);
+}
+
+function mergeUnion(a: SyncField, b: SyncField): SyncField {
+  const winner = newer(a, b);
+  const loser = winner === a ? b : a;
+  const seen = new Set<string>();
+  const items: JSONValue[] = [];
+  for (const item of [
+    ...(winner.value as JSONValue[]),
+    ...(loser.value as JSONValue[]),
+  ]) {
+    const key = unionKey(item);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    items.push(item);
+  }
+  return { ...winner, value: items };
+}
+
+function mergeCounts(a: SyncField, b: SyncField): SyncField {
+  const counts: Record<string, number> = {};
+  for (const source of [a.counts!, b.counts!]) {
+    for (const [device, n] of Object.entries(source)) {
+      counts[device] = Math.max(counts[device] ?? 0, n);
+    }
+  }
+  return { ...newer(a, b), value: sumCounts(counts), counts };
+}
+
+function mergeExtreme(
+  a: SyncField,
+  b: SyncField,
+  pick: (x: number, y: number) => number,
+): SyncField {
+  return {
+    ...newer(a, b),
+    value: pick(a.value as number, b.value as number),
+  };
+}
+
+/**
+ * Merges one field present on both sides. Values of the wrong shape for
+ * their strategy (or tombstones) fall back to last-writer-wins, which keeps
+ * the merge commutative and idempotent for any input.
+ */
+export function mergeSyncField(
+  a: SyncField,
+  b: SyncField,
+  strategy: SyncStrategy,
+): SyncField {
+  if (a.deleted || b.deleted) return newer(a, b);
+  switch (strategy) {
+    case 'sum':
+      return a.counts && b.counts ? mergeCounts(a, b) : newer(a, b);
+    case 'max':
+    case 'min':
+      return typeof a.value === 'number' && typeof b.value === 'number'
+        ? mergeExtreme(a, b, strategy === 'max' ? Math.max : Math.min)
+        : newer(a, b);
+    case 'union':
+      return Array.isArray(a.value) && Array.isArray(b.value)
+        ? mergeUnion(a, b)
+        : newer(a, b);
+    default:
+      return newer(a, b);
+  }
+}
+
+export function mergeSyncDocuments(
+  a: SyncDocument,
+  b: SyncDocument,
+  rules: SyncRule[] = DEFAULT_SYNC_RULES,
+): SyncDocument {
+  const strategyFor = compileRules(rules);
+  const fields: Record<string, SyncField> = { ...a.fields };
+  for (const [path, field] of Object.entries(b.fields)) {
+    const other = fields[path];
+    fields[path] = other
+      ? mergeSyncField(other, field, strategyFor(fromSyncPath(path)) ?? 'lww')
+      : field;
+  }
+  return createSyncDocument(fields);
+}
@@ -0,0 +1,173 @@
+/**
+ * Local-first sync between devices.
+ *
+ * Each sync reads the synced backup sections, stamps them into a change log
+ * against the last merged document this device saw, merges with the remote
+ * document from the adapter, pushes the result and writes any incoming
+ * changes back through the backup restore path. Nothing leaves the device
+ * except through the adapter the user picked.
+ */
+
+import localforage from 'localforage';
+import {
+  applyBackup,
+  BACKUP_VERSION,
+  createBackup,
+  type BackupSectionKey,
+  type JSONObject,
+} from '@/shared/lib/backup';
+import {
+  applyFieldsToSections,
+  buildLocalDocument,
+  DEFAULT_SYNC_RULES,
+  flattenSections,
+  mergeSyncDocuments,
+  type SyncDocument,
+  type SyncRule,
+} from './changeLog';
+import { parseSyncDocument, SyncError, type SyncAdapter } from './adapters';
+
+export * from './changeLog';
+export * from './adapters';
+
+const STATE_KEY = 'kanadojo-sync-state';
+
+/**
+ * Sections that follow the user across devices, limited to the listed
+ * top-level keys (null for all) where only part of a store is progress. Wallpapers
+ * (large images) and dojo selections stay per device.
+ */
+export const SYNCED_SECTIONS: Partial<
+  Record<BackupSectionKey, string[] | null>
+> = {
+  theme: null,
+  customTheme: null,
+  goalTimers: null,
+  stats: ['allTimeStats'],
+  visits: null,
+  achievements: null,
+  reviews: null,
+  customSets: null,
+  mistakes: null,
+  daily: null,
+  adaptiveWeights: null,
+  gauntletStats: null,
+  gauntletSettings: null,
+  translatorHistory: null,
+  conjugatorHistory: null,
+};
+
+const SYNCED_SECTION_KEYS = Object.keys(SYNCED_SECTIONS) as BackupSectionKey[];
+
+export interface SyncOptions {
+  deviceId: string;
+  now?: number;
+  rules?: SyncRule[];
+  /** Pull-merge-push rounds to try when another device pushes meanwhile */
+  maxAttempts?: number;
+}
+
+export interface SyncResult {
+  adapter: string;
+  /** Whether the adapter had a document from another device to merge */
+  pulled: boolean;
+  /** Sections whose local data changed because of the merge */
+  changedSections: BackupSectionKey[];
+  fieldCount: number;
+}
+
+async function readSyncedSections(): Promise<Record<string, JSONObject>> {
+  const backup = await createBackup(SYNCED_SECTION_KEYS);
+  const sections: Record<string, JSONObject> = {};
+  for (const key of SYNCED_SECTION_KEYS) {
+    const section = backup[key];
+    if (!section) continue;
+    const keys = SYNCED_SECTIONS[key];
+    sections[key] = !keys
+      ? section
+      : Object.fromEntries(
+          Object.entries(section).filter(([k]) => keys.includes(k)),
+        );
+  }
+  return sections;
+}
+
+async function loadSyncState(): Promise<SyncDocument | null> {
+  try {
+    const stored = await localforage.getItem<unknown>(STATE_KEY);
+    return stored ? parseSyncDocument(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Forget what was last synced, e.g. after switching to a different server.
+ * The next sync then treats every local value as this device's own.
+ */
+export async function resetSyncState(): Promise<void> {
+  await localforage.removeItem(STATE_KEY);
+}
+
+export async function syncWithAdapter(
+  adapter: SyncAdapter,
+  {
+    deviceId,
+    now = Date.now(),
+    rules = DEFAULT_SYNC_RULES,
+    maxAttempts = 3,
+  }: SyncOptions,
+): Promise<SyncResult> {
+  const local = await readSyncedSections();
+  const localDoc = buildLocalDocument(
+    flattenSections(local, rules),
+    await loadSyncState(),
+    deviceId,
+    now,
+    rules,
+  );
+
+  for (let attempt = 1; ; attempt++) {
+    const snapshot = await adapter.pull();
+    const merged = snapshot.document
+      ? mergeSyncDocuments(localDoc, snapshot.document, rules)
+      : localDoc;
+
+    try {
+      await adapter.push(merged, snapshot);
+    } catch (err) {
+      if (
+        err instanceof SyncError &&
+        err.code === 'conflict' &&
+        attempt < maxAttempts
+      ) {
+        continue;
+      }
+      throw err;
+    }
+
+    const updated = applyFieldsToSections(local, merged.fields);
+    const changedSections = SYNCED_SECTION_KEYS.filter(
+      key => JSON.stringify(updated[key]) !== JSON.stringify(local[key]),
+    );
+    if (changedSections.length > 0) {
+      const ok = await applyBackup({
+        version: BACKUP_VERSION,
+        appVersion: 'sync',
+        createdAt: new Date(now).toISOString(),
+        ...Object.fromEntries(changedSections.map(key => [key, updated[key]])),
+      });
+      if (!ok) {
+        throw new SyncError('invalid', 'Could not apply the synced data');
+      }
+    }
+    await localforage.setItem(STATE_KEY, merged);
+
+    return {
+      adapter: adapter.name,
+      pulled: snapshot.document !== null,
+      changedSections,
+      fieldCount: Object.keys(merged.fields).length,
+    };
+  }
+}
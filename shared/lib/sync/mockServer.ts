@@ -0,0 +1,89 @@
+/**
+ * In-memory WebDAV-style server for tests and local development.
+ *
+ * Exposes a `fetch` implementation that understands GET and PUT with ETag
+ * preconditions and optional basic auth, which is all the WebDAV adapter
+ * relies on. Pass it as `createWebDavSyncAdapter({ url, fetch })`.
+ */
+
+export interface MockSyncServerOptions {
+  username?: string;
+  password?: string;
+}
+
+export interface MockSyncServer {
+  fetch: typeof fetch;
+  /** Stored body by URL path, for assertions */
+  files: Map<string, { body: string; etag: string }>;
+  requestCount: () => number;
+}
+
+export function createMockSyncServer(
+  options: MockSyncServerOptions = {},
+): MockSyncServer {
+  const files = new Map<string, { body: string; etag: string }>();
+  let revision = 0;
+  let requests = 0;
+  const expectedAuth =
+    options.username !== undefined
+      ? `Basic ${btoa(
+          String.fromCharCode(
+            ...new TextEncoder().encode(
+              `${options.username}:${options.password ?? ''}`,
+            ),
+          ),
+        )}`
+      : null;
+
+  const handle = async (
+    input: RequestInfo | URL,
+    init: RequestInit = {},
+  ): Promise<Response> => {
+    requests++;
+    const url = new URL(
+      typeof input === 'string' || input instanceof URL ? input : input.url,
+      'http://localhost',
+    );
+    const headers = new Headers(init.headers);
+    const method = (init.method ?? 'GET').toUpperCase();
+
+    if (expectedAuth && headers.get('Authorization') !== expectedAuth) {
+      return new Response(null, { status: 401 });
+    }
+
+    const current = files.get(url.pathname);
+    if (method === 'GET') {
+      return current
+        ? new Response(current.body, {
+            status: 200,
+            headers: { ETag: current.etag },
+          })
+        : new Response(null, { status: 404 });
+    }
+
+    if (method === 'PUT') {
+      const ifMatch = headers.get('If-Match');
+      const ifNoneMatch = headers.get('If-None-Match');
+      if (
+        (ifMatch && ifMatch !== current?.etag) ||
+        (ifNoneMatch === '*' && current)
+      ) {
+        return new Response(null, { status: 412 });
+      }
+      const etag = `"${++revision}"`;
+      files.set(url.pathname, { body: String(init.body ?? ''), etag });
+      return new Response(null, {
+        status: current ? 204 : 201,
+        headers: { ETag: etag },
+      });
+    }
+
+    return new Response(null, { status: 405 });
+  };
+
+  return {
+    fetch: handle as typeof fetch,
+    files,
+    requestCount: () => requests,
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Text Analysis Web Worker
+ *
+ * Tokenizes Japanese text with kuromoji in a background thread. The
+ * dictionary (served from /kuromoji/dict/) is only downloaded on the first
+ * request, then kept in memory for the life of the worker.
+ *
+ * @module shared/lib/textAnalysis/analysisWorker
+ */
+
+import kuromoji, { type Tokenizer } from 'kuromoji';
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from './types';
+import { toAnalyzedTokens } from './tokens';
+
+const DICTIONARY_PATH = '/kuromoji/dict/';
+
+let tokenizerPromise: Promise<Tokenizer> | null = null;
+
+/**
+ * Build the tokenizer once, retrying on the next request if loading failed
+ */
+function getTokenizer(): Promise<Tokenizer> {
+  if (!tokenizerPromise) {
+    tokenizerPromise = new Promise<Tokenizer>((resolve, reject) => {
+      kuromoji
+        .builder({ dicPath: DICTIONARY_PATH })
+        .build((error, tokenizer) => {
+          if (error) {
+            tokenizerPromise = null;
+            reject(error);
+          } else {
+            resolve(tokenizer);
+          }
+        });
+    });
+  }
+  return tokenizerPromise;
+}
+
+/**
+ * Post a message to the main thread
+ */
+function postResponse(message: AnalysisWorkerResponse): void {
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const { id, payload } = event.data;
+
+  try {
+    const tokenizer = await getTokenizer();
+    postResponse({
+      type: 'success',
+      id,
+      payload: toAnalyzedTokens(tokenizer.tokenize(payload.text)),
+    });
+  } catch (error) {
+    postResponse({
+      type: 'error',
+      id,
+      payload: {
+        message: error instanceof Error ? error.message : String(error),
+      },
+    });
+  }
+};
+
+postResponse({ type: 'ready' });
@@ -0,0 +1,112 @@
+/**
+ * Japanese text analysis (tokens with readings and parts of speech).
+ *
+ * Text is tokenized in the browser by a kuromoji Web Worker, so furigana
+ * and word breakdowns keep working offline and do not count against the
+ * /api/analyze-text rate limit. The API route is only used when the worker
+ * cannot run or its dictionary fails to load.
+ */
+
+import { getAnalysisWorkerClient } from './workerClient';
+import type { AnalyzedToken } from './types';
+
+export type { AnalyzedToken, KuromojiToken } from './types';
+export { toAnalyzedTokens } from './tokens';
+export {
+  createAnalysisWorkerClient,
+  getAnalysisWorkerClient,
+  type AnalysisWorkerClient,
+} from './workerClient';
+
+interface TextAnalysisResponse {
+  tokens: AnalyzedToken[];
+  cached?: boolean;
+}
+
+// Client-side cache
+const clientCache = new Map<
+  string,
+  { tokens: AnalyzedToken[]; timestamp: number }
+>();
+const CLIENT_CACHE_TTL = 1000 * 60 * 30; // 30 minutes
+const MAX_CLIENT_CACHE_SIZE = 50;
+
+function cleanupClientCache() {
+  if (clientCache.size > MAX_CLIENT_CACHE_SIZE) {
+    const now = Date.now();
+    for (const [key, value] of clientCache) {
+      if (now - value.timestamp > CLIENT_CACHE_TTL) {
+        clientCache.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Analyze text with the server-side kuromoji route
+ */
+async function analyzeTextRemotely(text: string): Promise<AnalyzedToken[]> {
+  const response = await fetch('/api/analyze-text', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ text }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to analyze text');
+  }
+
+  const data: TextAnalysisResponse = await response.json();
+  return data.tokens;
+}
+
+/**
+ * Analyze Japanese text to extract word-by-word information
+ * @param text Japanese text to analyze
+ * @returns Array of analyzed tokens with readings, POS tags, and meanings
+ */
+export async function analyzeText(text: string): Promise<AnalyzedToken[]> {
+  if (!text || text.trim().length === 0) {
+    return [];
+  }
+
+  // Check client cache
+  const cached = clientCache.get(text);
+  if (cached && Date.now() - cached.timestamp < CLIENT_CACHE_TTL) {
+    return cached.tokens;
+  }
+
+  let tokens: AnalyzedToken[];
+  try {
+    tokens = await getAnalysisWorkerClient().analyze(text);
+  } catch (workerError) {
+    console.warn('Local text analysis unavailable, using API:', workerError);
+    try {
+      tokens = await analyzeTextRemotely(text);
+    } catch (error) {
+      console.error('Text analysis error:', error);
+      return [];
+    }
+  }
+
+  // Cache the result
+  clientCache.set(text, {
+    tokens,
+    timestamp: Date.now(),
+  });
+  cleanupClientCache();
+
+  return tokens;
+}
+
+/**
+ * Check if text contains Japanese characters (needs analysis)
+ */
+export function needsAnalysis(text: string): boolean {
+  // Check for Hiragana, Katakana, or Kanji
+  const japaneseRegex = /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/;
+  return japaneseRegex.test(text);
+}
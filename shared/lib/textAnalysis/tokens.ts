@@ -0,0 +1,78 @@
+/**
+ * Conversion from kuromoji's IPADIC tokens to AnalyzedToken
+ *
+ * Used on both sides of the analysis fallback, so the worker and the API
+ * route return identical tokens for the same text.
+ */
+
+import type { AnalyzedToken, KuromojiToken } from './types';
+
+/**
+ * Convert katakana reading to hiragana
+ */
+export function katakanaToHiragana(katakana: string): string {
+  if (!katakana) return '';
+  return katakana.replace(/[\u30A1-\u30F6]/g, match => {
+    const chr = match.charCodeAt(0) - 0x60;
+    return String.fromCharCode(chr);
+  });
+}
+
+/**
+ * Get simplified POS tag (more readable)
+ */
+export function getSimplifiedPOS(pos: string): string {
+  const posMap: Record<string, string> = {
+    名詞: 'Noun',
+    動詞: 'Verb',
+    形容詞: 'Adjective',
+    形容動詞: 'Na-adjective',
+    副詞: 'Adverb',
+    助詞: 'Particle',
+    助動詞: 'Auxiliary',
+    接続詞: 'Conjunction',
+    連体詞: 'Pre-noun',
+    感動詞: 'Interjection',
+    記号: 'Symbol',
+    フィラー: 'Filler',
+    接頭詞: 'Prefix',
+    接尾辞: 'Suffix',
+  };
+
+  return posMap[pos] || pos;
+}
+
+/**
+ * Get POS detail information
+ */
+export function getPOSDetail(token: KuromojiToken): string {
+  const details: string[] = [];
+
+  // Add conjugation info for verbs/adjectives
+  if (token.conjugated_type !== '*') {
+    details.push(token.conjugated_type);
+  }
+  if (token.conjugated_form !== '*') {
+    details.push(token.conjugated_form);
+  }
+
+  // Add pos details
+  if (token.pos_detail_1 !== '*') {
+    details.push(token.pos_detail_1);
+  }
+
+  return details.join(', ') || 'No additional info';
+}
+
+/**
+ * Convert kuromoji tokens to the simplified client format
+ */
+export function toAnalyzedTokens(tokens: KuromojiToken[]): AnalyzedToken[] {
+  return tokens.map(token => ({
+    surface: token.surface_form,
+    reading: katakanaToHiragana(token.reading ?? ''),
+    basicForm: token.basic_form !== '*' ? token.basic_form : undefined,
+    pos: getSimplifiedPOS(token.pos),
+    posDetail: getPOSDetail(token),
+  }));
+}
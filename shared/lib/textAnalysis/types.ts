@@ -0,0 +1,47 @@
+/**
+ * Text Analysis Types
+ *
+ * Token shapes shared by the in-browser tokenizer worker and the
+ * /api/analyze-text route, and the messages exchanged with the worker.
+ */
+
+// Type for kuromoji token
+export interface KuromojiToken {
+  surface_form: string; // The actual text
+  pos: string; // Part of speech
+  pos_detail_1: string; // POS detail 1
+  pos_detail_2: string; // POS detail 2
+  pos_detail_3: string; // POS detail 3
+  conjugated_type: string; // Conjugation type
+  conjugated_form: string; // Conjugation form
+  basic_form: string; // Dictionary form
+  reading?: string; // Katakana reading
+  pronunciation?: string; // Pronunciation
+}
+
+// Simplified token for client
+export interface AnalyzedToken {
+  surface: string; // The displayed text
+  reading?: string; // Hiragana reading
+  basicForm?: string; // Dictionary form
+  pos: string; // Part of speech tag (Noun, Verb, etc.)
+  posDetail: string; // Detailed POS info
+  translation?: string; // English meaning (if available)
+}
+
+/**
+ * Message types sent from main thread to worker
+ */
+export type AnalysisWorkerRequest = {
+  type: 'analyze';
+  id: string;
+  payload: { text: string };
+};
+
+/**
+ * Message types sent from worker to main thread
+ */
+export type AnalysisWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'success'; id: string; payload: AnalyzedToken[] }
+  | { type: 'error'; id: string; payload: { message: string } };
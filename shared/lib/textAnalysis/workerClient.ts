@@ -0,0 +1,144 @@
+/**
+ * Web Worker Manager for text analysis
+ *
+ * Starts the tokenizer worker on first use and matches its responses to
+ * pending requests.
+ *
+ * @module shared/lib/textAnalysis/workerClient
+ */
+
+import type {
+  AnalysisWorkerRequest,
+  AnalysisWorkerResponse,
+  AnalyzedToken,
+} from './types';
+
+/**
+ * Pending analysis request
+ */
+interface PendingAnalysis {
+  resolve: (tokens: AnalyzedToken[]) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Generate a unique ID for analysis requests
+ */
+function generateId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+}
+
+/**
+ * Create an analysis worker client
+ */
+export function createAnalysisWorkerClient() {
+  let worker: Worker | null = null;
+  const pending = new Map<string, PendingAnalysis>();
+
+  /**
+   * Reject every pending request, e.g. when the worker crashes
+   */
+  function rejectAll(message: string): void {
+    for (const [id, request] of pending) {
+      request.reject(new Error(message));
+      pending.delete(id);
+    }
+  }
+
+  /**
+   * Handle messages from the worker
+   */
+  function handleMessage(event: MessageEvent<AnalysisWorkerResponse>): void {
+    const message = event.data;
+    if (message.type === 'ready') return;
+
+    const request = pending.get(message.id);
+    if (!request) return;
+    pending.delete(message.id);
+
+    if (message.type === 'success') {
+      request.resolve(message.payload);
+    } else {
+      request.reject(new Error(message.payload.message));
+    }
+  }
+
+  /**
+   * Start the worker if needed
+   */
+  function getWorker(): Worker {
+    if (!worker) {
+      worker = new Worker(new URL('./analysisWorker.ts', import.meta.url), {
+        type: 'module',
+      });
+      worker.onmessage = handleMessage;
+      worker.onerror = event => {
+        rejectAll(`Worker error: ${event.message}`);
+        terminate();
+      };
+    }
+    return worker;
+  }
+
+  /**
+   * Tokenize text in the worker
+   */
+  function analyze(text: string): Promise<AnalyzedToken[]> {
+    if (!isSupported()) {
+      return Promise.reject(
+        new Error('Web Workers are not supported in this environment'),
+      );
+    }
+
+    const id = generateId();
+    return new Promise<AnalyzedToken[]>((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      try {
+        const message: AnalysisWorkerRequest = {
+          type: 'analyze',
+          id,
+          payload: { text },
+        };
+        getWorker().postMessage(message);
+      } catch (error) {
+        pending.delete(id);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  /**
+   * Terminate the worker, dropping the loaded dictionary
+   */
+  function terminate(): void {
+    rejectAll('Worker terminated');
+    worker?.terminate();
+    worker = null;
+  }
+
+  /**
+   * Check if worker is supported in current environment
+   */
+  function isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  return { analyze, terminate, isSupported };
+}
+
+export type AnalysisWorkerClient = ReturnType<
+  typeof createAnalysisWorkerClient
+>;
+
+// Singleton instance
+let clientInstance: AnalysisWorkerClient | null = null;
+
+/**
+ * Get the shared analysis worker client
+ */
+export function getAnalysisWorkerClient(): AnalysisWorkerClient {
+  if (!clientInstance) {
+    clientInstance = createAnalysisWorkerClient();
+  }
+  return clientInstance;
+}
@@ -0,0 +1,259 @@
+/**
+ * Custom Sets Store
+ *
+ * Persists practice sets that don't ship with KanaDojo, such as decks
+ * imported from Anki. Each set belongs to the Vocabulary or Kanji dojo and
+ * is selected in that dojo's menu alongside the built-in JLPT levels; the
+ * set name is what ends up in `selectedVocabSets` / `selectedKanjiSets`.
+ *
+ * Study sets are the user's own: they can mix kana, kanji and vocabulary,
+ * and each dojo offers the part of the set it can practice.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { IKanjiObj } from '@/features/Kanji';
+import type { IVocabObj } from '@/features/Vocabulary';
+
+interface CustomSetBase {
+  id: string;
+  name: string;
+  source: 'anki';
+  createdAt: number;
+}
+
+export interface CustomSetItems {
+  vocabulary: IVocabObj;
+  kanji: IKanjiObj;
+}
+
+export type CustomSet = {
+  [K in keyof CustomSetItems]: CustomSetBase & {
+    contentType: K;
+    items: CustomSetItems[K][];
+  };
+}[keyof CustomSetItems];
+
+export type CustomSetInput = Omit<CustomSet, 'id' | 'createdAt'>;
+
+/** What one entry of a study set is, per dojo (kana as their characters) */
+export interface StudySetItemTypes extends CustomSetItems {
+  kana: string;
+}
+
+export type StudySetContentType = keyof StudySetItemTypes;
+
+export type StudySetItems = {
+  [K in StudySetContentType]: StudySetItemTypes[K][];
+};
+
+export interface StudySet {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  items: StudySetItems;
+}
+
+interface CustomSetsState {
+  sets: CustomSet[];
+  studySets: StudySet[];
+
+  // Actions
+  addSet: (set: CustomSetInput) => CustomSet;
+  removeSet: (id: string) => void;
+
+  createStudySet: (name: string, items?: Partial<StudySetItems>) => StudySet;
+  renameStudySet: (id: string, name: string) => void;
+  addToStudySet: (id: string, items: Partial<StudySetItems>) => void;
+  removeFromStudySet: (
+    id: string,
+    contentType: StudySetContentType,
+    key: string,
+  ) => void;
+  removeStudySet: (id: string) => void;
+}
+
+// Selection keys of the built-in JLPT level sets ("Set 1", "Set 2", ...)
+const BUILT_IN_SET_NAME = /^Set \d+$/;
+
+/**
+ * Make a set name unique within its dojo so it can double as the
+ * selection key ("Core 2k", "Core 2k (2)", ...). Built-in level set names
+ * are always taken.
+ */
+export const getUniqueSetName = (
+  name: string,
+  takenNames: string[],
+): string => {
+  const isTaken = (candidate: string) =>
+    takenNames.includes(candidate) || BUILT_IN_SET_NAME.test(candidate);
+  const base = name.trim() || 'Imported deck';
+  if (!isTaken(base)) return base;
+  let suffix = 2;
+  while (isTaken(`${base} (${suffix})`)) suffix++;
+  return `${base} (${suffix})`;
+};
+
+/**
+ * Key an entry is deduplicated and removed by: the kana or kanji character,
+ * or the word
+ */
+export const getStudySetItemKey = <K extends StudySetContentType>(
+  contentType: K,
+  item: StudySetItemTypes[K],
+): string =>
+  contentType === 'kana'
+    ? (item as string)
+    : contentType === 'kanji'
+      ? (item as IKanjiObj).kanjiChar
+      : (item as IVocabObj).word;
+
+export const EMPTY_STUDY_SET_ITEMS: StudySetItems = {
+  kana: [],
+  kanji: [],
+  vocabulary: [],
+};
+
+const STUDY_SET_CONTENT_TYPES: StudySetContentType[] = [
+  'kana',
+  'kanji',
+  'vocabulary',
+];
+
+/**
+ * Add entries to study set items, skipping the ones already in it
+ */
+export const mergeStudySetItems = (
+  current: StudySetItems,
+  added: Partial<StudySetItems>,
+): StudySetItems => {
+  const merge = <K extends StudySetContentType>(contentType: K) => {
+    const existing = current[contentType];
+    const seen = new Set(
+      existing.map(item => getStudySetItemKey(contentType, item)),
+    );
+    const next = [...existing];
+    for (const item of added[contentType] ?? []) {
+      const key = getStudySetItemKey(contentType, item);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      next.push(item);
+    }
+    return next;
+  };
+  return {
+    kana: merge('kana'),
+    kanji: merge('kanji'),
+    vocabulary: merge('vocabulary'),
+  };
+};
+
+export const countStudySetItems = (items: StudySetItems): number =>
+  STUDY_SET_CONTENT_TYPES.reduce(
+    (total, contentType) => total + items[contentType].length,
+    0,
+  );
+
+const allSetNames = (state: CustomSetsState) => [
+  ...state.sets.map(existing => existing.name),
+  ...state.studySets.map(existing => existing.name),
+];
+
+const withoutStudySetItem = <K extends StudySetContentType>(
+  items: StudySetItems,
+  contentType: K,
+  key: string,
+): StudySetItems => ({
+  ...items,
+  [contentType]: items[contentType].filter(
+    item => getStudySetItemKey(contentType, item) !== key,
+  ),
+});
+
+const updateStudySet = (
+  state: CustomSetsState,
+  id: string,
+  update: (studySet: StudySet) => Partial<StudySet>,
+) => ({
+  studySets: state.studySets.map(studySet =>
+    studySet.id === id
+      ? { ...studySet, ...update(studySet), updatedAt: Date.now() }
+      : studySet,
+  ),
+});
+
+const useCustomSetsStore = create<CustomSetsState>()(
+  persist(
+    (set, get) => ({
+      sets: [],
+      studySets: [],
+
+      // Names are the selection keys, so they are unique across imported
+      // decks of both content types and study sets
+      addSet: input => {
+        const customSet = {
+          ...input,
+          id: `${input.source}-${Date.now().toString(36)}-${get().sets.length}`,
+          name: getUniqueSetName(input.name, allSetNames(get())),
+          createdAt: Date.now(),
+        } as CustomSet;
+        set(state => ({ sets: [...state.sets, customSet] }));
+        return customSet;
+      },
+
+      removeSet: id =>
+        set(state => ({ sets: state.sets.filter(s => s.id !== id) })),
+
+      // Study set names share the selection keys with imported decks, so
+      // they are kept unique across both
+      createStudySet: (name, items = {}) => {
+        const now = Date.now();
+        const studySet: StudySet = {
+          id: `user-${now.toString(36)}-${get().studySets.length}`,
+          name: getUniqueSetName(name.trim() || 'My set', allSetNames(get())),
+          createdAt: now,
+          updatedAt: now,
+          items: mergeStudySetItems(EMPTY_STUDY_SET_ITEMS, items),
+        };
+        set(state => ({ studySets: [...state.studySets, studySet] }));
+        return studySet;
+      },
+
+      renameStudySet: (id, name) =>
+        set(state =>
+          updateStudySet(state, id, studySet => ({
+            name: getUniqueSetName(
+              name.trim() || studySet.name,
+              allSetNames(state).filter(taken => taken !== studySet.name),
+            ),
+          })),
+        ),
+
+      addToStudySet: (id, items) =>
+        set(state =>
+          updateStudySet(state, id, studySet => ({
+            items: mergeStudySetItems(studySet.items, items),
+          })),
+        ),
+
+      removeFromStudySet: (id, contentType, key) =>
+        set(state =>
+          updateStudySet(state, id, studySet => ({
+            items: withoutStudySetItem(studySet.items, contentType, key),
+          })),
+        ),
+
+      removeStudySet: id =>
+        set(state => ({
+          studySets: state.studySets.filter(studySet => studySet.id !== id),
+        })),
+    }),
+    {
+      name: 'kanadojo-custom-sets',
+      partialize: state => ({ sets: state.sets, studySets: state.studySets }),
+    },
+  ),
+);
+
+export default useCustomSetsStore;
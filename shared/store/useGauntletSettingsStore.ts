@@ -3,6 +3,8 @@
  *
  * Stores all Gauntlet mode settings (game mode, difficulty, repetitions)
  * in a centralized store that persists across navigation and sessions.
+ * Custom challenge presets are kept here too, and selected per dojo with
+ * the 'custom' difficulty, as is the optional per-question timer.
  *
  * This store solves the bug where settings selected in PreGameScreen were
  * not persisting when navigating to the Gauntlet game route, because they
@@ -11,10 +13,14 @@
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { GauntletPreset } from '@/shared/lib/gauntletPresets';
+import type { DojoType } from '@/shared/types/dojo';
 
-export type GauntletDifficulty = 'normal' | 'hard' | 'instant-death';
+export type GauntletDifficulty = 'normal' | 'hard' | 'instant-death' | 'custom';
 export type GauntletGameMode = 'Pick' | 'Type';
 export type RepetitionCount = 3 | 5 | 10 | 15 | 20;
+// Seconds per question; 0 for no limit
+export type QuestionTimerSeconds = 0 | 5 | 10 | 15;
 
 interface GauntletSettingsState {
   // Settings per dojo type
@@ -27,27 +33,32 @@ interface GauntletSettingsState {
   vocabularyGameMode: GauntletGameMode;
   vocabularyDifficulty: GauntletDifficulty;
   vocabularyRepetitions: RepetitionCount;
+  clozeGameMode: GauntletGameMode;
+  clozeDifficulty: GauntletDifficulty;
+  clozeRepetitions: RepetitionCount;
+
+  // Custom challenges, and the one each dojo plays on 'custom' difficulty
+  presets: GauntletPreset[];
+  presetIds: Partial<Record<DojoType, string>>;
+
+  // Per-question time limit of each dojo (custom challenges set their own)
+  questionTimers: Partial<Record<DojoType, QuestionTimerSeconds>>;
 
   // Actions
-  setGameMode: (
-    dojoType: 'kana' | 'kanji' | 'vocabulary',
-    gameMode: GauntletGameMode,
-  ) => void;
-  setDifficulty: (
-    dojoType: 'kana' | 'kanji' | 'vocabulary',
-    difficulty: GauntletDifficulty,
-  ) => void;
-  setRepetitions: (
-    dojoType: 'kana' | 'kanji' | 'vocabulary',
-    repetitions: RepetitionCount,
-  ) => void;
-  getGameMode: (dojoType: 'kana' | 'kanji' | 'vocabulary') => GauntletGameMode;
-  getDifficulty: (
-    dojoType: 'kana' | 'kanji' | 'vocabulary',
-  ) => GauntletDifficulty;
-  getRepetitions: (
-    dojoType: 'kana' | 'kanji' | 'vocabulary',
-  ) => RepetitionCount;
+  setGameMode: (dojoType: DojoType, gameMode: GauntletGameMode) => void;
+  setDifficulty: (dojoType: DojoType, difficulty: GauntletDifficulty) => void;
+  setRepetitions: (dojoType: DojoType, repetitions: RepetitionCount) => void;
+  getGameMode: (dojoType: DojoType) => GauntletGameMode;
+  getDifficulty: (dojoType: DojoType) => GauntletDifficulty;
+  getRepetitions: (dojoType: DojoType) => RepetitionCount;
+  /** Add a preset, or replace the one with the same id */
+  savePreset: (preset: GauntletPreset) => void;
+  deletePreset: (id: string) => void;
+  setPresetId: (dojoType: DojoType, id: string) => void;
+  /** The dojo's selected preset, or null if none is saved */
+  getPreset: (dojoType: DojoType) => GauntletPreset | null;
+  setQuestionTimer: (dojoType: DojoType, seconds: QuestionTimerSeconds) => void;
+  getQuestionTimer: (dojoType: DojoType) => QuestionTimerSeconds;
 }
 
 const useGauntletSettingsStore = create<GauntletSettingsState>()(
@@ -63,6 +74,13 @@ const useGauntletSettingsStore = create<GauntletSettingsState>()(
       vocabularyGameMode: 'Pick',
       vocabularyDifficulty: 'normal',
       vocabularyRepetitions: 10,
+      clozeGameMode: 'Pick',
+      clozeDifficulty: 'normal',
+      // Cloze questions are whole sentences, so fewer passes per item
+      clozeRepetitions: 3,
+      presets: [],
+      presetIds: {},
+      questionTimers: {},
 
       setGameMode: (dojoType, gameMode) => {
         switch (dojoType) {
@@ -75,6 +93,9 @@ const useGauntletSettingsStore = create<GauntletSettingsState>()(
           case 'vocabulary':
             set({ vocabularyGameMode: gameMode });
             break;
+          case 'cloze':
+            set({ clozeGameMode: gameMode });
+            break;
         }
       },
 
@@ -89,6 +110,9 @@ const useGauntletSettingsStore = create<GauntletSettingsState>()(
           case 'vocabulary':
             set({ vocabularyDifficulty: difficulty });
             break;
+          case 'cloze':
+            set({ clozeDifficulty: difficulty });
+            break;
         }
       },
 
@@ -103,6 +127,9 @@ const useGauntletSettingsStore = create<GauntletSettingsState>()(
           case 'vocabulary':
             set({ vocabularyRepetitions: repetitions });
             break;
+          case 'cloze':
+            set({ clozeRepetitions: repetitions });
+            break;
         }
       },
 
@@ -115,6 +142,8 @@ const useGauntletSettingsStore = create<GauntletSettingsState>()(
             return state.kanjiGameMode;
           case 'vocabulary':
             return state.vocabularyGameMode;
+          case 'cloze':
+            return state.clozeGameMode;
           default:
             return 'Pick';
         }
@@ -129,6 +158,8 @@ const useGauntletSettingsStore = create<GauntletSettingsState>()(
             return state.kanjiDifficulty;
           case 'vocabulary':
             return state.vocabularyDifficulty;
+          case 'cloze':
+            return state.clozeDifficulty;
           default:
             return 'normal';
         }
@@ -143,10 +174,48 @@ const useGauntletSettingsStore = create<GauntletSettingsState>()(
             return state.kanjiRepetitions;
           case 'vocabulary':
             return state.vocabularyRepetitions;
+          case 'cloze':
+            return state.clozeRepetitions;
           default:
             return 10;
         }
       },
+
+      savePreset: preset =>
+        set(state => ({
+          presets: state.presets.some(p => p.id === preset.id)
+            ? state.presets.map(p => (p.id === preset.id ? preset : p))
+            : [...state.presets, preset],
+        })),
+
+      deletePreset: id =>
+        set(state => ({
+          presets: state.presets.filter(p => p.id !== id),
+          presetIds: Object.fromEntries(
+            Object.entries(state.presetIds).filter(
+              ([, presetId]) => presetId !== id,
+            ),
+          ),
+        })),
+
+      setPresetId: (dojoType, id) =>
+        set(state => ({
+          presetIds: { ...state.presetIds, [dojoType]: id },
+        })),
+
+      getPreset: dojoType => {
+        const { presets, presetIds } = get();
+        return (
+          presets.find(p => p.id === presetIds[dojoType]) ?? presets[0] ?? null
+        );
+      },
+
+      setQuestionTimer: (dojoType, seconds) =>
+        set(state => ({
+          questionTimers: { ...state.questionTimers, [dojoType]: seconds },
+        })),
+
+      getQuestionTimer: dojoType => get().questionTimers[dojoType] ?? 0,
     }),
     {
       name: 'gauntlet-settings-storage',
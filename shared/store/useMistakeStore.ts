@@ -0,0 +1,81 @@
+/**
+ * Mistake Notebook Store
+ *
+ * Persists what each wrong Pick answer was confused with. Games record the
+ * asked item and the item the picked option belongs to; the notebook page
+ * groups them into pairs and drills them.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  addConfusion,
+  getConfusionPairId,
+  type Confusion,
+  type MistakeContentType,
+  type MistakeItem,
+} from '@/shared/lib/mistakeNotebook';
+
+interface MistakeState {
+  confusions: Record<string, Confusion>;
+
+  // Actions
+  recordConfusion: (
+    contentType: MistakeContentType,
+    item: MistakeItem,
+    confusedWith: MistakeItem,
+  ) => void;
+  removeConfusionPair: (pairId: string) => void;
+  clearConfusions: (contentType?: MistakeContentType) => void;
+}
+
+const useMistakeStore = create<MistakeState>()(
+  persist(
+    set => ({
+      confusions: {},
+
+      recordConfusion: (contentType, item, confusedWith) =>
+        set(state => ({
+          confusions: addConfusion(
+            state.confusions,
+            contentType,
+            item,
+            confusedWith,
+            Date.now(),
+          ),
+        })),
+
+      // Removes both directions of a pair
+      removeConfusionPair: pairId =>
+        set(state => ({
+          confusions: Object.fromEntries(
+            Object.entries(state.confusions).filter(
+              ([, confusion]) =>
+                getConfusionPairId(
+                  confusion.contentType,
+                  confusion.item.key,
+                  confusion.confusedWith.key,
+                ) !== pairId,
+            ),
+          ),
+        })),
+
+      clearConfusions: contentType =>
+        set(state => ({
+          confusions: contentType
+            ? Object.fromEntries(
+                Object.entries(state.confusions).filter(
+                  ([, confusion]) => confusion.contentType !== contentType,
+                ),
+              )
+            : {},
+        })),
+    }),
+    {
+      name: 'kanadojo-mistakes',
+      partialize: state => ({ confusions: state.confusions }),
+    },
+  ),
+);
+
+export default useMistakeStore;
@@ -0,0 +1,103 @@
+/**
+ * Review Schedule Store
+ *
+ * Persists a spaced-repetition card for every kana, kanji and vocabulary item
+ * the user has answered. Games record each answer here and ask for the due
+ * subset of their pool before handing it to the adaptive selector, so items
+ * whose review date has passed are served first.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  createReviewCard,
+  getCardId,
+  getDueCards,
+  getEndOfDay,
+  gradeAnswer,
+  prioritizeDue,
+  scheduleReview,
+  type ReviewCard,
+  type ReviewContentType,
+} from '@/shared/lib/spacedRepetition';
+
+interface ReviewState {
+  cards: Record<string, ReviewCard>;
+
+  // Actions
+  recordReview: (
+    contentType: ReviewContentType,
+    key: string,
+    isCorrect: boolean,
+    answerTimeMs?: number,
+  ) => void;
+  getDuePool: (
+    contentType: ReviewContentType,
+    pool: string[],
+    excludeKey?: string,
+  ) => string[];
+  getDueToday: (contentType?: ReviewContentType) => ReviewCard[];
+  getCard: (
+    contentType: ReviewContentType,
+    key: string,
+  ) => ReviewCard | undefined;
+  importReviews: (cards: ReviewCard[]) => number;
+  clearReviews: () => void;
+}
+
+const useReviewStore = create<ReviewState>()(
+  persist(
+    (set, get) => ({
+      cards: {},
+
+      recordReview: (contentType, key, isCorrect, answerTimeMs) => {
+        if (!key) return;
+        const now = Date.now();
+        const id = getCardId(contentType, key);
+        set(state => {
+          const card =
+            state.cards[id] ?? createReviewCard(contentType, key, now);
+          return {
+            cards: {
+              ...state.cards,
+              [id]: scheduleReview(
+                card,
+                gradeAnswer(isCorrect, answerTimeMs),
+                now,
+              ),
+            },
+          };
+        });
+      },
+
+      getDuePool: (contentType, pool, excludeKey) =>
+        prioritizeDue(pool, get().cards, contentType, excludeKey),
+
+      getDueToday: contentType =>
+        getDueCards(Object.values(get().cards), getEndOfDay(), contentType),
+
+      getCard: (contentType, key) => get().cards[getCardId(contentType, key)],
+
+      // Seeds schedules from another app; items already reviewed here keep
+      // their KanaDojo history. Returns how many cards were added.
+      importReviews: cards => {
+        const existing = get().cards;
+        const added: Record<string, ReviewCard> = {};
+        for (const card of cards) {
+          const id = getCardId(card.contentType, card.key);
+          if (!existing[id]) added[id] = card;
+        }
+        set(state => ({ cards: { ...state.cards, ...added } }));
+        return Object.keys(added).length;
+      },
+
+      clearReviews: () => set({ cards: {} }),
+    }),
+    {
+      name: 'kanadojo-review-schedule',
+      partialize: state => ({ cards: state.cards }),
+    },
+  ),
+);
+
+export default useReviewStore;
@@ -0,0 +1,51 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+export type SyncTransport = 'webdav' | 'file';
+
+interface SyncState {
+  // Identifies this browser in the sync change log
+  deviceId: string;
+  transport: SyncTransport;
+  webdavUrl: string;
+  webdavUsername: string;
+  webdavPassword: string;
+  lastSyncedAt: number | null;
+
+  setTransport: (transport: SyncTransport) => void;
+  setWebdavSettings: (
+    settings: Partial<
+      Pick<SyncState, 'webdavUrl' | 'webdavUsername' | 'webdavPassword'>
+    >,
+  ) => void;
+  setLastSyncedAt: (timestamp: number) => void;
+}
+
+function createDeviceId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+const useSyncStore = create<SyncState>()(
+  persist(
+    set => ({
+      deviceId: createDeviceId(),
+      transport: 'webdav',
+      webdavUrl: '',
+      webdavUsername: '',
+      webdavPassword: '',
+      lastSyncedAt: null,
+
+      setTransport: transport => set({ transport }),
+      setWebdavSettings: settings => set(settings),
+      setLastSyncedAt: lastSyncedAt => set({ lastSyncedAt }),
+    }),
+    {
+      name: 'kanadojo-sync',
+      version: 0,
+    },
+  ),
+);
+
+export default useSyncStore;
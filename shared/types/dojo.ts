@@ -0,0 +1,4 @@
+/**
+ * The dojos that share the Blitz and Gauntlet modes
+ */
+export type DojoType = 'kana' | 'kanji' | 'vocabulary' | 'cloze';
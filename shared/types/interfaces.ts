@@ -29,4 +29,6 @@ export interface IWord {
   word: string;
   reading: string;
   meanings: string[];
+  // Pitch accent downstep positions, most common first (see shared/lib/pitchAccent.ts)
+  pitchAccent?: number[];
 }
@@ -4,10 +4,11 @@ import { useEffect } from 'react';
 import { useGameEngine } from './hooks/useGameEngine';
 import { statsApi } from '@/shared/events';
 import type { ContentAdapter, GameMode } from './adapters/ContentAdapter';
+import type { DojoType } from '@/shared/types/dojo';
 
 export interface TrainingGameProps<T> {
   content: T[];
-  contentType: 'kana' | 'kanji' | 'vocabulary';
+  contentType: DojoType;
   mode: GameMode;
   adapter: ContentAdapter<T>;
   onComplete?: () => void;
@@ -4,12 +4,13 @@ import { useState, useCallback, useMemo } from 'react';
 import { statsApi } from '@/shared/events';
 import { shuffle } from '@/shared/lib/shuffle';
 import type { ContentAdapter, GameMode } from '../adapters/ContentAdapter';
+import type { DojoType } from '@/shared/types/dojo';
 
 export interface GameEngineConfig<T> {
   content: T[];
   mode: GameMode;
   adapter: ContentAdapter<T>;
-  contentType: 'kana' | 'kanji' | 'vocabulary';
+  contentType: DojoType;
 }
 
 export interface GameState<T> {